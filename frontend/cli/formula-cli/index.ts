@@ -20,9 +20,12 @@ import {
   FormulaCalculationResult,
   FormulaEngineConfig
 } from '../../src/lib/formula-engine/index';
+import { createWorkerPluginSandbox, loadFormulaPluginsFromDirectory } from '../../src/lib/formula-engine/node-plugins';
 
 import { Spreadsheet } from '../../src/lib/spreadsheet';
-import { CellPosition } from '../../src/lib/cell';
+import { Workbook, createWorkbookFromSpreadsheet, getActiveSheet } from '../../src/lib/workbook';
+import { CellPosition, SheetCellPosition } from '../../src/lib/cell';
+import { formatSheetName } from '../../src/lib/formula';
 
 // CLIプログラムの設定
 const program = new Command();
@@ -30,7 +33,8 @@ const program = new Command();
 program
   .name('formula-cli')
   .description('Formula calculation and analysis CLI tool')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--plugins <directory>', '関数のプラグインを読み込むディレクトリ（環境変数 FORMULA_PLUGINS_DIR でも指定可能）');
 
 /**
  * エラーハンドリング用のユーティリティ関数
@@ -45,10 +49,54 @@ function handleError(error: unknown, context: string): void {
   process.exit(1);
 }
 
+/**
+ * プラグインのディレクトリから数式エンジンの設定を作成する
+ * 読み込めないプラグインは警告を表示して読み込まない
+ */
+function getEngineConfig(): FormulaEngineConfig {
+  const directory = program.opts().plugins ?? process.env.FORMULA_PLUGINS_DIR;
+  if (!directory) {
+    return {};
+  }
+
+  const { plugins, errors } = loadFormulaPluginsFromDirectory(resolve(directory));
+  errors.forEach(({ file, error }) => {
+    console.error(chalk.yellow(`プラグインを読み込めませんでした (${file}): ${error}`));
+  });
+  return { plugins, pluginSandbox: createWorkerPluginSandbox };
+}
+
+/**
+ * プラグインを読み込んだ数式エンジンを作成する
+ */
+function createEngine(): SpreadsheetFormulaEngine {
+  return createFormulaEngine(getEngineConfig());
+}
+
+/**
+ * 保存用の形式からスプレッドシートを復元する
+ */
+function restoreSpreadsheet(data: any): Spreadsheet {
+  const spreadsheet = { ...data };
+
+  // セルマップを復元
+  if (spreadsheet.cells && Array.isArray(spreadsheet.cells)) {
+    spreadsheet.cells = new Map(spreadsheet.cells);
+  }
+
+  // 日付を復元
+  if (spreadsheet.createdAt) spreadsheet.createdAt = new Date(spreadsheet.createdAt);
+  if (spreadsheet.updatedAt) spreadsheet.updatedAt = new Date(spreadsheet.updatedAt);
+
+  return spreadsheet as Spreadsheet;
+}
+
 /**
  * スプレッドシートファイルを読み込む
+ * ワークブック形式（sheets・namesを持つ）のファイルは全シートと名前（LAMBDAで定義した関数を含む）を読み込み、
+ * 1シートのファイルは1シートのワークブックとして扱う
  */
-function loadSpreadsheetFile(filePath: string): Spreadsheet {
+function loadWorkbookFile(filePath: string): { workbook: Workbook; isWorkbookFile: boolean } {
   try {
     if (!existsSync(filePath)) {
       throw new Error(`ファイルが見つかりません: ${filePath}`);
@@ -57,30 +105,35 @@ function loadSpreadsheetFile(filePath: string): Spreadsheet {
     const content = readFileSync(filePath, 'utf-8');
     const data = JSON.parse(content);
 
-    // セルマップを復元
-    if (data.cells && Array.isArray(data.cells)) {
-      data.cells = new Map(data.cells);
+    if (!Array.isArray(data.sheets)) {
+      return { workbook: createWorkbookFromSpreadsheet(restoreSpreadsheet(data)), isWorkbookFile: false };
     }
 
-    // 日付を復元
-    if (data.createdAt) data.createdAt = new Date(data.createdAt);
-    if (data.updatedAt) data.updatedAt = new Date(data.updatedAt);
-
-    return data as Spreadsheet;
+    const workbook = {
+      ...data,
+      createdAt: data.createdAt ? new Date(data.createdAt) : data.createdAt,
+      updatedAt: data.updatedAt ? new Date(data.updatedAt) : data.updatedAt,
+      sheets: data.sheets.map(restoreSpreadsheet),
+      names: data.names || []
+    } as Workbook;
+    return { workbook, isWorkbookFile: true };
   } catch (error) {
     throw new Error(`スプレッドシートの読み込みに失敗: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
 /**
- * スプレッドシートファイルを保存する
+ * スプレッドシートファイルを保存する（読み込んだときと同じ形式で保存する）
  */
-function saveSpreadsheetFile(spreadsheet: Spreadsheet, filePath: string): void {
+function saveWorkbookFile(workbook: Workbook, isWorkbookFile: boolean, filePath: string): void {
   try {
-    const data = {
+    const serializeSpreadsheet = (spreadsheet: Spreadsheet) => ({
       ...spreadsheet,
       cells: Array.from(spreadsheet.cells.entries())
-    };
+    });
+    const data = isWorkbookFile
+      ? { ...workbook, sheets: workbook.sheets.map(serializeSpreadsheet) }
+      : serializeSpreadsheet(getActiveSheet(workbook));
 
     writeFileSync(filePath, JSON.stringify(data, null, 2));
   } catch (error) {
@@ -113,9 +166,9 @@ function parseCellPosition(cellRef: string): CellPosition {
 }
 
 /**
- * セル位置を文字列に変換する（例: {row: 0, column: 0} -> "A1"）
+ * セル位置を文字列に変換する（例: {row: 0, column: 0} -> "A1"、別シートは "Sheet2!A1"）
  */
-function formatCellPosition(position: CellPosition): string {
+function formatCellPosition(position: SheetCellPosition): string {
   let column = position.column + 1;
   let columnStr = '';
 
@@ -125,7 +178,8 @@ function formatCellPosition(position: CellPosition): string {
     column = Math.floor(column / 26);
   }
 
-  return columnStr + (position.row + 1);
+  const a1Notation = columnStr + (position.row + 1);
+  return position.sheetName ? `${formatSheetName(position.sheetName)}!${a1Notation}` : a1Notation;
 }
 
 /**
@@ -157,12 +211,16 @@ program
   .description('数式を評価する')
   .argument('<formula>', '評価する数式 (=SUM(1,2,3) など)')
   .option('--context <cell>', 'コンテキストセル位置 (例: A1)', 'A1')
+  .option('--file <file>', 'セル・名前（LAMBDAで定義した関数を含む）を参照するスプレッドシートファイル（オプション）')
   .option('--format <format>', '出力形式 (json, table, raw)', 'table')
   .action(async (formula, options) => {
     const spinner = ora('数式を評価中...').start();
 
     try {
-      const engine = createFormulaEngine();
+      const engine = createEngine();
+      if (options.file) {
+        engine.setWorkbookData(loadWorkbookFile(options.file).workbook);
+      }
       const contextPosition = parseCellPosition(options.context);
 
       const result = engine.evaluateFormula(formula, contextPosition);
@@ -214,7 +272,7 @@ program
     const spinner = ora('数式を検証中...').start();
 
     try {
-      const result = validateFormulaSyntax(formula);
+      const result = validateFormulaSyntax(formula, getEngineConfig());
       spinner.stop();
 
       switch (options.format) {
@@ -253,11 +311,12 @@ program
     const spinner = ora('セルの数式を計算中...').start();
 
     try {
-      const spreadsheet = loadSpreadsheetFile(file);
+      const { workbook, isWorkbookFile } = loadWorkbookFile(file);
+      const spreadsheet = getActiveSheet(workbook);
       const position = parseCellPosition(cellRef);
 
-      const engine = createFormulaEngine();
-      engine.setSpreadsheetData(spreadsheet);
+      const engine = createEngine();
+      engine.setWorkbookData(workbook);
 
       const result = engine.calculateCell(position);
 
@@ -273,7 +332,7 @@ program
         }
 
         spreadsheet.updatedAt = new Date();
-        saveSpreadsheetFile(spreadsheet, file);
+        saveWorkbookFile(workbook, isWorkbookFile, file);
       }
 
       spinner.stop();
@@ -322,12 +381,13 @@ program
     const spinner = ora('セル範囲を計算中...').start();
 
     try {
-      const spreadsheet = loadSpreadsheetFile(file);
+      const { workbook, isWorkbookFile } = loadWorkbookFile(file);
+      const spreadsheet = getActiveSheet(workbook);
       const startPosition = parseCellPosition(startCell);
       const endPosition = parseCellPosition(endCell);
 
-      const engine = createFormulaEngine();
-      engine.setSpreadsheetData(spreadsheet);
+      const engine = createEngine();
+      engine.setWorkbookData(workbook);
 
       const result = engine.getCellRangeValues(startPosition, endPosition);
 
@@ -356,7 +416,7 @@ program
 
         if (updatedCount > 0) {
           spreadsheet.updatedAt = new Date();
-          saveSpreadsheetFile(spreadsheet, file);
+          saveWorkbookFile(workbook, isWorkbookFile, file);
         }
       }
 
@@ -413,11 +473,11 @@ program
   .option('--format <format>', '出力形式 (json, table)', 'table')
   .action(async (file, cellRef, options) => {
     try {
-      const spreadsheet = loadSpreadsheetFile(file);
+      const { workbook } = loadWorkbookFile(file);
       const position = parseCellPosition(cellRef);
 
-      const engine = createFormulaEngine();
-      engine.setSpreadsheetData(spreadsheet);
+      const engine = createEngine();
+      engine.setWorkbookData(workbook);
 
       const dependencies = engine.getCellDependencies(position);
       const precedents = engine.getCellPrecedents(position);
@@ -461,11 +521,11 @@ program
   .option('--format <format>', '出力形式 (json, table, raw)', 'table')
   .action(async (file, cellRef, options) => {
     try {
-      const spreadsheet = loadSpreadsheetFile(file);
+      const { workbook } = loadWorkbookFile(file);
       const position = parseCellPosition(cellRef);
 
-      const engine = createFormulaEngine();
-      engine.setSpreadsheetData(spreadsheet);
+      const engine = createEngine();
+      engine.setWorkbookData(workbook);
 
       const formula = engine.getCellFormula(position);
       const valueType = engine.getCellValueType(position);
@@ -503,7 +563,7 @@ program
   .option('--format <format>', '出力形式 (json, list)', 'list')
   .action(async (options) => {
     try {
-      const engine = createFormulaEngine();
+      const engine = createEngine();
       const functions = engine.getAvailableFunctions();
 
       let filteredFunctions = functions;
@@ -540,6 +600,50 @@ program
     }
   });
 
+/**
+ * 読み込んだプラグインの関数とヘルプを表示
+ */
+program
+  .command('plugins')
+  .description('読み込んだプラグインの関数とヘルプを表示する（--plugins でディレクトリを指定）')
+  .option('--format <format>', '出力形式 (json, list)', 'list')
+  .action(async (options) => {
+    try {
+      const engine = createEngine();
+      const functions = engine.getPluginFunctions();
+
+      switch (options.format) {
+        case 'json':
+          console.log(JSON.stringify(functions.map(func => ({
+            ...func,
+            maxArguments: Number.isFinite(func.maxArguments) ? func.maxArguments : null
+          })), null, 2));
+          break;
+        default:
+          if (functions.length === 0) {
+            console.log(chalk.yellow('プラグインの関数はありません'));
+            break;
+          }
+          console.log(chalk.blue(`プラグインの関数 (${functions.length}個):`));
+          functions.forEach(func => {
+            const parameters = func.arguments.map(argument => {
+              const name = argument.repeating ? `${argument.name}...` : argument.name;
+              return argument.optional ? `[${name}]` : name;
+            });
+            console.log(`  ${chalk.green(`${func.name}(${parameters.join(', ')})`)}${func.volatile ? chalk.gray(' [揮発性]') : ''} - ${func.plugin}`);
+            console.log(`    ${func.description}`);
+            func.arguments.forEach(argument => {
+              console.log(chalk.gray(`    ${argument.name} (${argument.type})${argument.description ? `: ${argument.description}` : ''}`));
+            });
+          });
+      }
+
+      engine.destroy();
+    } catch (error) {
+      handleError(error, 'plugins');
+    }
+  });
+
 /**
  * エンジン統計情報を表示
  */
@@ -550,10 +654,10 @@ program
   .option('--format <format>', '出力形式 (json, table)', 'table')
   .action(async (file, options) => {
     try {
-      const spreadsheet = loadSpreadsheetFile(file);
+      const { workbook } = loadWorkbookFile(file);
 
-      const engine = createFormulaEngine();
-      engine.setSpreadsheetData(spreadsheet);
+      const engine = createEngine();
+      engine.setWorkbookData(workbook);
 
       const stats = engine.getEngineStats();
 
@@ -588,21 +692,20 @@ program
     console.log(chalk.blue('数式対話モードを開始します。終了するには "exit" を入力してください。'));
 
     let engine: SpreadsheetFormulaEngine;
-    let spreadsheet: Spreadsheet | undefined;
 
     // スプレッドシートが指定されている場合は読み込む
     if (options.file) {
       try {
-        spreadsheet = loadSpreadsheetFile(options.file);
-        engine = createFormulaEngine();
-        engine.setSpreadsheetData(spreadsheet);
+        const { workbook } = loadWorkbookFile(options.file);
+        engine = createEngine();
+        engine.setWorkbookData(workbook);
         console.log(chalk.green(`スプレッドシートを読み込みました: ${options.file}`));
       } catch (error) {
         console.log(chalk.yellow('スプレッドシートの読み込みに失敗しました。単発計算モードで続行します。'));
-        engine = createFormulaEngine();
+        engine = createEngine();
       }
     } else {
-      engine = createFormulaEngine();
+      engine = createEngine();
     }
 
     while (true) {
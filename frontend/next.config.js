@@ -1,6 +1,26 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // 数式のワーカーはプラグインのワーカーの応答を共有メモリ（SharedArrayBuffer）で待つため、
+  // スプレッドシートの画面だけをクロスオリジン分離にする（他のページは外部のリソースをそのまま埋め込めるようにする）
+  // 専用ワーカーはスクリプトの応答のCOEPで分離されるため、ワーカーのスクリプト（ビルドした静的ファイル）にもCOEPを付ける
+  async headers() {
+    return [
+      {
+        source: '/spreadsheet/:path*',
+        headers: [
+          { key: 'Cross-Origin-Opener-Policy', value: 'same-origin' },
+          { key: 'Cross-Origin-Embedder-Policy', value: 'require-corp' },
+        ],
+      },
+      {
+        source: '/_next/static/:path*',
+        headers: [
+          { key: 'Cross-Origin-Embedder-Policy', value: 'require-corp' },
+        ],
+      },
+    ]
+  },
 }
 
-module.exports = nextConfig
\ No newline at end of file
+module.exports = nextConfig
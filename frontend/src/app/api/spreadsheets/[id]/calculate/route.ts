@@ -1,6 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createStorageManager } from '@/lib/storage-manager';
-import { SpreadsheetFormulaEngine } from '@/lib/formula-engine';
+import { cellPositionToA1Notation } from '@/lib/cell';
+import { cellPositionToKey } from '@/lib/spreadsheet';
+import { getActiveSheet, getIterativeCalculationSettings } from '@/lib/workbook';
+import { setIterativeCalculation, updateSheet } from '@/lib/spreadsheet-core/workbook';
+import { createFormulaCalculator } from '@/lib/formula-engine/calculator';
+import { formatSheetCellPosition } from '@/lib/formula-engine/dependencies';
+import {
+  RecalculationReport,
+  createIncrementalRecalculator
+} from '@/lib/formula-engine/recalculation';
 
 /**
  * UUIDの形式をバリデーション
@@ -60,6 +69,19 @@ function parseCellAddress(address: string): { row: number; column: number } {
   };
 }
 
+/**
+ * 表示値がエラー値（#DIV/0! など）の場合はエラーの情報を返す
+ */
+function getCellError(displayValue: string): { type: string; message: string } | undefined {
+  if (!/^#[A-Z0-9/_]+[!?]?$/.test(displayValue)) {
+    return undefined;
+  }
+  return {
+    type: displayValue,
+    message: `数式の計算結果がエラーです: ${displayValue}`
+  };
+}
+
 /**
  * 範囲内のセルアドレス一覧を取得
  */
@@ -88,6 +110,9 @@ function getCellsInRange(startAddress: string, endAddress: string): string[] {
 
 /**
  * 数式再計算 (T056)
+ * アクティブシートと、それを参照する他のシートの数式を再計算して保存する。iterativeCalculationを指定すると
+ * ワークブックの反復計算の設定を変更してから計算し、循環参照の収束の状況を返す。
+ * changedCellsに変更したセル（A1形式）を指定すると、それに依存するセルだけを再計算する
  */
 export async function POST(
   request: NextRequest,
@@ -108,8 +133,8 @@ export async function POST(
 
     const storageManager = createStorageManager();
 
-    // スプレッドシートを読み込み
-    const loadResult = await storageManager.loadSpreadsheet(id);
+    // ワークブックを読み込み
+    const loadResult = await storageManager.loadWorkbook(id);
     if (!loadResult.success || !loadResult.data) {
       return NextResponse.json(
         { error: 'スプレッドシートが見つかりません' },
@@ -117,149 +142,116 @@ export async function POST(
       );
     }
 
-    const spreadsheet = loadResult.data;
-
-    // リクエストボディを解析（範囲指定がある場合）
-    let targetCells: string[] = [];
-
-    try {
-      const body = await request.json().catch(() => null);
-
-      if (body && body.range) {
-        // 範囲が指定されている場合
-        if (typeof body.range === 'object' && body.range.start && body.range.end) {
-          if (!isValidCellAddress(body.range.start) || !isValidCellAddress(body.range.end)) {
-            return NextResponse.json(
-              { error: '不正なセル範囲です' },
-              { status: 400 }
-            );
-          }
-
-          targetCells = getCellsInRange(body.range.start, body.range.end);
-        } else {
-          return NextResponse.json(
-            { error: 'range オブジェクトには start と end が必要です' },
-            { status: 400 }
-          );
-        }
-      } else {
-        // 範囲が指定されていない場合は全てのセルを対象とする
-        targetCells = Array.from(spreadsheet.cells.keys());
+    let workbook = loadResult.data;
+
+    // リクエストボディを解析（範囲指定・反復計算の設定がある場合）
+    const body = await request.json().catch(() => null);
+    let targetKeys: Set<string> | undefined;
+
+    if (body && body.range) {
+      if (typeof body.range !== 'object' || !body.range.start || !body.range.end) {
+        return NextResponse.json(
+          { error: 'range オブジェクトには start と end が必要です' },
+          { status: 400 }
+        );
       }
-    } catch (error) {
-      // JSON パースに失敗した場合は全てのセルを対象とする
-      targetCells = Array.from(spreadsheet.cells.keys());
+      if (!isValidCellAddress(body.range.start) || !isValidCellAddress(body.range.end)) {
+        return NextResponse.json(
+          { error: '不正なセル範囲です' },
+          { status: 400 }
+        );
+      }
+
+      targetKeys = new Set(
+        getCellsInRange(body.range.start, body.range.end).map(address => cellPositionToKey(parseCellAddress(address)))
+      );
     }
 
-    // 数式エンジンを初期化
-    const formulaEngine = new SpreadsheetFormulaEngine({
-      useArrayArithmetic: true,
-      matrixDetection: true,
-      precisionRounding: 5
-    });
+    let changedPositions: Array<{ row: number; column: number }> | undefined;
+    if (body && body.changedCells !== undefined) {
+      if (!Array.isArray(body.changedCells) ||
+        !body.changedCells.every((address: unknown) => typeof address === 'string' && isValidCellAddress(address))) {
+        return NextResponse.json(
+          { error: 'changedCells はセルアドレス（A1形式）の配列で指定してください' },
+          { status: 400 }
+        );
+      }
+      changedPositions = body.changedCells.map(parseCellAddress);
+    }
 
-    // スプレッドシートを数式エンジンに読み込み
-    try {
-      await formulaEngine.loadSpreadsheet(spreadsheet);
-    } catch (error) {
-      console.error('数式エンジンへのスプレッドシート読み込みエラー:', error);
-      return NextResponse.json(
-        { error: '数式エンジンの初期化に失敗しました' },
-        { status: 500 }
-      );
+    let settingsChanged = false;
+    if (body && body.iterativeCalculation !== undefined) {
+      if (typeof body.iterativeCalculation !== 'object' || body.iterativeCalculation === null) {
+        return NextResponse.json(
+          { error: 'iterativeCalculation はオブジェクトで指定してください' },
+          { status: 400 }
+        );
+      }
+
+      const { enabled, maxIterations, maxChange } = body.iterativeCalculation;
+      const settingsResult = setIterativeCalculation(workbook, { enabled, maxIterations, maxChange });
+      if (!settingsResult.success) {
+        return NextResponse.json(
+          { error: settingsResult.error },
+          { status: 400 }
+        );
+      }
+      workbook = settingsResult.workbook;
+      settingsChanged = true;
     }
 
-    // 対象セルの数式を再計算
+    // アクティブシートを再計算（変更したセルの指定があれば、保存済みの計算結果から差分再計算する）
+    // アクティブシートのセルを参照する他のシートの数式も計算し直す
+    const iterativeCalculation = getIterativeCalculationSettings(workbook);
+    const spreadsheet = getActiveSheet(workbook);
+    const calculator = createFormulaCalculator({ iterativeCalculation });
+    const recalculator = createIncrementalRecalculator(calculator);
+    let report: RecalculationReport;
+    if (changedPositions && !settingsChanged) {
+      recalculator.setBaseline(spreadsheet, workbook);
+      report = recalculator.recalculate(spreadsheet, changedPositions, { workbook });
+      // 範囲の指定がなければ再計算したセルの結果を返す
+      targetKeys = targetKeys ?? new Set(report.recalculatedCells.map(cellPositionToKey));
+    } else {
+      report = recalculator.recalculate(spreadsheet, undefined, { workbook });
+    }
+
+    // 対象セルの数式の計算結果
     const calculatedCells: any[] = [];
     let hasChanges = false;
 
-    for (const cellAddress of targetCells) {
-      const cell = spreadsheet.cells.get(cellAddress);
-
-      if (!cell || !cell.formula || !cell.formula.startsWith('=')) {
-        // 数式が無い場合はスキップ
+    for (const [key, cell] of report.spreadsheet.cells) {
+      if (spreadsheet.cells.get(key)?.displayValue !== cell.displayValue) {
+        hasChanges = true;
+      }
+      if (cell.dataType !== 'formula' || (targetKeys && !targetKeys.has(key))) {
+        // 数式が無い場合・範囲外の場合はスキップ
         continue;
       }
 
-      try {
-        // 数式を計算
-        const result = await formulaEngine.calculateFormula(
-          cell.formula,
-          { row: cell.address.row, column: cell.address.column }
-        );
-
-        if (result.success) {
-          // 計算結果でセルの値を更新
-          const oldValue = cell.value;
-          cell.value = result.value;
-          cell.error = undefined;
-
-          // 値が変更された場合のみhasChangesをtrueに
-          if (oldValue !== result.value) {
-            hasChanges = true;
-          }
-
-          calculatedCells.push({
-            address: {
-              row: cell.address.row,
-              column: cell.address.column,
-              address: cellAddress
-            },
-            value: result.value,
-            formula: cell.formula,
-            type: cell.type,
-            error: undefined
-          });
-        } else {
-          // 計算エラーの場合
-          cell.error = result.error;
-
-          calculatedCells.push({
-            address: {
-              row: cell.address.row,
-              column: cell.address.column,
-              address: cellAddress
-            },
-            value: cell.value,
-            formula: cell.formula,
-            type: cell.type,
-            error: result.error
-          });
-        }
-
-        // スプレッドシートのセルを更新
-        spreadsheet.cells.set(cellAddress, cell);
-
-      } catch (error) {
-        console.error(`セル ${cellAddress} の計算エラー:`, error);
-
-        // エラー情報をセルに設定
-        cell.error = {
-          type: '#VALUE!',
-          message: error instanceof Error ? error.message : '計算エラーが発生しました'
-        };
-
-        calculatedCells.push({
-          address: {
-            row: cell.address.row,
-            column: cell.address.column,
-            address: cellAddress
-          },
-          value: cell.value,
-          formula: cell.formula,
-          type: cell.type,
-          error: cell.error
-        });
-
-        spreadsheet.cells.set(cellAddress, cell);
-      }
+      calculatedCells.push({
+        address: {
+          row: cell.position.row,
+          column: cell.position.column,
+          address: cellPositionToA1Notation(cell.position)
+        },
+        value: cell.displayValue,
+        formula: cell.rawValue,
+        type: cell.dataType,
+        error: getCellError(cell.displayValue)
+      });
     }
 
-    // 変更があった場合のみスプレッドシートを保存
-    if (hasChanges) {
-      spreadsheet.updatedAt = new Date();
+    const dependentSheetsChanged = report.dependentSheets.some(sheet => {
+      const previous = workbook.sheets.find(s => s.id === sheet.id)!;
+      return Array.from(sheet.cells).some(([key, cell]) => previous.cells.get(key)?.displayValue !== cell.displayValue);
+    });
 
-      const saveResult = await storageManager.saveSpreadsheet(id, spreadsheet);
+    // 変更があった場合のみワークブックを保存（再計算した他のシートも保存する）
+    if (hasChanges || dependentSheetsChanged || settingsChanged) {
+      const updatedWorkbook = [report.spreadsheet, ...report.dependentSheets]
+        .reduce((current, sheet) => updateSheet(current, sheet).workbook, workbook);
+      const saveResult = await storageManager.saveWorkbook(id, updatedWorkbook);
       if (!saveResult.success) {
         return NextResponse.json(
           { error: saveResult.error || 'スプレッドシートの保存に失敗しました' },
@@ -273,6 +265,14 @@ export async function POST(
 
     const response = {
       cells: calculatedCells,
+      iterativeCalculation,
+      circularReferences: report.circularReferences.map(component => ({
+        cells: component.cells.map(formatSheetCellPosition),
+        iterations: component.iterations,
+        converged: component.converged,
+        maxChange: component.maxChange
+      })),
+      stats: report.stats,
       executionTime: Math.round(executionTime * 100) / 100 // 小数点2桁まで
     };
 
@@ -291,4 +291,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createStorageManager } from '@/lib/storage-manager';
 import { Cell } from '@/lib/cell';
+import { setCellValue } from '@/lib/spreadsheet-core';
+import { getActiveSheet } from '@/lib/workbook';
+import { updateSheet } from '@/lib/spreadsheet-core/workbook';
 
 /**
  * UUIDの形式をバリデーション
@@ -112,8 +115,8 @@ export async function PATCH(
 
     const storageManager = createStorageManager();
 
-    // 既存のスプレッドシートを読み込み
-    const loadResult = await storageManager.loadSpreadsheet(id);
+    // 既存のワークブックを読み込み（アクティブシートのセルを更新する）
+    const loadResult = await storageManager.loadWorkbook(id);
     if (!loadResult.success || !loadResult.data) {
       return NextResponse.json(
         { error: 'スプレッドシートが見つかりません' },
@@ -121,7 +124,8 @@ export async function PATCH(
       );
     }
 
-    const spreadsheet = loadResult.data;
+    const workbook = loadResult.data;
+    let spreadsheet = getActiveSheet(workbook);
     const updatedCells: Cell[] = [];
     const errors: Array<{ address: string; error: any }> = [];
 
@@ -156,13 +160,13 @@ export async function PATCH(
         const { row, column } = parseCellAddress(cellUpdate.address);
 
         // グリッド範囲チェック
-        if (row >= spreadsheet.gridSize.rowCount || column >= spreadsheet.gridSize.columnCount) {
+        if (row >= spreadsheet.rowCount || column >= spreadsheet.columnCount) {
           errors.push({
             address: cellUpdate.address,
             error: {
               type: '#REF!',
               message: 'セルアドレスがグリッドの範囲外です',
-              details: { row, column, gridSize: spreadsheet.gridSize }
+              details: { row, column, gridSize: { rowCount: spreadsheet.rowCount, columnCount: spreadsheet.columnCount } }
             }
           });
           continue;
@@ -196,8 +200,24 @@ export async function PATCH(
           continue;
         }
 
-        // スプレッドシートのセルマップを更新
-        spreadsheet.cells.set(cellUpdate.address, cell);
+        // スプレッドシートのセルを更新（数式がある場合は数式を入力する）
+        const setResult = setCellValue(
+          spreadsheet,
+          { row, column },
+          cellUpdate.formula ?? (cellUpdate.value === null || cellUpdate.value === undefined ? '' : String(cellUpdate.value))
+        );
+        if (!setResult.success) {
+          errors.push({
+            address: cellUpdate.address,
+            error: {
+              type: '#VALUE!',
+              message: setResult.error || 'セルの更新に失敗しました',
+              details: {}
+            }
+          });
+          continue;
+        }
+        spreadsheet = setResult.spreadsheet;
         updatedCells.push(cell);
 
       } catch (error) {
@@ -216,8 +236,8 @@ export async function PATCH(
     // スプレッドシートの更新日時を更新
     spreadsheet.updatedAt = new Date();
 
-    // ストレージに保存
-    const saveResult = await storageManager.saveSpreadsheet(id, spreadsheet);
+    // ストレージに保存（他のシート・名前付き範囲などはそのまま残す）
+    const saveResult = await storageManager.saveWorkbook(id, updateSheet(workbook, spreadsheet).workbook);
     if (!saveResult.success) {
       return NextResponse.json(
         { error: saveResult.error || 'スプレッドシートの保存に失敗しました' },
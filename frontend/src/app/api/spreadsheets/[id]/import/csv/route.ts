@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createStorageManager } from '@/lib/storage-manager';
 import { createCSVHandler } from '@/lib/csv-handler';
+import { getActiveSheet } from '@/lib/workbook';
+import { updateSheet } from '@/lib/spreadsheet-core/workbook';
 
 /**
  * UUIDの形式をバリデーション
@@ -133,8 +135,8 @@ export async function POST(
 
     const storageManager = createStorageManager();
 
-    // 既存のスプレッドシートを読み込み
-    const loadResult = await storageManager.loadSpreadsheet(id);
+    // 既存のワークブックを読み込み（アクティブシートにインポートする）
+    const loadResult = await storageManager.loadWorkbook(id);
     if (!loadResult.success || !loadResult.data) {
       return NextResponse.json(
         { error: 'スプレッドシートが見つかりません' },
@@ -142,7 +144,8 @@ export async function POST(
       );
     }
 
-    const spreadsheet = loadResult.data;
+    const workbook = loadResult.data;
+    const spreadsheet = getActiveSheet(workbook);
 
     // multipart/form-dataを解析
     const formData = await request.formData();
@@ -330,8 +333,8 @@ export async function POST(
     // スプレッドシートの更新日時を更新
     spreadsheet.updatedAt = new Date();
 
-    // ストレージに保存
-    const saveResult = await storageManager.saveSpreadsheet(id, spreadsheet);
+    // ストレージに保存（他のシート・名前付き範囲などはそのまま残す）
+    const saveResult = await storageManager.saveWorkbook(id, updateSheet(workbook, spreadsheet).workbook);
     if (!saveResult.success) {
       return NextResponse.json(
         { error: saveResult.error || 'スプレッドシートの保存に失敗しました' },
@@ -0,0 +1,288 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageManager } from '@/lib/storage-manager';
+import { NamedRange, getNamedRangeKind } from '@/lib/named-range';
+import { createName, updateName, deleteName, listNames } from '@/lib/spreadsheet-core/names';
+
+/**
+ * UUIDの形式をバリデーション
+ */
+function isValidUUID(uuid: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(uuid);
+}
+
+/**
+ * レスポンス用に名前を変換
+ */
+function namedRangeToResponse(namedRange: NamedRange) {
+  return {
+    ...namedRange,
+    kind: getNamedRangeKind(namedRange),
+    createdAt: namedRange.createdAt.toISOString(),
+    updatedAt: namedRange.updatedAt.toISOString()
+  };
+}
+
+/**
+ * 名前一覧取得（?scope=シート名 でシートスコープの名前に絞り込み）
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    // UUIDバリデーション
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: '不正なスプレッドシートIDです' },
+        { status: 400 }
+      );
+    }
+
+    const storageManager = createStorageManager();
+    const result = await storageManager.loadWorkbook(id);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: 'スプレッドシートが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const scope = request.nextUrl.searchParams.get('scope') ?? undefined;
+    const names = listNames(result.data, scope);
+
+    return NextResponse.json({ names: names.map(namedRangeToResponse) }, { status: 200 });
+  } catch (error) {
+    console.error('名前取得エラー:', error);
+    return NextResponse.json(
+      { error: 'サーバーエラーが発生しました' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 名前作成
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    // UUIDバリデーション
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: '不正なスプレッドシートIDです' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (typeof body.name !== 'string' || typeof body.refersTo !== 'string') {
+      return NextResponse.json(
+        { error: 'nameとrefersToフィールドは必須です' },
+        { status: 400 }
+      );
+    }
+
+    const storageManager = createStorageManager();
+    const existingResult = await storageManager.loadWorkbook(id);
+    if (!existingResult.success || !existingResult.data) {
+      return NextResponse.json(
+        { error: 'スプレッドシートが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const result = createName(existingResult.data, body.name, body.refersTo, {
+      scope: typeof body.scope === 'string' ? body.scope : undefined,
+      comment: typeof body.comment === 'string' ? body.comment : undefined
+    });
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    // ストレージに保存
+    const saveResult = await storageManager.saveWorkbook(id, result.workbook);
+
+    if (!saveResult.success) {
+      return NextResponse.json(
+        { error: saveResult.error || '名前の作成に失敗しました' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(namedRangeToResponse(result.data), { status: 201 });
+  } catch (error) {
+    console.error('名前作成エラー:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: '不正なJSONフォーマットです' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'サーバーエラーが発生しました' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 名前更新（idで対象を指定し、name・refersTo・scope・commentを変更）
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    // UUIDバリデーション
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: '不正なスプレッドシートIDです' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (typeof body.id !== 'string') {
+      return NextResponse.json(
+        { error: 'idフィールドは必須です' },
+        { status: 400 }
+      );
+    }
+
+    const storageManager = createStorageManager();
+    const existingResult = await storageManager.loadWorkbook(id);
+    if (!existingResult.success || !existingResult.data) {
+      return NextResponse.json(
+        { error: 'スプレッドシートが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    if (!existingResult.data.names.some(namedRange => namedRange.id === body.id)) {
+      return NextResponse.json(
+        { error: '名前が見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const result = updateName(existingResult.data, body.id, {
+      name: typeof body.name === 'string' ? body.name : undefined,
+      refersTo: typeof body.refersTo === 'string' ? body.refersTo : undefined,
+      scope: typeof body.scope === 'string' || body.scope === null ? body.scope : undefined,
+      comment: typeof body.comment === 'string' ? body.comment : undefined
+    });
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      );
+    }
+
+    // ストレージに保存（名前の変更で書き換えた数式も含む）
+    const saveResult = await storageManager.saveWorkbook(id, result.workbook);
+
+    if (!saveResult.success) {
+      return NextResponse.json(
+        { error: saveResult.error || '名前の更新に失敗しました' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(namedRangeToResponse(result.data), { status: 200 });
+  } catch (error) {
+    console.error('名前更新エラー:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: '不正なJSONフォーマットです' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'サーバーエラーが発生しました' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 名前削除（?nameId=名前のID で対象を指定）
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    // UUIDバリデーション
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: '不正なスプレッドシートIDです' },
+        { status: 400 }
+      );
+    }
+
+    const nameId = request.nextUrl.searchParams.get('nameId');
+    if (!nameId) {
+      return NextResponse.json(
+        { error: 'nameIdパラメータは必須です' },
+        { status: 400 }
+      );
+    }
+
+    const storageManager = createStorageManager();
+    const existingResult = await storageManager.loadWorkbook(id);
+    if (!existingResult.success || !existingResult.data) {
+      return NextResponse.json(
+        { error: 'スプレッドシートが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const result = deleteName(existingResult.data, nameId);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 404 }
+      );
+    }
+
+    const saveResult = await storageManager.saveWorkbook(id, result.workbook);
+
+    if (!saveResult.success) {
+      return NextResponse.json(
+        { error: saveResult.error || '名前の削除に失敗しました' },
+        { status: 500 }
+      );
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('名前削除エラー:', error);
+    return NextResponse.json(
+      { error: 'サーバーエラーが発生しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createStorageManager } from '@/lib/storage-manager';
 import { Spreadsheet } from '@/lib/spreadsheet';
+import { getActiveSheet } from '@/lib/workbook';
+import { updateSheet } from '@/lib/spreadsheet-core/workbook';
 
 /**
  * UUIDの形式をバリデーション
@@ -121,8 +123,8 @@ export async function PUT(
 
     const storageManager = createStorageManager();
 
-    // 既存のスプレッドシートを確認
-    const existingResult = await storageManager.loadSpreadsheet(id);
+    // 既存のワークブックを確認（アクティブシートを更新する）
+    const existingResult = await storageManager.loadWorkbook(id);
     if (!existingResult.success || !existingResult.data) {
       return NextResponse.json(
         { error: 'スプレッドシートが見つかりません' },
@@ -130,7 +132,8 @@ export async function PUT(
       );
     }
 
-    const existingSpreadsheet = existingResult.data;
+    const workbook = existingResult.data;
+    const existingSpreadsheet = getActiveSheet(workbook);
 
     // cellsオブジェクトをMapに変換
     const cellsMap = new Map();
@@ -159,8 +162,8 @@ export async function PUT(
       updatedSpreadsheet.createdAt = new Date(body.createdAt);
     }
 
-    // ストレージに保存
-    const saveResult = await storageManager.saveSpreadsheet(id, updatedSpreadsheet);
+    // ストレージに保存（他のシート・名前付き範囲などはそのまま残す）
+    const saveResult = await storageManager.saveWorkbook(id, updateSheet(workbook, updatedSpreadsheet).workbook);
 
     if (!saveResult.success) {
       return NextResponse.json(
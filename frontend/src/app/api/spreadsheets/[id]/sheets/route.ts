@@ -0,0 +1,272 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createStorageManager } from '@/lib/storage-manager';
+import { Spreadsheet, keyToCellPosition } from '@/lib/spreadsheet';
+import { Cell, DEFAULT_CELL_FORMAT, createEmptyCell, updateCellValue } from '@/lib/cell';
+import { Workbook, getSheetById, validateWorkbook } from '@/lib/workbook';
+import { addSheet, deleteSheet, moveSheet, renameSheet, updateSheet } from '@/lib/spreadsheet-core/workbook';
+
+/**
+ * UUIDの形式をバリデーション
+ */
+function isValidUUID(uuid: string): boolean {
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+  return uuidRegex.test(uuid);
+}
+
+/**
+ * 送信されたセル（キーは「行-列」）を検証してシートのセルに変換する
+ * 値の型・表示値は送信された内容を使わず、生の値と書式から求め直す
+ */
+function parseSheetCells(
+  value: unknown,
+  sheet: Spreadsheet
+): { cells?: Map<string, Cell>; error?: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'cellsはセルのキーと内容のオブジェクトである必要があります' };
+  }
+
+  const cells = new Map<string, Cell>();
+  for (const [key, cellBody] of Object.entries(value as Record<string, any>)) {
+    const position = keyToCellPosition(key);
+    if (!/^\d+-\d+$/.test(key) || position.row >= sheet.rowCount || position.column >= sheet.columnCount) {
+      return { error: `セルのキー「${key}」が不正です` };
+    }
+    if (!cellBody || typeof cellBody !== 'object' || typeof cellBody.rawValue !== 'string') {
+      return { error: `セル「${key}」にrawValueフィールドが必要です` };
+    }
+    if (cellBody.format !== undefined && (!cellBody.format || typeof cellBody.format !== 'object')) {
+      return { error: `セル「${key}」の書式が不正です` };
+    }
+
+    const emptyCell = createEmptyCell(position);
+    cells.set(key, updateCellValue(
+      { ...emptyCell, format: { ...DEFAULT_CELL_FORMAT, ...cellBody.format } },
+      cellBody.rawValue
+    ));
+  }
+  return { cells };
+}
+
+/**
+ * レスポンス用にシートのMapを通常のオブジェクトに変換
+ */
+function sheetToResponse(sheet: Spreadsheet) {
+  return {
+    ...sheet,
+    createdAt: sheet.createdAt.toISOString(),
+    updatedAt: sheet.updatedAt.toISOString(),
+    cells: Object.fromEntries(sheet.cells.entries())
+  };
+}
+
+/**
+ * レスポンス用にワークブックを変換
+ */
+function workbookToResponse(workbook: Workbook) {
+  return {
+    id: workbook.id,
+    name: workbook.name,
+    createdAt: workbook.createdAt.toISOString(),
+    updatedAt: workbook.updatedAt.toISOString(),
+    activeSheetId: workbook.activeSheetId,
+    sheets: workbook.sheets.map(sheetToResponse)
+  };
+}
+
+/**
+ * 全シート取得
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    // UUIDバリデーション
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: '不正なスプレッドシートIDです' },
+        { status: 400 }
+      );
+    }
+
+    const storageManager = createStorageManager();
+    const result = await storageManager.loadWorkbook(id);
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { error: 'スプレッドシートが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(workbookToResponse(result.data), { status: 200 });
+  } catch (error) {
+    console.error('シート取得エラー:', error);
+    return NextResponse.json(
+      { error: 'サーバーエラーが発生しました' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * 全シート一括更新（シートの並び順も送信された順序で置き換える）
+ * 既存のシートとの差分をシートの追加・名前変更・削除として適用し、他のシートの数式・名前の参照も書き換える
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const { id } = params;
+
+    // UUIDバリデーション
+    if (!isValidUUID(id)) {
+      return NextResponse.json(
+        { error: '不正なスプレッドシートIDです' },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+
+    if (!Array.isArray(body.sheets) || body.sheets.length === 0) {
+      return NextResponse.json(
+        { error: 'sheetsは1つ以上のシートを含む配列である必要があります' },
+        { status: 400 }
+      );
+    }
+
+    const storageManager = createStorageManager();
+
+    // 既存のワークブックを確認
+    const existingResult = await storageManager.loadWorkbook(id);
+    if (!existingResult.success || !existingResult.data) {
+      return NextResponse.json(
+        { error: 'スプレッドシートが見つかりません' },
+        { status: 404 }
+      );
+    }
+
+    const now = new Date();
+    let workbook = existingResult.data;
+
+    for (const sheetBody of body.sheets) {
+      if (!sheetBody || typeof sheetBody.name !== 'string' || sheetBody.name.trim().length === 0) {
+        return NextResponse.json(
+          { error: '各シートにnameフィールドが必要です' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // 未知のIDは新規シートとして追加する（名前は既存シートの削除・名前変更の後で設定する）
+    const sheetIds: string[] = [];
+    for (const sheetBody of body.sheets) {
+      const existingSheet = typeof sheetBody.id === 'string' ? getSheetById(workbook, sheetBody.id) : undefined;
+      if (existingSheet && !sheetIds.includes(existingSheet.id)) {
+        sheetIds.push(existingSheet.id);
+        continue;
+      }
+      const added = addSheet(workbook);
+      if (!added.success || !added.data) {
+        return NextResponse.json({ error: added.error }, { status: 400 });
+      }
+      workbook = added.workbook;
+      sheetIds.push(added.data.id);
+    }
+
+    // セル・行・列が送信されたシートはその内容で置き換える（続く名前変更・削除で参照を書き換えるため先に置き換える）
+    for (const [index, sheetBody] of body.sheets.entries()) {
+      const sheet = getSheetById(workbook, sheetIds[index])!;
+      let cells = sheet.cells;
+      if (sheetBody.cells !== undefined) {
+        const parsed = parseSheetCells(sheetBody.cells, sheet);
+        if (!parsed.cells) {
+          return NextResponse.json({ error: parsed.error }, { status: 400 });
+        }
+        cells = parsed.cells;
+      }
+
+      workbook = updateSheet(workbook, {
+        ...sheet,
+        cells,
+        rows: sheetBody.rows || sheet.rows,
+        columns: sheetBody.columns || sheet.columns,
+        updatedAt: now
+      }).workbook;
+    }
+
+    // 送信されなかったシートは削除する（削除したシートへの参照は#REF!になる）
+    for (const sheet of existingResult.data.sheets) {
+      if (!sheetIds.includes(sheet.id)) {
+        const deleted = deleteSheet(workbook, sheet.id);
+        if (!deleted.success) {
+          return NextResponse.json({ error: deleted.error }, { status: 400 });
+        }
+        workbook = deleted.workbook;
+      }
+    }
+
+    // 名前が変わったシートは、そのシートを参照している数式・名前も合わせて書き換え、送信された順序に並び替える
+    for (const [index, sheetBody] of body.sheets.entries()) {
+      const sheet = getSheetById(workbook, sheetIds[index])!;
+      const newName = sheetBody.name.trim();
+      if (newName !== sheet.name) {
+        const renamed = renameSheet(workbook, sheet.id, newName);
+        if (!renamed.success) {
+          return NextResponse.json({ error: renamed.error }, { status: 400 });
+        }
+        workbook = renamed.workbook;
+      }
+      workbook = moveSheet(workbook, sheet.id, index).workbook;
+    }
+
+    const activeSheetId = typeof body.activeSheetId === 'string' && sheetIds.includes(body.activeSheetId)
+      ? body.activeSheetId
+      : sheetIds[0];
+
+    const updatedWorkbook: Workbook = {
+      ...workbook,
+      name: typeof body.name === 'string' && body.name.trim() ? body.name.trim() : workbook.name,
+      activeSheetId,
+      updatedAt: now
+    };
+
+    const validation = validateWorkbook(updatedWorkbook);
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: validation.errors[0] },
+        { status: 400 }
+      );
+    }
+
+    // ストレージに保存
+    const saveResult = await storageManager.saveWorkbook(id, updatedWorkbook);
+
+    if (!saveResult.success) {
+      return NextResponse.json(
+        { error: saveResult.error || 'シートの更新に失敗しました' },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(workbookToResponse(updatedWorkbook), { status: 200 });
+  } catch (error) {
+    console.error('シート更新エラー:', error);
+
+    if (error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: '不正なJSONフォーマットです' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'サーバーエラーが発生しました' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,9 @@
 'use client'
 
 import React, { memo, useRef, useEffect } from 'react';
-import { CellEditor } from './CellEditor';
-import { Cell as CellData, CellPosition } from '../../lib/cell';
+import { CellEditor, CellEditorAssistProps } from './CellEditor';
+import { Cell as CellData, CellPosition, cellPositionToA1Notation, isSpillChild } from '../../lib/cell';
+import { ConditionalFormatResult } from '../../lib/formula-engine/conditional-formatting';
 
 export interface CellProps {
   position: CellPosition;
@@ -11,6 +12,9 @@ export interface CellProps {
   isActive: boolean;
   isEditing: boolean;
   editingValue: string;
+  isPending?: boolean;  // 再計算中（前回の計算結果を表示している）
+  conditionalFormat?: ConditionalFormatResult;  // 条件付き書式（背景色・文字の書式・データバー・アイコン）
+  editorAssist?: CellEditorAssistProps;  // 編集中の数式の入力支援
   style?: React.CSSProperties;
   onClick: (event: React.MouseEvent) => void;
   onDoubleClick: () => void;
@@ -25,6 +29,9 @@ export const Cell = memo(function Cell({
   isActive,
   isEditing,
   editingValue,
+  isPending = false,
+  conditionalFormat,
+  editorAssist,
   style,
   onClick,
   onDoubleClick,
@@ -37,6 +44,10 @@ export const Cell = memo(function Cell({
   const displayValue = cell?.displayValue || '';
   const rawValue = cell?.rawValue || '';
 
+  // 配列数式の結果を展開したセル（数式のセルの結果を表示し、編集できない）
+  const isSpilled = isSpillChild(cell);
+  const spillState = isSpilled ? 'child' : cell?.spillRange ? 'anchor' : undefined;
+
   // セルのスタイルを生成
   const getCellStyle = (): React.CSSProperties => {
     const baseStyle: React.CSSProperties = {
@@ -69,6 +80,31 @@ export const Cell = memo(function Cell({
       baseStyle.textAlign = 'left';
     }
 
+    // 書式コードで指定した色（[Red] など）
+    if (cell?.displayColor) {
+      baseStyle.color = cell.displayColor;
+    }
+
+    // 条件付き書式（セルの書式・書式コードの色より優先する）
+    if (conditionalFormat) {
+      baseStyle.backgroundColor = conditionalFormat.backgroundColor ?? baseStyle.backgroundColor;
+      baseStyle.color = conditionalFormat.textColor ?? baseStyle.color;
+      baseStyle.fontWeight = conditionalFormat.fontWeight ?? baseStyle.fontWeight;
+      baseStyle.fontStyle = conditionalFormat.fontStyle ?? baseStyle.fontStyle;
+    }
+
+    // 配列の展開先のセルは文字を薄く表示する
+    if (isSpilled) {
+      baseStyle.color = '#4b5563';
+      baseStyle.cursor = 'default';
+    }
+
+    // 再計算中のセルは前回の計算結果を斜体で薄く表示する
+    if (isPending) {
+      baseStyle.color = '#9ca3af';
+      baseStyle.fontStyle = 'italic';
+    }
+
     // 選択状態のスタイル
     if (isSelected && !isActive) {
       baseStyle.backgroundColor = '#e6f3ff';
@@ -101,6 +137,7 @@ export const Cell = memo(function Cell({
         style={style}
         onComplete={onEditComplete}
         onCancel={onEditCancel}
+        {...editorAssist}
       />
     );
   }
@@ -115,8 +152,14 @@ export const Cell = memo(function Cell({
       tabIndex={isActive ? 0 : -1}
       role="gridcell"
       aria-selected={isSelected}
-      aria-label={`セル ${String.fromCharCode(65 + position.column)}${position.row + 1}: ${displayValue}`}
-      title={displayValue}
+      aria-label={`セル ${String.fromCharCode(65 + position.column)}${position.row + 1}: ${displayValue}${
+        isSpilled ? `（${cellPositionToA1Notation(cell!.spillAnchor!)}の配列数式の結果）` : ''
+      }`}
+      aria-readonly={isSpilled || undefined}
+      aria-busy={isPending || undefined}
+      data-spill={spillState}
+      data-pending={isPending || undefined}
+      title={isPending ? `${displayValue}（再計算中）` : displayValue}
     >
       <div
         style={{
@@ -125,9 +168,31 @@ export const Cell = memo(function Cell({
           display: 'flex',
           alignItems: 'center',
           minHeight: 0,
+          position: 'relative',
         }}
       >
-        {displayValue}
+        {/* 条件付き書式のデータバー（値の後ろに表示する） */}
+        {conditionalFormat?.dataBar && (
+          <div
+            data-testid="conditional-format-data-bar"
+            aria-hidden="true"
+            style={{
+              position: 'absolute',
+              left: 0,
+              top: '15%',
+              bottom: '15%',
+              width: `${Math.round(conditionalFormat.dataBar.ratio * 100)}%`,
+              backgroundColor: conditionalFormat.dataBar.color,
+              opacity: 0.5,
+            }}
+          />
+        )}
+        {conditionalFormat?.icon && (
+          <span aria-hidden="true" style={{ color: conditionalFormat.icon.color, marginRight: 4, position: 'relative' }}>
+            {conditionalFormat.icon.symbol}
+          </span>
+        )}
+        <span style={{ position: 'relative' }}>{displayValue}</span>
       </div>
     </div>
   );
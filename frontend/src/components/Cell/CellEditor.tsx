@@ -2,6 +2,9 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { CellPosition } from '../../lib/cell';
+import { FormulaFunctionSignature } from '../../lib/formula-engine/signatures';
+import { FormulaLocale } from '../../lib/formula-engine/locale';
+import { FormulaHighlight, FunctionSuggestions, SignatureHelp, useFormulaAssist } from '../FormulaAssist/FormulaAssist';
 
 export interface CellEditorProps {
   position: CellPosition;
@@ -10,8 +13,19 @@ export interface CellEditorProps {
   style?: React.CSSProperties;
   onComplete: (value: string) => void;
   onCancel: () => void;
+  onChange?: (value: string) => void;          // 入力中の値の変更（フォーミュラバーとグリッドの参照の表示に反映する）
+  functionNames?: string[];                    // 関数名の補完候補
+  getSignature?: (name: string) => FormulaFunctionSignature | undefined;
+  cursor?: number;                             // 外部から設定するカーソル位置（参照の挿入後など）
+  locale?: FormulaLocale;                      // 入力する数式の言語
+  onCursorChange?: (cursor: number) => void;
 }
 
+/**
+ * 入力支援に関するエディターの設定（グリッドから編集中のセルのエディターに渡す）
+ */
+export type CellEditorAssistProps = Pick<CellEditorProps, 'onChange' | 'functionNames' | 'getSignature' | 'cursor' | 'locale' | 'onCursorChange'>;
+
 export function CellEditor({
   position,
   initialValue,
@@ -19,17 +33,39 @@ export function CellEditor({
   style,
   onComplete,
   onCancel,
+  onChange,
+  functionNames = [],
+  getSignature,
+  cursor: externalCursor,
+  locale,
+  onCursorChange,
 }: CellEditorProps) {
   const [internalValue, setInternalValue] = useState(initialValue);
+  const [cursor, setCursor] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
 
   // 複数行の入力かどうかを判定
   const isMultiline = internalValue.includes('\n') || internalValue.length > 50;
 
-  // 外部からの値の変更を反映
+  const getElement = useCallback(
+    () => (isMultiline ? textareaRef.current : inputRef.current),
+    [isMultiline]
+  );
+
+  // 外部からの値の変更を反映（クリックで参照を挿入した場合などは指定したカーソル位置に移動する）
   useEffect(() => {
     setInternalValue(externalValue);
+    if (externalCursor !== undefined) {
+      setCursor(externalCursor);
+      requestAnimationFrame(() => {
+        const element = textareaRef.current ?? inputRef.current;
+        if (element && (element.selectionStart !== externalCursor || element.selectionEnd !== externalCursor)) {
+          element.setSelectionRange(externalCursor, externalCursor);
+        }
+      });
+    }
   }, [externalValue]);
 
   // マウント時にフォーカスを設定し、テキストを全選択
@@ -41,17 +77,69 @@ export function CellEditor({
     }
   }, [isMultiline]);
 
+  // カーソル位置の変更（色分けした数式のスクロール位置を入力欄に合わせる）
+  const updateCursor = useCallback(
+    (nextCursor: number) => {
+      setCursor(nextCursor);
+      onCursorChange?.(nextCursor);
+      const element = getElement();
+      if (highlightRef.current && element) {
+        highlightRef.current.scrollLeft = element.scrollLeft;
+        highlightRef.current.scrollTop = element.scrollTop;
+      }
+    },
+    [onCursorChange, getElement]
+  );
+
+  // 補完候補の関数名を挿入した値を反映し、カーソルを関数名の後に移動する
+  const handleInsert = useCallback(
+    (nextValue: string, nextCursor: number) => {
+      setInternalValue(nextValue);
+      onChange?.(nextValue);
+      updateCursor(nextCursor);
+      requestAnimationFrame(() => getElement()?.setSelectionRange(nextCursor, nextCursor));
+    },
+    [onChange, updateCursor, getElement]
+  );
+
+  // 関数名の補完・引数のヒント・参照の色分け
+  const assist = useFormulaAssist({
+    value: internalValue,
+    cursor,
+    isActive: true,
+    functionNames,
+    getSignature,
+    locale,
+    onInsert: handleInsert,
+  });
+  const isHighlighted = internalValue.startsWith('=') && assist.highlights.length > 0;
+
   // 値の変更ハンドラー
   const handleChange = useCallback(
     (event: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
       setInternalValue(event.target.value);
+      onChange?.(event.target.value);
+      updateCursor(event.target.selectionStart ?? event.target.value.length);
+    },
+    [onChange, updateCursor]
+  );
+
+  // カーソル移動ハンドラー
+  const handleSelect = useCallback(
+    (event: React.SyntheticEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      updateCursor(event.currentTarget.selectionStart ?? 0);
     },
-    []
+    [updateCursor]
   );
 
   // キーダウンハンドラー
   const handleKeyDown = useCallback(
     (event: React.KeyboardEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      // 補完候補の表示中は候補の選択・挿入を優先する
+      if (assist.handleKeyDown(event)) {
+        return;
+      }
+
       switch (event.key) {
         case 'Enter':
           if (!event.shiftKey || !isMultiline) {
@@ -69,7 +157,7 @@ export function CellEditor({
           break;
       }
     },
-    [internalValue, isMultiline, onComplete, onCancel]
+    [internalValue, isMultiline, onComplete, onCancel, assist]
   );
 
   // フォーカスアウトハンドラー
@@ -80,20 +168,26 @@ export function CellEditor({
     }, 100);
   }, [internalValue, onComplete]);
 
-  // エディターのスタイルを生成
+  // エディターの位置（補完候補・引数のヒントをエディターの下に表示する）
+  const { left, top, ...size } = style ?? {};
+  const containerStyle: React.CSSProperties = { position: 'absolute', left, top, zIndex: 1000 };
+
+  // エディターのスタイルを生成（数式の参照を色分けする場合は文字を透明にして背面に重ねる）
   const getEditorStyle = (): React.CSSProperties => {
     const baseStyle: React.CSSProperties = {
-      ...style,
-      position: 'absolute',
-      zIndex: 1000,
+      ...size,
+      position: 'relative',
+      display: 'block',
       border: '2px solid #1976d2',
       borderRadius: '2px',
       outline: 'none',
       padding: '2px 4px',
       fontSize: '12px',
       fontFamily: 'Arial, sans-serif',
-      backgroundColor: '#ffffff',
-      color: '#000000',
+      lineHeight: '16px',
+      backgroundColor: isHighlighted ? 'transparent' : '#ffffff',
+      color: isHighlighted ? 'transparent' : '#000000',
+      caretColor: '#000000',
       boxSizing: 'border-box',
     };
 
@@ -105,36 +199,81 @@ export function CellEditor({
     return baseStyle;
   };
 
-  // 単一行入力
-  if (!isMultiline) {
-    return (
-      <input
-        ref={inputRef}
-        type="text"
-        value={internalValue}
-        onChange={handleChange}
-        onKeyDown={handleKeyDown}
-        onBlur={handleBlur}
-        style={getEditorStyle()}
-        aria-label={`セル編集 ${String.fromCharCode(65 + position.column)}${position.row + 1}`}
-        autoComplete="off"
-        spellCheck={false}
-      />
-    );
-  }
-
-  // 複数行入力
+  // 色分けした数式のスタイル（エディターと同じ位置に文字を表示する）
+  const highlightStyle: React.CSSProperties = {
+    position: 'absolute',
+    inset: 0,
+    border: '2px solid transparent',
+    padding: '2px 4px',
+    fontSize: '12px',
+    fontFamily: 'Arial, sans-serif',
+    lineHeight: '16px',
+    whiteSpace: isMultiline ? 'pre-wrap' : 'pre',
+    overflowWrap: 'break-word',
+    backgroundColor: '#ffffff',
+    color: '#000000',
+    boxSizing: 'border-box',
+  };
+
+  const ariaLabel = `セル編集 ${String.fromCharCode(65 + position.column)}${position.row + 1}`;
+  const syncScroll = (event: React.UIEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    if (highlightRef.current) {
+      highlightRef.current.scrollLeft = event.currentTarget.scrollLeft;
+      highlightRef.current.scrollTop = event.currentTarget.scrollTop;
+    }
+  };
+
   return (
-    <textarea
-      ref={textareaRef}
-      value={internalValue}
-      onChange={handleChange}
-      onKeyDown={handleKeyDown}
-      onBlur={handleBlur}
-      style={getEditorStyle()}
-      aria-label={`セル編集 ${String.fromCharCode(65 + position.column)}${position.row + 1}`}
-      spellCheck={false}
-      rows={Math.min(Math.max(internalValue.split('\n').length, 2), 10)}
-    />
+    <div style={containerStyle}>
+      {isHighlighted && (
+        <FormulaHighlight ref={highlightRef} value={internalValue} highlights={assist.highlights} style={highlightStyle} />
+      )}
+
+      {isMultiline ? (
+        // 複数行入力
+        <textarea
+          ref={textareaRef}
+          value={internalValue}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onSelect={handleSelect}
+          onScroll={syncScroll}
+          onBlur={handleBlur}
+          style={getEditorStyle()}
+          aria-label={ariaLabel}
+          spellCheck={false}
+          rows={Math.min(Math.max(internalValue.split('\n').length, 2), 10)}
+        />
+      ) : (
+        // 単一行入力
+        <input
+          ref={inputRef}
+          type="text"
+          value={internalValue}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onSelect={handleSelect}
+          onScroll={syncScroll}
+          onBlur={handleBlur}
+          style={getEditorStyle()}
+          aria-label={ariaLabel}
+          autoComplete="off"
+          spellCheck={false}
+          aria-autocomplete="list"
+          aria-expanded={assist.suggestions.length > 0}
+        />
+      )}
+
+      {/* 関数名の補完候補・引数のヒント */}
+      {assist.suggestions.length > 0 ? (
+        <FunctionSuggestions
+          suggestions={assist.suggestions}
+          selectedIndex={assist.selectedIndex}
+          onSelect={assist.insertFunctionName}
+        />
+      ) : assist.signatureHelp && (
+        <SignatureHelp {...assist.signatureHelp} />
+      )}
+    </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import React, { useState } from 'react';
+import { SheetCellPosition } from '../../lib/cell';
+import { CircularReference, formatSheetCellPosition } from '../../lib/formula-engine/dependencies';
+
+export interface CircularReferencePanelProps {
+  circularReferences: CircularReference[];
+  onNavigate: (position: SheetCellPosition) => void;
+  onClose: () => void;
+}
+
+/**
+ * 循環参照パネル
+ * ワークブックの循環参照ごとに参照をたどる順にセルを並べ、選んだセルに移動する。
+ * ［次のセル］で循環参照のセルを順に移動する
+ */
+export function CircularReferencePanel({ circularReferences, onNavigate, onClose }: CircularReferencePanelProps) {
+  // 移動したセル（循環参照の番号とセルの番号）
+  const [current, setCurrent] = useState<{ reference: number; cell: number }>();
+
+  const navigate = (reference: number, cell: number) => {
+    setCurrent({ reference, cell });
+    onNavigate(circularReferences[reference].cycle[cell]);
+  };
+
+  // 次のセル（循環参照の最後のセルの次は、次の循環参照の最初のセル）
+  const handleNext = () => {
+    if (!current || current.reference >= circularReferences.length) {
+      navigate(0, 0);
+      return;
+    }
+    const { cycle } = circularReferences[current.reference];
+    if (current.cell + 1 < cycle.length) {
+      navigate(current.reference, current.cell + 1);
+    } else {
+      navigate((current.reference + 1) % circularReferences.length, 0);
+    }
+  };
+
+  return (
+    <aside className="w-80 flex-shrink-0 border-l border-gray-300 bg-white overflow-auto text-sm" aria-label="循環参照">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 bg-gray-50">
+        <h2 className="font-semibold text-gray-800">
+          循環参照
+          <span className="ml-1 text-gray-500">{circularReferences.length}件</span>
+        </h2>
+        <button className="text-gray-500 hover:text-gray-800" onClick={onClose} aria-label="循環参照パネルを閉じる">
+          ×
+        </button>
+      </div>
+
+      <div className="px-3 py-2">
+        {circularReferences.length === 0 ? (
+          <p className="text-gray-400">循環参照はありません</p>
+        ) : (
+          <>
+            <button
+              className="mb-2 px-2 py-1 rounded border border-gray-300 hover:bg-gray-100"
+              onClick={handleNext}
+            >
+              次のセル
+            </button>
+            <ol className="space-y-3">
+              {circularReferences.map((reference, referenceIndex) => (
+                <li key={referenceIndex} aria-label={`循環参照 ${referenceIndex + 1}`}>
+                  <div className="flex flex-wrap items-center gap-1">
+                    {reference.cycle.map((position, cellIndex) => {
+                      const isCurrent = current?.reference === referenceIndex && current.cell === cellIndex;
+                      return (
+                        <React.Fragment key={cellIndex}>
+                          <button
+                            className={`px-1 rounded font-mono text-blue-700 hover:bg-blue-50 ${isCurrent ? 'bg-blue-100' : ''}`}
+                            onClick={() => navigate(referenceIndex, cellIndex)}
+                            aria-current={isCurrent ? 'true' : undefined}
+                          >
+                            {formatSheetCellPosition(position)}
+                          </button>
+                          <span className="text-gray-400">→</span>
+                        </React.Fragment>
+                      );
+                    })}
+                    <span className="font-mono text-gray-500">{formatSheetCellPosition(reference.cycle[0])}</span>
+                  </div>
+                  {reference.resolutionHint && (
+                    <p className="mt-1 text-xs text-gray-600">{reference.resolutionHint}</p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </>
+        )}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,603 @@
+'use client'
+
+import React, { useState } from 'react';
+import {
+  CONDITIONAL_FORMAT_ICON_SETS,
+  ConditionalFormatIconSet,
+  ConditionalFormatOperator,
+  ConditionalFormatRule,
+  ConditionalFormatRuleInput,
+  ConditionalFormatRuleType,
+  ConditionalFormatStyle,
+  ConditionalFormatTextOperator,
+  createConditionalFormatRule,
+  normalizeConditionalFormatRange,
+  validateConditionalFormatRule,
+} from '../../lib/conditional-format';
+
+export interface ConditionalFormatDialogProps {
+  sheetName: string;
+  rules: ConditionalFormatRule[];
+  defaultRange: string;    // 新しいルールの適用先（選択範囲）
+  onApply: (rules: ConditionalFormatRule[]) => void;
+  onClose: () => void;
+}
+
+const RULE_TYPE_LABELS: Record<ConditionalFormatRuleType, string> = {
+  cellValue: 'セルの値',
+  textContains: '特定の文字列',
+  topBottom: '上位・下位',
+  average: '平均より上・下',
+  duplicate: '重複する値・一意の値',
+  formula: '数式',
+  colorScale: 'カラースケール',
+  dataBar: 'データバー',
+  iconSet: 'アイコンセット',
+};
+
+const OPERATOR_LABELS: Record<ConditionalFormatOperator, string> = {
+  greaterThan: 'より大きい',
+  greaterThanOrEqual: '以上',
+  lessThan: 'より小さい',
+  lessThanOrEqual: '以下',
+  equal: '等しい',
+  notEqual: '等しくない',
+  between: '次の値の間',
+  notBetween: '次の値の間以外',
+};
+
+const TEXT_OPERATOR_LABELS: Record<ConditionalFormatTextOperator, string> = {
+  contains: 'を含む',
+  notContains: 'を含まない',
+  beginsWith: 'で始まる',
+  endsWith: 'で終わる',
+};
+
+const ICON_SET_LABELS: Record<ConditionalFormatIconSet, string> = {
+  arrows: '矢印',
+  trafficLights: '信号',
+  symbols: '記号',
+  flags: '旗',
+};
+
+const DEFAULT_STYLE: ConditionalFormatStyle = { backgroundColor: '#fecaca', textColor: '#991b1b' };
+
+/**
+ * 種類を選んだときの新しいルールの内容
+ */
+function createDefaultRule(type: ConditionalFormatRuleType, range: string): ConditionalFormatRuleInput {
+  switch (type) {
+    case 'cellValue': return { type, range, operator: 'greaterThan', value1: '0', style: DEFAULT_STYLE };
+    case 'textContains': return { type, range, operator: 'contains', text: '', style: DEFAULT_STYLE };
+    case 'topBottom': return { type, range, direction: 'top', rank: 10, style: DEFAULT_STYLE };
+    case 'average': return { type, range, direction: 'above', style: DEFAULT_STYLE };
+    case 'duplicate': return { type, range, style: DEFAULT_STYLE };
+    case 'formula': return { type, range, formula: '=', style: DEFAULT_STYLE };
+    case 'colorScale': return { type, range, minColor: '#f8696b', midColor: '#ffeb84', maxColor: '#63be7b' };
+    case 'dataBar': return { type, range, color: '#638ec6' };
+    case 'iconSet': return { type, range, iconSet: 'arrows' };
+  }
+}
+
+/**
+ * ルールの内容の説明（ルールの一覧に表示する）
+ */
+export function describeConditionalFormatRule(rule: ConditionalFormatRuleInput): string {
+  switch (rule.type) {
+    case 'cellValue':
+      return rule.operator === 'between' || rule.operator === 'notBetween'
+        ? `セルの値が ${rule.value1} と ${rule.value2 ?? ''} ${OPERATOR_LABELS[rule.operator]}`
+        : `セルの値が ${rule.value1} ${OPERATOR_LABELS[rule.operator]}`;
+    case 'textContains':
+      return `「${rule.text}」${TEXT_OPERATOR_LABELS[rule.operator]}`;
+    case 'topBottom':
+      return `${rule.direction === 'top' ? '上位' : '下位'} ${rule.rank}${rule.percent ? '%' : '項目'}`;
+    case 'average':
+      return `平均${rule.equalAverage ? '以' : 'より'}${rule.direction === 'above' ? '上' : '下'}`;
+    case 'duplicate':
+      return rule.unique ? '一意の値' : '重複する値';
+    case 'formula':
+      return `数式: ${rule.formula}`;
+    case 'colorScale':
+      return rule.midColor ? '3色スケール' : '2色スケール';
+    case 'dataBar':
+      return 'データバー';
+    case 'iconSet':
+      return `アイコンセット（${ICON_SET_LABELS[rule.iconSet]}）`;
+  }
+}
+
+/**
+ * 条件付き書式ルールの管理ダイアログ
+ * シートのルールを優先度の順に一覧し、追加・編集・削除・優先度の変更をして［OK］でまとめて反映する
+ */
+export function ConditionalFormatDialog({
+  sheetName,
+  rules: initialRules,
+  defaultRange,
+  onApply,
+  onClose,
+}: ConditionalFormatDialogProps) {
+  const [rules, setRules] = useState(initialRules);
+  const [selectedId, setSelectedId] = useState<string | undefined>(initialRules[0]?.id);
+  // 編集中のルール（idがない場合は新しいルール）
+  const [editing, setEditing] = useState<{ id?: string; rule: ConditionalFormatRuleInput }>();
+  const [error, setError] = useState<string>();
+
+  const selectedIndex = rules.findIndex(rule => rule.id === selectedId);
+
+  const startEdit = (id: string | undefined, rule: ConditionalFormatRuleInput) => {
+    setEditing({ id, rule });
+    setError(undefined);
+  };
+
+  const updateRule = (changes: Partial<Record<string, unknown>>) => {
+    setEditing(current => current && { ...current, rule: { ...current.rule, ...changes } as ConditionalFormatRuleInput });
+  };
+
+  const updateStyle = (changes: ConditionalFormatStyle) => {
+    if (editing && 'style' in editing.rule) {
+      updateRule({ style: { ...editing.rule.style, ...changes } });
+    }
+  };
+
+  // 編集中のルールを確定する（新しいルールは最も優先度を高くする）
+  const handleSaveRule = () => {
+    if (!editing) return;
+    const validation = validateConditionalFormatRule(editing.rule);
+    if (!validation.success) {
+      setError(validation.error);
+      return;
+    }
+
+    if (editing.id) {
+      const updated = { ...editing.rule, id: editing.id, range: normalizeConditionalFormatRange(editing.rule.range) };
+      setRules(current => current.map(rule => (rule.id === editing.id ? updated as ConditionalFormatRule : rule)));
+    } else {
+      const created = createConditionalFormatRule(editing.rule);
+      setRules(current => [created, ...current]);
+      setSelectedId(created.id);
+    }
+    setEditing(undefined);
+    setError(undefined);
+  };
+
+  const handleDelete = () => {
+    setRules(current => current.filter(rule => rule.id !== selectedId));
+    setSelectedId(undefined);
+  };
+
+  const handleMove = (offset: number) => {
+    const toIndex = selectedIndex + offset;
+    if (selectedIndex === -1 || toIndex < 0 || toIndex >= rules.length) return;
+    setRules(current => {
+      const moved = [...current];
+      const [rule] = moved.splice(selectedIndex, 1);
+      moved.splice(toIndex, 0, rule);
+      return moved;
+    });
+  };
+
+  const handleStopIfTrue = (id: string, stopIfTrue: boolean) => {
+    setRules(current => current.map(rule => (rule.id === id ? { ...rule, stopIfTrue } : rule)));
+  };
+
+  // Escapeキーで編集を取り消す（編集中でなければ閉じる）
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      if (editing) {
+        setEditing(undefined);
+      } else {
+        onClose();
+      }
+    }
+  };
+
+  const rule = editing?.rule;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30" onKeyDown={handleKeyDown}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="conditional-format-title"
+        className="w-[640px] max-w-full bg-white rounded shadow-lg text-sm"
+      >
+        <div className="px-4 py-2 border-b border-gray-200 bg-gray-50">
+          <h2 id="conditional-format-title" className="font-semibold text-gray-800">
+            条件付き書式ルールの管理（{sheetName}）
+          </h2>
+        </div>
+
+        <div className="px-4 py-3 space-y-3">
+          <div className="flex gap-2">
+            <button
+              className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-100"
+              onClick={() => startEdit(undefined, createDefaultRule('cellValue', defaultRange))}
+            >
+              新しいルール
+            </button>
+            <button
+              className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+              disabled={selectedIndex === -1}
+              onClick={() => {
+                const { id, ...selected } = rules[selectedIndex];
+                startEdit(id, selected as ConditionalFormatRuleInput);
+              }}
+            >
+              ルールの編集
+            </button>
+            <button
+              className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+              disabled={selectedIndex === -1}
+              onClick={handleDelete}
+            >
+              ルールの削除
+            </button>
+            <button
+              className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+              disabled={selectedIndex <= 0}
+              onClick={() => handleMove(-1)}
+              title="優先度を上げる"
+              aria-label="優先度を上げる"
+            >
+              ▲
+            </button>
+            <button
+              className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+              disabled={selectedIndex === -1 || selectedIndex >= rules.length - 1}
+              onClick={() => handleMove(1)}
+              title="優先度を下げる"
+              aria-label="優先度を下げる"
+            >
+              ▼
+            </button>
+          </div>
+
+          {/* ルールの一覧（上ほど優先度が高い） */}
+          <div className="max-h-48 overflow-auto border border-gray-300 rounded">
+            {rules.length === 0 ? (
+              <p className="p-2 text-gray-500">ルールはありません</p>
+            ) : (
+              <table className="w-full text-left">
+                <thead className="bg-gray-50 text-gray-600">
+                  <tr>
+                    <th className="px-2 py-1 font-normal">ルール</th>
+                    <th className="px-2 py-1 font-normal">適用先</th>
+                    <th className="px-2 py-1 font-normal">条件を満たす場合は停止</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rules.map(item => (
+                    <tr
+                      key={item.id}
+                      className={item.id === selectedId ? 'bg-blue-100' : 'hover:bg-gray-50 cursor-pointer'}
+                      onClick={() => setSelectedId(item.id)}
+                      aria-selected={item.id === selectedId}
+                    >
+                      <td className="px-2 py-1">
+                        <span className="text-gray-500 mr-1">{RULE_TYPE_LABELS[item.type]}:</span>
+                        {describeConditionalFormatRule(item)}
+                      </td>
+                      <td className="px-2 py-1 font-mono">{item.range}</td>
+                      <td className="px-2 py-1">
+                        <input
+                          type="checkbox"
+                          checked={!!item.stopIfTrue}
+                          onChange={event => handleStopIfTrue(item.id, event.target.checked)}
+                          aria-label={`${describeConditionalFormatRule(item)} の条件を満たす場合は停止`}
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* ルールの編集 */}
+          {rule && (
+            <fieldset className="border border-gray-300 rounded p-3 space-y-2">
+              <legend className="px-1 text-gray-700">{editing?.id ? 'ルールの編集' : '新しいルール'}</legend>
+
+              <div className="flex items-center gap-2">
+                <label className="w-20 text-gray-600" htmlFor="conditional-format-type">種類</label>
+                <select
+                  id="conditional-format-type"
+                  className="border border-gray-300 rounded px-1 py-0.5"
+                  value={rule.type}
+                  onChange={event => setEditing(current => current && {
+                    ...current,
+                    rule: createDefaultRule(event.target.value as ConditionalFormatRuleType, current.rule.range),
+                  })}
+                >
+                  {Object.entries(RULE_TYPE_LABELS).map(([type, label]) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <label className="w-20 text-gray-600" htmlFor="conditional-format-range">適用先</label>
+                <input
+                  id="conditional-format-range"
+                  className="flex-1 border border-gray-300 rounded px-1 py-0.5 font-mono"
+                  value={rule.range}
+                  onChange={event => updateRule({ range: event.target.value })}
+                />
+              </div>
+
+              {rule.type === 'cellValue' && (
+                <div className="flex items-center gap-2">
+                  <select
+                    aria-label="比較の種類"
+                    className="border border-gray-300 rounded px-1 py-0.5"
+                    value={rule.operator}
+                    onChange={event => updateRule({ operator: event.target.value })}
+                  >
+                    {Object.entries(OPERATOR_LABELS).map(([operator, label]) => (
+                      <option key={operator} value={operator}>{label}</option>
+                    ))}
+                  </select>
+                  <input
+                    aria-label="比較する値"
+                    className="flex-1 border border-gray-300 rounded px-1 py-0.5 font-mono"
+                    value={rule.value1}
+                    onChange={event => updateRule({ value1: event.target.value })}
+                  />
+                  {(rule.operator === 'between' || rule.operator === 'notBetween') && (
+                    <input
+                      aria-label="比較する値（上限）"
+                      className="flex-1 border border-gray-300 rounded px-1 py-0.5 font-mono"
+                      value={rule.value2 ?? ''}
+                      onChange={event => updateRule({ value2: event.target.value })}
+                    />
+                  )}
+                </div>
+              )}
+
+              {rule.type === 'textContains' && (
+                <div className="flex items-center gap-2">
+                  <input
+                    aria-label="文字列"
+                    className="flex-1 border border-gray-300 rounded px-1 py-0.5"
+                    value={rule.text}
+                    onChange={event => updateRule({ text: event.target.value })}
+                  />
+                  <select
+                    aria-label="文字列の条件"
+                    className="border border-gray-300 rounded px-1 py-0.5"
+                    value={rule.operator}
+                    onChange={event => updateRule({ operator: event.target.value })}
+                  >
+                    {Object.entries(TEXT_OPERATOR_LABELS).map(([operator, label]) => (
+                      <option key={operator} value={operator}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {rule.type === 'topBottom' && (
+                <div className="flex items-center gap-2">
+                  <select
+                    aria-label="上位・下位"
+                    className="border border-gray-300 rounded px-1 py-0.5"
+                    value={rule.direction}
+                    onChange={event => updateRule({ direction: event.target.value })}
+                  >
+                    <option value="top">上位</option>
+                    <option value="bottom">下位</option>
+                  </select>
+                  <input
+                    type="number"
+                    aria-label="順位"
+                    min={1}
+                    className="w-20 border border-gray-300 rounded px-1 py-0.5"
+                    value={rule.rank}
+                    onChange={event => updateRule({ rank: Number(event.target.value) })}
+                  />
+                  <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={!!rule.percent} onChange={event => updateRule({ percent: event.target.checked })} />
+                    %
+                  </label>
+                </div>
+              )}
+
+              {rule.type === 'average' && (
+                <div className="flex items-center gap-2">
+                  <select
+                    aria-label="平均より上・下"
+                    className="border border-gray-300 rounded px-1 py-0.5"
+                    value={rule.direction}
+                    onChange={event => updateRule({ direction: event.target.value })}
+                  >
+                    <option value="above">平均より上</option>
+                    <option value="below">平均より下</option>
+                  </select>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={!!rule.equalAverage}
+                      onChange={event => updateRule({ equalAverage: event.target.checked })}
+                    />
+                    平均と等しい値を含む
+                  </label>
+                </div>
+              )}
+
+              {rule.type === 'duplicate' && (
+                <select
+                  aria-label="重複する値・一意の値"
+                  className="border border-gray-300 rounded px-1 py-0.5"
+                  value={rule.unique ? 'unique' : 'duplicate'}
+                  onChange={event => updateRule({ unique: event.target.value === 'unique' })}
+                >
+                  <option value="duplicate">重複する値</option>
+                  <option value="unique">一意の値</option>
+                </select>
+              )}
+
+              {rule.type === 'formula' && (
+                <div>
+                  <input
+                    aria-label="数式"
+                    className="w-full border border-gray-300 rounded px-1 py-0.5 font-mono"
+                    value={rule.formula}
+                    onChange={event => updateRule({ formula: event.target.value })}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    適用先の左上のセルに対する数式を入力します（相対参照は各セルの位置に合わせてずれます）
+                  </p>
+                </div>
+              )}
+
+              {rule.type === 'colorScale' && (
+                <div className="flex items-center gap-3">
+                  <label className="flex items-center gap-1">
+                    最小値
+                    <input type="color" value={rule.minColor} onChange={event => updateRule({ minColor: event.target.value })} />
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={rule.midColor !== undefined}
+                      onChange={event => updateRule({ midColor: event.target.checked ? '#ffeb84' : undefined })}
+                    />
+                    中間値
+                    {rule.midColor !== undefined && (
+                      <input type="color" value={rule.midColor} onChange={event => updateRule({ midColor: event.target.value })} />
+                    )}
+                  </label>
+                  <label className="flex items-center gap-1">
+                    最大値
+                    <input type="color" value={rule.maxColor} onChange={event => updateRule({ maxColor: event.target.value })} />
+                  </label>
+                </div>
+              )}
+
+              {rule.type === 'dataBar' && (
+                <label className="flex items-center gap-1">
+                  棒の色
+                  <input type="color" value={rule.color} onChange={event => updateRule({ color: event.target.value })} />
+                </label>
+              )}
+
+              {rule.type === 'iconSet' && (
+                <div className="flex items-center gap-2">
+                  <select
+                    aria-label="アイコンセット"
+                    className="border border-gray-300 rounded px-1 py-0.5"
+                    value={rule.iconSet}
+                    onChange={event => updateRule({ iconSet: event.target.value })}
+                  >
+                    {Object.entries(ICON_SET_LABELS).map(([iconSet, label]) => (
+                      <option key={iconSet} value={iconSet}>
+                        {label} {CONDITIONAL_FORMAT_ICON_SETS[iconSet as ConditionalFormatIconSet].map(icon => icon.symbol).join('')}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-1">
+                    <input type="checkbox" checked={!!rule.reverse} onChange={event => updateRule({ reverse: event.target.checked })} />
+                    アイコンの順序を逆にする
+                  </label>
+                </div>
+              )}
+
+              {/* 条件を満たしたセルの書式 */}
+              {'style' in rule && (
+                <div className="flex items-center gap-3 pt-1 border-t border-gray-200">
+                  <span className="text-gray-600">書式</span>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={rule.style.backgroundColor !== undefined}
+                      onChange={event => updateStyle({ backgroundColor: event.target.checked ? '#fecaca' : undefined })}
+                    />
+                    背景色
+                    {rule.style.backgroundColor !== undefined && (
+                      <input
+                        type="color"
+                        value={rule.style.backgroundColor}
+                        onChange={event => updateStyle({ backgroundColor: event.target.value })}
+                      />
+                    )}
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={rule.style.textColor !== undefined}
+                      onChange={event => updateStyle({ textColor: event.target.checked ? '#991b1b' : undefined })}
+                    />
+                    文字色
+                    {rule.style.textColor !== undefined && (
+                      <input
+                        type="color"
+                        value={rule.style.textColor}
+                        onChange={event => updateStyle({ textColor: event.target.value })}
+                      />
+                    )}
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={rule.style.fontWeight === 'bold'}
+                      onChange={event => updateStyle({ fontWeight: event.target.checked ? 'bold' : undefined })}
+                    />
+                    太字
+                  </label>
+                  <label className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={rule.style.fontStyle === 'italic'}
+                      onChange={event => updateStyle({ fontStyle: event.target.checked ? 'italic' : undefined })}
+                    />
+                    斜体
+                  </label>
+                  <span
+                    className="ml-auto px-2 border border-gray-300"
+                    style={{
+                      backgroundColor: rule.style.backgroundColor,
+                      color: rule.style.textColor,
+                      fontWeight: rule.style.fontWeight,
+                      fontStyle: rule.style.fontStyle,
+                    }}
+                  >
+                    プレビュー
+                  </span>
+                </div>
+              )}
+
+              {error && <p className="text-red-600" role="alert">{error}</p>}
+
+              <div className="flex justify-end gap-2">
+                <button
+                  className="px-3 py-1 rounded border border-blue-600 bg-blue-600 text-white hover:bg-blue-700"
+                  onClick={handleSaveRule}
+                >
+                  {editing?.id ? 'ルールを更新' : 'ルールを追加'}
+                </button>
+                <button className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-100" onClick={() => setEditing(undefined)}>
+                  取り消し
+                </button>
+              </div>
+            </fieldset>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-2 border-t border-gray-200">
+          <button
+            className="px-3 py-1 rounded border border-blue-600 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            onClick={() => onApply(rules)}
+            disabled={!!editing}
+          >
+            OK
+          </button>
+          <button className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-100" onClick={onClose} autoFocus>
+            キャンセル
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import React, { useMemo } from 'react';
+import { SheetCellPosition } from '../../lib/cell';
+import { Workbook, getSheetByName } from '../../lib/workbook';
+import { formatSheetCellPosition } from '../../lib/formula-engine/dependencies';
+import {
+  DependencyChainEntry,
+  TraceDirection,
+  WorkbookDependencies,
+  getDependencyChain
+} from '../../lib/formula-engine/auditing';
+
+export interface DependencyPanelProps {
+  workbook: Workbook;
+  position: SheetCellPosition;  // 依存関係を表示するセル（シート名付き）
+  dependencies: WorkbookDependencies;
+  onNavigate: (position: SheetCellPosition) => void;
+  onClose: () => void;
+}
+
+/**
+ * 依存関係の連鎖の見出し
+ */
+const CHAIN_TITLES: Record<TraceDirection, string> = {
+  precedents: '参照元（このセルが参照するセル）',
+  dependents: '参照先（このセルを参照するセル）',
+};
+
+/**
+ * セルの依存関係パネル
+ * 選択したセルの参照元・参照先の連鎖を段階ごとに字下げして一覧にし、ワークブック全体の依存関係の概要を表示する
+ */
+export function DependencyPanel({
+  workbook,
+  position,
+  dependencies,
+  onNavigate,
+  onClose,
+}: DependencyPanelProps) {
+  const chains = useMemo(() => ({
+    precedents: getDependencyChain(dependencies.manager, position, 'precedents'),
+    dependents: getDependencyChain(dependencies.manager, position, 'dependents'),
+  }), [dependencies, position]);
+
+  // セルの数式と表示値
+  const describeCell = (target: SheetCellPosition) => {
+    const sheet = target.sheetName !== undefined ? getSheetByName(workbook, target.sheetName) : undefined;
+    const cell = sheet?.cells.get(`${target.row}-${target.column}`);
+    return { formula: cell?.dataType === 'formula' ? cell.rawValue : undefined, value: cell?.displayValue ?? '' };
+  };
+
+  const current = describeCell(position);
+  const { analysis } = dependencies;
+
+  const renderChain = (direction: TraceDirection, chain: DependencyChainEntry[]) => (
+    <section className="mb-3" aria-label={CHAIN_TITLES[direction]}>
+      <h3 className="font-medium text-gray-700 mb-1">
+        {CHAIN_TITLES[direction]}
+        <span className="ml-1 text-gray-500">{chain.length}件</span>
+      </h3>
+      {chain.length === 0 ? (
+        <p className="text-gray-400">なし</p>
+      ) : (
+        <ul>
+          {chain.map(entry => {
+            const { formula, value } = describeCell(entry.position);
+            return (
+              <li key={formatSheetCellPosition(entry.position)} style={{ paddingLeft: (entry.depth - 1) * 12 }}>
+                <button
+                  className="w-full text-left px-1 rounded hover:bg-blue-50"
+                  onClick={() => onNavigate(entry.position)}
+                  title={formula ?? value}
+                >
+                  <span className="font-mono text-blue-700">{formatSheetCellPosition(entry.position)}</span>
+                  <span className="ml-2 text-gray-800">{value}</span>
+                  {formula && <span className="ml-2 font-mono text-xs text-gray-500">{formula}</span>}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+
+  return (
+    <aside className="w-80 flex-shrink-0 border-l border-gray-300 bg-white overflow-auto text-sm" aria-label="依存関係">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 bg-gray-50">
+        <h2 className="font-semibold text-gray-800">依存関係</h2>
+        <button className="text-gray-500 hover:text-gray-800" onClick={onClose} aria-label="依存関係パネルを閉じる">
+          ×
+        </button>
+      </div>
+
+      <div className="px-3 py-2">
+        <div className="mb-3">
+          <div className="font-mono text-blue-700">{formatSheetCellPosition(position)}</div>
+          {current.formula && <div className="font-mono text-xs text-gray-600 break-all">{current.formula}</div>}
+          <div className="text-gray-800">{current.value}</div>
+        </div>
+
+        {renderChain('precedents', chains.precedents)}
+        {renderChain('dependents', chains.dependents)}
+
+        <section aria-label="ワークブックの依存関係の概要">
+          <h3 className="font-medium text-gray-700 mb-1">ワークブックの概要</h3>
+          <dl className="grid grid-cols-2 gap-x-2 text-gray-600">
+            <dt>セル</dt><dd>{analysis.totalNodes}</dd>
+            <dt>参照</dt><dd>{analysis.totalEdges}</dd>
+            <dt>最大の段階</dt><dd>{analysis.maxDepth}</dd>
+            <dt>循環参照</dt><dd>{analysis.circularReferenceCount}</dd>
+            <dt>複雑度</dt><dd>{analysis.complexityScore}</dd>
+          </dl>
+        </section>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import React, { useEffect, useState } from 'react';
+import { FormulaEvaluationStep } from '../../lib/formula-engine/evaluator';
+
+export interface EvaluateFormulaDialogProps {
+  cellLabel: string;       // 評価するセル（Sheet1!B2）
+  formula: string;
+  steps: FormulaEvaluationStep[];
+  result: string;          // 数式の結果の表示値
+  error?: string;          // 評価の手順を求められない場合のエラー
+  onClose: () => void;
+}
+
+/**
+ * 数式の検証ダイアログ
+ * 数式の評価する部分に下線を引き、［評価］で1つずつ値に置き換えて、途中の値を確認できるようにする
+ */
+export function EvaluateFormulaDialog({
+  cellLabel,
+  formula,
+  steps,
+  result,
+  error,
+  onClose,
+}: EvaluateFormulaDialogProps) {
+  // 表示中の手順（steps.lengthは評価の完了）
+  const [stepIndex, setStepIndex] = useState(0);
+  useEffect(() => setStepIndex(0), [steps]);
+
+  const isComplete = stepIndex >= steps.length;
+  const step = steps[stepIndex];
+
+  // Escapeキーで閉じる
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      event.stopPropagation();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-30" onKeyDown={handleKeyDown}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="evaluate-formula-title"
+        className="w-[560px] max-w-full bg-white rounded shadow-lg text-sm"
+      >
+        <div className="px-4 py-2 border-b border-gray-200 bg-gray-50">
+          <h2 id="evaluate-formula-title" className="font-semibold text-gray-800">数式の検証</h2>
+        </div>
+
+        <div className="px-4 py-3 space-y-3">
+          <div>
+            <span className="text-gray-600">参照:</span>
+            <span className="ml-2 font-mono text-blue-700">{cellLabel}</span>
+          </div>
+
+          <div>
+            <div className="text-gray-600 mb-1">評価:</div>
+            <div className="font-mono p-2 border border-gray-300 rounded bg-gray-50 break-all" data-testid="evaluate-formula-expression">
+              {error ? (
+                <span>{formula}</span>
+              ) : isComplete ? (
+                <span>{result}</span>
+              ) : (
+                <>
+                  {step.formula.slice(0, step.start)}
+                  <span className="underline decoration-2 decoration-blue-600 font-semibold">
+                    {step.formula.slice(step.start, step.end)}
+                  </span>
+                  {step.formula.slice(step.end)}
+                </>
+              )}
+            </div>
+            {error && <p className="mt-1 text-red-600">{error}</p>}
+            {!error && !isComplete && (
+              <p className="mt-1 text-gray-500">下線の部分を評価します（{stepIndex + 1}/{steps.length}）</p>
+            )}
+          </div>
+
+          {stepIndex > 0 && (
+            <ol className="max-h-40 overflow-auto border-t border-gray-200 pt-2 space-y-0.5" aria-label="評価した手順">
+              {steps.slice(0, stepIndex).map((evaluated, index) => (
+                <li key={index} className="font-mono text-xs">
+                  <span className="text-gray-700">{evaluated.expression}</span>
+                  <span className="mx-1 text-gray-400">→</span>
+                  <span className="text-gray-900">{evaluated.displayValue}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 px-4 py-2 border-t border-gray-200">
+          {isComplete && steps.length > 0 ? (
+            <button className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-100" onClick={() => setStepIndex(0)}>
+              再開
+            </button>
+          ) : (
+            <button
+              className="px-3 py-1 rounded border border-blue-600 bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              onClick={() => setStepIndex(index => index + 1)}
+              disabled={!!error || isComplete}
+            >
+              評価
+            </button>
+          )}
+          <button className="px-3 py-1 rounded border border-gray-300 hover:bg-gray-100" onClick={onClose} autoFocus>
+            閉じる
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client'
+
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import { getFunctionNameAtCursor } from '../../lib/formula';
+import { FormulaFunctionSignature, getActiveParameterIndex } from '../../lib/formula-engine/signatures';
+import { FormulaLocale } from '../../lib/formula-engine/locale';
+import { FormulaReferenceHighlight, getFunctionCallAtCursor, getFormulaReferenceHighlights } from '../../lib/formula-engine/editing';
+
+// 補完候補の最大表示数
+const MAX_SUGGESTIONS = 8;
+
+export interface FormulaAssistOptions {
+  value: string;
+  cursor: number;
+  isActive: boolean;                                              // 入力欄にフォーカスがある
+  functionNames: string[];                                        // 関数名の補完候補
+  getSignature?: (name: string) => FormulaFunctionSignature | undefined;  // 英語の関数名から引数の一覧を求める
+  locale?: FormulaLocale;                                          // 入力する数式の言語
+  onInsert: (value: string, cursor: number) => void;              // 補完候補を挿入した値とカーソル位置
+}
+
+/**
+ * 数式の入力支援（関数名の補完・引数のヒント・参照の色分け）の状態
+ * 入力欄のキーダウンでは最初にhandleKeyDownを呼び、trueを返した場合は入力欄の処理を行わない
+ */
+export function useFormulaAssist({ value, cursor, isActive, functionNames, getSignature, locale, onInsert }: FormulaAssistOptions) {
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [dismissedValue, setDismissedValue] = useState<string>();
+
+  // 入力中の関数名と補完候補（Escで閉じた候補は値が変わるまで表示しない）
+  const completion = useMemo(
+    () => (isActive && dismissedValue !== value ? getFunctionNameAtCursor(value, cursor) : null),
+    [isActive, dismissedValue, value, cursor]
+  );
+  const suggestions = useMemo(() => {
+    if (!completion) return [];
+    const prefix = completion.prefix.toUpperCase();
+    return functionNames.filter(name => name.startsWith(prefix)).slice(0, MAX_SUGGESTIONS);
+  }, [completion, functionNames]);
+  const selectedIndex = Math.min(suggestionIndex, Math.max(suggestions.length - 1, 0));
+
+  // 入力が変わったら先頭の候補を選ぶ
+  useEffect(() => {
+    setSuggestionIndex(0);
+  }, [value]);
+
+  // カーソル位置の関数の引数のヒント
+  const signatureHelp = useMemo(() => {
+    if (!isActive || !getSignature) return null;
+    const call = getFunctionCallAtCursor(value, cursor, locale);
+    const signature = call ? getSignature(call.name) : undefined;
+    return call && signature
+      ? { signature, activeParameter: getActiveParameterIndex(signature, call.argumentIndex) }
+      : null;
+  }, [isActive, getSignature, value, cursor, locale]);
+
+  // 参照の色分け（数式のみ）
+  const highlights = useMemo(() => getFormulaReferenceHighlights(value, locale), [value, locale]);
+
+  // 補完候補の関数名を「関数名(」として挿入する
+  const insertFunctionName = useCallback(
+    (name: string) => {
+      if (!completion) return;
+      onInsert(`${value.slice(0, completion.start)}${name}(${value.slice(cursor)}`, completion.start + name.length + 1);
+    },
+    [completion, value, cursor, onInsert]
+  );
+
+  // 補完候補の表示中は上下キーで選択、Tabで挿入、Escで閉じる
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent): boolean => {
+      if (suggestions.length === 0) return false;
+      switch (event.key) {
+        case 'ArrowDown':
+          setSuggestionIndex((selectedIndex + 1) % suggestions.length);
+          break;
+        case 'ArrowUp':
+          setSuggestionIndex((selectedIndex - 1 + suggestions.length) % suggestions.length);
+          break;
+        case 'Tab':
+          insertFunctionName(suggestions[selectedIndex]);
+          break;
+        case 'Escape':
+          setDismissedValue(value);
+          break;
+        default:
+          return false;
+      }
+      event.preventDefault();
+      return true;
+    },
+    [suggestions, selectedIndex, insertFunctionName, value]
+  );
+
+  return { suggestions, selectedIndex, signatureHelp, highlights, insertFunctionName, handleKeyDown };
+}
+
+export interface FunctionSuggestionsProps {
+  suggestions: string[];
+  selectedIndex: number;
+  onSelect: (name: string) => void;
+}
+
+/**
+ * 関数名の補完候補
+ */
+export function FunctionSuggestions({ suggestions, selectedIndex, onSelect }: FunctionSuggestionsProps) {
+  return (
+    <ul
+      className="absolute left-0 top-full z-[1100] mt-1 min-w-[12rem] bg-white border border-gray-300 rounded shadow-lg text-sm font-mono"
+      role="listbox"
+      aria-label="関数の候補"
+    >
+      {suggestions.map((name, index) => (
+        <li
+          key={name}
+          role="option"
+          aria-selected={index === selectedIndex}
+          className={`px-3 py-1 cursor-pointer ${
+            index === selectedIndex ? 'bg-blue-100 text-blue-900' : 'hover:bg-gray-100'
+          }`}
+          onMouseDown={event => {
+            // 入力欄のフォーカスを保ったまま挿入する
+            event.preventDefault();
+            onSelect(name);
+          }}
+        >
+          {name}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export interface SignatureHelpProps {
+  signature: FormulaFunctionSignature;
+  activeParameter: number;
+}
+
+/**
+ * 関数の引数のヒント（入力中の引数を太字で表示する）
+ */
+export function SignatureHelp({ signature, activeParameter }: SignatureHelpProps) {
+  const { parameters } = signature;
+  return (
+    <div
+      role="tooltip"
+      aria-label="引数のヒント"
+      className="absolute left-0 top-full z-[1100] mt-1 px-2 py-1 bg-white border border-gray-300 rounded shadow text-xs font-mono text-gray-700 whitespace-nowrap"
+    >
+      {signature.name}(
+      {parameters.map((parameter, index) => {
+        const label = parameter.optional ? `[${parameter.name}]` : parameter.name;
+        return (
+          <React.Fragment key={index}>
+            {index > 0 && ', '}
+            {index === activeParameter ? (
+              <strong className="text-blue-700" aria-current="true">{label}</strong>
+            ) : (
+              label
+            )}
+            {parameter.repeating && ', ...'}
+          </React.Fragment>
+        );
+      })}
+      )
+      {signature.description && <span className="ml-2 font-sans text-gray-500">{signature.description}</span>}
+    </div>
+  );
+}
+
+export interface FormulaHighlightProps {
+  value: string;
+  highlights: FormulaReferenceHighlight[];
+  style?: React.CSSProperties;
+  className?: string;
+}
+
+/**
+ * 参照を色分けした数式（文字を透明にした入力欄の背面に重ねて表示する）
+ */
+export const FormulaHighlight = React.forwardRef<HTMLDivElement, FormulaHighlightProps>(function FormulaHighlight(
+  { value, highlights, style, className },
+  ref
+) {
+  const parts: React.ReactNode[] = [];
+  let index = 0;
+  for (const highlight of highlights) {
+    parts.push(value.slice(index, highlight.start));
+    parts.push(
+      <span key={highlight.start} style={{ color: highlight.color }} data-reference={highlight.text}>
+        {value.slice(highlight.start, highlight.end)}
+      </span>
+    );
+    index = highlight.end;
+  }
+  parts.push(value.slice(index));
+
+  return (
+    <div ref={ref} aria-hidden="true" className={className} style={{ ...style, pointerEvents: 'none', overflow: 'hidden' }}>
+      {parts}
+    </div>
+  );
+});
@@ -2,32 +2,110 @@
 
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import { CellPosition, cellPositionToA1Notation } from '../../lib/cell';
+import { FormulaFunctionSignature } from '../../lib/formula-engine/signatures';
+import { FormulaLocale } from '../../lib/formula-engine/locale';
+import { FormulaHighlight, FunctionSuggestions, SignatureHelp, useFormulaAssist } from '../FormulaAssist/FormulaAssist';
 
 export interface FormulaBarProps {
   value: string;
   activeCell: CellPosition;
   onChange: (value: string) => void;
   onSubmit: () => void;
+  functionNames?: string[];   // 関数名の補完候補
+  getSignature?: (name: string) => FormulaFunctionSignature | undefined;  // 引数のヒントに表示する関数の引数
+  cursor?: number;            // 外部から設定するカーソル位置（参照の挿入後など）
+  locale?: FormulaLocale;     // 入力する数式の言語
+  onCursorChange?: (cursor: number) => void;
 }
 
-export function FormulaBar({ value, activeCell, onChange, onSubmit }: FormulaBarProps) {
+export function FormulaBar({
+  value,
+  activeCell,
+  onChange,
+  onSubmit,
+  functionNames = [],
+  getSignature,
+  cursor: externalCursor,
+  locale,
+  onCursorChange,
+}: FormulaBarProps) {
   const [isFocused, setIsFocused] = useState(false);
+  const [cursor, setCursor] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
 
   // アクティブセルのA1記法
   const activeCellA1 = cellPositionToA1Notation(activeCell);
 
+  // カーソル位置の変更（色分けした数式のスクロール位置を入力欄に合わせる）
+  const updateCursor = useCallback(
+    (nextCursor: number) => {
+      setCursor(nextCursor);
+      onCursorChange?.(nextCursor);
+      if (highlightRef.current && inputRef.current) {
+        highlightRef.current.scrollLeft = inputRef.current.scrollLeft;
+      }
+    },
+    [onCursorChange]
+  );
+
+  // 補完候補の関数名を挿入した値を反映し、カーソルを関数名の後に移動する
+  const handleInsert = useCallback(
+    (nextValue: string, nextCursor: number) => {
+      onChange(nextValue);
+      updateCursor(nextCursor);
+      requestAnimationFrame(() => inputRef.current?.setSelectionRange(nextCursor, nextCursor));
+    },
+    [onChange, updateCursor]
+  );
+
+  // 関数名の補完・引数のヒント・参照の色分け
+  const assist = useFormulaAssist({
+    value,
+    cursor,
+    isActive: isFocused,
+    functionNames,
+    getSignature,
+    locale,
+    onInsert: handleInsert,
+  });
+  const isHighlighted = value.startsWith('=') && assist.highlights.length > 0;
+
+  // 入力中に外部から値が変わった場合は指定したカーソル位置に移動する（クリックで参照を挿入した場合など）
+  useEffect(() => {
+    const input = inputRef.current;
+    if (externalCursor === undefined || !input || document.activeElement !== input) return;
+    if (input.selectionStart !== externalCursor || input.selectionEnd !== externalCursor) {
+      input.setSelectionRange(externalCursor, externalCursor);
+    }
+    setCursor(externalCursor);
+  }, [value]);
+
   // 値の変更ハンドラー
   const handleChange = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
       onChange(event.target.value);
+      updateCursor(event.target.selectionStart ?? event.target.value.length);
     },
-    [onChange]
+    [onChange, updateCursor]
+  );
+
+  // カーソル移動ハンドラー
+  const handleSelect = useCallback(
+    (event: React.SyntheticEvent<HTMLInputElement>) => {
+      updateCursor(event.currentTarget.selectionStart ?? 0);
+    },
+    [updateCursor]
   );
 
   // キーダウンハンドラー
   const handleKeyDown = useCallback(
     (event: React.KeyboardEvent<HTMLInputElement>) => {
+      // 補完候補の表示中は候補の選択・挿入を優先する
+      if (assist.handleKeyDown(event)) {
+        return;
+      }
+
       switch (event.key) {
         case 'Enter':
           event.preventDefault();
@@ -48,7 +126,7 @@ export function FormulaBar({ value, activeCell, onChange, onSubmit }: FormulaBar
           break;
       }
     },
-    [onSubmit]
+    [onSubmit, assist]
   );
 
   // フォーカスハンドラー
@@ -114,24 +192,51 @@ export function FormulaBar({ value, activeCell, onChange, onSubmit }: FormulaBar
         </div>
       )}
 
-      {/* フォーミュラ入力フィールド */}
-      <div className="flex-1 ml-2">
+      {/* フォーミュラ入力フィールド（数式の参照は色分けした数式を背面に重ねて表示する） */}
+      <div className="relative flex-1 ml-2">
+        {isHighlighted && (
+          <FormulaHighlight
+            ref={highlightRef}
+            value={value}
+            highlights={assist.highlights}
+            className="absolute inset-0 px-2 py-1 text-sm leading-5 border border-transparent whitespace-pre text-gray-900"
+          />
+        )}
         <input
           ref={inputRef}
           type="text"
           value={value}
           onChange={handleChange}
           onKeyDown={handleKeyDown}
+          onSelect={handleSelect}
+          onScroll={event => {
+            if (highlightRef.current) {
+              highlightRef.current.scrollLeft = event.currentTarget.scrollLeft;
+            }
+          }}
           onFocus={handleFocus}
           onBlur={handleBlur}
-          className={`w-full px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
+          className={`relative w-full px-2 py-1 text-sm leading-5 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 ${
             isFocused ? 'border-blue-500' : 'border-gray-300'
-          }`}
+          } ${isHighlighted ? 'bg-transparent text-transparent caret-gray-900' : ''}`}
           placeholder="数式を入力..."
           aria-label="数式入力バー"
           autoComplete="off"
           spellCheck={false}
+          aria-autocomplete="list"
+          aria-expanded={assist.suggestions.length > 0}
         />
+
+        {/* 関数名の補完候補・引数のヒント */}
+        {assist.suggestions.length > 0 ? (
+          <FunctionSuggestions
+            suggestions={assist.suggestions}
+            selectedIndex={assist.selectedIndex}
+            onSelect={assist.insertFunctionName}
+          />
+        ) : assist.signatureHelp && (
+          <SignatureHelp {...assist.signatureHelp} />
+        )}
       </div>
 
       {/* 数式関数ボタン（将来の拡張用） */}
@@ -0,0 +1,52 @@
+'use client'
+
+import React from 'react';
+import { FormulaError } from '../../lib/formula';
+import { SheetCellPosition } from '../../lib/cell';
+import { formatSheetCellPosition } from '../../lib/formula-engine/dependencies';
+import { splitFormulaErrorSpan } from '../../lib/formula-engine/errors';
+
+export interface FormulaErrorDetailsProps {
+  formula: string;
+  error: FormulaError;
+  onNavigate: (position: SheetCellPosition) => void;
+}
+
+/**
+ * 数式のエラーの説明
+ * エラー値とメッセージ、原因となった数式の部分、エラー値を返した参照先のセル、修正の提案を表示する
+ */
+export function FormulaErrorDetails({ formula, error, onNavigate }: FormulaErrorDetailsProps) {
+  const parts = splitFormulaErrorSpan(formula, error);
+
+  return (
+    <div
+      role="status"
+      aria-label="数式のエラー"
+      className="flex flex-wrap items-center gap-x-3 gap-y-1 px-3 py-1 border-b border-red-200 bg-red-50 text-sm"
+    >
+      <span className="font-semibold text-red-700">{error.code ?? '#ERROR!'}</span>
+      <span className="text-gray-800">{error.message}</span>
+
+      {parts && (
+        <span className="font-mono text-gray-700" data-testid="formula-error-span">
+          {parts.before}
+          <span className="underline decoration-wavy decoration-red-600 text-red-700">{parts.target}</span>
+          {parts.after}
+        </span>
+      )}
+
+      {error.source && (
+        <button
+          className="text-blue-700 hover:underline"
+          onClick={() => onNavigate(error.source!)}
+          title="エラー値を返したセルに移動"
+        >
+          原因のセル: {formatSheetCellPosition(error.source)}
+        </button>
+      )}
+
+      {error.suggestion && <span className="text-gray-600">💡 {error.suggestion}</span>}
+    </div>
+  );
+}
@@ -3,10 +3,16 @@
 import React, { useMemo, useRef, useEffect, useCallback, useState } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { VirtualizedRows } from './VirtualizedRows';
+import { TraceArrows } from './TraceArrows';
 import { Spreadsheet } from '../../lib/spreadsheet';
-import { Selection, isCellSelected } from '../../lib/selection';
+import { Selection, SelectionBounds, isCellSelected, getSelectionBounds } from '../../lib/selection';
 import { CellPosition } from '../../lib/cell';
+import { getAutoFillBounds } from '../../lib/fill-series';
 import { ContextMenu, getCellContextMenuItems } from '../ContextMenu';
+import { TraceArrow } from '../../lib/formula-engine/auditing';
+import { FormulaReferenceHighlight } from '../../lib/formula-engine/editing';
+import { ConditionalFormatResult } from '../../lib/formula-engine/conditional-formatting';
+import { CellEditorAssistProps } from '../Cell/CellEditor';
 
 export interface GridProps {
   spreadsheet: Spreadsheet;
@@ -18,12 +24,21 @@ export interface GridProps {
   onCellEditStart: (position: CellPosition, value: string) => void;
   onCellEditComplete: (position: CellPosition, value: string) => void;
   onCellEditCancel: () => void;
+  onAutoFill?: (source: SelectionBounds, target: SelectionBounds) => void;
+  pendingCells?: Set<string>;  // 再計算中のセルのキー（前回の計算結果を薄く表示する）
+  conditionalFormats?: Map<string, ConditionalFormatResult>;  // 条件付き書式の評価結果（キーはセルのキー）
+  traceArrows?: TraceArrow[];  // 参照元・参照先のトレース矢印
+  editorAssist?: CellEditorAssistProps;  // 編集中のセルの数式の入力支援
+  referenceHighlights?: FormulaReferenceHighlight[];  // 編集中の数式の参照（参照先の範囲を参照の色の枠で囲む）
+  isPointMode?: boolean;       // 編集中の数式にクリック・ドラッグで選んだ範囲の参照を挿入する
+  onPointReference?: (start: CellPosition, end: CellPosition) => void;
 }
 
 const ROW_HEIGHT = 24;
 const COLUMN_WIDTH = 100;
 const HEADER_ROW_HEIGHT = 32;
 const HEADER_COLUMN_WIDTH = 50;
+const FILL_HANDLE_SIZE = 7;
 
 export function Grid({
   spreadsheet,
@@ -35,6 +50,14 @@ export function Grid({
   onCellEditStart,
   onCellEditComplete,
   onCellEditCancel,
+  onAutoFill,
+  pendingCells,
+  conditionalFormats,
+  traceArrows,
+  editorAssist,
+  referenceHighlights,
+  isPointMode = false,
+  onPointReference,
 }: GridProps) {
   const parentRef = useRef<HTMLDivElement>(null);
   const scrollElementRef = useRef<HTMLDivElement>(null);
@@ -50,6 +73,18 @@ export function Grid({
     cellPosition: null
   });
 
+  // フィルハンドルのドラッグ中のオートフィル範囲
+  const [fillTarget, setFillTarget] = useState<SelectionBounds | null>(null);
+  const isFillDraggingRef = useRef(false);
+  const fillTargetRef = useRef<SelectionBounds | null>(null);
+
+  // 参照を挿入する範囲のドラッグ（ドラッグの開始位置と現在の位置）
+  const pointDragRef = useRef<{ start: CellPosition; end: CellPosition } | null>(null);
+  const suppressCellClickRef = useRef(false);
+
+  // 選択範囲（フィルハンドルの位置と元の範囲）
+  const selectionBounds = useMemo(() => getSelectionBounds(selection), [selection]);
+
   // 行の仮想化
   const rowVirtualizer = useVirtualizer({
     count: spreadsheet.rowCount,
@@ -138,6 +173,12 @@ export function Grid({
       event.stopPropagation();
       const position: CellPosition = { row: rowIndex, column: columnIndex };
 
+      // 参照を挿入したクリックでは編集を続ける
+      if (suppressCellClickRef.current) {
+        suppressCellClickRef.current = false;
+        return;
+      }
+
       if (isEditing) {
         // 編集中の場合は現在の編集を完了
         onCellEditComplete(selection.activeCell, editingValue);
@@ -192,6 +233,107 @@ export function Grid({
     [onCellSelect]
   );
 
+  // マウス位置のセルを求める
+  const getCellPositionFromPoint = useCallback((clientX: number, clientY: number): CellPosition | null => {
+    const scrollElement = scrollElementRef.current;
+    if (!scrollElement) return null;
+
+    const rect = scrollElement.getBoundingClientRect();
+    const x = clientX - rect.left + scrollElement.scrollLeft - HEADER_COLUMN_WIDTH;
+    const y = clientY - rect.top + scrollElement.scrollTop;
+
+    return {
+      row: Math.max(0, Math.min(spreadsheet.rowCount - 1, Math.floor(y / ROW_HEIGHT))),
+      column: Math.max(0, Math.min(spreadsheet.columnCount - 1, Math.floor(x / COLUMN_WIDTH))),
+    };
+  }, [spreadsheet.rowCount, spreadsheet.columnCount]);
+
+  // フィルハンドルのドラッグ開始
+  const handleFillHandleMouseDown = useCallback((event: React.MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    isFillDraggingRef.current = true;
+    fillTargetRef.current = null;
+    setFillTarget(null);
+  }, []);
+
+  // フィルハンドルのドラッグ中・ドラッグ終了
+  useEffect(() => {
+    const handleMouseMove = (event: MouseEvent) => {
+      if (!isFillDraggingRef.current) return;
+
+      const position = getCellPositionFromPoint(event.clientX, event.clientY);
+      const autoFill = position ? getAutoFillBounds(selectionBounds, position) : null;
+      fillTargetRef.current = autoFill?.bounds ?? null;
+      setFillTarget(fillTargetRef.current);
+    };
+
+    const handleMouseUp = () => {
+      if (!isFillDraggingRef.current) return;
+
+      isFillDraggingRef.current = false;
+      if (fillTargetRef.current) {
+        onAutoFill?.(selectionBounds, fillTargetRef.current);
+      }
+      fillTargetRef.current = null;
+      setFillTarget(null);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [getCellPositionFromPoint, selectionBounds, onAutoFill]);
+
+  // 数式の編集中にセルを押すと参照を挿入し、ドラッグで範囲を広げる（エディターのフォーカスは保つ）
+  const handlePointMouseDown = useCallback((event: React.MouseEvent) => {
+    suppressCellClickRef.current = false;
+    if (!isPointMode || event.button !== 0 || (event.target as HTMLElement).closest('input, textarea, [role="listbox"]')) {
+      return;
+    }
+    // 行ヘッダーは対象外
+    const scrollElement = scrollElementRef.current;
+    if (!scrollElement || event.clientX - scrollElement.getBoundingClientRect().left + scrollElement.scrollLeft < HEADER_COLUMN_WIDTH) {
+      return;
+    }
+    const position = getCellPositionFromPoint(event.clientX, event.clientY);
+    if (!position) {
+      return;
+    }
+
+    event.preventDefault();
+    suppressCellClickRef.current = true;
+    pointDragRef.current = { start: position, end: position };
+    onPointReference?.(position, position);
+  }, [isPointMode, getCellPositionFromPoint, onPointReference]);
+
+  // 参照を挿入する範囲のドラッグ中・ドラッグ終了
+  useEffect(() => {
+    const handleMouseMove = (event: MouseEvent) => {
+      const drag = pointDragRef.current;
+      if (!drag) return;
+
+      const position = getCellPositionFromPoint(event.clientX, event.clientY);
+      if (position && (position.row !== drag.end.row || position.column !== drag.end.column)) {
+        pointDragRef.current = { start: drag.start, end: position };
+        onPointReference?.(drag.start, position);
+      }
+    };
+
+    const handleMouseUp = () => {
+      pointDragRef.current = null;
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [getCellPositionFromPoint, onPointReference]);
+
   // 列ヘッダーを生成
   const renderColumnHeaders = useMemo(() => {
     return (
@@ -255,7 +397,9 @@ export function Grid({
           style={{
             height: rowVirtualizer.getTotalSize(),
             width: columnVirtualizer.getTotalSize() + HEADER_COLUMN_WIDTH,
+            cursor: isPointMode ? 'cell' : undefined,
           }}
+          onMouseDown={handlePointMouseDown}
         >
           {/* 仮想化された行 */}
           <VirtualizedRows
@@ -265,6 +409,9 @@ export function Grid({
             selection={selection}
             isEditing={isEditing}
             editingValue={editingValue}
+            pendingCells={pendingCells}
+            conditionalFormats={conditionalFormats}
+            editorAssist={editorAssist}
             onCellClick={handleCellClick}
             onCellDoubleClick={handleCellDoubleClick}
             onRowHeaderClick={handleRowHeaderClick}
@@ -272,6 +419,69 @@ export function Grid({
             onCellEditCancel={onCellEditCancel}
             onContextMenu={handleContextMenu}
           />
+
+          {/* 参照元・参照先のトレース矢印 */}
+          {traceArrows && traceArrows.length > 0 && (
+            <TraceArrows
+              arrows={traceArrows}
+              spreadsheet={spreadsheet}
+              cellWidth={COLUMN_WIDTH}
+              cellHeight={ROW_HEIGHT}
+              offsetLeft={HEADER_COLUMN_WIDTH}
+              width={columnVirtualizer.getTotalSize() + HEADER_COLUMN_WIDTH}
+              height={rowVirtualizer.getTotalSize()}
+            />
+          )}
+
+          {/* 編集中の数式の参照先の範囲 */}
+          {referenceHighlights?.map((highlight, index) => (
+            <div
+              key={`${highlight.start}-${index}`}
+              className="absolute pointer-events-none border-2"
+              style={{
+                left: HEADER_COLUMN_WIDTH + highlight.range.start.column * COLUMN_WIDTH,
+                top: highlight.range.start.row * ROW_HEIGHT,
+                width: (highlight.range.end.column - highlight.range.start.column + 1) * COLUMN_WIDTH,
+                height: (highlight.range.end.row - highlight.range.start.row + 1) * ROW_HEIGHT,
+                borderColor: highlight.color,
+                backgroundColor: `${highlight.color}14`,
+                zIndex: 20,
+              }}
+              data-testid="reference-highlight"
+              data-reference={highlight.text}
+            />
+          ))}
+
+          {/* オートフィルの範囲 */}
+          {fillTarget && (
+            <div
+              className="absolute pointer-events-none border-2 border-dashed border-gray-500"
+              style={{
+                left: HEADER_COLUMN_WIDTH + fillTarget.minColumn * COLUMN_WIDTH,
+                top: fillTarget.minRow * ROW_HEIGHT,
+                width: (fillTarget.maxColumn - fillTarget.minColumn + 1) * COLUMN_WIDTH,
+                height: (fillTarget.maxRow - fillTarget.minRow + 1) * ROW_HEIGHT,
+                zIndex: 20,
+              }}
+            />
+          )}
+
+          {/* フィルハンドル */}
+          {onAutoFill && !isEditing && (
+            <div
+              className="absolute bg-blue-700 border border-white cursor-crosshair"
+              style={{
+                left: HEADER_COLUMN_WIDTH + (selectionBounds.maxColumn + 1) * COLUMN_WIDTH - (FILL_HANDLE_SIZE + 1) / 2,
+                top: (selectionBounds.maxRow + 1) * ROW_HEIGHT - (FILL_HANDLE_SIZE + 1) / 2,
+                width: FILL_HANDLE_SIZE,
+                height: FILL_HANDLE_SIZE,
+                zIndex: 30,
+              }}
+              onMouseDown={handleFillHandleMouseDown}
+              title="ドラッグしてオートフィル"
+              data-testid="fill-handle"
+            />
+          )}
         </div>
       </div>
 
@@ -0,0 +1,112 @@
+'use client'
+
+import React, { memo } from 'react';
+import { Spreadsheet } from '../../lib/spreadsheet';
+import { SheetCellPosition } from '../../lib/cell';
+import { TraceArrow, isTraceOnSheet } from '../../lib/formula-engine/auditing';
+
+export interface TraceArrowsProps {
+  arrows: TraceArrow[];
+  spreadsheet: Spreadsheet;
+  cellWidth: number;
+  cellHeight: number;
+  offsetLeft: number;  // 行ヘッダーの幅
+  width: number;
+  height: number;
+}
+
+/**
+ * 他のシートのセルを表すアイコンの位置（セルの左上・右下からずらす量）
+ */
+const EXTERNAL_OFFSET = { x: 36, y: 18 };
+const EXTERNAL_ICON_SIZE = 12;
+
+const ARROW_COLOR = '#2563eb';
+const ERROR_ARROW_COLOR = '#dc2626';
+const EXTERNAL_ARROW_COLOR = '#111827';
+
+/**
+ * 参照元・参照先のトレース矢印をグリッドの上に描く
+ * シート上のセル同士は実線、他のシートのセルとの矢印はアイコンからの破線で描き、
+ * エラー値のセルからの矢印は赤で描く
+ */
+export const TraceArrows = memo(function TraceArrows({
+  arrows,
+  spreadsheet,
+  cellWidth,
+  cellHeight,
+  offsetLeft,
+  width,
+  height,
+}: TraceArrowsProps) {
+  const center = (position: SheetCellPosition) => ({
+    x: offsetLeft + position.column * cellWidth + cellWidth / 2,
+    y: position.row * cellHeight + cellHeight / 2,
+  });
+
+  return (
+    <svg
+      className="absolute top-0 left-0 pointer-events-none"
+      width={width}
+      height={height}
+      style={{ zIndex: 25 }}
+      aria-hidden="true"
+      data-testid="trace-arrows"
+    >
+      <defs>
+        {[['trace-arrow', ARROW_COLOR], ['trace-arrow-error', ERROR_ARROW_COLOR], ['trace-arrow-external', EXTERNAL_ARROW_COLOR]]
+          .map(([id, color]) => (
+            <marker key={id} id={id} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+              <path d="M0,0 L10,5 L0,10 z" fill={color} />
+            </marker>
+          ))}
+      </defs>
+      {arrows.map((arrow, index) => {
+        const fromOnSheet = isTraceOnSheet(arrow.from, spreadsheet.name);
+        const toOnSheet = isTraceOnSheet(arrow.to, spreadsheet.name);
+        if (!fromOnSheet && !toOnSheet) {
+          return null;
+        }
+
+        const end = toOnSheet
+          ? center(arrow.to)
+          : { x: center(arrow.from).x + EXTERNAL_OFFSET.x, y: center(arrow.from).y + EXTERNAL_OFFSET.y };
+        const start = fromOnSheet
+          ? center(arrow.from)
+          : { x: end.x - EXTERNAL_OFFSET.x, y: end.y - EXTERNAL_OFFSET.y };
+        const external = !fromOnSheet || !toOnSheet;
+        const isError = fromOnSheet &&
+          spreadsheet.cells.get(`${arrow.from.row}-${arrow.from.column}`)?.displayValue.startsWith('#');
+        const color = external ? EXTERNAL_ARROW_COLOR : isError ? ERROR_ARROW_COLOR : ARROW_COLOR;
+        const marker = external ? 'trace-arrow-external' : isError ? 'trace-arrow-error' : 'trace-arrow';
+        const icon = fromOnSheet ? end : start;
+
+        return (
+          <g key={index} data-trace-level={arrow.level}>
+            <line
+              x1={start.x}
+              y1={start.y}
+              x2={end.x}
+              y2={end.y}
+              stroke={color}
+              strokeWidth={1.5}
+              strokeDasharray={external ? '4 3' : undefined}
+              markerEnd={`url(#${marker})`}
+            />
+            {fromOnSheet && <circle cx={start.x} cy={start.y} r={3} fill={color} />}
+            {external && (
+              <rect
+                x={icon.x - EXTERNAL_ICON_SIZE / 2}
+                y={icon.y - EXTERNAL_ICON_SIZE / 2}
+                width={EXTERNAL_ICON_SIZE}
+                height={EXTERNAL_ICON_SIZE}
+                fill="#ffffff"
+                stroke={EXTERNAL_ARROW_COLOR}
+              />
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+});
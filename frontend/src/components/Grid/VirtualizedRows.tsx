@@ -6,6 +6,8 @@ import { Cell } from '../Cell/Cell';
 import { Spreadsheet } from '../../lib/spreadsheet';
 import { Selection, isCellSelected } from '../../lib/selection';
 import { CellPosition } from '../../lib/cell';
+import { CellEditorAssistProps } from '../Cell/CellEditor';
+import { ConditionalFormatResult } from '../../lib/formula-engine/conditional-formatting';
 
 export interface VirtualizedRowsProps {
   virtualRows: VirtualItem[];
@@ -14,6 +16,9 @@ export interface VirtualizedRowsProps {
   selection: Selection;
   isEditing: boolean;
   editingValue: string;
+  pendingCells?: Set<string>;  // 再計算中のセルのキー
+  conditionalFormats?: Map<string, ConditionalFormatResult>;  // 条件付き書式の評価結果（キーはセルのキー）
+  editorAssist?: CellEditorAssistProps;  // 編集中のセルの数式の入力支援
   onCellClick: (rowIndex: number, columnIndex: number, event: React.MouseEvent) => void;
   onCellDoubleClick: (rowIndex: number, columnIndex: number) => void;
   onRowHeaderClick: (rowIndex: number) => void;
@@ -33,6 +38,9 @@ export const VirtualizedRows = memo(function VirtualizedRows({
   selection,
   isEditing,
   editingValue,
+  pendingCells,
+  conditionalFormats,
+  editorAssist,
   onCellClick,
   onCellDoubleClick,
   onRowHeaderClick,
@@ -51,6 +59,9 @@ export const VirtualizedRows = memo(function VirtualizedRows({
           selection={selection}
           isEditing={isEditing}
           editingValue={editingValue}
+          pendingCells={pendingCells}
+          conditionalFormats={conditionalFormats}
+          editorAssist={editorAssist}
           onCellClick={onCellClick}
           onCellDoubleClick={onCellDoubleClick}
           onRowHeaderClick={onRowHeaderClick}
@@ -70,6 +81,9 @@ interface VirtualizedRowProps {
   selection: Selection;
   isEditing: boolean;
   editingValue: string;
+  pendingCells?: Set<string>;  // 再計算中のセルのキー
+  conditionalFormats?: Map<string, ConditionalFormatResult>;  // 条件付き書式の評価結果（キーはセルのキー）
+  editorAssist?: CellEditorAssistProps;  // 編集中のセルの数式の入力支援
   onCellClick: (rowIndex: number, columnIndex: number, event: React.MouseEvent) => void;
   onCellDoubleClick: (rowIndex: number, columnIndex: number) => void;
   onRowHeaderClick: (rowIndex: number) => void;
@@ -85,6 +99,9 @@ const VirtualizedRow = memo(function VirtualizedRow({
   selection,
   isEditing,
   editingValue,
+  pendingCells,
+  conditionalFormats,
+  editorAssist,
   onCellClick,
   onCellDoubleClick,
   onRowHeaderClick,
@@ -144,6 +161,9 @@ const VirtualizedRow = memo(function VirtualizedRow({
               isActive={isActive}
               isEditing={isCurrentlyEditing}
               editingValue={editingValue}
+              isPending={pendingCells?.has(cellKey)}
+              conditionalFormat={conditionalFormats?.get(cellKey)}
+              editorAssist={isCurrentlyEditing ? editorAssist : undefined}
               style={{
                 position: 'absolute',
                 left: column.start,
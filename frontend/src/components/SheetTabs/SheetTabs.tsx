@@ -0,0 +1,211 @@
+'use client'
+
+import React, { useState, useCallback } from 'react';
+import { Spreadsheet } from '../../lib/spreadsheet';
+
+export interface SheetTabsProps {
+  sheets: Spreadsheet[];
+  activeSheetId: string;
+  onSelect: (sheetId: string) => void;
+  onAdd: () => void;
+  onRename: (sheetId: string, newName: string) => void;
+  onMove: (sheetId: string, toIndex: number) => void;
+  onDelete: (sheetId: string) => void;
+  onDuplicate: (sheetId: string) => void;
+}
+
+export function SheetTabs({
+  sheets,
+  activeSheetId,
+  onSelect,
+  onAdd,
+  onRename,
+  onMove,
+  onDelete,
+  onDuplicate,
+}: SheetTabsProps) {
+  // 名前変更中のシート
+  const [renamingSheetId, setRenamingSheetId] = useState<string | null>(null);
+  const [renamingValue, setRenamingValue] = useState('');
+
+  // ドラッグ中のシート
+  const [draggingSheetId, setDraggingSheetId] = useState<string | null>(null);
+
+  // コンテキストメニュー
+  const [menu, setMenu] = useState<{ sheetId: string; x: number; y: number } | null>(null);
+
+  // 名前変更開始
+  const startRename = useCallback((sheet: Spreadsheet) => {
+    setRenamingSheetId(sheet.id);
+    setRenamingValue(sheet.name);
+    setMenu(null);
+  }, []);
+
+  // 名前変更確定
+  const commitRename = useCallback(() => {
+    if (renamingSheetId && renamingValue.trim()) {
+      onRename(renamingSheetId, renamingValue);
+    }
+    setRenamingSheetId(null);
+    setRenamingValue('');
+  }, [renamingSheetId, renamingValue, onRename]);
+
+  // 名前変更入力のキー処理
+  const handleRenameKeyDown = useCallback(
+    (event: React.KeyboardEvent<HTMLInputElement>) => {
+      event.stopPropagation();
+      if (event.key === 'Enter') {
+        commitRename();
+      } else if (event.key === 'Escape') {
+        setRenamingSheetId(null);
+        setRenamingValue('');
+      }
+    },
+    [commitRename]
+  );
+
+  // ドロップによる並び替え
+  const handleDrop = useCallback(
+    (event: React.DragEvent, toIndex: number) => {
+      event.preventDefault();
+      if (draggingSheetId) {
+        onMove(draggingSheetId, toIndex);
+      }
+      setDraggingSheetId(null);
+    },
+    [draggingSheetId, onMove]
+  );
+
+  // コンテキストメニューの操作
+  const handleMenuAction = useCallback(
+    (action: 'rename' | 'duplicate' | 'delete' | 'moveLeft' | 'moveRight') => {
+      if (!menu) return;
+      const index = sheets.findIndex(sheet => sheet.id === menu.sheetId);
+      const sheet = sheets[index];
+      if (!sheet) return;
+
+      switch (action) {
+        case 'rename':
+          startRename(sheet);
+          return;
+        case 'duplicate':
+          onDuplicate(sheet.id);
+          break;
+        case 'delete':
+          onDelete(sheet.id);
+          break;
+        case 'moveLeft':
+          if (index > 0) onMove(sheet.id, index - 1);
+          break;
+        case 'moveRight':
+          if (index < sheets.length - 1) onMove(sheet.id, index + 1);
+          break;
+      }
+      setMenu(null);
+    },
+    [menu, sheets, startRename, onDuplicate, onDelete, onMove]
+  );
+
+  return (
+    <div
+      className="relative flex items-center bg-gray-100 border-t border-gray-300 px-2 min-h-[28px] text-sm select-none"
+      data-testid="sheet-tabs"
+      onClick={() => setMenu(null)}
+    >
+      <div className="flex items-end overflow-x-auto">
+        {sheets.map((sheet, index) => {
+          const isActive = sheet.id === activeSheetId;
+          return (
+            <div
+              key={sheet.id}
+              data-testid={`sheet-tab-${index}`}
+              draggable={renamingSheetId !== sheet.id}
+              onDragStart={() => setDraggingSheetId(sheet.id)}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={(event) => handleDrop(event, index)}
+              onClick={() => onSelect(sheet.id)}
+              onDoubleClick={() => startRename(sheet)}
+              onContextMenu={(event) => {
+                event.preventDefault();
+                event.stopPropagation();
+                onSelect(sheet.id);
+                setMenu({ sheetId: sheet.id, x: event.clientX, y: event.clientY });
+              }}
+              className={`px-3 py-1 border-r border-gray-300 cursor-pointer whitespace-nowrap ${
+                isActive
+                  ? 'bg-white text-green-700 font-medium border-b-2 border-b-green-600'
+                  : 'text-gray-600 hover:bg-gray-200'
+              }`}
+              title={sheet.name}
+            >
+              {renamingSheetId === sheet.id ? (
+                <input
+                  autoFocus
+                  className="px-1 border border-blue-400 outline-none text-sm w-28"
+                  value={renamingValue}
+                  onChange={(event) => setRenamingValue(event.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={handleRenameKeyDown}
+                  onClick={(event) => event.stopPropagation()}
+                />
+              ) : (
+                sheet.name
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* シート追加ボタン */}
+      <button
+        type="button"
+        className="ml-2 px-2 py-0.5 text-gray-600 hover:bg-gray-200 rounded"
+        onClick={onAdd}
+        title="シートを追加"
+        data-testid="sheet-add"
+      >
+        ＋
+      </button>
+
+      {/* コンテキストメニュー */}
+      {menu && (
+        <div
+          className="fixed z-50 bg-white border border-gray-300 shadow-lg py-1 min-w-[140px]"
+          style={{ left: menu.x, top: menu.y - 150 }}
+          onClick={(event) => event.stopPropagation()}
+        >
+          <SheetMenuItem label="名前の変更" onClick={() => handleMenuAction('rename')} />
+          <SheetMenuItem label="複製" onClick={() => handleMenuAction('duplicate')} />
+          <SheetMenuItem label="左へ移動" onClick={() => handleMenuAction('moveLeft')} />
+          <SheetMenuItem label="右へ移動" onClick={() => handleMenuAction('moveRight')} />
+          <SheetMenuItem
+            label="削除"
+            onClick={() => handleMenuAction('delete')}
+            disabled={sheets.length <= 1}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface SheetMenuItemProps {
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+}
+
+function SheetMenuItem({ label, onClick, disabled = false }: SheetMenuItemProps) {
+  return (
+    <button
+      type="button"
+      className={`block w-full text-left px-3 py-1 text-sm ${
+        disabled ? 'text-gray-400 cursor-not-allowed' : 'text-gray-700 hover:bg-gray-100'
+      }`}
+      onClick={onClick}
+      disabled={disabled}
+    >
+      {label}
+    </button>
+  );
+}
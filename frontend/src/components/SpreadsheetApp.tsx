@@ -1,50 +1,270 @@
 'use client'
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { Grid } from './Grid/Grid';
 import { FormulaBar } from './FormulaBar/FormulaBar';
 import { Toolbar } from './Toolbar/Toolbar';
 import { StatusBar } from './StatusBar/StatusBar';
 import { CSVHandler } from './CSVHandler';
+import { SheetTabs } from './SheetTabs/SheetTabs';
+import { DependencyPanel } from './DependencyPanel/DependencyPanel';
+import { CircularReferencePanel } from './CircularReferencePanel/CircularReferencePanel';
+import { FormulaErrorDetails } from './FormulaErrorDetails/FormulaErrorDetails';
+import { EvaluateFormulaDialog, EvaluateFormulaDialogProps } from './EvaluateFormulaDialog/EvaluateFormulaDialog';
+import { ConditionalFormatDialog } from './ConditionalFormatDialog/ConditionalFormatDialog';
 import {
   Spreadsheet,
   createSpreadsheet,
+  getCellFromSpreadsheet,
+  cellPositionToKey,
   DEFAULT_SPREADSHEET_CONFIG,
 } from '../lib/spreadsheet';
 import {
-  createNewSpreadsheet,
   setCellValue,
   getCellValue,
   SpreadsheetOperationResult,
 } from '../lib/spreadsheet-core';
+import {
+  createNewWorkbook,
+  addSheet,
+  renameSheet,
+  moveSheet,
+  deleteSheet,
+  duplicateSheet,
+  setActiveSheet,
+  updateSheet,
+  setIterativeCalculation,
+  adjustWorkbookReferences,
+  applyWorkbookGridHistoryEntry,
+  WorkbookOperationResult,
+} from '../lib/spreadsheet-core/workbook';
+import { insertRowsAt, deleteRowsAt, insertColumnsAt, deleteColumnsAt } from '../lib/spreadsheet-core/grid';
+import { autoFillRange, fillDown, fillRight } from '../lib/spreadsheet-core/operations';
+import { setConditionalFormats } from '../lib/spreadsheet-core/conditional-formats';
+import {
+  IterativeCalculationSettings,
+  Workbook,
+  getActiveSheet,
+  getIterativeCalculationSettings,
+  getSheetByName,
+} from '../lib/workbook';
 import {
   Selection,
+  SelectionBounds,
   createSingleCellSelection,
+  createCellRangeSelection,
+  getSelectionBounds,
   moveSelection,
+  selectionToA1Notation,
 } from '../lib/selection';
-import { CellPosition, Cell } from '../lib/cell';
+import { CellPosition, Cell, SheetCellPosition, isSpillChild } from '../lib/cell';
+import { ConditionalFormatRule } from '../lib/conditional-format';
+import { FormulaError } from '../lib/formula';
+import { useHistory } from '../hooks/useHistory';
+import {
+  CircularReferenceSolution,
+  createCalculationContext,
+  createFormulaCalculator,
+} from '../lib/formula-engine/calculator';
+import { formatSheetCellPosition } from '../lib/formula-engine/dependencies';
+import {
+  TraceDirection,
+  analyzeWorkbookDependencies,
+  toSheetCellPosition,
+  traceCellReferences,
+} from '../lib/formula-engine/auditing';
+import { RecalculationStats, createIncrementalRecalculator } from '../lib/formula-engine/recalculation';
+import { ConditionalFormatResult, evaluateConditionalFormats } from '../lib/formula-engine/conditional-formatting';
+import {
+  canInsertReferenceAt,
+  formatPointReference,
+  getFormulaReferenceHighlights,
+  replaceFormulaText,
+} from '../lib/formula-engine/editing';
+import {
+  FormulaLocale,
+  delocalizeFormula,
+  localizeFormula,
+  localizeFunctionName,
+  resolveFormulaLocale,
+} from '../lib/formula-engine/locale';
+import { FormulaPluginDefinition, parseFormulaPluginConfig } from '../lib/formula-engine/plugins';
+import {
+  FormulaWorkerClient,
+  FormulaWorkerEndpoint,
+  applyFormulaWorkerResult,
+  createFormulaWorkerClient,
+  getPendingCellKeys,
+} from '../lib/formula-engine/worker';
+import { createBrowserFormulaWorker } from '../lib/formula-engine/browser-worker';
 
 export interface SpreadsheetAppProps {
   initialName?: string;
   maxRows?: number;
   maxColumns?: number;
+  formulaPlugins?: FormulaPluginDefinition[];  // 省略時は環境変数 NEXT_PUBLIC_FORMULA_PLUGINS の設定（JSON）
+  createFormulaWorker?: () => FormulaWorkerEndpoint | undefined;  // 数式を計算するワーカー（undefinedはメインスレッドで計算）
+  formulaLocale?: string | FormulaLocale;  // 数式の入力・表示の言語（省略時は環境変数 NEXT_PUBLIC_FORMULA_LOCALE の設定）
 }
 
+/**
+ * 環境変数で設定した関数のプラグイン
+ */
+const CONFIGURED_FORMULA_PLUGINS: FormulaPluginDefinition[] = (() => {
+  const config = process.env.NEXT_PUBLIC_FORMULA_PLUGINS;
+  if (!config) return [];
+  const { plugins, errors } = parseFormulaPluginConfig(config);
+  errors.forEach(error => console.error(`プラグインを読み込めませんでした: ${error}`));
+  return plugins;
+})();
+
+/**
+ * 環境変数で設定した数式の言語
+ */
+const CONFIGURED_FORMULA_LOCALE = process.env.NEXT_PUBLIC_FORMULA_LOCALE;
+
 export function SpreadsheetApp({
   initialName = '新しいスプレッドシート',
   maxRows = 100,
   maxColumns = 26,
+  formulaPlugins = CONFIGURED_FORMULA_PLUGINS,
+  createFormulaWorker = createBrowserFormulaWorker,
+  formulaLocale = CONFIGURED_FORMULA_LOCALE,
 }: SpreadsheetAppProps) {
-  // スプレッドシートの状態
-  const [spreadsheet, setSpreadsheet] = useState<Spreadsheet>(() => {
-    const result = createNewSpreadsheet(initialName, {
+  // ワークブックの状態
+  const [workbook, setWorkbook] = useState<Workbook>(() => {
+    const result = createNewWorkbook(initialName, ['Sheet1'], {
       ...DEFAULT_SPREADSHEET_CONFIG,
       maxRows,
       maxColumns,
     });
-    return result.spreadsheet;
+    return result.workbook;
   });
 
+  const workbookRef = useRef(workbook);
+  workbookRef.current = workbook;
+
+  // アクティブシート
+  const spreadsheet = getActiveSheet(workbook);
+
+  // 反復計算の設定
+  const iterativeCalculation = getIterativeCalculationSettings(workbook);
+  const { enabled: iterationEnabled, maxIterations, maxChange } = iterativeCalculation;
+
+  // 数式の計算エンジン（登録できないプラグインはエラーを出力して読み込まない）
+  // 反復計算の設定は再計算のたびに再計算するワークブックの設定に合わせる
+  const calculator = useMemo(() => {
+    const formulaCalculator = createFormulaCalculator({
+      iterativeCalculation: getIterativeCalculationSettings(workbookRef.current),
+    });
+    formulaPlugins.forEach(plugin => {
+      const result = formulaCalculator.registerPlugin(plugin);
+      if (!result.success) {
+        console.error(`プラグインを登録できませんでした: ${result.error}`);
+      }
+    });
+    return formulaCalculator;
+  }, [formulaPlugins]);
+  useEffect(() => () => calculator.disposePlugins(), [calculator]);
+
+  // 差分再計算（変更されたセルに依存するセルだけを再計算する）
+  const recalculator = useMemo(() => createIncrementalRecalculator(calculator), [calculator]);
+
+  // 反復計算で解いた循環参照と再計算の統計（ステータスバーに表示する）
+  const [circularReferences, setCircularReferences] = useState<CircularReferenceSolution[]>([]);
+  const [recalculationStats, setRecalculationStats] = useState<RecalculationStats>();
+
+  // シートを再計算してワークブックに反映する（変更したセルを指定すると差分再計算する）
+  // そのシートのセルを参照する他のシートの数式も計算し直して反映する
+  const recalculate = useCallback((
+    current: Workbook,
+    updatedSheet: Spreadsheet,
+    changedPositions?: CellPosition[]
+  ): Workbook => {
+    calculator.setIterativeCalculationSettings(getIterativeCalculationSettings(current));
+    const report = recalculator.recalculate(updatedSheet, changedPositions, { workbook: current });
+    setCircularReferences(report.circularReferences);
+    setRecalculationStats(report.stats);
+    return [report.spreadsheet, ...report.dependentSheets]
+      .reduce((result, sheet) => updateSheet(result, sheet).workbook, current);
+  }, [calculator, recalculator]);
+
+  // 数式を計算するワーカー（ワーカーを使えない環境ではメインスレッドで計算する）
+  const [formulaWorker, setFormulaWorker] = useState<FormulaWorkerClient>();
+  useEffect(() => {
+    const endpoint = createFormulaWorker();
+    if (!endpoint) return;
+    const client = createFormulaWorkerClient(endpoint);
+    setFormulaWorker(client);
+    return () => {
+      client.dispose();
+      setFormulaWorker(undefined);
+    };
+  }, [createFormulaWorker]);
+
+  useEffect(() => {
+    formulaWorker?.configure(formulaPlugins).catch(error =>
+      console.error(`プラグインを登録できませんでした: ${error.message}`));
+  }, [formulaWorker, formulaPlugins]);
+
+  // 再計算中のセル（ワーカーの計算結果を受け取るまで前回の値を表示する）
+  const [pendingCells, setPendingCells] = useState<Set<string>>();
+
+  // ワーカーでシートを再計算する（変更したセルを指定した場合はそのセルだけをワーカーに送る）
+  // 前の再計算がまだ始まっていなければ取り消し、結果を受け取ったセルから表示を更新する
+  const recalculateInWorker = useCallback((
+    client: FormulaWorkerClient,
+    current: Workbook,
+    updatedSheet: Spreadsheet,
+    changedPositions?: CellPosition[]
+  ) => {
+    const reportError = (error: Error) => console.error(`再計算に失敗しました: ${error.message}`);
+    const update = changedPositions
+      ? client.setCells(changedPositions.map(position => ({
+        ...position,
+        value: updatedSheet.cells.get(cellPositionToKey(position))?.rawValue ?? '',
+      })), updatedSheet.name)
+      : client.setWorkbook(current);
+    update.catch(reportError);
+
+    client.cancel();
+    setPendingCells(getPendingCellKeys(updatedSheet));
+    client.recalc(updatedSheet.name).then(result => {
+      if (result) {
+        setWorkbook(latest => [result, ...result.dependentSheets].reduce((current, changes) => {
+          const sheet = current.sheets.find(s => s.name === changes.sheetName);
+          return sheet ? updateSheet(current, applyFormulaWorkerResult(sheet, changes)).workbook : current;
+        }, latest));
+        setCircularReferences(result.circularReferences);
+        setRecalculationStats(result.stats);
+      }
+    }, reportError).finally(() => {
+      if (!client.isRecalculating()) {
+        setPendingCells(undefined);
+      }
+    });
+  }, []);
+
+  // アクティブシートの更新（数式を再計算し、配列の結果を展開する）
+  const setSpreadsheet = useCallback((updatedSheet: Spreadsheet, changedPositions?: CellPosition[]) => {
+    if (formulaWorker) {
+      const updated = updateSheet(workbookRef.current, updatedSheet).workbook;
+      setWorkbook(updated);
+      recalculateInWorker(formulaWorker, updated, updatedSheet, changedPositions);
+      return;
+    }
+    setWorkbook(current => recalculate(current, updatedSheet, changedPositions));
+  }, [formulaWorker, recalculate, recalculateInWorker]);
+
+  // 計算の設定を変更したら（ワーカーを起動したら）アクティブシートを再計算する
+  useEffect(() => {
+    if (formulaWorker) {
+      recalculateInWorker(formulaWorker, workbookRef.current, getActiveSheet(workbookRef.current));
+      return;
+    }
+    setWorkbook(current => recalculate(current, getActiveSheet(current)));
+  }, [recalculate, formulaWorker, recalculateInWorker]);
+
   // 選択状態
   const [selection, setSelection] = useState<Selection>(() =>
     createSingleCellSelection({ row: 0, column: 0 })
@@ -57,25 +277,57 @@ export function SpreadsheetApp({
   // フォーミュラバーの値
   const [formulaBarValue, setFormulaBarValue] = useState('');
 
-  // アクティブセルの値を取得してフォーミュラバーに設定
+  // 数式の入力・表示の言語（見つからない言語はエラーを出力して保存する数式の形式にする）
+  const locale = useMemo(() => {
+    try {
+      return resolveFormulaLocale(formulaLocale);
+    } catch (error) {
+      console.error(error instanceof Error ? error.message : error);
+      return resolveFormulaLocale();
+    }
+  }, [formulaLocale]);
+
+  // フォーミュラバー・セルのエディターで補完する関数名と、引数のヒントに表示する関数の引数（言語の関数名で表示する）
+  const functionNames = useMemo(
+    () => calculator.getAvailableFunctions().map(name => localizeFunctionName(name, locale)).sort(),
+    [calculator, locale]
+  );
+  const getSignature = useCallback((name: string) => {
+    const signature = calculator.getFunctionSignature(name);
+    return signature && { ...signature, name: localizeFunctionName(signature.name, locale) };
+  }, [calculator, locale]);
+
+  // 編集中のカーソル位置と、クリック・ドラッグで挿入した参照の位置（範囲を選び直すと置き換える）
+  const [formulaCursor, setFormulaCursor] = useState<number>();
+  const [pointSpan, setPointSpan] = useState<{ start: number; end: number }>();
+
   useEffect(() => {
-    const result = getCellValue(spreadsheet, selection.activeCell);
+    if (!isEditing) {
+      setFormulaCursor(undefined);
+      setPointSpan(undefined);
+    }
+  }, [isEditing]);
+
+  // アクティブセルの値を取得してフォーミュラバーに設定（配列の展開先のセルは数式のセルの数式を表示する）
+  useEffect(() => {
+    const spillAnchor = getCellFromSpreadsheet(spreadsheet, selection.activeCell)?.spillAnchor;
+    const result = getCellValue(spreadsheet, spillAnchor ?? selection.activeCell);
     if (result.success && result.data !== undefined) {
-      setFormulaBarValue(result.data);
+      setFormulaBarValue(localizeFormula(result.data, locale));
     } else {
       setFormulaBarValue('');
     }
-  }, [spreadsheet, selection.activeCell]);
+  }, [spreadsheet, selection.activeCell, locale]);
 
-  // セル値の更新
+  // セル値の更新（入力した数式は保存する形式にする）
   const handleCellValueChange = useCallback(
     (position: CellPosition, value: string) => {
-      const result = setCellValue(spreadsheet, position, value);
+      const result = setCellValue(spreadsheet, position, delocalizeFormula(value, locale));
       if (result.success) {
-        setSpreadsheet(result.spreadsheet);
+        setSpreadsheet(result.spreadsheet, [position]);
       }
     },
-    [spreadsheet]
+    [spreadsheet, setSpreadsheet, locale]
   );
 
   // セル選択の処理
@@ -92,14 +344,19 @@ export function SpreadsheetApp({
     setEditingValue('');
   }, []);
 
-  // セル編集開始
+  // セル編集開始（配列の展開先のセルは編集できない）
   const handleCellEditStart = useCallback(
     (position: CellPosition, value: string) => {
       setSelection(createSingleCellSelection(position));
+      if (isSpillChild(getCellFromSpreadsheet(spreadsheet, position))) {
+        return;
+      }
       setIsEditing(true);
-      setEditingValue(value);
+      setEditingValue(localizeFormula(value, locale));
+      setFormulaCursor(undefined);
+      setPointSpan(undefined);
     },
-    []
+    [spreadsheet, locale]
   );
 
   // セル編集完了
@@ -118,12 +375,38 @@ export function SpreadsheetApp({
     setEditingValue('');
   }, []);
 
+  // オートフィル（フィルハンドルのドラッグ）
+  const handleAutoFill = useCallback((source: SelectionBounds, target: SelectionBounds) => {
+    const result = autoFillRange(spreadsheet, source, target);
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+    setSpreadsheet(result.spreadsheet);
+    setSelection(createCellRangeSelection(
+      { row: target.minRow, column: target.minColumn },
+      { row: target.maxRow, column: target.maxColumn }
+    ));
+  }, [spreadsheet, setSpreadsheet]);
+
   // キーボードナビゲーション
   const handleKeyDown = useCallback(
     (event: React.KeyboardEvent) => {
       if (isEditing) return;
 
       const { key, shiftKey } = event;
+
+      // 下方向へコピー（Ctrl+D）・右方向へコピー（Ctrl+R）
+      if ((event.ctrlKey || event.metaKey) && (key === 'd' || key === 'r')) {
+        event.preventDefault();
+        const bounds = getSelectionBounds(selection);
+        const result = key === 'd' ? fillDown(spreadsheet, bounds) : fillRight(spreadsheet, bounds);
+        if (result.success) {
+          setSpreadsheet(result.spreadsheet);
+        }
+        return;
+      }
+
       let direction: 'up' | 'down' | 'left' | 'right' | null = null;
 
       switch (key) {
@@ -160,18 +443,71 @@ export function SpreadsheetApp({
         event.preventDefault();
       }
     },
-    [isEditing, selection, maxRows, maxColumns]
+    [isEditing, selection, maxRows, maxColumns, spreadsheet, setSpreadsheet]
   );
 
-  // フォーミュラバーの値変更
+  // フォーミュラバーの値変更（配列の展開先のセルでは変更を受け付けない）
   const handleFormulaBarChange = useCallback((value: string) => {
+    if (isSpillChild(getCellFromSpreadsheet(spreadsheet, selection.activeCell))) {
+      return;
+    }
     setFormulaBarValue(value);
+    setEditingValue(value);
+    setPointSpan(undefined);
     if (!isEditing) {
       // フォーミュラバーから直接編集開始
       setIsEditing(true);
-      setEditingValue(value);
     }
-  }, [isEditing]);
+  }, [isEditing, spreadsheet, selection.activeCell]);
+
+  // セルのエディターでの値の変更（フォーミュラバーに反映する）
+  const handleEditorChange = useCallback((value: string) => {
+    setEditingValue(value);
+    setFormulaBarValue(value);
+    setPointSpan(undefined);
+  }, []);
+
+  // 編集中のカーソル移動（挿入した参照の後から移動すると、次のクリックでは参照を置き換えずに挿入する）
+  const handleEditorCursorChange = useCallback((cursor: number) => {
+    setFormulaCursor(cursor);
+    setPointSpan(span => (span && span.end === cursor ? span : undefined));
+  }, []);
+
+  // 数式の編集中にクリック・ドラッグで選んだ範囲の参照を挿入する
+  const handlePointReference = useCallback((start: CellPosition, end: CellPosition) => {
+    if (formulaCursor === undefined) return;
+    const result = replaceFormulaText(
+      editingValue,
+      pointSpan ?? { start: formulaCursor, end: formulaCursor },
+      formatPointReference(start, end)
+    );
+    setEditingValue(result.formula);
+    setFormulaBarValue(result.formula);
+    setPointSpan(result.span);
+    setFormulaCursor(result.span.end);
+  }, [editingValue, formulaCursor, pointSpan]);
+
+  // 参照を挿入できる位置にカーソルがある（または挿入した参照の直後にある）場合はクリックで参照を挿入する
+  const isPointMode = isEditing && editingValue.startsWith('=') && formulaCursor !== undefined &&
+    (pointSpan?.end === formulaCursor || canInsertReferenceAt(editingValue, formulaCursor));
+
+  // 編集中の数式の参照（アクティブシートの範囲を参照の色の枠で囲む）
+  const referenceHighlights = useMemo(() => {
+    if (!isEditing) return undefined;
+    const sheetName = spreadsheet.name.toUpperCase();
+    return getFormulaReferenceHighlights(editingValue, locale)
+      .filter(highlight => highlight.sheetName === undefined || highlight.sheetName.toUpperCase() === sheetName);
+  }, [isEditing, editingValue, spreadsheet.name, locale]);
+
+  // 編集中のセルのエディターの入力支援
+  const editorAssist = useMemo(() => ({
+    onChange: handleEditorChange,
+    functionNames,
+    getSignature,
+    cursor: formulaCursor,
+    locale,
+    onCursorChange: handleEditorCursorChange,
+  }), [handleEditorChange, functionNames, getSignature, formulaCursor, locale, handleEditorCursorChange]);
 
   // フォーミュラバーでの確定
   const handleFormulaBarSubmit = useCallback(() => {
@@ -186,11 +522,291 @@ export function SpreadsheetApp({
   const csvImportRef = useRef<HTMLButtonElement>(null);
   const csvExportRef = useRef<HTMLButtonElement>(null);
 
-  // CSVインポートハンドラー
+  // CSVインポートハンドラー（アクティブシートの内容を置き換える）
   const handleCSVImport = useCallback((importedSpreadsheet: Spreadsheet) => {
-    setSpreadsheet(importedSpreadsheet);
+    setSpreadsheet({
+      ...importedSpreadsheet,
+      id: spreadsheet.id,
+      name: spreadsheet.name,
+    });
     setSelection(createSingleCellSelection({ row: 0, column: 0 }));
-  }, []);
+  }, [setSpreadsheet, spreadsheet.id, spreadsheet.name]);
+
+  // シート操作結果の反映
+  // シートの削除・名前の変更（数式の参照を書き換える）と反復計算の設定の変更では、ワークブック全体を再計算する
+  const applyWorkbookResult = useCallback((
+    result: WorkbookOperationResult,
+    options: { recalculate?: boolean } = {}
+  ) => {
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+    if (options.recalculate) {
+      const activeSheet = getActiveSheet(result.workbook);
+      if (formulaWorker) {
+        setWorkbook(result.workbook);
+        recalculateInWorker(formulaWorker, result.workbook, activeSheet);
+      } else {
+        setWorkbook(recalculate(result.workbook, activeSheet));
+      }
+      return;
+    }
+    setWorkbook(result.workbook);
+    formulaWorker?.setWorkbook(result.workbook).catch(error =>
+      console.error(`ワーカーにワークブックを設定できませんでした: ${error.message}`));
+  }, [formulaWorker, recalculate, recalculateInWorker]);
+
+  // シートの切り替え
+  const handleSheetSelect = useCallback((sheetId: string) => {
+    if (sheetId === workbook.activeSheetId) return;
+    setWorkbook(current => setActiveSheet(current, sheetId).workbook);
+    setSelection(createSingleCellSelection({ row: 0, column: 0 }));
+    setIsEditing(false);
+    setEditingValue('');
+  }, [workbook.activeSheetId]);
+
+  // シートの追加（追加したシートをアクティブにする）
+  const handleSheetAdd = useCallback(() => {
+    const result = addSheet(workbook);
+    if (result.success && result.data) {
+      applyWorkbookResult(setActiveSheet(result.workbook, result.data.id));
+      setSelection(createSingleCellSelection({ row: 0, column: 0 }));
+    } else {
+      applyWorkbookResult(result);
+    }
+  }, [workbook, applyWorkbookResult]);
+
+  // シート名の変更
+  const handleSheetRename = useCallback((sheetId: string, newName: string) => {
+    applyWorkbookResult(renameSheet(workbook, sheetId, newName), { recalculate: true });
+  }, [workbook, applyWorkbookResult]);
+
+  // シートの並び替え
+  const handleSheetMove = useCallback((sheetId: string, toIndex: number) => {
+    applyWorkbookResult(moveSheet(workbook, sheetId, toIndex));
+  }, [workbook, applyWorkbookResult]);
+
+  // シートの削除
+  const handleSheetDelete = useCallback((sheetId: string) => {
+    const sheet = workbook.sheets.find(s => s.id === sheetId);
+    if (sheet && sheet.cells.size > 0 && !confirm(`シート「${sheet.name}」を削除しますか？`)) {
+      return;
+    }
+    applyWorkbookResult(deleteSheet(workbook, sheetId), { recalculate: true });
+  }, [workbook, applyWorkbookResult]);
+
+  // シートの複製
+  const handleSheetDuplicate = useCallback((sheetId: string) => {
+    applyWorkbookResult(duplicateSheet(workbook, sheetId));
+  }, [workbook, applyWorkbookResult]);
+
+  // 反復計算の有効・無効の切り替え
+  const handleIterativeCalculationToggle = useCallback(() => {
+    applyWorkbookResult(setIterativeCalculation(workbook, { enabled: !iterationEnabled }), { recalculate: true });
+  }, [workbook, iterationEnabled, applyWorkbookResult]);
+
+  // 反復計算の最大反復回数・変化の最大値の設定
+  const handleIterativeCalculationSettings = useCallback(() => {
+    const iterationsInput = prompt('最大反復回数（1〜32767）', String(maxIterations));
+    if (iterationsInput === null) return;
+    const changeInput = prompt('変化の最大値', String(maxChange));
+    if (changeInput === null) return;
+
+    const settings: Partial<IterativeCalculationSettings> = {
+      maxIterations: Number(iterationsInput),
+      maxChange: Number(changeInput),
+    };
+    applyWorkbookResult(setIterativeCalculation(workbook, settings), { recalculate: true });
+  }, [workbook, maxIterations, maxChange, applyWorkbookResult]);
+
+  // 行・列の操作の履歴（編集中の入力欄の取り消しと競合しないよう、キーボードショートカットは使わない）
+  const {
+    addRowOperation,
+    addColumnOperation,
+    undo: undoGridOperation,
+    redo: redoGridOperation,
+  } = useHistory({ enableKeyboardShortcuts: false });
+
+  // アクティブセルの位置への行・列の挿入と、アクティブセルの行・列の削除
+  // 他のシートの数式・条件付き書式と名前の参照先も書き換え、書き換えた内容をアンドゥできるように履歴に記録する
+  const handleRowColumnOperation = useCallback((axis: 'row' | 'column', operation: 'insert' | 'delete') => {
+    const index = axis === 'row' ? selection.activeCell.row : selection.activeCell.column;
+    const gridResult = axis === 'row'
+      ? (operation === 'insert' ? insertRowsAt(spreadsheet, index) : deleteRowsAt(spreadsheet, index))
+      : (operation === 'insert' ? insertColumnsAt(spreadsheet, index) : deleteColumnsAt(spreadsheet, index));
+    if (!gridResult.success) {
+      alert(gridResult.error);
+      return;
+    }
+
+    const result = adjustWorkbookReferences(
+      updateSheet(workbook, gridResult.spreadsheet).workbook,
+      spreadsheet.id,
+      { axis, operation, index, count: 1 }
+    );
+    if (result.success) {
+      const removedData = 'deletedCells' in gridResult ? gridResult.deletedCells : undefined;
+      const formulaChanges = [...(gridResult.formulaChanges ?? []), ...(result.data ?? [])];
+      const conditionalFormatChanges = [
+        ...(gridResult.conditionalFormatChanges ?? []),
+        ...result.conditionalFormatChanges,
+      ];
+      const addOperation = axis === 'row' ? addRowOperation : addColumnOperation;
+      addOperation(
+        operation, index, 1, undefined, undefined, removedData,
+        formulaChanges, result.nameChanges, conditionalFormatChanges, spreadsheet.id
+      );
+    }
+    applyWorkbookResult(result, { recalculate: true });
+  }, [workbook, spreadsheet, selection.activeCell, addRowOperation, addColumnOperation, applyWorkbookResult]);
+
+  // 行・列の操作の取り消し・やり直し（操作したシートに加えて、他のシートの数式・条件付き書式と名前の参照先も戻す）
+  const handleGridHistory = useCallback(async (direction: 'undo' | 'redo') => {
+    const entry = direction === 'undo' ? await undoGridOperation() : await redoGridOperation();
+    if (!entry) return;
+
+    const current = workbookRef.current;
+    applyWorkbookResult(
+      applyWorkbookGridHistoryEntry(current, entry.sheetId ?? current.activeSheetId, entry, direction),
+      { recalculate: true }
+    );
+  }, [undoGridOperation, redoGridOperation, applyWorkbookResult]);
+
+  // 数式の検証（トレースの起点のセルと参照元・参照先をたどる段階数、依存関係パネル、数式の検証ダイアログ）
+  const [trace, setTrace] = useState<{ position: SheetCellPosition } & Record<TraceDirection, number>>();
+  const [isDependencyPanelOpen, setIsDependencyPanelOpen] = useState(false);
+  const [isCircularReferencePanelOpen, setIsCircularReferencePanelOpen] = useState(false);
+  const [evaluation, setEvaluation] = useState<Omit<EvaluateFormulaDialogProps, 'onClose'>>();
+
+  // トレースか依存関係パネル・循環参照パネルを表示している間だけ、ワークブックの依存関係を求める
+  const dependencies = useMemo(
+    () => (trace || isDependencyPanelOpen || isCircularReferencePanelOpen ? analyzeWorkbookDependencies(workbook) : undefined),
+    [workbook, trace, isDependencyPanelOpen, isCircularReferencePanelOpen]
+  );
+
+  const traceArrows = useMemo(() => {
+    if (!trace || !dependencies) return undefined;
+    return [
+      ...traceCellReferences(dependencies.manager, trace.position, 'precedents', trace.precedents),
+      ...traceCellReferences(dependencies.manager, trace.position, 'dependents', trace.dependents),
+    ];
+  }, [trace, dependencies]);
+
+  const activeSheetCell = useMemo(
+    () => toSheetCellPosition(selection.activeCell, spreadsheet.name),
+    [selection.activeCell, spreadsheet.name]
+  );
+
+  // 参照元・参照先のトレース（同じセルで繰り返すと1段階ずつ広げる）
+  const handleTrace = useCallback((direction: TraceDirection) => {
+    setTrace(current => {
+      const base = current && formatSheetCellPosition(current.position) === formatSheetCellPosition(activeSheetCell)
+        ? current
+        : { position: activeSheetCell, precedents: 0, dependents: 0 };
+      return { ...base, [direction]: base[direction] + 1 };
+    });
+  }, [activeSheetCell]);
+
+  // 依存関係パネルから選んだセルに移動する（他のシートのセルはシートを切り替える）
+  const handleNavigate = useCallback((position: SheetCellPosition) => {
+    const sheet = position.sheetName !== undefined ? getSheetByName(workbook, position.sheetName) : undefined;
+    if (sheet && sheet.id !== workbook.activeSheetId) {
+      setWorkbook(current => setActiveSheet(current, sheet.id).workbook);
+      setIsEditing(false);
+      setEditingValue('');
+    }
+    setSelection(createSingleCellSelection({ row: position.row, column: position.column }));
+  }, [workbook]);
+
+  // 選択したセルの数式を1段階ずつ評価する
+  // ワーカーがある場合はプラグインの関数を実行できるワーカーで評価する（ワーカーがない場合、プラグインの関数は#CALC!になる）
+  const handleEvaluateFormula = useCallback(async () => {
+    const cell = getCellFromSpreadsheet(spreadsheet, selection.activeCell);
+    const cellLabel = formatSheetCellPosition(activeSheetCell);
+    if (!cell || cell.dataType !== 'formula') {
+      setEvaluation({ cellLabel, formula: cell?.rawValue ?? '', steps: [], result: '', error: '選択したセルには数式がありません' });
+      return;
+    }
+
+    const result = formulaWorker
+      ? await formulaWorker.evaluateFormulaSteps(cell.rawValue, selection.activeCell, spreadsheet.name)
+      : calculator.evaluateFormulaSteps(
+        cell.rawValue,
+        createCalculationContext(spreadsheet, { workbook, currentPosition: activeSheetCell })
+      );
+    setEvaluation({
+      cellLabel,
+      formula: cell.rawValue,
+      steps: result.steps,
+      result: cell.displayValue,
+      error: result.error?.message,
+    });
+  }, [spreadsheet, workbook, selection.activeCell, activeSheetCell, calculator, formulaWorker]);
+
+  // 選択したセルの数式のエラーの説明（エラー値を表示している数式のセルだけ計算し直す）
+  // ワーカーがある場合はワーカーで計算し直す
+  const [activeCellError, setActiveCellError] = useState<{ formula: string; error: FormulaError }>();
+  useEffect(() => {
+    const cell = getCellFromSpreadsheet(spreadsheet, selection.activeCell);
+    if (!cell || cell.dataType !== 'formula' || !cell.displayValue.startsWith('#')) {
+      setActiveCellError(undefined);
+      return;
+    }
+    if (!formulaWorker) {
+      const context = createCalculationContext(spreadsheet, { workbook, currentPosition: activeSheetCell });
+      const error = calculator.calculateCellValue(selection.activeCell, context).error;
+      setActiveCellError(error && { formula: cell.rawValue, error });
+      return;
+    }
+
+    let isCurrent = true;
+    formulaWorker.getCellError(selection.activeCell, spreadsheet.name).then(error => {
+      if (isCurrent) {
+        setActiveCellError(error && { formula: cell.rawValue, error });
+      }
+    }, error => console.error(`エラーの説明を取得できませんでした: ${error.message}`));
+    return () => {
+      isCurrent = false;
+    };
+  }, [spreadsheet, workbook, selection.activeCell, activeSheetCell, calculator, formulaWorker]);
+
+  // 条件付き書式（再計算した後のシートの値で評価し直す）とルールの管理ダイアログ
+  // ワーカーがある場合はワーカーで評価する（ワーカーの再計算の後に評価するため、再計算した値で評価する）
+  const [conditionalFormats, setEvaluatedConditionalFormats] = useState<Map<string, ConditionalFormatResult>>(
+    () => new Map()
+  );
+  useEffect(() => {
+    if (!formulaWorker) {
+      setEvaluatedConditionalFormats(evaluateConditionalFormats(spreadsheet, calculator, { workbook }));
+      return;
+    }
+    if (!spreadsheet.conditionalFormats?.length) {
+      setEvaluatedConditionalFormats(new Map());
+      return;
+    }
+
+    let isCurrent = true;
+    formulaWorker.evaluateConditionalFormats(spreadsheet.name).then(formats => {
+      if (isCurrent) {
+        setEvaluatedConditionalFormats(formats);
+      }
+    }, error => console.error(`条件付き書式を評価できませんでした: ${error.message}`));
+    return () => {
+      isCurrent = false;
+    };
+  }, [spreadsheet, workbook, calculator, formulaWorker]);
+  const [isConditionalFormatDialogOpen, setIsConditionalFormatDialogOpen] = useState(false);
+
+  const handleConditionalFormatsApply = useCallback((rules: ConditionalFormatRule[]) => {
+    const result = setConditionalFormats(spreadsheet, rules);
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+    applyWorkbookResult(updateSheet(workbook, result.spreadsheet));
+    setIsConditionalFormatDialogOpen(false);
+  }, [spreadsheet, workbook, applyWorkbookResult]);
 
   // エラーハンドラー
   const handleCSVError = useCallback((error: Error) => {
@@ -203,6 +819,11 @@ export function SpreadsheetApp({
   const selectedRange = `${String.fromCharCode(65 + selection.activeCell.column)}${
     selection.activeCell.row + 1
   }`;
+  const iterationInfo = circularReferences.length > 0
+    ? `反復計算: ${Math.max(...circularReferences.map(component => component.iterations))}回 ${
+      circularReferences.every(component => component.converged) ? '収束' : '未収束'
+    }`
+    : undefined;
 
   return (
     <div
@@ -222,6 +843,9 @@ export function SpreadsheetApp({
       <Toolbar
         spreadsheet={spreadsheet}
         selection={selection}
+        iterativeCalculation={iterativeCalculation}
+        isDependencyPanelOpen={isDependencyPanelOpen}
+        isCircularReferencePanelOpen={isCircularReferencePanelOpen}
         onAction={(action) => {
           console.log('Toolbar action:', action);
           // CSV関連のアクション処理
@@ -229,6 +853,33 @@ export function SpreadsheetApp({
             document.getElementById('csv-import-trigger')?.click();
           } else if (action.type === 'file:export:csv') {
             document.getElementById('csv-export-trigger')?.click();
+          } else if (action.type === 'calculation:iterative') {
+            handleIterativeCalculationToggle();
+          } else if (action.type === 'calculation:iterative:settings') {
+            handleIterativeCalculationSettings();
+          } else if (action.type === 'audit:trace:precedents') {
+            handleTrace('precedents');
+          } else if (action.type === 'audit:trace:dependents') {
+            handleTrace('dependents');
+          } else if (action.type === 'audit:trace:clear') {
+            setTrace(undefined);
+          } else if (action.type === 'audit:dependencies') {
+            setIsDependencyPanelOpen(open => !open);
+          } else if (action.type === 'audit:evaluate') {
+            handleEvaluateFormula().catch(error =>
+              console.error(`数式を評価できませんでした: ${error.message}`));
+          } else if (action.type === 'audit:circular') {
+            setIsCircularReferencePanelOpen(open => !open);
+          } else if (action.type === 'format:conditional') {
+            setIsConditionalFormatDialogOpen(true);
+          } else if (action.type === 'insert:row' || action.type === 'delete:row') {
+            handleRowColumnOperation('row', action.type === 'insert:row' ? 'insert' : 'delete');
+          } else if (action.type === 'insert:column' || action.type === 'delete:column') {
+            handleRowColumnOperation('column', action.type === 'insert:column' ? 'insert' : 'delete');
+          } else if (action.type === 'edit:undo') {
+            handleGridHistory('undo');
+          } else if (action.type === 'edit:redo') {
+            handleGridHistory('redo');
           }
           // その他のアクション処理
         }}
@@ -240,29 +891,100 @@ export function SpreadsheetApp({
         activeCell={selection.activeCell}
         onChange={handleFormulaBarChange}
         onSubmit={handleFormulaBarSubmit}
+        functionNames={functionNames}
+        getSignature={getSignature}
+        cursor={isEditing ? formulaCursor : undefined}
+        locale={locale}
+        onCursorChange={handleEditorCursorChange}
       />
 
+      {/* 数式のエラーの説明 */}
+      {activeCellError && !isEditing && (
+        <FormulaErrorDetails {...activeCellError} onNavigate={handleNavigate} />
+      )}
+
       {/* グリッド */}
-      <div className="flex-1 overflow-hidden">
-        <Grid
-          spreadsheet={spreadsheet}
-          selection={selection}
-          isEditing={isEditing}
-          editingValue={editingValue}
-          onCellSelect={handleCellSelect}
-          onRangeSelect={handleRangeSelect}
-          onCellEditStart={handleCellEditStart}
-          onCellEditComplete={handleCellEditComplete}
-          onCellEditCancel={handleCellEditCancel}
-        />
+      <div className="flex-1 flex overflow-hidden">
+        <div className="flex-1 overflow-hidden">
+          <Grid
+            spreadsheet={spreadsheet}
+            selection={selection}
+            isEditing={isEditing}
+            editingValue={editingValue}
+            onCellSelect={handleCellSelect}
+            onRangeSelect={handleRangeSelect}
+            onCellEditStart={handleCellEditStart}
+            onCellEditComplete={handleCellEditComplete}
+            onCellEditCancel={handleCellEditCancel}
+            onAutoFill={handleAutoFill}
+            pendingCells={pendingCells}
+            conditionalFormats={conditionalFormats}
+            traceArrows={traceArrows}
+            editorAssist={editorAssist}
+            referenceHighlights={referenceHighlights}
+            isPointMode={isPointMode}
+            onPointReference={handlePointReference}
+          />
+        </div>
+
+        {/* 依存関係パネル */}
+        {isDependencyPanelOpen && dependencies && (
+          <DependencyPanel
+            workbook={workbook}
+            position={activeSheetCell}
+            dependencies={dependencies}
+            onNavigate={handleNavigate}
+            onClose={() => setIsDependencyPanelOpen(false)}
+          />
+        )}
+
+        {/* 循環参照パネル */}
+        {isCircularReferencePanelOpen && dependencies && (
+          <CircularReferencePanel
+            circularReferences={dependencies.manager.getCircularReferences()}
+            onNavigate={handleNavigate}
+            onClose={() => setIsCircularReferencePanelOpen(false)}
+          />
+        )}
       </div>
 
+      {/* 数式の検証ダイアログ */}
+      {evaluation && (
+        <EvaluateFormulaDialog {...evaluation} onClose={() => setEvaluation(undefined)} />
+      )}
+
+      {/* 条件付き書式ルールの管理ダイアログ */}
+      {isConditionalFormatDialogOpen && (
+        <ConditionalFormatDialog
+          sheetName={spreadsheet.name}
+          rules={spreadsheet.conditionalFormats ?? []}
+          defaultRange={selectionToA1Notation(selection)}
+          onApply={handleConditionalFormatsApply}
+          onClose={() => setIsConditionalFormatDialogOpen(false)}
+        />
+      )}
+
+      {/* シートタブ */}
+      <SheetTabs
+        sheets={workbook.sheets}
+        activeSheetId={workbook.activeSheetId}
+        onSelect={handleSheetSelect}
+        onAdd={handleSheetAdd}
+        onRename={handleSheetRename}
+        onMove={handleSheetMove}
+        onDelete={handleSheetDelete}
+        onDuplicate={handleSheetDuplicate}
+      />
+
       {/* ステータスバー */}
       <StatusBar
         cellCount={cellCount}
         selectedRange={selectedRange}
-        spreadsheetName={spreadsheet.name}
-        lastModified={spreadsheet.updatedAt}
+        spreadsheetName={`${workbook.name} - ${spreadsheet.name}`}
+        lastModified={workbook.updatedAt}
+        mode={pendingCells ? 'calculating' : 'ready'}
+        additionalInfo={iterationInfo}
+        recalculationStats={recalculationStats}
       />
     </div>
   );
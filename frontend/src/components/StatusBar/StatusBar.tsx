@@ -1,6 +1,7 @@
 'use client'
 
 import React, { useMemo } from 'react';
+import { RecalculationStats } from '../../lib/formula-engine/recalculation';
 
 export interface StatusBarProps {
   cellCount: number;
@@ -9,6 +10,7 @@ export interface StatusBarProps {
   lastModified: Date;
   mode?: 'ready' | 'edit' | 'calculating';
   additionalInfo?: string;
+  recalculationStats?: RecalculationStats;  // 直前の再計算の統計
 }
 
 export function StatusBar({
@@ -18,6 +20,7 @@ export function StatusBar({
   lastModified,
   mode = 'ready',
   additionalInfo,
+  recalculationStats,
 }: StatusBarProps) {
   // モード表示の文言
   const getModeText = useMemo(() => {
@@ -91,6 +94,19 @@ export function StatusBar({
           </span>
         )}
 
+        {/* 再計算の統計 */}
+        {recalculationStats && (
+          <span
+            title={recalculationStats.mode === 'incremental'
+              ? '変更されたセルに依存するセルだけを再計算しました'
+              : 'シート全体を再計算しました'}
+          >
+            再計算: <span className="font-mono">{recalculationStats.recalculatedCells.toLocaleString()}</span>セル
+            （<span className="font-mono">{recalculationStats.calculationTime.toFixed(1)}</span>ms
+            {recalculationStats.mode === 'incremental' ? '・差分' : '・全体'}）
+          </span>
+        )}
+
         {/* セル数 */}
         <span>
           セル数: <span className="font-mono">{cellCount.toLocaleString()}</span>
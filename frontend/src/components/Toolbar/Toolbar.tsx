@@ -3,6 +3,7 @@
 import React, { useCallback } from 'react';
 import { Spreadsheet } from '../../lib/spreadsheet';
 import { Selection, selectionToA1Notation } from '../../lib/selection';
+import { IterativeCalculationSettings } from '../../lib/workbook';
 
 export interface ToolbarAction {
   type: string;
@@ -12,10 +13,20 @@ export interface ToolbarAction {
 export interface ToolbarProps {
   spreadsheet: Spreadsheet;
   selection: Selection;
+  iterativeCalculation?: IterativeCalculationSettings;
+  isDependencyPanelOpen?: boolean;
+  isCircularReferencePanelOpen?: boolean;
   onAction: (action: ToolbarAction) => void;
 }
 
-export function Toolbar({ spreadsheet, selection, onAction }: ToolbarProps) {
+export function Toolbar({
+  spreadsheet,
+  selection,
+  iterativeCalculation,
+  isDependencyPanelOpen = false,
+  isCircularReferencePanelOpen = false,
+  onAction,
+}: ToolbarProps) {
   // アクション実行のヘルパー関数
   const handleAction = useCallback(
     (type: string, payload?: any) => {
@@ -44,6 +55,7 @@ export function Toolbar({ spreadsheet, selection, onAction }: ToolbarProps) {
   const handleBold = useCallback(() => handleAction('format:bold'), [handleAction]);
   const handleItalic = useCallback(() => handleAction('format:italic'), [handleAction]);
   const handleUnderline = useCallback(() => handleAction('format:underline'), [handleAction]);
+  const handleConditionalFormat = useCallback(() => handleAction('format:conditional'), [handleAction]);
 
   // 配置設定
   const handleAlignLeft = useCallback(() => handleAction('format:align:left'), [handleAction]);
@@ -56,6 +68,18 @@ export function Toolbar({ spreadsheet, selection, onAction }: ToolbarProps) {
   const handleDeleteRow = useCallback(() => handleAction('delete:row'), [handleAction]);
   const handleDeleteColumn = useCallback(() => handleAction('delete:column'), [handleAction]);
 
+  // 数式の検証
+  const handleTracePrecedents = useCallback(() => handleAction('audit:trace:precedents'), [handleAction]);
+  const handleTraceDependents = useCallback(() => handleAction('audit:trace:dependents'), [handleAction]);
+  const handleClearTrace = useCallback(() => handleAction('audit:trace:clear'), [handleAction]);
+  const handleDependencyPanel = useCallback(() => handleAction('audit:dependencies'), [handleAction]);
+  const handleEvaluateFormula = useCallback(() => handleAction('audit:evaluate'), [handleAction]);
+  const handleCircularReferences = useCallback(() => handleAction('audit:circular'), [handleAction]);
+
+  // 計算設定
+  const handleIterativeCalculation = useCallback(() => handleAction('calculation:iterative'), [handleAction]);
+  const handleIterativeSettings = useCallback(() => handleAction('calculation:iterative:settings'), [handleAction]);
+
   return (
     <div className="flex items-center bg-gray-50 border-b border-gray-300 px-2 py-1 min-h-[40px]">
       {/* ファイル操作 */}
@@ -169,6 +193,12 @@ export function Toolbar({ spreadsheet, selection, onAction }: ToolbarProps) {
           label="下線"
           active={false} // TODO: 実際の状態を反映
         />
+        <ToolbarButton
+          onClick={handleConditionalFormat}
+          title="条件付き書式ルールの管理"
+          icon="🎨"
+          label="条件付き書式"
+        />
       </div>
 
       {/* 配置設定 */}
@@ -194,7 +224,7 @@ export function Toolbar({ spreadsheet, selection, onAction }: ToolbarProps) {
       </div>
 
       {/* 行・列操作 */}
-      <div className="flex items-center space-x-1 px-2">
+      <div className="flex items-center space-x-1 px-2 border-r border-gray-300">
         <ToolbarButton
           onClick={handleInsertRow}
           title="行を挿入"
@@ -223,6 +253,67 @@ export function Toolbar({ spreadsheet, selection, onAction }: ToolbarProps) {
         />
       </div>
 
+      {/* 数式の検証 */}
+      <div className="flex items-center space-x-1 px-2 border-r border-gray-300">
+        <ToolbarButton
+          onClick={handleTracePrecedents}
+          title="参照元のトレース（押すたびに1段階ずつ広げる）"
+          icon="⇠"
+          label="参照元"
+        />
+        <ToolbarButton
+          onClick={handleTraceDependents}
+          title="参照先のトレース（押すたびに1段階ずつ広げる）"
+          icon="⇢"
+          label="参照先"
+        />
+        <ToolbarButton
+          onClick={handleClearTrace}
+          title="トレース矢印を削除"
+          icon="✕"
+          label="矢印削除"
+        />
+        <ToolbarButton
+          onClick={handleDependencyPanel}
+          title="選択したセルの依存関係を表示"
+          icon="🔗"
+          label="依存関係"
+          active={isDependencyPanelOpen}
+        />
+        <ToolbarButton
+          onClick={handleEvaluateFormula}
+          title="数式を1段階ずつ評価して途中の値を確認"
+          icon="🔍"
+          label="数式の検証"
+        />
+        <ToolbarButton
+          onClick={handleCircularReferences}
+          title="ワークブックの循環参照を表示"
+          icon="🔁"
+          label="循環参照"
+          active={isCircularReferencePanelOpen}
+        />
+      </div>
+
+      {/* 計算設定 */}
+      <div className="flex items-center space-x-1 px-2">
+        <ToolbarButton
+          onClick={handleIterativeCalculation}
+          title="循環参照を反復計算で解く"
+          icon="🔁"
+          label="反復計算"
+          active={iterativeCalculation?.enabled ?? false}
+        />
+        <ToolbarButton
+          onClick={handleIterativeSettings}
+          title={iterativeCalculation
+            ? `反復計算の設定（最大${iterativeCalculation.maxIterations}回・変化の最大値${iterativeCalculation.maxChange}）`
+            : '反復計算の設定'}
+          icon="⚙"
+          label="反復設定"
+        />
+      </div>
+
       {/* スペーサー */}
       <div className="flex-1" />
 
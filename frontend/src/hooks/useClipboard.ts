@@ -21,11 +21,13 @@ import {
   createEmptyClipboard
 } from '../lib/clipboard';
 import { CellSelection, CellPosition } from '../lib/selection';
+import { GridSize } from '../lib/formula';
 
 interface UseClipboardOptions {
   enableSystemClipboard?: boolean;
   autoFormatDetection?: boolean;
   maxClipboardSize?: number;
+  gridSize?: GridSize;  // 貼り付けた数式の参照がグリッドの外に出るかの判定に使用
   onClipboardChange?: (data: ClipboardData | null) => void;
   onPasteComplete?: (affectedCells: CellPosition[]) => void;
   onError?: (error: string) => void;
@@ -204,7 +206,7 @@ export function useClipboard(options: UseClipboardOptions = {}): UseClipboardRet
     }
 
     try {
-      const result = executePaste(clipboardData, targetPosition, setCellData, clearCell, options);
+      const result = executePaste(clipboardData, targetPosition, setCellData, clearCell, options, mergedOptions.gridSize);
 
       if (result.success && mergedOptions.onPasteComplete) {
         mergedOptions.onPasteComplete(result.affectedCells);
@@ -6,13 +6,14 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import {
   parseFormula,
-  evaluateFormula,
   validateFormula,
   checkCircularReference,
   ParsedFormula,
   FormulaResult,
   FormulaError
 } from '../lib/formula';
+import { evaluateFormula } from '../lib/formula-engine/evaluator';
+import { createFormulaCalculator } from '../lib/formula-engine/calculator';
 import { CellPosition } from '../lib/cell';
 
 interface UseFormulaOptions {
@@ -81,6 +82,9 @@ export function useFormula(
   const [dependents, setDependents] = useState<CellPosition[]>([]);
   const [calculationDepth, setCalculationDepth] = useState(0);
 
+  // 組み込み関数の定義
+  const calculator = useMemo(() => createFormulaCalculator(), []);
+
   // 計算されたプロパティ
   const isValid = useMemo(() => error === null, [error]);
   const dependencies = useMemo(() => parsedFormula?.dependencies || [], [parsedFormula]);
@@ -184,7 +188,7 @@ export function useFormula(
         return '';
       });
 
-      const calculationResult = evaluateFormula(parsedFormula, getCellValue);
+      const calculationResult = evaluateFormula(parsedFormula, getCellValue, name => calculator.resolveFunction(name));
 
       setResult(calculationResult);
       setError(calculationResult.error || null);
@@ -220,7 +224,8 @@ export function useFormula(
     isCalculating,
     calculationDepth,
     formula,
-    mergedOptions
+    mergedOptions,
+    calculator
   ]);
 
   // 再計算
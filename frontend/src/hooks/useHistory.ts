@@ -9,12 +9,15 @@ import {
   HistoryEntry,
   HistoryActionType,
   CellChange,
+  NameChange,
+  ConditionalFormatChange,
   RowColumnOperation,
   createHistoryManager,
   createCellValueChangeEntry,
   createCellFormatChangeEntry,
   createRowOperationEntry,
   createColumnOperationEntry,
+  createMoveOperationEntry,
   createBulkOperationEntry,
   addHistoryEntry,
   performUndo,
@@ -67,7 +70,11 @@ interface UseHistoryReturn {
     count?: number,
     oldSize?: number,
     newSize?: number,
-    removedData?: any[]
+    removedData?: any[],
+    formulaChanges?: CellChange[],
+    nameChanges?: NameChange[],
+    conditionalFormatChanges?: ConditionalFormatChange[],
+    sheetId?: string
   ) => void;
   addColumnOperation: (
     operation: 'insert' | 'delete' | 'resize',
@@ -75,7 +82,27 @@ interface UseHistoryReturn {
     count?: number,
     oldSize?: number,
     newSize?: number,
-    removedData?: any[]
+    removedData?: any[],
+    formulaChanges?: CellChange[],
+    nameChanges?: NameChange[],
+    conditionalFormatChanges?: ConditionalFormatChange[],
+    sheetId?: string
+  ) => void;
+  addRowMove: (
+    fromIndex: number,
+    toIndex: number,
+    formulaChanges?: CellChange[],
+    nameChanges?: NameChange[],
+    conditionalFormatChanges?: ConditionalFormatChange[],
+    sheetId?: string
+  ) => void;
+  addColumnMove: (
+    fromIndex: number,
+    toIndex: number,
+    formulaChanges?: CellChange[],
+    nameChanges?: NameChange[],
+    conditionalFormatChanges?: ConditionalFormatChange[],
+    sheetId?: string
   ) => void;
   addBulkOperation: (
     actionType: HistoryActionType,
@@ -232,9 +259,16 @@ export function useHistory(options: UseHistoryOptions = {}): UseHistoryReturn {
     count: number = 1,
     oldSize?: number,
     newSize?: number,
-    removedData?: any[]
+    removedData?: any[],
+    formulaChanges?: CellChange[],
+    nameChanges?: NameChange[],
+    conditionalFormatChanges?: ConditionalFormatChange[],
+    sheetId?: string
   ) => {
-    const entry = createRowOperationEntry(operation, index, count, oldSize, newSize, removedData);
+    const entry = createRowOperationEntry(
+      operation, index, count, oldSize, newSize, removedData,
+      formulaChanges, nameChanges, conditionalFormatChanges, sheetId
+    );
     addEntry(entry);
   }, [addEntry]);
 
@@ -245,9 +279,46 @@ export function useHistory(options: UseHistoryOptions = {}): UseHistoryReturn {
     count: number = 1,
     oldSize?: number,
     newSize?: number,
-    removedData?: any[]
+    removedData?: any[],
+    formulaChanges?: CellChange[],
+    nameChanges?: NameChange[],
+    conditionalFormatChanges?: ConditionalFormatChange[],
+    sheetId?: string
+  ) => {
+    const entry = createColumnOperationEntry(
+      operation, index, count, oldSize, newSize, removedData,
+      formulaChanges, nameChanges, conditionalFormatChanges, sheetId
+    );
+    addEntry(entry);
+  }, [addEntry]);
+
+  // 行移動エントリー追加
+  const addRowMove = useCallback((
+    fromIndex: number,
+    toIndex: number,
+    formulaChanges?: CellChange[],
+    nameChanges?: NameChange[],
+    conditionalFormatChanges?: ConditionalFormatChange[],
+    sheetId?: string
+  ) => {
+    const entry = createMoveOperationEntry(
+      'row', fromIndex, toIndex, formulaChanges, nameChanges, conditionalFormatChanges, sheetId
+    );
+    addEntry(entry);
+  }, [addEntry]);
+
+  // 列移動エントリー追加
+  const addColumnMove = useCallback((
+    fromIndex: number,
+    toIndex: number,
+    formulaChanges?: CellChange[],
+    nameChanges?: NameChange[],
+    conditionalFormatChanges?: ConditionalFormatChange[],
+    sheetId?: string
   ) => {
-    const entry = createColumnOperationEntry(operation, index, count, oldSize, newSize, removedData);
+    const entry = createMoveOperationEntry(
+      'column', fromIndex, toIndex, formulaChanges, nameChanges, conditionalFormatChanges, sheetId
+    );
     addEntry(entry);
   }, [addEntry]);
 
@@ -408,6 +479,8 @@ export function useHistory(options: UseHistoryOptions = {}): UseHistoryReturn {
     addCellFormatChange,
     addRowOperation,
     addColumnOperation,
+    addRowMove,
+    addColumnMove,
     addBulkOperation,
 
     // 情報取得
@@ -3,11 +3,21 @@
  * 個々のデータ入力単位。行番号、列番号、値（テキスト/数値/数式）、データ型、書式設定を持つ
  */
 
+import { DateSystem, dateTextToSerial, formatDateSerial, isDateLikeText, parseDateText } from './date-serial';
+import { NumberFormatResult, formatNumberCode } from './number-format';
+
 export interface CellPosition {
   row: number;
   column: number;
 }
 
+/**
+ * シート名で修飾されたセル座標（シート名を省略した場合は数式と同じシート）
+ */
+export interface SheetCellPosition extends CellPosition {
+  sheetName?: string;
+}
+
 export enum CellDataType {
   TEXT = 'text',
   NUMBER = 'number',
@@ -38,6 +48,7 @@ export interface CellFormat {
     decimalPlaces: number;
     currencySymbol?: string;
   };
+  numberFormatCode?: string;  // 書式コード（#,##0.00;[Red](#,##0.00)、0.0%、yyyy/mm/dd など）。numberFormatより優先する
   dateFormat?: string;
 }
 
@@ -50,7 +61,10 @@ export interface Cell {
   isReadOnly: boolean;
   isSelected: boolean;
   validationError?: string;
+  displayColor?: string;  // 書式コードで指定した表示の色（[Red] など）
   lastModified: Date;
+  spillAnchor?: CellPosition;  // 配列数式の結果を展開したセルの場合、数式のセルの位置
+  spillRange?: { start: CellPosition; end: CellPosition };  // 配列数式の結果を展開した範囲（数式のセル）
 }
 
 export const DEFAULT_CELL_FORMAT: CellFormat = {
@@ -87,6 +101,13 @@ export function createEmptyCell(position: CellPosition): Cell {
   };
 }
 
+/**
+ * 配列数式の結果を展開したセル（スピル先のセル）かどうかを判定する関数
+ */
+export function isSpillChild(cell: Cell | undefined): boolean {
+  return cell?.spillAnchor !== undefined;
+}
+
 /**
  * セルのデータ型を判定する関数
  */
@@ -100,28 +121,21 @@ export function determineCellDataType(value: string): CellDataType {
     return CellDataType.FORMULA;
   }
 
+  // 日付の判定（YYYY-MM-DD・YYYY/M/D・M/D/YYYY・YYYY年M月D日と時刻。先頭が数字のため数値より先に判定する）
+  if (parseDateText(value) !== null) {
+    return CellDataType.DATE;
+  }
+  // 実在しない日付・時刻（2024-02-30など）は先頭の数字を数値として読まずに文字列にする
+  if (isDateLikeText(value)) {
+    return CellDataType.TEXT;
+  }
+
   // 数値の判定
   const numValue = parseFloat(value);
   if (!isNaN(numValue) && isFinite(numValue)) {
     return CellDataType.NUMBER;
   }
 
-  // 日付の判定（基本的なISO形式とローカル形式をサポート）
-  const datePatterns = [
-    /^\d{4}-\d{2}-\d{2}$/, // YYYY-MM-DD
-    /^\d{4}\/\d{1,2}\/\d{1,2}$/, // YYYY/M/D
-    /^\d{1,2}\/\d{1,2}\/\d{4}$/, // M/D/YYYY
-  ];
-
-  for (const pattern of datePatterns) {
-    if (pattern.test(value)) {
-      const date = new Date(value);
-      if (!isNaN(date.getTime())) {
-        return CellDataType.DATE;
-      }
-    }
-  }
-
   // ブール値の判定
   const lowerValue = value.toLowerCase();
   if (lowerValue === 'true' || lowerValue === 'false') {
@@ -133,51 +147,107 @@ export function determineCellDataType(value: string): CellDataType {
 }
 
 /**
- * セルの表示値を計算する関数
+ * セルの書式の書式コードを求める関数（書式コードがない場合はundefined）
+ * numberFormatCodeを優先し、numberFormat（整数・小数・パーセント・通貨）は同じ表示になる書式コードにする
  */
-export function calculateDisplayValue(cell: Cell): string {
-  if (cell.dataType === CellDataType.EMPTY) {
-    return '';
+export function getCellNumberFormatCode(format: CellFormat): string | undefined {
+  if (format.numberFormatCode) {
+    return format.numberFormatCode;
   }
 
-  if (cell.dataType === CellDataType.FORMULA) {
-    // 数式の場合は計算結果を表示（実装は簡素化）
-    return cell.rawValue; // 実際の実装では数式エンジンで計算
+  const numberFormat = format.numberFormat;
+  if (!numberFormat) {
+    return undefined;
   }
+  const decimals = numberFormat.decimalPlaces > 0 ? `.${'0'.repeat(numberFormat.decimalPlaces)}` : '';
+  switch (numberFormat.type) {
+    case 'integer':
+      return '0';
+    case 'decimal':
+      return `0${decimals}`;
+    case 'percentage':
+      return `0${decimals}%`;
+    case 'currency':
+      return `"${numberFormat.currencySymbol || '$'}"0${decimals}`;
+  }
+}
 
-  if (cell.dataType === CellDataType.NUMBER && cell.format.numberFormat) {
-    const numValue = parseFloat(cell.rawValue);
-    if (isNaN(numValue)) return cell.rawValue;
-
-    const format = cell.format.numberFormat;
-    switch (format.type) {
-      case 'integer':
-        return Math.round(numValue).toString();
-      case 'decimal':
-        return numValue.toFixed(format.decimalPlaces);
-      case 'percentage':
-        return `${(numValue * 100).toFixed(format.decimalPlaces)}%`;
-      case 'currency':
-        return `${format.currencySymbol || '$'}${numValue.toFixed(format.decimalPlaces)}`;
+/**
+ * 値をセルの書式コードで表示する文字列と色に変換する関数（書式コードがない場合はnull）
+ * 数式のセルは計算結果の値を渡す
+ */
+export function formatCellValue(
+  format: CellFormat,
+  value: number | string | boolean,
+  dateSystem: DateSystem = '1900'
+): NumberFormatResult | null {
+  const code = getCellNumberFormatCode(format);
+  return code ? formatNumberCode(value, code, dateSystem) : null;
+}
+
+/**
+ * セルの表示値と表示の色
+ */
+export interface CellDisplay {
+  displayValue: string;
+  displayColor: string | undefined;
+}
+
+/**
+ * セルの表示値と表示の色を計算する関数
+ * 数値は書式コード（numberFormatCode・numberFormat）、日付・文字列は書式コード（numberFormatCode）で表示する
+ */
+export function calculateCellDisplay(cell: Cell): CellDisplay {
+  const plain = (displayValue: string): CellDisplay => ({ displayValue, displayColor: undefined });
+  const formatted = (result: NumberFormatResult | null): CellDisplay =>
+    result ? { displayValue: result.text, displayColor: result.color } : plain(cell.rawValue);
+
+  switch (cell.dataType) {
+    case CellDataType.EMPTY:
+      return plain('');
+
+    case CellDataType.FORMULA:
+      // 数式の計算結果は再計算で表示値にする
+      return plain(cell.rawValue);
+
+    case CellDataType.NUMBER: {
+      const numValue = parseFloat(cell.rawValue);
+      return isNaN(numValue) ? plain(cell.rawValue) : formatted(formatCellValue(cell.format, numValue));
     }
-  }
 
-  if (cell.dataType === CellDataType.DATE && cell.format.dateFormat) {
-    const date = new Date(cell.rawValue);
-    if (!isNaN(date.getTime())) {
-      // 簡単な日付フォーマット（実際の実装ではより詳細な処理が必要）
-      switch (cell.format.dateFormat) {
-        case 'YYYY-MM-DD':
-          return date.toISOString().split('T')[0];
-        case 'MM/DD/YYYY':
-          return `${(date.getMonth() + 1).toString().padStart(2, '0')}/${date.getDate().toString().padStart(2, '0')}/${date.getFullYear()}`;
-        default:
-          return date.toLocaleDateString();
-      }
+    case CellDataType.DATE: {
+      // 書式（YYYY-MM-DD、MM/DD/YYYY、yyyy年m月d日 など）はExcelの日付の書式記号として扱う
+      const serial = getCellDateSerial(cell);
+      if (serial === null) return plain(cell.rawValue);
+      if (cell.format.numberFormatCode) return formatted(formatNumberCode(serial, cell.format.numberFormatCode));
+      return plain(cell.format.dateFormat ? formatDateSerial(serial, cell.format.dateFormat) : cell.rawValue);
     }
+
+    case CellDataType.TEXT:
+      return cell.format.numberFormatCode
+        ? formatted(formatNumberCode(cell.rawValue, cell.format.numberFormatCode))
+        : plain(cell.rawValue);
+
+    default:
+      return plain(cell.rawValue);
   }
+}
 
-  return cell.rawValue;
+/**
+ * セルの表示値を計算する関数
+ */
+export function calculateDisplayValue(cell: Cell): string {
+  return calculateCellDisplay(cell).displayValue;
+}
+
+/**
+ * 日付のセルの値をシリアル値に変換する関数（日付のセルでない場合はnull）
+ */
+export function getCellDateSerial(cell: Cell, dateSystem: DateSystem = '1900'): number | null {
+  if (cell.dataType !== CellDataType.DATE) {
+    return null;
+  }
+  return dateTextToSerial(cell.rawValue, dateSystem);
 }
 
 /**
@@ -191,9 +261,12 @@ export function updateCellValue(cell: Cell, newValue: string): Cell {
     dataType,
     lastModified: new Date(),
     validationError: undefined,
+    // 配列の展開は再計算で改めて求める
+    spillAnchor: undefined,
+    spillRange: undefined,
   };
 
-  updatedCell.displayValue = calculateDisplayValue(updatedCell);
+  Object.assign(updatedCell, calculateCellDisplay(updatedCell));
   return updatedCell;
 }
 
@@ -207,7 +280,7 @@ export function updateCellFormat(cell: Cell, formatUpdate: Partial<CellFormat>):
     lastModified: new Date(),
   };
 
-  updatedCell.displayValue = calculateDisplayValue(updatedCell);
+  Object.assign(updatedCell, calculateCellDisplay(updatedCell));
   return updatedCell;
 }
 
@@ -229,8 +302,7 @@ export function validateCellData(cell: Cell): { isValid: boolean; error?: string
 
   // 日付検証
   if (cell.dataType === CellDataType.DATE) {
-    const date = new Date(cell.rawValue);
-    if (isNaN(date.getTime())) {
+    if (parseDateText(cell.rawValue) === null) {
       return { isValid: false, error: '有効な日付を入力してください' };
     }
   }
@@ -5,6 +5,7 @@
 
 import { CellPosition } from './cell';
 import { CellSelection } from './selection';
+import { GridSize, offsetFormulaReferences } from './formula';
 
 export enum ClipboardOperation {
   COPY = 'copy',
@@ -199,13 +200,16 @@ function transposeData(data: ClipboardCellData[][]): ClipboardCellData[][] {
 
 /**
  * 貼り付け操作を実行する関数
+ * コピーした数式の相対参照は貼り付け先までの移動量だけずらす（切り取りの場合はそのまま）。
+ * gridSizeを指定した場合、グリッドの外に出る参照は#REF!になる
  */
 export function executePaste(
   clipboardData: ClipboardData,
   targetPosition: CellPosition,
   setCellData: (position: CellPosition, data: ClipboardCellData) => void,
   clearCell: (position: CellPosition) => void,
-  options: PasteOptions = DEFAULT_PASTE_OPTIONS
+  options: PasteOptions = DEFAULT_PASTE_OPTIONS,
+  gridSize?: GridSize
 ): { affectedCells: CellPosition[]; success: boolean; errors: string[] } {
   const errors: string[] = [];
   const affectedCells: CellPosition[] = [];
@@ -223,7 +227,10 @@ export function executePaste(
 
         if (cellData) {
           // セルデータを適用
-          const processedCellData = processCellDataForPaste(cellData, options);
+          let processedCellData = processCellDataForPaste(cellData, options);
+          if (clipboardData.operation === ClipboardOperation.COPY) {
+            processedCellData = adjustFormulaForPaste(processedCellData, targetPos, gridSize);
+          }
           setCellData(targetPos, processedCellData);
           affectedCells.push(targetPos);
         }
@@ -271,6 +278,27 @@ function processCellDataForPaste(
   return processedData;
 }
 
+/**
+ * 貼り付け先の位置に合わせて数式の相対参照をずらす関数
+ */
+function adjustFormulaForPaste(
+  cellData: ClipboardCellData,
+  targetPosition: CellPosition,
+  gridSize?: GridSize
+): ClipboardCellData {
+  if (!cellData.rawValue.startsWith('=')) {
+    return cellData;
+  }
+
+  const rawValue = offsetFormulaReferences(
+    cellData.rawValue,
+    targetPosition.row - cellData.position.row,
+    targetPosition.column - cellData.position.column,
+    gridSize
+  );
+  return rawValue === cellData.rawValue ? cellData : { ...cellData, rawValue };
+}
+
 /**
  * 切り取り操作の元のセルをクリアする関数
  */
@@ -0,0 +1,333 @@
+/**
+ * 条件付き書式モデル
+ * シートの範囲に設定する書式のルール。ルールは配列の先頭ほど優先度が高い
+ */
+
+import { CellPosition } from './cell';
+import {
+  GridChange,
+  adjustReferencesForGridChange,
+  parseCellRange,
+  parseCellReference,
+  validateFormula
+} from './formula';
+
+/**
+ * 条件を満たしたセルに適用する書式
+ */
+export interface ConditionalFormatStyle {
+  backgroundColor?: string;
+  textColor?: string;
+  fontWeight?: 'normal' | 'bold';
+  fontStyle?: 'normal' | 'italic';
+}
+
+export type ConditionalFormatOperator =
+  | 'greaterThan'
+  | 'greaterThanOrEqual'
+  | 'lessThan'
+  | 'lessThanOrEqual'
+  | 'equal'
+  | 'notEqual'
+  | 'between'
+  | 'notBetween';
+
+export type ConditionalFormatTextOperator = 'contains' | 'notContains' | 'beginsWith' | 'endsWith';
+
+export type ConditionalFormatIconSet = 'arrows' | 'trafficLights' | 'symbols' | 'flags';
+
+interface ConditionalFormatRuleBase {
+  id: string;
+  range: string;         // 適用先の範囲（A1:B10、複数の範囲はカンマ区切り。シート名は付けない）
+  stopIfTrue?: boolean;  // 条件を満たしたセルには優先度の低いルールを適用しない
+}
+
+/**
+ * セルの値の比較（value1・value2は値か、=で始まる数式）
+ */
+export interface CellValueRule extends ConditionalFormatRuleBase {
+  type: 'cellValue';
+  operator: ConditionalFormatOperator;
+  value1: string;
+  value2?: string;       // between・notBetweenの上限
+  style: ConditionalFormatStyle;
+}
+
+/**
+ * 文字列を含む・含まない・で始まる・で終わる（大文字小文字を区別しない）
+ */
+export interface TextContainsRule extends ConditionalFormatRuleBase {
+  type: 'textContains';
+  operator: ConditionalFormatTextOperator;
+  text: string;
+  style: ConditionalFormatStyle;
+}
+
+/**
+ * 上位・下位のN項目（percentの場合はN%）
+ */
+export interface TopBottomRule extends ConditionalFormatRuleBase {
+  type: 'topBottom';
+  direction: 'top' | 'bottom';
+  rank: number;
+  percent?: boolean;
+  style: ConditionalFormatStyle;
+}
+
+/**
+ * 平均より上・下（equalAverageの場合は平均と等しい値を含む）
+ */
+export interface AverageRule extends ConditionalFormatRuleBase {
+  type: 'average';
+  direction: 'above' | 'below';
+  equalAverage?: boolean;
+  style: ConditionalFormatStyle;
+}
+
+/**
+ * 重複する値（uniqueの場合は一意の値）
+ */
+export interface DuplicateRule extends ConditionalFormatRuleBase {
+  type: 'duplicate';
+  unique?: boolean;
+  style: ConditionalFormatStyle;
+}
+
+/**
+ * 数式（範囲の左上のセルを基準とした相対参照で、各セルについて計算する）
+ */
+export interface FormulaRule extends ConditionalFormatRuleBase {
+  type: 'formula';
+  formula: string;
+  style: ConditionalFormatStyle;
+}
+
+/**
+ * カラースケール（最小値・中間値（50%の位置）・最大値の色の間で背景色を補間する）
+ */
+export interface ColorScaleRule extends ConditionalFormatRuleBase {
+  type: 'colorScale';
+  minColor: string;
+  midColor?: string;
+  maxColor: string;
+}
+
+/**
+ * データバー（0と範囲の最小値・最大値を基準とした長さの棒を表示する）
+ */
+export interface DataBarRule extends ConditionalFormatRuleBase {
+  type: 'dataBar';
+  color: string;
+}
+
+/**
+ * アイコンセット（範囲の最小値から最大値までを3等分し、値の位置のアイコンを表示する）
+ */
+export interface IconSetRule extends ConditionalFormatRuleBase {
+  type: 'iconSet';
+  iconSet: ConditionalFormatIconSet;
+  reverse?: boolean;
+}
+
+export type ConditionalFormatRule =
+  | CellValueRule
+  | TextContainsRule
+  | TopBottomRule
+  | AverageRule
+  | DuplicateRule
+  | FormulaRule
+  | ColorScaleRule
+  | DataBarRule
+  | IconSetRule;
+
+export type ConditionalFormatRuleType = ConditionalFormatRule['type'];
+
+/**
+ * ルールの作成・更新で指定する内容（IDを除いたルール）
+ */
+export type ConditionalFormatRuleInput = ConditionalFormatRule extends infer R
+  ? R extends ConditionalFormatRule ? Omit<R, 'id'> : never
+  : never;
+
+/**
+ * 条件付き書式の適用範囲の1つの領域
+ */
+export interface ConditionalFormatArea {
+  start: CellPosition;
+  end: CellPosition;
+}
+
+/**
+ * アイコンセットのアイコン（値の小さい順）
+ */
+export const CONDITIONAL_FORMAT_ICON_SETS: Record<ConditionalFormatIconSet, { symbol: string; color: string }[]> = {
+  arrows: [
+    { symbol: '↓', color: '#dc2626' },
+    { symbol: '→', color: '#ca8a04' },
+    { symbol: '↑', color: '#16a34a' },
+  ],
+  trafficLights: [
+    { symbol: '●', color: '#dc2626' },
+    { symbol: '●', color: '#ca8a04' },
+    { symbol: '●', color: '#16a34a' },
+  ],
+  symbols: [
+    { symbol: '✖', color: '#dc2626' },
+    { symbol: '!', color: '#ca8a04' },
+    { symbol: '✔', color: '#16a34a' },
+  ],
+  flags: [
+    { symbol: '⚑', color: '#dc2626' },
+    { symbol: '⚑', color: '#ca8a04' },
+    { symbol: '⚑', color: '#16a34a' },
+  ],
+};
+
+/**
+ * 条件付き書式のルールを作成する関数
+ */
+export function createConditionalFormatRule(rule: ConditionalFormatRuleInput): ConditionalFormatRule {
+  return {
+    ...rule,
+    id: crypto.randomUUID(),
+    range: normalizeConditionalFormatRange(rule.range),
+  } as ConditionalFormatRule;
+}
+
+/**
+ * 適用範囲を正規化する（大文字にし、$記号と空白を除く）
+ */
+export function normalizeConditionalFormatRange(range: string): string {
+  return range
+    .split(',')
+    .map(area => area.trim().replace(/\$/g, '').toUpperCase())
+    .filter(area => area !== '')
+    .join(',');
+}
+
+/**
+ * 適用範囲の文字列を領域に変換する関数（無効な範囲の場合は例外を投げる）
+ */
+export function parseConditionalFormatRange(range: string): ConditionalFormatArea[] {
+  const areas = normalizeConditionalFormatRange(range).split(',').filter(area => area !== '');
+  if (areas.length === 0) {
+    throw new Error('適用先の範囲を入力してください');
+  }
+
+  return areas.map(area => {
+    if (area.includes('!')) {
+      throw new Error('適用先の範囲にシート名は指定できません');
+    }
+    try {
+      if (!area.includes(':')) {
+        const { position } = parseCellReference(area);
+        return { start: position, end: position };
+      }
+      const { start, end } = parseCellRange(area);
+      return {
+        start: { row: Math.min(start.row, end.row), column: Math.min(start.column, end.column) },
+        end: { row: Math.max(start.row, end.row), column: Math.max(start.column, end.column) },
+      };
+    } catch {
+      throw new Error(`適用先の範囲が正しくありません: ${area}`);
+    }
+  });
+}
+
+/**
+ * ルールを検証する関数
+ */
+export function validateConditionalFormatRule(rule: ConditionalFormatRuleInput): { success: boolean; error?: string } {
+  try {
+    parseConditionalFormatRange(rule.range);
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : '適用先の範囲が正しくありません' };
+  }
+
+  const formulaError = (formula: string) => {
+    const validation = validateFormula(formula);
+    return validation.isValid ? undefined : `数式が正しくありません: ${validation.errors[0]?.message ?? formula}`;
+  };
+
+  let error: string | undefined;
+  switch (rule.type) {
+    case 'cellValue': {
+      const values = rule.operator === 'between' || rule.operator === 'notBetween'
+        ? [rule.value1, rule.value2 ?? '']
+        : [rule.value1];
+      if (values.some(value => value.trim() === '')) {
+        error = '比較する値を入力してください';
+      } else {
+        error = values.filter(value => value.startsWith('=')).map(formulaError).find(Boolean);
+      }
+      break;
+    }
+    case 'textContains':
+      if (rule.text === '') error = '文字列を入力してください';
+      break;
+    case 'topBottom':
+      if (!Number.isInteger(rule.rank) || rule.rank < 1 || (rule.percent && rule.rank > 100)) {
+        error = rule.percent ? '順位は1〜100の整数で入力してください' : '順位は1以上の整数で入力してください';
+      }
+      break;
+    case 'formula':
+      error = rule.formula.startsWith('=') ? formulaError(rule.formula) : '数式は=で始めてください';
+      break;
+  }
+
+  return error ? { success: false, error } : { success: true };
+}
+
+/**
+ * ルールの数式（数式のルールと、=で始まる比較する値）を書き換える関数（変更がない場合は同じ配列を返す）
+ */
+export function rewriteConditionalFormatFormulas(
+  rules: ConditionalFormatRule[],
+  rewrite: (formula: string) => string
+): ConditionalFormatRule[] {
+  const rewriteValue = (value: string) => (value.startsWith('=') ? rewrite(value) : value);
+  let changed = false;
+
+  const rewritten = rules.map(rule => {
+    if (rule.type === 'formula') {
+      const formula = rewriteValue(rule.formula);
+      if (formula === rule.formula) return rule;
+      changed = true;
+      return { ...rule, formula };
+    }
+    if (rule.type === 'cellValue') {
+      const value1 = rewriteValue(rule.value1);
+      const value2 = rule.value2 !== undefined ? rewriteValue(rule.value2) : undefined;
+      if (value1 === rule.value1 && value2 === rule.value2) return rule;
+      changed = true;
+      return { ...rule, value1, value2 };
+    }
+    return rule;
+  });
+
+  return changed ? rewritten : rules;
+}
+
+/**
+ * 行・列の挿入・削除・移動に合わせてルールの適用範囲と数式を書き換える関数
+ * sheetNameはルールを設定したシート。削除された領域は適用範囲から除き、領域がなくなったルールは削除する
+ */
+export function adjustConditionalFormatsForGridChange(
+  rules: ConditionalFormatRule[],
+  change: GridChange,
+  sheetName: string
+): ConditionalFormatRule[] {
+  const adjusted = rules.flatMap(rule => {
+    const range = rule.range
+      .split(',')
+      .map(area => adjustReferencesForGridChange(`=${area}`, change, sheetName).slice(1))
+      .filter(area => !area.includes('#REF!'))
+      .join(',');
+    if (range === '') {
+      return [];
+    }
+    return [range !== rule.range ? { ...rule, range } : rule];
+  });
+
+  return rewriteConditionalFormatFormulas(adjusted, formula => adjustReferencesForGridChange(formula, change, sheetName));
+}
@@ -4,7 +4,7 @@
  */
 
 import { Spreadsheet, getCellFromSpreadsheet } from '../spreadsheet';
-import { CellPosition, Cell } from '../cell';
+import { CellPosition, Cell, calculateDisplayValue, getCellNumberFormatCode } from '../cell';
 import { CSVHandler, CSVExportOptions, CSVOperationResult, createCSVHandler } from './index';
 
 /**
@@ -541,6 +541,12 @@ export class CSVExporter {
     const useFormattedValue = formatOptions.includeFormattedValues;
     const baseValue = useFormattedValue ? cell.displayValue : cell.rawValue;
 
+    // 書式コードのあるセルの書式付きの値は、書式コードで表示した値にする（数式のセルは再計算で書式コードを適用済み）
+    if (useFormattedValue && formatOptions.numberFormat === 'formatted' && cell.dataType !== 'formula'
+      && getCellNumberFormatCode(cell.format) !== undefined) {
+      return calculateDisplayValue(cell);
+    }
+
     // データ型に応じた変換
     switch (cell.dataType) {
       case 'number':
@@ -0,0 +1,345 @@
+/**
+ * 日付シリアル値
+ * Excel互換の日付シリアル値（1900年・1904年システム）と日付文字列・表示形式の変換
+ */
+
+/**
+ * 日付システム
+ * 1900: 1900/1/1を1とする（Lotus 1-2-3との互換のため実在しない1900/2/29を60として数える）
+ * 1904: 1904/1/1を0とする
+ */
+export type DateSystem = '1900' | '1904';
+
+/**
+ * 日付・時刻の各要素
+ */
+export interface DateTimeParts {
+  year: number;
+  month: number;   // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * 日付文字列の解析結果（日付・時刻の一方のみの場合もある）
+ */
+export interface ParsedDateText {
+  date?: { year: number; month: number; day: number };
+  time?: { hour: number; minute: number; second: number };
+}
+
+export const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * シリアル値0にあたる日（1900年システムは1900年1月0日、1904年システムは1904年1月1日）
+ */
+const EPOCHS: Record<DateSystem, number> = {
+  '1900': Date.UTC(1899, 11, 31),
+  '1904': Date.UTC(1904, 0, 1),
+};
+
+/**
+ * 1900年システムで実在しない1900/2/29のシリアル値
+ */
+const PHANTOM_LEAP_DAY = 60;
+
+/**
+ * 日付システムごとのシリアル値の上限（9999/12/31）
+ */
+const MAX_SERIALS: Record<DateSystem, number> = {
+  '1900': 2958465,
+  '1904': 2957003,
+};
+
+/**
+ * 日付を表す文字列のパターン
+ */
+const YMD_PATTERN = /^(\d{4})([-/])(\d{1,2})\2(\d{1,2})$/;
+const MDY_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+const JAPANESE_DATE_PATTERN = /^(\d{4})年(\d{1,2})月(\d{1,2})日$/;
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?(?:\s*([AaPp][Mm]))?$/;
+
+/**
+ * 年月日のUTCの経過ミリ秒を求める（0〜99年も西暦として扱う）
+ */
+function utcTime(year: number, monthIndex: number, day: number): number {
+  const date = new Date(0);
+  date.setUTCFullYear(year, monthIndex, day);
+  return date.getTime();
+}
+
+/**
+ * 年月日をシリアル値に変換する（月・日が範囲外の場合は前後の月・年に繰り上げる）
+ * Excelと同じく月を繰り上げた月の1日から日数を数えるため、1900年システムでは1900/2/29も60になる
+ */
+export function dateToSerial(year: number, month: number, day: number, system: DateSystem = '1900'): number {
+  const months = year * 12 + (month - 1);
+  const normalizedYear = Math.floor(months / 12);
+  const firstDay = Math.round((utcTime(normalizedYear, months - normalizedYear * 12, 1) - EPOCHS[system]) / MILLISECONDS_PER_DAY);
+  // 1900年システムでは1900/3/1以降の日付が1日ずれる
+  const firstSerial = system === '1900' && firstDay >= PHANTOM_LEAP_DAY ? firstDay + 1 : firstDay;
+  return firstSerial + day - 1;
+}
+
+/**
+ * 時・分・秒を1日を1とする小数に変換する
+ */
+export function timeToSerial(hour: number, minute: number, second: number): number {
+  return (hour * 3600 + minute * 60 + second) / SECONDS_PER_DAY;
+}
+
+/**
+ * シリアル値を日付・時刻の各要素に変換する（時刻は秒単位に丸める）
+ */
+export function serialToDateParts(serial: number, system: DateSystem = '1900'): DateTimeParts {
+  let days = Math.floor(serial);
+  let seconds = Math.round((serial - days) * SECONDS_PER_DAY);
+  if (seconds >= SECONDS_PER_DAY) {
+    days += 1;
+    seconds -= SECONDS_PER_DAY;
+  }
+  const time = {
+    hour: Math.floor(seconds / 3600),
+    minute: Math.floor((seconds % 3600) / 60),
+    second: seconds % 60,
+  };
+
+  if (system === '1900' && days === PHANTOM_LEAP_DAY) {
+    return { year: 1900, month: 2, day: 29, ...time };
+  }
+  const offset = system === '1900' && days > PHANTOM_LEAP_DAY ? days - 1 : days;
+  const date = new Date(EPOCHS[system] + offset * MILLISECONDS_PER_DAY);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    ...time,
+  };
+}
+
+/**
+ * シリアル値が日付として有効な範囲（0〜9999/12/31）にあるかどうか
+ */
+export function isValidDateSerial(serial: number, system: DateSystem = '1900'): boolean {
+  return Number.isFinite(serial) && serial >= 0 && serial < MAX_SERIALS[system] + 1;
+}
+
+/**
+ * シリアル値の曜日を求める（0: 日曜日〜6: 土曜日）
+ * 1900年システムではExcelと同じく1900/1/1（シリアル値1）を日曜日とする
+ */
+export function getSerialWeekday(serial: number, system: DateSystem = '1900'): number {
+  const days = Math.floor(serial);
+  const offset = system === '1900' ? -1 : 5;
+  return (((days + offset) % 7) + 7) % 7;
+}
+
+/**
+ * JavaScriptのDate（ローカル時刻）をシリアル値に変換する
+ */
+export function dateObjectToSerial(date: Date, system: DateSystem = '1900'): number {
+  return dateToSerial(date.getFullYear(), date.getMonth() + 1, date.getDate(), system) +
+    timeToSerial(date.getHours(), date.getMinutes(), date.getSeconds() + date.getMilliseconds() / 1000);
+}
+
+/**
+ * シリアル値をJavaScriptのDate（ローカル時刻）に変換する
+ */
+export function serialToDateObject(serial: number, system: DateSystem = '1900'): Date {
+  const parts = serialToDateParts(serial, system);
+  return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+}
+
+/**
+ * 年月日が実在する日付かどうか（1900/2/29は1900年システムの互換のため有効とする）
+ */
+function isExistingDate(year: number, month: number, day: number): boolean {
+  if (year === 1900 && month === 2 && day === 29) return true;
+  const date = new Date(utcTime(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * 日付部分の文字列を解析する
+ */
+function parseDatePart(text: string): ParsedDateText['date'] | null {
+  const ymd = text.match(YMD_PATTERN) ?? text.match(JAPANESE_DATE_PATTERN);
+  const mdy = text.match(MDY_PATTERN);
+
+  let date: { year: number; month: number; day: number };
+  if (ymd) {
+    const [year, month, day] = ymd[0].includes('年')
+      ? [ymd[1], ymd[2], ymd[3]]
+      : [ymd[1], ymd[3], ymd[4]];
+    date = { year: parseInt(year, 10), month: parseInt(month, 10), day: parseInt(day, 10) };
+  } else if (mdy) {
+    date = { year: parseInt(mdy[3], 10), month: parseInt(mdy[1], 10), day: parseInt(mdy[2], 10) };
+  } else {
+    return null;
+  }
+
+  return isExistingDate(date.year, date.month, date.day) ? date : null;
+}
+
+/**
+ * 時刻部分の文字列を解析する（13:30、1:30 PM、9:05:30 など）
+ */
+function parseTimePart(text: string): ParsedDateText['time'] | null {
+  const match = text.match(TIME_PATTERN);
+  if (!match) return null;
+
+  let hour = parseInt(match[1], 10);
+  const minute = parseInt(match[2], 10);
+  const second = match[3] !== undefined ? parseFloat(match[3]) : 0;
+  const meridiem = match[4]?.toUpperCase();
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'PM' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59 || second >= 60) return null;
+  return { hour, minute, second };
+}
+
+/**
+ * 日付・時刻の文字列を解析する（日付として解釈できない場合はnull）
+ * YYYY-MM-DD、YYYY/M/D、M/D/YYYY、YYYY年M月D日 の日付と、それに続く時刻（空白またはTで区切る）、時刻のみに対応する
+ */
+export function parseDateText(text: string): ParsedDateText | null {
+  const trimmed = text.trim();
+  if (trimmed === '') return null;
+
+  const time = parseTimePart(trimmed);
+  if (time) return { time };
+
+  const separator = trimmed.search(/[\sT](?=\d{1,2}:)/);
+  const datePart = separator >= 0 ? trimmed.slice(0, separator) : trimmed;
+  const date = parseDatePart(datePart);
+  if (!date) return null;
+
+  if (separator < 0) return { date };
+  const timePart = parseTimePart(trimmed.slice(separator + 1).trim());
+  return timePart ? { date, time: timePart } : null;
+}
+
+/**
+ * 日付・時刻の形式の文字列かどうか（2024-02-30・25:00 のように実在しない日付・時刻でもtrue）
+ */
+export function isDateLikeText(text: string): boolean {
+  const trimmed = text.trim();
+  const separator = trimmed.search(/[\sT](?=\d{1,2}:)/);
+  const datePart = separator >= 0 ? trimmed.slice(0, separator) : trimmed;
+  return [YMD_PATTERN, MDY_PATTERN, JAPANESE_DATE_PATTERN, TIME_PATTERN].some(pattern => pattern.test(datePart));
+}
+
+/**
+ * 日付・時刻の文字列をシリアル値に変換する（解釈できない場合はnull）
+ */
+export function dateTextToSerial(text: string, system: DateSystem = '1900'): number | null {
+  const parsed = parseDateText(text);
+  if (!parsed) return null;
+
+  const date = parsed.date ? dateToSerial(parsed.date.year, parsed.date.month, parsed.date.day, system) : 0;
+  const time = parsed.time ? timeToSerial(parsed.time.hour, parsed.time.minute, parsed.time.second) : 0;
+  return date + time;
+}
+
+/**
+ * 日付の書式で使う曜日名・月名
+ */
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const JAPANESE_WEEKDAY_NAMES = ['日', '月', '火', '水', '木', '金', '土'];
+
+/**
+ * 日付・時刻の書式記号（長いものから順に照合する）
+ */
+const DATE_FORMAT_TOKEN_PATTERN = /"[^"]*"|\\.|\[h+\]|\[m+\]|\[s+\]|AM\/PM|A\/P|yyyy|yy|m{1,5}|d{1,4}|a{3,4}|h{1,2}|s{1,2}|\.0+|./gi;
+
+/**
+ * 書式が日付・時刻の書式記号を含むかどうか
+ */
+export function isDateFormatCode(code: string): boolean {
+  // 色・条件・通貨記号の角括弧（[Red]、[>=100]、[$¥-411]）は書式記号に含めない
+  const withoutLiterals = code.replace(/"[^"]*"|\\.|\[(?![hms]+\])[^\]]*\]/gi, '');
+  return /[ymdhs]|aaa|AM\/PM|A\/P|\[[hms]+\]/i.test(withoutLiterals);
+}
+
+/**
+ * シリアル値を日付・時刻の書式（yyyy/m/d h:mm など）で文字列に変換する
+ * 書式記号は大文字小文字を区別せず、mはhの直後またはsの直前の場合は分、それ以外は月として扱う
+ */
+export function formatDateSerial(serial: number, code: string, system: DateSystem = '1900'): string {
+  const tokens = code.match(DATE_FORMAT_TOKEN_PATTERN) ?? [];
+  const hasMeridiem = tokens.some(token => /^(AM\/PM|A\/P)$/i.test(token));
+  const parts = serialToDateParts(serial, system);
+  const weekday = getSerialWeekday(serial, system);
+  const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+
+  // 分のmを判定する
+  const isMinute = tokens.map((token, index) => {
+    if (!/^m{1,2}$/i.test(token)) return false;
+    const isDatePart = (t: string) => /^(h{1,2}|s{1,2}|yyyy|yy|d{1,4}|m+|\[h+\])$/i.test(t);
+    const previous = tokens.slice(0, index).reverse().find(isDatePart);
+    const next = tokens.slice(index + 1).find(isDatePart);
+    return (previous !== undefined && /^\[?h/i.test(previous)) || (next !== undefined && /^s/i.test(next));
+  });
+
+  return tokens.map((token, index) => {
+    if (isMinute[index]) return token.length === 2 ? pad(parts.minute) : parts.minute.toString();
+    if (token.startsWith('"')) return token.slice(1, -1);
+    if (token.startsWith('\\')) return token.slice(1);
+
+    switch (token.toLowerCase()) {
+      case 'yyyy': return pad(parts.year, 4);
+      case 'yy': return pad(parts.year % 100);
+      case 'mmmmm': return MONTH_NAMES[parts.month - 1][0];
+      case 'mmmm': return MONTH_NAMES[parts.month - 1];
+      case 'mmm': return MONTH_NAMES[parts.month - 1].slice(0, 3);
+      case 'mm': return pad(parts.month);
+      case 'm': return parts.month.toString();
+      case 'dddd': return WEEKDAY_NAMES[weekday];
+      case 'ddd': return WEEKDAY_NAMES[weekday].slice(0, 3);
+      case 'dd': return pad(parts.day);
+      case 'd': return parts.day.toString();
+      case 'aaaa': return `${JAPANESE_WEEKDAY_NAMES[weekday]}曜日`;
+      case 'aaa': return JAPANESE_WEEKDAY_NAMES[weekday];
+      case 'hh':
+      case 'h': {
+        const hour = hasMeridiem ? (parts.hour % 12 || 12) : parts.hour;
+        return token.length === 2 ? pad(hour) : hour.toString();
+      }
+      case 'ss': return pad(parts.second);
+      case 's': return parts.second.toString();
+      case 'am/pm': return parts.hour < 12 ? 'AM' : 'PM';
+      case 'a/p': return parts.hour < 12 ? 'A' : 'P';
+    }
+
+    // 経過時間（[h]:mm など）
+    if (/^\[h+\]$/i.test(token)) return Math.floor(serial * 24).toString();
+    if (/^\[m+\]$/i.test(token)) return Math.floor(serial * 24 * 60).toString();
+    if (/^\[s+\]$/i.test(token)) return Math.round(serial * SECONDS_PER_DAY).toString();
+    // 秒の小数部（ss.00）
+    if (/^\.0+$/.test(token)) {
+      const fraction = serial * SECONDS_PER_DAY - Math.floor(serial * SECONDS_PER_DAY);
+      return fraction.toFixed(token.length - 1).slice(1);
+    }
+    return token;
+  }).join('');
+}
+
+/**
+ * シリアル値をセルに入力する形式の文字列（2024-03-01、2024-03-01 09:30:00、9:30:00）に変換する
+ * determineCellDataTypeで日付として判定され、同じシリアル値に戻る
+ */
+export function serialToDateText(serial: number, system: DateSystem = '1900'): string {
+  const parts = serialToDateParts(serial, system);
+  const hasTime = parts.hour !== 0 || parts.minute !== 0 || parts.second !== 0;
+  if (Math.floor(serial) === 0 && hasTime) {
+    return formatDateSerial(serial, 'h:mm:ss', system);
+  }
+  return formatDateSerial(serial, hasTime ? 'yyyy-mm-dd hh:mm:ss' : 'yyyy-mm-dd', system);
+}
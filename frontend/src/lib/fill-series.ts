@@ -0,0 +1,407 @@
+/**
+ * 連続データ（フィル）モデル
+ * オートフィルの元になる値から連続データの種類と増分を判定し、続きの値を生成する
+ */
+
+import { CellPosition } from './cell';
+import { SelectionBounds } from './selection';
+
+export type FillSeriesType =
+  | 'linear'       // 等差（2つ以上の値は最小二乗法による近似）
+  | 'growth'       // 等比
+  | 'date'         // 日付（日・月・年単位）
+  | 'weekday'      // 曜日名
+  | 'month'        // 月名
+  | 'text-number'  // 末尾に数値を含む文字列（Item 1、第1四半期 など）
+  | 'copy';        // 元の値の繰り返し
+
+export type DateUnit = 'day' | 'month' | 'year';
+
+export type FillDirection = 'down' | 'up' | 'right' | 'left';
+
+export interface FillSeries {
+  type: FillSeriesType;
+  values: string[];
+  start: number;         // 数値・日付のシリアル値・名前リスト内の位置
+  step: number;          // 増分（等比の場合は公比）
+  dateUnit?: DateUnit;
+  dateFormat?: DateFormat;
+  names?: string[];      // 曜日名・月名のリスト
+  letterCase?: LetterCase;
+  prefix?: string;
+  suffix?: string;
+  digits?: number;       // 0埋めの桁数
+}
+
+type LetterCase = 'upper' | 'lower' | 'capitalized';
+
+interface DateFormat {
+  order: 'ymd' | 'mdy';
+  separator: '-' | '/';
+  padded: boolean;
+}
+
+interface SimpleDate {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+}
+
+/**
+ * 数値として扱う文字列のパターン
+ */
+const NUMBER_PATTERN = /^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$/i;
+
+/**
+ * 日付として扱う文字列のパターン（determineCellDataTypeと同じ形式）
+ */
+const YMD_DATE_PATTERN = /^(\d{4})([-/])(\d{1,2})\2(\d{1,2})$/;
+const MDY_DATE_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/;
+
+/**
+ * 末尾に数値を含む文字列のパターン
+ */
+const TEXT_NUMBER_PATTERN = /^(.*?)(\d+)(\D*)$/;
+
+/**
+ * 曜日名・月名のリスト（日曜日・1月始まり）
+ */
+const NAME_LISTS: { type: 'weekday' | 'month'; names: string[] }[] = [
+  { type: 'weekday', names: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] },
+  { type: 'weekday', names: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'] },
+  { type: 'weekday', names: ['日曜日', '月曜日', '火曜日', '水曜日', '木曜日', '金曜日', '土曜日'] },
+  { type: 'weekday', names: ['日', '月', '火', '水', '木', '金', '土'] },
+  {
+    type: 'month',
+    names: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December']
+  },
+  { type: 'month', names: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'] },
+  { type: 'month', names: ['1月', '2月', '3月', '4月', '5月', '6月', '7月', '8月', '9月', '10月', '11月', '12月'] },
+  { type: 'month', names: ['睦月', '如月', '弥生', '卯月', '皐月', '水無月', '文月', '葉月', '長月', '神無月', '霜月', '師走'] },
+];
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * 浮動小数点の誤差を丸める
+ */
+function roundNumber(value: number): number {
+  return parseFloat(value.toPrecision(15));
+}
+
+/**
+ * 正の剰余を求める
+ */
+function modulo(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+/**
+ * すべての差が等しければその差を返す（等しくない場合はnull）
+ */
+function getConstantDifference(numbers: number[]): number | null {
+  const step = roundNumber(numbers[1] - numbers[0]);
+  for (let i = 2; i < numbers.length; i++) {
+    if (roundNumber(numbers[i] - numbers[i - 1]) !== step) {
+      return null;
+    }
+  }
+  return step;
+}
+
+/**
+ * 日付文字列を解析する（日付でない場合はnull）
+ */
+function parseDate(value: string): { date: SimpleDate; format: DateFormat } | null {
+  let date: SimpleDate;
+  let format: DateFormat;
+
+  const ymd = value.match(YMD_DATE_PATTERN);
+  const mdy = value.match(MDY_DATE_PATTERN);
+  if (ymd) {
+    date = { year: parseInt(ymd[1], 10), month: parseInt(ymd[3], 10), day: parseInt(ymd[4], 10) };
+    format = { order: 'ymd', separator: ymd[2] as DateFormat['separator'], padded: ymd[3].length === 2 && ymd[4].length === 2 };
+  } else if (mdy) {
+    date = { year: parseInt(mdy[3], 10), month: parseInt(mdy[1], 10), day: parseInt(mdy[2], 10) };
+    format = { order: 'mdy', separator: '/', padded: mdy[1].length === 2 && mdy[2].length === 2 };
+  } else {
+    return null;
+  }
+
+  const utc = new Date(Date.UTC(date.year, date.month - 1, date.day));
+  if (utc.getUTCMonth() !== date.month - 1 || utc.getUTCDate() !== date.day) {
+    return null;
+  }
+  return { date, format };
+}
+
+/**
+ * 日付を1970-01-01からの日数に変換する
+ */
+function dateToDays(date: SimpleDate): number {
+  return Date.UTC(date.year, date.month - 1, date.day) / MILLISECONDS_PER_DAY;
+}
+
+/**
+ * 日数を日付に変換する
+ */
+function daysToDate(days: number): SimpleDate {
+  const utc = new Date(days * MILLISECONDS_PER_DAY);
+  return { year: utc.getUTCFullYear(), month: utc.getUTCMonth() + 1, day: utc.getUTCDate() };
+}
+
+/**
+ * 日付に月数を加える（月末を超える日は月末に丸める）
+ */
+function addMonths(date: SimpleDate, months: number): SimpleDate {
+  const totalMonths = date.year * 12 + (date.month - 1) + months;
+  const year = Math.floor(totalMonths / 12);
+  const month = modulo(totalMonths, 12) + 1;
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { year, month, day: Math.min(date.day, lastDay) };
+}
+
+/**
+ * 日付を元の形式の文字列に変換する
+ */
+function formatDate(date: SimpleDate, format: DateFormat): string {
+  const pad = (value: number) => (format.padded ? value.toString().padStart(2, '0') : value.toString());
+  return format.order === 'ymd'
+    ? `${date.year}${format.separator}${pad(date.month)}${format.separator}${pad(date.day)}`
+    : `${pad(date.month)}/${pad(date.day)}/${date.year}`;
+}
+
+/**
+ * 日付の連続データの増分と単位を判定する
+ * 日が揃っていて月の差が一定なら月単位（12の倍数なら年単位）、それ以外は日単位とする
+ */
+function detectDateStep(dates: SimpleDate[]): { step: number; unit: DateUnit } | null {
+  if (dates.length === 1) {
+    return { step: 1, unit: 'day' };
+  }
+
+  if (dates.every(date => date.day === dates[0].day)) {
+    const months = getConstantDifference(dates.map(date => date.year * 12 + date.month));
+    if (months !== null && months !== 0) {
+      return months % 12 === 0 ? { step: months / 12, unit: 'year' } : { step: months, unit: 'month' };
+    }
+  }
+
+  const days = getConstantDifference(dates.map(dateToDays));
+  return days !== null ? { step: days, unit: 'day' } : null;
+}
+
+/**
+ * 文字列の大文字・小文字の使い方を判定する
+ */
+function detectLetterCase(value: string): LetterCase {
+  if (value === value.toUpperCase() && value !== value.toLowerCase()) return 'upper';
+  if (value === value.toLowerCase() && value !== value.toUpperCase()) return 'lower';
+  return 'capitalized';
+}
+
+/**
+ * 大文字・小文字の使い方を名前に適用する
+ */
+function applyLetterCase(value: string, letterCase: LetterCase | undefined): string {
+  switch (letterCase) {
+    case 'upper':
+      return value.toUpperCase();
+    case 'lower':
+      return value.toLowerCase();
+    default:
+      return value;
+  }
+}
+
+/**
+ * 名前リスト内の位置の差から増分を求める（一定でない場合はnull）
+ */
+function detectNameStep(indexes: number[], length: number): number | null {
+  if (indexes.length === 1) {
+    return 1;
+  }
+
+  const step = modulo(indexes[1] - indexes[0], length);
+  for (let i = 2; i < indexes.length; i++) {
+    if (modulo(indexes[i] - indexes[i - 1], length) !== step) {
+      return null;
+    }
+  }
+  return step;
+}
+
+/**
+ * 曜日名・月名の連続データを判定する
+ */
+function detectNameSeries(values: string[]): FillSeries | null {
+  for (const list of NAME_LISTS) {
+    const lowerNames = list.names.map(name => name.toLowerCase());
+    const indexes = values.map(value => lowerNames.indexOf(value.trim().toLowerCase()));
+    if (indexes.some(index => index < 0)) continue;
+
+    const step = detectNameStep(indexes, list.names.length);
+    if (step === null) return null;
+
+    return {
+      type: list.type,
+      values,
+      start: indexes[0],
+      step,
+      names: list.names,
+      letterCase: detectLetterCase(values[values.length - 1])
+    };
+  }
+  return null;
+}
+
+/**
+ * 末尾に数値を含む文字列の連続データを判定する
+ */
+function detectTextNumberSeries(values: string[]): FillSeries | null {
+  const matches = values.map(value => value.match(TEXT_NUMBER_PATTERN));
+  if (matches.some(match => !match)) return null;
+
+  const [, prefix, , suffix] = matches[0]!;
+  if (matches.some(match => match![1] !== prefix || match![3] !== suffix)) return null;
+
+  const numbers = matches.map(match => parseInt(match![2], 10));
+  const step = numbers.length === 1 ? 1 : getConstantDifference(numbers);
+  if (step === null) return null;
+
+  const digits = matches[0]![2].startsWith('0') ? matches[0]![2].length : 1;
+  return { type: 'text-number', values, start: numbers[0], step, prefix, suffix, digits };
+}
+
+/**
+ * 数値の連続データを判定する
+ * 差が一定なら等差、比が一定なら等比、どちらでもなければ最小二乗法で求めた直線の傾きを増分とする
+ */
+function detectNumberSeries(values: string[], numbers: number[]): FillSeries {
+  if (numbers.length === 1) {
+    return { type: 'linear', values, start: numbers[0], step: 1 };
+  }
+
+  const step = getConstantDifference(numbers);
+  if (step !== null) {
+    return { type: 'linear', values, start: numbers[0], step };
+  }
+
+  if (numbers.every(value => value !== 0)) {
+    const ratio = roundNumber(numbers[1] / numbers[0]);
+    if (numbers.every((value, i) => i === 0 || roundNumber(value / numbers[i - 1]) === ratio)) {
+      return { type: 'growth', values, start: numbers[0], step: ratio };
+    }
+  }
+
+  const count = numbers.length;
+  const meanX = (count - 1) / 2;
+  const meanY = numbers.reduce((sum, value) => sum + value, 0) / count;
+  let numerator = 0;
+  let denominator = 0;
+  numbers.forEach((value, i) => {
+    numerator += (i - meanX) * (value - meanY);
+    denominator += (i - meanX) ** 2;
+  });
+  const slope = numerator / denominator;
+  return { type: 'linear', values, start: meanY - slope * meanX, step: slope };
+}
+
+/**
+ * 元の値から連続データの種類と増分を判定する
+ * 元の値は1行または1列分の値を並び順に渡す。数式や空白を含む場合、判定できない場合は繰り返し（copy）になる
+ */
+export function detectFillSeries(values: string[]): FillSeries {
+  const copy: FillSeries = { type: 'copy', values, start: 0, step: 0 };
+  if (values.length === 0 || values.some(value => value.trim() === '' || value.startsWith('='))) {
+    return copy;
+  }
+
+  if (values.every(value => NUMBER_PATTERN.test(value.trim()))) {
+    return detectNumberSeries(values, values.map(value => parseFloat(value)));
+  }
+
+  const dates = values.map(value => parseDate(value.trim()));
+  if (dates.every(date => date !== null)) {
+    const dateStep = detectDateStep(dates.map(date => date!.date));
+    if (!dateStep) return copy;
+
+    return {
+      type: 'date',
+      values,
+      start: dateToDays(dates[0]!.date),
+      step: dateStep.step,
+      dateUnit: dateStep.unit,
+      dateFormat: dates[dates.length - 1]!.format
+    };
+  }
+
+  return detectNameSeries(values) ?? detectTextNumberSeries(values) ?? copy;
+}
+
+/**
+ * 連続データのindex番目の値を求める
+ * indexは元の値の先頭を0とする位置（元の値の後ろは元の値の数以上、前は負の値）
+ */
+export function getFillSeriesValue(series: FillSeries, index: number): string {
+  switch (series.type) {
+    case 'linear':
+      return roundNumber(series.start + series.step * index).toString();
+
+    case 'growth':
+      return roundNumber(series.start * series.step ** index).toString();
+
+    case 'date': {
+      const start = daysToDate(series.start);
+      const date = series.dateUnit === 'day'
+        ? daysToDate(series.start + series.step * index)
+        : addMonths(start, series.step * index * (series.dateUnit === 'year' ? 12 : 1));
+      return formatDate(date, series.dateFormat!);
+    }
+
+    case 'weekday':
+    case 'month': {
+      const names = series.names!;
+      const name = names[modulo(series.start + series.step * index, names.length)];
+      return applyLetterCase(name, series.letterCase);
+    }
+
+    case 'text-number': {
+      const number = Math.abs(series.start + series.step * index);
+      return `${series.prefix}${number.toString().padStart(series.digits ?? 1, '0')}${series.suffix}`;
+    }
+
+    case 'copy':
+      return series.values[modulo(index, series.values.length)];
+  }
+}
+
+/**
+ * フィルハンドルのドラッグ位置からオートフィルの範囲を求める
+ * 元の範囲から行方向・列方向のうち大きくはみ出した方向にのみ広げる（範囲内の場合はnull）
+ */
+export function getAutoFillBounds(
+  source: SelectionBounds,
+  position: CellPosition
+): { bounds: SelectionBounds; direction: FillDirection } | null {
+  const rowDistance = position.row > source.maxRow
+    ? position.row - source.maxRow
+    : position.row < source.minRow ? source.minRow - position.row : 0;
+  const columnDistance = position.column > source.maxColumn
+    ? position.column - source.maxColumn
+    : position.column < source.minColumn ? source.minColumn - position.column : 0;
+
+  if (rowDistance === 0 && columnDistance === 0) {
+    return null;
+  }
+
+  if (rowDistance >= columnDistance) {
+    return position.row > source.maxRow
+      ? { bounds: { ...source, maxRow: position.row }, direction: 'down' }
+      : { bounds: { ...source, minRow: position.row }, direction: 'up' };
+  }
+
+  return position.column > source.maxColumn
+    ? { bounds: { ...source, maxColumn: position.column }, direction: 'right' }
+    : { bounds: { ...source, minColumn: position.column }, direction: 'left' };
+}
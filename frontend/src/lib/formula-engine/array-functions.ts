@@ -0,0 +1,310 @@
+/**
+ * Array Functions Library
+ * 配列を返す動的配列関数（SEQUENCE・FILTER・SORT・SORTBY・UNIQUE・TRANSPOSE・RANDARRAY）を提供するライブラリ
+ * 結果は数式のセルを左上として隣接するセルに展開（スピル）される
+ */
+
+import {
+  FormulaArray,
+  FormulaEvaluationError,
+  FormulaFunctionLibrary,
+  FormulaScalar,
+  FormulaValue,
+  compareFormulaValues,
+  isFormulaErrorValue,
+  toBoolean,
+  toNumber
+} from './evaluator';
+
+/**
+ * 1つの配列関数の結果に含められる最大のセル数
+ */
+const MAX_ARRAY_CELLS = 1048576;
+
+/**
+ * 値を2次元配列として扱う
+ */
+function toArray(value: FormulaValue): FormulaArray {
+  return Array.isArray(value) ? value : [[value]];
+}
+
+/**
+ * 省略された引数かどうか（省略時と空の引数はどちらも既定値を使う）
+ */
+function isOmitted(value: FormulaValue | undefined): value is undefined | null {
+  return value === undefined || value === null;
+}
+
+/**
+ * 省略可能な引数を整数に変換する（省略・空の場合は既定値）
+ */
+function toOptionalInteger(value: FormulaValue | undefined, defaultValue: number): number {
+  return isOmitted(value) ? defaultValue : Math.trunc(toNumber(value));
+}
+
+/**
+ * 結果の配列の大きさを確認する（0行・0列は#CALC!、負の数は#VALUE!）
+ */
+function checkArraySize(rows: number, columns: number): void {
+  if (rows < 0 || columns < 0) {
+    throw new FormulaEvaluationError('#VALUE!', '行数・列数に負の数は指定できません');
+  }
+  if (rows === 0 || columns === 0) {
+    throw new FormulaEvaluationError('#CALC!', '空の配列は返せません');
+  }
+  if (rows * columns > MAX_ARRAY_CELLS) {
+    throw new FormulaEvaluationError('#NUM!', `配列のセル数が${MAX_ARRAY_CELLS}を超えています`);
+  }
+}
+
+/**
+ * 配列の行と列を入れ替える
+ */
+export function transposeArray(array: FormulaArray): FormulaArray {
+  return array[0].map((_, column) => array.map(row => row[column]));
+}
+
+/**
+ * 1行または1列の配列を1次元に変換する（2次元の場合は#VALUE!）
+ */
+function toVector(value: FormulaValue): { values: FormulaScalar[]; isRow: boolean } {
+  const array = toArray(value);
+  if (array.length === 1) {
+    return { values: array[0], isRow: array[0].length > 1 };
+  }
+  if (array.every(row => row.length === 1)) {
+    return { values: array.map(row => row[0]), isRow: false };
+  }
+  throw new FormulaEvaluationError('#VALUE!', '1行または1列の配列を指定してください');
+}
+
+/**
+ * 並べ替えの順序の引数を変換する（1: 昇順、-1: 降順）
+ */
+function toSortOrder(value: FormulaValue | undefined): 1 | -1 {
+  const order = toOptionalInteger(value, 1);
+  if (order !== 1 && order !== -1) {
+    throw new FormulaEvaluationError('#VALUE!', '並べ替えの順序は1（昇順）または-1（降順）を指定してください');
+  }
+  return order;
+}
+
+/**
+ * 並べ替えのキーを比較する
+ * 空白とエラー値は順序にかかわらず末尾（値、エラー値、空白の順）に並べる
+ */
+function compareSortKeys(a: FormulaScalar, b: FormulaScalar, order: 1 | -1): number {
+  const rank = (value: FormulaScalar) => value === null ? 2 : isFormulaErrorValue(value) ? 1 : 0;
+  const rankDifference = rank(a) - rank(b);
+  if (rankDifference !== 0 || rank(a) !== 0) return rankDifference;
+  return compareFormulaValues(a, b) * order;
+}
+
+/**
+ * 行を並べ替える（キーが等しい行は元の順序を保つ）
+ */
+function sortRows(rows: FormulaScalar[][], keys: Array<{ values: FormulaScalar[]; order: 1 | -1 }>): FormulaScalar[][] {
+  const indexes = rows.map((_, index) => index);
+  indexes.sort((a, b) => {
+    for (const key of keys) {
+      const difference = compareSortKeys(key.values[a], key.values[b], key.order);
+      if (difference !== 0) return difference;
+    }
+    return a - b;
+  });
+  return indexes.map(index => rows[index]);
+}
+
+/**
+ * 重複の判定に使う値のキー（文字列は大文字小文字を区別しない）
+ */
+function toUniqueKey(values: FormulaScalar[]): string {
+  return JSON.stringify(values.map(value => {
+    if (value === null) return ['empty'];
+    if (isFormulaErrorValue(value)) return ['error', value.code];
+    return [typeof value, typeof value === 'string' ? value.toLowerCase() : value];
+  }));
+}
+
+/**
+ * FILTERの条件の値を論理値に変換する（空白はFALSE、エラー値はそのエラーを投げる）
+ */
+function toIncludeFlag(value: FormulaScalar): boolean {
+  if (isFormulaErrorValue(value)) throw new FormulaEvaluationError(value.code, value.message);
+  if (typeof value === 'string') {
+    throw new FormulaEvaluationError('#VALUE!', `条件を論理値に変換できません: ${value}`);
+  }
+  return toBoolean(value);
+}
+
+/**
+ * 配列関数
+ * 範囲の引数は単一セルでも2次元配列で受け取る
+ */
+export const ARRAY_FUNCTIONS: FormulaFunctionLibrary = {
+  SEQUENCE: {
+    implementation: (
+      rowsValue: FormulaValue,
+      columnsValue?: FormulaValue,
+      startValue?: FormulaValue,
+      stepValue?: FormulaValue
+    ): FormulaArray => {
+      const rows = toOptionalInteger(rowsValue, 1);
+      const columns = toOptionalInteger(columnsValue, 1);
+      checkArraySize(rows, columns);
+      const start = isOmitted(startValue) ? 1 : toNumber(startValue);
+      const step = isOmitted(stepValue) ? 1 : toNumber(stepValue);
+      return Array.from({ length: rows }, (_, row) =>
+        Array.from({ length: columns }, (_, column) => start + (row * columns + column) * step));
+    },
+    options: {}
+  },
+
+  FILTER: {
+    implementation: (source: FormulaValue, include: FormulaValue, ifEmpty?: FormulaValue): FormulaValue => {
+      const array = toArray(source);
+      const conditions = toArray(include);
+
+      let filtered: FormulaArray;
+      if (conditions.every(row => row.length === 1) && conditions.length === array.length) {
+        filtered = array.filter((_, row) => toIncludeFlag(conditions[row][0]));
+      } else if (conditions.length === 1 && conditions[0].length === array[0].length) {
+        const columns = conditions[0].map(toIncludeFlag);
+        filtered = array.map(row => row.filter((_, column) => columns[column]));
+      } else {
+        throw new FormulaEvaluationError('#VALUE!', '条件の配列の大きさが元の配列と一致しません');
+      }
+
+      if (filtered.length === 0 || filtered[0].length === 0) {
+        if (ifEmpty !== undefined) return ifEmpty;
+        throw new FormulaEvaluationError('#CALC!', '条件に一致するデータがありません');
+      }
+      return filtered;
+    },
+    options: { referencesAsArrays: true }
+  },
+
+  SORT: {
+    implementation: (
+      source: FormulaValue,
+      sortIndex?: FormulaValue,
+      sortOrder?: FormulaValue,
+      byColumn?: FormulaValue
+    ): FormulaArray => {
+      const columnWise = !isOmitted(byColumn) && toBoolean(byColumn);
+      const rows = columnWise ? transposeArray(toArray(source)) : toArray(source);
+
+      // 並べ替えの基準は配列で複数指定でき、順序が1つの場合はすべての基準に使う
+      const indexes = isOmitted(sortIndex) ? [1] : toVector(sortIndex).values.map(value => Math.trunc(toNumber(value)));
+      const orders = isOmitted(sortOrder) ? [1 as const] : toVector(sortOrder).values.map(toSortOrder);
+      if (orders.length !== 1 && orders.length !== indexes.length) {
+        throw new FormulaEvaluationError('#VALUE!', '並べ替えの基準と順序の数が一致しません');
+      }
+
+      const keys = indexes.map((index, i) => {
+        if (index < 1 || index > rows[0].length) {
+          throw new FormulaEvaluationError('#VALUE!', '並べ替えの基準が配列の範囲外です');
+        }
+        return { values: rows.map(row => row[index - 1]), order: orders.length === 1 ? orders[0] : orders[i] };
+      });
+
+      const sorted = sortRows(rows, keys);
+      return columnWise ? transposeArray(sorted) : sorted;
+    },
+    options: { referencesAsArrays: true }
+  },
+
+  SORTBY: {
+    implementation: (source: FormulaValue, ...criteria: FormulaValue[]): FormulaArray => {
+      if (criteria.length === 0) {
+        throw new FormulaEvaluationError('#VALUE!', '並べ替えの基準となる配列を指定してください');
+      }
+      const array = toArray(source);
+
+      // 基準の配列と順序の組（最後の順序は省略できる）
+      const vectors: Array<{ values: FormulaScalar[]; isRow: boolean; order: 1 | -1 }> = [];
+      for (let i = 0; i < criteria.length; i += 2) {
+        vectors.push({ ...toVector(criteria[i]), order: toSortOrder(criteria[i + 1]) });
+      }
+
+      // 基準の配列が1行の場合は列を並べ替える
+      const columnWise = vectors[0].isRow;
+      const rows = columnWise ? transposeArray(array) : array;
+      if (vectors.some(vector => vector.isRow !== columnWise || vector.values.length !== rows.length)) {
+        throw new FormulaEvaluationError('#VALUE!', '並べ替えの基準となる配列の大きさが元の配列と一致しません');
+      }
+
+      const sorted = sortRows(rows, vectors);
+      return columnWise ? transposeArray(sorted) : sorted;
+    },
+    options: { referencesAsArrays: true }
+  },
+
+  UNIQUE: {
+    implementation: (source: FormulaValue, byColumn?: FormulaValue, exactlyOnce?: FormulaValue): FormulaArray => {
+      const columnWise = !isOmitted(byColumn) && toBoolean(byColumn);
+      const onlyOnce = !isOmitted(exactlyOnce) && toBoolean(exactlyOnce);
+      const rows = columnWise ? transposeArray(toArray(source)) : toArray(source);
+
+      const counts = new Map<string, number>();
+      const keys = rows.map(row => {
+        const key = toUniqueKey(row);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+        return key;
+      });
+
+      const seen = new Set<string>();
+      const unique = rows.filter((_, index) => {
+        const key = keys[index];
+        if (seen.has(key) || (onlyOnce && counts.get(key)! > 1)) return false;
+        seen.add(key);
+        return true;
+      });
+
+      if (unique.length === 0) {
+        throw new FormulaEvaluationError('#CALC!', '1回だけ出現する値がありません');
+      }
+      return columnWise ? transposeArray(unique) : unique;
+    },
+    options: { referencesAsArrays: true }
+  },
+
+  TRANSPOSE: {
+    implementation: (source: FormulaValue): FormulaArray => transposeArray(toArray(source)),
+    options: { referencesAsArrays: true }
+  },
+};
+
+/**
+ * 再計算のたびに結果が変わる配列関数（揮発性関数を有効にした場合のみ登録する）
+ */
+export const VOLATILE_ARRAY_FUNCTIONS: FormulaFunctionLibrary = {
+  RANDARRAY: {
+    implementation: (
+      rowsValue?: FormulaValue,
+      columnsValue?: FormulaValue,
+      minValue?: FormulaValue,
+      maxValue?: FormulaValue,
+      wholeNumber?: FormulaValue
+    ): FormulaArray => {
+      const rows = toOptionalInteger(rowsValue, 1);
+      const columns = toOptionalInteger(columnsValue, 1);
+      checkArraySize(rows, columns);
+      const min = isOmitted(minValue) ? 0 : toNumber(minValue);
+      const max = isOmitted(maxValue) ? 1 : toNumber(maxValue);
+      const integer = !isOmitted(wholeNumber) && toBoolean(wholeNumber);
+      if (min > max) {
+        throw new FormulaEvaluationError('#VALUE!', '最小値が最大値を超えています');
+      }
+      if (integer && (!Number.isInteger(min) || !Number.isInteger(max))) {
+        throw new FormulaEvaluationError('#VALUE!', '整数を返す場合は最小値・最大値に整数を指定してください');
+      }
+
+      const random = integer
+        ? () => Math.floor(Math.random() * (max - min + 1)) + min
+        : () => Math.random() * (max - min) + min;
+      return Array.from({ length: rows }, () => Array.from({ length: columns }, random));
+    },
+    options: {}
+  },
+};
@@ -0,0 +1,133 @@
+/**
+ * Formula Auditing Library
+ * 数式の検証（参照元・参照先のトレース、依存関係の連鎖、数式の評価の手順）を提供するライブラリ
+ * 依存関係はワークブック全体の依存関係グラフ（DependencyManager）から求める
+ */
+
+import { CellPosition, SheetCellPosition } from '../cell';
+import { Workbook, getActiveSheet } from '../workbook';
+import { DependencyAnalysis, DependencyManager, sheetCellPositionToKey } from './dependencies';
+
+/**
+ * トレースの方向（参照元: セルが参照するセル、参照先: セルを参照するセル）
+ */
+export type TraceDirection = 'precedents' | 'dependents';
+
+/**
+ * トレース矢印（参照されるセルから参照するセルへの矢印）
+ */
+export interface TraceArrow {
+  from: SheetCellPosition;
+  to: SheetCellPosition;
+  level: number;  // トレースしたセルからの段階（1から）
+}
+
+/**
+ * 依存関係の連鎖の項目
+ */
+export interface DependencyChainEntry {
+  position: SheetCellPosition;
+  depth: number;  // 起点のセルからの段階（1から）
+}
+
+/**
+ * ワークブックの依存関係
+ */
+export interface WorkbookDependencies {
+  manager: DependencyManager;
+  analysis: DependencyAnalysis;
+}
+
+/**
+ * ワークブック全体の依存関係グラフを作成し、依存関係を分析する
+ */
+export function analyzeWorkbookDependencies(workbook: Workbook): WorkbookDependencies {
+  const manager = new DependencyManager(getActiveSheet(workbook), workbook);
+  return { manager, analysis: manager.analyzeDependencies() };
+}
+
+/**
+ * 直接の参照元・参照先のセルを取得する
+ */
+function getAdjacentCells(manager: DependencyManager, position: SheetCellPosition, direction: TraceDirection): SheetCellPosition[] {
+  return direction === 'precedents' ? manager.getCellDependencies(position) : manager.getCellDependents(position);
+}
+
+/**
+ * 起点のセルから段階ごとに参照元・参照先のセルをたどる（同じセルは最初にたどった段階だけに含める）
+ */
+function traverseLevels(
+  manager: DependencyManager,
+  position: SheetCellPosition,
+  direction: TraceDirection,
+  maxDepth: number,
+  visit: (source: SheetCellPosition, target: SheetCellPosition, depth: number, isFirstVisit: boolean) => void
+): void {
+  const visited = new Set([sheetCellPositionToKey(position)]);
+  let current = [position];
+
+  for (let depth = 1; depth <= maxDepth && current.length > 0; depth++) {
+    const next: SheetCellPosition[] = [];
+    for (const source of current) {
+      for (const target of getAdjacentCells(manager, source, direction)) {
+        const key = sheetCellPositionToKey(target);
+        const isFirstVisit = !visited.has(key);
+        visit(source, target, depth, isFirstVisit);
+        if (isFirstVisit) {
+          visited.add(key);
+          next.push(target);
+        }
+      }
+    }
+    current = next;
+  }
+}
+
+/**
+ * セルの参照元・参照先をlevels段階までトレースし、矢印の一覧を返す
+ * 矢印は参照されるセルから参照するセルに向ける（参照元のトレースでは参照元から起点のセルへ）
+ */
+export function traceCellReferences(
+  manager: DependencyManager,
+  position: SheetCellPosition,
+  direction: TraceDirection,
+  levels: number
+): TraceArrow[] {
+  const arrows: TraceArrow[] = [];
+  traverseLevels(manager, position, direction, levels, (source, target, level) => {
+    arrows.push(direction === 'precedents' ? { from: target, to: source, level } : { from: source, to: target, level });
+  });
+  return arrows;
+}
+
+/**
+ * セルの参照元・参照先の連鎖を、起点に近い順に返す
+ */
+export function getDependencyChain(
+  manager: DependencyManager,
+  position: SheetCellPosition,
+  direction: TraceDirection,
+  maxDepth: number = Infinity
+): DependencyChainEntry[] {
+  const chain: DependencyChainEntry[] = [];
+  traverseLevels(manager, position, direction, maxDepth, (source, target, depth, isFirstVisit) => {
+    if (isFirstVisit) {
+      chain.push({ position: target, depth });
+    }
+  });
+  return chain;
+}
+
+/**
+ * 矢印の端のセルがシート上のセルかどうか（シート名のない座標はシート上のセルとする）
+ */
+export function isTraceOnSheet(position: SheetCellPosition, sheetName: string): boolean {
+  return position.sheetName === undefined || position.sheetName.toLowerCase() === sheetName.toLowerCase();
+}
+
+/**
+ * シート名を付けたセル座標を作成する
+ */
+export function toSheetCellPosition(position: CellPosition, sheetName: string): SheetCellPosition {
+  return { row: position.row, column: position.column, sheetName };
+}
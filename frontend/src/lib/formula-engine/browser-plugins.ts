@@ -0,0 +1,272 @@
+/**
+ * Browser Formula Plugins Library
+ * ブラウザ（Webアプリ）でプラグインの関数を実行する環境を提供するライブラリ
+ * プラグインはプラグインごとの専用のWeb Workerで実行し、制限時間を超えた場合はワーカーを終了する
+ */
+
+import { FormulaEvaluationError } from './evaluator';
+import { FormulaPluginLimitError, FormulaPluginSandboxFactory } from './plugins';
+
+/**
+ * ワーカーの起動とプラグインのソースの読み込みに追加で許容する時間（ミリ秒）
+ */
+const WORKER_STARTUP_TIMEOUT_MS = 5000;
+
+/**
+ * 引数・戻り値の受け渡しに使う共有メモリの大きさ（バイト）
+ */
+const MESSAGE_BUFFER_BYTES = 8 * 1024 * 1024;
+
+/**
+ * 共有メモリの制御領域の位置（ワーカーの応答の有無・要求の有無・データのバイト数）
+ */
+const RESPONSE_INDEX = 0;
+const REQUEST_INDEX = 1;
+const LENGTH_INDEX = 2;
+
+/**
+ * ワーカーからの応答
+ */
+type WorkerResponse = { value: unknown } | { error: string; missing?: boolean };
+
+/**
+ * プラグインを実行するワーカー（Web Workerと同じ形）
+ */
+export interface PluginWorker {
+  postMessage(message: unknown): void;
+  terminate(): void;
+}
+
+/**
+ * ワーカーで実行するコード
+ * 最初のメッセージで共有メモリとソースを受け取った後は、共有メモリだけで要求を受け取り応答する。
+ * ソースを読み込む前に通信・保存のAPIをワーカーのグローバルから削除するため、
+ * コンストラクタなどからグローバルを参照しても、画面・ストレージ・ネットワークには届かない
+ */
+const WORKER_SOURCE = `
+self.addEventListener('message', (event) => {
+  const { control, buffer, source, names, hidden } = event.data;
+  const bytes = new Uint8Array(buffer);
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const { wait, store, notify } = Atomics;
+  const { parse, stringify } = JSON;
+  const { isFinite } = Number;
+  const NativeDate = Date;
+  const load = Function;
+
+  const describe = (error) => error instanceof Error || (error && typeof error.message === 'string')
+    ? String(error.message) : String(error);
+  const encode = (response) => {
+    try {
+      return encoder.encode(stringify(response, function (key, value) {
+        const original = this[key];
+        if (original instanceof NativeDate) return { $date: original.getTime() };
+        if (typeof original === 'number' && !isFinite(original)) return { $number: String(original) };
+        return value;
+      }));
+    } catch (error) {
+      return encoder.encode(stringify({ error: 'プラグインの関数が数式で扱えない値を返しました' }));
+    }
+  };
+  const reply = (response) => {
+    let data = encode(response);
+    if (data.length > bytes.length) {
+      data = encode({ error: 'プラグインの関数の戻り値が大きすぎます' });
+    }
+    bytes.set(data);
+    store(control, ${LENGTH_INDEX}, data.length);
+    store(control, ${RESPONSE_INDEX}, 1);
+    notify(control, ${RESPONSE_INDEX});
+  };
+
+  for (const name of hidden) {
+    for (let target = self; target; target = Object.getPrototypeOf(target)) {
+      try {
+        delete target[name];
+      } catch (error) {
+        // 削除できないプロパティはそのままにする
+      }
+    }
+  }
+
+  let functions;
+  let loadError;
+  try {
+    functions = load(source + '\\n;return {' + names.map(name =>
+      JSON.stringify(name) + ': typeof ' + name + " === 'function' ? " + name + ' : undefined').join(', ') + '};')();
+  } catch (error) {
+    loadError = describe(error);
+  }
+  reply({ ready: true });
+
+  for (;;) {
+    wait(control, ${REQUEST_INDEX}, 0);
+    store(control, ${REQUEST_INDEX}, 0);
+    const { name, args } = parse(decoder.decode(bytes.slice(0, control[${LENGTH_INDEX}])));
+    if (loadError !== undefined) {
+      reply({ error: loadError });
+    } else if (typeof functions[name] !== 'function') {
+      reply({ error: name, missing: true });
+    } else {
+      try {
+        reply({ value: functions[name](...args) });
+      } catch (error) {
+        reply({ error: describe(error) });
+      }
+    }
+  }
+}, { once: true });
+`;
+
+/**
+ * プラグインのソースから参照できないようにするワーカーのグローバルな名前
+ */
+const HIDDEN_WORKER_GLOBALS = [
+  'fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts', 'indexedDB', 'caches',
+  'Worker', 'SharedWorker', 'BroadcastChannel', 'postMessage', 'navigator', 'location',
+];
+
+/**
+ * 戻り値のJSONで表した日付・有限でない数値を元の値に戻す
+ */
+function reviveValue(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object') {
+    const tagged = value as { $date?: unknown; $number?: unknown };
+    if (typeof tagged.$date === 'number') return new Date(tagged.$date);
+    if (typeof tagged.$number === 'string') return Number(tagged.$number);
+  }
+  return value;
+}
+
+/**
+ * 応答を待ってスレッドを止められる環境か（ブラウザのメインスレッド・共有メモリを使えないページではfalse）
+ */
+function canWaitForWorker(): boolean {
+  if (typeof SharedArrayBuffer === 'undefined' || typeof Atomics === 'undefined') {
+    return false;
+  }
+  try {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT)), 0, 1, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ソースからWeb Workerを起動する（Web Workerを使えない環境ではundefined）
+ */
+function spawnBlobWorker(source: string): PluginWorker | undefined {
+  if (typeof Worker === 'undefined' || typeof Blob === 'undefined') {
+    return undefined;
+  }
+  const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+  return {
+    postMessage: message => worker.postMessage(message),
+    terminate: () => {
+      worker.terminate();
+      URL.revokeObjectURL(url);
+    },
+  };
+}
+
+/**
+ * 指定した方法で起動したワーカーでプラグインを実行する環境を作成する関数を返す
+ * ワーカーの起動は待たずに返し、最初の呼び出しでソースの読み込みの完了を待つ。呼び出しは共有メモリで応答を待って
+ * 同期的に結果を返し、制限時間を超えた場合はワーカーを終了する。ブラウザのワーカーはメモリの上限を指定できないため、
+ * メモリを使い続けるプラグインも制限時間の経過で停止する
+ */
+export function createBrowserWorkerPluginSandboxFactory(
+  spawn: (source: string) => PluginWorker | undefined
+): FormulaPluginSandboxFactory {
+  return (plugin, limits) => {
+    if (!canWaitForWorker()) {
+      throw new FormulaEvaluationError(
+        '#CALC!',
+        `プラグイン「${plugin.name}」の関数は数式のワーカー（共有メモリを使えるページ）でのみ実行できます`
+      );
+    }
+    const worker = spawn(WORKER_SOURCE);
+    if (!worker) {
+      throw new FormulaEvaluationError('#CALC!', `プラグイン「${plugin.name}」の関数を実行するワーカーを起動できません`);
+    }
+
+    const control = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT * 3));
+    const buffer = new SharedArrayBuffer(MESSAGE_BUFFER_BYTES);
+    const bytes = new Uint8Array(buffer);
+    const encoder = new TextEncoder();
+    const decoder = new TextDecoder();
+    worker.postMessage({
+      control,
+      buffer,
+      source: plugin.source,
+      names: plugin.functions.map(func => func.name),
+      hidden: HIDDEN_WORKER_GLOBALS,
+    });
+    let ready = false;
+    let terminated = false;
+
+    const dispose = () => {
+      if (!terminated) {
+        terminated = true;
+        worker.terminate();
+      }
+    };
+
+    const waitForResponse = (timeoutMs: number): Record<string, unknown> => {
+      if (Atomics.wait(control, RESPONSE_INDEX, 0, timeoutMs) === 'timed-out') {
+        dispose();
+        throw new FormulaPluginLimitError(
+          `プラグイン「${plugin.name}」の実行が制限時間（${limits.timeoutMs}ミリ秒）を超えました`
+        );
+      }
+      Atomics.store(control, RESPONSE_INDEX, 0);
+      const data = decoder.decode(bytes.slice(0, Atomics.load(control, LENGTH_INDEX)));
+      try {
+        return JSON.parse(data, reviveValue);
+      } catch {
+        throw new FormulaEvaluationError('#VALUE!', `プラグイン「${plugin.name}」の応答を読み取れません`);
+      }
+    };
+
+    return {
+      call: (functionName, args) => {
+        if (terminated) {
+          throw new FormulaPluginLimitError(`プラグイン「${plugin.name}」の実行環境は終了しています`);
+        }
+        if (!ready) {
+          waitForResponse(WORKER_STARTUP_TIMEOUT_MS + limits.timeoutMs);
+          ready = true;
+        }
+
+        const request = encoder.encode(JSON.stringify({ name: functionName, args }));
+        if (request.length > bytes.length) {
+          throw new FormulaEvaluationError('#VALUE!', `プラグイン「${plugin.name}」の関数の引数が大きすぎます`);
+        }
+        bytes.set(request);
+        Atomics.store(control, LENGTH_INDEX, request.length);
+        Atomics.store(control, REQUEST_INDEX, 1);
+        Atomics.notify(control, REQUEST_INDEX);
+
+        const response = waitForResponse(limits.timeoutMs) as WorkerResponse;
+        if ('value' in response) {
+          return response.value;
+        }
+        if (response.missing) {
+          throw new FormulaEvaluationError('#NAME?', `プラグイン「${plugin.name}」に関数${functionName}が定義されていません`);
+        }
+        throw new FormulaEvaluationError('#VALUE!', `プラグイン「${plugin.name}」でエラーが発生しました: ${response.error}`);
+      },
+      dispose,
+    };
+  };
+}
+
+/**
+ * プラグインごとの専用のWeb Workerでプラグインを実行する環境を作成する（Webアプリで使う）
+ * 呼び出し元のスレッドで応答を待つため、数式のワーカーの中で使う（メインスレッドでは#CALC!になる）
+ */
+export const createBrowserWorkerPluginSandbox: FormulaPluginSandboxFactory =
+  createBrowserWorkerPluginSandboxFactory(spawnBlobWorker);
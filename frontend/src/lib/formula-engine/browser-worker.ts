@@ -0,0 +1,16 @@
+/**
+ * Browser Formula Worker Library
+ * ブラウザで数式エンジンのWeb Workerを起動するライブラリ
+ */
+
+import { FormulaWorkerEndpoint } from './worker';
+
+/**
+ * 数式エンジンのWeb Workerを起動する（Web Workerを使えない環境ではundefined）
+ */
+export function createBrowserFormulaWorker(): FormulaWorkerEndpoint | undefined {
+  if (typeof Worker === 'undefined') {
+    return undefined;
+  }
+  return new Worker(new URL('./formula.worker.ts', import.meta.url));
+}
@@ -5,28 +5,81 @@
 
 import {
   parseFormula,
-  evaluateFormula,
   validateFormula,
+  CellRange,
   ParsedFormula,
   FormulaResult,
   FormulaError,
   FormulaFunction,
   FormulaOperator
 } from '../formula';
-import { CellPosition } from '../cell';
+import {
+  evaluateFormula,
+  evaluateFormulaSteps,
+  FormulaEvaluationError,
+  FormulaEvaluationOptions,
+  FormulaEvaluationStep,
+  FormulaFunctionEntry,
+  FormulaFunctionLibrary,
+  FormulaFunctionOptions,
+  FormulaArray,
+  FormulaScalar,
+  FormulaValue,
+  SYNTAX_ERROR_CODE,
+  SPECIAL_FUNCTION_NAMES,
+  collectNumbers,
+  createFormulaErrorValue,
+  flattenValues,
+  formatFormulaValue,
+  isFormulaErrorValue,
+  toFormulaError,
+  toBoolean,
+  toNumber,
+  toText
+} from './evaluator';
+import { LOOKUP_FUNCTIONS } from './lookup-functions';
+import { CRITERIA_FUNCTIONS } from './criteria-functions';
+import { DATE_FUNCTIONS } from './date-functions';
+import { FINANCIAL_FUNCTIONS } from './financial-functions';
+import { STATISTICAL_FUNCTIONS } from './statistical-functions';
+import { TEXT_FUNCTIONS } from './text-functions';
+import { ARRAY_FUNCTIONS, VOLATILE_ARRAY_FUNCTIONS } from './array-functions';
+import { LAMBDA_FUNCTIONS } from './lambda-functions';
+import {
+  FormulaPluginDefinition,
+  FormulaPluginFunctionInfo,
+  FormulaPluginSandboxFactory,
+  createPluginFunctionLibrary,
+  getPluginFunctionArity,
+  validateFormulaPlugin
+} from './plugins';
+import { createBrowserWorkerPluginSandbox } from './browser-plugins';
+import { FormulaAstNode, buildFormulaAst } from './parser';
+import { explainFormulaError } from './errors';
+import { FormulaFunctionSignature, getBuiltInFunctionSignature, pluginFunctionToSignature } from './signatures';
+import { DateSystem, dateTextToSerial, formatDateSerial, serialToDateObject } from '../date-serial';
+import { CellPosition, SheetCellPosition, cellPositionToA1Notation } from '../cell';
 import { Spreadsheet, getCellFromSpreadsheet } from '../spreadsheet';
+import { IterativeCalculationSettings, Workbook, getSheetByName } from '../workbook';
+import { NamedRange, findNamedRange, isLambdaDefinition } from '../named-range';
 
 /**
  * 計算コンテキスト
+ * workbookを指定するとシート名で修飾された参照（Sheet2!A1）とワークブックの名前を解決できる
  */
 export interface CalculationContext {
   spreadsheet: Spreadsheet;
-  getCurrentCellValue: (position: CellPosition) => any;
-  getCalculatedCellValue: (position: CellPosition) => any;
+  workbook?: Workbook;
+  names?: NamedRange[];   // 省略時はworkbookの名前を使用
+  currentPosition?: SheetCellPosition;  // 計算中の数式のセル（ROW()・INDIRECTのR1C1形式の相対参照で使用）
+  getCurrentCellValue: (position: SheetCellPosition) => any;
+  getCalculatedCellValue: (position: SheetCellPosition) => any;
   preventCircularReference: boolean;
   maxCalculationDepth: number;
   currentDepth: number;
   visitedCells: Set<string>;
+  iterationValues?: Map<string, any>;  // 反復計算で求めた循環参照のセルの値（キーは循環参照の検出と同じ）
+  valueCache?: Map<string, any>;       // 計算済みのセルの値（指定すると計算したセルの値を記録し、参照したときに再利用する）
 }
 
 /**
@@ -37,6 +90,8 @@ export interface CalculationResult {
   value: any;
   displayValue: string;
   dataType: 'number' | 'text' | 'boolean' | 'date' | 'error' | 'empty';
+  numberFormat?: string;  // 日付の結果（dataTypeがdate）の表示形式
+  arrayValue?: FormulaArray;  // 複数のセルからなる配列の結果（数式のセルを左上として展開する。valueは左上の値）
   error?: FormulaError;
   dependencies: CellPosition[];
   calculationTime: number;
@@ -49,13 +104,86 @@ export interface AdvancedCalculationOptions {
   enableArrayFormulas?: boolean;
   enableVolatileFunctions?: boolean;
   customFunctions?: { [name: string]: Function };
-  dateSystem?: '1900' | '1904';
+  plugins?: FormulaPluginDefinition[];            // JavaScriptで実装した関数のプラグイン
+  pluginSandbox?: FormulaPluginSandboxFactory;    // プラグインの実行環境（省略時はプラグインごとのWeb Workerで実行する）
+  dateSystem?: DateSystem;
   precision?: number;
-  iterativeCalculation?: {
-    enabled: boolean;
-    maxIterations: number;
-    maxChange: number;
-  };
+  iterativeCalculation?: IterativeCalculationSettings;
+}
+
+/**
+ * 循環参照を構成するセルのまとまりの反復計算の結果
+ */
+export interface CircularReferenceSolution {
+  cells: SheetCellPosition[];
+  results: CalculationResult[];   // cellsと同じ順の計算結果
+  iterations: number;
+  converged: boolean;
+  maxChange: number;              // 最後の反復での値の変化の最大値
+}
+
+/**
+ * 循環参照の反復計算の結果
+ */
+export interface IterativeCalculationResult {
+  components: CircularReferenceSolution[];
+  iterationValues: Map<string, any>;  // 循環参照のセルの値（他のセルを計算するコンテキストに指定する）
+}
+
+/**
+ * 参照先のシートを解決する（シート名省略時はコンテキストのシート）
+ */
+function resolveContextSheet(
+  context: Pick<CalculationContext, 'spreadsheet' | 'workbook'>,
+  sheetName?: string
+): Spreadsheet | undefined {
+  if (sheetName === undefined || sheetName.toLowerCase() === context.spreadsheet.name.toLowerCase()) {
+    return context.spreadsheet;
+  }
+  return context.workbook ? getSheetByName(context.workbook, sheetName) : undefined;
+}
+
+/**
+ * 循環参照検出用の訪問済みセルキーを取得する
+ */
+function getVisitedCellKey(context: CalculationContext, position: SheetCellPosition): string {
+  const key = `${position.row}-${position.column}`;
+  if (!context.workbook) {
+    return key;
+  }
+  const sheetName = position.sheetName ?? context.spreadsheet.name;
+  return `${sheetName.toLowerCase()}!${key}`;
+}
+
+/**
+ * 計算済みのセルの値（CalculationContext.valueCache）のキーを取得する
+ */
+export function getCellValueCacheKey(context: CalculationContext, position: SheetCellPosition): string {
+  return getVisitedCellKey(context, position);
+}
+
+/**
+ * 数値に変換できる値かどうか（エラー値・数値にならない文字列はfalse）
+ */
+function isConvertibleToNumber(value: FormulaValue): boolean {
+  if (value === null || isFormulaErrorValue(value)) {
+    return false;
+  }
+  try {
+    toNumber(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 引数が1つ以上指定されていることを確認する（引数がない場合はHyperFormulaと同じく#N/A）
+ */
+function requireArguments(name: string, values: FormulaValue[]): void {
+  if (values.length === 0) {
+    throw new FormulaEvaluationError('#N/A', `${name}関数には少なくとも1つの引数が必要です`);
+  }
 }
 
 /**
@@ -64,6 +192,12 @@ export interface AdvancedCalculationOptions {
 export class FormulaCalculator {
   private options: AdvancedCalculationOptions;
   private functionRegistry: Map<string, Function>;
+  private functionOptions: Map<string, FormulaFunctionOptions>;
+  private plugins: Map<string, {
+    functions: FormulaPluginFunctionInfo[];
+    library: FormulaFunctionLibrary;
+    dispose: () => void;
+  }>;
 
   constructor(options: AdvancedCalculationOptions = {}) {
     this.options = {
@@ -81,16 +215,39 @@ export class FormulaCalculator {
     };
 
     this.functionRegistry = new Map();
+    this.functionOptions = new Map();
+    this.plugins = new Map();
     this.initializeBuiltInFunctions();
     this.registerCustomFunctions();
+
+    for (const plugin of this.options.plugins ?? []) {
+      const result = this.registerPlugin(plugin);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    }
   }
 
   /**
    * 数式を計算する
+   * エラーには参照先のセルのシート名と修正の提案を付ける
    */
   calculate(
     formula: string,
     context: CalculationContext
+  ): CalculationResult {
+    const result = this.calculateFormula(formula, context);
+    return result.error
+      ? { ...result, error: explainFormulaError(result.error, context.spreadsheet.name, () => this.getAvailableFunctions()) }
+      : result;
+  }
+
+  /**
+   * 数式を計算する（エラーの説明を付ける前の結果）
+   */
+  private calculateFormula(
+    formula: string,
+    context: CalculationContext
   ): CalculationResult {
     const startTime = performance.now();
 
@@ -101,16 +258,19 @@ export class FormulaCalculator {
         return {
           success: false,
           value: null,
-          displayValue: '#ERROR!',
+          displayValue: SYNTAX_ERROR_CODE,
           dataType: 'error',
-          error: validation.errors[0],
+          error: { ...validation.errors[0], code: SYNTAX_ERROR_CODE },
           dependencies: [],
           calculationTime: performance.now() - startTime
         };
       }
 
       // 数式を解析
-      const parsed = parseFormula(formula);
+      const parsed = parseFormula(formula, {
+        names: context.names ?? context.workbook?.names,
+        sheetName: context.spreadsheet.name
+      });
 
       // 循環参照チェック
       if (context.preventCircularReference && this.hasCircularReference(parsed, context)) {
@@ -151,7 +311,9 @@ export class FormulaCalculator {
         success: result.error === undefined,
         value: result.value,
         displayValue: result.displayValue,
-        dataType: this.determineDataType(result.value, result.error),
+        dataType: result.numberFormat !== undefined ? 'date' : this.determineDataType(result.value, result.error),
+        ...(result.numberFormat !== undefined ? { numberFormat: result.numberFormat } : {}),
+        ...(result.arrayValue !== undefined ? { arrayValue: result.arrayValue } : {}),
         error: result.error,
         dependencies: result.dependencies,
         calculationTime: performance.now() - startTime
@@ -160,10 +322,11 @@ export class FormulaCalculator {
       return {
         success: false,
         value: null,
-        displayValue: '#ERROR!',
+        displayValue: SYNTAX_ERROR_CODE,
         dataType: 'error',
         error: {
           type: 'SYNTAX_ERROR',
+          code: SYNTAX_ERROR_CODE,
           message: error instanceof Error ? error.message : '計算エラー'
         },
         dependencies: [],
@@ -192,8 +355,24 @@ export class FormulaCalculator {
       };
     }
 
+    // 配列数式の展開先のセルは数式のセルの結果から値を取り出す
+    if (cell.spillAnchor) {
+      const anchorResult = this.calculateCellValue(cell.spillAnchor, context);
+      if (!anchorResult.arrayValue) {
+        return { success: true, value: null, displayValue: '', dataType: 'empty', dependencies: [], calculationTime: 0 };
+      }
+      return this.getArrayElementResult(
+        anchorResult,
+        position.row - cell.spillAnchor.row,
+        position.column - cell.spillAnchor.column
+      );
+    }
+
     if (cell.dataType === 'formula') {
-      return this.calculate(cell.rawValue, context);
+      const calculated = this.calculate(cell.rawValue, { ...context, currentPosition: position });
+      const result = calculated.arrayValue ? this.checkSpillArea(calculated, position, context.spreadsheet) : calculated;
+      context.valueCache?.set(getVisitedCellKey(context, position), this.toReferencedValue(result));
+      return result;
     } else {
       const value = this.convertCellValue(cell.rawValue, cell.dataType);
       return {
@@ -224,22 +403,12 @@ export class FormulaCalculator {
     const colCount = targetRange.end.column - targetRange.start.column + 1;
 
     try {
-      // 基本的な配列数式の実装（簡易版）
       const baseResult = this.calculate(formula, context);
 
-      // 結果を配列範囲に展開
+      // 結果を配列範囲に展開（配列でない結果はすべてのセルに同じ値を設定する）
       for (let row = 0; row < rowCount; row++) {
         for (let col = 0; col < colCount; col++) {
-          if (Array.isArray(baseResult.value)) {
-            const arrayValue = baseResult.value[row]?.[col] ?? baseResult.value[0]?.[0] ?? null;
-            results.push({
-              ...baseResult,
-              value: arrayValue,
-              displayValue: this.formatValueForDisplay(arrayValue)
-            });
-          } else {
-            results.push(baseResult);
-          }
+          results.push(baseResult.arrayValue ? this.getArrayElementResult(baseResult, row, col) : baseResult);
         }
       }
 
@@ -263,6 +432,90 @@ export class FormulaCalculator {
     }
   }
 
+  /**
+   * 配列の結果から指定した位置の値の計算結果を取り出す
+   * 1行・1列の配列はその方向に繰り返し、配列の範囲外は#N/Aとする
+   */
+  getArrayElementResult(result: CalculationResult, row: number, column: number): CalculationResult {
+    const array = result.arrayValue ?? [[result.value]];
+    const rowValues = array.length === 1 ? array[0] : array[row];
+    const value: FormulaScalar | undefined = rowValues?.length === 1 ? rowValues[0] : rowValues?.[column];
+    const element = value === undefined ? createFormulaErrorValue('#N/A') : value;
+    const base = { dependencies: result.dependencies, calculationTime: result.calculationTime };
+
+    if (isFormulaErrorValue(element)) {
+      return {
+        ...base,
+        success: false,
+        value: element.code,
+        displayValue: element.code,
+        dataType: 'error',
+        error: toFormulaError(element)
+      };
+    }
+    if (typeof element === 'number' && result.numberFormat !== undefined) {
+      return {
+        ...base,
+        success: true,
+        value: element,
+        displayValue: formatDateSerial(element, result.numberFormat, this.getDateSystem()),
+        dataType: 'date',
+        numberFormat: result.numberFormat
+      };
+    }
+    return {
+      ...base,
+      success: true,
+      value: element,
+      displayValue: formatFormulaValue(element),
+      dataType: this.determineDataType(element)
+    };
+  }
+
+  /**
+   * 配列の結果を展開する範囲を確認する
+   * 範囲がシートの外にはみ出す場合、または空でないセル（他の配列数式の展開先を含む）がある場合は#SPILL!とする
+   */
+  private checkSpillArea(
+    result: CalculationResult,
+    position: CellPosition,
+    spreadsheet: Spreadsheet
+  ): CalculationResult {
+    const array = result.arrayValue!;
+    const end = { row: position.row + array.length - 1, column: position.column + array[0].length - 1 };
+    let message: string | undefined;
+
+    if (end.row >= spreadsheet.rowCount || end.column >= spreadsheet.columnCount) {
+      message = '展開先の範囲がシートの外にはみ出しています';
+    } else {
+      for (let row = position.row; row <= end.row && message === undefined; row++) {
+        for (let column = position.column; column <= end.column; column++) {
+          if (row === position.row && column === position.column) continue;
+          const cell = getCellFromSpreadsheet(spreadsheet, { row, column });
+          const isOwnSpill = cell?.spillAnchor?.row === position.row && cell.spillAnchor.column === position.column;
+          if (cell && (cell.rawValue !== '' || (cell.spillAnchor && !isOwnSpill))) {
+            message = `展開先のセル（${cellPositionToA1Notation({ row, column })}）が空ではありません`;
+            break;
+          }
+        }
+      }
+    }
+
+    if (message === undefined) {
+      return result;
+    }
+    const error = createFormulaErrorValue('#SPILL!', message);
+    return {
+      success: false,
+      value: error.code,
+      displayValue: error.code,
+      dataType: 'error',
+      error: explainFormulaError(toFormulaError(error)),
+      dependencies: result.dependencies,
+      calculationTime: result.calculationTime
+    };
+  }
+
   /**
    * 解析済み数式を評価する
    */
@@ -270,6 +523,52 @@ export class FormulaCalculator {
     parsed: ParsedFormula,
     context: CalculationContext
   ): FormulaResult {
+    const { getCellValue, options } = this.createEvaluationCallbacks(context);
+    return evaluateFormula(parsed, getCellValue, name => this.resolveFunction(name), options);
+  }
+
+  /**
+   * 数式の評価の手順を求める（数式の検証で数式の一部ずつ評価した値を表示する）
+   */
+  evaluateFormulaSteps(
+    formula: string,
+    context: CalculationContext
+  ): { success: boolean; steps: FormulaEvaluationStep[]; error?: FormulaError } {
+    try {
+      const validation = validateFormula(formula);
+      if (!validation.isValid) {
+        return { success: false, steps: [], error: validation.errors[0] };
+      }
+
+      const parsed = parseFormula(formula, {
+        names: context.names ?? context.workbook?.names,
+        sheetName: context.spreadsheet.name
+      });
+      const { getCellValue, options } = this.createEvaluationCallbacks(context);
+      return {
+        success: true,
+        steps: evaluateFormulaSteps(parsed, getCellValue, name => this.resolveFunction(name), options)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        steps: [],
+        error: {
+          type: 'SYNTAX_ERROR',
+          code: SYNTAX_ERROR_CODE,
+          message: error instanceof Error ? error.message : '計算エラー'
+        }
+      };
+    }
+  }
+
+  /**
+   * 数式の評価に使うセルの値の取得と評価オプションを作成する
+   */
+  private createEvaluationCallbacks(context: CalculationContext): {
+    getCellValue: (position: SheetCellPosition) => any;
+    options: FormulaEvaluationOptions;
+  } {
     // 新しい計算コンテキストを作成（深度を増加）
     const newContext: CalculationContext = {
       ...context,
@@ -277,8 +576,23 @@ export class FormulaCalculator {
     };
 
     // セル値取得関数を定義
-    const getCellValue = (position: CellPosition): any => {
-      const key = `${position.row}-${position.column}`;
+    const getCellValue = (position: SheetCellPosition): any => {
+      const targetSheet = resolveContextSheet(context, position.sheetName);
+      if (!targetSheet) {
+        return '#REF!';
+      }
+
+      const key = getVisitedCellKey(context, position);
+
+      // 反復計算中の循環参照のセルは、直前の反復の値を使う
+      if (context.iterationValues?.has(key)) {
+        return context.iterationValues.get(key);
+      }
+
+      // 計算済みのセルは記録した値を使う
+      if (context.valueCache?.has(key)) {
+        return context.valueCache.get(key);
+      }
 
       // 循環参照チェック
       if (context.visitedCells.has(key)) {
@@ -288,14 +602,159 @@ export class FormulaCalculator {
       context.visitedCells.add(key);
 
       try {
-        const result = this.calculateCellValue(position, newContext);
-        return result.value;
+        const targetPosition = { row: position.row, column: position.column };
+        const targetContext = targetSheet === context.spreadsheet
+          ? newContext
+          : { ...newContext, spreadsheet: targetSheet };
+        return this.toReferencedValue(this.calculateCellValue(targetPosition, targetContext));
       } finally {
         context.visitedCells.delete(key);
       }
     };
 
-    return evaluateFormula(parsed, getCellValue);
+    // スピル範囲の参照（A1#）は再計算で数式のセルに記録した展開範囲を使う
+    const getSpillRange = (position: SheetCellPosition): CellRange | undefined => {
+      const targetSheet = resolveContextSheet(context, position.sheetName);
+      const spillRange = targetSheet && getCellFromSpreadsheet(targetSheet, position)?.spillRange;
+      if (!spillRange) {
+        return undefined;
+      }
+      return {
+        ...spillRange,
+        a1Notation: `${cellPositionToA1Notation(spillRange.start)}:${cellPositionToA1Notation(spillRange.end)}`,
+        ...(position.sheetName !== undefined ? { sheetName: position.sheetName } : {})
+      };
+    };
+
+    // 再帰呼び出しなど解析時に展開されなかったLAMBDAの名前は、評価時に定義の式を解析する
+    const names = context.names ?? context.workbook?.names ?? [];
+    const lambdaDefinitions = new Map<string, FormulaAstNode | undefined>();
+    const resolveName = (name: string): FormulaAstNode | undefined => {
+      const namedRange = findNamedRange(names, name, context.spreadsheet.name);
+      if (!namedRange || !isLambdaDefinition(namedRange.refersTo)) {
+        return undefined;
+      }
+      if (!lambdaDefinitions.has(namedRange.id)) {
+        try {
+          const definition = parseFormula(namedRange.refersTo, { names, sheetName: context.spreadsheet.name });
+          lambdaDefinitions.set(namedRange.id, buildFormulaAst(definition.tokens));
+        } catch {
+          lambdaDefinitions.set(namedRange.id, undefined);
+        }
+      }
+      return lambdaDefinitions.get(namedRange.id);
+    };
+
+    return {
+      getCellValue,
+      options: { currentPosition: context.currentPosition, dateSystem: this.getDateSystem(), getSpillRange, resolveName }
+    };
+  }
+
+  /**
+   * 計算結果を参照元の数式に渡す値に変換する
+   * 日付の結果は日付のセルと同じくDateで返し、参照元の数式でも日付として表示する
+   */
+  private toReferencedValue(result: CalculationResult): any {
+    return result.dataType === 'date' && typeof result.value === 'number'
+      ? serialToDateObject(result.value, this.getDateSystem())
+      : result.value;
+  }
+
+  /**
+   * 反復計算の設定を取得する
+   */
+  getIterativeCalculationSettings(): IterativeCalculationSettings {
+    return { ...this.options.iterativeCalculation! };
+  }
+
+  /**
+   * 反復計算の設定を変更する（ワークブックの設定に合わせる場合に使う）
+   */
+  setIterativeCalculationSettings(settings: IterativeCalculationSettings): void {
+    this.options.iterativeCalculation = { ...settings };
+  }
+
+  /**
+   * 循環参照を反復計算で解く
+   * componentsはDependencyManager.getStronglyConnectedComponentsの結果（参照先のまとまりが先）を指定する。
+   * まとまりごとに、前回の計算結果（数値でなければ0）から始めて、値の変化の最大値がmaxChange以下になるか
+   * maxIterations回に達するまで、セルを順に計算し直す（計算した値はすぐに次のセルの計算に使う）。
+   * 反復計算が無効な場合は何も計算しない
+   */
+  calculateCircularReferences(
+    components: SheetCellPosition[][],
+    context: CalculationContext,
+    settings: IterativeCalculationSettings = this.options.iterativeCalculation!
+  ): IterativeCalculationResult {
+    const iterationValues = new Map<string, any>(context.iterationValues ?? []);
+    if (!settings.enabled) {
+      return { components: [], iterationValues };
+    }
+
+    const solutions = components.map(cells => {
+      const targets = cells.flatMap(position => {
+        const sheet = resolveContextSheet(context, position.sheetName);
+        if (!sheet) {
+          return [];
+        }
+        const previous = Number(getCellFromSpreadsheet(sheet, position)?.displayValue);
+        const key = getVisitedCellKey(context, position);
+        iterationValues.set(key, Number.isFinite(previous) ? previous : 0);
+        return [{ cell: position, position: { row: position.row, column: position.column }, sheet, key }];
+      });
+
+      let results: CalculationResult[] = [];
+      let iterations = 0;
+      let maxChange = Infinity;
+      while (iterations < settings.maxIterations && maxChange > settings.maxChange) {
+        iterations++;
+        maxChange = 0;
+        results = targets.map(({ position, sheet, key }) => {
+          const result = this.calculateCellValue(position, {
+            ...context,
+            spreadsheet: sheet,
+            iterationValues,
+            visitedCells: new Set(),
+            currentDepth: 0
+          });
+          const value = this.toReferencedValue(result);
+          maxChange = Math.max(maxChange, this.getIterationChange(iterationValues.get(key), value));
+          iterationValues.set(key, value);
+          return result;
+        });
+      }
+
+      return {
+        cells: targets.map(target => target.cell),
+        results,
+        iterations,
+        converged: maxChange <= settings.maxChange,
+        maxChange
+      };
+    });
+
+    return { components: solutions, iterationValues };
+  }
+
+  /**
+   * 反復計算の前後の値の変化量を求める（日付は日数で比べ、数値以外は同じ値なら0、異なれば無限大とする）
+   */
+  private getIterationChange(previous: any, current: any): number {
+    const toComparable = (value: any) => value instanceof Date ? value.getTime() / 86400000 : value;
+    const before = toComparable(previous);
+    const after = toComparable(current);
+    if (typeof before === 'number' && typeof after === 'number') {
+      return Math.abs(after - before);
+    }
+    return before === after ? 0 : Infinity;
+  }
+
+  /**
+   * 日付システムを取得する
+   */
+  getDateSystem(): DateSystem {
+    return this.options.dateSystem ?? '1900';
   }
 
   /**
@@ -307,7 +766,7 @@ export class FormulaCalculator {
   ): boolean {
     // 簡易的な循環参照チェック
     for (const dependency of parsed.dependencies) {
-      const key = `${dependency.row}-${dependency.column}`;
+      const key = getVisitedCellKey(context, dependency);
       if (context.visitedCells.has(key)) {
         return true;
       }
@@ -325,8 +784,11 @@ export class FormulaCalculator {
         return isNaN(numValue) ? 0 : numValue;
       case 'boolean':
         return rawValue.toLowerCase() === 'true';
-      case 'date':
-        return new Date(rawValue);
+      case 'date': {
+        // 日付の文字列はローカル時刻のDateとして扱う（new Date('2024-03-01')はUTCとして解釈されるため使わない）
+        const serial = dateTextToSerial(rawValue);
+        return serial === null ? rawValue : serialToDateObject(serial);
+      }
       case 'empty':
         return null;
       default:
@@ -349,113 +811,175 @@ export class FormulaCalculator {
     return 'text';
   }
 
-  /**
-   * 値を表示用の文字列に変換する
-   */
-  private formatValueForDisplay(value: any): string {
-    if (value === null || value === undefined) return '';
-    if (typeof value === 'number') {
-      if (Number.isInteger(value)) {
-        return value.toString();
-      } else {
-        return value.toFixed(Math.min(this.options.precision || 15, 15));
-      }
-    }
-    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
-    if (value instanceof Date) return value.toLocaleDateString();
-    return value.toString();
-  }
-
   /**
    * 組み込み関数を初期化する
+   * 引数は評価済みの値（セル範囲は2次元配列）で渡され、型の変換に失敗した場合はエラー値になる
    */
   private initializeBuiltInFunctions(): void {
+    // 集計関数は参照内の文字列・論理値を無視するため単一セルの参照も配列で受け取る
+    const aggregate: FormulaFunctionOptions = { referencesAsArrays: true };
+
     // 数学関数
-    this.registerFunction('ABS', (value: number) => Math.abs(value));
-    this.registerFunction('ROUND', (value: number, digits: number = 0) => {
-      const factor = Math.pow(10, digits);
-      return Math.round(value * factor) / factor;
+    this.registerFunction('ABS', (value: FormulaValue) => Math.abs(toNumber(value)));
+    this.registerFunction('ROUND', (value: FormulaValue, digits: FormulaValue = 0) => {
+      const number = toNumber(value);
+      const factor = Math.pow(10, Math.trunc(toNumber(digits)));
+      // Excelと同じく0から離れる方向に丸める
+      return Math.sign(number) * Math.round(Math.abs(number) * factor) / factor;
+    });
+    this.registerFunction('SQRT', (value: FormulaValue) => {
+      const number = toNumber(value);
+      if (number < 0) throw new FormulaEvaluationError('#NUM!', '負の数の平方根は計算できません');
+      return Math.sqrt(number);
+    });
+    this.registerFunction('POWER', (base: FormulaValue, exponent: FormulaValue) => {
+      return Math.pow(toNumber(base), toNumber(exponent));
     });
-    this.registerFunction('SQRT', (value: number) => Math.sqrt(value));
-    this.registerFunction('POWER', (base: number, exponent: number) => Math.pow(base, exponent));
     this.registerFunction('PI', () => Math.PI);
 
     // 統計関数
-    this.registerFunction('SUM', (...values: number[]) => {
-      return values.reduce((sum, val) => sum + (typeof val === 'number' ? val : 0), 0);
-    });
+    this.registerFunction('SUM', (...values: FormulaValue[]) => {
+      return collectNumbers(values).reduce((sum, val) => sum + val, 0);
+    }, aggregate);
 
-    this.registerFunction('AVERAGE', (...values: number[]) => {
-      const numbers = values.filter(val => typeof val === 'number');
-      return numbers.length > 0 ? numbers.reduce((sum, val) => sum + val, 0) / numbers.length : 0;
-    });
+    this.registerFunction('AVERAGE', (...values: FormulaValue[]) => {
+      const numbers = collectNumbers(values);
+      if (numbers.length === 0) throw new FormulaEvaluationError('#DIV/0!');
+      return numbers.reduce((sum, val) => sum + val, 0) / numbers.length;
+    }, aggregate);
 
-    this.registerFunction('COUNT', (...values: any[]) => {
-      return values.filter(val => typeof val === 'number').length;
-    });
+    // 参照・配列内は数値だけを数え、直接指定された値は数値に変換できるもの（数値の文字列・論理値）を数える
+    this.registerFunction('COUNT', (...values: FormulaValue[]) => {
+      return values.filter(val => !Array.isArray(val) && isConvertibleToNumber(val)).length +
+        flattenValues(values.filter(Array.isArray)).filter(val => typeof val === 'number').length;
+    }, { ...aggregate, acceptsErrors: true });
 
-    this.registerFunction('MAX', (...values: number[]) => {
-      const numbers = values.filter(val => typeof val === 'number');
+    this.registerFunction('MAX', (...values: FormulaValue[]) => {
+      requireArguments('MAX', values);
+      const numbers = collectNumbers(values);
       return numbers.length > 0 ? Math.max(...numbers) : 0;
-    });
+    }, aggregate);
 
-    this.registerFunction('MIN', (...values: number[]) => {
-      const numbers = values.filter(val => typeof val === 'number');
+    this.registerFunction('MIN', (...values: FormulaValue[]) => {
+      requireArguments('MIN', values);
+      const numbers = collectNumbers(values);
       return numbers.length > 0 ? Math.min(...numbers) : 0;
-    });
+    }, aggregate);
 
-    // 論理関数
-    this.registerFunction('IF', (condition: boolean, trueValue: any, falseValue: any) => {
-      return condition ? trueValue : falseValue;
-    });
+    this.registerFunctions(STATISTICAL_FUNCTIONS);
 
-    this.registerFunction('AND', (...conditions: boolean[]) => {
-      return conditions.every(condition => Boolean(condition));
-    });
+    // 論理関数（IFは選ばれた方の引数のみ評価する）
+    this.registerFunction('IF', (
+      condition: () => FormulaValue,
+      trueValue?: () => FormulaValue,
+      falseValue?: () => FormulaValue
+    ) => {
+      const result = condition();
+      if (isFormulaErrorValue(result)) return result;
+      if (toBoolean(result)) {
+        return trueValue ? trueValue() ?? 0 : true;
+      }
+      return falseValue ? falseValue() ?? 0 : false;
+    }, { lazy: true });
 
-    this.registerFunction('OR', (...conditions: boolean[]) => {
-      return conditions.some(condition => Boolean(condition));
-    });
+    this.registerFunction('AND', (...conditions: FormulaValue[]) => {
+      return this.collectBooleans(conditions).every(condition => condition);
+    }, aggregate);
+
+    this.registerFunction('OR', (...conditions: FormulaValue[]) => {
+      return this.collectBooleans(conditions).some(condition => condition);
+    }, aggregate);
 
-    this.registerFunction('NOT', (condition: boolean) => !Boolean(condition));
+    this.registerFunction('NOT', (condition: FormulaValue) => !toBoolean(condition));
 
     // 文字列関数
-    this.registerFunction('CONCATENATE', (...values: any[]) => {
-      return values.map(val => String(val)).join('');
+    this.registerFunction('CONCATENATE', (...values: FormulaValue[]) => {
+      return values.map(val => toText(val)).join('');
     });
 
-    this.registerFunction('LEN', (text: string) => String(text).length);
+    this.registerFunction('LEN', (text: FormulaValue) => toText(text).length);
 
-    this.registerFunction('UPPER', (text: string) => String(text).toUpperCase());
+    this.registerFunction('UPPER', (text: FormulaValue) => toText(text).toUpperCase());
 
-    this.registerFunction('LOWER', (text: string) => String(text).toLowerCase());
+    this.registerFunction('LOWER', (text: FormulaValue) => toText(text).toLowerCase());
 
-    this.registerFunction('LEFT', (text: string, length: number) => {
-      return String(text).substring(0, length);
+    this.registerFunction('LEFT', (text: FormulaValue, length: FormulaValue = 1) => {
+      return toText(text).substring(0, this.toLength(length));
     });
 
-    this.registerFunction('RIGHT', (text: string, length: number) => {
-      const str = String(text);
-      return str.substring(str.length - length);
+    this.registerFunction('RIGHT', (text: FormulaValue, length: FormulaValue = 1) => {
+      const str = toText(text);
+      const count = this.toLength(length);
+      return count === 0 ? '' : str.substring(Math.max(0, str.length - count));
     });
 
-    this.registerFunction('MID', (text: string, start: number, length: number) => {
-      return String(text).substring(start - 1, start - 1 + length);
+    this.registerFunction('MID', (text: FormulaValue, start: FormulaValue, length: FormulaValue) => {
+      const begin = Math.trunc(toNumber(start));
+      if (begin < 1) throw new FormulaEvaluationError('#VALUE!');
+      return toText(text).substring(begin - 1, begin - 1 + this.toLength(length));
     });
 
-    // 日付関数
-    this.registerFunction('TODAY', () => new Date());
-    this.registerFunction('NOW', () => new Date());
+    this.registerFunctions(TEXT_FUNCTIONS);
+
+    // 日付・時刻関数
+    this.registerFunctions(DATE_FUNCTIONS);
+
+    // 検索・行列関数
+    this.registerFunctions(LOOKUP_FUNCTIONS);
+
+    // 条件付き集計関数
+    this.registerFunctions(CRITERIA_FUNCTIONS);
+
+    // 財務関数
+    this.registerFunctions(FINANCIAL_FUNCTIONS);
+
+    // 配列関数（結果を隣接するセルに展開する）
+    this.registerFunctions(ARRAY_FUNCTIONS);
+
+    // LAMBDAの関数を使う関数（LET・LAMBDAは評価器で処理する）
+    this.registerFunctions(LAMBDA_FUNCTIONS);
 
     // Volatile関数（再計算時に常に更新される関数）
     if (this.options.enableVolatileFunctions) {
       this.registerFunction('RAND', () => Math.random());
-      this.registerFunction('RANDBETWEEN', (bottom: number, top: number) => {
-        return Math.floor(Math.random() * (top - bottom + 1)) + bottom;
+      this.registerFunction('RANDBETWEEN', (bottom: FormulaValue, top: FormulaValue) => {
+        const low = Math.ceil(toNumber(bottom));
+        const high = Math.floor(toNumber(top));
+        if (low > high) throw new FormulaEvaluationError('#NUM!');
+        return Math.floor(Math.random() * (high - low + 1)) + low;
       });
+      this.registerFunctions(VOLATILE_ARRAY_FUNCTIONS);
     }
   }
 
+  /**
+   * 論理関数の引数から論理値を集める（参照内の文字列・空白は無視する）
+   */
+  private collectBooleans(values: FormulaValue[]): boolean[] {
+    const booleans: boolean[] = [];
+    for (const value of values) {
+      if (Array.isArray(value)) {
+        for (const item of flattenValues([value])) {
+          if (isFormulaErrorValue(item)) throw new FormulaEvaluationError(item.code);
+          if (typeof item === 'number' || typeof item === 'boolean') booleans.push(toBoolean(item));
+        }
+      } else if (value !== null) {
+        booleans.push(toBoolean(value));
+      }
+    }
+    if (booleans.length === 0) throw new FormulaEvaluationError('#VALUE!');
+    return booleans;
+  }
+
+  /**
+   * 文字数の引数を0以上の整数に変換する
+   */
+  private toLength(value: FormulaValue): number {
+    const length = Math.trunc(toNumber(value));
+    if (length < 0) throw new FormulaEvaluationError('#VALUE!');
+    return length;
+  }
+
   /**
    * カスタム関数を登録する
    */
@@ -467,11 +991,108 @@ export class FormulaCalculator {
     }
   }
 
+  /**
+   * プラグインの関数を登録する
+   * 関数名が登録済みの関数と重複する場合は登録しない。揮発性の関数は揮発性関数を有効にした場合のみ登録する
+   */
+  registerPlugin(plugin: FormulaPluginDefinition): { success: boolean; error?: string } {
+    const validation = validateFormulaPlugin(plugin);
+    if (!validation.isValid) {
+      return { success: false, error: validation.error };
+    }
+    if (this.plugins.has(plugin.name.toLowerCase())) {
+      return { success: false, error: `プラグインは既に登録されています: ${plugin.name}` };
+    }
+
+    const enabled = plugin.functions.filter(func => !func.volatile || this.options.enableVolatileFunctions);
+    const duplicate = enabled.find(func =>
+      this.functionRegistry.has(func.name.toUpperCase()) || SPECIAL_FUNCTION_NAMES.includes(func.name.toUpperCase()));
+    if (duplicate) {
+      return { success: false, error: `関数名が登録済みの関数と重複しています: ${duplicate.name}` };
+    }
+
+    const library = createPluginFunctionLibrary(
+      { ...plugin, functions: enabled },
+      this.options.pluginSandbox ?? createBrowserWorkerPluginSandbox
+    );
+    this.registerFunctions(library.functions);
+    this.plugins.set(plugin.name.toLowerCase(), {
+      functions: enabled.map(func => {
+        const { min, max } = getPluginFunctionArity(func);
+        return { ...func, plugin: plugin.name, minArguments: min, maxArguments: max };
+      }),
+      library: library.functions,
+      dispose: library.dispose
+    });
+    return { success: true };
+  }
+
+  /**
+   * プラグインの登録を解除する（実行環境も破棄する）
+   */
+  unregisterPlugin(name: string): boolean {
+    const plugin = this.plugins.get(name.toLowerCase());
+    if (!plugin) {
+      return false;
+    }
+    for (const func of plugin.functions) {
+      this.functionRegistry.delete(func.name.toUpperCase());
+      this.functionOptions.delete(func.name.toUpperCase());
+    }
+    plugin.dispose();
+    this.plugins.delete(name.toLowerCase());
+    return true;
+  }
+
+  /**
+   * 登録したプラグインの関数の情報を取得する（関数名順）
+   */
+  getPluginFunctions(): FormulaPluginFunctionInfo[] {
+    return Array.from(this.plugins.values())
+      .flatMap(plugin => plugin.functions)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * 登録したプラグインの関数を関数ライブラリとして取得する（HyperFormulaへの登録に使う）
+   */
+  getPluginFunctionLibrary(): FormulaFunctionLibrary {
+    return Object.assign({}, ...Array.from(this.plugins.values()).map(plugin => plugin.library));
+  }
+
+  /**
+   * 登録したすべてのプラグインの実行環境を破棄する
+   */
+  disposePlugins(): void {
+    this.plugins.forEach(plugin => plugin.dispose());
+  }
+
   /**
    * 関数を登録する
    */
-  private registerFunction(name: string, func: Function): void {
+  private registerFunction(name: string, func: Function, options: FormulaFunctionOptions = {}): void {
     this.functionRegistry.set(name.toUpperCase(), func);
+    this.functionOptions.set(name.toUpperCase(), options);
+  }
+
+  /**
+   * 関数の定義をまとめて登録する
+   */
+  private registerFunctions(library: FormulaFunctionLibrary): void {
+    for (const [name, entry] of Object.entries(library)) {
+      this.registerFunction(name, entry.implementation, entry.options);
+    }
+  }
+
+  /**
+   * 数式の評価に使用する関数の定義を取得する
+   */
+  resolveFunction(name: string): FormulaFunctionEntry | undefined {
+    const implementation = this.getFunction(name);
+    if (!implementation) {
+      return undefined;
+    }
+    return { implementation, options: this.functionOptions.get(name.toUpperCase()) ?? {} };
   }
 
   /**
@@ -485,7 +1106,16 @@ export class FormulaCalculator {
    * 利用可能な関数のリストを取得する
    */
   getAvailableFunctions(): string[] {
-    return Array.from(this.functionRegistry.keys()).sort();
+    return Array.from(new Set([...this.functionRegistry.keys(), ...SPECIAL_FUNCTION_NAMES])).sort();
+  }
+
+  /**
+   * 関数の引数の一覧を取得する（組み込みの関数とプラグインの関数。引数の情報がない関数はundefined）
+   */
+  getFunctionSignature(name: string): FormulaFunctionSignature | undefined {
+    const upperName = name.toUpperCase();
+    const pluginFunction = this.getPluginFunctions().find(func => func.name.toUpperCase() === upperName);
+    return pluginFunction ? pluginFunctionToSignature(pluginFunction) : getBuiltInFunctionSignature(upperName);
   }
 
   /**
@@ -494,6 +1124,7 @@ export class FormulaCalculator {
   getCalculationStats(): {
     totalFunctions: number;
     customFunctions: number;
+    pluginFunctions: number;
     volatileFunctionsEnabled: boolean;
     arrayFormulasEnabled: boolean;
   } {
@@ -502,6 +1133,7 @@ export class FormulaCalculator {
     return {
       totalFunctions: this.functionRegistry.size,
       customFunctions: customFunctionCount,
+      pluginFunctions: this.getPluginFunctions().length,
       volatileFunctionsEnabled: this.options.enableVolatileFunctions || false,
       arrayFormulasEnabled: this.options.enableArrayFormulas || false
     };
@@ -515,14 +1147,21 @@ export function createCalculationContext(
   spreadsheet: Spreadsheet,
   options: Partial<CalculationContext> = {}
 ): CalculationContext {
+  const resolveSheet = (position: SheetCellPosition) =>
+    resolveContextSheet({ spreadsheet, workbook: options.workbook }, position.sheetName);
+
   return {
     spreadsheet,
-    getCurrentCellValue: (position: CellPosition) => {
-      const cell = getCellFromSpreadsheet(spreadsheet, position);
+    getCurrentCellValue: (position: SheetCellPosition) => {
+      const sheet = resolveSheet(position);
+      if (!sheet) return '#REF!';
+      const cell = getCellFromSpreadsheet(sheet, position);
       return cell?.rawValue || null;
     },
-    getCalculatedCellValue: (position: CellPosition) => {
-      const cell = getCellFromSpreadsheet(spreadsheet, position);
+    getCalculatedCellValue: (position: SheetCellPosition) => {
+      const sheet = resolveSheet(position);
+      if (!sheet) return '#REF!';
+      const cell = getCellFromSpreadsheet(sheet, position);
       return cell?.displayValue || null;
     },
     preventCircularReference: true,
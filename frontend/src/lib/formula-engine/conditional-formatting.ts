@@ -0,0 +1,376 @@
+/**
+ * Conditional Formatting Library
+ * シートの条件付き書式のルールを計算後のセルの値に対して評価し、セルごとの表示の書式を求めるライブラリ
+ * 数式のセルの値は計算エンジンで求めるため、再計算した後のシートで評価し直せば最新の値に追従する
+ */
+
+import { CellPosition } from '../cell';
+import { Spreadsheet, cellPositionToKey } from '../spreadsheet';
+import { Workbook } from '../workbook';
+import { offsetFormulaReferences } from '../formula';
+import { dateObjectToSerial, dateTextToSerial } from '../date-serial';
+import {
+  CONDITIONAL_FORMAT_ICON_SETS,
+  ConditionalFormatArea,
+  ConditionalFormatRule,
+  ConditionalFormatStyle,
+  CellValueRule,
+  parseConditionalFormatRange
+} from '../conditional-format';
+import { CalculationContext, CalculationResult, FormulaCalculator, createCalculationContext } from './calculator';
+
+/**
+ * セルに適用する条件付き書式（優先度の高いルールの書式から順に重ねた結果）
+ */
+export interface ConditionalFormatResult extends ConditionalFormatStyle {
+  dataBar?: { ratio: number; color: string };  // ratioは0〜1の棒の長さ
+  icon?: { symbol: string; color: string };
+}
+
+export interface ConditionalFormatEvaluationOptions {
+  workbook?: Workbook;  // 他のシートを参照する数式の解決に使用
+}
+
+/**
+ * ルールの評価に使うセルの値（空のセル・エラー値はnull）
+ */
+type RuleValue = number | string | boolean | null;
+
+interface RuleCell {
+  key: string;
+  position: CellPosition;
+  value: RuleValue;
+}
+
+/**
+ * シートの条件付き書式を評価する（キーはセルのキー）
+ * ルールは配列の先頭ほど優先度が高く、同じ書式の項目は優先度の高いルールの書式を使う。
+ * stopIfTrueのルールを満たしたセルには、それより優先度の低いルールを適用しない
+ */
+export function evaluateConditionalFormats(
+  spreadsheet: Spreadsheet,
+  calculator: FormulaCalculator,
+  options: ConditionalFormatEvaluationOptions = {}
+): Map<string, ConditionalFormatResult> {
+  const results = new Map<string, ConditionalFormatResult>();
+  const rules = spreadsheet.conditionalFormats ?? [];
+  if (rules.length === 0) {
+    return results;
+  }
+
+  const evaluator = new RuleEvaluator(spreadsheet, calculator, options);
+  const stopped = new Set<string>();
+
+  for (const rule of rules) {
+    let areas: ConditionalFormatArea[];
+    try {
+      areas = parseConditionalFormatRange(rule.range);
+    } catch {
+      continue;
+    }
+
+    for (const [key, format] of evaluator.evaluate(rule, areas)) {
+      if (stopped.has(key)) continue;
+
+      results.set(key, { ...format, ...results.get(key) });
+      if (rule.stopIfTrue) {
+        stopped.add(key);
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * ルールを評価する（セルの値は一度だけ計算する）
+ */
+class RuleEvaluator {
+  private readonly context: CalculationContext;
+  private readonly values = new Map<string, RuleValue>();
+
+  constructor(
+    private readonly spreadsheet: Spreadsheet,
+    private readonly calculator: FormulaCalculator,
+    options: ConditionalFormatEvaluationOptions
+  ) {
+    this.context = createCalculationContext(spreadsheet, { workbook: options.workbook, valueCache: new Map() });
+  }
+
+  /**
+   * ルールを満たしたセルと、そのセルに適用する書式を求める
+   */
+  evaluate(rule: ConditionalFormatRule, areas: ConditionalFormatArea[]): Map<string, ConditionalFormatResult> {
+    const cells = this.getCells(areas);
+    const origin = areas[0].start;
+    const matched = new Map<string, ConditionalFormatResult>();
+
+    const applyStyle = (predicate: (cell: RuleCell) => boolean, style: ConditionalFormatStyle) => {
+      const format = definedStyle(style);
+      cells.filter(predicate).forEach(cell => matched.set(cell.key, format));
+    };
+
+    const numbers = cells.filter((cell): cell is RuleCell & { value: number } => typeof cell.value === 'number');
+    const numericValues = numbers.map(cell => cell.value);
+    const min = Math.min(...numericValues);
+    const max = Math.max(...numericValues);
+
+    switch (rule.type) {
+      case 'cellValue':
+        applyStyle(cell => cell.value !== null && this.matchesCellValue(rule, cell, origin), rule.style);
+        break;
+
+      case 'textContains': {
+        const text = rule.text.toLowerCase();
+        applyStyle(cell => {
+          if (cell.value === null) return false;
+          const value = String(cell.value).toLowerCase();
+          switch (rule.operator) {
+            case 'contains': return value.includes(text);
+            case 'notContains': return !value.includes(text);
+            case 'beginsWith': return value.startsWith(text);
+            case 'endsWith': return value.endsWith(text);
+          }
+        }, rule.style);
+        break;
+      }
+
+      case 'topBottom': {
+        if (numbers.length === 0) break;
+        const sorted = [...numericValues].sort((a, b) => (rule.direction === 'top' ? b - a : a - b));
+        const count = rule.percent
+          ? Math.max(1, Math.floor(sorted.length * rule.rank / 100))
+          : Math.min(rule.rank, sorted.length);
+        const threshold = sorted[count - 1];
+        applyStyle(cell => typeof cell.value === 'number' &&
+          (rule.direction === 'top' ? cell.value >= threshold : cell.value <= threshold), rule.style);
+        break;
+      }
+
+      case 'average': {
+        if (numbers.length === 0) break;
+        const average = numericValues.reduce((sum, value) => sum + value, 0) / numericValues.length;
+        applyStyle(cell => {
+          if (typeof cell.value !== 'number') return false;
+          if (rule.equalAverage && cell.value === average) return true;
+          return rule.direction === 'above' ? cell.value > average : cell.value < average;
+        }, rule.style);
+        break;
+      }
+
+      case 'duplicate': {
+        const counts = new Map<string, number>();
+        const valueKey = (value: RuleValue) => (typeof value === 'string' ? `s:${value.toLowerCase()}` : `v:${value}`);
+        cells.forEach(cell => {
+          if (cell.value !== null) counts.set(valueKey(cell.value), (counts.get(valueKey(cell.value)) ?? 0) + 1);
+        });
+        applyStyle(cell => {
+          if (cell.value === null) return false;
+          const count = counts.get(valueKey(cell.value))!;
+          return rule.unique ? count === 1 : count > 1;
+        }, rule.style);
+        break;
+      }
+
+      case 'formula':
+        applyStyle(cell => isTruthy(this.calculateAt(rule.formula, cell.position, origin)), rule.style);
+        break;
+
+      case 'colorScale': {
+        if (numbers.length === 0) break;
+        const sorted = [...numericValues].sort((a, b) => a - b);
+        const middle = sorted.length % 2 === 1
+          ? sorted[(sorted.length - 1) / 2]
+          : (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2;
+        const { minColor, midColor, maxColor } = rule;
+
+        numbers.forEach(cell => {
+          const color = !midColor
+            ? interpolateColor(minColor, maxColor, ratioBetween(cell.value, min, max))
+            : cell.value <= middle
+              ? interpolateColor(minColor, midColor, ratioBetween(cell.value, min, middle))
+              : interpolateColor(midColor, maxColor, ratioBetween(cell.value, middle, max));
+          matched.set(cell.key, { backgroundColor: color });
+        });
+        break;
+      }
+
+      case 'dataBar': {
+        if (numbers.length === 0) break;
+        const low = Math.min(0, min);
+        const high = Math.max(0, max);
+        numbers.forEach(cell => matched.set(cell.key, {
+          dataBar: { ratio: high === low ? 0 : (cell.value - low) / (high - low), color: rule.color },
+        }));
+        break;
+      }
+
+      case 'iconSet': {
+        if (numbers.length === 0) break;
+        const icons = CONDITIONAL_FORMAT_ICON_SETS[rule.iconSet];
+        numbers.forEach(cell => {
+          const ratio = max === min ? 1 : (cell.value - min) / (max - min);
+          const index = ratio >= 0.67 ? 2 : ratio >= 0.33 ? 1 : 0;
+          matched.set(cell.key, { icon: icons[rule.reverse ? icons.length - 1 - index : index] });
+        });
+        break;
+      }
+    }
+
+    return matched;
+  }
+
+  /**
+   * 適用範囲のセル（シートの範囲外は除き、重なった領域のセルは1回だけ含める）
+   */
+  private getCells(areas: ConditionalFormatArea[]): RuleCell[] {
+    const cells = new Map<string, RuleCell>();
+    for (const { start, end } of areas) {
+      const lastRow = Math.min(end.row, this.spreadsheet.rowCount - 1);
+      const lastColumn = Math.min(end.column, this.spreadsheet.columnCount - 1);
+      for (let row = start.row; row <= lastRow; row++) {
+        for (let column = start.column; column <= lastColumn; column++) {
+          const position = { row, column };
+          const key = cellPositionToKey(position);
+          if (!cells.has(key)) {
+            cells.set(key, { key, position, value: this.getValue(key, position) });
+          }
+        }
+      }
+    }
+    return Array.from(cells.values());
+  }
+
+  /**
+   * セルの計算後の値
+   */
+  private getValue(key: string, position: CellPosition): RuleValue {
+    if (!this.values.has(key)) {
+      this.values.set(key, this.toRuleValue(this.calculator.calculateCellValue(position, this.context)));
+    }
+    return this.values.get(key)!;
+  }
+
+  /**
+   * 数式をセルの位置で計算する（相対参照は範囲の左上のセルからの位置だけずらす）
+   */
+  private calculateAt(formula: string, position: CellPosition, origin: CellPosition): RuleValue {
+    const shifted = offsetFormulaReferences(formula, position.row - origin.row, position.column - origin.column);
+    const result = this.calculator.calculate(shifted, {
+      ...this.context,
+      currentPosition: { ...position, sheetName: this.spreadsheet.name },
+    });
+    return this.toRuleValue(result);
+  }
+
+  /**
+   * セルの値の比較（文字列どうし・文字列と数値の比較は大文字小文字を区別しない文字列の比較）
+   */
+  private matchesCellValue(rule: CellValueRule, cell: RuleCell, origin: CellPosition): boolean {
+    const operand = (text: string) =>
+      text.startsWith('=') ? this.calculateAt(text, cell.position, origin) : this.parseOperand(text);
+
+    const first = operand(rule.value1);
+    if (first === null) return false;
+    const compareTo = (other: RuleValue) => compareRuleValues(cell.value!, other!);
+
+    switch (rule.operator) {
+      case 'greaterThan': return compareTo(first) > 0;
+      case 'greaterThanOrEqual': return compareTo(first) >= 0;
+      case 'lessThan': return compareTo(first) < 0;
+      case 'lessThanOrEqual': return compareTo(first) <= 0;
+      case 'equal': return compareTo(first) === 0;
+      case 'notEqual': return compareTo(first) !== 0;
+      case 'between':
+      case 'notBetween': {
+        const second = operand(rule.value2 ?? '');
+        if (second === null) return false;
+        const [low, high] = compareRuleValues(first, second) <= 0 ? [first, second] : [second, first];
+        const inside = compareTo(low) >= 0 && compareTo(high) <= 0;
+        return rule.operator === 'between' ? inside : !inside;
+      }
+    }
+  }
+
+  /**
+   * 比較する値の文字列を値に変換する（数値・日付・TRUE/FALSE・"で囲んだ文字列）
+   */
+  private parseOperand(text: string): RuleValue {
+    const trimmed = text.trim();
+    if (trimmed === '') return null;
+    if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(trimmed)) return Number(trimmed);
+    if (/^(true|false)$/i.test(trimmed)) return trimmed.toLowerCase() === 'true';
+    const serial = dateTextToSerial(trimmed, this.calculator.getDateSystem());
+    if (serial !== null) return serial;
+    return trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')
+      ? trimmed.slice(1, -1).replace(/""/g, '"')
+      : trimmed;
+  }
+
+  /**
+   * 計算結果をルールの評価に使う値に変換する（日付はシリアル値）
+   */
+  private toRuleValue(result: CalculationResult): RuleValue {
+    if (!result.success || result.dataType === 'error' || result.dataType === 'empty') return null;
+    const { value } = result;
+    if (value instanceof Date) return dateObjectToSerial(value, this.calculator.getDateSystem());
+    if (typeof value === 'number' || typeof value === 'boolean') return value;
+    if (typeof value === 'string') return value === '' ? null : value;
+    return null;
+  }
+}
+
+/**
+ * 値を比較する（数値・真偽値どうしは値、それ以外は文字列として比較する）
+ */
+function compareRuleValues(a: Exclude<RuleValue, null>, b: Exclude<RuleValue, null>): number {
+  if (typeof a !== 'string' && typeof b !== 'string') {
+    return Number(a) - Number(b);
+  }
+  return String(a).toLowerCase().localeCompare(String(b).toLowerCase());
+}
+
+/**
+ * 数式の結果を条件として判定する（TRUEか0以外の数値）
+ */
+function isTruthy(value: RuleValue): boolean {
+  return value === true || (typeof value === 'number' && value !== 0);
+}
+
+/**
+ * 指定した書式の項目だけを取り出す
+ */
+function definedStyle(style: ConditionalFormatStyle): ConditionalFormatResult {
+  return Object.fromEntries(
+    Object.entries(style).filter(([, value]) => value !== undefined && value !== '')
+  ) as ConditionalFormatResult;
+}
+
+/**
+ * 最小値から最大値までの間の値の位置（0〜1、最小値と最大値が同じ場合は0.5）
+ */
+function ratioBetween(value: number, min: number, max: number): number {
+  return max === min ? 0.5 : Math.min(1, Math.max(0, (value - min) / (max - min)));
+}
+
+/**
+ * 2つの色（#rrggbb）の間の色を求める
+ */
+function interpolateColor(from: string, to: string, ratio: number): string {
+  const parse = (color: string) => {
+    const match = color.match(/^#([0-9a-f]{6})$/i);
+    if (!match) return null;
+    const value = parseInt(match[1], 16);
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+  };
+
+  const start = parse(from);
+  const end = parse(to);
+  if (!start || !end) {
+    return ratio < 0.5 ? from : to;
+  }
+
+  return '#' + start
+    .map((channel, i) => Math.round(channel + (end[i] - channel) * ratio).toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,288 @@
+/**
+ * Criteria Functions Library
+ * 検索条件による集計関数（SUMIF・COUNTIFS・MAXIFSなど）を提供するライブラリ
+ */
+
+import { CellRange } from '../formula';
+import {
+  FormulaArray,
+  FormulaCallContext,
+  FormulaEvaluationError,
+  FormulaFunctionLibrary,
+  FormulaReference,
+  FormulaScalar,
+  FormulaValue,
+  compareFormulaValues,
+  isFormulaErrorValue,
+  isFormulaReference,
+  toScalar
+} from './evaluator';
+import { createWildcardPattern } from './lookup-functions';
+
+/**
+ * 検索条件（値を受け取り条件を満たすかを返す）
+ */
+export type CriteriaMatcher = (value: FormulaScalar) => boolean;
+
+const CRITERIA_OPERATOR_PATTERN = /^(<=|>=|<>|<|>|=)?([\s\S]*)$/;
+
+/**
+ * 数値として解釈できる文字列を数値に変換する（できない場合はundefined）
+ */
+function parseNumericText(text: string): number | undefined {
+  if (text.trim() === '') return undefined;
+  const number = Number(text);
+  return isNaN(number) ? undefined : number;
+}
+
+/**
+ * 比較結果が演算子の条件を満たすか
+ */
+function satisfies(operator: string, comparison: number): boolean {
+  switch (operator) {
+    case '<': return comparison < 0;
+    case '<=': return comparison <= 0;
+    case '>': return comparison > 0;
+    case '>=': return comparison >= 0;
+    case '<>': return comparison !== 0;
+    default: return comparison === 0;
+  }
+}
+
+/**
+ * Excelの検索条件（100、">=100"、"<>x"、"a*"、"?b" など）から条件を作成する
+ * 数値の条件は数値（と数値として解釈できる文字列）のセル、文字列の条件は文字列のセルと比較し、
+ * 等号の文字列条件ではワイルドカードを使える。"" は空白のセル、"<>" は空白以外のセルに一致する
+ */
+export function createCriteriaMatcher(criteria: FormulaValue): CriteriaMatcher {
+  const scalar = toScalar(criteria);
+
+  if (isFormulaErrorValue(scalar)) {
+    return value => isFormulaErrorValue(value) && value.code === scalar.code;
+  }
+  if (scalar === null || typeof scalar === 'number') {
+    const target = scalar ?? 0;
+    return value => typeof value === 'number'
+      ? value === target
+      : typeof value === 'string' && parseNumericText(value) === target;
+  }
+  if (typeof scalar === 'boolean') {
+    return value => value === scalar;
+  }
+
+  const [, operator = '', operand] = scalar.match(CRITERIA_OPERATOR_PATTERN)!;
+  const isEquality = operator === '' || operator === '=';
+  const matches = createOperandMatcher(operator, operand);
+  // <> は一致しないすべてのセル（空白を含む）を対象にする
+  return operator === '<>' ? value => !matches.equals(value) : isEquality ? matches.equals : matches.compare;
+}
+
+/**
+ * 演算子を除いた条件の値から、等しいかの判定と大小比較の判定を作成する
+ */
+function createOperandMatcher(operator: string, operand: string): { equals: CriteriaMatcher; compare: CriteriaMatcher } {
+  const number = parseNumericText(operand);
+  if (number !== undefined) {
+    return {
+      equals: value => typeof value === 'number'
+        ? value === number
+        : typeof value === 'string' && parseNumericText(value) === number,
+      compare: value => typeof value === 'number' && satisfies(operator, compareFormulaValues(value, number)),
+    };
+  }
+
+  const upper = operand.toUpperCase();
+  if (upper === 'TRUE' || upper === 'FALSE') {
+    const bool = upper === 'TRUE';
+    return {
+      equals: value => value === bool,
+      compare: value => typeof value === 'boolean' && satisfies(operator, compareFormulaValues(value, bool)),
+    };
+  }
+
+  if (operand.startsWith('#')) {
+    return {
+      equals: value => isFormulaErrorValue(value) && value.code === upper,
+      compare: () => false,
+    };
+  }
+
+  if (operand === '') {
+    // "" と "=" は空白（空文字列を含む）のセルに一致する
+    return {
+      equals: value => value === null || value === '',
+      compare: () => false,
+    };
+  }
+
+  const pattern = createWildcardPattern(operand);
+  return {
+    equals: value => typeof value === 'string' && pattern.test(value),
+    compare: value => typeof value === 'string' && satisfies(operator, compareFormulaValues(value, operand)),
+  };
+}
+
+/**
+ * 値を2次元配列として扱う
+ */
+function toArray(value: FormulaValue): FormulaArray {
+  return Array.isArray(value) ? value : [[value]];
+}
+
+/**
+ * 参照で指定された集計範囲を、条件範囲と同じ大きさに広げて取得する（SUMIF・AVERAGEIFの第3引数）
+ */
+function resizeTargetRange(
+  context: FormulaCallContext,
+  target: FormulaValue | FormulaReference,
+  rows: number,
+  columns: number
+): FormulaArray {
+  if (!isFormulaReference(target)) {
+    return toArray(target);
+  }
+  const start = {
+    row: Math.min(target.range.start.row, target.range.end.row),
+    column: Math.min(target.range.start.column, target.range.end.column)
+  };
+  const range: CellRange = {
+    ...target.range,
+    start,
+    end: { row: start.row + rows - 1, column: start.column + columns - 1 }
+  };
+  return context.getRangeValues(range);
+}
+
+/**
+ * 条件範囲と条件の組から、すべての条件を満たすセルの位置を求める
+ */
+function findMatchingCells(pairs: FormulaValue[], rows?: number, columns?: number): Array<[number, number]> {
+  if (pairs.length === 0 || pairs.length % 2 !== 0) {
+    throw new FormulaEvaluationError('#VALUE!', '条件範囲と条件は組で指定してください');
+  }
+
+  const conditions: Array<{ range: FormulaArray; matches: CriteriaMatcher }> = [];
+  for (let i = 0; i < pairs.length; i += 2) {
+    conditions.push({ range: toArray(pairs[i]), matches: createCriteriaMatcher(pairs[i + 1]) });
+  }
+
+  const height = rows ?? conditions[0].range.length;
+  const width = columns ?? conditions[0].range[0].length;
+  if (conditions.some(({ range }) => range.length !== height || range[0].length !== width)) {
+    throw new FormulaEvaluationError('#VALUE!', '条件範囲の大きさが一致しません');
+  }
+
+  const cells: Array<[number, number]> = [];
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      if (conditions.every(({ range, matches }) => matches(range[row][column]))) {
+        cells.push([row, column]);
+      }
+    }
+  }
+  return cells;
+}
+
+/**
+ * 一致したセルの位置にある数値を集める（文字列・論理値・空白は無視し、エラー値はそのエラーを投げる）
+ */
+function collectMatchedNumbers(values: FormulaArray, cells: Array<[number, number]>): number[] {
+  const numbers: number[] = [];
+  for (const [row, column] of cells) {
+    const value = values[row]?.[column] ?? null;
+    if (isFormulaErrorValue(value)) throw new FormulaEvaluationError(value.code, value.message);
+    if (typeof value === 'number') numbers.push(value);
+  }
+  return numbers;
+}
+
+/**
+ * 単一条件の集計（SUMIF・AVERAGEIF）で集計する数値を求める
+ */
+function collectSingleCriteriaNumbers(
+  context: FormulaCallContext,
+  range: FormulaValue,
+  criteria: FormulaValue,
+  target?: FormulaValue | FormulaReference
+): number[] {
+  const criteriaRange = toArray(range);
+  const cells = findMatchingCells([criteriaRange, criteria]);
+  const values = target === undefined || target === null
+    ? criteriaRange
+    : resizeTargetRange(context, target, criteriaRange.length, criteriaRange[0].length);
+  return collectMatchedNumbers(values, cells);
+}
+
+/**
+ * 複数条件の集計（SUMIFS・MAXIFSなど）で集計する数値を求める
+ */
+function collectMultipleCriteriaNumbers(target: FormulaValue, pairs: FormulaValue[]): number[] {
+  const values = toArray(target);
+  return collectMatchedNumbers(values, findMatchingCells(pairs, values.length, values[0].length));
+}
+
+function sum(numbers: number[]): number {
+  return numbers.reduce((total, value) => total + value, 0);
+}
+
+function average(numbers: number[]): number {
+  if (numbers.length === 0) throw new FormulaEvaluationError('#DIV/0!');
+  return sum(numbers) / numbers.length;
+}
+
+/**
+ * 検索条件による集計関数
+ * 範囲の引数は単一セルでも配列で受け取る
+ */
+export const CRITERIA_FUNCTIONS: FormulaFunctionLibrary = {
+  SUMIF: {
+    implementation: (context: FormulaCallContext, range: FormulaValue, criteria: FormulaValue, sumRange?: FormulaValue | FormulaReference) =>
+      sum(collectSingleCriteriaNumbers(context, range, criteria, sumRange)),
+    options: { withContext: true, referencesAsArrays: true, referenceArguments: [2] }
+  },
+
+  SUMIFS: {
+    implementation: (sumRange: FormulaValue, ...pairs: FormulaValue[]) =>
+      sum(collectMultipleCriteriaNumbers(sumRange, pairs)),
+    options: { referencesAsArrays: true }
+  },
+
+  COUNTIF: {
+    implementation: (range: FormulaValue, criteria: FormulaValue) =>
+      findMatchingCells([range, criteria]).length,
+    options: { referencesAsArrays: true, acceptsErrors: true }
+  },
+
+  COUNTIFS: {
+    implementation: (...pairs: FormulaValue[]) => findMatchingCells(pairs).length,
+    options: { referencesAsArrays: true, acceptsErrors: true }
+  },
+
+  AVERAGEIF: {
+    implementation: (context: FormulaCallContext, range: FormulaValue, criteria: FormulaValue, averageRange?: FormulaValue | FormulaReference) =>
+      average(collectSingleCriteriaNumbers(context, range, criteria, averageRange)),
+    options: { withContext: true, referencesAsArrays: true, referenceArguments: [2] }
+  },
+
+  AVERAGEIFS: {
+    implementation: (averageRange: FormulaValue, ...pairs: FormulaValue[]) =>
+      average(collectMultipleCriteriaNumbers(averageRange, pairs)),
+    options: { referencesAsArrays: true }
+  },
+
+  MAXIFS: {
+    implementation: (maxRange: FormulaValue, ...pairs: FormulaValue[]) => {
+      const numbers = collectMultipleCriteriaNumbers(maxRange, pairs);
+      return numbers.length > 0 ? Math.max(...numbers) : 0;
+    },
+    options: { referencesAsArrays: true }
+  },
+
+  MINIFS: {
+    implementation: (minRange: FormulaValue, ...pairs: FormulaValue[]) => {
+      const numbers = collectMultipleCriteriaNumbers(minRange, pairs);
+      return numbers.length > 0 ? Math.min(...numbers) : 0;
+    },
+    options: { referencesAsArrays: true }
+  },
+};
@@ -0,0 +1,372 @@
+/**
+ * Date Functions Library
+ * 日付・時刻関数（DATE・WEEKDAY・EDATE・NETWORKDAYS・TEXTなど）を提供するライブラリ
+ * 日付は日付システム（1900年・1904年）のシリアル値として扱う
+ */
+
+import {
+  DateSystem,
+  dateObjectToSerial,
+  dateTextToSerial,
+  dateToSerial,
+  getSerialWeekday,
+  isDateFormatCode,
+  isValidDateSerial,
+  serialToDateParts,
+  timeToSerial
+} from '../date-serial';
+import { formatNumberCode } from '../number-format';
+import {
+  FormulaCallContext,
+  FormulaEvaluationError,
+  FormulaFunctionLibrary,
+  FormulaValue,
+  flattenValues,
+  isFormulaErrorValue,
+  toNumber,
+  toScalar,
+  toText
+} from './evaluator';
+
+/**
+ * 日付・時刻を返す関数の表示形式
+ */
+const DATE_FORMAT = 'yyyy/m/d';
+const DATE_TIME_FORMAT = 'yyyy/m/d h:mm';
+const TIME_FORMAT = 'h:mm';
+
+/**
+ * 引数を日付のシリアル値に変換する（日付・時刻の文字列も受け付け、範囲外は#NUM!）
+ */
+function toSerial(context: FormulaCallContext, value: FormulaValue): number {
+  const scalar = toScalar(value);
+  let serial: number;
+  if (typeof scalar === 'string') {
+    const parsed = dateTextToSerial(scalar, context.dateSystem);
+    serial = parsed ?? toNumber(scalar);
+  } else {
+    serial = toNumber(scalar);
+  }
+  if (!isValidDateSerial(serial, context.dateSystem)) {
+    throw new FormulaEvaluationError('#NUM!', '日付が範囲外です');
+  }
+  return serial;
+}
+
+/**
+ * 引数を日付（小数部の時刻を除いたシリアル値）に変換する
+ */
+function toDateSerial(context: FormulaCallContext, value: FormulaValue): number {
+  return Math.floor(toSerial(context, value));
+}
+
+/**
+ * 結果の日付が範囲内であることを確認する
+ */
+function checkSerial(context: FormulaCallContext, serial: number): number {
+  if (!isValidDateSerial(serial, context.dateSystem)) {
+    throw new FormulaEvaluationError('#NUM!', '日付が範囲外です');
+  }
+  return serial;
+}
+
+/**
+ * 祝日の引数（セル範囲・配列・単一の値）から日付の集合を作成する
+ */
+function toHolidaySet(context: FormulaCallContext, holidays?: FormulaValue): Set<number> {
+  const serials = new Set<number>();
+  if (holidays === undefined || holidays === null) return serials;
+  for (const value of flattenValues([holidays])) {
+    if (isFormulaErrorValue(value)) throw new FormulaEvaluationError(value.code, value.message);
+    if (value !== null) serials.add(toDateSerial(context, value));
+  }
+  return serials;
+}
+
+/**
+ * 土曜日・日曜日でないかどうか
+ */
+function isWeekday(serial: number, dateSystem: DateSystem): boolean {
+  const weekday = getSerialWeekday(serial, dateSystem);
+  return weekday !== 0 && weekday !== 6;
+}
+
+/**
+ * 開始日から終了日まで（両端を含む）の平日の日数を求める
+ */
+function countWeekdays(start: number, end: number, dateSystem: DateSystem): number {
+  const days = end - start + 1;
+  const weeks = Math.floor(days / 7);
+  let count = weeks * 5;
+  for (let serial = start + weeks * 7; serial <= end; serial++) {
+    if (isWeekday(serial, dateSystem)) count++;
+  }
+  return count;
+}
+
+/**
+ * 月の日数を求める（1900年システムの1900年2月は29日）
+ */
+function daysInMonth(year: number, month: number, dateSystem: DateSystem): number {
+  return dateToSerial(year, month + 1, 1, dateSystem) - dateToSerial(year, month, 1, dateSystem);
+}
+
+/**
+ * 月数を加えた日付を求める（月末を超える日は月末にする）
+ */
+function addMonths(context: FormulaCallContext, start: FormulaValue, months: FormulaValue): { year: number; month: number; day: number } {
+  const { year, month, day } = serialToDateParts(toDateSerial(context, start), context.dateSystem);
+  const total = year * 12 + (month - 1) + Math.trunc(toNumber(months));
+  const targetYear = Math.floor(total / 12);
+  const targetMonth = total - targetYear * 12 + 1;
+  return {
+    year: targetYear,
+    month: targetMonth,
+    day: Math.min(day, daysInMonth(targetYear, targetMonth, context.dateSystem))
+  };
+}
+
+/**
+ * 曜日の種類ごとの週の始まりの曜日（0: 日曜日〜6: 土曜日）
+ */
+function getWeekStart(type: number, allowed: number[]): number {
+  if (!allowed.includes(type)) {
+    throw new FormulaEvaluationError('#NUM!', `種類が正しくありません: ${type}`);
+  }
+  if (type === 1) return 0;
+  if (type === 2) return 1;
+  return (type - 10) % 7;
+}
+
+/**
+ * ISO 8601の週番号を求める（月曜日始まり、その年の最初の木曜日を含む週が第1週）
+ */
+function getIsoWeekNumber(serial: number, dateSystem: DateSystem): number {
+  const mondayBased = (getSerialWeekday(serial, dateSystem) + 6) % 7;
+  const thursday = serial - mondayBased + 3;
+  const { year } = serialToDateParts(thursday, dateSystem);
+  return Math.floor((thursday - dateToSerial(year, 1, 1, dateSystem)) / 7) + 1;
+}
+
+/**
+ * DATEDIFの単位ごとの期間を求める
+ */
+function dateDifference(start: number, end: number, unit: string, dateSystem: DateSystem): number {
+  const from = serialToDateParts(start, dateSystem);
+  const to = serialToDateParts(end, dateSystem);
+  const months = (to.year - from.year) * 12 + (to.month - from.month) - (to.day < from.day ? 1 : 0);
+
+  switch (unit) {
+    case 'D':
+      return end - start;
+    case 'M':
+      return months;
+    case 'Y':
+      return Math.floor(months / 12);
+    case 'YM':
+      return months % 12;
+    case 'MD':
+      return to.day >= from.day
+        ? to.day - from.day
+        : end - dateToSerial(to.year, to.month - 1, from.day, dateSystem);
+    case 'YD': {
+      let anniversary = dateToSerial(to.year, from.month, from.day, dateSystem);
+      if (anniversary > end) {
+        anniversary = dateToSerial(to.year - 1, from.month, from.day, dateSystem);
+      }
+      return end - anniversary;
+    }
+    default:
+      throw new FormulaEvaluationError('#NUM!', `単位が正しくありません: ${unit}`);
+  }
+}
+
+/**
+ * 日付・時刻関数
+ * 日付の引数はシリアル値のほか日付・時刻の文字列（2024/3/1、2024-03-01 9:30 など）も受け付ける
+ */
+export const DATE_FUNCTIONS: FormulaFunctionLibrary = {
+  TODAY: {
+    implementation: (context: FormulaCallContext) => {
+      const now = new Date();
+      return dateObjectToSerial(new Date(now.getFullYear(), now.getMonth(), now.getDate()), context.dateSystem);
+    },
+    options: { withContext: true, numberFormat: DATE_FORMAT }
+  },
+
+  NOW: {
+    implementation: (context: FormulaCallContext) => dateObjectToSerial(new Date(), context.dateSystem),
+    options: { withContext: true, numberFormat: DATE_TIME_FORMAT }
+  },
+
+  DATE: {
+    implementation: (context: FormulaCallContext, year: FormulaValue, month: FormulaValue, day: FormulaValue) => {
+      let y = Math.trunc(toNumber(year));
+      if (y < 0 || y > 9999) throw new FormulaEvaluationError('#NUM!', '年が範囲外です');
+      // 0〜1899年は1900を加えた年として扱う
+      if (y < 1900) y += 1900;
+      return checkSerial(context, dateToSerial(y, Math.trunc(toNumber(month)), Math.trunc(toNumber(day)), context.dateSystem));
+    },
+    options: { withContext: true, numberFormat: DATE_FORMAT }
+  },
+
+  TIME: {
+    implementation: (hour: FormulaValue, minute: FormulaValue, second: FormulaValue) => {
+      const seconds = Math.trunc(toNumber(hour)) * 3600 + Math.trunc(toNumber(minute)) * 60 + Math.trunc(toNumber(second));
+      if (seconds < 0) throw new FormulaEvaluationError('#NUM!', '時刻が範囲外です');
+      return timeToSerial(0, 0, seconds % (24 * 60 * 60));
+    },
+    options: { numberFormat: TIME_FORMAT }
+  },
+
+  YEAR: {
+    implementation: (context: FormulaCallContext, serial: FormulaValue) =>
+      serialToDateParts(toSerial(context, serial), context.dateSystem).year,
+    options: { withContext: true }
+  },
+
+  MONTH: {
+    implementation: (context: FormulaCallContext, serial: FormulaValue) =>
+      serialToDateParts(toSerial(context, serial), context.dateSystem).month,
+    options: { withContext: true }
+  },
+
+  DAY: {
+    implementation: (context: FormulaCallContext, serial: FormulaValue) =>
+      serialToDateParts(toSerial(context, serial), context.dateSystem).day,
+    options: { withContext: true }
+  },
+
+  HOUR: {
+    implementation: (context: FormulaCallContext, serial: FormulaValue) =>
+      serialToDateParts(toSerial(context, serial), context.dateSystem).hour,
+    options: { withContext: true }
+  },
+
+  MINUTE: {
+    implementation: (context: FormulaCallContext, serial: FormulaValue) =>
+      serialToDateParts(toSerial(context, serial), context.dateSystem).minute,
+    options: { withContext: true }
+  },
+
+  SECOND: {
+    implementation: (context: FormulaCallContext, serial: FormulaValue) =>
+      serialToDateParts(toSerial(context, serial), context.dateSystem).second,
+    options: { withContext: true }
+  },
+
+  WEEKDAY: {
+    implementation: (context: FormulaCallContext, serial: FormulaValue, returnType: FormulaValue = 1) => {
+      const weekday = getSerialWeekday(toDateSerial(context, serial), context.dateSystem);
+      const type = Math.trunc(toNumber(returnType ?? 1));
+      // 3は月曜日を0とする
+      if (type === 3) return (weekday + 6) % 7;
+      const start = getWeekStart(type, [1, 2, 11, 12, 13, 14, 15, 16, 17]);
+      return (weekday - start + 7) % 7 + 1;
+    },
+    options: { withContext: true }
+  },
+
+  WEEKNUM: {
+    implementation: (context: FormulaCallContext, serial: FormulaValue, returnType: FormulaValue = 1) => {
+      const date = toDateSerial(context, serial);
+      const type = Math.trunc(toNumber(returnType ?? 1));
+      if (type === 21) return getIsoWeekNumber(date, context.dateSystem);
+
+      // 1月1日を含む週を第1週とする
+      const start = getWeekStart(type, [1, 2, 11, 12, 13, 14, 15, 16, 17]);
+      const { year } = serialToDateParts(date, context.dateSystem);
+      const firstDay = dateToSerial(year, 1, 1, context.dateSystem);
+      const offset = (getSerialWeekday(firstDay, context.dateSystem) - start + 7) % 7;
+      return Math.floor((date - firstDay + offset) / 7) + 1;
+    },
+    options: { withContext: true }
+  },
+
+  EDATE: {
+    implementation: (context: FormulaCallContext, start: FormulaValue, months: FormulaValue) => {
+      const { year, month, day } = addMonths(context, start, months);
+      return checkSerial(context, dateToSerial(year, month, day, context.dateSystem));
+    },
+    options: { withContext: true, numberFormat: DATE_FORMAT }
+  },
+
+  EOMONTH: {
+    implementation: (context: FormulaCallContext, start: FormulaValue, months: FormulaValue) => {
+      const { year, month } = addMonths(context, start, months);
+      return checkSerial(context, dateToSerial(year, month + 1, 0, context.dateSystem));
+    },
+    options: { withContext: true, numberFormat: DATE_FORMAT }
+  },
+
+  DATEDIF: {
+    implementation: (context: FormulaCallContext, start: FormulaValue, end: FormulaValue, unit: FormulaValue) => {
+      const from = toDateSerial(context, start);
+      const to = toDateSerial(context, end);
+      if (from > to) throw new FormulaEvaluationError('#NUM!', '開始日が終了日より後です');
+      return dateDifference(from, to, toText(unit).toUpperCase(), context.dateSystem);
+    },
+    options: { withContext: true }
+  },
+
+  NETWORKDAYS: {
+    implementation: (context: FormulaCallContext, start: FormulaValue, end: FormulaValue, holidays?: FormulaValue) => {
+      const from = toDateSerial(context, start);
+      const to = toDateSerial(context, end);
+      const [first, last] = from <= to ? [from, to] : [to, from];
+      const holidaySet = toHolidaySet(context, holidays);
+
+      let count = countWeekdays(first, last, context.dateSystem);
+      for (const holiday of holidaySet) {
+        if (holiday >= first && holiday <= last && isWeekday(holiday, context.dateSystem)) count--;
+      }
+      return from <= to ? count : -count;
+    },
+    options: { withContext: true }
+  },
+
+  WORKDAY: {
+    implementation: (context: FormulaCallContext, start: FormulaValue, days: FormulaValue, holidays?: FormulaValue) => {
+      let serial = toDateSerial(context, start);
+      let remaining = Math.trunc(toNumber(days));
+      const step = remaining < 0 ? -1 : 1;
+      const holidaySet = toHolidaySet(context, holidays);
+
+      while (remaining !== 0) {
+        serial = checkSerial(context, serial + step);
+        if (isWeekday(serial, context.dateSystem) && !holidaySet.has(serial)) {
+          remaining -= step;
+        }
+      }
+      return serial;
+    },
+    options: { withContext: true, numberFormat: DATE_FORMAT }
+  },
+
+  DATEVALUE: {
+    implementation: (context: FormulaCallContext, text: FormulaValue) => {
+      const scalar = toScalar(text);
+      const serial = typeof scalar === 'string' ? dateTextToSerial(scalar, context.dateSystem) : null;
+      if (serial === null) throw new FormulaEvaluationError('#VALUE!', '日付として解釈できません');
+      return checkSerial(context, Math.floor(serial));
+    },
+    options: { withContext: true }
+  },
+
+  TEXT: {
+    implementation: (context: FormulaCallContext, value: FormulaValue, format: FormulaValue) => {
+      const code = toText(format);
+      const scalar = toScalar(value) ?? 0;
+      if (code.toUpperCase() === 'GENERAL' || isFormulaErrorValue(scalar)) {
+        return toText(scalar);
+      }
+      // 日付・時刻の書式では日付の文字列もシリアル値として扱い、数値として解釈できる文字列は数値として扱う
+      if (isDateFormatCode(code) && typeof scalar !== 'boolean') {
+        return formatNumberCode(toSerial(context, scalar), code, context.dateSystem).text;
+      }
+      const numeric = typeof scalar === 'string' && scalar.trim() !== '' && !isNaN(Number(scalar)) ? Number(scalar) : scalar;
+      return formatNumberCode(numeric, code, context.dateSystem).text;
+    },
+    options: { withContext: true }
+  },
+};
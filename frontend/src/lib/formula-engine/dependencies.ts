@@ -3,9 +3,10 @@
  * 数式の依存関係グラフの管理を担当するライブラリ
  */
 
-import { CellPosition, cellPositionToA1Notation } from '../cell';
+import { SheetCellPosition, cellPositionToA1Notation } from '../cell';
 import { Spreadsheet, getCellFromSpreadsheet, cellPositionToKey } from '../spreadsheet';
-import { parseFormula, ParsedFormula } from '../formula';
+import { Workbook, getActiveSheet, getSheetByName } from '../workbook';
+import { parseFormula, ParsedFormula, formatSheetName, isVolatileFormula } from '../formula';
 
 /**
  * 依存関係の種類
@@ -21,8 +22,8 @@ export enum DependencyType {
  * 依存関係エッジ
  */
 export interface DependencyEdge {
-  from: CellPosition;
-  to: CellPosition;
+  from: SheetCellPosition;
+  to: SheetCellPosition;
   type: DependencyType;
   formula?: string;
   weight: number;
@@ -32,12 +33,13 @@ export interface DependencyEdge {
  * 依存関係ノード
  */
 export interface DependencyNode {
-  position: CellPosition;
+  position: SheetCellPosition;
   formula?: string;
-  dependents: CellPosition[];    // このセルに依存するセル
-  dependencies: CellPosition[];  // このセルが依存するセル
+  dependents: SheetCellPosition[];    // このセルに依存するセル
+  dependencies: SheetCellPosition[];  // このセルが依存するセル
   level: number;                // 依存関係の深さレベル
   isCircular: boolean;          // 循環参照に含まれているか
+  isVolatile: boolean;          // 揮発性関数（OFFSET・INDIRECTなど）を含み、常に再計算が必要か
   lastUpdated: Date;
 }
 
@@ -45,7 +47,7 @@ export interface DependencyNode {
  * 循環参照の情報
  */
 export interface CircularReference {
-  cycle: CellPosition[];
+  cycle: SheetCellPosition[];
   severity: 'warning' | 'error';
   canResolve: boolean;
   resolutionHint?: string;
@@ -58,7 +60,7 @@ export interface DependencyGraph {
   nodes: Map<string, DependencyNode>;
   edges: DependencyEdge[];
   circularReferences: CircularReference[];
-  calculationOrder: CellPosition[];
+  calculationOrder: SheetCellPosition[];
   lastUpdated: Date;
 }
 
@@ -70,21 +72,25 @@ export interface DependencyAnalysis {
   totalEdges: number;
   maxDepth: number;
   circularReferenceCount: number;
-  orphanNodes: CellPosition[];
-  rootNodes: CellPosition[];
-  leafNodes: CellPosition[];
+  orphanNodes: SheetCellPosition[];
+  rootNodes: SheetCellPosition[];
+  leafNodes: SheetCellPosition[];
   complexityScore: number;
 }
 
 /**
  * 依存関係管理クラス
+ * workbookを指定すると全シートを1つのグラフとして扱い、ノードはシート名付きの座標を持つ
  */
 export class DependencyManager {
   private graph: DependencyGraph;
+  private edgeKeys: Set<string> = new Set();  // 登録済みのエッジ（参照元と参照先のキーの組）
   private spreadsheet: Spreadsheet;
+  private workbook?: Workbook;
 
-  constructor(spreadsheet: Spreadsheet) {
+  constructor(spreadsheet: Spreadsheet, workbook?: Workbook) {
     this.spreadsheet = spreadsheet;
+    this.workbook = workbook;
     this.graph = {
       nodes: new Map(),
       edges: [],
@@ -101,15 +107,22 @@ export class DependencyManager {
   buildDependencyGraph(): void {
     this.graph.nodes.clear();
     this.graph.edges = [];
+    this.edgeKeys.clear();
     this.graph.circularReferences = [];
 
-    // 全てのセルを分析
-    for (const [key, cell] of this.spreadsheet.cells) {
-      if (cell.dataType === 'formula') {
-        this.processFormulaCell(cell.position, cell.rawValue);
-      } else {
-        // 数式でないセルもノードとして追加
-        this.addNode(cell.position);
+    // 全てのシートのセルを分析
+    const sheets = this.workbook ? this.workbook.sheets : [this.spreadsheet];
+    for (const sheet of sheets) {
+      const sheetName = this.workbook ? sheet.name : undefined;
+
+      for (const [key, cell] of sheet.cells) {
+        const position = this.resolvePosition(cell.position, sheetName);
+        if (cell.dataType === 'formula') {
+          this.processFormulaCell(position, cell.rawValue);
+        } else {
+          // 数式でないセルもノードとして追加
+          this.addNode(position);
+        }
       }
     }
 
@@ -128,21 +141,30 @@ export class DependencyManager {
   /**
    * 数式セルを処理する
    */
-  private processFormulaCell(position: CellPosition, formula: string): void {
+  private processFormulaCell(position: SheetCellPosition, formula: string): void {
     try {
-      const parsed = parseFormula(formula);
+      // ワークブックの名前は参照先のセル・範囲に展開して依存関係に含める
+      const parsed = parseFormula(formula, {
+        names: this.workbook?.names,
+        sheetName: position.sheetName
+      });
       const node = this.addNode(position, formula);
+      node.isVolatile = isVolatileFormula(parsed);
 
-      // 依存関係を追加
+      // 依存関係を追加（シート名の省略された参照は数式と同じシートを指す）
       for (const dependency of parsed.dependencies) {
-        this.addDependency(position, dependency, DependencyType.DIRECT, formula);
+        const dependencyPos = this.resolvePosition(dependency, position.sheetName);
+        this.addDependency(position, dependencyPos, DependencyType.DIRECT, formula);
       }
 
       // 範囲参照も処理
       for (const range of parsed.cellRanges) {
         for (let row = range.start.row; row <= range.end.row; row++) {
           for (let col = range.start.column; col <= range.end.column; col++) {
-            const rangePos = { row, column: col };
+            const rangePos = this.resolvePosition(
+              { row, column: col, sheetName: range.sheetName },
+              position.sheetName
+            );
             this.addDependency(position, rangePos, DependencyType.RANGE, formula);
           }
         }
@@ -153,11 +175,32 @@ export class DependencyManager {
     }
   }
 
+  /**
+   * セル座標のシート名を正規化する
+   * 単一シートでは自シートを指す修飾を省略し、ワークブックでは常にシート名を付与する
+   */
+  private resolvePosition(position: SheetCellPosition, contextSheetName?: string): SheetCellPosition {
+    const { row, column } = position;
+    const sheetName = position.sheetName ?? contextSheetName;
+
+    if (!this.workbook) {
+      if (sheetName === undefined || sheetName.toLowerCase() === this.spreadsheet.name.toLowerCase()) {
+        return { row, column };
+      }
+      return { row, column, sheetName };
+    }
+
+    const resolvedName = sheetName === undefined
+      ? getActiveSheet(this.workbook).name
+      : getSheetByName(this.workbook, sheetName)?.name ?? sheetName;
+    return { row, column, sheetName: resolvedName };
+  }
+
   /**
    * ノードを追加する
    */
-  private addNode(position: CellPosition, formula?: string): DependencyNode {
-    const key = cellPositionToKey(position);
+  private addNode(position: SheetCellPosition, formula?: string): DependencyNode {
+    const key = sheetCellPositionToKey(position);
     let node = this.graph.nodes.get(key);
 
     if (!node) {
@@ -168,6 +211,7 @@ export class DependencyManager {
         dependencies: [],
         level: 0,
         isCircular: false,
+        isVolatile: false,
         lastUpdated: new Date()
       };
       this.graph.nodes.set(key, node);
@@ -184,116 +228,151 @@ export class DependencyManager {
    * 依存関係を追加する
    */
   private addDependency(
-    from: CellPosition,
-    to: CellPosition,
+    from: SheetCellPosition,
+    to: SheetCellPosition,
     type: DependencyType,
     formula?: string
   ): void {
-    const fromKey = cellPositionToKey(from);
-    const toKey = cellPositionToKey(to);
+    const edgeKey = `${sheetCellPositionToKey(from)}>${sheetCellPositionToKey(to)}`;
 
     // ノードが存在しない場合は作成
     const fromNode = this.addNode(from, formula);
     const toNode = this.addNode(to);
 
-    // 依存関係を追加（重複チェック）
-    if (!fromNode.dependencies.some(dep =>
-      dep.row === to.row && dep.column === to.column)) {
-      fromNode.dependencies.push(to);
+    // 依存関係とエッジを追加（重複チェック。大きなシートでも一定時間で判定できるようキーで管理する）
+    if (this.edgeKeys.has(edgeKey)) {
+      return;
     }
+    this.edgeKeys.add(edgeKey);
+    fromNode.dependencies.push(to);
+    toNode.dependents.push(from);
+    this.graph.edges.push({
+      from,
+      to,
+      type,
+      formula,
+      weight: 1
+    });
+  }
 
-    if (!toNode.dependents.some(dep =>
-      dep.row === from.row && dep.column === from.column)) {
-      toNode.dependents.push(from);
+  /**
+   * 循環参照を検出する
+   * 循環参照のセルのまとまり（強連結成分）ごとに、まとまりの中で一周する参照の経路を1つ記録する
+   */
+  private detectCircularReferences(): void {
+    this.graph.circularReferences = [];
+    for (const node of this.graph.nodes.values()) {
+      node.isCircular = false;
     }
 
-    // エッジを追加
-    const existingEdge = this.graph.edges.find(edge =>
-      edge.from.row === from.row && edge.from.column === from.column &&
-      edge.to.row === to.row && edge.to.column === to.column
-    );
-
-    if (!existingEdge) {
-      this.graph.edges.push({
-        from,
-        to,
-        type,
-        formula,
-        weight: 1
+    for (const componentKeys of this.findStronglyConnectedComponents()) {
+      const cycle = this.findCyclePath(componentKeys);
+      this.graph.circularReferences.push({
+        cycle,
+        severity: 'error',
+        canResolve: cycle.length === 2, // 2セル間の循環参照は解決可能かもしれない
+        resolutionHint: this.generateResolutionHint(cycle)
       });
+
+      // 循環参照に含まれるノードにマークを付ける
+      for (const key of componentKeys) {
+        this.graph.nodes.get(key)!.isCircular = true;
+      }
     }
   }
 
   /**
-   * 循環参照を検出する
+   * 循環参照のセルのまとまりの中で、最初のセルから参照をたどって最初のセルに戻る最短の経路を求める
    */
-  private detectCircularReferences(): void {
-    this.graph.circularReferences = [];
-    const visited = new Set<string>();
-    const recursionStack = new Set<string>();
-
-    for (const [key, node] of this.graph.nodes) {
-      if (!visited.has(key)) {
-        const cycle = this.detectCycleFromNode(node, visited, recursionStack, []);
-        if (cycle.length > 0) {
-          const circularRef: CircularReference = {
-            cycle,
-            severity: 'error',
-            canResolve: cycle.length === 2, // 2セル間の循環参照は解決可能かもしれない
-            resolutionHint: this.generateResolutionHint(cycle)
-          };
-          this.graph.circularReferences.push(circularRef);
-
-          // 循環参照に含まれるノードにマークを付ける
-          for (const position of cycle) {
-            const cycleKey = cellPositionToKey(position);
-            const cycleNode = this.graph.nodes.get(cycleKey);
-            if (cycleNode) {
-              cycleNode.isCircular = true;
-            }
+  private findCyclePath(componentKeys: string[]): SheetCellPosition[] {
+    const members = new Set(componentKeys);
+    const startKey = componentKeys[0];
+    const previous = new Map<string, string>();
+    const queue = [startKey];
+
+    for (let index = 0; index < queue.length; index++) {
+      const key = queue[index];
+      for (const dependency of this.graph.nodes.get(key)!.dependencies) {
+        const dependencyKey = sheetCellPositionToKey(dependency);
+        if (dependencyKey === startKey) {
+          const path = [key];
+          while (path[0] !== startKey) {
+            path.unshift(previous.get(path[0])!);
           }
+          return path.map(pathKey => this.graph.nodes.get(pathKey)!.position);
+        }
+        if (members.has(dependencyKey) && !previous.has(dependencyKey)) {
+          previous.set(dependencyKey, key);
+          queue.push(dependencyKey);
         }
       }
     }
+    return componentKeys.map(key => this.graph.nodes.get(key)!.position);
   }
 
   /**
-   * 特定のノードから循環参照を検出する
+   * 循環参照のセルのまとまり（強連結成分）のキーを、参照先のまとまりが先に来る順に求める（Tarjanのアルゴリズム）
+   * 自分自身を参照するセルも1つのまとまりとする。深い依存関係でスタックが溢れないように、再帰を使わずに探索する
    */
-  private detectCycleFromNode(
-    node: DependencyNode,
-    visited: Set<string>,
-    recursionStack: Set<string>,
-    currentPath: CellPosition[]
-  ): CellPosition[] {
-    const key = cellPositionToKey(node.position);
-    visited.add(key);
-    recursionStack.add(key);
-    currentPath.push(node.position);
-
-    for (const dependency of node.dependencies) {
-      const depKey = cellPositionToKey(dependency);
-
-      if (recursionStack.has(depKey)) {
-        // 循環参照を発見
-        const cycleStart = currentPath.findIndex(pos =>
-          pos.row === dependency.row && pos.column === dependency.column);
-        return currentPath.slice(cycleStart);
-      }
-
-      if (!visited.has(depKey)) {
-        const depNode = this.graph.nodes.get(depKey);
-        if (depNode) {
-          const cycle = this.detectCycleFromNode(depNode, visited, recursionStack, [...currentPath]);
-          if (cycle.length > 0) {
-            return cycle;
+  private findStronglyConnectedComponents(): string[][] {
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    let nextIndex = 0;
+
+    const getDependencyKeys = (key: string): string[] =>
+      (this.graph.nodes.get(key)?.dependencies ?? []).map(sheetCellPositionToKey);
+
+    for (const rootKey of this.graph.nodes.keys()) {
+      if (indices.has(rootKey)) continue;
+
+      const callStack: Array<{ key: string; dependencies: string[]; next: number }> = [];
+      const visit = (key: string) => {
+        indices.set(key, nextIndex);
+        lowLinks.set(key, nextIndex);
+        nextIndex++;
+        stack.push(key);
+        onStack.add(key);
+        callStack.push({ key, dependencies: getDependencyKeys(key), next: 0 });
+      };
+      visit(rootKey);
+
+      while (callStack.length > 0) {
+        const frame = callStack[callStack.length - 1];
+        if (frame.next < frame.dependencies.length) {
+          const dependencyKey = frame.dependencies[frame.next++];
+          if (!indices.has(dependencyKey)) {
+            visit(dependencyKey);
+          } else if (onStack.has(dependencyKey)) {
+            lowLinks.set(frame.key, Math.min(lowLinks.get(frame.key)!, indices.get(dependencyKey)!));
           }
+          continue;
+        }
+
+        callStack.pop();
+        if (callStack.length > 0) {
+          const parent = callStack[callStack.length - 1];
+          lowLinks.set(parent.key, Math.min(lowLinks.get(parent.key)!, lowLinks.get(frame.key)!));
+        }
+        if (lowLinks.get(frame.key) !== indices.get(frame.key)) continue;
+
+        const componentKeys: string[] = [];
+        let memberKey: string;
+        do {
+          memberKey = stack.pop()!;
+          onStack.delete(memberKey);
+          componentKeys.push(memberKey);
+        } while (memberKey !== frame.key);
+
+        if (componentKeys.length > 1 || getDependencyKeys(frame.key).includes(frame.key)) {
+          components.push(componentKeys.reverse());
         }
       }
     }
 
-    recursionStack.delete(key);
-    return [];
+    return components;
   }
 
   /**
@@ -301,7 +380,7 @@ export class DependencyManager {
    */
   private calculateExecutionOrder(): void {
     const inDegree = new Map<string, number>();
-    const queue: CellPosition[] = [];
+    const queue: SheetCellPosition[] = [];
 
     // 入次数を計算
     for (const [key, node] of this.graph.nodes) {
@@ -311,18 +390,18 @@ export class DependencyManager {
       }
     }
 
-    const calculationOrder: CellPosition[] = [];
+    const calculationOrder: SheetCellPosition[] = [];
 
-    while (queue.length > 0) {
-      const current = queue.shift()!;
+    for (let index = 0; index < queue.length; index++) {
+      const current = queue[index];
       calculationOrder.push(current);
 
-      const currentKey = cellPositionToKey(current);
+      const currentKey = sheetCellPositionToKey(current);
       const currentNode = this.graph.nodes.get(currentKey);
 
       if (currentNode) {
         for (const dependent of currentNode.dependents) {
-          const depKey = cellPositionToKey(dependent);
+          const depKey = sheetCellPositionToKey(dependent);
           const depNode = this.graph.nodes.get(depKey);
 
           if (depNode && !depNode.isCircular) {
@@ -351,13 +430,13 @@ export class DependencyManager {
 
     // 計算順序に従ってレベルを設定
     for (const position of this.graph.calculationOrder) {
-      const key = cellPositionToKey(position);
+      const key = sheetCellPositionToKey(position);
       const node = this.graph.nodes.get(key);
 
       if (node) {
         let maxDependencyLevel = 0;
         for (const dependency of node.dependencies) {
-          const depKey = cellPositionToKey(dependency);
+          const depKey = sheetCellPositionToKey(dependency);
           const depNode = this.graph.nodes.get(depKey);
           if (depNode) {
             maxDependencyLevel = Math.max(maxDependencyLevel, depNode.level);
@@ -371,8 +450,8 @@ export class DependencyManager {
   /**
    * セルの依存関係を取得する
    */
-  getCellDependencies(position: CellPosition): CellPosition[] {
-    const key = cellPositionToKey(position);
+  getCellDependencies(position: SheetCellPosition): SheetCellPosition[] {
+    const key = sheetCellPositionToKey(this.resolvePosition(position));
     const node = this.graph.nodes.get(key);
     return node ? [...node.dependencies] : [];
   }
@@ -380,8 +459,8 @@ export class DependencyManager {
   /**
    * セルに依存するセルを取得する
    */
-  getCellDependents(position: CellPosition): CellPosition[] {
-    const key = cellPositionToKey(position);
+  getCellDependents(position: SheetCellPosition): SheetCellPosition[] {
+    const key = sheetCellPositionToKey(this.resolvePosition(position));
     const node = this.graph.nodes.get(key);
     return node ? [...node.dependents] : [];
   }
@@ -389,53 +468,48 @@ export class DependencyManager {
   /**
    * セルの依存関係を再帰的に取得する
    */
-  getCellDependenciesRecursive(position: CellPosition, maxDepth: number = 10): CellPosition[] {
-    const visited = new Set<string>();
-    const dependencies: CellPosition[] = [];
-
-    const traverse = (pos: CellPosition, depth: number) => {
-      if (depth > maxDepth) return;
-
-      const key = cellPositionToKey(pos);
-      if (visited.has(key)) return;
-
-      visited.add(key);
-      const directDeps = this.getCellDependencies(pos);
-
-      for (const dep of directDeps) {
-        dependencies.push(dep);
-        traverse(dep, depth + 1);
-      }
-    };
-
-    traverse(position, 0);
-    return dependencies;
+  getCellDependenciesRecursive(position: SheetCellPosition, maxDepth: number = 10): SheetCellPosition[] {
+    return this.traverseRecursive(position, maxDepth, pos => this.getCellDependencies(pos));
   }
 
   /**
    * セルに依存するセルを再帰的に取得する
    */
-  getCellDependentsRecursive(position: CellPosition, maxDepth: number = 10): CellPosition[] {
-    const visited = new Set<string>();
-    const dependents: CellPosition[] = [];
-
-    const traverse = (pos: CellPosition, depth: number) => {
-      if (depth > maxDepth) return;
-
-      const key = cellPositionToKey(pos);
-      if (visited.has(key)) return;
-
-      visited.add(key);
-      const directDeps = this.getCellDependents(pos);
+  getCellDependentsRecursive(position: SheetCellPosition, maxDepth: number = 10): SheetCellPosition[] {
+    return this.traverseRecursive(position, maxDepth, pos => this.getCellDependents(pos));
+  }
 
-      for (const dep of directDeps) {
-        dependents.push(dep);
-        traverse(dep, depth + 1);
+  /**
+   * 隣接するセルを深さ優先でたどり、たどった順に返す
+   * 長い参照の連鎖（数万行の累計など）でもスタックが溢れないように、再帰を使わずに探索する
+   */
+  private traverseRecursive(
+    position: SheetCellPosition,
+    maxDepth: number,
+    getNext: (position: SheetCellPosition) => SheetCellPosition[]
+  ): SheetCellPosition[] {
+    const visited = new Set<string>();
+    const result: SheetCellPosition[] = [];
+    const root = this.resolvePosition(position);
+    visited.add(sheetCellPositionToKey(root));
+    const stack = [{ next: getNext(root), index: 0, depth: 0 }];
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      if (frame.index >= frame.next.length) {
+        stack.pop();
+        continue;
       }
-    };
 
-    traverse(position, 0);
-    return dependents;
+      const nextPosition = frame.next[frame.index++];
+      result.push(nextPosition);
+      const key = sheetCellPositionToKey(nextPosition);
+      if (frame.depth + 1 <= maxDepth && !visited.has(key)) {
+        visited.add(key);
+        stack.push({ next: getNext(nextPosition), index: 0, depth: frame.depth + 1 });
+      }
+    }
+    return result;
   }
 
   /**
@@ -445,27 +519,83 @@ export class DependencyManager {
     return [...this.graph.circularReferences];
   }
 
+  /**
+   * 循環参照を構成するセルのまとまり（強連結成分）を取得する
+   * 自分自身を参照するセルも1つのまとまりとし、参照先のまとまりが先に来る順（計算できる順）に並べる。
+   * まとまりの中のセルはシート・行・列の順に並べる
+   */
+  getStronglyConnectedComponents(): SheetCellPosition[][] {
+    return this.findStronglyConnectedComponents().map(componentKeys => componentKeys
+      .map(key => this.graph.nodes.get(key)!.position)
+      .sort((a, b) =>
+        (a.sheetName ?? '').localeCompare(b.sheetName ?? '') || a.row - b.row || a.column - b.column));
+  }
+
   /**
    * セルが循環参照に含まれているかチェックする
    */
-  isCellInCircularReference(position: CellPosition): boolean {
-    const key = cellPositionToKey(position);
+  isCellInCircularReference(position: SheetCellPosition): boolean {
+    const key = sheetCellPositionToKey(this.resolvePosition(position));
     const node = this.graph.nodes.get(key);
     return node ? node.isCircular : false;
   }
 
+  /**
+   * 揮発性のセルを取得する
+   * includeDependentsを指定すると、揮発性のセルに依存するセルも計算順序に従って含める
+   */
+  getVolatileCells(includeDependents: boolean = false): SheetCellPosition[] {
+    const volatileKeys = new Set<string>();
+    for (const [key, node] of this.graph.nodes) {
+      if (node.isVolatile) {
+        volatileKeys.add(key);
+      }
+    }
+
+    if (!includeDependents) {
+      return Array.from(volatileKeys, key => this.graph.nodes.get(key)!.position);
+    }
+
+    const affectedKeys = new Set(volatileKeys);
+    for (const key of volatileKeys) {
+      const position = this.graph.nodes.get(key)!.position;
+      for (const dependent of this.getCellDependentsRecursive(position, Infinity)) {
+        affectedKeys.add(sheetCellPositionToKey(dependent));
+      }
+    }
+
+    const ordered = this.graph.calculationOrder.filter(position =>
+      affectedKeys.has(sheetCellPositionToKey(position)));
+    const orderedKeys = new Set(ordered.map(sheetCellPositionToKey));
+    // 循環参照などで計算順序に含まれないセルは末尾に加える
+    for (const key of affectedKeys) {
+      if (!orderedKeys.has(key)) {
+        ordered.push(this.graph.nodes.get(key)!.position);
+      }
+    }
+    return ordered;
+  }
+
+  /**
+   * セルが揮発性（常に再計算が必要）かチェックする
+   */
+  isCellVolatile(position: SheetCellPosition): boolean {
+    const key = sheetCellPositionToKey(this.resolvePosition(position));
+    return this.graph.nodes.get(key)?.isVolatile ?? false;
+  }
+
   /**
    * 計算順序を取得する
    */
-  getCalculationOrder(): CellPosition[] {
+  getCalculationOrder(): SheetCellPosition[] {
     return [...this.graph.calculationOrder];
   }
 
   /**
    * セルの依存関係レベルを取得する
    */
-  getCellLevel(position: CellPosition): number {
-    const key = cellPositionToKey(position);
+  getCellLevel(position: SheetCellPosition): number {
+    const key = sheetCellPositionToKey(this.resolvePosition(position));
     const node = this.graph.nodes.get(key);
     return node ? node.level : 0;
   }
@@ -511,8 +641,8 @@ export class DependencyManager {
   /**
    * 解決のヒントを生成する
    */
-  private generateResolutionHint(cycle: CellPosition[]): string {
-    const cellNames = cycle.map(pos => cellPositionToA1Notation(pos)).join(' → ');
+  private generateResolutionHint(cycle: SheetCellPosition[]): string {
+    const cellNames = cycle.map(pos => formatSheetCellPosition(pos)).join(' → ');
 
     if (cycle.length === 2) {
       return `2つのセル間の循環参照です（${cellNames}）。一方のセルの数式を変更してください。`;
@@ -525,6 +655,7 @@ export class DependencyManager {
    * 依存関係グラフをリセットする
    */
   reset(): void {
+    this.edgeKeys.clear();
     this.graph = {
       nodes: new Map(),
       edges: [],
@@ -537,8 +668,8 @@ export class DependencyManager {
   /**
    * 特定のセルの依存関係を更新する
    */
-  updateCellDependencies(position: CellPosition, formula?: string): void {
-    const key = cellPositionToKey(position);
+  updateCellDependencies(cellPosition: SheetCellPosition, formula?: string): void {
+    const position = this.resolvePosition(cellPosition);
 
     // 既存の依存関係を削除
     this.removeCellDependencies(position);
@@ -561,40 +692,32 @@ export class DependencyManager {
   /**
    * 特定のセルの依存関係を削除する
    */
-  private removeCellDependencies(position: CellPosition): void {
-    const key = cellPositionToKey(position);
+  private removeCellDependencies(position: SheetCellPosition): void {
+    const key = sheetCellPositionToKey(position);
     const node = this.graph.nodes.get(key);
 
     if (node) {
       // 依存先から自分を削除
       for (const dependency of node.dependencies) {
-        const depKey = cellPositionToKey(dependency);
+        const depKey = sheetCellPositionToKey(dependency);
         const depNode = this.graph.nodes.get(depKey);
         if (depNode) {
-          depNode.dependents = depNode.dependents.filter(dep =>
-            !(dep.row === position.row && dep.column === position.column));
+          depNode.dependents = depNode.dependents.filter(dep => sheetCellPositionToKey(dep) !== key);
         }
       }
 
-      // 依存元から自分を削除
-      for (const dependent of node.dependents) {
-        const depKey = cellPositionToKey(dependent);
-        const depNode = this.graph.nodes.get(depKey);
-        if (depNode) {
-          depNode.dependencies = depNode.dependencies.filter(dep =>
-            !(dep.row === position.row && dep.column === position.column));
-        }
+      // このセルを参照するセル（dependents）の依存関係は、数式が変わっても残す
+      for (const dependency of node.dependencies) {
+        this.edgeKeys.delete(`${key}>${sheetCellPositionToKey(dependency)}`);
       }
 
-      // エッジを削除
-      this.graph.edges = this.graph.edges.filter(edge =>
-        !(edge.from.row === position.row && edge.from.column === position.column) &&
-        !(edge.to.row === position.row && edge.to.column === position.column));
+      // このセルからのエッジを削除
+      this.graph.edges = this.graph.edges.filter(edge => sheetCellPositionToKey(edge.from) !== key);
 
       // ノードをクリア
       node.dependencies = [];
-      node.dependents = [];
       node.isCircular = false;
+      node.isVolatile = false;
     }
   }
 
@@ -633,20 +756,43 @@ export function createDependencyManager(spreadsheet: Spreadsheet): DependencyMan
   return new DependencyManager(spreadsheet);
 }
 
+/**
+ * ワークブック全体の依存関係管理インスタンスを作成する
+ */
+export function createWorkbookDependencyManager(workbook: Workbook): DependencyManager {
+  return new DependencyManager(getActiveSheet(workbook), workbook);
+}
+
+/**
+ * シート名付きのセル座標をグラフのキー文字列に変換する
+ */
+export function sheetCellPositionToKey(position: SheetCellPosition): string {
+  const key = cellPositionToKey(position);
+  return position.sheetName !== undefined ? `${position.sheetName.toLowerCase()}!${key}` : key;
+}
+
+/**
+ * シート名付きのセル座標を表示用の文字列に変換する（Sheet2!A1）
+ */
+export function formatSheetCellPosition(position: SheetCellPosition): string {
+  const a1Notation = cellPositionToA1Notation(position);
+  return position.sheetName !== undefined ? `${formatSheetName(position.sheetName)}!${a1Notation}` : a1Notation;
+}
+
 /**
  * 2つのセル位置が等しいかチェックする
  */
-export function areCellPositionsEqual(pos1: CellPosition, pos2: CellPosition): boolean {
-  return pos1.row === pos2.row && pos1.column === pos2.column;
+export function areCellPositionsEqual(pos1: SheetCellPosition, pos2: SheetCellPosition): boolean {
+  return sheetCellPositionToKey(pos1) === sheetCellPositionToKey(pos2);
 }
 
 /**
  * セル位置の配列から重複を除去する
  */
-export function uniqueCellPositions(positions: CellPosition[]): CellPosition[] {
+export function uniqueCellPositions<T extends SheetCellPosition>(positions: T[]): T[] {
   const seen = new Set<string>();
   return positions.filter(pos => {
-    const key = cellPositionToKey(pos);
+    const key = sheetCellPositionToKey(pos);
     if (seen.has(key)) {
       return false;
     }
@@ -0,0 +1,193 @@
+/**
+ * Formula Editing Library
+ * 数式の入力支援（入力中の関数の引数の位置、参照の色分け、クリックで選んだ範囲の参照の挿入）を提供するライブラリ
+ */
+
+import { CellPosition, a1NotationToCellPosition, cellPositionToA1Notation } from '../cell';
+import { formatSheetName, splitSheetQualifier, tokenizeFormula } from '../formula';
+import { FormulaLocale } from './locale';
+
+/**
+ * カーソル位置を含む関数の呼び出し
+ */
+export interface FormulaFunctionCall {
+  name: string;           // 英語の関数名
+  argumentIndex: number;  // 入力中の引数の番号（0始まり）
+  start: number;          // 関数名の開始位置（先頭の=を含む数式の位置）
+}
+
+/**
+ * 数式中の参照の色分け
+ */
+export interface FormulaReferenceHighlight {
+  text: string;            // 数式中の参照の文字列（シート修飾を含む）
+  start: number;           // 先頭の=を含む数式の位置
+  end: number;             // endの位置は含まない
+  sheetName?: string;      // シート修飾がない場合はundefined
+  range: { start: CellPosition; end: CellPosition };
+  color: string;
+}
+
+/**
+ * 参照の色（同じ参照は同じ色、参照が多い場合は先頭の色から繰り返す）
+ */
+export const REFERENCE_COLORS: readonly string[] = [
+  '#2563eb',
+  '#dc2626',
+  '#7c3aed',
+  '#16a34a',
+  '#db2777',
+  '#0891b2',
+  '#ea580c',
+  '#4d7c0f',
+];
+
+/**
+ * 直後に参照を入力できる演算子・区切り文字
+ */
+const REFERENCE_PRECEDING_CHARACTERS = new Set(['=', '(', ',', ';', '+', '-', '*', '/', '^', '&', '<', '>', ':']);
+
+/**
+ * カーソル位置の直前までの数式で、文字列リテラルが閉じていないかを判定する
+ */
+function isInsideString(formula: string, cursor: number): boolean {
+  return (formula.slice(1, cursor).match(/"/g)?.length ?? 0) % 2 !== 0;
+}
+
+/**
+ * カーソル位置を含む最も内側の関数の呼び出しと、入力中の引数の番号を取得する関数
+ * 関数でない括弧（(A1+B1) など）の中では、その外側の関数の呼び出しを返す
+ */
+export function getFunctionCallAtCursor(formula: string, cursor: number, locale?: FormulaLocale): FormulaFunctionCall | null {
+  if (!formula.startsWith('=') || isInsideString(formula, cursor)) {
+    return null;
+  }
+
+  // 開いている括弧ごとに関数の呼び出し（関数でない括弧はnull）を積む
+  const stack: (FormulaFunctionCall | null)[] = [];
+  let pendingFunction: { name: string; start: number } | null = null;
+
+  for (const token of tokenizeFormula(formula.slice(1, cursor), locale)) {
+    if (token.type === 'function') {
+      pendingFunction = { name: token.value, start: (token.position ?? 0) + 1 };
+      continue;
+    }
+    if (token.type === 'parenthesis' && token.value === '(') {
+      stack.push(pendingFunction ? { ...pendingFunction, argumentIndex: 0 } : null);
+    } else if (token.type === 'parenthesis') {
+      stack.pop();
+    } else if (token.type === 'separator' && stack.length > 0) {
+      const call = stack[stack.length - 1];
+      if (call) {
+        call.argumentIndex++;
+      }
+    }
+    pendingFunction = null;
+  }
+
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const call = stack[i];
+    if (call) {
+      return call;
+    }
+  }
+  return null;
+}
+
+/**
+ * カーソル位置にクリックで選んだ範囲の参照を挿入できるかを判定する関数
+ * 数式の先頭・演算子・開き括弧・引数の区切りの直後（空白は無視する）で挿入できる
+ */
+export function canInsertReferenceAt(formula: string, cursor: number): boolean {
+  if (!formula.startsWith('=') || cursor < 1 || isInsideString(formula, cursor)) {
+    return false;
+  }
+  const preceding = formula.slice(0, cursor).trimEnd();
+  return REFERENCE_PRECEDING_CHARACTERS.has(preceding[preceding.length - 1]);
+}
+
+/**
+ * 数式中のセル参照・セル範囲・スピル範囲の参照を、参照ごとの色とともに取得する関数
+ * 同じ参照（大文字小文字・$の有無は区別しない）には同じ色を割り当てる
+ */
+export function getFormulaReferenceHighlights(formula: string, locale?: FormulaLocale): FormulaReferenceHighlight[] {
+  if (!formula.startsWith('=')) {
+    return [];
+  }
+
+  const colors = new Map<string, string>();
+  const highlights: FormulaReferenceHighlight[] = [];
+
+  for (const token of tokenizeFormula(formula.slice(1), locale)) {
+    if (token.type !== 'cell_reference' && token.type !== 'cell_range' && token.type !== 'spill_reference') {
+      continue;
+    }
+
+    const { sheetName, reference } = splitSheetQualifier(token.value);
+    const [startText, endText = startText] = reference.replace(/[$#]/g, '').toUpperCase().split(':');
+    const range = { start: a1NotationToCellPosition(startText), end: a1NotationToCellPosition(endText) };
+
+    const key = `${sheetName?.toUpperCase() ?? ''}!${reference.replace(/\$/g, '').toUpperCase()}`;
+    if (!colors.has(key)) {
+      colors.set(key, REFERENCE_COLORS[colors.size % REFERENCE_COLORS.length]);
+    }
+
+    const start = (token.position ?? 0) + 1;
+    highlights.push({
+      text: token.value,
+      start,
+      end: start + token.value.length,
+      ...(sheetName !== undefined ? { sheetName } : {}),
+      range: {
+        start: {
+          row: Math.min(range.start.row, range.end.row),
+          column: Math.min(range.start.column, range.end.column),
+        },
+        end: {
+          row: Math.max(range.start.row, range.end.row),
+          column: Math.max(range.start.column, range.end.column),
+        },
+      },
+      color: colors.get(key)!,
+    });
+  }
+
+  return highlights;
+}
+
+/**
+ * クリック・ドラッグで選んだ範囲を数式に挿入する参照の文字列にする関数
+ * 数式のシートと異なるシートの範囲はシート名で修飾する
+ */
+export function formatPointReference(
+  start: CellPosition,
+  end: CellPosition,
+  sheetName?: string,
+  currentSheetName?: string
+): string {
+  const topLeft = { row: Math.min(start.row, end.row), column: Math.min(start.column, end.column) };
+  const bottomRight = { row: Math.max(start.row, end.row), column: Math.max(start.column, end.column) };
+  const isSingleCell = topLeft.row === bottomRight.row && topLeft.column === bottomRight.column;
+  const reference = isSingleCell
+    ? cellPositionToA1Notation(topLeft)
+    : `${cellPositionToA1Notation(topLeft)}:${cellPositionToA1Notation(bottomRight)}`;
+
+  return sheetName !== undefined && sheetName !== currentSheetName
+    ? `${formatSheetName(sheetName)}!${reference}`
+    : reference;
+}
+
+/**
+ * 数式の指定した部分を文字列で置き換え、置き換えた部分の位置を返す関数
+ * 範囲を選び直すと、前に挿入した参照（span）を置き換える
+ */
+export function replaceFormulaText(
+  formula: string,
+  span: { start: number; end: number },
+  text: string
+): { formula: string; span: { start: number; end: number } } {
+  return {
+    formula: `${formula.slice(0, span.start)}${text}${formula.slice(span.end)}`,
+    span: { start: span.start, end: span.start + text.length },
+  };
+}
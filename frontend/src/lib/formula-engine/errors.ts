@@ -0,0 +1,118 @@
+/**
+ * Formula Error Library
+ * 数式のエラーの説明（修正の提案、エラーの原因となった数式の部分の表示）を提供するライブラリ
+ */
+
+import { FormulaError } from '../formula';
+import { SheetCellPosition } from '../cell';
+import { formatSheetCellPosition } from './dependencies';
+
+/**
+ * エラーの種類ごとの修正の提案
+ */
+const ERROR_TYPE_SUGGESTIONS: Record<FormulaError['type'], string> = {
+  SYNTAX_ERROR: '括弧・引用符の対応と、演算子・区切り文字の位置を確認してください',
+  CIRCULAR_REFERENCE: '数式が自分自身のセルを参照しないように修正するか、反復計算を有効にしてください',
+  INVALID_REFERENCE: '参照先のセル・シートが削除されていないか確認してください',
+  DIVISION_BY_ZERO: '割る数が0または空のセルになっていないか確認してください。IFERRORで代わりの値を返すこともできます',
+  VALUE_ERROR: '数値が必要な演算・引数に文字列を指定していないか確認してください',
+  NAME_ERROR: '関数名・名前のつづりを確認してください。文字列は""で囲んでください',
+  NUM_ERROR: '引数の値が関数で計算できる範囲にあるか確認してください',
+  NOT_AVAILABLE: '検索する値が検索範囲にあるか確認してください。IFNAで見つからない場合の値を返すこともできます',
+  NULL_ERROR: '範囲の指定（A1:B2の:や引数の,）を確認してください',
+  ARRAY_FORMULA_ERROR: '配列数式の範囲と結果の大きさを確認してください',
+  CALCULATION_DEPTH_EXCEEDED: '参照の連鎖が深すぎます。途中の結果を別のセルに分けてください',
+};
+
+/**
+ * エラー値ごとの修正の提案（同じ種類にまとめられるエラー値を区別する）
+ */
+const ERROR_CODE_SUGGESTIONS: Record<string, string> = {
+  '#SPILL!': '配列の結果を展開する範囲のセルを空にしてください',
+  '#CALC!': 'LAMBDAの関数は引数を指定して呼び出してください。空の配列になる条件も確認してください',
+};
+
+/**
+ * 関数名の候補として示す編集距離の上限
+ */
+const MAX_FUNCTION_NAME_DISTANCE = 2;
+
+/**
+ * 2つの文字列の編集距離（挿入・削除・置換の回数）を求める
+ */
+function getEditDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * 定義されていない関数名に近い関数名を探す
+ */
+export function findSimilarFunctionName(name: string, functionNames: string[]): string | undefined {
+  const target = name.toUpperCase();
+  let best: { name: string; distance: number } | undefined;
+  for (const candidate of functionNames) {
+    const distance = getEditDistance(target, candidate.toUpperCase());
+    if (distance <= MAX_FUNCTION_NAME_DISTANCE && (!best || distance < best.distance)) {
+      best = { name: candidate, distance };
+    }
+  }
+  return best?.name;
+}
+
+/**
+ * エラーの修正の提案を求める
+ * 参照先のセルのエラーが伝わった場合はそのセルの確認を、定義されていない関数は近い関数名を提案する
+ */
+export function getFormulaErrorSuggestion(error: FormulaError, getFunctionNames: () => string[] = () => []): string {
+  if (error.source) {
+    const cell = formatSheetCellPosition(error.source);
+    return `参照先のセル ${cell} のエラーが伝わっています。${cell} の数式を確認してください`;
+  }
+
+  const undefinedFunction = error.message.match(/^関数が定義されていません: (.+)$/);
+  if (undefinedFunction) {
+    const similar = findSimilarFunctionName(undefinedFunction[1], getFunctionNames());
+    if (similar) {
+      return `関数名のつづりを確認してください（${similar}ではありませんか？）`;
+    }
+  }
+
+  return (error.code !== undefined ? ERROR_CODE_SUGGESTIONS[error.code] : undefined) ?? ERROR_TYPE_SUGGESTIONS[error.type];
+}
+
+/**
+ * エラーに参照先のセルのシート名と修正の提案を付ける（シート名のない参照先は数式のシートのセルとする）
+ */
+export function explainFormulaError(
+  error: FormulaError,
+  sheetName?: string,
+  getFunctionNames?: () => string[]
+): FormulaError {
+  const source: SheetCellPosition | undefined = error.source && error.source.sheetName === undefined && sheetName !== undefined
+    ? { ...error.source, sheetName }
+    : error.source;
+  const explained = source ? { ...error, source } : error;
+  return { ...explained, suggestion: explained.suggestion ?? getFormulaErrorSuggestion(explained, getFunctionNames) };
+}
+
+/**
+ * エラーの原因となった数式の部分を前後の文字列と分けて返す（表示で原因の部分を強調する）
+ */
+export function splitFormulaErrorSpan(
+  formula: string,
+  error: FormulaError
+): { before: string; target: string; after: string } | undefined {
+  const span = error.span ?? (error.position !== undefined ? { start: error.position, end: error.position + 1 } : undefined);
+  if (!span || span.start < 0 || span.end > formula.length || span.start >= span.end) {
+    return undefined;
+  }
+  return { before: formula.slice(0, span.start), target: formula.slice(span.start, span.end), after: formula.slice(span.end) };
+}
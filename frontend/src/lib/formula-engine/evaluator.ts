@@ -0,0 +1,1194 @@
+/**
+ * Formula Evaluator Library
+ * 構文木をExcelと同じ演算の優先順位・型変換・エラーの伝播で評価するライブラリ
+ */
+
+import { ParsedFormula, FormulaResult, FormulaError, CellRange, CellReference } from '../formula';
+import { SheetCellPosition } from '../cell';
+import {
+  FormulaAstNode,
+  FormulaAstSpans,
+  BinaryOperator,
+  buildFormulaAst,
+  formatFormulaAst,
+  getFormulaTextSpan
+} from './parser';
+import { DateSystem, dateObjectToSerial, formatDateSerial, isValidDateSerial } from '../date-serial';
+
+/**
+ * エラー値の種類
+ */
+export type FormulaErrorCode =
+  | '#NULL!'
+  | '#DIV/0!'
+  | '#VALUE!'
+  | '#REF!'
+  | '#NAME?'
+  | '#NUM!'
+  | '#N/A'
+  | '#SPILL!'
+  | '#CALC!';
+
+/**
+ * エラー値
+ */
+export interface FormulaErrorValue {
+  type: 'error';
+  code: FormulaErrorCode;
+  message?: string;
+}
+
+export type FormulaScalar = number | string | boolean | null | FormulaErrorValue;  // nullは空のセル
+export type FormulaArray = FormulaScalar[][];
+export type FormulaValue = FormulaScalar | FormulaArray;
+
+/**
+ * 関数の引数の受け取り方
+ */
+export interface FormulaFunctionOptions {
+  lazy?: boolean;               // 引数を評価する関数（() => 値）として渡す（IF・IFERRORなど）
+  referencesAsArrays?: boolean; // 単一セルの参照も2次元配列で渡す（参照内の文字列を無視する集計関数など）
+  acceptsErrors?: boolean;      // エラー値の引数をそのまま渡す（ISERRORなど）
+  referenceArguments?: number[]; // 参照（FormulaReference）のまま渡す引数の位置（OFFSET・ROWなど）
+  withContext?: boolean;        // 第1引数に呼び出しコンテキスト（FormulaCallContext）を渡す
+  acceptsLambdas?: boolean;     // LAMBDAの関数を引数に受け取る（MAP・REDUCEなど）
+  numberFormat?: string;        // 戻り値の表示形式（日付のシリアル値を返すDATE・NOWなど）
+}
+
+/**
+ * 関数の引数・戻り値として扱うセル参照（値に変換する前のセル範囲）
+ */
+export interface FormulaReference {
+  type: 'reference';
+  range: CellRange;
+}
+
+/**
+ * LAMBDAで作成した関数
+ * LETの名前・関数の引数として受け渡し、引数を指定して呼び出すと計算式の結果を返す
+ */
+export interface FormulaLambda {
+  type: 'lambda';
+  parameters: string[];
+  invoke: (args: FormulaBoundValue[]) => FormulaValue | FormulaLambda;
+}
+
+/**
+ * LET・LAMBDAの名前に割り当てる値（セル参照は参照のまま、関数はLAMBDAのまま保持する）
+ */
+export type FormulaBoundValue = FormulaValue | FormulaReference | FormulaLambda;
+
+/**
+ * 関数に渡す呼び出しコンテキスト
+ */
+export interface FormulaCallContext {
+  currentPosition?: SheetCellPosition;  // 数式を入力したセル
+  dateSystem: DateSystem;
+  getRangeValues: (range: CellRange) => FormulaArray;
+}
+
+/**
+ * 評価に使用する関数の定義
+ */
+export interface FormulaFunctionEntry {
+  implementation: Function;
+  options: FormulaFunctionOptions;
+}
+
+/**
+ * 関数名と定義の対応（関数の種類ごとのモジュールで定義し、FormulaCalculatorに登録する）
+ */
+export type FormulaFunctionLibrary = Record<string, FormulaFunctionEntry>;
+
+export type FormulaFunctionResolver = (name: string) => FormulaFunctionEntry | undefined;
+
+/**
+ * 評価コンテキスト
+ */
+export interface FormulaEvaluationContext {
+  getCellValue: (position: SheetCellPosition) => any;
+  resolveFunction?: FormulaFunctionResolver;
+  currentPosition?: SheetCellPosition;
+  dateSystem?: DateSystem;  // 省略時は1900年システム
+  getSpillRange?: (position: SheetCellPosition) => CellRange | undefined;  // 配列数式の結果を展開した範囲
+  resolveName?: (name: string) => FormulaAstNode | undefined;  // 解析時に展開されなかったLAMBDAの名前（再帰呼び出し）の定義
+  scope?: Map<string, FormulaBoundValue>;  // LET・LAMBDAで定義された名前（小文字）と値
+  lambdaCallDepth?: { current: number };   // 評価中のLAMBDAの呼び出しの深さ（数式の評価全体で共有する）
+}
+
+/**
+ * 数式の評価オプション
+ */
+export interface FormulaEvaluationOptions {
+  currentPosition?: SheetCellPosition;
+  dateSystem?: DateSystem;
+  getSpillRange?: (position: SheetCellPosition) => CellRange | undefined;  // スピル範囲の参照（A1#）の解決に使用
+  resolveName?: (name: string) => FormulaAstNode | undefined;  // LAMBDAの名前の再帰呼び出しの解決に使用
+}
+
+/**
+ * 関数内で発生したエラー値を呼び出し元に伝える例外
+ */
+export class FormulaEvaluationError extends Error {
+  constructor(public readonly code: FormulaErrorCode, message?: string) {
+    super(message ?? code);
+    this.name = 'FormulaEvaluationError';
+  }
+}
+
+/**
+ * 解析できない数式（構文エラー）のセルに表示する値（数式の中で使うエラー値ではない）
+ */
+export const SYNTAX_ERROR_CODE = '#SYNTAX!';
+
+/**
+ * エラー値の種類とFormulaErrorの種類の対応
+ */
+const ERROR_TYPES: Record<FormulaErrorCode, FormulaError['type']> = {
+  '#NULL!': 'NULL_ERROR',
+  '#DIV/0!': 'DIVISION_BY_ZERO',
+  '#VALUE!': 'VALUE_ERROR',
+  '#REF!': 'INVALID_REFERENCE',
+  '#NAME?': 'NAME_ERROR',
+  '#NUM!': 'NUM_ERROR',
+  '#N/A': 'NOT_AVAILABLE',
+  '#SPILL!': 'VALUE_ERROR',
+  '#CALC!': 'VALUE_ERROR',
+};
+
+/**
+ * エラー値の既定のメッセージ
+ */
+const ERROR_MESSAGES: Record<FormulaErrorCode, string> = {
+  '#NULL!': '範囲が交差していません',
+  '#DIV/0!': 'ゼロで除算しようとしました',
+  '#VALUE!': '引数の型が正しくありません',
+  '#REF!': '無効なセル参照です',
+  '#NAME?': '名前が定義されていません',
+  '#NUM!': '数値が無効です',
+  '#N/A': '値が見つかりません',
+  '#SPILL!': '結果を展開できません',
+  '#CALC!': '計算できません',
+};
+
+/**
+ * 評価器で処理する関数（引数の名前を扱うため、関数の定義としては登録しない）
+ */
+export const SPECIAL_FUNCTION_NAMES = ['LET', 'LAMBDA'];
+
+/**
+ * LAMBDAの呼び出しの深さの上限（終わらない再帰呼び出しを打ち切る）
+ */
+const MAX_LAMBDA_CALL_DEPTH = 256;
+
+/**
+ * 日付のセルを参照した結果の表示形式
+ */
+const DATE_FORMAT = 'yyyy/m/d';
+const DATE_TIME_FORMAT = 'yyyy/m/d h:mm';
+const TIME_FORMAT = 'h:mm:ss';
+
+/**
+ * エラー値を作成する
+ */
+export function createFormulaErrorValue(code: FormulaErrorCode, message?: string): FormulaErrorValue {
+  return message !== undefined ? { type: 'error', code, message } : { type: 'error', code };
+}
+
+/**
+ * エラー値を数式の結果のエラーに変換する
+ */
+export function toFormulaError(value: FormulaErrorValue): FormulaError {
+  return { type: ERROR_TYPES[value.code], code: value.code, message: value.message ?? ERROR_MESSAGES[value.code] };
+}
+
+/**
+ * エラー値かどうかを判定する
+ */
+export function isFormulaErrorValue(value: unknown): value is FormulaErrorValue {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    (value as FormulaErrorValue).type === 'error';
+}
+
+/**
+ * セル参照かどうかを判定する
+ */
+export function isFormulaReference(value: unknown): value is FormulaReference {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    (value as FormulaReference).type === 'reference';
+}
+
+/**
+ * LAMBDAで作成した関数かどうかを判定する
+ */
+export function isFormulaLambda(value: unknown): value is FormulaLambda {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    (value as FormulaLambda).type === 'lambda';
+}
+
+/**
+ * エラー値の文字列（#DIV/0! など）かどうかを判定する
+ */
+function isErrorCode(value: string): value is FormulaErrorCode {
+  return value in ERROR_TYPES;
+}
+
+/**
+ * セルの値・関数の戻り値を評価用のスカラー値に変換する（日付は日付システムのシリアル値）
+ */
+export function normalizeFormulaValue(value: unknown, dateSystem: DateSystem = '1900'): FormulaScalar {
+  if (value === null || value === undefined || value === '') return null;
+  if (isFormulaErrorValue(value)) return value;
+  if (value instanceof Date) return dateObjectToSerial(value, dateSystem);
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : createFormulaErrorValue('#NUM!');
+  }
+  if (typeof value === 'boolean') return value;
+
+  const text = String(value);
+  return isErrorCode(text) ? createFormulaErrorValue(text) : text;
+}
+
+/**
+ * 数値に変換する（変換できない場合は#VALUE!、エラー値はそのエラーを投げる）
+ */
+export function toNumber(value: FormulaValue): number {
+  const scalar = toScalar(value);
+  if (isFormulaErrorValue(scalar)) throw new FormulaEvaluationError(scalar.code, scalar.message);
+  if (scalar === null) return 0;
+  if (typeof scalar === 'number') return scalar;
+  if (typeof scalar === 'boolean') return scalar ? 1 : 0;
+
+  const text = scalar.trim();
+  if (text !== '') {
+    const percent = text.endsWith('%');
+    const number = Number(percent ? text.slice(0, -1) : text);
+    if (!isNaN(number)) {
+      return percent ? number / 100 : number;
+    }
+  }
+  throw new FormulaEvaluationError('#VALUE!', `数値に変換できません: ${scalar}`);
+}
+
+/**
+ * 文字列に変換する（数値は有効桁数15桁の一般形式）
+ */
+export function toText(value: FormulaValue): string {
+  const scalar = toScalar(value);
+  if (isFormulaErrorValue(scalar)) throw new FormulaEvaluationError(scalar.code, scalar.message);
+  if (scalar === null) return '';
+  if (typeof scalar === 'number') return formatNumber(scalar);
+  if (typeof scalar === 'boolean') return scalar ? 'TRUE' : 'FALSE';
+  return scalar;
+}
+
+/**
+ * 論理値に変換する（TRUE・FALSE以外の文字列は#VALUE!）
+ */
+export function toBoolean(value: FormulaValue): boolean {
+  const scalar = toScalar(value);
+  if (isFormulaErrorValue(scalar)) throw new FormulaEvaluationError(scalar.code, scalar.message);
+  if (scalar === null) return false;
+  if (typeof scalar === 'boolean') return scalar;
+  if (typeof scalar === 'number') return scalar !== 0;
+
+  const upper = scalar.trim().toUpperCase();
+  if (upper === 'TRUE') return true;
+  if (upper === 'FALSE') return false;
+  throw new FormulaEvaluationError('#VALUE!', `論理値に変換できません: ${scalar}`);
+}
+
+/**
+ * 配列の場合は左上の値を取り出す
+ */
+export function toScalar(value: FormulaValue): FormulaScalar {
+  if (Array.isArray(value)) {
+    return value[0]?.[0] ?? null;
+  }
+  return value;
+}
+
+/**
+ * 引数を1次元に展開する（配列は行優先）
+ */
+export function flattenValues(args: FormulaValue[]): FormulaScalar[] {
+  const values: FormulaScalar[] = [];
+  for (const arg of args) {
+    if (Array.isArray(arg)) {
+      for (const row of arg) values.push(...row);
+    } else {
+      values.push(arg);
+    }
+  }
+  return values;
+}
+
+/**
+ * 集計関数の引数から数値を集める
+ * 参照・配列内の数値以外（文字列・論理値・空白）は無視し、直接指定された値は数値に変換する。エラー値はそのエラーを投げる
+ */
+export function collectNumbers(args: FormulaValue[]): number[] {
+  const numbers: number[] = [];
+  for (const arg of args) {
+    if (Array.isArray(arg)) {
+      for (const row of arg) {
+        for (const value of row) {
+          if (isFormulaErrorValue(value)) throw new FormulaEvaluationError(value.code, value.message);
+          if (typeof value === 'number') numbers.push(value);
+        }
+      }
+    } else if (arg !== null) {
+      numbers.push(toNumber(arg));
+    }
+  }
+  return numbers;
+}
+
+/**
+ * 数値を一般形式の文字列に変換する
+ */
+function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return value.toString();
+  return parseFloat(value.toPrecision(15)).toString();
+}
+
+/**
+ * 評価結果を表示用の文字列に変換する
+ */
+export function formatFormulaValue(value: FormulaValue): string {
+  const scalar = toScalar(value);
+  if (isFormulaErrorValue(scalar)) return scalar.code;
+  if (scalar === null) return '';
+  return toText(scalar);
+}
+
+/**
+ * 型の順序（Excelの比較では数値 < 文字列 < 論理値）
+ */
+function typeRank(value: number | string | boolean): number {
+  if (typeof value === 'number') return 0;
+  if (typeof value === 'string') return 1;
+  return 2;
+}
+
+/**
+ * 2つの値を比較する（負: a < b、0: 等しい、正: a > b）
+ * 空のセルは相手の型の既定値（0・空文字列・FALSE）として扱い、文字列は大文字小文字を区別しない
+ */
+export function compareFormulaValues(a: FormulaScalar, b: FormulaScalar): number {
+  if (isFormulaErrorValue(a)) throw new FormulaEvaluationError(a.code, a.message);
+  if (isFormulaErrorValue(b)) throw new FormulaEvaluationError(b.code, b.message);
+
+  const emptyValueFor = (other: FormulaScalar) =>
+    typeof other === 'string' ? '' : typeof other === 'boolean' ? false : 0;
+  const left = a === null ? emptyValueFor(b) : a;
+  const right = b === null ? emptyValueFor(a) : b;
+
+  const rankDifference = typeRank(left) - typeRank(right);
+  if (rankDifference !== 0) return rankDifference;
+
+  if (typeof left === 'string') {
+    const l = left.toLowerCase();
+    const r = (right as string).toLowerCase();
+    return l < r ? -1 : l > r ? 1 : 0;
+  }
+  const l = Number(left);
+  const r = Number(right);
+  return l < r ? -1 : l > r ? 1 : 0;
+}
+
+/**
+ * 例外をエラー値に変換する
+ */
+function errorToValue(error: unknown): FormulaErrorValue {
+  if (error instanceof FormulaEvaluationError) {
+    return createFormulaErrorValue(error.code, error.message !== error.code ? error.message : undefined);
+  }
+  return createFormulaErrorValue('#VALUE!', error instanceof Error ? error.message : undefined);
+}
+
+/**
+ * スカラー値の演算を配列の要素ごとに適用する（大きさの異なる配列は1行・1列の配列のみ拡張し、範囲外は#N/A）
+ */
+function liftBinary(
+  left: FormulaValue,
+  right: FormulaValue,
+  operation: (a: FormulaScalar, b: FormulaScalar) => FormulaScalar
+): FormulaValue {
+  if (!Array.isArray(left) && !Array.isArray(right)) {
+    return operation(left, right);
+  }
+
+  const leftArray = Array.isArray(left) ? left : [[left]];
+  const rightArray = Array.isArray(right) ? right : [[right]];
+  const rows = Math.max(leftArray.length, rightArray.length);
+  const columns = Math.max(leftArray[0]?.length ?? 0, rightArray[0]?.length ?? 0);
+
+  const pick = (array: FormulaArray, row: number, column: number): FormulaScalar | undefined => {
+    const r = array.length === 1 ? 0 : row;
+    const c = array[0]?.length === 1 ? 0 : column;
+    return array[r]?.[c];
+  };
+
+  return Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: columns }, (_, column) => {
+      const a = pick(leftArray, row, column);
+      const b = pick(rightArray, row, column);
+      return a === undefined || b === undefined ? createFormulaErrorValue('#N/A') : operation(a, b);
+    })
+  );
+}
+
+/**
+ * 単項演算を配列の要素ごとに適用する
+ */
+function liftUnary(value: FormulaValue, operation: (a: FormulaScalar) => FormulaScalar): FormulaValue {
+  return Array.isArray(value) ? value.map(row => row.map(operation)) : operation(value);
+}
+
+/**
+ * 二項演算子を適用する
+ */
+function applyBinaryOperator(operator: BinaryOperator, a: FormulaScalar, b: FormulaScalar): FormulaScalar {
+  try {
+    switch (operator) {
+      case '+':
+        return toNumber(a) + toNumber(b);
+      case '-':
+        return toNumber(a) - toNumber(b);
+      case '*':
+        return toNumber(a) * toNumber(b);
+      case '/': {
+        const dividend = toNumber(a);
+        const divisor = toNumber(b);
+        if (divisor === 0) return createFormulaErrorValue('#DIV/0!');
+        return dividend / divisor;
+      }
+      case '^': {
+        const base = toNumber(a);
+        const exponent = toNumber(b);
+        if (base === 0 && exponent === 0) return createFormulaErrorValue('#NUM!');
+        if (base === 0 && exponent < 0) return createFormulaErrorValue('#DIV/0!');
+        return normalizeFormulaValue(Math.pow(base, exponent));
+      }
+      case '&':
+        return toText(a) + toText(b);
+      case '=':
+        return compareFormulaValues(a, b) === 0;
+      case '<>':
+        return compareFormulaValues(a, b) !== 0;
+      case '<':
+        return compareFormulaValues(a, b) < 0;
+      case '<=':
+        return compareFormulaValues(a, b) <= 0;
+      case '>':
+        return compareFormulaValues(a, b) > 0;
+      case '>=':
+        return compareFormulaValues(a, b) >= 0;
+    }
+  } catch (error) {
+    return errorToValue(error);
+  }
+}
+
+/**
+ * セル範囲の値を2次元配列として取得する
+ */
+function getRangeValues(range: CellRange, context: FormulaEvaluationContext): FormulaArray {
+  const minRow = Math.min(range.start.row, range.end.row);
+  const maxRow = Math.max(range.start.row, range.end.row);
+  const minColumn = Math.min(range.start.column, range.end.column);
+  const maxColumn = Math.max(range.start.column, range.end.column);
+
+  const values: FormulaArray = [];
+  for (let row = minRow; row <= maxRow; row++) {
+    const rowValues: FormulaScalar[] = [];
+    for (let column = minColumn; column <= maxColumn; column++) {
+      const position: SheetCellPosition = range.sheetName !== undefined
+        ? { row, column, sheetName: range.sheetName }
+        : { row, column };
+      rowValues.push(normalizeFormulaValue(context.getCellValue(position), context.dateSystem));
+    }
+    values.push(rowValues);
+  }
+  return values;
+}
+
+/**
+ * セル参照を範囲に変換する
+ */
+function referenceToRange(reference: CellReference): CellRange {
+  return {
+    start: reference.position,
+    end: reference.position,
+    a1Notation: reference.a1Notation,
+    ...(reference.sheetName !== undefined ? { sheetName: reference.sheetName } : {}),
+  };
+}
+
+/**
+ * セル参照をシート名で修飾されたセル座標に変換する
+ */
+function referenceToPosition(reference: CellReference): SheetCellPosition {
+  return reference.sheetName !== undefined
+    ? { ...reference.position, sheetName: reference.sheetName }
+    : reference.position;
+}
+
+/**
+ * スピル範囲の参照（A1#）を範囲に変換する（数式のセルの結果が展開されていない場合は#REF!）
+ */
+function resolveSpillReference(reference: CellReference, context: FormulaEvaluationContext): FormulaReference | FormulaErrorValue {
+  const range = context.getSpillRange?.(referenceToPosition(reference));
+  if (!range) {
+    return createFormulaErrorValue('#REF!', `${reference.a1Notation}は配列の結果を展開したセルではありません`);
+  }
+  return { type: 'reference', range };
+}
+
+/**
+ * 参照を値に変換する（単一セルはasArrayを指定しない限りその値、範囲は2次元配列）
+ */
+function dereference(
+  value: FormulaBoundValue,
+  context: FormulaEvaluationContext,
+  asArray: boolean = false
+): FormulaValue | FormulaLambda {
+  if (!isFormulaReference(value)) {
+    return value;
+  }
+  const values = getRangeValues(value.range, context);
+  return !asArray && values.length === 1 && values[0].length === 1 ? values[0][0] : values;
+}
+
+/**
+ * 参照・LAMBDAの関数を値に変換する（呼び出されていない関数は#CALC!）
+ */
+function toValue(value: FormulaBoundValue, context: FormulaEvaluationContext): FormulaValue {
+  const dereferenced = dereference(value, context);
+  return isFormulaLambda(dereferenced)
+    ? createFormulaErrorValue('#CALC!', 'LAMBDAの関数は引数を指定して呼び出してください')
+    : dereferenced;
+}
+
+/**
+ * 参照を値に変換せずに評価する（セル参照・範囲・参照を返す関数はFormulaReference、LAMBDAの関数はFormulaLambdaのまま返す）
+ */
+function evaluateAsReference(node: FormulaAstNode, context: FormulaEvaluationContext): FormulaBoundValue {
+  switch (node.type) {
+    case 'reference':
+      return { type: 'reference', range: referenceToRange(node.reference) };
+    case 'range':
+      return { type: 'reference', range: node.range };
+    case 'spill':
+      return resolveSpillReference(node.reference, context);
+    case 'name':
+      return resolveName(node.name, context);
+    case 'function':
+      return evaluateFunction(node, context);
+    case 'call':
+      return evaluateCall(node, context);
+    default:
+      return evaluateAst(node, context);
+  }
+}
+
+/**
+ * 名前を解決する（LET・LAMBDAで定義された名前、ワークブックのLAMBDAの名前の順）
+ */
+function resolveName(name: string, context: FormulaEvaluationContext): FormulaBoundValue {
+  const bound = context.scope?.get(name.toLowerCase());
+  if (bound !== undefined) {
+    return bound;
+  }
+  return resolveLambdaName(name, context) ?? createFormulaErrorValue('#NAME?', `名前が定義されていません: ${name}`);
+}
+
+/**
+ * ワークブックの名前で定義されたLAMBDAの関数を取得する
+ * 数式の解析時には再帰する名前を展開しないため、評価時に名前の定義を解決する
+ */
+function resolveLambdaName(name: string, context: FormulaEvaluationContext): FormulaLambda | undefined {
+  const definition = context.resolveName?.(name);
+  if (!definition) {
+    return undefined;
+  }
+  // 名前の定義は呼び出し元のLET・LAMBDAの名前を参照しない
+  const value = evaluateAsReference(definition, { ...context, scope: undefined });
+  return isFormulaLambda(value) ? value : undefined;
+}
+
+/**
+ * LETを評価する（名前に値を順に割り当て、最後の計算式の結果を返す）
+ */
+function evaluateLet(
+  node: Extract<FormulaAstNode, { type: 'function' }>,
+  context: FormulaEvaluationContext
+): FormulaBoundValue {
+  const { args } = node;
+  if (args.length < 3 || args.length % 2 === 0) {
+    return createFormulaErrorValue('#VALUE!', 'LETには名前と値の組と計算式を指定してください');
+  }
+
+  const scope = new Map(context.scope);
+  const letContext: FormulaEvaluationContext = { ...context, scope };
+  for (let i = 0; i < args.length - 1; i += 2) {
+    const nameNode = args[i];
+    if (nameNode.type !== 'name') {
+      return createFormulaErrorValue('#VALUE!', 'LETの名前にはセル参照や値を指定できません');
+    }
+    scope.set(nameNode.name.toLowerCase(), evaluateAsReference(args[i + 1], letContext));
+  }
+  return evaluateAsReference(args[args.length - 1], letContext);
+}
+
+/**
+ * LAMBDAの関数を作成する（計算式は呼び出されるまで評価しない）
+ * 関数は作成した位置のLET・LAMBDAの名前を参照できる
+ */
+function createLambda(
+  node: Extract<FormulaAstNode, { type: 'function' }>,
+  context: FormulaEvaluationContext
+): FormulaLambda | FormulaErrorValue {
+  if (node.args.length === 0) {
+    return createFormulaErrorValue('#VALUE!', 'LAMBDAには計算式を指定してください');
+  }
+
+  const parameters: string[] = [];
+  for (const parameter of node.args.slice(0, -1)) {
+    if (parameter.type !== 'name') {
+      return createFormulaErrorValue('#VALUE!', 'LAMBDAの引数の名前にはセル参照や値を指定できません');
+    }
+    if (parameters.includes(parameter.name.toLowerCase())) {
+      return createFormulaErrorValue('#VALUE!', `LAMBDAの引数の名前が重複しています: ${parameter.name}`);
+    }
+    parameters.push(parameter.name.toLowerCase());
+  }
+  const body = node.args[node.args.length - 1];
+
+  return {
+    type: 'lambda',
+    parameters,
+    invoke: args => {
+      if (args.length !== parameters.length) {
+        throw new FormulaEvaluationError('#VALUE!', `LAMBDAの引数の数が一致しません（${parameters.length}個の引数が必要です）`);
+      }
+      const callDepth = context.lambdaCallDepth;
+      if (callDepth && callDepth.current >= MAX_LAMBDA_CALL_DEPTH) {
+        throw new FormulaEvaluationError('#NUM!', `LAMBDAの呼び出しの深さが上限（${MAX_LAMBDA_CALL_DEPTH}）を超えました`);
+      }
+
+      const scope = new Map(context.scope);
+      parameters.forEach((parameter, index) => scope.set(parameter, args[index]));
+      if (callDepth) callDepth.current++;
+      try {
+        return dereference(evaluateAsReference(body, { ...context, scope }), context);
+      } finally {
+        if (callDepth) callDepth.current--;
+      }
+    },
+  };
+}
+
+/**
+ * LAMBDAの関数を引数の式で呼び出す
+ */
+function callLambda(
+  lambda: FormulaLambda,
+  argNodes: FormulaAstNode[],
+  context: FormulaEvaluationContext
+): FormulaValue | FormulaLambda {
+  const args = argNodes.map(arg => evaluateAsReference(arg, context));
+  try {
+    return lambda.invoke(args);
+  } catch (error) {
+    return errorToValue(error);
+  }
+}
+
+/**
+ * 関数の値の呼び出し（LAMBDA(x, x*2)(3) など）を評価する
+ */
+function evaluateCall(
+  node: Extract<FormulaAstNode, { type: 'call' }>,
+  context: FormulaEvaluationContext
+): FormulaValue | FormulaLambda {
+  const callee = dereference(evaluateAsReference(node.callee, context), context);
+  if (isFormulaErrorValue(callee)) {
+    return callee;
+  }
+  if (!isFormulaLambda(callee)) {
+    return createFormulaErrorValue('#VALUE!', '呼び出せるのはLAMBDAの関数のみです');
+  }
+  return callLambda(callee, node.args, context);
+}
+
+/**
+ * 関数呼び出しを評価する
+ * LET・LAMBDAは引数の名前を扱うため評価の前に処理し、LETの名前のLAMBDA、組み込みの関数、ワークブックのLAMBDAの名前の順に解決する
+ */
+function evaluateFunction(
+  node: Extract<FormulaAstNode, { type: 'function' }>,
+  context: FormulaEvaluationContext
+): FormulaBoundValue {
+  if (node.name === 'LET') {
+    return evaluateLet(node, context);
+  }
+  if (node.name === 'LAMBDA') {
+    return createLambda(node, context);
+  }
+
+  const bound = context.scope?.get(node.name.toLowerCase());
+  if (isFormulaLambda(bound)) {
+    return callLambda(bound, node.args, context);
+  }
+
+  const entry = context.resolveFunction?.(node.name);
+  if (!entry) {
+    const lambda = resolveLambdaName(node.name, context);
+    return lambda
+      ? callLambda(lambda, node.args, context)
+      : createFormulaErrorValue('#NAME?', `関数が定義されていません: ${node.name}`);
+  }
+
+  const { implementation, options } = entry;
+  let args: unknown[];
+
+  if (options.lazy) {
+    args = node.args.map(arg => () => evaluateAst(arg, context));
+  } else {
+    const values: FormulaBoundValue[] = [];
+    for (const [index, arg] of node.args.entries()) {
+      const evaluated = evaluateAsReference(arg, context);
+      const value = options.referenceArguments?.includes(index)
+        ? evaluated
+        : dereference(evaluated, context, options.referencesAsArrays);
+
+      // エラー値の引数は関数を呼び出さずにそのまま返す
+      if (!options.acceptsErrors && isFormulaErrorValue(value)) {
+        return value;
+      }
+      if (!options.acceptsLambdas && isFormulaLambda(value)) {
+        return createFormulaErrorValue('#VALUE!', `${node.name}の引数にLAMBDAの関数は指定できません`);
+      }
+      values.push(value);
+    }
+    args = values;
+  }
+
+  if (options.withContext) {
+    const callContext: FormulaCallContext = {
+      currentPosition: context.currentPosition,
+      dateSystem: context.dateSystem ?? '1900',
+      getRangeValues: range => getRangeValues(range, context),
+    };
+    args = [callContext, ...args];
+  }
+
+  try {
+    const result = implementation(...args);
+    if (isFormulaReference(result)) {
+      return result;
+    }
+    return Array.isArray(result)
+      ? (result as unknown[][]).map(row => row.map(value => normalizeFormulaValue(value, context.dateSystem)))
+      : normalizeFormulaValue(result, context.dateSystem);
+  } catch (error) {
+    return errorToValue(error);
+  }
+}
+
+/**
+ * 構文木を評価する
+ * セル範囲は2次元配列、単一セルの参照はその値、エラーはエラー値として返す
+ */
+export function evaluateAst(node: FormulaAstNode, context: FormulaEvaluationContext): FormulaValue {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'string':
+      return node.value;
+    case 'boolean':
+      return node.value;
+    case 'empty':
+      return null;
+    case 'error':
+      return createFormulaErrorValue(isErrorCode(node.code) ? node.code : '#VALUE!');
+    case 'reference':
+      return normalizeFormulaValue(context.getCellValue(referenceToPosition(node.reference)), context.dateSystem);
+    case 'range':
+      return getRangeValues(node.range, context);
+    case 'spill':
+    case 'name':
+    case 'function':
+    case 'call':
+      return toValue(evaluateAsReference(node, context), context);
+    case 'unary': {
+      const operand = evaluateAst(node.operand, context);
+      return liftUnary(operand, value => {
+        try {
+          const number = toNumber(value);
+          return node.operator === '-' ? -number : number;
+        } catch (error) {
+          return errorToValue(error);
+        }
+      });
+    }
+    case 'percent': {
+      const operand = evaluateAst(node.operand, context);
+      return liftUnary(operand, value => {
+        try {
+          return toNumber(value) / 100;
+        } catch (error) {
+          return errorToValue(error);
+        }
+      });
+    }
+    case 'binary': {
+      const left = evaluateAst(node.left, context);
+      const right = evaluateAst(node.right, context);
+      return liftBinary(left, right, (a, b) => applyBinaryOperator(node.operator, a, b));
+    }
+  }
+}
+
+/**
+ * 日付のセルの値から表示形式を求める（時刻のみ・日付のみ・日付と時刻）
+ */
+function getDateValueFormat(date: Date, dateSystem: DateSystem): string {
+  const serial = dateObjectToSerial(date, dateSystem);
+  const hasTime = serial !== Math.floor(serial);
+  if (Math.floor(serial) === 0 && hasTime) return TIME_FORMAT;
+  return hasTime ? DATE_TIME_FORMAT : DATE_FORMAT;
+}
+
+/**
+ * 数式の結果の表示形式を推定する
+ * 表示形式を持つ関数（DATEなど）の結果、日付のセルの参照、日付に日数を加減算した結果は日付として表示する
+ */
+function inferNumberFormat(node: FormulaAstNode, context: FormulaEvaluationContext): string | undefined {
+  switch (node.type) {
+    case 'function':
+      return context.resolveFunction?.(node.name)?.options.numberFormat;
+    case 'reference': {
+      const value = context.getCellValue(referenceToPosition(node.reference));
+      return value instanceof Date ? getDateValueFormat(value, context.dateSystem ?? '1900') : undefined;
+    }
+    case 'binary': {
+      if (node.operator !== '+' && node.operator !== '-') return undefined;
+      const left = inferNumberFormat(node.left, context);
+      const right = inferNumberFormat(node.right, context);
+      // 日付同士の差は日数として表示する
+      return node.operator === '+' ? left ?? right : right === undefined ? left : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * 値に含まれる指定した種類のエラー値を探す（配列は要素を順に探す）
+ */
+function findErrorValue(value: FormulaValue, code: FormulaErrorCode): FormulaErrorValue | undefined {
+  const scalars = Array.isArray(value) ? value.flat() : [value];
+  return scalars.find((scalar): scalar is FormulaErrorValue => isFormulaErrorValue(scalar) && scalar.code === code);
+}
+
+/**
+ * エラーの原因（エラー値を返したノードと、エラー値を返した参照先のセル）
+ */
+interface FormulaErrorOrigin {
+  node: FormulaAstNode;
+  source?: SheetCellPosition;
+}
+
+/**
+ * エラーの原因を探すときにたどる子のノード
+ * LET・LAMBDA・LAMBDAを受け取る関数の引数、関数の値の呼び出しは名前の値が決まらないためたどらない
+ */
+function getErrorOriginChildren(node: FormulaAstNode, context: FormulaEvaluationContext): FormulaAstNode[] {
+  switch (node.type) {
+    case 'binary':
+      return [node.left, node.right];
+    case 'unary':
+    case 'percent':
+      return [node.operand];
+    case 'function': {
+      if (SPECIAL_FUNCTION_NAMES.includes(node.name) || context.resolveFunction?.(node.name)?.options.acceptsLambdas) {
+        return [];
+      }
+      return node.args.filter(arg => arg.type !== 'empty');
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * 結果がエラー値になったノードから、同じ種類のエラー値を返した子のノードを順にたどり、エラーの原因を求める
+ * セル参照・セル範囲にたどり着いた場合は、エラー値のセルを参照先のセルとする
+ */
+function locateErrorOrigin(
+  node: FormulaAstNode,
+  code: FormulaErrorCode,
+  context: FormulaEvaluationContext
+): FormulaErrorOrigin {
+  if (node.type === 'reference') {
+    return { node, source: referenceToPosition(node.reference) };
+  }
+  if (node.type === 'range') {
+    const values = getRangeValues(node.range, context);
+    const error = findErrorValue(values, code);
+    for (const [rowOffset, rowValues] of values.entries()) {
+      const columnOffset = rowValues.findIndex(value => value === error);
+      if (columnOffset >= 0) {
+        const row = Math.min(node.range.start.row, node.range.end.row) + rowOffset;
+        const column = Math.min(node.range.start.column, node.range.end.column) + columnOffset;
+        return { node, source: node.range.sheetName !== undefined ? { row, column, sheetName: node.range.sheetName } : { row, column } };
+      }
+    }
+    return { node };
+  }
+
+  const child = getErrorOriginChildren(node, context).find(arg => findErrorValue(evaluateAst(arg, context), code));
+  return child ? locateErrorOrigin(child, code, context) : { node };
+}
+
+/**
+ * 数式の結果のエラー値を、原因となった数式の部分とエラー値を返した参照先のセルを含むエラーに変換する
+ */
+function explainErrorValue(
+  error: FormulaErrorValue,
+  ast: FormulaAstNode,
+  spans: FormulaAstSpans,
+  parsedFormula: ParsedFormula,
+  context: FormulaEvaluationContext
+): FormulaError {
+  const origin = locateErrorOrigin(ast, error.code, context);
+  const tokenSpan = spans.get(origin.node);
+  const span = tokenSpan && getFormulaTextSpan(parsedFormula.originalFormula, parsedFormula.tokens, tokenSpan);
+  return {
+    ...toFormulaError(error),
+    ...(span ? { span } : {}),
+    ...(origin.source ? { source: origin.source } : {}),
+  };
+}
+
+/**
+ * 数式の評価コンテキストを作成する
+ * 表示形式の推定や評価の手順で同じセルを再び計算しないように、評価中のセルの値を保持する
+ */
+function createEvaluationContext(
+  getCellValue: (position: SheetCellPosition) => any,
+  resolveFunction: FormulaFunctionResolver | undefined,
+  options: FormulaEvaluationOptions
+): FormulaEvaluationContext {
+  const cellValues = new Map<string, any>();
+  const getCachedCellValue = (position: SheetCellPosition) => {
+    const key = `${position.sheetName ?? ''}!${position.row}-${position.column}`;
+    if (!cellValues.has(key)) {
+      cellValues.set(key, getCellValue(position));
+    }
+    return cellValues.get(key);
+  };
+
+  return {
+    getCellValue: getCachedCellValue,
+    resolveFunction,
+    currentPosition: options.currentPosition,
+    dateSystem: options.dateSystem ?? '1900',
+    getSpillRange: options.getSpillRange,
+    resolveName: options.resolveName,
+    lambdaCallDepth: { current: 0 },
+  };
+}
+
+/**
+ * 解析済みの数式を評価する関数
+ * 結果が配列の場合は左上の値を結果とし、複数のセルからなる配列はarrayValueに全体を返す。
+ * 空のセルの参照は0を結果とする。日付の結果は表示形式（numberFormat）で表示する
+ */
+export function evaluateFormula(
+  parsedFormula: ParsedFormula,
+  getCellValue: (position: SheetCellPosition) => any,
+  resolveFunction?: FormulaFunctionResolver,
+  options: FormulaEvaluationOptions = {}
+): FormulaResult {
+  let ast: FormulaAstNode;
+  const spans: FormulaAstSpans = new WeakMap();
+  try {
+    ast = buildFormulaAst(parsedFormula.tokens, spans);
+  } catch (error) {
+    return {
+      value: 0,
+      displayValue: SYNTAX_ERROR_CODE,
+      error: {
+        type: 'SYNTAX_ERROR',
+        code: SYNTAX_ERROR_CODE,
+        message: error instanceof Error ? error.message : '構文エラー',
+      },
+      dependencies: parsedFormula.dependencies,
+    };
+  }
+
+  const dateSystem = options.dateSystem ?? '1900';
+  const context = createEvaluationContext(getCellValue, resolveFunction, options);
+  const evaluated = evaluateAst(ast, context);
+  const result = toScalar(evaluated);
+  const arrayResult = Array.isArray(evaluated) && (evaluated.length > 1 || evaluated[0].length > 1)
+    ? { arrayValue: evaluated }
+    : {};
+
+  if (isFormulaErrorValue(result)) {
+    return {
+      value: result.code,
+      displayValue: result.code,
+      ...arrayResult,
+      error: explainErrorValue(result, ast, spans, parsedFormula, context),
+      dependencies: parsedFormula.dependencies,
+    };
+  }
+
+  const value = result ?? 0;
+  const numberFormat = typeof value === 'number' && isValidDateSerial(value, dateSystem)
+    ? inferNumberFormat(ast, context)
+    : undefined;
+  if (numberFormat !== undefined) {
+    return {
+      value,
+      displayValue: formatDateSerial(value as number, numberFormat, dateSystem),
+      numberFormat,
+      ...arrayResult,
+      dependencies: parsedFormula.dependencies,
+    };
+  }
+  return {
+    value,
+    displayValue: formatFormulaValue(value),
+    ...arrayResult,
+    dependencies: parsedFormula.dependencies,
+  };
+}
+
+/**
+ * 数式の評価の手順
+ * 数式の一部（評価する部分）を評価し、以降の手順の数式ではその部分を値に置き換えて表示する
+ */
+export interface FormulaEvaluationStep {
+  formula: string;       // 評価する前の数式（評価済みの部分は値に置き換える）
+  expression: string;    // 評価する部分
+  start: number;         // formulaの中の評価する部分の開始位置
+  end: number;           // 評価する部分の終了位置（この位置の文字は含まない）
+  value: FormulaValue;
+  displayValue: string;  // 評価した値（以降の手順の数式に表示する文字列）
+}
+
+/**
+ * 評価の手順で表示する配列の要素の上限
+ */
+const MAX_STEP_ARRAY_ELEMENTS = 20;
+
+/**
+ * 評価の手順の数式に表示する値の文字列（文字列は引用符で囲み、配列は配列定数の形にする）
+ */
+function formatStepValue(value: FormulaValue): string {
+  const formatScalar = (scalar: FormulaScalar): string => {
+    if (isFormulaErrorValue(scalar)) return scalar.code;
+    if (scalar === null) return '0';
+    if (typeof scalar === 'string') return `"${scalar.replace(/"/g, '""')}"`;
+    if (typeof scalar === 'boolean') return scalar ? 'TRUE' : 'FALSE';
+    return formatFormulaValue(scalar);
+  };
+  if (!Array.isArray(value)) {
+    return formatScalar(value);
+  }
+  if (value.length === 1 && value[0].length === 1) {
+    return formatScalar(value[0][0]);
+  }
+
+  const rows: string[] = [];
+  let count = 0;
+  for (const row of value) {
+    if (count >= MAX_STEP_ARRAY_ELEMENTS) {
+      rows.push('…');
+      break;
+    }
+    const elements = row.slice(0, MAX_STEP_ARRAY_ELEMENTS - count).map(formatScalar);
+    count += elements.length;
+    rows.push(elements.join(',') + (elements.length < row.length ? ',…' : ''));
+  }
+  return `{${rows.join(';')}}`;
+}
+
+/**
+ * 評価の手順で評価するノードを、評価する順（引数・被演算子が先）に集める
+ * 定数は評価しない。LET・LAMBDAとLAMBDAを受け取る関数、関数の値の呼び出しは全体を1つの手順とし、
+ * 参照のまま渡す引数は評価しない。引数を必要になるまで評価しない関数（IFなど）は最初の引数だけを先に評価する
+ */
+function collectEvaluationNodes(node: FormulaAstNode, context: FormulaEvaluationContext, nodes: FormulaAstNode[]): void {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+    case 'error':
+    case 'empty':
+      return;
+    case 'unary':
+    case 'percent':
+      collectEvaluationNodes(node.operand, context, nodes);
+      break;
+    case 'binary':
+      collectEvaluationNodes(node.left, context, nodes);
+      collectEvaluationNodes(node.right, context, nodes);
+      break;
+    case 'function': {
+      const options = context.resolveFunction?.(node.name)?.options;
+      if (!SPECIAL_FUNCTION_NAMES.includes(node.name.toUpperCase()) && !options?.acceptsLambdas) {
+        const args = options?.lazy ? node.args.slice(0, 1) : node.args;
+        args.forEach((arg, index) => {
+          if (!options?.referenceArguments?.includes(index)) {
+            collectEvaluationNodes(arg, context, nodes);
+          }
+        });
+      }
+      break;
+    }
+  }
+  nodes.push(node);
+}
+
+/**
+ * 数式の評価の手順を求める（構文エラーの場合は例外を投げる）
+ * 評価する部分ごとに、その時点の数式と評価した値を返す。最後の手順の値が数式の結果になる
+ */
+export function evaluateFormulaSteps(
+  parsedFormula: ParsedFormula,
+  getCellValue: (position: SheetCellPosition) => any,
+  resolveFunction?: FormulaFunctionResolver,
+  options: FormulaEvaluationOptions = {}
+): FormulaEvaluationStep[] {
+  const ast = buildFormulaAst(parsedFormula.tokens);
+  const context = createEvaluationContext(getCellValue, resolveFunction, options);
+  const nodes: FormulaAstNode[] = [];
+  collectEvaluationNodes(ast, context, nodes);
+
+  const evaluated = new Map<FormulaAstNode, string>();
+  const replace = (node: FormulaAstNode) => evaluated.get(node);
+  return nodes.map(target => {
+    const expression = formatFormulaAst(target, replace);
+    // 評価する部分を制御文字で囲んで数式に戻し、その位置を求める
+    const marked = '=' + formatFormulaAst(ast, replace, (node, text) => node === target ? `\u0000${text}\u0000` : text);
+    const start = marked.indexOf('\u0000');
+    const formula = marked.replace(/\u0000/g, '');
+
+    let value: FormulaValue;
+    try {
+      value = evaluateAst(target, context);
+    } catch (error) {
+      value = errorToValue(error);
+    }
+    const displayValue = formatStepValue(value);
+    evaluated.set(target, displayValue);
+    return { formula, expression, start, end: start + expression.length, value, displayValue };
+  });
+}
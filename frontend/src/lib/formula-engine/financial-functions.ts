@@ -0,0 +1,272 @@
+/**
+ * Financial Functions Library
+ * 財務関数（PMT・PV・FV・NPV・IRR・XNPV・XIRR・RATE・NPER）を提供するライブラリ
+ * 支払いは支出を負、収入を正の値で表し、引数の既定値はExcelと同じ（将来価値0・期末払い・推定値10%）
+ */
+
+import {
+  FormulaEvaluationError,
+  FormulaFunctionLibrary,
+  FormulaValue,
+  collectNumbers,
+  flattenValues,
+  isFormulaErrorValue,
+  toNumber
+} from './evaluator';
+
+/**
+ * 反復計算の最大回数と収束の判定に使う許容誤差
+ */
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-10;
+
+/**
+ * 数値微分の刻み幅
+ */
+const DERIVATIVE_STEP = 1e-7;
+
+/**
+ * 1年の日数（XNPV・XIRRの割引期間の計算に使用）
+ */
+const DAYS_PER_YEAR = 365;
+
+/**
+ * 省略可能な引数を数値に変換する（省略・空の場合は既定値）
+ */
+function toOptionalNumber(value: FormulaValue | undefined, defaultValue: number): number {
+  return value === undefined || value === null ? defaultValue : toNumber(value);
+}
+
+/**
+ * 支払期日の引数を変換する（0: 期末払い、0以外: 期首払い）
+ */
+function toPaymentType(value: FormulaValue | undefined): 0 | 1 {
+  return toOptionalNumber(value, 0) !== 0 ? 1 : 0;
+}
+
+/**
+ * 計算結果が有限の数値であることを確認する
+ */
+function checkResult(value: number): number {
+  if (!Number.isFinite(value)) {
+    throw new FormulaEvaluationError('#NUM!', '計算結果が数値の範囲を超えました');
+  }
+  return value;
+}
+
+/**
+ * ニュートン法で f(rate) = 0 となる利率を求める（収束しない場合は#NUM!）
+ * 導関数は中心差分で近似する
+ */
+export function solveRate(f: (rate: number) => number, guess: number = 0.1): number {
+  let rate = guess;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const value = f(rate);
+    if (value === 0) {
+      return rate;
+    }
+    const derivative = (f(rate + DERIVATIVE_STEP) - f(rate - DERIVATIVE_STEP)) / (2 * DERIVATIVE_STEP);
+    if (!Number.isFinite(value) || !Number.isFinite(derivative) || derivative === 0) {
+      break;
+    }
+
+    const next = rate - value / derivative;
+    // 利率は-100%より大きくなければならない
+    if (!Number.isFinite(next) || next <= -1) {
+      break;
+    }
+    if (Math.abs(next - rate) < TOLERANCE) {
+      return next;
+    }
+    rate = next;
+  }
+  throw new FormulaEvaluationError('#NUM!', '反復計算が収束しませんでした');
+}
+
+/**
+ * 利率・期間・定期支払額・現在価値・将来価値の関係式の値（0になる組み合わせが解）
+ */
+function timeValueEquation(rate: number, periods: number, payment: number, present: number, future: number, type: 0 | 1): number {
+  if (rate === 0) {
+    return present + payment * periods + future;
+  }
+  // 利率が0に近い場合の桁落ちを避けるため、(1 + rate)^periods - 1 をexpm1で求める
+  const growthMinusOne = Math.expm1(periods * Math.log1p(rate));
+  return present * (growthMinusOne + 1) + payment * (1 + rate * type) * growthMinusOne / rate + future;
+}
+
+/**
+ * 正味現在価値を求める（最初のキャッシュフローを1期後とする）
+ */
+function netPresentValue(rate: number, values: number[]): number {
+  if (rate === -1) throw new FormulaEvaluationError('#DIV/0!');
+  return values.reduce((total, value, index) => total + value / Math.pow(1 + rate, index + 1), 0);
+}
+
+/**
+ * キャッシュフローに正と負の値が含まれることを確認する（内部利益率の計算に必要）
+ */
+function checkCashFlowSigns(values: number[]): void {
+  if (!values.some(value => value > 0) || !values.some(value => value < 0)) {
+    throw new FormulaEvaluationError('#NUM!', 'キャッシュフローには正と負の値が必要です');
+  }
+}
+
+/**
+ * 内部利益率を求める（IRR）
+ */
+export function calculateIrr(values: number[], guess: number = 0.1): number {
+  checkCashFlowSigns(values);
+  // 最初のキャッシュフローを0期とするため、NPVに(1 + rate)を掛ける
+  return solveRate(rate => netPresentValue(rate, values) * (1 + rate), guess);
+}
+
+/**
+ * 日付を指定したキャッシュフローの正味現在価値を求める（XNPV）
+ */
+function datedNetPresentValue(rate: number, values: number[], dates: number[]): number {
+  return values.reduce(
+    (total, value, index) => total + value / Math.pow(1 + rate, (dates[index] - dates[0]) / DAYS_PER_YEAR),
+    0
+  );
+}
+
+/**
+ * XNPV・XIRRのキャッシュフロー・日付の引数を数値の配列に変換する（数値以外の値は#VALUE!）
+ */
+function toCashFlowNumbers(arg: FormulaValue): number[] {
+  return flattenValues([arg]).map(value => {
+    if (isFormulaErrorValue(value)) throw new FormulaEvaluationError(value.code, value.message);
+    if (typeof value !== 'number') throw new FormulaEvaluationError('#VALUE!', '数値以外の値が含まれています');
+    return value;
+  });
+}
+
+/**
+ * キャッシュフローと日付の組を確認し、日付を整数にする
+ * 個数が異なる場合と最初の日付より前の日付がある場合は#NUM!
+ */
+function checkDatedCashFlows(values: number[], dates: number[]): number[] {
+  if (values.length === 0 || values.length !== dates.length) {
+    throw new FormulaEvaluationError('#NUM!', 'キャッシュフローと日付の個数が一致しません');
+  }
+  const days = dates.map(Math.trunc);
+  if (days.some(day => day < days[0])) {
+    throw new FormulaEvaluationError('#NUM!', '最初の日付より前の日付があります');
+  }
+  return days;
+}
+
+/**
+ * 日付を指定したキャッシュフローの内部利益率を求める（XIRR）
+ */
+export function calculateXirr(values: number[], dates: number[], guess: number = 0.1): number {
+  const days = checkDatedCashFlows(values, dates);
+  checkCashFlowSigns(values);
+  return solveRate(rate => datedNetPresentValue(rate, values, days), guess);
+}
+
+/**
+ * 財務関数
+ */
+export const FINANCIAL_FUNCTIONS: FormulaFunctionLibrary = {
+  PMT: {
+    implementation: (rate: FormulaValue, periods: FormulaValue, present: FormulaValue, future?: FormulaValue, type?: FormulaValue) => {
+      const r = toNumber(rate);
+      const n = toNumber(periods);
+      const pv = toNumber(present);
+      const fv = toOptionalNumber(future, 0);
+      if (n === 0) throw new FormulaEvaluationError('#NUM!', '期間は0以外を指定してください');
+      if (r === 0) return -(pv + fv) / n;
+      const growth = Math.pow(1 + r, n);
+      return checkResult(-(fv + pv * growth) * r / ((1 + r * toPaymentType(type)) * (growth - 1)));
+    },
+    options: {}
+  },
+
+  PV: {
+    implementation: (rate: FormulaValue, periods: FormulaValue, payment: FormulaValue, future?: FormulaValue, type?: FormulaValue) => {
+      const r = toNumber(rate);
+      const n = toNumber(periods);
+      const pmt = toNumber(payment);
+      const fv = toOptionalNumber(future, 0);
+      if (r === 0) return -(fv + pmt * n);
+      const growth = Math.pow(1 + r, n);
+      return checkResult(-(fv + pmt * (1 + r * toPaymentType(type)) * (growth - 1) / r) / growth);
+    },
+    options: {}
+  },
+
+  FV: {
+    implementation: (rate: FormulaValue, periods: FormulaValue, payment: FormulaValue, present?: FormulaValue, type?: FormulaValue) => {
+      const r = toNumber(rate);
+      const n = toNumber(periods);
+      const pmt = toNumber(payment);
+      const pv = toOptionalNumber(present, 0);
+      if (r === 0) return -(pv + pmt * n);
+      const growth = Math.pow(1 + r, n);
+      return checkResult(-(pv * growth + pmt * (1 + r * toPaymentType(type)) * (growth - 1) / r));
+    },
+    options: {}
+  },
+
+  NPER: {
+    implementation: (rate: FormulaValue, payment: FormulaValue, present: FormulaValue, future?: FormulaValue, type?: FormulaValue) => {
+      const r = toNumber(rate);
+      const pmt = toNumber(payment);
+      const pv = toNumber(present);
+      const fv = toOptionalNumber(future, 0);
+      if (r === 0) {
+        if (pmt === 0) throw new FormulaEvaluationError('#NUM!', '定期支払額は0以外を指定してください');
+        return -(pv + fv) / pmt;
+      }
+      const adjustedPayment = pmt * (1 + r * toPaymentType(type));
+      const ratio = (adjustedPayment - fv * r) / (adjustedPayment + pv * r);
+      if (!(ratio > 0)) throw new FormulaEvaluationError('#NUM!', '期間を求められません');
+      return checkResult(Math.log(ratio) / Math.log(1 + r));
+    },
+    options: {}
+  },
+
+  RATE: {
+    implementation: (periods: FormulaValue, payment: FormulaValue, present: FormulaValue, future?: FormulaValue, type?: FormulaValue, guess?: FormulaValue) => {
+      const n = toNumber(periods);
+      const pmt = toNumber(payment);
+      const pv = toNumber(present);
+      const fv = toOptionalNumber(future, 0);
+      const paymentType = toPaymentType(type);
+      if (n <= 0) throw new FormulaEvaluationError('#NUM!', '期間は正の数を指定してください');
+      return solveRate(rate => timeValueEquation(rate, n, pmt, pv, fv, paymentType), toOptionalNumber(guess, 0.1));
+    },
+    options: {}
+  },
+
+  NPV: {
+    implementation: (rate: FormulaValue, ...values: FormulaValue[]) =>
+      checkResult(netPresentValue(toNumber(rate), collectNumbers(values))),
+    options: { referencesAsArrays: true }
+  },
+
+  IRR: {
+    implementation: (values: FormulaValue, guess?: FormulaValue) =>
+      calculateIrr(collectNumbers([values]), toOptionalNumber(guess, 0.1)),
+    options: { referencesAsArrays: true }
+  },
+
+  XNPV: {
+    implementation: (rate: FormulaValue, values: FormulaValue, dates: FormulaValue) => {
+      const r = toNumber(rate);
+      if (r <= -1) throw new FormulaEvaluationError('#NUM!', '利率は-100%より大きい値を指定してください');
+      const amounts = toCashFlowNumbers(values);
+      const days = checkDatedCashFlows(amounts, toCashFlowNumbers(dates));
+      return checkResult(datedNetPresentValue(r, amounts, days));
+    },
+    options: { referencesAsArrays: true }
+  },
+
+  XIRR: {
+    implementation: (values: FormulaValue, dates: FormulaValue, guess?: FormulaValue) =>
+      calculateXirr(toCashFlowNumbers(values), toCashFlowNumbers(dates), toOptionalNumber(guess, 0.1)),
+    options: { referencesAsArrays: true }
+  },
+};
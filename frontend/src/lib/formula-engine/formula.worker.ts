@@ -0,0 +1,8 @@
+/**
+ * Formula Worker
+ * ブラウザのWeb Workerのエントリー（数式エンジンをワーカーで実行し、メインスレッドからの要求を処理する）
+ */
+
+import { FormulaWorkerEndpoint, attachFormulaWorkerHost } from './worker';
+
+attachFormulaWorkerHost(self as unknown as FormulaWorkerEndpoint);
@@ -0,0 +1,400 @@
+/**
+ * HyperFormula Plugins
+ * HyperFormulaに組み込まれていない関数（IRR・XIRR・MODE.SNGL・PERCENTILE.INC・TEXTJOIN・REGEXREPLACEなど）を、数式計算エンジンと同じ実装で追加するプラグイン
+ */
+
+import {
+  CellError,
+  EmptyValue,
+  ErrorType,
+  FunctionArgumentType,
+  FunctionPlugin,
+  FunctionPluginDefinition,
+  HyperFormula,
+  ImplementedFunctions,
+  SimpleRangeValue
+} from 'hyperformula';
+import type { ProcedureAst } from 'hyperformula/typings/parser';
+import type { InterpreterState } from 'hyperformula/typings/interpreter/InterpreterState';
+import {
+  FormulaCallContext,
+  FormulaErrorCode,
+  FormulaEvaluationError,
+  FormulaFunctionLibrary,
+  FormulaScalar,
+  FormulaValue,
+  createFormulaErrorValue,
+  isFormulaErrorValue,
+  toScalar
+} from './evaluator';
+import { calculateIrr, calculateXirr } from './financial-functions';
+import {
+  calculateLinearRegression,
+  calculateMode,
+  calculatePercentile,
+  calculateQuartile,
+  calculateRank
+} from './statistical-functions';
+import { TEXT_FUNCTIONS } from './text-functions';
+import { ARRAY_FUNCTIONS } from './array-functions';
+
+/**
+ * エラー値の種類とHyperFormulaのエラーの種類の対応
+ */
+const HYPERFORMULA_ERROR_TYPES: Partial<Record<FormulaErrorCode, ErrorType>> = {
+  '#DIV/0!': ErrorType.DIV_BY_ZERO,
+  '#VALUE!': ErrorType.VALUE,
+  '#NUM!': ErrorType.NUM,
+  '#N/A': ErrorType.NA,
+  '#REF!': ErrorType.REF,
+  '#NAME?': ErrorType.NAME,
+};
+
+/**
+ * HyperFormulaのエラーの種類とエラー値の種類の対応
+ */
+const FORMULA_ERROR_CODES = Object.fromEntries(
+  Object.entries(HYPERFORMULA_ERROR_TYPES).map(([code, type]) => [type, code])
+) as Partial<Record<ErrorType, FormulaErrorCode>>;
+
+/**
+ * HyperFormulaに含まれない文字列関数（数式計算エンジンの実装をそのまま使う）
+ */
+const TEXT_FUNCTION_NAMES = [
+  'TEXTJOIN', 'TEXTSPLIT', 'TEXTBEFORE', 'TEXTAFTER', 'VALUE', 'NUMBERVALUE',
+  'REGEXMATCH', 'REGEXEXTRACT', 'REGEXREPLACE', 'ASC', 'JIS',
+];
+
+/**
+ * HyperFormulaに含まれない配列関数（結果は左上の値のみ）
+ */
+const ARRAY_FUNCTION_NAMES = ['SEQUENCE', 'SORT', 'SORTBY', 'UNIQUE'];
+
+/**
+ * HyperFormulaに登録したプラグインの関数名
+ */
+const registeredPluginFunctionNames = new Set<string>();
+
+/**
+ * 内部利益率の関数（IRR・XIRR）
+ */
+class FinancialSolverPlugin extends FunctionPlugin {
+  static implementedFunctions: ImplementedFunctions = {
+    IRR: {
+      method: 'irr',
+      parameters: [
+        { argumentType: FunctionArgumentType.RANGE },
+        { argumentType: FunctionArgumentType.NUMBER, defaultValue: 0.1 },
+      ],
+    },
+    XIRR: {
+      method: 'xirr',
+      parameters: [
+        { argumentType: FunctionArgumentType.RANGE },
+        { argumentType: FunctionArgumentType.RANGE },
+        { argumentType: FunctionArgumentType.NUMBER, defaultValue: 0.1 },
+      ],
+    },
+  };
+
+  irr(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('IRR'), (values: SimpleRangeValue, guess: number) => {
+      // 範囲内の数値以外の値は無視する
+      const numbers = this.arithmeticHelper.manyToExactNumbers(values.valuesFromTopLeftCorner());
+      if (numbers instanceof CellError) return numbers;
+      return solve(() => calculateIrr(numbers, guess));
+    });
+  }
+
+  xirr(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('XIRR'), (values: SimpleRangeValue, dates: SimpleRangeValue, guess: number) => {
+      const amounts = this.toExactNumbers(values);
+      if (amounts instanceof CellError) return amounts;
+      const days = this.toExactNumbers(dates);
+      if (days instanceof CellError) return days;
+      return solve(() => calculateXirr(amounts, days, guess));
+    });
+  }
+
+  /**
+   * 範囲の値を数値に変換する（数値以外の値が含まれる場合は#VALUE!）
+   */
+  private toExactNumbers(range: SimpleRangeValue): number[] | CellError {
+    const values = range.valuesFromTopLeftCorner();
+    const numbers = this.arithmeticHelper.manyToExactNumbers(values);
+    if (numbers instanceof CellError) return numbers;
+    return numbers.length === values.length ? numbers : new CellError(ErrorType.VALUE);
+  }
+}
+
+/**
+ * 統計関数（最頻値・百分位数・四分位数・順位・回帰直線による予測）
+ */
+class StatisticalPlugin extends FunctionPlugin {
+  static implementedFunctions: ImplementedFunctions = {
+    'MODE.SNGL': {
+      method: 'mode',
+      parameters: [{ argumentType: FunctionArgumentType.ANY }],
+      repeatLastArgs: 1,
+    },
+    'PERCENTILE.INC': {
+      method: 'percentileInc',
+      parameters: [{ argumentType: FunctionArgumentType.RANGE }, { argumentType: FunctionArgumentType.NUMBER }],
+    },
+    'PERCENTILE.EXC': {
+      method: 'percentileExc',
+      parameters: [{ argumentType: FunctionArgumentType.RANGE }, { argumentType: FunctionArgumentType.NUMBER }],
+    },
+    'QUARTILE.INC': {
+      method: 'quartileInc',
+      parameters: [{ argumentType: FunctionArgumentType.RANGE }, { argumentType: FunctionArgumentType.NUMBER }],
+    },
+    'QUARTILE.EXC': {
+      method: 'quartileExc',
+      parameters: [{ argumentType: FunctionArgumentType.RANGE }, { argumentType: FunctionArgumentType.NUMBER }],
+    },
+    'RANK.EQ': {
+      method: 'rank',
+      parameters: [
+        { argumentType: FunctionArgumentType.NUMBER },
+        { argumentType: FunctionArgumentType.RANGE },
+        { argumentType: FunctionArgumentType.NUMBER, defaultValue: 0 },
+      ],
+    },
+    INTERCEPT: {
+      method: 'intercept',
+      parameters: [{ argumentType: FunctionArgumentType.RANGE }, { argumentType: FunctionArgumentType.RANGE }],
+    },
+    'FORECAST.LINEAR': {
+      method: 'forecast',
+      parameters: [
+        { argumentType: FunctionArgumentType.NUMBER },
+        { argumentType: FunctionArgumentType.RANGE },
+        { argumentType: FunctionArgumentType.RANGE },
+      ],
+    },
+  };
+
+  static aliases = {
+    MODE: 'MODE.SNGL',
+    PERCENTILE: 'PERCENTILE.INC',
+    QUARTILE: 'QUARTILE.INC',
+    RANK: 'RANK.EQ',
+    FORECAST: 'FORECAST.LINEAR',
+  };
+
+  mode(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('MODE.SNGL'), (...args: (SimpleRangeValue | number | string | boolean)[]) => {
+      const values = args.flatMap(arg => arg instanceof SimpleRangeValue ? arg.valuesFromTopLeftCorner() : [arg]);
+      const numbers = this.arithmeticHelper.manyToExactNumbers(values);
+      if (numbers instanceof CellError) return numbers;
+      return solve(() => calculateMode(numbers));
+    });
+  }
+
+  percentileInc(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('PERCENTILE.INC'), (values: SimpleRangeValue, k: number) =>
+      this.withNumbers(values, numbers => calculatePercentile(numbers, k)));
+  }
+
+  percentileExc(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('PERCENTILE.EXC'), (values: SimpleRangeValue, k: number) =>
+      this.withNumbers(values, numbers => calculatePercentile(numbers, k, true)));
+  }
+
+  quartileInc(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('QUARTILE.INC'), (values: SimpleRangeValue, quart: number) =>
+      this.withNumbers(values, numbers => calculateQuartile(numbers, quart)));
+  }
+
+  quartileExc(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('QUARTILE.EXC'), (values: SimpleRangeValue, quart: number) =>
+      this.withNumbers(values, numbers => calculateQuartile(numbers, quart, true)));
+  }
+
+  rank(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('RANK.EQ'), (number: number, values: SimpleRangeValue, order: number) =>
+      this.withNumbers(values, numbers => calculateRank(number, numbers, order)));
+  }
+
+  intercept(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('INTERCEPT'), (knownYs: SimpleRangeValue, knownXs: SimpleRangeValue) =>
+      this.withNumberPairs(knownYs, knownXs, (ys, xs) => calculateLinearRegression(ys, xs).intercept));
+  }
+
+  forecast(ast: ProcedureAst, state: InterpreterState) {
+    return this.runFunction(ast.args, state, this.metadata('FORECAST.LINEAR'), (x: number, knownYs: SimpleRangeValue, knownXs: SimpleRangeValue) =>
+      this.withNumberPairs(knownYs, knownXs, (ys, xs) => {
+        const { slope, intercept } = calculateLinearRegression(ys, xs);
+        return intercept + slope * x;
+      }));
+  }
+
+  /**
+   * 範囲内の数値（数値以外の値は無視する）で計算する
+   */
+  private withNumbers(range: SimpleRangeValue, calculate: (numbers: number[]) => number): number | CellError {
+    const numbers = this.arithmeticHelper.manyToExactNumbers(range.valuesFromTopLeftCorner());
+    if (numbers instanceof CellError) return numbers;
+    return solve(() => calculate(numbers));
+  }
+
+  /**
+   * 2つの範囲の対応する値のうち、両方が数値の組で計算する（範囲の大きさが異なる場合は#N/A）
+   */
+  private withNumberPairs(
+    first: SimpleRangeValue,
+    second: SimpleRangeValue,
+    calculate: (firstNumbers: number[], secondNumbers: number[]) => number
+  ): number | CellError {
+    const firstValues = first.valuesFromTopLeftCorner();
+    const secondValues = second.valuesFromTopLeftCorner();
+    if (firstValues.length !== secondValues.length) return new CellError(ErrorType.NA);
+
+    const firstNumbers: number[] = [];
+    const secondNumbers: number[] = [];
+    for (let i = 0; i < firstValues.length; i++) {
+      const pair = this.arithmeticHelper.manyToExactNumbers([firstValues[i], secondValues[i]]);
+      if (pair instanceof CellError) return pair;
+      if (pair.length === 2) {
+        firstNumbers.push(pair[0]);
+        secondNumbers.push(pair[1]);
+      }
+    }
+    return solve(() => calculate(firstNumbers, secondNumbers));
+  }
+}
+
+/**
+ * 数式計算エンジンの関数ライブラリの関数を呼び出すプラグインを作成する
+ * 引数はFormulaValueに変換して渡し、配列の結果は左上の値を返す（遅延評価・参照のままの引数には対応しない）
+ */
+function createLibraryPlugin(
+  library: FormulaFunctionLibrary,
+  names: string[],
+  volatileNames: string[] = []
+): FunctionPluginDefinition {
+  class LibraryPlugin extends FunctionPlugin {
+    static implementedFunctions: ImplementedFunctions = Object.fromEntries(names.map(name => [name, {
+      method: 'callLibraryFunction',
+      parameters: [{ argumentType: FunctionArgumentType.ANY, optionalArg: true }],
+      repeatLastArgs: 1,
+      isVolatile: volatileNames.includes(name),
+    }]));
+
+    callLibraryFunction(ast: ProcedureAst, state: InterpreterState) {
+      const { implementation, options } = library[ast.procedureName];
+      return this.runFunction(ast.args, state, this.metadata(ast.procedureName), (...args: unknown[]) => {
+        const values = args.map(arg => this.toFormulaValue(arg));
+        const error = options.acceptsErrors ? undefined : values.find(isFormulaErrorValue);
+        if (error) return toCellError(error.code, error.message);
+
+        // HyperFormulaの日付は1900年システム（1899/12/30を0とする）
+        const context: FormulaCallContext = {
+          dateSystem: '1900',
+          getRangeValues: () => {
+            throw new FormulaEvaluationError('#REF!', 'セル範囲の値を取得できません');
+          },
+        };
+        return solve(() => {
+          const result = toScalar(implementation(...(options.withContext ? [context, ...values] : values)));
+          if (isFormulaErrorValue(result)) return toCellError(result.code, result.message);
+          return result ?? EmptyValue;
+        });
+      });
+    }
+
+    /**
+     * HyperFormulaの引数の値をFormulaValueに変換する（範囲は2次元配列、省略された引数はundefined）
+     */
+    private toFormulaValue(value: unknown): FormulaValue | undefined {
+      if (value === undefined) return undefined;
+      if (value instanceof SimpleRangeValue) {
+        return value.data.map(row => row.map(cell => this.toFormulaScalar(cell)));
+      }
+      return this.toFormulaScalar(value);
+    }
+
+    private toFormulaScalar(value: unknown): FormulaScalar {
+      if (value instanceof CellError) {
+        return createFormulaErrorValue(FORMULA_ERROR_CODES[value.type] ?? '#VALUE!', value.message);
+      }
+      if (value === EmptyValue) return null;
+      if (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean') return value;
+      // 日付・パーセントなどの書式付きの数値
+      const numbers = this.arithmeticHelper.manyToExactNumbers([value as number]);
+      return numbers instanceof CellError || numbers.length === 0 ? null : numbers[0];
+    }
+  }
+  return LibraryPlugin;
+}
+
+/**
+ * エラー値の種類をHyperFormulaのエラーに変換する
+ */
+function toCellError(code: FormulaErrorCode, message?: string): CellError {
+  return new CellError(HYPERFORMULA_ERROR_TYPES[code] ?? ErrorType.VALUE, message);
+}
+
+/**
+ * 計算を実行し、エラー値の例外をHyperFormulaのエラーに変換する
+ */
+function solve<T>(calculate: () => T): T | CellError {
+  try {
+    return calculate();
+  } catch (error) {
+    if (error instanceof FormulaEvaluationError) {
+      return toCellError(error.code, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * 追加の関数をHyperFormulaに登録する（登録済みの場合は何もしない）
+ */
+export function registerHyperFormulaPlugins(): void {
+  if (HyperFormula.getRegisteredFunctionNames('enGB').includes('XIRR')) {
+    return;
+  }
+  HyperFormula.registerFunctionPlugin(FinancialSolverPlugin, {
+    enGB: { IRR: 'IRR', XIRR: 'XIRR' },
+  });
+  HyperFormula.registerFunctionPlugin(StatisticalPlugin, {
+    enGB: Object.fromEntries(
+      [...Object.keys(StatisticalPlugin.implementedFunctions), ...Object.keys(StatisticalPlugin.aliases)]
+        .map(name => [name, name])
+    ),
+  });
+  HyperFormula.registerFunctionPlugin(createLibraryPlugin(TEXT_FUNCTIONS, TEXT_FUNCTION_NAMES), {
+    enGB: Object.fromEntries(TEXT_FUNCTION_NAMES.map(name => [name, name])),
+  });
+  HyperFormula.registerFunctionPlugin(createLibraryPlugin(ARRAY_FUNCTIONS, ARRAY_FUNCTION_NAMES), {
+    enGB: Object.fromEntries(ARRAY_FUNCTION_NAMES.map(name => [name, name])),
+  });
+}
+
+/**
+ * プラグインの関数をHyperFormulaに登録する
+ * HyperFormulaの関数の登録はすべてのインスタンスで共有されるため、前回登録したプラグインの関数を解除してから登録する。
+ * 作成済みのインスタンスは作成時に登録されていた関数を使うため、HyperFormula.buildEmptyの直前に呼び出すこと
+ */
+export function registerFormulaPluginFunctions(library: FormulaFunctionLibrary, volatileNames: string[] = []): void {
+  registeredPluginFunctionNames.forEach(name => HyperFormula.unregisterFunction(name));
+  registeredPluginFunctionNames.clear();
+
+  const names = Object.keys(library);
+  if (names.length === 0) {
+    return;
+  }
+  const builtInNames = HyperFormula.getRegisteredFunctionNames('enGB');
+  const duplicate = names.find(name => builtInNames.includes(name));
+  if (duplicate) {
+    throw new Error(`関数名がHyperFormulaの関数と重複しています: ${duplicate}`);
+  }
+
+  HyperFormula.registerFunctionPlugin(createLibraryPlugin(library, names, volatileNames), {
+    enGB: Object.fromEntries(names.map(name => [name, name])),
+  });
+  names.forEach(name => registeredPluginFunctionNames.add(name));
+}
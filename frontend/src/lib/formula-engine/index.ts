@@ -3,9 +3,39 @@
  * HyperFormulaのラッパーライブラリ
  */
 
-import { HyperFormula } from 'hyperformula';
-import { CellPosition } from '../cell';
-import { Spreadsheet } from '../spreadsheet';
+import { HyperFormula, DetailedCellError, ErrorType, SimpleCellAddress, SimpleCellRange } from 'hyperformula';
+import { Cell, CellPosition, SheetCellPosition, createEmptyCell, updateCellValue } from '../cell';
+import { Spreadsheet, DEFAULT_SPREADSHEET_CONFIG, createSpreadsheet, setCellInSpreadsheet } from '../spreadsheet';
+import {
+  DEFAULT_ITERATIVE_CALCULATION,
+  IterativeCalculationSettings,
+  Workbook,
+  createWorkbookFromSpreadsheet,
+  getActiveSheet,
+  getIterativeCalculationSettings
+} from '../workbook';
+import { rewriteSheetReferences, formatSheetName } from '../formula';
+import { NamedRange, isLambdaDefinition } from '../named-range';
+import {
+  CalculationContext,
+  CalculationResult,
+  FormulaCalculator,
+  createCalculationContext,
+  createFormulaCalculator
+} from './calculator';
+import { FormulaError } from '../formula';
+import { FormulaEvaluationStep } from './evaluator';
+import {
+  ConditionalFormatEvaluationOptions,
+  ConditionalFormatResult,
+  evaluateConditionalFormats
+} from './conditional-formatting';
+import { DependencyManager } from './dependencies';
+import { IncrementalRecalculator } from './recalculation';
+import { registerFormulaPluginFunctions, registerHyperFormulaPlugins } from './hyperformula-plugins';
+import { FormulaPluginDefinition, FormulaPluginFunctionInfo, FormulaPluginSandboxFactory } from './plugins';
+import { dateTextToSerial, serialToDateObject } from '../date-serial';
+import { FormulaLocale, delocalizeFormula, localizeFormula, resolveFormulaLocale } from './locale';
 
 /**
  * 数式エンジンの設定
@@ -25,6 +55,10 @@ export interface FormulaEngineConfig {
   functionArgSeparator?: string;
   arrayColumnSeparator?: string;
   arrayRowSeparator?: string;
+  plugins?: FormulaPluginDefinition[];
+  pluginSandbox?: FormulaPluginSandboxFactory;
+  iterativeCalculation?: IterativeCalculationSettings;  // ワークブックを設定した場合はワークブックの設定を使う
+  locale?: string | FormulaLocale;  // 入力・表示する数式の言語（セルに保存する数式は英語の関数名と「,」区切りの形式）
 }
 
 /**
@@ -40,14 +74,30 @@ export interface FormulaCalculationResult {
   };
 }
 
+/**
+ * 同じスコープの同じ名前かどうか（大文字小文字を区別しない）
+ */
+function isSameName(namedRange: NamedRange, name: string, scope?: string): boolean {
+  return namedRange.name.toLowerCase() === name.toLowerCase() &&
+    namedRange.scope?.toLowerCase() === scope?.toLowerCase();
+}
+
 /**
  * 数式エンジンクラス
+ * HyperFormulaで計算できない数式（LET・LAMBDA・MAPなどを使う数式）は数式計算エンジン（FormulaCalculator）で計算する
  */
 export class SpreadsheetFormulaEngine {
   private engine: HyperFormula;
   private sheetId: number = 0;
+  private namedRanges: NamedRange[] = [];
+  private calculator: FormulaCalculator;
+  private iterativeCalculation: IterativeCalculationSettings;
+  private locale: FormulaLocale;
 
   constructor(config: FormulaEngineConfig = {}) {
+    const { plugins, pluginSandbox, iterativeCalculation, locale, ...engineConfig } = config;
+    this.iterativeCalculation = { ...DEFAULT_ITERATIVE_CALCULATION, ...iterativeCalculation };
+    this.locale = resolveFormulaLocale(locale);
     const defaultConfig = {
       licenseKey: 'gpl-v3',
       useColumnIndex: true,
@@ -60,12 +110,19 @@ export class SpreadsheetFormulaEngine {
       functionArgSeparator: ',',
       arrayColumnSeparator: ',',
       arrayRowSeparator: ';',
-      ...config
+      ...engineConfig
     };
 
     try {
+      // プラグインの関数はHyperFormulaと数式計算エンジンの両方で同じ実行環境を使う
+      this.calculator = createFormulaCalculator({ plugins, pluginSandbox, iterativeCalculation: this.iterativeCalculation });
+      registerHyperFormulaPlugins();
+      registerFormulaPluginFunctions(
+        this.calculator.getPluginFunctionLibrary(),
+        this.calculator.getPluginFunctions().filter(func => func.volatile).map(func => func.name.toUpperCase())
+      );
       this.engine = HyperFormula.buildEmpty(defaultConfig);
-      this.sheetId = this.engine.addSheet('Sheet1');
+      this.sheetId = this.engine.getSheetId(this.engine.addSheet('Sheet1'))!;
     } catch (error) {
       throw new Error(`数式エンジンの初期化に失敗: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -73,78 +130,328 @@ export class SpreadsheetFormulaEngine {
 
   /**
    * スプレッドシートデータを数式エンジンに設定する
+   * changedPositionsを指定すると、シートを読み込み直さずに指定したセルだけを置き換える
+   * （HyperFormulaは置き換えたセルに依存するセルだけを再計算する）
    */
-  setSpreadsheetData(spreadsheet: Spreadsheet): void {
+  setSpreadsheetData(spreadsheet: Spreadsheet, sheetName?: string, changedPositions?: CellPosition[]): void {
     try {
+      const sheetId = this.resolveSheetId(sheetName);
+
+      if (changedPositions) {
+        this.engine.batch(() => {
+          for (const position of changedPositions) {
+            this.engine.setCellContents(
+              { sheet: sheetId, row: position.row, col: position.column },
+              this.toEngineValue(spreadsheet.cells.get(`${position.row}-${position.column}`))
+            );
+          }
+        });
+        return;
+      }
+
       // 既存のデータをクリア
-      this.engine.clearSheet(this.sheetId);
-
-      // セルデータを設定
-      const cellsData: any[][] = [];
-
-      // 行と列の最大値を取得
-      let maxRow = 0;
-      let maxCol = 0;
-      for (const [key] of spreadsheet.cells) {
-        const [rowStr, colStr] = key.split('-');
-        const row = parseInt(rowStr, 10);
-        const col = parseInt(colStr, 10);
-        maxRow = Math.max(maxRow, row);
-        maxCol = Math.max(maxCol, col);
+      this.engine.clearSheet(sheetId);
+
+      // データを一括設定
+      this.engine.setSheetContent(sheetId, this.buildSheetContent(spreadsheet));
+    } catch (error) {
+      throw new Error(`スプレッドシートデータの設定に失敗: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * ワークブックの全シートを数式エンジンに設定する
+   */
+  setWorkbookData(workbook: Workbook): void {
+    try {
+      const sheetNames = workbook.sheets.map(sheet => sheet.name);
+
+      // ワークブックに存在しないシートを削除
+      for (const existingName of this.engine.getSheetNames()) {
+        if (!sheetNames.includes(existingName)) {
+          this.engine.removeSheet(this.engine.getSheetId(existingName)!);
+        }
       }
 
-      // 2次元配列を初期化
-      for (let i = 0; i <= maxRow; i++) {
-        cellsData[i] = new Array(maxCol + 1).fill(null);
+      // シート間参照を解決できるよう、内容の設定前に全シートを用意する
+      for (const sheetName of sheetNames) {
+        if (!this.engine.doesSheetExist(sheetName)) {
+          this.engine.addSheet(sheetName);
+        }
       }
 
-      // セルデータを配列に設定
-      for (const [key, cell] of spreadsheet.cells) {
-        const [rowStr, colStr] = key.split('-');
-        const row = parseInt(rowStr, 10);
-        const col = parseInt(colStr, 10);
-
-        let value: any = null;
-
-        if (cell.rawValue) {
-          if (cell.dataType === 'formula') {
-            // 数式の場合
-            value = cell.rawValue;
-          } else if (cell.dataType === 'number') {
-            // 数値の場合
-            const numValue = parseFloat(cell.rawValue);
-            value = isNaN(numValue) ? cell.rawValue : numValue;
-          } else if (cell.dataType === 'boolean') {
-            // ブール値の場合
-            value = cell.rawValue.toLowerCase() === 'true';
-          } else if (cell.dataType === 'date') {
-            // 日付の場合
-            const dateValue = new Date(cell.rawValue);
-            value = isNaN(dateValue.getTime()) ? cell.rawValue : dateValue;
-          } else {
-            // その他（テキスト）の場合
-            value = cell.rawValue;
-          }
+      // 名前を参照する数式が#NAME?にならないよう、内容の設定前に名前を登録する
+      this.setNamedRanges(workbook.names);
+
+      this.engine.batch(() => {
+        for (const sheet of workbook.sheets) {
+          const sheetId = this.engine.getSheetId(sheet.name)!;
+          this.engine.setSheetContent(sheetId, this.buildSheetContent(sheet));
         }
+      });
+
+      this.sheetId = this.engine.getSheetId(getActiveSheet(workbook).name)!;
+      this.iterativeCalculation = getIterativeCalculationSettings(workbook);
+      this.calculator.setIterativeCalculationSettings(this.iterativeCalculation);
+    } catch (error) {
+      throw new Error(`ワークブックデータの設定に失敗: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * シートを追加する
+   */
+  addSheet(sheetName: string): void {
+    if (this.engine.doesSheetExist(sheetName)) {
+      throw new Error(`シートは既に存在します: ${sheetName}`);
+    }
+    this.engine.addSheet(sheetName);
+  }
+
+  /**
+   * シート名を変更する
+   */
+  renameSheet(oldName: string, newName: string): void {
+    this.engine.renameSheet(this.resolveSheetId(oldName), newName);
+  }
+
+  /**
+   * シートを削除する
+   */
+  removeSheet(sheetName: string): void {
+    const sheetId = this.resolveSheetId(sheetName);
+    if (this.engine.countSheets() <= 1) {
+      throw new Error('最後のシートは削除できません');
+    }
+    this.engine.removeSheet(sheetId);
 
-        cellsData[row][col] = value;
+    if (sheetId === this.sheetId) {
+      this.sheetId = this.engine.getSheetId(this.engine.getSheetNames()[0])!;
+    }
+  }
+
+  /**
+   * 名前を省略した操作の対象となるアクティブシートを切り替える
+   */
+  setActiveSheet(sheetName: string): void {
+    this.sheetId = this.resolveSheetId(sheetName);
+  }
+
+  /**
+   * シート名の一覧を取得する
+   */
+  getSheetNames(): string[] {
+    return this.engine.getSheetNames();
+  }
+
+  /**
+   * 名前付き範囲を登録する（同じスコープに同名の名前があれば参照先を変更する）
+   * LAMBDAで定義した関数はHyperFormulaには登録せず、呼び出す数式を数式計算エンジンで計算する
+   */
+  setNamedRange(namedRange: NamedRange): void {
+    const scope = namedRange.scope !== undefined ? this.resolveSheetId(namedRange.scope) : undefined;
+    const expression = this.normalizeFormula(namedRange.refersTo);
+    const exists = this.engine.listNamedExpressions(scope).some(name => name.toLowerCase() === namedRange.name.toLowerCase());
+
+    if (isLambdaDefinition(namedRange.refersTo)) {
+      if (exists) {
+        this.engine.removeNamedExpression(namedRange.name, scope);
       }
+    } else if (exists) {
+      this.engine.changeNamedExpression(namedRange.name, expression, scope);
+    } else {
+      this.engine.addNamedExpression(namedRange.name, expression, scope);
+    }
 
-      // データを一括設定
-      this.engine.setSheetContent(this.sheetId, cellsData);
-    } catch (error) {
-      throw new Error(`スプレッドシートデータの設定に失敗: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    this.namedRanges = [
+      ...this.namedRanges.filter(existing => !isSameName(existing, namedRange.name, namedRange.scope)),
+      namedRange
+    ];
+  }
+
+  /**
+   * 名前付き範囲の登録を解除する
+   */
+  removeNamedRange(name: string, scopeSheetName?: string): void {
+    const scope = scopeSheetName !== undefined ? this.resolveSheetId(scopeSheetName) : undefined;
+    const lambdaName = this.namedRanges.find(namedRange =>
+      isSameName(namedRange, name, scopeSheetName) && isLambdaDefinition(namedRange.refersTo));
+
+    if (!lambdaName) {
+      this.engine.removeNamedExpression(name, scope);
     }
+    this.namedRanges = this.namedRanges.filter(namedRange => !isSameName(namedRange, name, scopeSheetName));
+  }
+
+  /**
+   * 登録されている名前付き範囲をすべて置き換える
+   * エンジンが解釈できない参照先の名前は登録せず、その名前を使う数式は#NAME?になる
+   */
+  setNamedRanges(names: NamedRange[]): void {
+    for (const sheetName of this.engine.getSheetNames()) {
+      const sheetId = this.engine.getSheetId(sheetName)!;
+      for (const name of this.engine.listNamedExpressions(sheetId)) {
+        this.engine.removeNamedExpression(name, sheetId);
+      }
+    }
+    for (const name of this.engine.listNamedExpressions()) {
+      this.engine.removeNamedExpression(name);
+    }
+    this.namedRanges = [];
+
+    for (const namedRange of names) {
+      try {
+        this.setNamedRange(namedRange);
+      } catch {
+        continue;
+      }
+    }
+  }
+
+  /**
+   * 登録されている名前の一覧を取得する（シート名を指定した場合はそのシートのスコープの名前）
+   */
+  getNamedRangeNames(scopeSheetName?: string): string[] {
+    const scope = scopeSheetName !== undefined ? this.resolveSheetId(scopeSheetName) : undefined;
+    const lambdaNames = this.namedRanges
+      .filter(namedRange =>
+        namedRange.scope?.toLowerCase() === scopeSheetName?.toLowerCase() && isLambdaDefinition(namedRange.refersTo))
+      .map(namedRange => namedRange.name);
+    return [...this.engine.listNamedExpressions(scope), ...lambdaNames];
+  }
+
+  /**
+   * シート名からシートIDを解決する（省略時はアクティブシート）
+   */
+  private resolveSheetId(sheetName?: string): number {
+    if (sheetName === undefined) {
+      return this.sheetId;
+    }
+
+    const sheetId = this.engine.getSheetId(sheetName);
+    if (sheetId === undefined) {
+      throw new Error(`シートが見つかりません: ${sheetName}`);
+    }
+    return sheetId;
+  }
+
+  /**
+   * 反復計算の設定を変更する（差分再計算・循環参照の計算に使う）
+   */
+  setIterativeCalculationSettings(settings: IterativeCalculationSettings): void {
+    this.iterativeCalculation = { ...settings };
+    this.calculator.setIterativeCalculationSettings(this.iterativeCalculation);
+  }
+
+  /**
+   * 入力・表示する数式の言語を取得する
+   */
+  getLocale(): FormulaLocale {
+    return this.locale;
+  }
+
+  /**
+   * 保存した数式を入力・表示する言語の形式にする
+   */
+  localizeFormula(formula: string): string {
+    return localizeFormula(formula, this.locale);
+  }
+
+  /**
+   * 入力した数式を保存する形式にする
+   */
+  delocalizeFormula(formula: string): string {
+    return delocalizeFormula(formula, this.locale);
+  }
+
+  /**
+   * 入力した値を数式エンジンに設定する値にする（数式は保存する形式にする）
+   */
+  private fromInputValue(value: any): any {
+    return this.normalizeFormula(typeof value === 'string' ? delocalizeFormula(value, this.locale) : value);
+  }
+
+  /**
+   * 数式中のシート名をHyperFormulaが解釈できる形式（必要に応じて引用符付き）に揃える
+   */
+  private normalizeFormula(value: any): any {
+    if (typeof value !== 'string' || !value.startsWith('=')) {
+      return value;
+    }
+    return rewriteSheetReferences(value, (sheetName, reference) => `${formatSheetName(sheetName)}!${reference}`);
+  }
+
+  /**
+   * スプレッドシートのセルをHyperFormula用の2次元配列に変換する
+   */
+  private buildSheetContent(spreadsheet: Spreadsheet): any[][] {
+    const cellsData: any[][] = [];
+
+    // 行と列の最大値を取得
+    let maxRow = 0;
+    let maxCol = 0;
+    for (const [key] of spreadsheet.cells) {
+      const [rowStr, colStr] = key.split('-');
+      const row = parseInt(rowStr, 10);
+      const col = parseInt(colStr, 10);
+      maxRow = Math.max(maxRow, row);
+      maxCol = Math.max(maxCol, col);
+    }
+
+    // 2次元配列を初期化
+    for (let i = 0; i <= maxRow; i++) {
+      cellsData[i] = new Array(maxCol + 1).fill(null);
+    }
+
+    // セルデータを配列に設定
+    for (const [key, cell] of spreadsheet.cells) {
+      const [rowStr, colStr] = key.split('-');
+      const row = parseInt(rowStr, 10);
+      const col = parseInt(colStr, 10);
+
+      cellsData[row][col] = this.toEngineValue(cell);
+    }
+
+    return cellsData;
+  }
+
+  /**
+   * セルをHyperFormulaに設定する値に変換する（空のセルはnull）
+   */
+  private toEngineValue(cell: Cell | undefined): any {
+    if (!cell || !cell.rawValue) {
+      return null;
+    }
+
+    if (cell.dataType === 'formula') {
+      // 数式の場合
+      return this.normalizeFormula(cell.rawValue);
+    } else if (cell.dataType === 'number') {
+      // 数値の場合
+      const numValue = parseFloat(cell.rawValue);
+      return isNaN(numValue) ? cell.rawValue : numValue;
+    } else if (cell.dataType === 'boolean') {
+      // ブール値の場合
+      return cell.rawValue.toLowerCase() === 'true';
+    } else if (cell.dataType === 'date') {
+      // 日付の場合
+      const serial = dateTextToSerial(cell.rawValue);
+      return serial === null ? cell.rawValue : serialToDateObject(serial);
+    }
+    // その他（テキスト）の場合
+    // HyperFormulaは文字列を数値・日付・先頭のアポストロフィとして解釈し直すため、アポストロフィを付けて文字列のまま設定する
+    return `'${cell.rawValue}`;
   }
 
   /**
    * 指定されたセルの値を計算する
    */
-  calculateCell(position: CellPosition): FormulaCalculationResult {
+  calculateCell(position: CellPosition, sheetName?: string): FormulaCalculationResult {
     try {
-      const value = this.engine.getCellValue({ sheet: this.sheetId, row: position.row, col: position.column });
+      const sheetId = this.resolveSheetId(sheetName);
+      const value = this.engine.getCellValue({ sheet: sheetId, row: position.row, col: position.column });
 
-      if (this.engine.isCellEmpty({ sheet: this.sheetId, row: position.row, col: position.column })) {
+      if (this.engine.isCellEmpty({ sheet: sheetId, row: position.row, col: position.column })) {
         return {
           success: true,
           value: null,
@@ -152,7 +459,29 @@ export class SpreadsheetFormulaEngine {
         };
       }
 
-      // エラーチェック
+      // エラーチェック（#REF! などのエラー値）
+      if (value instanceof DetailedCellError) {
+        // 認識できない関数・解析できない構文の数式（エラーが伝播したセルを含む）は数式計算エンジンで計算する
+        const address = { sheet: sheetId, row: position.row, col: position.column };
+        if ((value.type === ErrorType.NAME || value.type === ErrorType.ERROR) && this.engine.doesCellHaveFormula(address)) {
+          return this.calculateWithFormulaCalculator(position, sheetId);
+        }
+        // 反復計算が有効な場合、循環参照のセル（循環参照を参照するセルを含む）は数式計算エンジンで反復計算する
+        if (value.type === ErrorType.CYCLE && this.iterativeCalculation.enabled && this.engine.doesCellHaveFormula(address)) {
+          return this.calculateWithFormulaCalculator(position, sheetId, true);
+        }
+
+        const errorType = value.value.replace(/^#|[!?]$/g, '');
+        return {
+          success: false,
+          displayValue: value.value,
+          error: {
+            type: errorType,
+            message: value.message || this.getErrorMessage(errorType)
+          }
+        };
+      }
+
       if (typeof value === 'object' && value !== null && 'error' in value) {
         return {
           success: false,
@@ -183,14 +512,91 @@ export class SpreadsheetFormulaEngine {
   }
 
   /**
-   * セルの値を設定する
+   * 数式計算エンジン（FormulaCalculator）でセルの数式を計算する（配列の結果は左上の値）
+   * solveCircularReferencesを指定すると、先にワークブックの循環参照を反復計算で解く
+   */
+  private calculateWithFormulaCalculator(
+    position: CellPosition,
+    sheetId: number,
+    solveCircularReferences: boolean = false
+  ): FormulaCalculationResult {
+    const formula = this.engine.getCellFormula({ sheet: sheetId, row: position.row, col: position.column })!;
+    const sheets = this.engine.getSheetNames().map(sheetName => this.buildCalculatorSheet(sheetName));
+    const spreadsheet = sheets.find(sheet => sheet.name === this.engine.getSheetName(sheetId))!;
+    const workbook: Workbook = { ...createWorkbookFromSpreadsheet(spreadsheet), sheets, names: this.namedRanges };
+
+    const context = createCalculationContext(spreadsheet, { workbook, currentPosition: position });
+    let result: CalculationResult;
+    if (solveCircularReferences) {
+      const components = new DependencyManager(spreadsheet, workbook).getStronglyConnectedComponents();
+      const solution = this.calculator.calculateCircularReferences(components, context, this.iterativeCalculation);
+      const solved = solution.components.flatMap(component => component.cells.map((cell, index) => ({
+        cell,
+        result: component.results[index]
+      }))).find(({ cell }) =>
+        cell.sheetName === spreadsheet.name && cell.row === position.row && cell.column === position.column);
+      result = solved?.result ?? this.calculator.calculate(formula, { ...context, iterationValues: solution.iterationValues });
+    } else {
+      result = this.calculator.calculate(formula, context);
+    }
+    if (result.error) {
+      return {
+        success: false,
+        displayValue: result.displayValue,
+        error: {
+          type: result.displayValue.replace(/^#|[!?]$/g, ''),
+          message: result.error.message
+        }
+      };
+    }
+    return {
+      success: true,
+      value: result.value,
+      displayValue: result.displayValue
+    };
+  }
+
+  /**
+   * 数式計算エンジンで計算するためのシートを作成する
+   * HyperFormulaで計算できたセルはその値（日付はシリアル値）、計算できなかった数式のセルは数式のまま設定する
    */
-  setCellValue(position: CellPosition, value: any): FormulaCalculationResult {
+  private buildCalculatorSheet(sheetName: string): Spreadsheet {
+    const sheetId = this.engine.getSheetId(sheetName)!;
+    const { width, height } = this.engine.getSheetDimensions(sheetId);
+    const values = this.engine.getSheetValues(sheetId);
+    let spreadsheet = createSpreadsheet(sheetName, {
+      ...DEFAULT_SPREADSHEET_CONFIG,
+      maxRows: Math.max(height, DEFAULT_SPREADSHEET_CONFIG.maxRows),
+      maxColumns: Math.max(width, DEFAULT_SPREADSHEET_CONFIG.maxColumns)
+    });
+
+    this.engine.getSheetSerialized(sheetId).forEach((contents, row) => contents.forEach((content, column) => {
+      const value = values[row]?.[column];
+      const input = value instanceof DetailedCellError ? content : value;
+      if (input === null || input === undefined || input === '') {
+        return;
+      }
+
+      const position = { row, column };
+      const text = typeof input === 'boolean' ? String(input).toUpperCase() : String(input);
+      spreadsheet = setCellInSpreadsheet(spreadsheet, position, updateCellValue(createEmptyCell(position), text));
+    }));
+
+    return spreadsheet;
+  }
+
+  /**
+   * セルの値を設定する（数式は入力する言語の形式で指定する）
+   */
+  setCellValue(position: CellPosition, value: any, sheetName?: string): FormulaCalculationResult {
     try {
-      this.engine.setCellContents({ sheet: this.sheetId, row: position.row, col: position.column }, value);
+      this.engine.setCellContents(
+        { sheet: this.resolveSheetId(sheetName), row: position.row, col: position.column },
+        this.fromInputValue(value)
+      );
 
       // 設定した値を取得して確認
-      return this.calculateCell(position);
+      return this.calculateCell(position, sheetName);
     } catch (error) {
       return {
         success: false,
@@ -205,7 +611,7 @@ export class SpreadsheetFormulaEngine {
   /**
    * 数式を評価する
    */
-  evaluateFormula(formula: string, contextPosition?: CellPosition): FormulaCalculationResult {
+  evaluateFormula(formula: string, contextPosition?: CellPosition, sheetName?: string): FormulaCalculationResult {
     try {
       // 一時的なセルを使用して数式を評価
       const tempPosition = contextPosition || { row: 0, column: 0 };
@@ -213,11 +619,11 @@ export class SpreadsheetFormulaEngine {
       // 数式が=で始まっていない場合は追加
       const formulaToEvaluate = formula.startsWith('=') ? formula : `=${formula}`;
 
-      const result = this.setCellValue(tempPosition, formulaToEvaluate);
+      const result = this.setCellValue(tempPosition, formulaToEvaluate, sheetName);
 
       // 一時セルをクリア（contextPositionが指定されていない場合のみ）
       if (!contextPosition) {
-        this.engine.setCellContents({ sheet: this.sheetId, row: tempPosition.row, col: tempPosition.column }, null);
+        this.engine.setCellContents({ sheet: this.resolveSheetId(sheetName), row: tempPosition.row, col: tempPosition.column }, null);
       }
 
       return result;
@@ -237,7 +643,8 @@ export class SpreadsheetFormulaEngine {
    */
   getCellRangeValues(
     startPosition: CellPosition,
-    endPosition: CellPosition
+    endPosition: CellPosition,
+    sheetName?: string
   ): FormulaCalculationResult & { values?: any[][] } {
     try {
       const values: any[][] = [];
@@ -245,7 +652,7 @@ export class SpreadsheetFormulaEngine {
       for (let row = startPosition.row; row <= endPosition.row; row++) {
         const rowValues: any[] = [];
         for (let col = startPosition.column; col <= endPosition.column; col++) {
-          const result = this.calculateCell({ row, column: col });
+          const result = this.calculateCell({ row, column: col }, sheetName);
           rowValues.push(result.success ? result.value : null);
         }
         values.push(rowValues);
@@ -267,11 +674,11 @@ export class SpreadsheetFormulaEngine {
   }
 
   /**
-   * セルの数式を取得する
+   * セルの数式を取得する（保存する形式。表示にはlocalizeFormulaで変換する）
    */
-  getCellFormula(position: CellPosition): string | null {
+  getCellFormula(position: CellPosition, sheetName?: string): string | null {
     try {
-      const formula = this.engine.getCellFormula({ sheet: this.sheetId, row: position.row, col: position.column });
+      const formula = this.engine.getCellFormula({ sheet: this.resolveSheetId(sheetName), row: position.row, col: position.column });
       return formula || null;
     } catch (error) {
       return null;
@@ -279,46 +686,119 @@ export class SpreadsheetFormulaEngine {
   }
 
   /**
-   * セルの依存関係を取得する
+   * セルが参照しているセル（依存先）を取得する
+   * 別シートのセルにはsheetNameが付与される
    */
-  getCellDependencies(position: CellPosition): CellPosition[] {
+  getCellDependencies(position: CellPosition, sheetName?: string): SheetCellPosition[] {
     try {
-      const dependencies = this.engine.getCellDependencies({ sheet: this.sheetId, row: position.row, col: position.column });
-
-      return dependencies.map(dep => ({
-        row: dep.row,
-        column: dep.col
-      }));
+      const sheetId = this.resolveSheetId(sheetName);
+      const precedents = this.engine.getCellPrecedents({ sheet: sheetId, row: position.row, col: position.column });
+      return this.toSheetCellPositions(precedents, sheetId);
     } catch (error) {
       return [];
     }
   }
 
   /**
-   * セルに依存しているセルを取得する
+   * セルに依存しているセル（被依存）を取得する
+   * 別シートのセルにはsheetNameが付与される
    */
-  getCellPrecedents(position: CellPosition): CellPosition[] {
+  getCellPrecedents(position: CellPosition, sheetName?: string): SheetCellPosition[] {
     try {
-      const precedents = this.engine.getCellPrecedents({ sheet: this.sheetId, row: position.row, col: position.column });
-
-      return precedents.map(prec => ({
-        row: prec.row,
-        column: prec.col
-      }));
+      const sheetId = this.resolveSheetId(sheetName);
+      const dependents = this.engine.getCellDependents({ sheet: sheetId, row: position.row, col: position.column });
+      return this.toSheetCellPositions(dependents, sheetId);
     } catch (error) {
       return [];
     }
   }
 
+  /**
+   * HyperFormulaのアドレスをシート名付きのセル座標に変換する（範囲は個々のセルに展開）
+   */
+  private toSheetCellPositions(
+    addresses: (SimpleCellAddress | SimpleCellRange)[],
+    baseSheetId: number
+  ): SheetCellPosition[] {
+    const positions: SheetCellPosition[] = [];
+
+    const push = (sheet: number, row: number, column: number) => {
+      positions.push(sheet === baseSheetId
+        ? { row, column }
+        : { row, column, sheetName: this.engine.getSheetName(sheet) });
+    };
+
+    for (const address of addresses) {
+      if ('start' in address) {
+        for (let row = address.start.row; row <= address.end.row; row++) {
+          for (let col = address.start.col; col <= address.end.col; col++) {
+            push(address.start.sheet, row, col);
+          }
+        }
+      } else {
+        push(address.sheet, address.row, address.col);
+      }
+    }
+
+    return positions;
+  }
+
   /**
    * 利用可能な関数のリストを取得する
+   * HyperFormulaの関数に、FormulaCalculatorに登録された関数（条件付き集計・検索関数など）を加える
    */
   getAvailableFunctions(): string[] {
+    const names = new Set(this.calculator.getAvailableFunctions());
     try {
-      return this.engine.getFunctionNames();
+      for (const name of this.engine.getFunctionNames()) {
+        names.add(name);
+      }
     } catch (error) {
-      return [];
+      // HyperFormulaの関数一覧を取得できない場合はFormulaCalculatorの関数のみ
     }
+    return Array.from(names).sort();
+  }
+
+  /**
+   * 登録したプラグインの関数の情報を取得する
+   */
+  getPluginFunctions(): FormulaPluginFunctionInfo[] {
+    return this.calculator.getPluginFunctions();
+  }
+
+  /**
+   * 数式計算エンジン（プラグインの関数を含む）でシートを再計算する差分再計算の処理を作成する
+   * シートの表示値の再計算は画面と同じ計算結果になるよう数式計算エンジンで行う
+   */
+  createIncrementalRecalculator(): IncrementalRecalculator {
+    return new IncrementalRecalculator(this.calculator);
+  }
+
+  /**
+   * 数式計算エンジン（プラグインの関数を含む）でセルの値を計算する（エラーの詳細を含む）
+   */
+  calculateCellValue(position: CellPosition, context: CalculationContext): CalculationResult {
+    return this.calculator.calculateCellValue(position, context);
+  }
+
+  /**
+   * 数式計算エンジン（プラグインの関数を含む）で数式を1段階ずつ評価する（数式の検証）
+   */
+  evaluateFormulaSteps(
+    formula: string,
+    context: CalculationContext
+  ): { success: boolean; steps: FormulaEvaluationStep[]; error?: FormulaError } {
+    return this.calculator.evaluateFormulaSteps(formula, context);
+  }
+
+  /**
+   * 数式計算エンジン（プラグインの関数を含む）でシートの条件付き書式を評価する
+   */
+  evaluateConditionalFormats(
+    spreadsheet: Spreadsheet,
+    options?: ConditionalFormatEvaluationOptions
+  ): Map<string, ConditionalFormatResult> {
+    return evaluateConditionalFormats(spreadsheet, this.calculator, options);
   }
 
   /**
@@ -349,6 +829,7 @@ export class SpreadsheetFormulaEngine {
    * エンジンを破棄する
    */
   destroy(): void {
+    this.calculator.disposePlugins();
     try {
       this.engine.destroy();
     } catch (error) {
@@ -409,9 +890,9 @@ export class SpreadsheetFormulaEngine {
   /**
    * セルの型を取得する
    */
-  getCellValueType(position: CellPosition): string {
+  getCellValueType(position: CellPosition, sheetName?: string): string {
     try {
-      const value = this.engine.getCellValue({ sheet: this.sheetId, row: position.row, col: position.column });
+      const value = this.engine.getCellValue({ sheet: this.resolveSheetId(sheetName), row: position.row, col: position.column });
 
       if (value === null || value === undefined) {
         return 'empty';
@@ -429,7 +910,7 @@ export class SpreadsheetFormulaEngine {
         return 'date';
       }
 
-      if (typeof value === 'object' && 'error' in value) {
+      if (value instanceof DetailedCellError || (typeof value === 'object' && 'error' in value)) {
         return 'error';
       }
 
@@ -442,36 +923,36 @@ export class SpreadsheetFormulaEngine {
   /**
    * バッチでセル値を設定する
    */
-  setBatchCellValues(updates: { position: CellPosition; value: any }[]): FormulaCalculationResult[] {
+  setBatchCellValues(updates: { position: CellPosition; value: any; sheetName?: string }[]): FormulaCalculationResult[] {
     const results: FormulaCalculationResult[] = [];
 
-    // バッチ更新のためのデータを準備
-    const changes: Array<{
-      sheet: number;
-      row: number;
-      col: number;
-      value: any;
-    }> = updates.map(update => ({
-      sheet: this.sheetId,
-      row: update.position.row,
-      col: update.position.column,
-      value: update.value
-    }));
-
     try {
+      // バッチ更新のためのデータを準備
+      const changes: Array<{
+        sheet: number;
+        row: number;
+        col: number;
+        value: any;
+      }> = updates.map(update => ({
+        sheet: this.resolveSheetId(update.sheetName),
+        row: update.position.row,
+        col: update.position.column,
+        value: update.value
+      }));
+
       // バッチで更新を実行
       this.engine.batch(() => {
         changes.forEach(change => {
           this.engine.setCellContents(
             { sheet: change.sheet, row: change.row, col: change.col },
-            change.value
+            this.fromInputValue(change.value)
           );
         });
       });
 
       // 各セルの結果を取得
       updates.forEach(update => {
-        const result = this.calculateCell(update.position);
+        const result = this.calculateCell(update.position, update.sheetName);
         results.push(result);
       });
 
@@ -499,9 +980,12 @@ export function createFormulaEngine(config?: FormulaEngineConfig): SpreadsheetFo
 /**
  * 数式の構文チェックを行う
  */
-export function validateFormulaSyntax(formula: string): { isValid: boolean; error?: string } {
+export function validateFormulaSyntax(
+  formula: string,
+  config?: FormulaEngineConfig
+): { isValid: boolean; error?: string } {
   try {
-    const tempEngine = createFormulaEngine();
+    const tempEngine = createFormulaEngine(config);
     const result = tempEngine.evaluateFormula(formula);
     tempEngine.destroy();
 
@@ -0,0 +1,167 @@
+/**
+ * Lambda Functions Library
+ * LAMBDAの関数を配列の要素・行・列ごとに呼び出す関数（MAP・REDUCE・SCAN・BYROW・BYCOL）を提供するライブラリ
+ * LET・LAMBDAは引数の名前を扱うため、評価器（evaluator）で処理する
+ */
+
+import {
+  FormulaArray,
+  FormulaEvaluationError,
+  FormulaFunctionLibrary,
+  FormulaLambda,
+  FormulaScalar,
+  FormulaValue,
+  createFormulaErrorValue,
+  isFormulaErrorValue,
+  isFormulaLambda
+} from './evaluator';
+
+/**
+ * 値を2次元配列として扱う
+ */
+function toArray(value: FormulaValue): FormulaArray {
+  return Array.isArray(value) ? value : [[value]];
+}
+
+/**
+ * 最後の引数のLAMBDAの関数を取り出し、引数の数を確認する
+ */
+function toLambda(value: FormulaValue | FormulaLambda | undefined, parameterCount: number): FormulaLambda {
+  if (isFormulaErrorValue(value)) {
+    throw new FormulaEvaluationError(value.code, value.message);
+  }
+  if (!isFormulaLambda(value)) {
+    throw new FormulaEvaluationError('#VALUE!', '最後の引数にはLAMBDAの関数を指定してください');
+  }
+  if (value.parameters.length !== parameterCount) {
+    throw new FormulaEvaluationError('#VALUE!', `LAMBDAの引数の数が一致しません（${parameterCount}個の引数が必要です）`);
+  }
+  return value;
+}
+
+/**
+ * 配列以外の引数（LAMBDAの関数など）を受け付けない
+ */
+function toArrayArgument(value: FormulaValue | FormulaLambda): FormulaArray {
+  if (isFormulaLambda(value)) {
+    throw new FormulaEvaluationError('#VALUE!', '配列の引数にLAMBDAの関数は指定できません');
+  }
+  return toArray(value);
+}
+
+/**
+ * LAMBDAの関数を呼び出し、1つの値の結果を返す（配列・関数の結果は#CALC!）
+ */
+function invokeForScalar(lambda: FormulaLambda, args: FormulaValue[]): FormulaScalar {
+  const result = lambda.invoke(args);
+  if (isFormulaLambda(result)) {
+    throw new FormulaEvaluationError('#CALC!', 'LAMBDAの結果に関数は返せません');
+  }
+  if (!Array.isArray(result)) {
+    return result;
+  }
+  if (result.length !== 1 || result[0].length !== 1) {
+    throw new FormulaEvaluationError('#CALC!', 'LAMBDAの結果が1つの値ではありません');
+  }
+  return result[0][0];
+}
+
+/**
+ * 配列の値を行優先の順に累積する（SCANは途中の値、REDUCEは最後の値を使う）
+ */
+function accumulate(
+  initialValue: FormulaValue | FormulaLambda | undefined,
+  source: FormulaValue | FormulaLambda,
+  lambdaValue: FormulaValue | FormulaLambda,
+  onStep: (value: FormulaValue, row: number, column: number) => void
+): FormulaValue {
+  const lambda = toLambda(lambdaValue, 2);
+  if (isFormulaLambda(initialValue)) {
+    throw new FormulaEvaluationError('#VALUE!', '初期値にLAMBDAの関数は指定できません');
+  }
+
+  // 初期値を省略した場合は空白から累積する
+  let accumulator: FormulaValue = initialValue ?? null;
+  toArrayArgument(source).forEach((values, row) => values.forEach((value, column) => {
+    const result = lambda.invoke([accumulator, value]);
+    if (isFormulaLambda(result)) {
+      throw new FormulaEvaluationError('#CALC!', 'LAMBDAの結果に関数は返せません');
+    }
+    accumulator = result;
+    onStep(result, row, column);
+  }));
+  return accumulator;
+}
+
+/**
+ * LAMBDAの関数を使う配列関数
+ * エラー値の要素もそのままLAMBDAの関数に渡す（REDUCE・SCANの初期値は単一セルの参照をその値で受け取る）
+ */
+export const LAMBDA_FUNCTIONS: FormulaFunctionLibrary = {
+  MAP: {
+    implementation: (...args: Array<FormulaValue | FormulaLambda>): FormulaArray => {
+      if (args.length < 2) {
+        throw new FormulaEvaluationError('#VALUE!', '配列とLAMBDAの関数を指定してください');
+      }
+      const arrays = args.slice(0, -1).map(toArrayArgument);
+      const lambda = toLambda(args[args.length - 1], arrays.length);
+
+      // 大きさの異なる配列は大きい方に合わせ、範囲外の要素は#N/Aとする（1つの値は繰り返す）
+      const rows = Math.max(...arrays.map(array => array.length));
+      const columns = Math.max(...arrays.map(array => array[0].length));
+      const pick = (array: FormulaArray, row: number, column: number): FormulaScalar => {
+        if (array.length === 1 && array[0].length === 1) return array[0][0];
+        const value = array[row]?.[column];
+        return value === undefined ? createFormulaErrorValue('#N/A') : value;
+      };
+
+      return Array.from({ length: rows }, (_, row) => Array.from({ length: columns }, (_, column) =>
+        invokeForScalar(lambda, arrays.map(array => pick(array, row, column)))));
+    },
+    options: { referencesAsArrays: true, acceptsErrors: true, acceptsLambdas: true }
+  },
+
+  REDUCE: {
+    implementation: (
+      initialValue: FormulaValue | FormulaLambda | undefined,
+      source: FormulaValue | FormulaLambda,
+      lambda: FormulaValue | FormulaLambda
+    ): FormulaValue => accumulate(initialValue, source, lambda, () => undefined),
+    options: { acceptsErrors: true, acceptsLambdas: true }
+  },
+
+  SCAN: {
+    implementation: (
+      initialValue: FormulaValue | FormulaLambda | undefined,
+      source: FormulaValue | FormulaLambda,
+      lambda: FormulaValue | FormulaLambda
+    ): FormulaArray => {
+      const results: FormulaArray = toArrayArgument(source).map(values => values.map(() => null));
+      accumulate(initialValue, source, lambda, (value, row, column) => {
+        if (Array.isArray(value)) {
+          throw new FormulaEvaluationError('#CALC!', 'LAMBDAの結果が1つの値ではありません');
+        }
+        results[row][column] = value;
+      });
+      return results;
+    },
+    options: { acceptsErrors: true, acceptsLambdas: true }
+  },
+
+  BYROW: {
+    implementation: (source: FormulaValue | FormulaLambda, lambda: FormulaValue | FormulaLambda): FormulaArray => {
+      const rowLambda = toLambda(lambda, 1);
+      return toArrayArgument(source).map(values => [invokeForScalar(rowLambda, [[values]])]);
+    },
+    options: { referencesAsArrays: true, acceptsErrors: true, acceptsLambdas: true }
+  },
+
+  BYCOL: {
+    implementation: (source: FormulaValue | FormulaLambda, lambda: FormulaValue | FormulaLambda): FormulaArray => {
+      const columnLambda = toLambda(lambda, 1);
+      const array = toArrayArgument(source);
+      return [array[0].map((_, column) => invokeForScalar(columnLambda, [array.map(values => [values[column]])]))];
+    },
+    options: { referencesAsArrays: true, acceptsErrors: true, acceptsLambdas: true }
+  },
+};
@@ -0,0 +1,238 @@
+/**
+ * Formula Locale Library
+ * 数式の表示・入力の言語（引数の区切り文字・小数点・関数名）を提供するライブラリ
+ * セルに保存する数式は英語の関数名と「,」「.」の区切り文字の形式（正規の形式）とし、表示と入力だけを言語に合わせる
+ */
+
+/**
+ * 数式の言語
+ */
+export interface FormulaLocale {
+  id: string;
+  label: string;                            // 設定画面に表示する名前
+  argumentSeparator: ',' | ';';             // 引数の区切り文字
+  decimalSeparator: '.' | ',';              // 小数点
+  functionNames?: Record<string, string>;   // 英語の関数名から表示する関数名への対応（ないものは英語の関数名）
+}
+
+/**
+ * 日本語の関数名
+ */
+const JAPANESE_FUNCTION_NAMES: Record<string, string> = {
+  SUM: '合計',
+  SUMIF: '条件付き合計',
+  SUMIFS: '複数条件合計',
+  AVERAGE: '平均',
+  AVERAGEIF: '条件付き平均',
+  COUNT: '個数',
+  COUNTA: '空白以外の個数',
+  COUNTIF: '条件付き個数',
+  COUNTIFS: '複数条件個数',
+  MAX: '最大値',
+  MIN: '最小値',
+  MEDIAN: '中央値',
+  IF: 'もし',
+  AND: 'かつ',
+  OR: 'または',
+  NOT: '否定',
+  ROUND: '四捨五入',
+  ABS: '絶対値',
+  SQRT: '平方根',
+  POWER: 'べき乗',
+  PI: '円周率',
+  RAND: '乱数',
+  TODAY: '今日',
+  NOW: '現在',
+  DATE: '日付',
+  YEAR: '年',
+  MONTH: '月',
+  DAY: '日',
+  LEFT: '左から',
+  RIGHT: '右から',
+  MID: '中間',
+  LEN: '文字数',
+  UPPER: '大文字',
+  LOWER: '小文字',
+  TRIM: '空白削除',
+  SUBSTITUTE: '置換',
+  CONCATENATE: '連結',
+  TEXT: '書式変換',
+  VLOOKUP: '縦検索',
+  HLOOKUP: '横検索',
+  XLOOKUP: '検索',
+  MATCH: '位置',
+  INDEX: '要素',
+  SORT: '並べ替え',
+  UNIQUE: '重複削除',
+  FILTER: '抽出',
+};
+
+/**
+ * 組み込みの数式の言語
+ */
+export const FORMULA_LOCALES: Record<string, FormulaLocale> = {
+  'en-US': { id: 'en-US', label: 'English', argumentSeparator: ',', decimalSeparator: '.' },
+  'de-DE': { id: 'de-DE', label: 'Deutsch', argumentSeparator: ';', decimalSeparator: ',' },
+  'fr-FR': { id: 'fr-FR', label: 'Français', argumentSeparator: ';', decimalSeparator: ',' },
+  'ja-JP': {
+    id: 'ja-JP',
+    label: '日本語',
+    argumentSeparator: ',',
+    decimalSeparator: '.',
+    functionNames: JAPANESE_FUNCTION_NAMES,
+  },
+};
+
+/**
+ * 正規の形式（保存する数式の形式）
+ */
+export const DEFAULT_FORMULA_LOCALE: FormulaLocale = FORMULA_LOCALES['en-US'];
+
+/**
+ * 数式の言語のIDまたは定義から数式の言語を求める（省略時は正規の形式）
+ */
+export function resolveFormulaLocale(locale?: string | FormulaLocale): FormulaLocale {
+  if (locale === undefined) {
+    return DEFAULT_FORMULA_LOCALE;
+  }
+
+  const resolved = typeof locale === 'string' ? FORMULA_LOCALES[locale] : locale;
+  if (!resolved) {
+    throw new Error(`数式の言語が見つかりません: ${locale}`);
+  }
+  if (resolved.argumentSeparator === resolved.decimalSeparator) {
+    throw new Error(`引数の区切り文字と小数点に同じ文字は使えません: ${resolved.id}`);
+  }
+  return resolved;
+}
+
+/**
+ * 関数名の対応表（大文字の関数名をキーにする）
+ */
+const functionNameMaps = new WeakMap<FormulaLocale, { localized: Map<string, string>; canonical: Map<string, string> }>();
+
+function getFunctionNameMaps(locale: FormulaLocale) {
+  let maps = functionNameMaps.get(locale);
+  if (!maps) {
+    const entries = Object.entries(locale.functionNames ?? {});
+    maps = {
+      localized: new Map(entries.map(([name, localized]) => [name.toUpperCase(), localized])),
+      canonical: new Map(entries.map(([name, localized]) => [localized.toUpperCase(), name.toUpperCase()])),
+    };
+    functionNameMaps.set(locale, maps);
+  }
+  return maps;
+}
+
+/**
+ * 英語の関数名を表示する関数名にする
+ */
+export function localizeFunctionName(name: string, locale: FormulaLocale): string {
+  return getFunctionNameMaps(locale).localized.get(name.toUpperCase()) ?? name.toUpperCase();
+}
+
+/**
+ * 入力した関数名を英語の関数名にする（英語の関数名もそのまま入力できる）
+ */
+export function delocalizeFunctionName(name: string, locale: FormulaLocale): string {
+  return getFunctionNameMaps(locale).canonical.get(name.toUpperCase()) ?? name.toUpperCase();
+}
+
+const IDENTIFIER_START = /[A-Za-z_\\\u00C0-\uFFFF]/;
+const IDENTIFIER_CHAR = /[A-Za-z0-9_.\u00C0-\uFFFF]/;
+const DIGIT = /[0-9]/;
+
+/**
+ * 数式の区切り文字・小数点・関数名を別の言語の形式に書き換える
+ * 文字列リテラルと引用符で囲んだシート名は書き換えない
+ */
+function translateFormula(
+  formula: string,
+  from: FormulaLocale,
+  to: FormulaLocale,
+  translateName: (name: string) => string
+): string {
+  if (!formula.startsWith('=')) {
+    return formula;
+  }
+
+  let result = '=';
+  let i = 1;
+  while (i < formula.length) {
+    const char = formula[i];
+
+    // 文字列リテラル・引用符で囲んだシート名（引用符の重ね書きはエスケープ）
+    if (char === '"' || char === "'") {
+      let end = i + 1;
+      while (end < formula.length && (formula[end] !== char || formula[end + 1] === char)) {
+        end += formula[end] === char ? 2 : 1;
+      }
+      result += formula.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    // 識別子（関数名・セル参照・名前）。直後に括弧が続く場合は関数名として書き換える
+    if (IDENTIFIER_START.test(char)) {
+      let end = i + 1;
+      while (end < formula.length && IDENTIFIER_CHAR.test(formula[end])) {
+        end++;
+      }
+      const word = formula.slice(i, end);
+      result += formula[end] === '(' ? translateName(word) : word;
+      i = end;
+      continue;
+    }
+
+    // 数値（小数点を書き換える）
+    if (DIGIT.test(char) || (char === from.decimalSeparator && DIGIT.test(formula[i + 1] ?? ''))) {
+      let end = i;
+      while (end < formula.length && DIGIT.test(formula[end])) {
+        result += formula[end++];
+      }
+      if (formula[end] === from.decimalSeparator && DIGIT.test(formula[end + 1] ?? '')) {
+        result += to.decimalSeparator;
+        end++;
+        while (end < formula.length && DIGIT.test(formula[end])) {
+          result += formula[end++];
+        }
+      }
+      const exponent = formula.slice(end).match(/^[eE][+-]?\d+/);
+      if (exponent) {
+        result += exponent[0];
+        end += exponent[0].length;
+      }
+      i = end;
+      continue;
+    }
+
+    result += char === from.argumentSeparator ? to.argumentSeparator : char;
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * 保存した数式（正規の形式）を表示する形式にする
+ */
+export function localizeFormula(formula: string, locale: FormulaLocale): string {
+  if (locale === DEFAULT_FORMULA_LOCALE) {
+    return formula;
+  }
+  return translateFormula(formula, DEFAULT_FORMULA_LOCALE, locale, name =>
+    getFunctionNameMaps(locale).localized.get(name.toUpperCase()) ?? name
+  );
+}
+
+/**
+ * 入力した数式を保存する形式（正規の形式）にする
+ */
+export function delocalizeFormula(formula: string, locale: FormulaLocale): string {
+  if (locale === DEFAULT_FORMULA_LOCALE) {
+    return formula;
+  }
+  return translateFormula(formula, locale, DEFAULT_FORMULA_LOCALE, name =>
+    getFunctionNameMaps(locale).canonical.get(name.toUpperCase()) ?? name
+  );
+}
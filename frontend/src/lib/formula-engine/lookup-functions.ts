@@ -0,0 +1,544 @@
+/**
+ * Lookup Functions Library
+ * 検索・行列関数（VLOOKUP・XLOOKUP・INDEX・OFFSET・INDIRECTなど）を提供するライブラリ
+ */
+
+import { CellRange, parseCellRange, parseCellReference } from '../formula';
+import { CellPosition, cellPositionToA1Notation } from '../cell';
+import {
+  FormulaArray,
+  FormulaCallContext,
+  FormulaEvaluationError,
+  FormulaFunctionLibrary,
+  FormulaReference,
+  FormulaScalar,
+  FormulaValue,
+  compareFormulaValues,
+  isFormulaErrorValue,
+  isFormulaReference,
+  toBoolean,
+  toNumber,
+  toText
+} from './evaluator';
+
+/**
+ * 一致モード
+ * exact: 完全一致、wildcard: ワイルドカード（* ? ~）を使った一致、
+ * next-smaller / next-larger: 完全一致がなければ次に小さい／大きい値
+ */
+export type LookupMatchMode = 'exact' | 'wildcard' | 'next-smaller' | 'next-larger';
+
+/**
+ * 検索モード（binary-*は並べ替え済みとみなして探索する）
+ */
+export type LookupSearchMode = 'first' | 'last' | 'binary-ascending' | 'binary-descending';
+
+/**
+ * ワイルドカードを含む検索文字列を正規表現に変換する（大文字小文字は区別しない）
+ */
+export function createWildcardPattern(pattern: string): RegExp {
+  return new RegExp(`^${wildcardToRegExpSource(pattern)}$`, 'i');
+}
+
+/**
+ * ワイルドカードを含む検索文字列を正規表現のパターンに変換する
+ * * は任意の文字列、? は任意の1文字、~ は直後の * ? ~ をそのままの文字として扱う
+ */
+export function wildcardToRegExpSource(pattern: string): string {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '~' && i + 1 < pattern.length && '*?~'.includes(pattern[i + 1])) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '*') {
+      source += '[\\s\\S]*';
+    } else if (char === '?') {
+      source += '[\\s\\S]';
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+}
+
+/**
+ * 正規表現の特殊文字をエスケープする
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 同じ型の値かどうか（検索では数値と文字列など型の異なる値は一致しない）
+ */
+function isSameKind(a: FormulaScalar, b: FormulaScalar): boolean {
+  return a !== null && b !== null && !isFormulaErrorValue(a) && !isFormulaErrorValue(b) && typeof a === typeof b;
+}
+
+/**
+ * 並べ替え済みとみなして、昇順なら検索値以下、降順なら検索値以上の最後の位置を求める
+ */
+function findSortedPosition(values: FormulaScalar[], lookup: FormulaScalar, descending: boolean): number {
+  let position = -1;
+  for (let i = 0; i < values.length; i++) {
+    if (!isSameKind(values[i], lookup)) continue;
+    const comparison = compareFormulaValues(values[i], lookup);
+    if (descending ? comparison < 0 : comparison > 0) break;
+    position = i;
+  }
+  return position;
+}
+
+/**
+ * 検索値の位置を求める（見つからない場合は-1）
+ */
+export function findLookupPosition(
+  lookup: FormulaScalar,
+  values: FormulaScalar[],
+  matchMode: LookupMatchMode = 'exact',
+  searchMode: LookupSearchMode = 'first'
+): number {
+  if (searchMode === 'binary-ascending' || searchMode === 'binary-descending') {
+    if (matchMode === 'wildcard') {
+      throw new FormulaEvaluationError('#VALUE!', 'ワイルドカードによる一致は二分探索と組み合わせられません');
+    }
+    const descending = searchMode === 'binary-descending';
+    const position = findSortedPosition(values, lookup, descending);
+    if (position >= 0 && compareFormulaValues(values[position], lookup) === 0) {
+      return position;
+    }
+    // 見つかった位置の次の値が、昇順なら次に大きい値、降順なら次に小さい値
+    const next = position + 1 < values.length && isSameKind(values[position + 1], lookup) ? position + 1 : -1;
+    if (matchMode === 'next-smaller') return descending ? next : position;
+    if (matchMode === 'next-larger') return descending ? position : next;
+    return -1;
+  }
+
+  const order = values.map((_, index) => index);
+  if (searchMode === 'last') order.reverse();
+
+  const pattern = matchMode === 'wildcard' && typeof lookup === 'string' ? createWildcardPattern(lookup) : null;
+  const exact = order.find(index => pattern
+    ? typeof values[index] === 'string' && pattern.test(values[index] as string)
+    : isSameKind(values[index], lookup) && compareFormulaValues(values[index], lookup) === 0);
+  if (exact !== undefined) return exact;
+  if (matchMode !== 'next-smaller' && matchMode !== 'next-larger') return -1;
+
+  // 完全一致がなければ、最も近い値を探す
+  let best = -1;
+  for (const index of order) {
+    const value = values[index];
+    if (!isSameKind(value, lookup)) continue;
+    const comparison = compareFormulaValues(value, lookup);
+    if (matchMode === 'next-smaller' ? comparison >= 0 : comparison <= 0) continue;
+    if (best < 0 || (matchMode === 'next-smaller'
+      ? compareFormulaValues(value, values[best]) > 0
+      : compareFormulaValues(value, values[best]) < 0)) {
+      best = index;
+    }
+  }
+  return best;
+}
+
+/**
+ * 値を2次元配列として扱う
+ */
+function toArray(value: FormulaValue): FormulaArray {
+  return Array.isArray(value) ? value : [[value]];
+}
+
+/**
+ * 1行または1列の配列を1次元に変換する（2次元の場合はerrorCodeのエラー）
+ */
+function toVector(array: FormulaArray, errorCode: '#N/A' | '#VALUE!'): { values: FormulaScalar[]; isRow: boolean } {
+  if (array.length === 1) {
+    return { values: array[0], isRow: array[0].length > 1 };
+  }
+  if (array.every(row => row.length === 1)) {
+    return { values: array.map(row => row[0]), isRow: false };
+  }
+  throw new FormulaEvaluationError(errorCode, '1行または1列の範囲を指定してください');
+}
+
+function toInteger(value: FormulaValue): number {
+  return Math.trunc(toNumber(value));
+}
+
+/**
+ * 省略された引数かどうか（省略時と空の引数はどちらも既定値を使う）
+ */
+function isOmitted(value: FormulaValue | undefined): value is undefined | null {
+  return value === undefined || value === null;
+}
+
+/**
+ * VLOOKUP・MATCHなどの検索値の一致モード（文字列の完全一致ではワイルドカードを使う）
+ */
+function exactMatchMode(lookup: FormulaScalar): LookupMatchMode {
+  return typeof lookup === 'string' ? 'wildcard' : 'exact';
+}
+
+/**
+ * XLOOKUP・XMATCHの一致モードを変換する
+ */
+function toMatchMode(value: FormulaValue | undefined): LookupMatchMode {
+  switch (isOmitted(value) ? 0 : toInteger(value)) {
+    case 0: return 'exact';
+    case -1: return 'next-smaller';
+    case 1: return 'next-larger';
+    case 2: return 'wildcard';
+    default: throw new FormulaEvaluationError('#VALUE!', '一致モードが正しくありません');
+  }
+}
+
+/**
+ * XLOOKUP・XMATCHの検索モードを変換する
+ */
+function toSearchMode(value: FormulaValue | undefined): LookupSearchMode {
+  switch (isOmitted(value) ? 1 : toInteger(value)) {
+    case 1: return 'first';
+    case -1: return 'last';
+    case 2: return 'binary-ascending';
+    case -2: return 'binary-descending';
+    default: throw new FormulaEvaluationError('#VALUE!', '検索モードが正しくありません');
+  }
+}
+
+/**
+ * 範囲の大きさを取得する
+ */
+function getRangeSize(range: CellRange): { rows: number; columns: number } {
+  return {
+    rows: Math.abs(range.end.row - range.start.row) + 1,
+    columns: Math.abs(range.end.column - range.start.column) + 1
+  };
+}
+
+/**
+ * 範囲の左上のセル座標を取得する
+ */
+function getRangeOrigin(range: CellRange): CellPosition {
+  return {
+    row: Math.min(range.start.row, range.end.row),
+    column: Math.min(range.start.column, range.end.column)
+  };
+}
+
+/**
+ * 左上のセルと大きさから参照を作成する
+ */
+function createReference(origin: CellPosition, rows: number, columns: number, sheetName?: string): FormulaReference {
+  if (origin.row < 0 || origin.column < 0) {
+    throw new FormulaEvaluationError('#REF!', '参照がシートの範囲外です');
+  }
+  const start = origin;
+  const end = { row: origin.row + rows - 1, column: origin.column + columns - 1 };
+  const a1Notation = rows === 1 && columns === 1
+    ? cellPositionToA1Notation(start)
+    : `${cellPositionToA1Notation(start)}:${cellPositionToA1Notation(end)}`;
+
+  return {
+    type: 'reference',
+    range: { start, end, a1Notation, ...(sheetName !== undefined ? { sheetName } : {}) }
+  };
+}
+
+/**
+ * 参照を受け取る関数の引数が参照であることを確認する
+ */
+function requireReference(value: FormulaValue | FormulaReference): FormulaReference {
+  if (!isFormulaReference(value)) {
+    throw new FormulaEvaluationError('#VALUE!', 'セル参照を指定してください');
+  }
+  return value;
+}
+
+/**
+ * 表の1列目（VLOOKUP）・1行目（HLOOKUP）を検索し、指定した列・行の値を返す
+ */
+function lookupInTable(
+  lookup: FormulaValue,
+  table: FormulaValue,
+  indexValue: FormulaValue,
+  approximate: FormulaValue | undefined,
+  vertical: boolean
+): FormulaScalar {
+  const array = toArray(table);
+  const index = toInteger(indexValue);
+  const size = vertical ? array[0].length : array.length;
+  if (index < 1) throw new FormulaEvaluationError('#VALUE!', '列番号・行番号は1以上を指定してください');
+  if (index > size) throw new FormulaEvaluationError('#REF!', '列番号・行番号が範囲を超えています');
+
+  const lookupValue = Array.isArray(lookup) ? lookup[0]?.[0] ?? null : lookup;
+  const keys = vertical ? array.map(row => row[0]) : array[0];
+  const position = isOmitted(approximate) || toBoolean(approximate)
+    ? findLookupPosition(lookupValue, keys, 'next-smaller', 'binary-ascending')
+    : findLookupPosition(lookupValue, keys, exactMatchMode(lookupValue));
+
+  if (position < 0) throw new FormulaEvaluationError('#N/A');
+  return vertical ? array[position][index - 1] : array[index - 1][position];
+}
+
+/**
+ * R1C1形式の参照を解析する（[]で囲んだ数値は数式を入力したセルからの相対位置）
+ */
+function parseR1C1Reference(text: string, currentPosition?: CellPosition): CellPosition {
+  const match = text.match(/^R(\[-?\d+\]|\d+)?C(\[-?\d+\]|\d+)?$/i);
+  if (!match) {
+    throw new FormulaEvaluationError('#REF!', `無効な参照です: ${text}`);
+  }
+
+  const resolve = (part: string | undefined, current: number | undefined): number => {
+    if (part === undefined || part.startsWith('[')) {
+      if (current === undefined) {
+        throw new FormulaEvaluationError('#REF!', '相対参照の基準となるセルがありません');
+      }
+      return current + (part === undefined ? 0 : parseInt(part.slice(1, -1), 10));
+    }
+    return parseInt(part, 10) - 1;
+  };
+
+  return {
+    row: resolve(match[1], currentPosition?.row),
+    column: resolve(match[2], currentPosition?.column)
+  };
+}
+
+/**
+ * INDIRECTの参照文字列を参照に変換する
+ */
+function parseReferenceText(text: string, a1: boolean, currentPosition?: CellPosition): FormulaReference {
+  const trimmed = text.trim();
+  const qualifier = trimmed.match(/^(?:'((?:[^']|'')+)'|([^!]+))!(.+)$/);
+  const sheetName = qualifier ? (qualifier[1]?.replace(/''/g, "'") ?? qualifier[2]) : undefined;
+  const reference = qualifier ? qualifier[3] : trimmed;
+
+  try {
+    if (a1) {
+      const normalized = reference.toUpperCase();
+      if (normalized.includes(':')) {
+        const range = parseCellRange(normalized);
+        return { type: 'reference', range: sheetName !== undefined ? { ...range, sheetName } : range };
+      }
+      const cell = parseCellReference(normalized);
+      return createReference(cell.position, 1, 1, sheetName);
+    }
+
+    const [startText, endText = startText] = reference.split(':');
+    const start = parseR1C1Reference(startText, currentPosition);
+    const end = parseR1C1Reference(endText, currentPosition);
+    const origin = { row: Math.min(start.row, end.row), column: Math.min(start.column, end.column) };
+    return createReference(
+      origin,
+      Math.abs(end.row - start.row) + 1,
+      Math.abs(end.column - start.column) + 1,
+      sheetName
+    );
+  } catch (error) {
+    if (error instanceof FormulaEvaluationError) throw error;
+    throw new FormulaEvaluationError('#REF!', `無効な参照です: ${text}`);
+  }
+}
+
+/**
+ * 検索・行列関数
+ */
+export const LOOKUP_FUNCTIONS: FormulaFunctionLibrary = {
+  VLOOKUP: {
+    implementation: (lookup: FormulaValue, table: FormulaValue, column: FormulaValue, approximate?: FormulaValue) =>
+      lookupInTable(lookup, table, column, approximate, true),
+    options: {}
+  },
+
+  HLOOKUP: {
+    implementation: (lookup: FormulaValue, table: FormulaValue, row: FormulaValue, approximate?: FormulaValue) =>
+      lookupInTable(lookup, table, row, approximate, false),
+    options: {}
+  },
+
+  XLOOKUP: {
+    implementation: (
+      lookup: FormulaValue,
+      lookupArray: FormulaValue,
+      returnArray: FormulaValue,
+      ifNotFound?: FormulaValue,
+      matchMode?: FormulaValue,
+      searchMode?: FormulaValue
+    ): FormulaValue => {
+      const { values, isRow } = toVector(toArray(lookupArray), '#VALUE!');
+      const results = toArray(returnArray);
+      if (isRow ? results[0].length !== values.length : results.length !== values.length) {
+        throw new FormulaEvaluationError('#VALUE!', '検索範囲と戻り範囲の大きさが一致しません');
+      }
+
+      const lookupValue = Array.isArray(lookup) ? lookup[0]?.[0] ?? null : lookup;
+      const position = findLookupPosition(lookupValue, values, toMatchMode(matchMode), toSearchMode(searchMode));
+      if (position < 0) {
+        if (!isOmitted(ifNotFound)) return ifNotFound;
+        throw new FormulaEvaluationError('#N/A');
+      }
+
+      const result = isRow ? results.map(row => [row[position]]) : [results[position]];
+      return result.length === 1 && result[0].length === 1 ? result[0][0] : result;
+    },
+    options: {}
+  },
+
+  MATCH: {
+    implementation: (lookup: FormulaValue, lookupArray: FormulaValue, matchType?: FormulaValue) => {
+      const { values } = toVector(toArray(lookupArray), '#N/A');
+      const lookupValue = Array.isArray(lookup) ? lookup[0]?.[0] ?? null : lookup;
+      const type = isOmitted(matchType) ? 1 : toInteger(matchType);
+
+      const position = type === 0
+        ? findLookupPosition(lookupValue, values, exactMatchMode(lookupValue))
+        : findSortedPosition(values, lookupValue, type < 0);
+      if (position < 0) throw new FormulaEvaluationError('#N/A');
+      return position + 1;
+    },
+    options: {}
+  },
+
+  XMATCH: {
+    implementation: (lookup: FormulaValue, lookupArray: FormulaValue, matchMode?: FormulaValue, searchMode?: FormulaValue) => {
+      const { values } = toVector(toArray(lookupArray), '#VALUE!');
+      const lookupValue = Array.isArray(lookup) ? lookup[0]?.[0] ?? null : lookup;
+      const position = findLookupPosition(lookupValue, values, toMatchMode(matchMode), toSearchMode(searchMode));
+      if (position < 0) throw new FormulaEvaluationError('#N/A');
+      return position + 1;
+    },
+    options: {}
+  },
+
+  INDEX: {
+    implementation: (
+      source: FormulaValue | FormulaReference,
+      rowValue?: FormulaValue,
+      columnValue?: FormulaValue
+    ): FormulaValue | FormulaReference => {
+      const size = isFormulaReference(source)
+        ? getRangeSize(source.range)
+        : { rows: toArray(source).length, columns: toArray(source)[0].length };
+
+      let row = isOmitted(rowValue) ? 0 : toInteger(rowValue);
+      let column = isOmitted(columnValue) ? 0 : toInteger(columnValue);
+      // 1行の範囲で番号を1つだけ指定した場合は列番号とみなす
+      if (columnValue === undefined && size.rows === 1 && size.columns > 1) {
+        column = row;
+        row = 1;
+      }
+      if (row < 0 || column < 0) throw new FormulaEvaluationError('#VALUE!');
+      if (row > size.rows || column > size.columns) {
+        throw new FormulaEvaluationError('#REF!', '行番号・列番号が範囲を超えています');
+      }
+
+      // 0を指定した行・列は全体を返す
+      const rowOffset = row === 0 ? 0 : row - 1;
+      const columnOffset = column === 0 ? 0 : column - 1;
+      const rows = row === 0 ? size.rows : 1;
+      const columns = column === 0 ? size.columns : 1;
+
+      if (isFormulaReference(source)) {
+        const origin = getRangeOrigin(source.range);
+        return createReference(
+          { row: origin.row + rowOffset, column: origin.column + columnOffset },
+          rows,
+          columns,
+          source.range.sheetName
+        );
+      }
+
+      const selected = toArray(source)
+        .slice(rowOffset, rowOffset + rows)
+        .map(values => values.slice(columnOffset, columnOffset + columns));
+      return rows === 1 && columns === 1 ? selected[0][0] : selected;
+    },
+    options: { referenceArguments: [0] }
+  },
+
+  OFFSET: {
+    implementation: (
+      source: FormulaValue | FormulaReference,
+      rowsValue: FormulaValue,
+      columnsValue: FormulaValue,
+      heightValue?: FormulaValue,
+      widthValue?: FormulaValue
+    ): FormulaReference => {
+      const { range } = requireReference(source);
+      const size = getRangeSize(range);
+      const origin = getRangeOrigin(range);
+      const height = isOmitted(heightValue) ? size.rows : toInteger(heightValue);
+      const width = isOmitted(widthValue) ? size.columns : toInteger(widthValue);
+      if (height < 1 || width < 1) {
+        throw new FormulaEvaluationError('#REF!', '高さ・幅は1以上を指定してください');
+      }
+
+      return createReference(
+        { row: origin.row + toInteger(rowsValue), column: origin.column + toInteger(columnsValue) },
+        height,
+        width,
+        range.sheetName
+      );
+    },
+    options: { referenceArguments: [0] }
+  },
+
+  INDIRECT: {
+    implementation: (context: FormulaCallContext, text: FormulaValue, a1?: FormulaValue): FormulaReference =>
+      parseReferenceText(toText(text), isOmitted(a1) || toBoolean(a1), context.currentPosition),
+    options: { withContext: true }
+  },
+
+  CHOOSE: {
+    implementation: (indexValue: () => FormulaValue, ...choices: Array<() => FormulaValue>): FormulaValue => {
+      const index = indexValue();
+      if (isFormulaErrorValue(index)) return index;
+      const choice = toInteger(index);
+      if (choice < 1 || choice > choices.length) {
+        throw new FormulaEvaluationError('#VALUE!', '番号が選択肢の範囲外です');
+      }
+      return choices[choice - 1]();
+    },
+    options: { lazy: true }
+  },
+
+  ROW: {
+    implementation: (context: FormulaCallContext, reference?: FormulaValue | FormulaReference): FormulaValue => {
+      if (reference === undefined) {
+        if (!context.currentPosition) throw new FormulaEvaluationError('#VALUE!');
+        return context.currentPosition.row + 1;
+      }
+      const { range } = requireReference(reference);
+      const origin = getRangeOrigin(range);
+      const { rows } = getRangeSize(range);
+      return rows === 1 ? origin.row + 1 : Array.from({ length: rows }, (_, i) => [origin.row + i + 1]);
+    },
+    options: { withContext: true, referenceArguments: [0] }
+  },
+
+  COLUMN: {
+    implementation: (context: FormulaCallContext, reference?: FormulaValue | FormulaReference): FormulaValue => {
+      if (reference === undefined) {
+        if (!context.currentPosition) throw new FormulaEvaluationError('#VALUE!');
+        return context.currentPosition.column + 1;
+      }
+      const { range } = requireReference(reference);
+      const origin = getRangeOrigin(range);
+      const { columns } = getRangeSize(range);
+      return columns === 1 ? origin.column + 1 : [Array.from({ length: columns }, (_, i) => origin.column + i + 1)];
+    },
+    options: { withContext: true, referenceArguments: [0] }
+  },
+
+  ROWS: {
+    implementation: (source: FormulaValue | FormulaReference) =>
+      isFormulaReference(source) ? getRangeSize(source.range).rows : toArray(source).length,
+    options: { referenceArguments: [0] }
+  },
+
+  COLUMNS: {
+    implementation: (source: FormulaValue | FormulaReference) =>
+      isFormulaReference(source) ? getRangeSize(source.range).columns : toArray(source)[0].length,
+    options: { referenceArguments: [0] }
+  },
+};
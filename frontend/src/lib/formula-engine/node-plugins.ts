@@ -0,0 +1,180 @@
+/**
+ * Node.js Formula Plugins Library
+ * Node.js（CLI）でプラグインの関数を実行する環境と、ディレクトリからプラグインを読み込む機能を提供するライブラリ
+ * プラグインはワーカースレッドの中の独立したコンテキストで実行し、制限時間を超えた場合はワーカーを終了する
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { MessageChannel, MessagePort, Worker, receiveMessageOnPort } from 'worker_threads';
+import { FormulaEvaluationError } from './evaluator';
+import {
+  FormulaPluginDefinition,
+  FormulaPluginLimitError,
+  FormulaPluginSandboxFactory,
+  validateFormulaPlugin
+} from './plugins';
+
+/**
+ * ワーカーの起動とプラグインのソースの読み込みに追加で許容する時間（ミリ秒）
+ */
+const WORKER_STARTUP_TIMEOUT_MS = 5000;
+
+/**
+ * ワーカーからの応答
+ */
+type WorkerResponse = { value: unknown } | { error: string; missing?: boolean };
+
+/**
+ * ワーカーで実行するコード
+ * プラグインのソースは文字列からのコード生成を禁止したコンテキストで実行し、
+ * 引数はJSONの文字列でコンテキストに渡す（ワーカー側のオブジェクトをプラグインから参照できないようにする）
+ */
+const WORKER_SOURCE = `
+const { workerData } = require('worker_threads');
+const vm = require('vm');
+const { port, state, source, names } = workerData;
+
+const reply = (response) => {
+  try {
+    port.postMessage(response);
+  } catch (error) {
+    port.postMessage({ error: 'プラグインの関数が数式で扱えない値を返しました' });
+  }
+  Atomics.store(state, 0, 1);
+  Atomics.notify(state, 0);
+};
+const describe = (error) => error instanceof Error || (error && typeof error.message === 'string')
+  ? String(error.message) : String(error);
+
+const context = vm.createContext({}, { codeGeneration: { strings: false, wasm: false } });
+let loadError;
+try {
+  vm.runInContext(source, context);
+  vm.runInContext('globalThis.__exports = {' + names.map(name =>
+    JSON.stringify(name) + ': typeof ' + name + " === 'function' ? " + name + ' : undefined').join(', ') + '};', context);
+} catch (error) {
+  loadError = describe(error);
+}
+const invoke = loadError === undefined
+  ? vm.runInContext('(name, args) => globalThis.__exports[name](...JSON.parse(args))', context)
+  : undefined;
+const has = loadError === undefined
+  ? vm.runInContext("(name) => typeof globalThis.__exports[name] === 'function'", context)
+  : undefined;
+reply({ ready: true });
+
+port.on('message', ({ name, args }) => {
+  if (loadError !== undefined) {
+    reply({ error: loadError });
+  } else if (!has(name)) {
+    reply({ error: name, missing: true });
+  } else {
+    try {
+      reply({ value: invoke(name, args) });
+    } catch (error) {
+      reply({ error: describe(error) });
+    }
+  }
+});
+`;
+
+/**
+ * ワーカースレッドでプラグインを実行する環境を作成する（CLIで使う）
+ * 呼び出しは応答を待って同期的に結果を返す。制限時間を超えた場合はワーカーを終了し、
+ * メモリの上限を超えたワーカーは応答しないため、制限時間の経過後に同じエラーになる
+ */
+export const createWorkerPluginSandbox: FormulaPluginSandboxFactory = (plugin, limits) => {
+  const state = new Int32Array(new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT));
+  const { port1, port2 } = new MessageChannel();
+  const worker = new Worker(WORKER_SOURCE, {
+    eval: true,
+    workerData: { port: port2, state, source: plugin.source, names: plugin.functions.map(func => func.name) },
+    transferList: [port2 as unknown as MessagePort],
+    resourceLimits: {
+      maxOldGenerationSizeMb: limits.memoryMb,
+      maxYoungGenerationSizeMb: Math.max(1, Math.min(16, Math.floor(limits.memoryMb / 4))),
+    },
+  });
+  // 終了したワーカーのエラー（メモリの上限の超過など）は呼び出しの結果で通知する
+  worker.on('error', () => undefined);
+  worker.unref();
+  let terminated = false;
+
+  const dispose = () => {
+    if (!terminated) {
+      terminated = true;
+      port1.close();
+      void worker.terminate();
+    }
+  };
+
+  const waitForResponse = (timeoutMs: number): Record<string, unknown> => {
+    if (Atomics.wait(state, 0, 0, timeoutMs) === 'timed-out') {
+      dispose();
+      throw new FormulaPluginLimitError(
+        `プラグイン「${plugin.name}」の実行が制限時間（${limits.timeoutMs}ミリ秒）またはメモリの上限（${limits.memoryMb}MB）を超えました`
+      );
+    }
+    Atomics.store(state, 0, 0);
+    return receiveMessageOnPort(port1)!.message;
+  };
+
+  waitForResponse(WORKER_STARTUP_TIMEOUT_MS + limits.timeoutMs);
+
+  return {
+    call: (functionName, args) => {
+      if (terminated) {
+        throw new FormulaPluginLimitError(`プラグイン「${plugin.name}」の実行環境は終了しています`);
+      }
+      port1.postMessage({ name: functionName, args: JSON.stringify(args) });
+      const response = waitForResponse(limits.timeoutMs) as WorkerResponse;
+      if ('value' in response) {
+        return response.value;
+      }
+      if (response.missing) {
+        throw new FormulaEvaluationError('#NAME?', `プラグイン「${plugin.name}」に関数${functionName}が定義されていません`);
+      }
+      throw new FormulaEvaluationError('#VALUE!', `プラグイン「${plugin.name}」でエラーが発生しました: ${response.error}`);
+    },
+    dispose,
+  };
+};
+
+/**
+ * ディレクトリからプラグインを読み込む
+ * プラグインごとにメタデータのJSONファイル（*.json）を置き、ソースはJSONのsourceに直接書くか、
+ * mainにJavaScriptのファイルをディレクトリからの相対パスで指定する。読み込めないファイルはエラーの一覧に含める
+ */
+export function loadFormulaPluginsFromDirectory(directory: string): {
+  plugins: FormulaPluginDefinition[];
+  errors: Array<{ file: string; error: string }>;
+} {
+  if (!fs.existsSync(directory) || !fs.statSync(directory).isDirectory()) {
+    return { plugins: [], errors: [{ file: directory, error: 'プラグインのディレクトリが見つかりません' }] };
+  }
+
+  const plugins: FormulaPluginDefinition[] = [];
+  const errors: Array<{ file: string; error: string }> = [];
+  const files = fs.readdirSync(directory).filter(file => file.toLowerCase().endsWith('.json')).sort();
+
+  for (const file of files) {
+    try {
+      const definition = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8'));
+      if (definition && typeof definition.main === 'string') {
+        definition.source = definition.source ?? fs.readFileSync(path.resolve(directory, definition.main), 'utf8');
+        delete definition.main;
+      }
+
+      const validation = validateFormulaPlugin(definition);
+      if (validation.isValid) {
+        plugins.push(definition);
+      } else {
+        errors.push({ file, error: validation.error! });
+      }
+    } catch (error) {
+      errors.push({ file, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return { plugins, errors };
+}
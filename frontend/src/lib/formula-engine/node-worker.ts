@@ -0,0 +1,50 @@
+/**
+ * Node.js Formula Worker Library
+ * Node.jsのworker_threadsで数式エンジンのワーカーを動かすためのライブラリ
+ * MessagePort・Workerのイベントをワーカーのメッセージの受け口（FormulaWorkerEndpoint）の形に合わせる
+ */
+
+import { MessagePort, Worker, isMainThread, parentPort } from 'worker_threads';
+import { FormulaEngineConfig } from './index';
+import { FormulaWorkerEndpoint, FormulaWorkerHost, attachFormulaWorkerHost } from './worker';
+
+type MessageListener = (event: { data: any }) => void;
+
+/**
+ * worker_threadsのMessagePort・Workerをメッセージの受け口として使う
+ */
+export function createNodeWorkerEndpoint(port: MessagePort | Worker): FormulaWorkerEndpoint {
+  const handlers = new Map<MessageListener, (data: any) => void>();
+  return {
+    postMessage: message => port.postMessage(message),
+    addEventListener: (type, listener) => {
+      const handler = (data: any) => listener({ data });
+      handlers.set(listener, handler);
+      port.on(type, handler);
+    },
+    removeEventListener: (type, listener) => {
+      const handler = handlers.get(listener);
+      if (handler) {
+        handlers.delete(listener);
+        port.off(type, handler);
+      }
+    },
+    terminate: () => {
+      if (port instanceof Worker) {
+        void port.terminate();
+      } else {
+        port.close();
+      }
+    },
+  };
+}
+
+/**
+ * ワーカースレッドの中でホストを起動し、親スレッドからの要求を処理する
+ */
+export function startNodeFormulaWorker(config?: FormulaEngineConfig): FormulaWorkerHost {
+  if (isMainThread || !parentPort) {
+    throw new Error('数式エンジンのワーカーはワーカースレッドの中で起動してください');
+  }
+  return attachFormulaWorkerHost(createNodeWorkerEndpoint(parentPort), config);
+}
@@ -0,0 +1,351 @@
+/**
+ * Formula Parser Library
+ * 数式のトークン列から構文木（AST）を組み立てるライブラリ
+ */
+
+import {
+  FormulaToken,
+  CellReference,
+  CellRange,
+  parseCellReference,
+  parseCellRange,
+  formatSheetName
+} from '../formula';
+import { indexToColumnHeader } from '../column';
+
+/**
+ * 構文木のノード
+ */
+export type FormulaAstNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'error'; code: string }
+  | { type: 'reference'; reference: CellReference }
+  | { type: 'range'; range: CellRange }
+  | { type: 'spill'; reference: CellReference }  // スピル範囲の参照（A1#）
+  | { type: 'name'; name: string }
+  | { type: 'function'; name: string; args: FormulaAstNode[] }
+  | { type: 'call'; callee: FormulaAstNode; args: FormulaAstNode[] }  // 関数の値の呼び出し（LAMBDA(x, x*2)(3) など）
+  | { type: 'unary'; operator: '+' | '-'; operand: FormulaAstNode }
+  | { type: 'percent'; operand: FormulaAstNode }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaAstNode; right: FormulaAstNode }
+  | { type: 'empty' };  // 省略された引数（IF(A1,,1) など）
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^' | '&' | '=' | '<>' | '<' | '<=' | '>' | '>=';
+
+/**
+ * 構文木のノードに対応するトークンの範囲（トークン列の位置。endの位置のトークンは含まない）
+ */
+export interface FormulaTokenSpan {
+  start: number;
+  end: number;
+}
+
+export type FormulaAstSpans = WeakMap<FormulaAstNode, FormulaTokenSpan>;
+
+/**
+ * 優先順位の低い順に並べた二項演算子（Excelと同じく^も左結合）
+ */
+const BINARY_OPERATOR_LEVELS: BinaryOperator[][] = [
+  ['=', '<>', '<', '<=', '>', '>='],
+  ['&'],
+  ['+', '-'],
+  ['*', '/'],
+  ['^'],
+];
+
+/**
+ * トークン列を順に読み進める再帰下降パーサー
+ */
+class FormulaAstParser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: FormulaToken[],
+    private readonly spans?: FormulaAstSpans
+  ) {}
+
+  parse(): FormulaAstNode {
+    if (this.tokens.length === 0) {
+      throw new Error('空の数式です');
+    }
+
+    const node = this.parseBinary(0);
+    if (this.index < this.tokens.length) {
+      throw this.syntaxError(this.tokens[this.index]);
+    }
+    return node;
+  }
+
+  /**
+   * 指定した優先順位以上の二項演算を解析する
+   */
+  private parseBinary(level: number): FormulaAstNode {
+    if (level >= BINARY_OPERATOR_LEVELS.length) {
+      return this.parsePercent();
+    }
+
+    const start = this.index;
+    let left = this.parseBinary(level + 1);
+    while (this.isOperator(BINARY_OPERATOR_LEVELS[level])) {
+      const operator = this.next().value as BinaryOperator;
+      const right = this.parseBinary(level + 1);
+      left = this.record({ type: 'binary', operator, left, right }, start);
+    }
+    return left;
+  }
+
+  /**
+   * 後置のパーセント演算子を解析する
+   */
+  private parsePercent(): FormulaAstNode {
+    const start = this.index;
+    let node = this.parseUnary();
+    while (this.isOperator(['%'])) {
+      this.next();
+      node = this.record({ type: 'percent', operand: node }, start);
+    }
+    return node;
+  }
+
+  /**
+   * 単項のプラス・マイナスを解析する（Excelと同じく^より優先する）
+   */
+  private parseUnary(): FormulaAstNode {
+    const start = this.index;
+    if (this.isOperator(['+', '-'])) {
+      const operator = this.next().value as '+' | '-';
+      return this.record({ type: 'unary', operator, operand: this.parseUnary() }, start);
+    }
+    return this.record(this.parsePrimary(), start);
+  }
+
+  /**
+   * 値・参照・関数呼び出し・括弧を解析する
+   */
+  private parsePrimary(): FormulaAstNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: Number(token.value) };
+      case 'string':
+        return { type: 'string', value: token.value };
+      case 'boolean':
+        return { type: 'boolean', value: token.value.toLowerCase() === 'true' };
+      case 'error':
+        return { type: 'error', code: token.value };
+      case 'cell_reference':
+        return { type: 'reference', reference: parseCellReference(token.value) };
+      case 'cell_range':
+        return { type: 'range', range: parseCellRange(token.value) };
+      case 'spill_reference':
+        return { type: 'spill', reference: parseCellReference(token.value.slice(0, -1)) };
+      case 'name':
+        return { type: 'name', name: token.value };
+      case 'function':
+        // 括弧が続かない関数名は名前として扱う
+        if (this.peek()?.value !== '(') {
+          return { type: 'name', name: token.value };
+        }
+        this.next();
+        return this.parseCalls({ type: 'function', name: token.value.toUpperCase(), args: this.parseArguments() });
+      case 'parenthesis':
+        if (token.value === '(') {
+          const node = this.parseBinary(0);
+          this.expect(')');
+          return this.parseCalls(node);
+        }
+        break;
+    }
+
+    throw this.syntaxError(token);
+  }
+
+  /**
+   * 関数呼び出し・括弧の直後に続く引数を、結果の関数の呼び出しとして解析する
+   */
+  private parseCalls(node: FormulaAstNode): FormulaAstNode {
+    let callee = node;
+    while (this.peek()?.type === 'parenthesis' && this.peek()?.value === '(') {
+      this.next();
+      callee = { type: 'call', callee, args: this.parseArguments() };
+    }
+    return callee;
+  }
+
+  /**
+   * 関数の引数を閉じ括弧まで解析する
+   */
+  private parseArguments(): FormulaAstNode[] {
+    const args: FormulaAstNode[] = [];
+
+    if (this.peek()?.value === ')') {
+      this.next();
+      return args;
+    }
+
+    while (true) {
+      const token = this.peek();
+      args.push(token?.type === 'separator' || token?.value === ')' ? { type: 'empty' } : this.parseBinary(0));
+
+      const delimiter = this.next();
+      if (delimiter.type === 'separator') continue;
+      if (delimiter.value === ')') return args;
+      throw this.syntaxError(delimiter);
+    }
+  }
+
+  /**
+   * ノードに対応するトークンの範囲を記録する（括弧で囲んだ式は括弧を含める）
+   */
+  private record(node: FormulaAstNode, start: number): FormulaAstNode {
+    this.spans?.set(node, { start, end: this.index });
+    return node;
+  }
+
+  private peek(): FormulaToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): FormulaToken {
+    const token = this.tokens[this.index];
+    if (!token) {
+      throw new Error('数式が途中で終わっています');
+    }
+    this.index++;
+    return token;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.value !== value) {
+      throw this.syntaxError(token);
+    }
+  }
+
+  private isOperator(operators: string[]): boolean {
+    const token = this.peek();
+    return token?.type === 'operator' && operators.includes(token.value);
+  }
+
+  private syntaxError(token: FormulaToken): Error {
+    return new Error(`構文エラー: 予期しないトークン「${token.value}」${token.position !== undefined ? `（位置 ${token.position + 1}）` : ''}`);
+  }
+}
+
+/**
+ * 数式のトークン列から構文木を組み立てる（構文エラーの場合は例外を投げる）
+ * spansを指定すると、各ノードに対応するトークンの範囲を記録する
+ */
+export function buildFormulaAst(tokens: FormulaToken[], spans?: FormulaAstSpans): FormulaAstNode {
+  return new FormulaAstParser(tokens, spans).parse();
+}
+
+/**
+ * トークンの範囲を数式の文字の範囲（先頭の=を含む数式の位置）に変換する
+ * 範囲の終わりは次のトークンの位置（末尾の空白は除く）とする
+ */
+export function getFormulaTextSpan(
+  formula: string,
+  tokens: FormulaToken[],
+  span: FormulaTokenSpan
+): { start: number; end: number } | undefined {
+  const first = tokens[span.start];
+  const last = tokens[span.end - 1];
+  if (first?.position === undefined || last?.position === undefined) {
+    return undefined;
+  }
+
+  const next = tokens.slice(span.end).find(token => token.position !== undefined && token.position > last.position!);
+  const start = first.position + 1;
+  let end = next ? next.position! + 1 : formula.length;
+  while (end > start && /\s/.test(formula[end - 1])) {
+    end--;
+  }
+  return { start, end };
+}
+
+/**
+ * 二項演算子の優先順位（大きいほど先に計算する）
+ */
+function getOperatorLevel(operator: BinaryOperator): number {
+  return BINARY_OPERATOR_LEVELS.findIndex(level => level.includes(operator));
+}
+
+/**
+ * セル参照・セル範囲のシート名の修飾
+ */
+function formatSheetQualifier(sheetName?: string): string {
+  return sheetName !== undefined ? `${formatSheetName(sheetName)}!` : '';
+}
+
+/**
+ * 構文木を数式の文字列に戻す（先頭の=は付けない）
+ * replaceが文字列を返したノードは、その文字列に置き換える（評価済みの部分を値で表示する場合など）。
+ * wrapは各ノードの文字列を受け取り、囲んだ文字列を返す（数式の一部に印を付ける場合など）。
+ * 括弧は演算子の優先順位に必要なものだけを付ける
+ */
+export function formatFormulaAst(
+  node: FormulaAstNode,
+  replace?: (node: FormulaAstNode) => string | undefined,
+  wrap?: (node: FormulaAstNode, text: string) => string
+): string {
+  const text = replace?.(node) ?? formatFormulaAstNode(node, replace, wrap);
+  return wrap ? wrap(node, text) : text;
+}
+
+/**
+ * 構文木のノードを数式の文字列に戻す
+ */
+function formatFormulaAstNode(
+  node: FormulaAstNode,
+  replace?: (node: FormulaAstNode) => string | undefined,
+  wrap?: (node: FormulaAstNode, text: string) => string
+): string {
+  const format = (child: FormulaAstNode) => formatFormulaAst(child, replace, wrap);
+  const formatOperand = (child: FormulaAstNode, needsParentheses: boolean) => {
+    const text = format(child);
+    return needsParentheses && replace?.(child) === undefined ? `(${text})` : text;
+  };
+
+  switch (node.type) {
+    case 'number':
+      return String(node.value);
+    case 'string':
+      return `"${node.value.replace(/"/g, '""')}"`;
+    case 'boolean':
+      return node.value ? 'TRUE' : 'FALSE';
+    case 'error':
+      return node.code;
+    case 'reference': {
+      const { position, isAbsolute, sheetName } = node.reference;
+      return `${formatSheetQualifier(sheetName)}${isAbsolute.column ? '$' : ''}${indexToColumnHeader(position.column)}${
+        isAbsolute.row ? '$' : ''}${position.row + 1}`;
+    }
+    case 'range':
+      return `${formatSheetQualifier(node.range.sheetName)}${node.range.a1Notation}`;
+    case 'spill':
+      return `${formatSheetQualifier(node.reference.sheetName)}${node.reference.a1Notation}#`;
+    case 'name':
+      return node.name;
+    case 'function':
+      return `${node.name}(${node.args.map(format).join(', ')})`;
+    case 'call':
+      return `${formatOperand(node.callee, node.callee.type !== 'name' && node.callee.type !== 'function')}(${
+        node.args.map(format).join(', ')})`;
+    case 'unary':
+      return `${node.operator}${formatOperand(node.operand, node.operand.type === 'binary')}`;
+    case 'percent':
+      return `${formatOperand(node.operand, node.operand.type === 'binary' || node.operand.type === 'unary')}%`;
+    case 'binary': {
+      const level = getOperatorLevel(node.operator);
+      const left = formatOperand(node.left, node.left.type === 'binary' && getOperatorLevel(node.left.operator) < level);
+      const right = formatOperand(node.right, node.right.type === 'binary' && getOperatorLevel(node.right.operator) <= level);
+      return `${left}${node.operator}${right}`;
+    }
+    case 'empty':
+      return '';
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * Formula Plugins Library
+ * JavaScriptで実装した関数（税率表・社内コードの変換など）を数式から呼び出すプラグインの定義と実行環境を提供するライブラリ
+ * プラグインの関数は実行環境（サンドボックス）で実行し、制限時間・メモリの上限を超えた場合は#CALC!になる
+ */
+
+import {
+  FormulaEvaluationError,
+  FormulaFunctionLibrary,
+  FormulaScalar,
+  FormulaValue,
+  createFormulaErrorValue,
+  isFormulaErrorValue,
+  normalizeFormulaValue,
+  toBoolean,
+  toNumber,
+  toText
+} from './evaluator';
+
+/**
+ * プラグインの関数の引数の型
+ * number・text・booleanは1つの値に変換し、rangeはセル範囲を2次元配列で渡す（anyは変換しない）
+ */
+export type FormulaPluginArgumentType = 'number' | 'text' | 'boolean' | 'range' | 'any';
+
+/**
+ * プラグインの関数の引数
+ */
+export interface FormulaPluginArgument {
+  name: string;
+  type: FormulaPluginArgumentType;
+  description?: string;
+  optional?: boolean;   // 省略できる（省略した場合はnullを渡す）
+  repeating?: boolean;  // 最後の引数を繰り返し指定できる
+}
+
+/**
+ * プラグインの関数のメタデータ
+ */
+export interface FormulaPluginFunction {
+  name: string;         // 数式で呼び出す関数名（ソースでは同じ名前の関数を定義する）
+  description: string;  // ヘルプに表示する説明
+  arguments: FormulaPluginArgument[];
+  volatile?: boolean;   // 再計算のたびに結果が変わる（揮発性関数を有効にした場合のみ登録する）
+}
+
+/**
+ * プラグインの実行の制限
+ */
+export interface FormulaPluginLimits {
+  timeoutMs: number;  // 1回の呼び出しの制限時間（ミリ秒）
+  memoryMb: number;   // 使用メモリの上限（MB）
+}
+
+/**
+ * プラグインの定義
+ */
+export interface FormulaPluginDefinition {
+  name: string;
+  version?: string;
+  description?: string;
+  source: string;     // 関数を定義するJavaScriptのソース
+  functions: FormulaPluginFunction[];
+  limits?: Partial<FormulaPluginLimits>;
+}
+
+/**
+ * プラグインの関数を実行する環境
+ * 関数の戻り値をそのまま返し、関数が投げた例外・制限の超過はFormulaEvaluationErrorで通知する
+ */
+export interface FormulaPluginSandbox {
+  call(functionName: string, args: FormulaValue[]): unknown;
+  dispose(): void;
+}
+
+/**
+ * プラグインの実行環境を作成する関数
+ */
+export type FormulaPluginSandboxFactory = (
+  plugin: FormulaPluginDefinition,
+  limits: FormulaPluginLimits
+) => FormulaPluginSandbox;
+
+/**
+ * 登録したプラグインの関数の情報（ヘルプ・関数の一覧に使う）
+ */
+export interface FormulaPluginFunctionInfo extends FormulaPluginFunction {
+  plugin: string;
+  minArguments: number;
+  maxArguments: number;  // 繰り返し指定できる場合はInfinity
+}
+
+/**
+ * プラグインの関数の実行の制限の既定値
+ */
+export const DEFAULT_PLUGIN_LIMITS: FormulaPluginLimits = {
+  timeoutMs: 1000,
+  memoryMb: 64,
+};
+
+/**
+ * プラグインの関数が制限時間・メモリの上限を超えたことを表す例外
+ * 制限を超えたプラグインは以降の呼び出しを実行せずに同じエラーを返す
+ */
+export class FormulaPluginLimitError extends FormulaEvaluationError {
+  constructor(message: string) {
+    super('#CALC!', message);
+    this.name = 'FormulaPluginLimitError';
+  }
+}
+
+/**
+ * プラグインの関数名のパターン（ソースの関数名として使うため英数字とアンダースコアのみ）
+ */
+const PLUGIN_FUNCTION_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * セル参照と紛らわしい関数名
+ */
+const CELL_LIKE_FUNCTION_NAME_PATTERN = /^[A-Za-z]{1,3}\d+$/;
+
+/**
+ * 引数の型の一覧
+ */
+const ARGUMENT_TYPES: FormulaPluginArgumentType[] = ['number', 'text', 'boolean', 'range', 'any'];
+
+/**
+ * プラグインの関数が返せる文字列の最大文字数（セルに入力できる文字数）
+ */
+const MAX_RESULT_TEXT_LENGTH = 32767;
+
+/**
+ * プラグインの関数が返せる配列の最大のセル数
+ */
+const MAX_RESULT_CELLS = 1048576;
+
+/**
+ * プラグインの定義を検証する
+ */
+export function validateFormulaPlugin(definition: unknown): { isValid: boolean; error?: string } {
+  const plugin = definition as FormulaPluginDefinition;
+  if (typeof plugin !== 'object' || plugin === null) {
+    return { isValid: false, error: 'プラグインの定義はオブジェクトで指定してください' };
+  }
+  if (typeof plugin.name !== 'string' || !plugin.name.trim()) {
+    return { isValid: false, error: 'プラグイン名が必要です' };
+  }
+  if (typeof plugin.source !== 'string') {
+    return { isValid: false, error: `プラグイン「${plugin.name}」のソースが必要です` };
+  }
+  if (!Array.isArray(plugin.functions) || plugin.functions.length === 0) {
+    return { isValid: false, error: `プラグイン「${plugin.name}」の関数が定義されていません` };
+  }
+
+  const names = new Set<string>();
+  for (const func of plugin.functions) {
+    const error = getPluginFunctionError(func);
+    if (error) {
+      return { isValid: false, error: `プラグイン「${plugin.name}」: ${error}` };
+    }
+    if (names.has(func.name.toUpperCase())) {
+      return { isValid: false, error: `プラグイン「${plugin.name}」: 関数名が重複しています: ${func.name}` };
+    }
+    names.add(func.name.toUpperCase());
+  }
+
+  const limits = plugin.limits ?? {};
+  if ([limits.timeoutMs, limits.memoryMb].some(limit => limit !== undefined && !(typeof limit === 'number' && limit > 0))) {
+    return { isValid: false, error: `プラグイン「${plugin.name}」: 制限時間・メモリの上限には正の数を指定してください` };
+  }
+  return { isValid: true };
+}
+
+/**
+ * プラグインの関数のメタデータを検証する（問題がなければundefined）
+ */
+function getPluginFunctionError(func: FormulaPluginFunction): string | undefined {
+  if (typeof func !== 'object' || func === null || typeof func.name !== 'string') {
+    return '関数名が必要です';
+  }
+  if (!PLUGIN_FUNCTION_NAME_PATTERN.test(func.name) || CELL_LIKE_FUNCTION_NAME_PATTERN.test(func.name)) {
+    return `関数名に使用できない名前です: ${func.name}`;
+  }
+  if (typeof func.description !== 'string') {
+    return `関数${func.name}の説明が必要です`;
+  }
+  if (!Array.isArray(func.arguments)) {
+    return `関数${func.name}の引数が定義されていません`;
+  }
+
+  let optional = false;
+  for (const [index, argument] of func.arguments.entries()) {
+    if (typeof argument?.name !== 'string' || !ARGUMENT_TYPES.includes(argument.type)) {
+      return `関数${func.name}の${index + 1}番目の引数の名前・型が正しくありません`;
+    }
+    if (argument.repeating && index !== func.arguments.length - 1) {
+      return `関数${func.name}で繰り返し指定できるのは最後の引数のみです`;
+    }
+    if (optional && !argument.optional && !argument.repeating) {
+      return `関数${func.name}の省略できる引数の後に省略できない引数があります`;
+    }
+    optional = optional || Boolean(argument.optional);
+  }
+  return undefined;
+}
+
+/**
+ * プラグインの関数の引数の数の範囲を取得する
+ */
+export function getPluginFunctionArity(func: FormulaPluginFunction): { min: number; max: number } {
+  const required = func.arguments.filter(argument => !argument.optional);
+  const repeating = func.arguments.some(argument => argument.repeating);
+  return { min: required.length, max: repeating ? Infinity : func.arguments.length };
+}
+
+/**
+ * プラグインの実行の制限を既定値で補う
+ */
+export function resolvePluginLimits(plugin: FormulaPluginDefinition): FormulaPluginLimits {
+  return { ...DEFAULT_PLUGIN_LIMITS, ...plugin.limits };
+}
+
+/**
+ * 設定（JSONの文字列またはプラグインの定義の配列）からプラグインを読み込む
+ * 正しくない定義は読み込まずにエラーの一覧に含める
+ */
+export function parseFormulaPluginConfig(config: string | unknown[]): {
+  plugins: FormulaPluginDefinition[];
+  errors: string[];
+} {
+  let definitions: unknown;
+  try {
+    definitions = typeof config === 'string' ? JSON.parse(config) : config;
+  } catch (error) {
+    return { plugins: [], errors: [`プラグインの設定を解析できません: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  if (!Array.isArray(definitions)) {
+    return { plugins: [], errors: ['プラグインの設定は配列で指定してください'] };
+  }
+
+  const plugins: FormulaPluginDefinition[] = [];
+  const errors: string[] = [];
+  for (const definition of definitions) {
+    const validation = validateFormulaPlugin(definition);
+    if (validation.isValid) {
+      plugins.push(definition as FormulaPluginDefinition);
+    } else {
+      errors.push(validation.error!);
+    }
+  }
+  return { plugins, errors };
+}
+
+/**
+ * 引数を宣言された型に変換する
+ */
+function toPluginArgument(value: FormulaValue | undefined, type: FormulaPluginArgumentType): FormulaValue {
+  if (value === undefined || value === null) return null;
+  switch (type) {
+    case 'number':
+      return toNumber(value);
+    case 'text':
+      return toText(value);
+    case 'boolean':
+      return toBoolean(value);
+    case 'range':
+      return Array.isArray(value) ? value : [[value]];
+    default:
+      return value;
+  }
+}
+
+/**
+ * プラグインの関数の戻り値を評価用の値に変換する
+ * 1次元の配列は1行の配列として扱い、{ type: 'error', code: '#N/A' } の形式のオブジェクトはエラー値とする
+ */
+export function toPluginResult(value: unknown): FormulaValue {
+  if (!Array.isArray(value)) {
+    return toPluginScalar(value);
+  }
+
+  const rows = value.length > 0 && value.every(Array.isArray) ? value as unknown[][] : [value];
+  const columns = rows[0]?.length ?? 0;
+  if (columns === 0 || rows.some(row => row.length !== columns)) {
+    throw new FormulaEvaluationError('#VALUE!', 'プラグインの関数が返した配列の行の長さがそろっていません');
+  }
+  if (rows.length * columns > MAX_RESULT_CELLS) {
+    throw new FormulaEvaluationError('#NUM!', `配列のセル数が${MAX_RESULT_CELLS}を超えています`);
+  }
+  return rows.map(row => row.map(toPluginScalar));
+}
+
+/**
+ * プラグインの関数の戻り値の要素を変換する
+ */
+function toPluginScalar(value: unknown): FormulaScalar {
+  if (isFormulaErrorValue(value)) {
+    const scalar = normalizeFormulaValue(value.code);
+    if (isFormulaErrorValue(scalar)) {
+      return typeof value.message === 'string' ? createFormulaErrorValue(scalar.code, value.message) : scalar;
+    }
+  }
+  if (typeof value === 'string' && value.length > MAX_RESULT_TEXT_LENGTH) {
+    throw new FormulaEvaluationError('#VALUE!', `プラグインの関数が返した文字列が${MAX_RESULT_TEXT_LENGTH}文字を超えています`);
+  }
+  if (value === undefined || value === null || typeof value === 'number' || typeof value === 'string' ||
+    typeof value === 'boolean' || value instanceof Date) {
+    return normalizeFormulaValue(value);
+  }
+  throw new FormulaEvaluationError('#VALUE!', 'プラグインの関数が数式で扱えない値を返しました');
+}
+
+/**
+ * プラグインの関数を関数ライブラリとして作成する
+ * 実行環境は登録時に作成し（ワーカーは計算までに起動できるよう先に作成する）、作成できなかった場合は呼び出しのたびに
+ * 作成し直してエラーにする。制限を超えたプラグインは以降の呼び出しを実行しない
+ */
+export function createPluginFunctionLibrary(
+  plugin: FormulaPluginDefinition,
+  createSandbox: FormulaPluginSandboxFactory
+): { functions: FormulaFunctionLibrary; dispose: () => void } {
+  let sandbox: FormulaPluginSandbox | undefined;
+  let stopped: FormulaPluginLimitError | undefined;
+  try {
+    sandbox = createSandbox(plugin, resolvePluginLimits(plugin));
+  } catch {
+    // 作成できない理由は関数の呼び出しの結果で通知する
+  }
+
+  const functions: FormulaFunctionLibrary = {};
+  for (const func of plugin.functions) {
+    const { min, max } = getPluginFunctionArity(func);
+    const lastArgument = func.arguments[func.arguments.length - 1];
+
+    functions[func.name.toUpperCase()] = {
+      implementation: (...args: FormulaValue[]): FormulaValue => {
+        if (args.length < min || args.length > max) {
+          throw new FormulaEvaluationError('#VALUE!', `${func.name}の引数の数が正しくありません`);
+        }
+        if (stopped) {
+          throw stopped;
+        }
+
+        const values = args.map((value, index) =>
+          toPluginArgument(value, (func.arguments[index] ?? lastArgument).type));
+        try {
+          sandbox = sandbox ?? createSandbox(plugin, resolvePluginLimits(plugin));
+          return toPluginResult(sandbox.call(func.name, values));
+        } catch (error) {
+          if (error instanceof FormulaPluginLimitError) {
+            stopped = error;
+          }
+          throw error;
+        }
+      },
+      options: {
+        referencesAsArrays: func.arguments.some(argument => argument.type === 'range' || argument.type === 'any'),
+        acceptsErrors: func.arguments.some(argument => argument.type === 'any'),
+      }
+    };
+  }
+
+  return {
+    functions,
+    dispose: () => {
+      sandbox?.dispose();
+      sandbox = undefined;
+    }
+  };
+}
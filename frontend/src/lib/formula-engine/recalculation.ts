@@ -0,0 +1,509 @@
+/**
+ * Recalculation Library
+ * シート内の数式を計算して表示値を更新し、配列の結果を隣接するセルに展開（スピル）するライブラリ
+ * 変更されたセルに依存するセルだけを計算し直す差分再計算も提供する
+ * ワークブックを指定した場合は、再計算したシートのセルを参照する他のシートの数式も計算し直す
+ */
+
+import { Cell, CellDataType, CellPosition, SheetCellPosition, createEmptyCell, formatCellValue, isSpillChild } from '../cell';
+import { Spreadsheet, cellPositionToKey, keyToCellPosition } from '../spreadsheet';
+import { Workbook, getSheetByName } from '../workbook';
+import {
+  CalculationContext,
+  CalculationResult,
+  CircularReferenceSolution,
+  FormulaCalculator,
+  createCalculationContext,
+  createFormulaCalculator,
+  getCellValueCacheKey
+} from './calculator';
+import { DependencyManager, sheetCellPositionToKey } from './dependencies';
+
+/**
+ * 再計算の統計
+ */
+export interface RecalculationStats {
+  mode: 'full' | 'incremental';  // シート全体の再計算か、変更されたセルに依存するセルだけの差分再計算か
+  recalculatedCells: number;     // 計算した数式のセルの数
+  calculationTime: number;       // 計算にかかった時間（ミリ秒）
+}
+
+/**
+ * 再計算の結果
+ */
+export interface RecalculationReport {
+  spreadsheet: Spreadsheet;
+  circularReferences: CircularReferenceSolution[];  // 反復計算で解いた循環参照（反復計算が無効な場合は空）
+  recalculatedCells: CellPosition[];                // 計算した数式のセル
+  dependentSheets: Spreadsheet[];                   // 再計算したシートのセルを参照する数式を計算し直した他のシート
+  stats: RecalculationStats;
+}
+
+/**
+ * 展開範囲が定まるまで再計算する最大の回数
+ * スピル範囲の参照（A1#）や展開先のセルの参照は、前回の計算で展開した範囲をもとに解決するため複数回計算する
+ */
+const MAX_SPILL_PASSES = 10;
+
+/**
+ * 展開先のセルを取り除き、入力された値のセルだけにする
+ */
+function removeSpilledCells(cells: Map<string, Cell>): Map<string, Cell> {
+  const result = new Map<string, Cell>();
+  cells.forEach((cell, key) => {
+    if (isSpillChild(cell) && cell.rawValue === '') return;
+    result.set(key, cell.spillAnchor || cell.spillRange ? { ...cell, spillAnchor: undefined, spillRange: undefined } : cell);
+  });
+  return result;
+}
+
+/**
+ * 展開範囲の配置を比較するための文字列
+ */
+function describeSpillLayout(cells: Map<string, Cell>): string {
+  const layout: string[] = [];
+  cells.forEach((cell, key) => {
+    if (cell.spillRange) {
+      layout.push(`${key}:${cellPositionToKey(cell.spillRange.end)}`);
+    }
+  });
+  return layout.sort().join(',');
+}
+
+/**
+ * 数式のセルを行優先の順に並べる（先に入力された位置の配列が展開先を優先して使う）
+ */
+function getFormulaPositions(cells: Map<string, Cell>): CellPosition[] {
+  const positions: CellPosition[] = [];
+  cells.forEach((cell, key) => {
+    if (cell.dataType === CellDataType.FORMULA) {
+      positions.push(keyToCellPosition(key));
+    }
+  });
+  return positions.sort((a, b) => a.row - b.row || a.column - b.column);
+}
+
+/**
+ * シートの依存関係グラフを作成する
+ * ワークブックを指定した場合は、再計算するシートを差し替えたワークブック全体の依存関係を扱う
+ */
+function createSheetDependencyManager(spreadsheet: Spreadsheet, workbook?: Workbook): DependencyManager {
+  return workbook
+    ? new DependencyManager(spreadsheet, {
+      ...workbook,
+      sheets: workbook.sheets.map(sheet => sheet.id === spreadsheet.id ? spreadsheet : sheet),
+      activeSheetId: spreadsheet.id
+    })
+    : new DependencyManager(spreadsheet);
+}
+
+/**
+ * ワークブックのシートを更新後のシートで置き換える（シートはIDで対応させる）
+ */
+function replaceSheets(workbook: Workbook, sheets: Spreadsheet[]): Workbook {
+  const updated = new Map(sheets.map(sheet => [sheet.id, sheet]));
+  return { ...workbook, sheets: workbook.sheets.map(sheet => updated.get(sheet.id) ?? sheet) };
+}
+
+/**
+ * 反復計算で解く循環参照のセルのまとまりを取得する（反復計算が無効な場合は空）
+ */
+function getCircularComponents(
+  spreadsheet: Spreadsheet,
+  calculator: FormulaCalculator,
+  contextOptions: Partial<CalculationContext>
+): SheetCellPosition[][] {
+  if (!calculator.getIterativeCalculationSettings().enabled) {
+    return [];
+  }
+  return createSheetDependencyManager(spreadsheet, contextOptions.workbook).getStronglyConnectedComponents();
+}
+
+/**
+ * セル座標が指定したシートのセルかどうか（シート名のない座標は指定したシートのセルとする）
+ */
+function isOnSheet(position: SheetCellPosition, spreadsheet: Spreadsheet): boolean {
+  return position.sheetName === undefined || position.sheetName.toLowerCase() === spreadsheet.name.toLowerCase();
+}
+
+/**
+ * 数式のセルの表示値を計算結果にする（セルに書式コードがある場合は計算結果の値を書式コードで表示する）
+ * 配列の結果は左上の値を表示する
+ */
+function withCalculationResult(cell: Cell, result: CalculationResult, calculator: FormulaCalculator): Cell {
+  const value = result.arrayValue ? result.arrayValue[0]?.[0] : result.value;
+  const formatted = result.dataType !== 'error' && (typeof value === 'number' || typeof value === 'string' || typeof value === 'boolean')
+    ? formatCellValue(cell.format, value, calculator.getDateSystem())
+    : null;
+  return { ...cell, displayValue: formatted?.text ?? result.displayValue, displayColor: formatted?.color };
+}
+
+/**
+ * シートの数式を再計算する
+ * 数式のセルの表示値を計算結果に更新し、配列の結果は数式のセルを左上として展開する。
+ * 展開先に空でないセルがある場合や他の配列の展開先と重なる場合、数式のセルは#SPILL!になる
+ */
+export function recalculateSpreadsheet(
+  spreadsheet: Spreadsheet,
+  calculator: FormulaCalculator = createFormulaCalculator(),
+  contextOptions: Partial<CalculationContext> = {}
+): Spreadsheet {
+  return recalculateSpreadsheetWithReport(spreadsheet, calculator, contextOptions).spreadsheet;
+}
+
+/**
+ * シートの数式を再計算し、反復計算で解いた循環参照の収束の状況とあわせて返す
+ * 反復計算が有効な場合、循環参照のセルは反復計算の結果を使い、それを参照するセルはその値で計算する
+ */
+export function recalculateSpreadsheetWithReport(
+  spreadsheet: Spreadsheet,
+  calculator: FormulaCalculator = createFormulaCalculator(),
+  contextOptions: Partial<CalculationContext> = {}
+): RecalculationReport {
+  const startTime = performance.now();
+  const inputCells = removeSpilledCells(spreadsheet.cells);
+  const formulaPositions = getFormulaPositions(inputCells);
+  const components = getCircularComponents({ ...spreadsheet, cells: inputCells }, calculator, contextOptions);
+  let cells = inputCells;
+  let layout = '';
+  let circularReferences: CircularReferenceSolution[] = [];
+
+  for (let pass = 0; pass < MAX_SPILL_PASSES; pass++) {
+    const baseContext = createCalculationContext({ ...spreadsheet, cells }, contextOptions);
+    const solution = calculator.calculateCircularReferences(components, baseContext);
+    const context: CalculationContext = { ...baseContext, iterationValues: solution.iterationValues };
+    circularReferences = solution.components;
+
+    // このシートの循環参照のセルは反復計算の結果を使う
+    const solvedResults = new Map<string, CalculationResult>();
+    solution.components.forEach(component => component.cells.forEach((position, index) => {
+      if (isOnSheet(position, spreadsheet)) {
+        solvedResults.set(cellPositionToKey(position), component.results[index]);
+      }
+    }));
+
+    const nextCells = new Map(inputCells);
+    const spilledKeys = new Set<string>();
+
+    for (const position of formulaPositions) {
+      const key = cellPositionToKey(position);
+      const cell = inputCells.get(key)!;
+      const result = solvedResults.get(key) ?? calculator.calculateCellValue(position, context);
+      const array = result.arrayValue;
+
+      if (array) {
+        const childKeys: string[] = [];
+        for (let row = 0; row < array.length; row++) {
+          for (let column = 0; column < array[0].length; column++) {
+            if (row > 0 || column > 0) {
+              childKeys.push(cellPositionToKey({ row: position.row + row, column: position.column + column }));
+            }
+          }
+        }
+
+        // 同じ回の計算で先に展開した範囲と重なる場合は展開しない
+        if (childKeys.some(childKey => spilledKeys.has(childKey))) {
+          nextCells.set(key, { ...cell, displayValue: '#SPILL!' });
+          continue;
+        }
+
+        childKeys.forEach(childKey => {
+          const childPosition = keyToCellPosition(childKey);
+          const element = calculator.getArrayElementResult(
+            result,
+            childPosition.row - position.row,
+            childPosition.column - position.column
+          );
+          spilledKeys.add(childKey);
+          nextCells.set(childKey, {
+            ...createEmptyCell(childPosition),
+            displayValue: element.displayValue,
+            spillAnchor: position,
+          });
+        });
+        nextCells.set(key, {
+          ...withCalculationResult(cell, result, calculator),
+          spillRange: {
+            start: position,
+            end: { row: position.row + array.length - 1, column: position.column + array[0].length - 1 },
+          },
+        });
+        continue;
+      }
+
+      nextCells.set(key, withCalculationResult(cell, result, calculator));
+    }
+
+    cells = nextCells;
+    const nextLayout = describeSpillLayout(cells);
+    if (nextLayout === layout) {
+      break;
+    }
+    layout = nextLayout;
+  }
+
+  return {
+    spreadsheet: { ...spreadsheet, cells },
+    circularReferences,
+    recalculatedCells: formulaPositions,
+    dependentSheets: [],
+    stats: {
+      mode: 'full',
+      recalculatedCells: formulaPositions.length,
+      calculationTime: performance.now() - startTime
+    }
+  };
+}
+
+/**
+ * 差分再計算の処理
+ * 変更されたセルと、依存関係グラフでそれに依存するセル（揮発性のセルとそれに依存するセルを含む）を
+ * 再計算が必要なセルとし、グラフの計算順序に従って計算する。計算したセルの値は記録し、
+ * 変更の影響を受けないセルを参照する数式はその値を使う（同じセルを何度も計算し直さない）。
+ * 前回の再計算の結果に対する変更でない場合、配列の展開や循環参照を含む場合は、シート全体を再計算する
+ */
+export class IncrementalRecalculator {
+  private calculator: FormulaCalculator;
+  private spreadsheet?: Spreadsheet;          // 前回の再計算の結果
+  private workbook?: Workbook;                // 前回の再計算のワークブック
+  private dependencyManager?: DependencyManager;
+  private valueCache: Map<string, any> = new Map();
+  private hasSpills: boolean = false;         // 配列の展開（#SPILL!を含む）があるか
+
+  constructor(calculator: FormulaCalculator = createFormulaCalculator()) {
+    this.calculator = calculator;
+  }
+
+  /**
+   * シートを再計算する
+   * changedPositionsに前回の再計算の結果から変更したセルを指定すると、影響を受けるセルだけを計算する。
+   * ワークブックを指定した場合は、影響を受ける他のシートの数式も計算し、dependentSheetsに返す
+   */
+  recalculate(
+    spreadsheet: Spreadsheet,
+    changedPositions?: CellPosition[],
+    contextOptions: Partial<CalculationContext> = {}
+  ): RecalculationReport {
+    const report = changedPositions && this.canRecalculateIncrementally(spreadsheet, changedPositions, contextOptions)
+      ? this.recalculateChangedCells(spreadsheet, changedPositions, contextOptions)
+      : undefined;
+    if (report) {
+      return report;
+    }
+
+    const fullReport = recalculateSpreadsheetWithReport(spreadsheet, this.calculator, contextOptions);
+    const workbook = contextOptions.workbook;
+    if (!workbook) {
+      this.setBaseline(fullReport.spreadsheet);
+      return fullReport;
+    }
+
+    const dependentSheets = this.recalculateDependentSheets(fullReport.spreadsheet, changedPositions, contextOptions);
+    this.setBaseline(fullReport.spreadsheet, replaceSheets(workbook, [fullReport.spreadsheet, ...dependentSheets]));
+    return { ...fullReport, dependentSheets };
+  }
+
+  /**
+   * 前回の再計算の結果として扱うシートを設定する（保存済みの計算結果から差分再計算する場合など）
+   */
+  setBaseline(spreadsheet: Spreadsheet, workbook?: Workbook): void {
+    this.spreadsheet = spreadsheet;
+    this.workbook = workbook;
+    this.dependencyManager = undefined;
+    this.valueCache = new Map();
+    this.hasSpills = Array.from(spreadsheet.cells.values()).some(cell =>
+      cell.spillRange !== undefined || cell.spillAnchor !== undefined || cell.displayValue === '#SPILL!');
+  }
+
+  /**
+   * 記録した計算結果を破棄し、次の再計算をシート全体の再計算にする
+   */
+  reset(): void {
+    this.spreadsheet = undefined;
+    this.workbook = undefined;
+    this.dependencyManager = undefined;
+    this.valueCache = new Map();
+    this.hasSpills = false;
+  }
+
+  /**
+   * 差分再計算できるかどうか（前回の結果から変更したセル以外が同じで、ワークブックの他のシート・名前が同じ）
+   */
+  private canRecalculateIncrementally(
+    spreadsheet: Spreadsheet,
+    changedPositions: CellPosition[],
+    contextOptions: Partial<CalculationContext>
+  ): boolean {
+    const previous = this.spreadsheet;
+    if (!previous || this.hasSpills || previous.id !== spreadsheet.id || previous.name !== spreadsheet.name) {
+      return false;
+    }
+
+    const workbook = contextOptions.workbook;
+    if (workbook?.names !== this.workbook?.names) {
+      return false;
+    }
+    if (workbook && this.workbook) {
+      const otherSheets = workbook.sheets.filter(sheet => sheet.id !== spreadsheet.id);
+      const previousOtherSheets = this.workbook.sheets.filter(sheet => sheet.id !== spreadsheet.id);
+      if (otherSheets.length !== previousOtherSheets.length ||
+        otherSheets.some((sheet, index) => sheet !== previousOtherSheets[index])) {
+        return false;
+      }
+    }
+
+    const changedKeys = new Set(changedPositions.map(cellPositionToKey));
+    for (const [key, cell] of spreadsheet.cells) {
+      if (!changedKeys.has(key) && previous.cells.get(key) !== cell) {
+        return false;
+      }
+    }
+    for (const key of previous.cells.keys()) {
+      if (!changedKeys.has(key) && !spreadsheet.cells.has(key)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * 変更されたセルに依存するセルだけを計算する（配列の結果・循環参照がある場合はundefined）
+   */
+  private recalculateChangedCells(
+    spreadsheet: Spreadsheet,
+    changedPositions: CellPosition[],
+    contextOptions: Partial<CalculationContext>
+  ): RecalculationReport | undefined {
+    const startTime = performance.now();
+    const workbook = contextOptions.workbook;
+    const manager = this.dependencyManager ?? createSheetDependencyManager(this.spreadsheet!, this.workbook);
+    this.dependencyManager = manager;
+
+    for (const position of changedPositions) {
+      const cell = spreadsheet.cells.get(cellPositionToKey(position));
+      manager.updateCellDependencies(position, cell?.dataType === CellDataType.FORMULA ? cell.rawValue : undefined);
+    }
+    if (manager.getCircularReferences().length > 0) {
+      return undefined;
+    }
+
+    // 再計算が必要なセル（変更されたセル・それに依存するセル・揮発性のセルとそれに依存するセル）
+    const dirtyKeys = new Set<string>();
+    const currentWorkbook = workbook && replaceSheets(workbook, [spreadsheet]);
+    const context = createCalculationContext(spreadsheet, {
+      ...contextOptions,
+      workbook: currentWorkbook,
+      valueCache: this.valueCache
+    });
+    const markDirty = (position: SheetCellPosition) => {
+      dirtyKeys.add(sheetCellPositionToKey(position));
+      this.valueCache.delete(getCellValueCacheKey(context, position));
+    };
+    for (const position of changedPositions) {
+      markDirty(workbook ? { ...position, sheetName: spreadsheet.name } : position);
+      manager.getCellDependentsRecursive(position, Infinity).forEach(markDirty);
+    }
+    manager.getVolatileCells(true).forEach(markDirty);
+
+    // 計算順序に従って、再計算が必要な数式のセルを計算する（他のシートのセルはそのシートのセルとして計算する）
+    const cells = new Map(spreadsheet.cells);
+    const otherSheets = new Map<string, { sheet: Spreadsheet; cells: Map<string, Cell>; context: CalculationContext }>();
+    const recalculatedCells: CellPosition[] = [];
+    for (const position of manager.getCalculationOrder()) {
+      if (!dirtyKeys.has(sheetCellPositionToKey(position))) {
+        continue;
+      }
+      const target = { row: position.row, column: position.column };
+      const key = cellPositionToKey(target);
+
+      if (isOnSheet(position, spreadsheet)) {
+        const cell = cells.get(key);
+        if (cell?.dataType !== CellDataType.FORMULA) {
+          continue;
+        }
+        const result = this.calculator.calculateCellValue(target, context);
+        if (result.arrayValue) {
+          return undefined;
+        }
+        cells.set(key, withCalculationResult(cell, result, this.calculator));
+        recalculatedCells.push(target);
+        continue;
+      }
+
+      const sheet = currentWorkbook && getSheetByName(currentWorkbook, position.sheetName!);
+      if (!sheet) {
+        continue;
+      }
+      if (!otherSheets.has(sheet.id)) {
+        otherSheets.set(sheet.id, {
+          sheet,
+          cells: new Map(sheet.cells),
+          context: createCalculationContext(sheet, { ...contextOptions, workbook: currentWorkbook, valueCache: this.valueCache }),
+        });
+      }
+      const other = otherSheets.get(sheet.id)!;
+      const cell = other.cells.get(key);
+      if (cell?.spillRange) {
+        return undefined;
+      }
+      if (cell?.dataType !== CellDataType.FORMULA) {
+        continue;
+      }
+      const result = this.calculator.calculateCellValue(target, other.context);
+      if (result.arrayValue) {
+        return undefined;
+      }
+      other.cells.set(key, withCalculationResult(cell, result, this.calculator));
+    }
+
+    const updated = { ...spreadsheet, cells };
+    const dependentSheets = Array.from(otherSheets.values()).map(other => ({ ...other.sheet, cells: other.cells }));
+    this.spreadsheet = updated;
+    this.workbook = workbook && replaceSheets(workbook, [updated, ...dependentSheets]);
+    return {
+      spreadsheet: updated,
+      circularReferences: [],
+      recalculatedCells,
+      dependentSheets,
+      stats: {
+        mode: 'incremental',
+        recalculatedCells: recalculatedCells.length,
+        calculationTime: performance.now() - startTime
+      }
+    };
+  }
+
+  /**
+   * 再計算したシートのセルを参照する他のシートを、シート全体として計算し直す
+   * changedPositionsを指定しない場合は、数式のある他のシートをすべて計算し直す
+   */
+  private recalculateDependentSheets(
+    spreadsheet: Spreadsheet,
+    changedPositions: CellPosition[] | undefined,
+    contextOptions: Partial<CalculationContext>
+  ): Spreadsheet[] {
+    let workbook = replaceSheets(contextOptions.workbook!, [spreadsheet]);
+    let targets = workbook.sheets.filter(sheet => sheet.id !== spreadsheet.id &&
+      Array.from(sheet.cells.values()).some(cell => cell.dataType === CellDataType.FORMULA));
+    if (changedPositions) {
+      const manager = createSheetDependencyManager(spreadsheet, workbook);
+      const sheetNames = new Set<string>();
+      changedPositions.forEach(position => manager.getCellDependentsRecursive(position, Infinity)
+        .forEach(dependent => dependent.sheetName !== undefined && sheetNames.add(dependent.sheetName.toLowerCase())));
+      targets = targets.filter(sheet => sheetNames.has(sheet.name.toLowerCase()));
+    }
+
+    return targets.map(target => {
+      const recalculated = recalculateSpreadsheetWithReport(target, this.calculator, { ...contextOptions, workbook }).spreadsheet;
+      workbook = replaceSheets(workbook, [recalculated]);
+      return recalculated;
+    });
+  }
+}
+
+/**
+ * 差分再計算の処理を作成する
+ */
+export function createIncrementalRecalculator(calculator?: FormulaCalculator): IncrementalRecalculator {
+  return new IncrementalRecalculator(calculator);
+}
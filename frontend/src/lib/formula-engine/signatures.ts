@@ -0,0 +1,240 @@
+/**
+ * Formula Signature Library
+ * 関数の引数の一覧（入力中の数式の引数のヒントに表示する）を提供するライブラリ
+ */
+
+import { FormulaPluginFunction } from './plugins';
+
+/**
+ * 関数の引数
+ */
+export interface FormulaParameter {
+  name: string;
+  optional?: boolean;   // 省略できる
+  repeating?: boolean;  // 繰り返し指定できる（最後の引数のみ）
+}
+
+/**
+ * 関数の引数の一覧
+ */
+export interface FormulaFunctionSignature {
+  name: string;
+  parameters: FormulaParameter[];
+  description?: string;
+}
+
+/**
+ * 組み込みの関数の書式（[ ]は省略できる引数、...は最後の引数を繰り返し指定できることを表す）
+ */
+const BUILT_IN_SIGNATURES = [
+  'ABS(数値)',
+  'AND(論理式1, [論理式2], ...)',
+  'ASC(文字列)',
+  'AVERAGE(数値1, [数値2], ...)',
+  'AVERAGEIF(範囲, 検索条件, [平均対象範囲])',
+  'AVERAGEIFS(平均対象範囲, 条件範囲1, 条件1, [条件範囲2], [条件2], ...)',
+  'BYCOL(配列, 関数)',
+  'BYROW(配列, 関数)',
+  'CHAR(数値)',
+  'CHOOSE(インデックス, 値1, [値2], ...)',
+  'CODE(文字列)',
+  'COLUMN([参照])',
+  'COLUMNS(配列)',
+  'CONCATENATE(文字列1, [文字列2], ...)',
+  'CORREL(配列1, 配列2)',
+  'COUNT(値1, [値2], ...)',
+  'COUNTA(値1, [値2], ...)',
+  'COUNTBLANK(範囲)',
+  'COUNTIF(範囲, 検索条件)',
+  'COUNTIFS(検索条件範囲1, 検索条件1, [検索条件範囲2], [検索条件2], ...)',
+  'DATE(年, 月, 日)',
+  'DATEDIF(開始日, 終了日, 単位)',
+  'DATEVALUE(日付文字列)',
+  'DAY(シリアル値)',
+  'EDATE(開始日, 月)',
+  'EOMONTH(開始日, 月)',
+  'EXACT(文字列1, 文字列2)',
+  'FILTER(配列, 含む, [空の場合])',
+  'FIND(検索文字列, 対象, [開始位置])',
+  'FORECAST(x, 既知のy, 既知のx)',
+  'FORECAST.LINEAR(x, 既知のy, 既知のx)',
+  'FV(利率, 期間, 定期支払額, [現在価値], [支払期日])',
+  'HLOOKUP(検索値, 範囲, 行番号, [検索方法])',
+  'HOUR(シリアル値)',
+  'IF(論理式, 値が真の場合, [値が偽の場合])',
+  'INDEX(配列, 行番号, [列番号])',
+  'INDIRECT(参照文字列, [参照形式])',
+  'INTERCEPT(既知のy, 既知のx)',
+  'IRR(範囲, [推定値])',
+  'JIS(文字列)',
+  'LAMBDA([引数1], ..., 計算)',
+  'LARGE(配列, 順位)',
+  'LEFT(文字列, [文字数])',
+  'LEN(文字列)',
+  'LET(名前1, 名前値1, 計算または名前2, ...)',
+  'LOWER(文字列)',
+  'MAP(配列1, ..., LAMBDA)',
+  'MATCH(検査値, 検査範囲, [照合の種類])',
+  'MAX(数値1, [数値2], ...)',
+  'MAXIFS(最大範囲, 条件範囲1, 条件1, [条件範囲2], [条件2], ...)',
+  'MEDIAN(数値1, [数値2], ...)',
+  'MID(文字列, 開始位置, 文字数)',
+  'MIN(数値1, [数値2], ...)',
+  'MINIFS(最小範囲, 条件範囲1, 条件1, [条件範囲2], [条件2], ...)',
+  'MINUTE(シリアル値)',
+  'MODE(数値1, [数値2], ...)',
+  'MODE.SNGL(数値1, [数値2], ...)',
+  'MONTH(シリアル値)',
+  'NETWORKDAYS(開始日, 終了日, [祭日])',
+  'NOT(論理式)',
+  'NOW()',
+  'NPER(利率, 定期支払額, 現在価値, [将来価値], [支払期日])',
+  'NPV(割引率, 値1, [値2], ...)',
+  'NUMBERVALUE(文字列, [小数点記号], [桁区切り記号])',
+  'OFFSET(参照, 行数, 列数, [高さ], [幅])',
+  'OR(論理式1, [論理式2], ...)',
+  'PERCENTILE(配列, 率)',
+  'PERCENTILE.EXC(配列, 率)',
+  'PERCENTILE.INC(配列, 率)',
+  'PI()',
+  'PMT(利率, 期間, 現在価値, [将来価値], [支払期日])',
+  'POWER(数値, 指数)',
+  'PROPER(文字列)',
+  'PV(利率, 期間, 定期支払額, [将来価値], [支払期日])',
+  'QUARTILE(配列, 戻り値)',
+  'QUARTILE.EXC(配列, 戻り値)',
+  'QUARTILE.INC(配列, 戻り値)',
+  'RAND()',
+  'RANDARRAY([行], [列], [最小], [最大], [整数])',
+  'RANDBETWEEN(最小値, 最大値)',
+  'RANK(数値, 参照, [順序])',
+  'RANK.EQ(数値, 参照, [順序])',
+  'RATE(期間, 定期支払額, 現在価値, [将来価値], [支払期日], [推定値])',
+  'REDUCE([初期値], 配列, LAMBDA)',
+  'REGEXEXTRACT(文字列, パターン, [戻り値のモード], [大文字と小文字の区別])',
+  'REGEXMATCH(文字列, パターン, [大文字と小文字の区別])',
+  'REGEXREPLACE(文字列, パターン, 置換文字列, [出現回数], [大文字と小文字の区別])',
+  'REPLACE(文字列, 開始位置, 文字数, 置換文字列)',
+  'REPT(文字列, 繰り返し回数)',
+  'RIGHT(文字列, [文字数])',
+  'ROUND(数値, 桁数)',
+  'ROW([参照])',
+  'ROWS(配列)',
+  'SCAN([初期値], 配列, LAMBDA)',
+  'SEARCH(検索文字列, 対象, [開始位置])',
+  'SECOND(シリアル値)',
+  'SEQUENCE(行, [列], [開始], [目盛り])',
+  'SLOPE(既知のy, 既知のx)',
+  'SMALL(配列, 順位)',
+  'SORT(配列, [並べ替えインデックス], [並べ替え順序], [列で並べ替え])',
+  'SORTBY(配列, 基準配列1, [並べ替え順序1], [基準配列2], [並べ替え順序2], ...)',
+  'SQRT(数値)',
+  'STDEV(数値1, [数値2], ...)',
+  'STDEV.P(数値1, [数値2], ...)',
+  'STDEV.S(数値1, [数値2], ...)',
+  'STDEVP(数値1, [数値2], ...)',
+  'SUBSTITUTE(文字列, 検索文字列, 置換文字列, [置換対象])',
+  'SUM(数値1, [数値2], ...)',
+  'SUMIF(範囲, 検索条件, [合計範囲])',
+  'SUMIFS(合計対象範囲, 条件範囲1, 条件1, [条件範囲2], [条件2], ...)',
+  'TEXT(値, 表示形式)',
+  'TEXTAFTER(文字列, 区切り文字, [インスタンス番号], [一致モード], [末尾一致], [見つからない場合])',
+  'TEXTBEFORE(文字列, 区切り文字, [インスタンス番号], [一致モード], [末尾一致], [見つからない場合])',
+  'TEXTJOIN(区切り文字, 空のセルは無視, 文字列1, [文字列2], ...)',
+  'TEXTSPLIT(文字列, 列区切り文字, [行区切り文字], [空の値を無視], [一致モード], [埋める値])',
+  'TIME(時, 分, 秒)',
+  'TODAY()',
+  'TRANSPOSE(配列)',
+  'TRIM(文字列)',
+  'UNICHAR(数値)',
+  'UNICODE(文字列)',
+  'UNIQUE(配列, [列の比較], [回数指定])',
+  'UPPER(文字列)',
+  'VALUE(文字列)',
+  'VAR(数値1, [数値2], ...)',
+  'VAR.P(数値1, [数値2], ...)',
+  'VAR.S(数値1, [数値2], ...)',
+  'VARP(数値1, [数値2], ...)',
+  'VLOOKUP(検索値, 範囲, 列番号, [検索方法])',
+  'WEEKDAY(シリアル値, [週の基準])',
+  'WEEKNUM(シリアル値, [週の基準])',
+  'WORKDAY(開始日, 日数, [祭日])',
+  'XIRR(範囲, 日付, [推定値])',
+  'XLOOKUP(検索値, 検索範囲, 戻り範囲, [見つからない場合], [一致モード], [検索モード])',
+  'XMATCH(検索値, 検索範囲, [一致モード], [検索モード])',
+  'XNPV(割引率, キャッシュフロー, 日付)',
+  'YEAR(シリアル値)',
+];
+
+/**
+ * 関数の書式の文字列を引数の一覧に変換する
+ */
+export function parseFunctionSignature(text: string): FormulaFunctionSignature {
+  const open = text.indexOf('(');
+  const name = text.slice(0, open);
+  const parameters: FormulaParameter[] = [];
+
+  for (const part of text.slice(open + 1, -1).split(',').map(value => value.trim()).filter(Boolean)) {
+    if (part === '...') {
+      if (parameters.length > 0) {
+        parameters[parameters.length - 1] = { ...parameters[parameters.length - 1], repeating: true };
+      }
+      continue;
+    }
+    const optional = part.startsWith('[') && part.endsWith(']');
+    parameters.push(optional ? { name: part.slice(1, -1), optional } : { name: part });
+  }
+  return { name, parameters };
+}
+
+const BUILT_IN_SIGNATURE_MAP = new Map(
+  BUILT_IN_SIGNATURES.map(text => {
+    const signature = parseFunctionSignature(text);
+    return [signature.name, signature];
+  })
+);
+
+/**
+ * 組み込みの関数の引数の一覧を取得する
+ */
+export function getBuiltInFunctionSignature(name: string): FormulaFunctionSignature | undefined {
+  return BUILT_IN_SIGNATURE_MAP.get(name.toUpperCase());
+}
+
+/**
+ * プラグインの関数のメタデータを引数の一覧に変換する
+ */
+export function pluginFunctionToSignature(func: FormulaPluginFunction): FormulaFunctionSignature {
+  return {
+    name: func.name.toUpperCase(),
+    description: func.description,
+    parameters: func.arguments.map(argument => ({
+      name: argument.name,
+      ...(argument.optional ? { optional: true } : {}),
+      ...(argument.repeating ? { repeating: true } : {}),
+    })),
+  };
+}
+
+/**
+ * 入力中の引数の番号（0始まり）に対応する引数の位置を求める
+ * 繰り返し指定できる引数の後は、繰り返す引数の組（条件範囲と条件など）の同じ位置の引数とする
+ */
+export function getActiveParameterIndex(signature: FormulaFunctionSignature, argumentIndex: number): number {
+  const { parameters } = signature;
+  if (argumentIndex < parameters.length) {
+    return argumentIndex;
+  }
+  const repeatingIndex = parameters.findIndex(parameter => parameter.repeating);
+  if (repeatingIndex < 0) {
+    return -1;
+  }
+
+  // 繰り返す組は、繰り返す引数とその直前に続く省略できる引数とする
+  let groupStart = repeatingIndex;
+  while (groupStart > 0 && parameters[groupStart - 1].optional) {
+    groupStart--;
+  }
+  const groupSize = repeatingIndex - groupStart + 1;
+  return groupStart + ((argumentIndex - groupStart) % groupSize);
+}
@@ -0,0 +1,283 @@
+/**
+ * Statistical Functions Library
+ * 統計関数（MEDIAN・STDEV.S・PERCENTILE.INC・RANK.EQ・CORREL・FORECAST.LINEARなど）を提供するライブラリ
+ * 参照・配列内の文字列・論理値・空白は無視し、引数に直接指定された値は数値に変換する（Excelと同じ）
+ */
+
+import {
+  FormulaEvaluationError,
+  FormulaFunctionLibrary,
+  FormulaValue,
+  collectNumbers,
+  flattenValues,
+  isFormulaErrorValue,
+  toNumber
+} from './evaluator';
+
+/**
+ * 線形回帰の結果（y = slope * x + intercept）
+ */
+export interface LinearRegression {
+  slope: number;
+  intercept: number;
+}
+
+/**
+ * 平均値を求める
+ */
+function mean(numbers: number[]): number {
+  return numbers.reduce((sum, value) => sum + value, 0) / numbers.length;
+}
+
+/**
+ * 平均からの偏差の平方和を求める
+ */
+function sumOfSquaredDeviations(numbers: number[]): number {
+  const average = mean(numbers);
+  return numbers.reduce((sum, value) => sum + (value - average) * (value - average), 0);
+}
+
+/**
+ * 分散を求める（sample: 標本分散、それ以外: 母分散）
+ * 値の個数が足りない場合は#DIV/0!
+ */
+function variance(numbers: number[], sample: boolean): number {
+  const count = sample ? numbers.length - 1 : numbers.length;
+  if (count < 1) throw new FormulaEvaluationError('#DIV/0!', '分散の計算に必要な個数の数値がありません');
+  return sumOfSquaredDeviations(numbers) / count;
+}
+
+/**
+ * 昇順に並べ替えた数値を返す（数値がない場合は#NUM!）
+ */
+function sortNumbers(numbers: number[]): number[] {
+  if (numbers.length === 0) throw new FormulaEvaluationError('#NUM!', '数値がありません');
+  return [...numbers].sort((a, b) => a - b);
+}
+
+/**
+ * 中央値を求める
+ */
+export function calculateMedian(numbers: number[]): number {
+  const sorted = sortNumbers(numbers);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * 最頻値を求める（同じ回数の場合は先に現れた値、重複する値がない場合は#N/A）
+ */
+export function calculateMode(numbers: number[]): number {
+  const counts = new Map<number, number>();
+  for (const value of numbers) {
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  }
+  const maxCount = Math.max(0, ...counts.values());
+  if (maxCount < 2) throw new FormulaEvaluationError('#N/A', '重複する値がありません');
+  return numbers.find(value => counts.get(value) === maxCount)!;
+}
+
+/**
+ * 百分位数を求める（exclusive: 0と1を含まない、それ以外: 0と1を含む）
+ * 順位が範囲外になる場合は#NUM!
+ */
+export function calculatePercentile(numbers: number[], k: number, exclusive: boolean = false): number {
+  const sorted = sortNumbers(numbers);
+  const n = sorted.length;
+  // 1から数えた順位（小数部分は隣の値との間を線形補間する）
+  const rank = exclusive ? k * (n + 1) : k * (n - 1) + 1;
+  const valid = exclusive ? k > 0 && k < 1 && rank >= 1 && rank <= n : k >= 0 && k <= 1;
+  if (!valid) throw new FormulaEvaluationError('#NUM!', '百分位の値が範囲外です');
+
+  const lower = Math.floor(rank);
+  if (lower >= n) return sorted[n - 1];
+  return sorted[lower - 1] + (rank - lower) * (sorted[lower] - sorted[lower - 1]);
+}
+
+/**
+ * 四分位数を求める（exclusive: 1〜3、それ以外: 0〜4 を指定する）
+ */
+export function calculateQuartile(numbers: number[], quart: number, exclusive: boolean = false): number {
+  const q = Math.trunc(quart);
+  const valid = exclusive ? q >= 1 && q <= 3 : q >= 0 && q <= 4;
+  if (!valid) throw new FormulaEvaluationError('#NUM!', '四分位の値が範囲外です');
+  return calculatePercentile(numbers, q / 4, exclusive);
+}
+
+/**
+ * 数値の順位を求める（order: 0は降順、それ以外は昇順。同じ値は同じ順位、見つからない場合は#N/A）
+ */
+export function calculateRank(number: number, numbers: number[], order: number = 0): number {
+  if (!numbers.includes(number)) throw new FormulaEvaluationError('#N/A', '範囲に数値が見つかりません');
+  const ascending = order !== 0;
+  return 1 + numbers.filter(value => ascending ? value < number : value > number).length;
+}
+
+/**
+ * k番目に大きい値（largest）・小さい値を求める（kは切り上げ、範囲外の場合は#NUM!）
+ */
+function nthValue(numbers: number[], k: number, largest: boolean): number {
+  const sorted = sortNumbers(numbers);
+  const index = Math.ceil(k);
+  if (index < 1 || index > sorted.length) throw new FormulaEvaluationError('#NUM!', '順位が範囲外です');
+  return largest ? sorted[sorted.length - index] : sorted[index - 1];
+}
+
+/**
+ * 2つの配列の対応する値の組から、両方が数値の組だけを取り出す
+ * 配列の大きさが異なる場合は#N/A、エラー値はそのエラーを投げる
+ */
+function collectNumberPairs(first: FormulaValue, second: FormulaValue): [number[], number[]] {
+  const firstValues = flattenValues([first]);
+  const secondValues = flattenValues([second]);
+  if (firstValues.length !== secondValues.length) {
+    throw new FormulaEvaluationError('#N/A', '配列の大きさが一致しません');
+  }
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  firstValues.forEach((x, index) => {
+    const y = secondValues[index];
+    if (isFormulaErrorValue(x)) throw new FormulaEvaluationError(x.code, x.message);
+    if (isFormulaErrorValue(y)) throw new FormulaEvaluationError(y.code, y.message);
+    if (typeof x === 'number' && typeof y === 'number') {
+      xs.push(x);
+      ys.push(y);
+    }
+  });
+  return [xs, ys];
+}
+
+/**
+ * 最小二乗法で回帰直線を求める（xの値がすべて同じ場合は#DIV/0!）
+ */
+export function calculateLinearRegression(ys: number[], xs: number[]): LinearRegression {
+  if (xs.length === 0) throw new FormulaEvaluationError('#DIV/0!', '数値の組がありません');
+  const xMean = mean(xs);
+  const yMean = mean(ys);
+  const sxx = sumOfSquaredDeviations(xs);
+  if (sxx === 0) throw new FormulaEvaluationError('#DIV/0!', 'xの値がすべて同じです');
+
+  const sxy = xs.reduce((sum, x, index) => sum + (x - xMean) * (ys[index] - yMean), 0);
+  const slope = sxy / sxx;
+  return { slope, intercept: yMean - slope * xMean };
+}
+
+/**
+ * 相関係数を求める（どちらかの値がすべて同じ場合は#DIV/0!）
+ */
+function correlation(xs: number[], ys: number[]): number {
+  if (xs.length === 0) throw new FormulaEvaluationError('#DIV/0!', '数値の組がありません');
+  const xMean = mean(xs);
+  const yMean = mean(ys);
+  const sxx = sumOfSquaredDeviations(xs);
+  const syy = sumOfSquaredDeviations(ys);
+  if (sxx === 0 || syy === 0) throw new FormulaEvaluationError('#DIV/0!', '値がすべて同じです');
+
+  const sxy = xs.reduce((sum, x, index) => sum + (x - xMean) * (ys[index] - yMean), 0);
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+/**
+ * 既知のyとxの値から回帰直線を求める（引数の順序はExcelと同じくy、xの順）
+ */
+function regression(knownYs: FormulaValue, knownXs: FormulaValue): LinearRegression {
+  const [ys, xs] = collectNumberPairs(knownYs, knownXs);
+  return calculateLinearRegression(ys, xs);
+}
+
+/**
+ * 省略可能な引数を数値に変換する（省略・空の場合は既定値）
+ */
+function toOptionalNumber(value: FormulaValue | undefined, defaultValue: number): number {
+  return value === undefined || value === null ? defaultValue : toNumber(value);
+}
+
+const median = (...values: FormulaValue[]) => calculateMedian(collectNumbers(values));
+const mode = (...values: FormulaValue[]) => calculateMode(collectNumbers(values));
+const sampleStandardDeviation = (...values: FormulaValue[]) => Math.sqrt(variance(collectNumbers(values), true));
+const populationStandardDeviation = (...values: FormulaValue[]) => Math.sqrt(variance(collectNumbers(values), false));
+const sampleVariance = (...values: FormulaValue[]) => variance(collectNumbers(values), true);
+const populationVariance = (...values: FormulaValue[]) => variance(collectNumbers(values), false);
+const percentileInclusive = (values: FormulaValue, k: FormulaValue) =>
+  calculatePercentile(collectNumbers([values]), toNumber(k));
+const quartileInclusive = (values: FormulaValue, quart: FormulaValue) =>
+  calculateQuartile(collectNumbers([values]), toNumber(quart));
+const rank = (number: FormulaValue, values: FormulaValue, order?: FormulaValue) =>
+  calculateRank(toNumber(number), collectNumbers([values]), toOptionalNumber(order, 0));
+const forecast = (x: FormulaValue, knownYs: FormulaValue, knownXs: FormulaValue) => {
+  const target = toNumber(x);
+  const { slope, intercept } = regression(knownYs, knownXs);
+  return intercept + slope * target;
+};
+
+/**
+ * 統計関数（互換性のための旧名称を含む）
+ */
+export const STATISTICAL_FUNCTIONS: FormulaFunctionLibrary = {
+  MEDIAN: { implementation: median, options: { referencesAsArrays: true } },
+  'MODE.SNGL': { implementation: mode, options: { referencesAsArrays: true } },
+  MODE: { implementation: mode, options: { referencesAsArrays: true } },
+
+  'STDEV.S': { implementation: sampleStandardDeviation, options: { referencesAsArrays: true } },
+  STDEV: { implementation: sampleStandardDeviation, options: { referencesAsArrays: true } },
+  'STDEV.P': { implementation: populationStandardDeviation, options: { referencesAsArrays: true } },
+  STDEVP: { implementation: populationStandardDeviation, options: { referencesAsArrays: true } },
+  'VAR.S': { implementation: sampleVariance, options: { referencesAsArrays: true } },
+  VAR: { implementation: sampleVariance, options: { referencesAsArrays: true } },
+  'VAR.P': { implementation: populationVariance, options: { referencesAsArrays: true } },
+  VARP: { implementation: populationVariance, options: { referencesAsArrays: true } },
+
+  'PERCENTILE.INC': { implementation: percentileInclusive, options: { referencesAsArrays: true } },
+  PERCENTILE: { implementation: percentileInclusive, options: { referencesAsArrays: true } },
+  'PERCENTILE.EXC': {
+    implementation: (values: FormulaValue, k: FormulaValue) =>
+      calculatePercentile(collectNumbers([values]), toNumber(k), true),
+    options: { referencesAsArrays: true }
+  },
+  'QUARTILE.INC': { implementation: quartileInclusive, options: { referencesAsArrays: true } },
+  QUARTILE: { implementation: quartileInclusive, options: { referencesAsArrays: true } },
+  'QUARTILE.EXC': {
+    implementation: (values: FormulaValue, quart: FormulaValue) =>
+      calculateQuartile(collectNumbers([values]), toNumber(quart), true),
+    options: { referencesAsArrays: true }
+  },
+
+  'RANK.EQ': { implementation: rank, options: { referencesAsArrays: true } },
+  RANK: { implementation: rank, options: { referencesAsArrays: true } },
+  LARGE: {
+    implementation: (values: FormulaValue, k: FormulaValue) => nthValue(collectNumbers([values]), toNumber(k), true),
+    options: { referencesAsArrays: true }
+  },
+  SMALL: {
+    implementation: (values: FormulaValue, k: FormulaValue) => nthValue(collectNumbers([values]), toNumber(k), false),
+    options: { referencesAsArrays: true }
+  },
+
+  CORREL: {
+    implementation: (first: FormulaValue, second: FormulaValue) => correlation(...collectNumberPairs(first, second)),
+    options: { referencesAsArrays: true }
+  },
+  SLOPE: {
+    implementation: (knownYs: FormulaValue, knownXs: FormulaValue) => regression(knownYs, knownXs).slope,
+    options: { referencesAsArrays: true }
+  },
+  INTERCEPT: {
+    implementation: (knownYs: FormulaValue, knownXs: FormulaValue) => regression(knownYs, knownXs).intercept,
+    options: { referencesAsArrays: true }
+  },
+  'FORECAST.LINEAR': { implementation: forecast, options: { referencesAsArrays: true } },
+  FORECAST: { implementation: forecast, options: { referencesAsArrays: true } },
+
+  // 空白以外のセル（文字列・論理値・エラー値を含む）を数える
+  COUNTA: {
+    implementation: (...values: FormulaValue[]) => flattenValues(values).filter(value => value !== null).length,
+    options: { referencesAsArrays: true, acceptsErrors: true }
+  },
+  // 空白のセルと空文字列を数える
+  COUNTBLANK: {
+    implementation: (values: FormulaValue) =>
+      flattenValues([values]).filter(value => value === null || value === '').length,
+    options: { referencesAsArrays: true }
+  },
+};
@@ -0,0 +1,621 @@
+/**
+ * Text Functions Library
+ * 文字列関数（TRIM・SUBSTITUTE・FIND・TEXTJOIN・TEXTSPLIT・REGEXREPLACE・ASC・JISなど）を提供するライブラリ
+ * 文字の位置は1から数え、セルに入力できる文字数（32767文字）を超える結果は#VALUE!とする
+ */
+
+import { dateTextToSerial } from '../date-serial';
+import {
+  FormulaArray,
+  FormulaCallContext,
+  FormulaEvaluationError,
+  FormulaFunctionLibrary,
+  FormulaScalar,
+  FormulaValue,
+  createFormulaErrorValue,
+  flattenValues,
+  isFormulaErrorValue,
+  toBoolean,
+  toNumber,
+  toScalar,
+  toText
+} from './evaluator';
+import { escapeRegExp, wildcardToRegExpSource } from './lookup-functions';
+
+/**
+ * セルに入力できる最大の文字数
+ */
+const MAX_TEXT_LENGTH = 32767;
+
+/**
+ * 半角カタカナ（U+FF61〜U+FF9F）と対応する全角文字
+ */
+const HALF_WIDTH_KATAKANA = '｡｢｣､･ｦｧｨｩｪｫｬｭｮｯｰｱｲｳｴｵｶｷｸｹｺｻｼｽｾｿﾀﾁﾂﾃﾄﾅﾆﾇﾈﾉﾊﾋﾌﾍﾎﾏﾐﾑﾒﾓﾔﾕﾖﾗﾘﾙﾚﾛﾜﾝﾞﾟ';
+const FULL_WIDTH_KATAKANA = '。「」、・ヲァィゥェォャュョッーアイウエオカキクケコサシスセソタチツテトナニヌネノハヒフヘホマミムメモヤユヨラリルレロワン゛゜';
+
+/**
+ * 全角文字と半角文字の対応（濁音・半濁音は半角では2文字になる）
+ */
+const TO_HALF_WIDTH = new Map<string, string>();
+const TO_FULL_WIDTH = new Map<string, string>();
+
+function addWidthPair(full: string, half: string): void {
+  TO_HALF_WIDTH.set(full, half);
+  TO_FULL_WIDTH.set(half, full);
+}
+
+Array.from(HALF_WIDTH_KATAKANA).forEach((half, index) => addWidthPair(FULL_WIDTH_KATAKANA[index], half));
+for (const base of 'カキクケコサシスセソタチツテトハヒフヘホ') {
+  // 濁音は清音の次のコードポイント
+  addWidthPair(String.fromCharCode(base.charCodeAt(0) + 1), `${TO_HALF_WIDTH.get(base)}ﾞ`);
+}
+for (const base of 'ハヒフヘホ') {
+  // 半濁音は清音の2つ後のコードポイント
+  addWidthPair(String.fromCharCode(base.charCodeAt(0) + 2), `${TO_HALF_WIDTH.get(base)}ﾟ`);
+}
+addWidthPair('ヴ', 'ｳﾞ');
+
+/**
+ * 全角と半角の英数字・記号のコードポイントの差（！: U+FF01 と !: U+0021）
+ */
+const FULL_WIDTH_OFFSET = 0xFEE0;
+
+/**
+ * 全角の英数字・記号・空白・カタカナを半角に変換する（ASC）
+ * ひらがな・漢字など半角のない文字はそのまま残す
+ */
+export function toHalfWidth(text: string): string {
+  let result = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code >= 0xFF01 && code <= 0xFF5E) {
+      result += String.fromCharCode(code - FULL_WIDTH_OFFSET);
+    } else if (char === '　') {
+      result += ' ';
+    } else {
+      result += TO_HALF_WIDTH.get(char) ?? char;
+    }
+  }
+  return result;
+}
+
+/**
+ * 半角の英数字・記号・空白・カタカナを全角に変換する（JIS）
+ * 半角カタカナに続く濁点・半濁点は1文字の濁音・半濁音にする
+ */
+export function toFullWidth(text: string): string {
+  let result = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const code = char.charCodeAt(0);
+    const voiced = TO_FULL_WIDTH.get(text.slice(i, i + 2));
+    if (voiced !== undefined) {
+      result += voiced;
+      i++;
+    } else if (code >= 0x21 && code <= 0x7E) {
+      result += String.fromCharCode(code + FULL_WIDTH_OFFSET);
+    } else if (char === ' ') {
+      result += '　';
+    } else {
+      result += TO_FULL_WIDTH.get(char) ?? char;
+    }
+  }
+  return result;
+}
+
+/**
+ * 結果の文字数がセルに入力できる範囲であることを確認する
+ */
+function checkTextLength(text: string): string {
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new FormulaEvaluationError('#VALUE!', `文字列が${MAX_TEXT_LENGTH}文字を超えています`);
+  }
+  return text;
+}
+
+/**
+ * 省略可能な引数を数値に変換する（省略・空の場合は既定値）
+ */
+function toOptionalNumber(value: FormulaValue | undefined, defaultValue: number): number {
+  return value === undefined || value === null ? defaultValue : toNumber(value);
+}
+
+/**
+ * 開始位置の引数を変換する（1未満は#VALUE!）
+ */
+function toPosition(value: FormulaValue | undefined): number {
+  const position = Math.trunc(toOptionalNumber(value, 1));
+  if (position < 1) throw new FormulaEvaluationError('#VALUE!', '開始位置は1以上を指定してください');
+  return position;
+}
+
+/**
+ * 文字数・回数の引数を変換する（負の数は#VALUE!）
+ */
+function toCount(value: FormulaValue): number {
+  const count = Math.trunc(toNumber(value));
+  if (count < 0) throw new FormulaEvaluationError('#VALUE!', '負の数は指定できません');
+  return count;
+}
+
+/**
+ * 文字列を数値に変換する（変換できない場合はnull）
+ * 空白と桁区切りは無視し、末尾の%の数だけ100で割る。桁区切りは小数点より後にあってはならない
+ */
+function parseNumberText(text: string, decimalSeparator: string, groupSeparator: string): number | null {
+  let source = text.replace(/\s/g, '');
+  let percents = 0;
+  while (source.endsWith('%')) {
+    source = source.slice(0, -1);
+    percents++;
+  }
+
+  const decimalIndex = source.indexOf(decimalSeparator);
+  const integerPart = decimalIndex >= 0 ? source.slice(0, decimalIndex) : source;
+  const fractionPart = decimalIndex >= 0 ? source.slice(decimalIndex + 1) : '';
+  if (fractionPart.includes(decimalSeparator) || fractionPart.includes(groupSeparator)) {
+    return null;
+  }
+
+  const normalized = `${integerPart.split(groupSeparator).join('')}${decimalIndex >= 0 ? `.${fractionPart}` : ''}`;
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(normalized)) {
+    return null;
+  }
+  return Number(normalized) / Math.pow(100, percents);
+}
+
+/**
+ * 区切り文字の引数（配列の場合は複数の区切り文字）を文字列の配列に変換する
+ */
+function toDelimiters(value: FormulaValue): string[] {
+  return flattenValues([value]).map(delimiter => toText(delimiter));
+}
+
+/**
+ * いずれかの区切り文字に一致する正規表現を作成する（長い区切り文字を優先する）
+ */
+function createDelimiterPattern(delimiters: string[], ignoreCase: boolean): RegExp {
+  const source = [...delimiters]
+    .sort((a, b) => b.length - a.length)
+    .map(escapeRegExp)
+    .join('|');
+  return new RegExp(source, ignoreCase ? 'gi' : 'g');
+}
+
+/**
+ * 区切り文字の位置
+ */
+interface DelimiterMatch {
+  start: number;
+  end: number;
+}
+
+/**
+ * TEXTBEFORE・TEXTAFTERの区切り文字の位置を探す（見つからない場合はnull）
+ * instanceが負の場合は末尾から数え、matchEndの場合は文字列の末尾（負の場合は先頭）も区切り文字とみなす
+ */
+function findDelimiter(
+  text: string,
+  delimiter: FormulaValue,
+  instance: FormulaValue | undefined,
+  matchMode: FormulaValue | undefined,
+  matchEnd: FormulaValue | undefined
+): DelimiterMatch | null {
+  const n = Math.trunc(toOptionalNumber(instance, 1));
+  if (n === 0 || Math.abs(n) > text.length) {
+    throw new FormulaEvaluationError('#VALUE!', '区切り文字の番号が範囲外です');
+  }
+
+  const delimiters = toDelimiters(delimiter);
+  const matches: DelimiterMatch[] = [];
+  if (delimiters.includes('')) {
+    // 空の区切り文字はすべての文字の間に一致する
+    for (let index = 0; index <= text.length; index++) {
+      matches.push({ start: index, end: index });
+    }
+  } else {
+    const pattern = createDelimiterPattern(delimiters, toOptionalNumber(matchMode, 0) !== 0);
+    for (const match of text.matchAll(pattern)) {
+      matches.push({ start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+
+  if (toOptionalNumber(matchEnd, 0) !== 0) {
+    if (n > 0) {
+      matches.push({ start: text.length, end: text.length });
+    } else {
+      matches.unshift({ start: 0, end: 0 });
+    }
+  }
+  return matches[n > 0 ? n - 1 : matches.length + n] ?? null;
+}
+
+/**
+ * 区切り文字が見つからない場合の値（省略時は#N/A）
+ */
+function notFound(ifNotFound: FormulaValue | undefined): FormulaScalar {
+  if (ifNotFound === undefined) {
+    throw new FormulaEvaluationError('#N/A', '区切り文字が見つかりません');
+  }
+  return toScalar(ifNotFound);
+}
+
+/**
+ * 文字列を区切り文字で2次元配列に分割する（TEXTSPLIT）
+ * 行の長さが揃わない場合はpadWithの値（省略時は#N/A）で埋める
+ */
+function splitText(
+  text: string,
+  columnDelimiter: FormulaValue | undefined,
+  rowDelimiter: FormulaValue | undefined,
+  ignoreEmpty: boolean,
+  ignoreCase: boolean,
+  padWith: FormulaScalar
+): FormulaArray {
+  const toPattern = (delimiter: FormulaValue | undefined) => {
+    if (delimiter === undefined || delimiter === null) return null;
+    const delimiters = toDelimiters(delimiter);
+    if (delimiters.includes('')) throw new FormulaEvaluationError('#VALUE!', '区切り文字が空です');
+    return createDelimiterPattern(delimiters, ignoreCase);
+  };
+  const columnPattern = toPattern(columnDelimiter);
+  const rowPattern = toPattern(rowDelimiter);
+  if (!columnPattern && !rowPattern) {
+    throw new FormulaEvaluationError('#VALUE!', '区切り文字を指定してください');
+  }
+
+  const split = (value: string, pattern: RegExp | null) => {
+    const parts = pattern ? value.split(pattern) : [value];
+    return ignoreEmpty ? parts.filter(part => part !== '') : parts;
+  };
+  const rows: FormulaScalar[][] = split(text, rowPattern).map(row => split(row, columnPattern));
+  if (rows.length === 0) {
+    throw new FormulaEvaluationError('#CALC!', '結果が空です');
+  }
+
+  const width = Math.max(1, ...rows.map(row => row.length));
+  return rows.map(row => [...row, ...Array(width - row.length).fill(padWith)]);
+}
+
+/**
+ * 正規表現を作成する（caseSensitivity: 0は大文字小文字を区別する、1は区別しない）
+ * パターンが正しくない場合は#VALUE!
+ */
+function createRegExp(pattern: FormulaValue, caseSensitivity: FormulaValue | undefined, global: boolean): RegExp {
+  const source = toText(pattern);
+  const flags = `${global ? 'g' : ''}${toOptionalNumber(caseSensitivity, 0) !== 0 ? 'i' : ''}`;
+  try {
+    return new RegExp(source, flags);
+  } catch {
+    throw new FormulaEvaluationError('#VALUE!', `正規表現が正しくありません: ${source}`);
+  }
+}
+
+/**
+ * 置換文字列の $1・$<名前>・$& を一致した文字列で置き換える（$$ は $ とする）
+ */
+function expandReplacement(replacement: string, match: RegExpMatchArray): string {
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token: string, key: string, name?: string) => {
+    if (key === '$') return '$';
+    if (key === '&') return match[0];
+    if (name !== undefined) return match.groups?.[name] ?? '';
+    const index = Number(key);
+    return index < match.length ? match[index] ?? '' : token;
+  });
+}
+
+/**
+ * 先頭・末尾の空白を削除し、連続する空白を1つにする（全角の空白も対象）
+ */
+function trimSpaces(text: string): string {
+  return text.replace(/^[ 　]+|[ 　]+$/g, '').replace(/([ 　])[ 　]+/g, '$1');
+}
+
+/**
+ * 英字の単語の先頭を大文字、それ以外を小文字にする（英字以外の文字の直後を単語の先頭とみなす）
+ */
+function toProperCase(text: string): string {
+  let result = '';
+  let previousIsLetter = false;
+  for (const char of text) {
+    const isLetter = char.toUpperCase() !== char.toLowerCase();
+    result += isLetter && !previousIsLetter ? char.toUpperCase() : char.toLowerCase();
+    previousIsLetter = isLetter;
+  }
+  return result;
+}
+
+/**
+ * 文字列関数
+ */
+export const TEXT_FUNCTIONS: FormulaFunctionLibrary = {
+  TRIM: {
+    implementation: (text: FormulaValue) => trimSpaces(toText(text)),
+    options: {}
+  },
+
+  PROPER: {
+    implementation: (text: FormulaValue) => toProperCase(toText(text)),
+    options: {}
+  },
+
+  SUBSTITUTE: {
+    implementation: (text: FormulaValue, oldText: FormulaValue, newText: FormulaValue, instance?: FormulaValue) => {
+      const source = toText(text);
+      const target = toText(oldText);
+      const replacement = toText(newText);
+      if (target === '') return source;
+      if (instance === undefined || instance === null) {
+        return checkTextLength(source.split(target).join(replacement));
+      }
+
+      const n = Math.trunc(toNumber(instance));
+      if (n < 1) throw new FormulaEvaluationError('#VALUE!', '置換する位置は1以上を指定してください');
+      let index = source.indexOf(target);
+      for (let count = 1; index >= 0 && count < n; count++) {
+        index = source.indexOf(target, index + target.length);
+      }
+      if (index < 0) return source;
+      return checkTextLength(source.slice(0, index) + replacement + source.slice(index + target.length));
+    },
+    options: {}
+  },
+
+  REPLACE: {
+    implementation: (text: FormulaValue, start: FormulaValue, length: FormulaValue, newText: FormulaValue) => {
+      const source = toText(text);
+      const begin = toPosition(start) - 1;
+      return checkTextLength(source.slice(0, begin) + toText(newText) + source.slice(begin + toCount(length)));
+    },
+    options: {}
+  },
+
+  // 大文字小文字を区別し、ワイルドカードは使用できない
+  FIND: {
+    implementation: (findText: FormulaValue, withinText: FormulaValue, start?: FormulaValue) => {
+      const source = toText(withinText);
+      const position = toPosition(start);
+      const index = position > source.length ? -1 : source.indexOf(toText(findText), position - 1);
+      if (index < 0) throw new FormulaEvaluationError('#VALUE!', '文字列が見つかりません');
+      return index + 1;
+    },
+    options: {}
+  },
+
+  // 大文字小文字を区別せず、ワイルドカード（* ? ~）を使用できる
+  SEARCH: {
+    implementation: (findText: FormulaValue, withinText: FormulaValue, start?: FormulaValue) => {
+      const source = toText(withinText);
+      const position = toPosition(start);
+      const pattern = new RegExp(wildcardToRegExpSource(toText(findText)), 'gi');
+      pattern.lastIndex = position - 1;
+      const match = position > source.length ? null : pattern.exec(source);
+      if (!match) throw new FormulaEvaluationError('#VALUE!', '文字列が見つかりません');
+      return match.index + 1;
+    },
+    options: {}
+  },
+
+  // 区切り文字が配列の場合は順に繰り返して使う
+  TEXTJOIN: {
+    implementation: (delimiter: FormulaValue, ignoreEmpty: FormulaValue, ...texts: FormulaValue[]) => {
+      const delimiters = toDelimiters(delimiter);
+      const skipEmpty = toBoolean(ignoreEmpty);
+      const values = flattenValues(texts)
+        .map(value => toText(value))
+        .filter(value => !skipEmpty || value !== '');
+      const joined = values.reduce(
+        (result, value, index) => index === 0 ? value : result + delimiters[(index - 1) % delimiters.length] + value,
+        ''
+      );
+      return checkTextLength(joined);
+    },
+    options: { referencesAsArrays: true }
+  },
+
+  TEXTSPLIT: {
+    implementation: (
+      text: FormulaValue,
+      columnDelimiter?: FormulaValue,
+      rowDelimiter?: FormulaValue,
+      ignoreEmpty?: FormulaValue,
+      matchMode?: FormulaValue,
+      padWith?: FormulaValue
+    ) => splitText(
+      toText(text),
+      columnDelimiter,
+      rowDelimiter,
+      ignoreEmpty !== undefined && ignoreEmpty !== null && toBoolean(ignoreEmpty),
+      toOptionalNumber(matchMode, 0) !== 0,
+      padWith === undefined ? createFormulaErrorValue('#N/A') : toScalar(padWith)
+    ),
+    options: { referencesAsArrays: true }
+  },
+
+  TEXTBEFORE: {
+    implementation: (
+      text: FormulaValue,
+      delimiter: FormulaValue,
+      instance?: FormulaValue,
+      matchMode?: FormulaValue,
+      matchEnd?: FormulaValue,
+      ifNotFound?: FormulaValue
+    ) => {
+      const source = toText(text);
+      const match = findDelimiter(source, delimiter, instance, matchMode, matchEnd);
+      return match ? source.slice(0, match.start) : notFound(ifNotFound);
+    },
+    options: { referencesAsArrays: true }
+  },
+
+  TEXTAFTER: {
+    implementation: (
+      text: FormulaValue,
+      delimiter: FormulaValue,
+      instance?: FormulaValue,
+      matchMode?: FormulaValue,
+      matchEnd?: FormulaValue,
+      ifNotFound?: FormulaValue
+    ) => {
+      const source = toText(text);
+      const match = findDelimiter(source, delimiter, instance, matchMode, matchEnd);
+      return match ? source.slice(match.end) : notFound(ifNotFound);
+    },
+    options: { referencesAsArrays: true }
+  },
+
+  REPT: {
+    implementation: (text: FormulaValue, count: FormulaValue) => {
+      const source = toText(text);
+      const n = toCount(count);
+      // 繰り返す前に文字数を確認する
+      if (source.length * n > MAX_TEXT_LENGTH) {
+        throw new FormulaEvaluationError('#VALUE!', `文字列が${MAX_TEXT_LENGTH}文字を超えています`);
+      }
+      return source.repeat(n);
+    },
+    options: {}
+  },
+
+  // 数値・パーセント・桁区切りのほか、日付・時刻の文字列はシリアル値に変換する
+  VALUE: {
+    implementation: (context: FormulaCallContext, value: FormulaValue) => {
+      const scalar = toScalar(value);
+      if (typeof scalar === 'number') return scalar;
+      if (scalar === null) return 0;
+      if (typeof scalar === 'boolean' || isFormulaErrorValue(scalar)) {
+        throw new FormulaEvaluationError('#VALUE!', '数値に変換できません');
+      }
+
+      const text = scalar.trim();
+      const number = parseNumberText(text, '.', ',');
+      if (number !== null) return number;
+      const serial = dateTextToSerial(text, context.dateSystem);
+      if (serial !== null) return serial;
+      throw new FormulaEvaluationError('#VALUE!', `数値に変換できません: ${scalar}`);
+    },
+    options: { withContext: true }
+  },
+
+  // 小数点・桁区切りの記号を指定して数値に変換する（省略時は . と ,）
+  NUMBERVALUE: {
+    implementation: (text: FormulaValue, decimalSeparator?: FormulaValue, groupSeparator?: FormulaValue) => {
+      const toSeparator = (value: FormulaValue | undefined, defaultValue: string) =>
+        value === undefined || value === null ? defaultValue : toText(value).charAt(0) || defaultValue;
+      const decimal = toSeparator(decimalSeparator, '.');
+      const group = toSeparator(groupSeparator, ',');
+      if (decimal === group) {
+        throw new FormulaEvaluationError('#VALUE!', '小数点と桁区切りに同じ記号は指定できません');
+      }
+
+      const source = toText(text);
+      if (source.trim() === '') return 0;
+      const number = parseNumberText(source, decimal, group);
+      if (number === null) throw new FormulaEvaluationError('#VALUE!', `数値に変換できません: ${source}`);
+      return number;
+    },
+    options: {}
+  },
+
+  EXACT: {
+    implementation: (text1: FormulaValue, text2: FormulaValue) => toText(text1) === toText(text2),
+    options: {}
+  },
+
+  // 文字コードはLatin-1（1〜255）として扱う
+  CHAR: {
+    implementation: (code: FormulaValue) => {
+      const n = Math.trunc(toNumber(code));
+      if (n < 1 || n > 255) throw new FormulaEvaluationError('#VALUE!', '文字コードは1〜255を指定してください');
+      return String.fromCharCode(n);
+    },
+    options: {}
+  },
+
+  CODE: {
+    implementation: (text: FormulaValue) => {
+      const source = toText(text);
+      if (source === '') throw new FormulaEvaluationError('#VALUE!', '文字列が空です');
+      return source.charCodeAt(0);
+    },
+    options: {}
+  },
+
+  UNICODE: {
+    implementation: (text: FormulaValue) => {
+      const source = toText(text);
+      if (source === '') throw new FormulaEvaluationError('#VALUE!', '文字列が空です');
+      return source.codePointAt(0)!;
+    },
+    options: {}
+  },
+
+  UNICHAR: {
+    implementation: (code: FormulaValue) => {
+      const n = Math.trunc(toNumber(code));
+      if (n < 1 || n > 0x10FFFF || (n >= 0xD800 && n <= 0xDFFF)) {
+        throw new FormulaEvaluationError('#VALUE!', 'Unicodeのコードポイントが範囲外です');
+      }
+      return String.fromCodePoint(n);
+    },
+    options: {}
+  },
+
+  REGEXMATCH: {
+    implementation: (text: FormulaValue, pattern: FormulaValue, caseSensitivity?: FormulaValue) =>
+      createRegExp(pattern, caseSensitivity, false).test(toText(text)),
+    options: {}
+  },
+
+  // returnMode: 0は最初に一致した文字列、1は一致したすべての文字列（縦の配列）、2は最初の一致のグループ（横の配列）
+  REGEXEXTRACT: {
+    implementation: (text: FormulaValue, pattern: FormulaValue, returnMode?: FormulaValue, caseSensitivity?: FormulaValue) => {
+      const source = toText(text);
+      const mode = Math.trunc(toOptionalNumber(returnMode, 0));
+      if (mode < 0 || mode > 2) throw new FormulaEvaluationError('#VALUE!', '戻り値の種類は0〜2を指定してください');
+
+      const matches = Array.from(source.matchAll(createRegExp(pattern, caseSensitivity, true)));
+      if (matches.length === 0) throw new FormulaEvaluationError('#N/A', '一致する文字列がありません');
+      if (mode === 1) return matches.map(match => [match[0]]);
+      if (mode === 2 && matches[0].length > 1) return [matches[0].slice(1).map(group => group ?? '')];
+      return matches[0][0];
+    },
+    options: {}
+  },
+
+  // occurrence: 0はすべて、正の数は先頭から、負の数は末尾から数えた位置の一致だけを置換する
+  REGEXREPLACE: {
+    implementation: (
+      text: FormulaValue,
+      pattern: FormulaValue,
+      replacement: FormulaValue,
+      occurrence?: FormulaValue,
+      caseSensitivity?: FormulaValue
+    ) => {
+      const source = toText(text);
+      const replacementText = toText(replacement);
+      const n = Math.trunc(toOptionalNumber(occurrence, 0));
+      const matches = Array.from(source.matchAll(createRegExp(pattern, caseSensitivity, true)));
+      const targets = n === 0 ? matches : [matches[n > 0 ? n - 1 : matches.length + n]].filter(Boolean);
+
+      let result = '';
+      let last = 0;
+      for (const match of targets) {
+        result += source.slice(last, match.index) + expandReplacement(replacementText, match);
+        last = match.index! + match[0].length;
+      }
+      return checkTextLength(result + source.slice(last));
+    },
+    options: {}
+  },
+
+  ASC: {
+    implementation: (text: FormulaValue) => toHalfWidth(toText(text)),
+    options: {}
+  },
+
+  JIS: {
+    implementation: (text: FormulaValue) => toFullWidth(toText(text)),
+    options: {}
+  },
+};
@@ -0,0 +1,544 @@
+/**
+ * Formula Worker Library
+ * 数式エンジン（SpreadsheetFormulaEngine）をワーカーで実行するためのメッセージのやり取り（プロトコル）と、
+ * ワーカー側でメッセージを処理するホスト、メインスレッド側からメッセージを送るクライアントを提供するライブラリ
+ * ブラウザのWeb WorkerとNode.jsのworker_threadsのどちらでも同じプロトコルで動作する
+ */
+
+import { Cell, CellPosition } from '../cell';
+import { Spreadsheet, cellPositionToKey } from '../spreadsheet';
+import { Workbook, getActiveSheet, getIterativeCalculationSettings } from '../workbook';
+import { setCellValue } from '../spreadsheet-core';
+import { createNewWorkbook, updateSheet } from '../spreadsheet-core/workbook';
+import { FormulaError } from '../formula';
+import { CircularReferenceSolution, createCalculationContext } from './calculator';
+import { FormulaEvaluationStep } from './evaluator';
+import { ConditionalFormatResult } from './conditional-formatting';
+import { IncrementalRecalculator, RecalculationStats } from './recalculation';
+import { FormulaPluginDefinition } from './plugins';
+import { FormulaEngineConfig, SpreadsheetFormulaEngine, createFormulaEngine } from './index';
+
+/**
+ * ワーカーで設定するセルの値（入力された値のまま）
+ */
+export interface FormulaWorkerCellInput extends CellPosition {
+  value: string;
+}
+
+/**
+ * ワーカーで計算したセルの値
+ */
+export interface FormulaWorkerCellValue extends CellPosition {
+  value: any;
+  displayValue: string;
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+/**
+ * ワーカーへの要求
+ * - configure: 関数のプラグインを設定する（数式エンジンを作り直す）
+ * - set-workbook: ワークブック全体を設定する（次の再計算はシート全体の再計算になる）
+ * - set-cells: シートのセルの値を設定する（次の再計算は設定したセルに依存するセルだけを計算する）
+ * - recalc: シートを再計算し、前回の結果から変わったセル（そのシートを参照する他のシートのセルを含む）を返す
+ * - get-values: 数式エンジンでセルの値を計算して返す
+ * - evaluate-steps: 数式を1段階ずつ評価した過程を返す（数式の検証）
+ * - get-error: セルの数式のエラーの詳細を返す（エラーの説明）
+ * - evaluate-conditional-formats: シートの条件付き書式を評価した結果を返す
+ * - cancel: まだ処理していない要求を取り消す
+ * プラグインの関数はワーカーでのみ実行できるため、数式を評価する処理はすべてワーカーに要求する
+ */
+export type FormulaWorkerRequest =
+  | { id: number; type: 'configure'; plugins: FormulaPluginDefinition[] }
+  | { id: number; type: 'set-workbook'; workbook: Workbook }
+  | { id: number; type: 'set-cells'; sheetName?: string; cells: FormulaWorkerCellInput[] }
+  | { id: number; type: 'recalc'; sheetName?: string }
+  | { id: number; type: 'get-values'; sheetName?: string; positions: CellPosition[] }
+  | { id: number; type: 'evaluate-steps'; sheetName?: string; position: CellPosition; formula: string }
+  | { id: number; type: 'get-error'; sheetName?: string; position: CellPosition }
+  | { id: number; type: 'evaluate-conditional-formats'; sheetName?: string }
+  | { id: number; type: 'cancel'; targetId: number };
+
+/**
+ * 再計算で変わったシートのセル
+ * cellsは再計算で変わったセル、removedKeysは再計算で取り除いたセル（配列の展開先など）のキー
+ */
+export interface FormulaWorkerSheetChanges {
+  sheetName: string;
+  cells: Cell[];
+  removedKeys: string[];
+}
+
+/**
+ * シートの再計算の結果
+ * dependentSheetsは、再計算したシートのセルを参照する数式を計算し直した他のシートの変更
+ */
+export interface FormulaWorkerRecalcResult extends FormulaWorkerSheetChanges {
+  dependentSheets: FormulaWorkerSheetChanges[];
+  circularReferences: CircularReferenceSolution[];
+  stats: RecalculationStats;
+}
+
+/**
+ * ワーカーからの応答（要求と同じidを付ける）
+ */
+export type FormulaWorkerResponse =
+  | { id: number; type: 'done' }
+  | ({ id: number; type: 'recalculated' } & FormulaWorkerRecalcResult)
+  | { id: number; type: 'values'; values: FormulaWorkerCellValue[] }
+  | { id: number; type: 'steps'; steps: FormulaEvaluationStep[]; error?: FormulaError }
+  | { id: number; type: 'cell-error'; error?: FormulaError }
+  | { id: number; type: 'conditional-formats'; formats: Map<string, ConditionalFormatResult> }
+  | { id: number; type: 'cancelled' }
+  | { id: number; type: 'error'; error: string };
+
+/**
+ * メッセージを送受信する相手（Web Worker・ワーカーのグローバルスコープ・MessagePortと同じ形）
+ */
+export interface FormulaWorkerEndpoint {
+  postMessage(message: any): void;
+  addEventListener(type: 'message', listener: (event: { data: any }) => void): void;
+  removeEventListener(type: 'message', listener: (event: { data: any }) => void): void;
+  terminate?(): void;
+}
+
+/**
+ * 要求を処理する前に、受信済みのメッセージ（取り消しなど）を受け取れるようにする
+ */
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+/**
+ * ワーカー側で要求を処理するホスト
+ * 要求は受け取った順に1件ずつ処理し、処理の合間に新しいメッセージを受け取る。
+ * 取り消しと、同じシートの新しい再計算の要求で置き換えられた再計算は、処理せずに取り消しを応答する
+ */
+export class FormulaWorkerHost {
+  private post: (response: FormulaWorkerResponse) => void;
+  private config: FormulaEngineConfig;
+  private engine: SpreadsheetFormulaEngine;
+  private recalculator: IncrementalRecalculator;
+  private workbook: Workbook;
+  private changedPositions: Map<string, CellPosition[]> = new Map();  // シートごとの前回の再計算から変更したセル
+  private engineChanges: Map<string, CellPosition[]> | undefined;     // 数式エンジンに未反映の変更（undefinedは全体）
+  private queue: FormulaWorkerRequest[] = [];
+  private processing: boolean = false;
+
+  constructor(post: (response: FormulaWorkerResponse) => void, config: FormulaEngineConfig = {}) {
+    this.post = post;
+    this.config = config;
+    this.engine = createFormulaEngine(config);
+    this.recalculator = this.engine.createIncrementalRecalculator();
+    this.workbook = createNewWorkbook(undefined, ['Sheet1']).workbook;
+  }
+
+  /**
+   * 要求を受け取る
+   */
+  receive(request: FormulaWorkerRequest): void {
+    if (request.type === 'cancel') {
+      this.cancelQueued(queued => queued.id === request.targetId);
+      return;
+    }
+    if (request.type === 'recalc') {
+      this.cancelQueued(queued => queued.type === 'recalc' && queued.sheetName === request.sheetName);
+    }
+
+    this.queue.push(request);
+    if (!this.processing) {
+      this.processing = true;
+      void this.processQueue();
+    }
+  }
+
+  /**
+   * 数式エンジンを破棄する
+   */
+  dispose(): void {
+    this.cancelQueued(() => true);
+    this.engine.destroy();
+  }
+
+  private cancelQueued(predicate: (request: FormulaWorkerRequest) => boolean): void {
+    this.queue = this.queue.filter(request => {
+      if (predicate(request)) {
+        this.post({ id: request.id, type: 'cancelled' });
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private async processQueue(): Promise<void> {
+    while (this.queue.length > 0) {
+      await yieldToEventLoop();
+      const request = this.queue.shift();
+      if (request) {
+        this.post(this.handle(request));
+      }
+    }
+    this.processing = false;
+  }
+
+  private handle(request: FormulaWorkerRequest): FormulaWorkerResponse {
+    try {
+      switch (request.type) {
+        case 'configure':
+          this.configure(request.plugins);
+          return { id: request.id, type: 'done' };
+        case 'set-workbook':
+          this.setWorkbook(request.workbook);
+          return { id: request.id, type: 'done' };
+        case 'set-cells':
+          this.setCells(request.cells, request.sheetName);
+          return { id: request.id, type: 'done' };
+        case 'recalc':
+          return { id: request.id, type: 'recalculated', ...this.recalculate(request.sheetName) };
+        case 'get-values':
+          return { id: request.id, type: 'values', values: this.getValues(request.positions, request.sheetName) };
+        case 'evaluate-steps': {
+          const result = this.evaluateFormulaSteps(request.formula, request.position, request.sheetName);
+          return { id: request.id, type: 'steps', ...result };
+        }
+        case 'get-error':
+          return { id: request.id, type: 'cell-error', error: this.getCellError(request.position, request.sheetName) };
+        case 'evaluate-conditional-formats': {
+          const sheet = this.getSheet(request.sheetName);
+          const formats = this.engine.evaluateConditionalFormats(sheet, { workbook: this.workbook });
+          return { id: request.id, type: 'conditional-formats', formats };
+        }
+        default:
+          return { id: request.id, type: 'error', error: '不明な要求です' };
+      }
+    } catch (error) {
+      return { id: request.id, type: 'error', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private configure(plugins: FormulaPluginDefinition[]): void {
+    this.engine.destroy();
+    // プラグインを実行するワーカーは登録時に作成し、次の要求の前にイベントループに戻る間に起動する
+    this.engine = createFormulaEngine({ ...this.config, plugins });
+    this.recalculator = this.engine.createIncrementalRecalculator();
+    this.engineChanges = undefined;
+    this.changedPositions.clear();
+  }
+
+  private setWorkbook(workbook: Workbook): void {
+    this.workbook = workbook;
+    // 再計算はワークブックの反復計算の設定で行う
+    this.engine.setIterativeCalculationSettings(getIterativeCalculationSettings(workbook));
+    this.recalculator.reset();
+    this.engineChanges = undefined;
+    this.changedPositions.clear();
+  }
+
+  private getSheet(sheetName?: string): Spreadsheet {
+    const sheet = sheetName === undefined
+      ? getActiveSheet(this.workbook)
+      : this.workbook.sheets.find(s => s.name === sheetName);
+    if (!sheet) {
+      throw new Error(`シート「${sheetName}」が見つかりません`);
+    }
+    return sheet;
+  }
+
+  private setCells(cells: FormulaWorkerCellInput[], sheetName?: string): void {
+    let sheet = this.getSheet(sheetName);
+    for (const { row, column, value } of cells) {
+      const result = setCellValue(sheet, { row, column }, value);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      sheet = result.spreadsheet;
+    }
+    this.workbook = updateSheet(this.workbook, sheet).workbook;
+
+    const positions = cells.map(({ row, column }) => ({ row, column }));
+    this.changedPositions.set(sheet.id, [...(this.changedPositions.get(sheet.id) ?? []), ...positions]);
+    this.engineChanges?.set(sheet.name, [...(this.engineChanges.get(sheet.name) ?? []), ...positions]);
+  }
+
+  private recalculate(sheetName?: string): FormulaWorkerRecalcResult {
+    const sheet = this.getSheet(sheetName);
+    const previous = this.workbook;
+    const report = this.recalculator.recalculate(sheet, this.changedPositions.get(sheet.id), { workbook: previous });
+    this.changedPositions.delete(sheet.id);
+    this.workbook = [report.spreadsheet, ...report.dependentSheets]
+      .reduce((workbook, updated) => updateSheet(workbook, updated).workbook, previous);
+
+    const getChanges = (updated: Spreadsheet): FormulaWorkerSheetChanges => {
+      const before = previous.sheets.find(s => s.id === updated.id)!;
+      return {
+        sheetName: updated.name,
+        cells: Array.from(updated.cells.entries())
+          .filter(([key, cell]) => before.cells.get(key) !== cell)
+          .map(([, cell]) => cell),
+        removedKeys: Array.from(before.cells.keys()).filter(key => !updated.cells.has(key)),
+      };
+    };
+
+    return {
+      ...getChanges(report.spreadsheet),
+      dependentSheets: report.dependentSheets.map(getChanges),
+      circularReferences: report.circularReferences,
+      stats: report.stats,
+    };
+  }
+
+  /**
+   * 数式を1段階ずつ評価する（位置は数式を入力したセル）
+   */
+  private evaluateFormulaSteps(
+    formula: string,
+    position: CellPosition,
+    sheetName?: string
+  ): { steps: FormulaEvaluationStep[]; error?: FormulaError } {
+    const sheet = this.getSheet(sheetName);
+    const context = createCalculationContext(sheet, {
+      workbook: this.workbook,
+      currentPosition: { ...position, sheetName: sheet.name },
+    });
+    const { steps, error } = this.engine.evaluateFormulaSteps(formula, context);
+    return { steps, ...(error ? { error } : {}) };
+  }
+
+  /**
+   * セルの数式を計算し直してエラーの詳細を求める（エラーでなければundefined）
+   */
+  private getCellError(position: CellPosition, sheetName?: string): FormulaError | undefined {
+    const sheet = this.getSheet(sheetName);
+    const context = createCalculationContext(sheet, {
+      workbook: this.workbook,
+      currentPosition: { ...position, sheetName: sheet.name },
+    });
+    return this.engine.calculateCellValue(position, context).error;
+  }
+
+  /**
+   * 数式エンジンに未反映の変更を反映して、セルの値を計算する
+   */
+  private getValues(positions: CellPosition[], sheetName?: string): FormulaWorkerCellValue[] {
+    const sheet = this.getSheet(sheetName);
+    if (!this.engineChanges) {
+      this.engine.setWorkbookData(this.workbook);
+    } else {
+      this.engineChanges.forEach((changed, name) => this.engine.setSpreadsheetData(this.getSheet(name), name, changed));
+    }
+    this.engineChanges = new Map();
+
+    return positions.map(({ row, column }) => {
+      const result = this.engine.calculateCell({ row, column }, sheet.name);
+      return {
+        row,
+        column,
+        value: result.value,
+        displayValue: result.displayValue ?? '',
+        ...(result.error ? { error: result.error } : {}),
+      };
+    });
+  }
+}
+
+/**
+ * ワーカーのメッセージの受け口にホストを接続する（ワーカーのエントリーから呼び出す）
+ */
+export function attachFormulaWorkerHost(
+  endpoint: FormulaWorkerEndpoint,
+  config?: FormulaEngineConfig
+): FormulaWorkerHost {
+  const host = new FormulaWorkerHost(response => endpoint.postMessage(response), config);
+  endpoint.addEventListener('message', event => host.receive(event.data));
+  return host;
+}
+
+/**
+ * クライアントが送る要求の内容（idはクライアントが付ける）
+ */
+type FormulaWorkerRequestBody<R = Exclude<FormulaWorkerRequest, { type: 'cancel' }>> =
+  R extends FormulaWorkerRequest ? Omit<R, 'id'> : never;
+
+/**
+ * 応答を待っている要求
+ */
+interface PendingRequest {
+  type: FormulaWorkerRequest['type'];
+  resolve: (response: FormulaWorkerResponse | null) => void;
+}
+
+/**
+ * メインスレッド側からワーカーに要求を送るクライアント
+ * 要求ごとにPromiseを返し、取り消した再計算はnullで完了する
+ */
+export class FormulaWorkerClient {
+  private endpoint: FormulaWorkerEndpoint;
+  private nextId: number = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  private listener = (event: { data: any }) => this.handleResponse(event.data as FormulaWorkerResponse);
+
+  constructor(endpoint: FormulaWorkerEndpoint) {
+    this.endpoint = endpoint;
+    this.endpoint.addEventListener('message', this.listener);
+  }
+
+  /**
+   * 関数のプラグインを設定する
+   */
+  async configure(plugins: FormulaPluginDefinition[]): Promise<void> {
+    await this.request({ type: 'configure', plugins });
+  }
+
+  /**
+   * ワークブック全体を設定する
+   */
+  async setWorkbook(workbook: Workbook): Promise<void> {
+    await this.request({ type: 'set-workbook', workbook });
+  }
+
+  /**
+   * シートのセルの値を設定する（シート名を省略した場合はアクティブシート）
+   */
+  async setCells(cells: FormulaWorkerCellInput[], sheetName?: string): Promise<void> {
+    await this.request({ type: 'set-cells', sheetName, cells });
+  }
+
+  /**
+   * シートを再計算する（取り消された場合はnull）
+   */
+  async recalc(sheetName?: string): Promise<FormulaWorkerRecalcResult | null> {
+    const response = await this.request({ type: 'recalc', sheetName });
+    if (!response || response.type !== 'recalculated') {
+      return null;
+    }
+    const { id, type, ...result } = response;
+    return result;
+  }
+
+  /**
+   * 数式エンジンでセルの値を計算する
+   */
+  async getValues(positions: CellPosition[], sheetName?: string): Promise<FormulaWorkerCellValue[]> {
+    const response = await this.request({ type: 'get-values', sheetName, positions });
+    return response?.type === 'values' ? response.values : [];
+  }
+
+  /**
+   * 数式を1段階ずつ評価する（位置は数式を入力したセル、シート名を省略した場合はアクティブシート）
+   */
+  async evaluateFormulaSteps(
+    formula: string,
+    position: CellPosition,
+    sheetName?: string
+  ): Promise<{ steps: FormulaEvaluationStep[]; error?: FormulaError }> {
+    const response = await this.request({ type: 'evaluate-steps', sheetName, position, formula });
+    return response?.type === 'steps' ? { steps: response.steps, error: response.error } : { steps: [] };
+  }
+
+  /**
+   * セルの数式のエラーの詳細を取得する（エラーでなければundefined）
+   */
+  async getCellError(position: CellPosition, sheetName?: string): Promise<FormulaError | undefined> {
+    const response = await this.request({ type: 'get-error', sheetName, position });
+    return response?.type === 'cell-error' ? response.error : undefined;
+  }
+
+  /**
+   * シートの条件付き書式を評価する（キーはセルのキー）
+   */
+  async evaluateConditionalFormats(sheetName?: string): Promise<Map<string, ConditionalFormatResult>> {
+    const response = await this.request({ type: 'evaluate-conditional-formats', sheetName });
+    return response?.type === 'conditional-formats' ? response.formats : new Map();
+  }
+
+  /**
+   * 応答を待っている再計算を取り消す（処理中の再計算は完了を待つ）
+   */
+  cancel(): void {
+    this.pending.forEach((request, id) => {
+      if (request.type === 'recalc') {
+        this.endpoint.postMessage({ id: this.nextId++, type: 'cancel', targetId: id });
+      }
+    });
+  }
+
+  /**
+   * 応答を待っている再計算があるかどうか
+   */
+  isRecalculating(): boolean {
+    return Array.from(this.pending.values()).some(request => request.type === 'recalc');
+  }
+
+  /**
+   * 応答の待機をやめてワーカーを終了する（応答を待っている要求はnullで完了する）
+   */
+  dispose(): void {
+    this.endpoint.removeEventListener('message', this.listener);
+    this.pending.forEach(request => request.resolve(null));
+    this.pending.clear();
+    this.endpoint.terminate?.();
+  }
+
+  private request(request: FormulaWorkerRequestBody): Promise<FormulaWorkerResponse | null> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, {
+        type: request.type,
+        resolve: response => response?.type === 'error' ? reject(new Error(response.error)) : resolve(response),
+      });
+      this.endpoint.postMessage({ ...request, id });
+    });
+  }
+
+  private handleResponse(response: FormulaWorkerResponse): void {
+    const request = this.pending.get(response.id);
+    if (request) {
+      this.pending.delete(response.id);
+      request.resolve(response.type === 'cancelled' ? null : response);
+    }
+  }
+}
+
+/**
+ * ワーカーに要求を送るクライアントを作成する
+ */
+export function createFormulaWorkerClient(endpoint: FormulaWorkerEndpoint): FormulaWorkerClient {
+  return new FormulaWorkerClient(endpoint);
+}
+
+/**
+ * ワーカーの再計算の結果をシートに反映する
+ * 要求を送った後に入力が変わったセル（入力された値が異なるセル）は、後の再計算の結果で更新するため変更しない
+ */
+export function applyFormulaWorkerResult(spreadsheet: Spreadsheet, result: FormulaWorkerSheetChanges): Spreadsheet {
+  const cells = new Map(spreadsheet.cells);
+  const isUnchangedInput = (key: string, rawValue: string) => (cells.get(key)?.rawValue ?? '') === rawValue;
+
+  result.removedKeys.forEach(key => {
+    if (isUnchangedInput(key, '')) {
+      cells.delete(key);
+    }
+  });
+  result.cells.forEach(cell => {
+    const key = cellPositionToKey(cell.position);
+    if (isUnchangedInput(key, cell.rawValue)) {
+      cells.set(key, cell);
+    }
+  });
+  return { ...spreadsheet, cells };
+}
+
+/**
+ * 再計算の結果を受け取るまで前回の値を表示するセル（数式のセルと配列の展開先のセル）のキー
+ */
+export function getPendingCellKeys(spreadsheet: Spreadsheet): Set<string> {
+  const keys = new Set<string>();
+  spreadsheet.cells.forEach((cell, key) => {
+    if (cell.rawValue.startsWith('=') || cell.spillAnchor !== undefined) {
+      keys.add(key);
+    }
+  });
+  return keys;
+}
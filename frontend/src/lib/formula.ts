@@ -3,7 +3,10 @@
  * セルに入力される数式。参照セル、演算子、関数名を持つ
  */
 
-import { CellPosition, cellPositionToA1Notation, a1NotationToCellPosition } from './cell';
+import { CellPosition, SheetCellPosition, cellPositionToA1Notation, a1NotationToCellPosition } from './cell';
+import { NamedRange, findNamedRange, isLambdaDefinition } from './named-range';
+import { indexToColumnHeader, columnHeaderToIndex } from './column';
+import { FormulaLocale, delocalizeFunctionName } from './formula-engine/locale';
 
 export enum FormulaOperator {
   ADD = '+',
@@ -17,6 +20,8 @@ export enum FormulaOperator {
   LESS_THAN_OR_EQUAL = '<=',
   GREATER_THAN = '>',
   GREATER_THAN_OR_EQUAL = '>=',
+  CONCATENATE = '&',
+  PERCENT = '%',
 }
 
 export enum FormulaFunction {
@@ -38,8 +43,27 @@ export enum FormulaFunction {
   LOWER = 'LOWER',
   TODAY = 'TODAY',
   NOW = 'NOW',
+  VLOOKUP = 'VLOOKUP',
+  HLOOKUP = 'HLOOKUP',
+  XLOOKUP = 'XLOOKUP',
+  INDEX = 'INDEX',
+  MATCH = 'MATCH',
+  XMATCH = 'XMATCH',
+  OFFSET = 'OFFSET',
+  INDIRECT = 'INDIRECT',
+  CHOOSE = 'CHOOSE',
+  ROW = 'ROW',
+  COLUMN = 'COLUMN',
+  ROWS = 'ROWS',
+  COLUMNS = 'COLUMNS',
 }
 
+/**
+ * 揮発性関数（参照先が変わらなくても再計算のたびに結果が変わりうる関数）
+ * OFFSET・INDIRECTは参照先を計算時に決めるため、依存関係を静的に求められない
+ */
+export const VOLATILE_FUNCTIONS: readonly string[] = ['NOW', 'TODAY', 'RAND', 'RANDBETWEEN', 'RANDARRAY', 'OFFSET', 'INDIRECT'];
+
 export interface CellReference {
   position: CellPosition;
   isAbsolute: {
@@ -47,16 +71,19 @@ export interface CellReference {
     column: boolean;
   };
   a1Notation: string;
+  sheetName?: string;
 }
 
 export interface CellRange {
   start: CellPosition;
   end: CellPosition;
   a1Notation: string;
+  sheetName?: string;
 }
 
 export interface FormulaToken {
-  type: 'number' | 'string' | 'boolean' | 'cell_reference' | 'cell_range' | 'function' | 'operator' | 'parenthesis';
+  type: 'number' | 'string' | 'boolean' | 'error' | 'cell_reference' | 'cell_range' | 'spill_reference' | 'name' | 'function' |
+    'operator' | 'parenthesis' | 'separator';
   value: string;
   position?: number;
 }
@@ -67,37 +94,121 @@ export interface ParsedFormula {
   cellReferences: CellReference[];
   cellRanges: CellRange[];
   functions: FormulaFunction[];
+  names: string[];        // 数式中で使用されている名前（未定義のものを含む）
   hasCircularReference: boolean;
-  dependencies: CellPosition[];
+  dependencies: SheetCellPosition[];
+}
+
+export interface ParseFormulaOptions {
+  names?: NamedRange[];   // 解決に使用する名前付き範囲
+  sheetName?: string;     // 数式があるシート（シートスコープの名前の解決に使用）
+  locale?: FormulaLocale; // 入力した数式の言語（省略時は保存する数式の形式）
+}
+
+/**
+ * 行・列の挿入・削除・移動の内容（参照の書き換えに使用）
+ */
+export interface GridChange {
+  axis: 'row' | 'column';
+  operation: 'insert' | 'delete' | 'move';
+  index: number;          // 挿入・削除の開始位置、移動元の位置
+  count: number;          // 挿入・削除する数（移動は1）
+  toIndex?: number;       // 移動先の位置
+  sheetName?: string;     // 操作したシート（省略時はシート修飾のない参照のみが対象）
+}
+
+export interface GridSize {
+  rowCount: number;
+  columnCount: number;
 }
 
 export interface FormulaError {
-  type: 'SYNTAX_ERROR' | 'CIRCULAR_REFERENCE' | 'INVALID_REFERENCE' | 'DIVISION_BY_ZERO' | 'VALUE_ERROR' | 'NAME_ERROR';
+  type: 'SYNTAX_ERROR' | 'CIRCULAR_REFERENCE' | 'INVALID_REFERENCE' | 'DIVISION_BY_ZERO' | 'VALUE_ERROR' | 'NAME_ERROR' |
+    'NUM_ERROR' | 'NOT_AVAILABLE' | 'NULL_ERROR' | 'ARRAY_FORMULA_ERROR' | 'CALCULATION_DEPTH_EXCEEDED';
   message: string;
   position?: number;
+  code?: string;                          // エラー値（#DIV/0! など）
+  span?: { start: number; end: number };  // エラーの原因となった数式の部分（先頭の=を含む数式の位置。endの位置は含まない）
+  source?: SheetCellPosition;             // エラー値を返した参照先のセル
+  suggestion?: string;                    // 修正の提案
 }
 
 export interface FormulaResult {
   value: string | number | boolean | Date;
   displayValue: string;
+  numberFormat?: string;  // 日付・時刻の結果の表示形式（yyyy/m/d など）
+  arrayValue?: any[][];   // 結果が複数のセルからなる配列の場合の全体（valueは左上の値）
   error?: FormulaError;
   dependencies: CellPosition[];
 }
 
+/**
+ * セル参照の記法（$A$1, A1, $A1, A$1）
+ */
+const CELL_REFERENCE_PATTERN = /^(\$?)([A-Z]+)(\$?)(\d+)$/;
+
+/**
+ * 大文字小文字を区別しないセル参照の記法（数式の書き換えに使用）
+ */
+const CELL_REFERENCE_PATTERN_IGNORE_CASE = /^(\$?)([A-Za-z]+)(\$?)(\d+)$/;
+
+/**
+ * シート名で修飾された参照（Sheet2!A1, 'My Sheet'!B2:C9）
+ */
+const SHEET_QUALIFIED_PATTERN = /^(?:'((?:[^']|'')+)'|([^'!\s]+))!(.+)$/;
+
+/**
+ * セル参照と紛らわしいシート名（列はXFDまでの3文字以内）
+ */
+const CELL_LIKE_SHEET_NAME_PATTERN = /^[A-Z]{1,3}\d+$/;
+
+/**
+ * 引用符なしで記述できるシート名
+ */
+const UNQUOTED_SHEET_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_.]*$/;
+
+/**
+ * エラー値リテラル（#REF!, #DIV/0! など）
+ */
+const ERROR_LITERAL_PATTERN = /^#(?:NULL!|DIV\/0!|VALUE!|REF!|NAME\?|NUM!|N\/A|SPILL!|CALC!)/i;
+
+/**
+ * 指数表記の途中（1E+3 の 1E など）の数値
+ */
+const EXPONENT_PREFIX_PATTERN = /^(?:\d+\.?\d*|\.\d+)[eE]$/;
+
+/**
+ * 数式中のセル参照・セル範囲を検出するパターン（先頭一致、シート修飾は任意）
+ * 直後に識別子の文字や括弧が続くもの（LOG10( など）は参照として扱わない
+ */
+const REFERENCE_SCAN_PATTERN = /^(?:(?:'((?:[^']|'')+)'|([A-Za-z_\u00C0-\uFFFF][A-Za-z0-9_.\u00C0-\uFFFF]*))!)?(\$?[A-Za-z]{1,3}\$?\d+(?::\$?[A-Za-z]{1,3}\$?\d+)?)(?![A-Za-z0-9_.(\u00C0-\uFFFF])/;
+
+/**
+ * 識別子（関数名・名前）のパターン
+ */
+const IDENTIFIER_PATTERN = /^[A-Za-z_\\\u00C0-\uFFFF][A-Za-z0-9_.\u00C0-\uFFFF]*$/;
+
 /**
  * 数式を解析する関数
  */
-export function parseFormula(formula: string): ParsedFormula {
+export function parseFormula(formula: string, options: ParseFormulaOptions = {}): ParsedFormula {
   if (!formula.startsWith('=')) {
     throw new Error('数式は=で始まる必要があります');
   }
 
   const formulaBody = formula.slice(1); // =を除去
-  const tokens = tokenizeFormula(formulaBody);
+  const rawTokens = tokenizeFormula(formulaBody, options.locale);
+  const localNames = extractLocalNames(rawTokens);
+  const names = extractNames(rawTokens).filter(name => !localNames.has(name.toLowerCase()));
+
+  // 名前は参照先の式のトークンに展開する
+  const tokens = options.names && options.names.length > 0
+    ? resolveNameTokens(rawTokens, options.names, options.sheetName)
+    : rawTokens;
   const cellReferences = extractCellReferences(tokens);
   const cellRanges = extractCellRanges(tokens);
   const functions = extractFunctions(tokens);
-  const dependencies = [...cellReferences.map(ref => ref.position)];
+  const dependencies = cellReferences.map(referenceToPosition);
 
   // 循環参照チェック（簡易版）
   const hasCircularReference = false; // 実装は簡素化
@@ -108,6 +219,7 @@ export function parseFormula(formula: string): ParsedFormula {
     cellReferences,
     cellRanges,
     functions,
+    names,
     hasCircularReference,
     dependencies,
   };
@@ -115,15 +227,45 @@ export function parseFormula(formula: string): ParsedFormula {
 
 /**
  * 数式をトークンに分解する関数
+ * 言語を指定した場合は、その言語の区切り文字・小数点・関数名を読み取り、トークンの値は保存する数式の形式にする
+ * （トークンの位置は入力した数式の位置）
  */
-export function tokenizeFormula(formula: string): FormulaToken[] {
+export function tokenizeFormula(formula: string, locale?: FormulaLocale): FormulaToken[] {
   const tokens: FormulaToken[] = [];
+  const argumentSeparator = locale?.argumentSeparator ?? ',';
+  const decimalSeparator = locale?.decimalSeparator ?? '.';
   let current = '';
   let i = 0;
 
   while (i < formula.length) {
     const char = formula[i];
 
+    // 文字列リテラル（""はエスケープされたダブルクォート）
+    if (char === '"' && !current) {
+      const end = findClosingQuote(formula, i, '"');
+      tokens.push({ type: 'string', value: formula.slice(i + 1, end).replace(/""/g, '"'), position: i });
+      i = end + 1;
+      continue;
+    }
+
+    // 引用符で囲まれたシート名（'My Sheet'!A1）は空白や演算子を含んでも1つのトークンとして扱う
+    if (char === "'") {
+      const end = findClosingQuote(formula, i, "'");
+      current += formula.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    // エラー値リテラル
+    if (char === '#' && !current) {
+      const match = formula.slice(i).match(ERROR_LITERAL_PATTERN);
+      if (match) {
+        tokens.push({ type: 'error', value: match[0].toUpperCase(), position: i });
+        i += match[0].length;
+        continue;
+      }
+    }
+
     if (char === ' ') {
       if (current) {
         tokens.push(createToken(current, i - current.length));
@@ -133,19 +275,45 @@ export function tokenizeFormula(formula: string): FormulaToken[] {
       continue;
     }
 
+    // 指数表記の符号は数値の一部として扱う
+    if ((char === '+' || char === '-') && EXPONENT_PREFIX_PATTERN.test(current)) {
+      current += char;
+      i++;
+      continue;
+    }
+
     if (isOperator(char)) {
       if (current) {
         tokens.push(createToken(current, i - current.length));
         current = '';
       }
-      tokens.push({ type: 'operator', value: char, position: i });
+      // 2文字の比較演算子（<>, <=, >=）
+      const twoCharOperator = formula.slice(i, i + 2);
+      const operator = twoCharOperator === '<>' || twoCharOperator === '<=' || twoCharOperator === '>='
+        ? twoCharOperator
+        : char;
+      tokens.push({ type: 'operator', value: operator, position: i });
+      i += operator.length;
+      continue;
+    }
+
+    // 引数の区切り
+    if (char === argumentSeparator) {
+      if (current) {
+        tokens.push(createToken(current, i - current.length));
+        current = '';
+      }
+      tokens.push({ type: 'separator', value: ',', position: i });
       i++;
       continue;
     }
 
     if (char === '(' || char === ')') {
       if (current) {
-        tokens.push(createToken(current, i - current.length));
+        // 括弧の直前の識別子は関数名として扱う
+        tokens.push(char === '(' && IDENTIFIER_PATTERN.test(current)
+          ? { type: 'function', value: locale ? delocalizeFunctionName(current, locale) : current.toUpperCase(), position: i - current.length }
+          : createToken(current, i - current.length));
         current = '';
       }
       tokens.push({ type: 'parenthesis', value: char, position: i });
@@ -153,6 +321,13 @@ export function tokenizeFormula(formula: string): FormulaToken[] {
       continue;
     }
 
+    // 言語の小数点（1,5 など）は「.」として読み取る（文字数は変わらない）
+    if (char === decimalSeparator && char !== '.' && /^\d*$/.test(current) && /\d/.test(formula[i + 1] ?? '')) {
+      current += '.';
+      i++;
+      continue;
+    }
+
     current += char;
     i++;
   }
@@ -164,6 +339,24 @@ export function tokenizeFormula(formula: string): FormulaToken[] {
   return tokens;
 }
 
+/**
+ * 閉じ引用符の位置を取得する関数（引用符の重ね書きはエスケープとして扱う）
+ */
+function findClosingQuote(formula: string, start: number, quote: string): number {
+  let i = start + 1;
+  while (i < formula.length) {
+    if (formula[i] === quote) {
+      if (formula[i + 1] === quote) {
+        i += 2;
+        continue;
+      }
+      return i;
+    }
+    i++;
+  }
+  return formula.length;
+}
+
 /**
  * トークンを作成する関数
  */
@@ -193,15 +386,110 @@ function createToken(value: string, position: number): FormulaToken {
     return { type: 'cell_reference', value, position };
   }
 
+  // スピル範囲の参照の判定（A1#）
+  if (value.endsWith('#') && isCellReferenceNotation(value.slice(0, -1))) {
+    return { type: 'spill_reference', value, position };
+  }
+
   // 関数の判定
   if (Object.values(FormulaFunction).includes(value.toUpperCase() as FormulaFunction)) {
     return { type: 'function', value: value.toUpperCase(), position };
   }
 
+  // 識別子は名前として扱う
+  if (IDENTIFIER_PATTERN.test(value)) {
+    return { type: 'name', value, position };
+  }
+
   // デフォルトは文字列として扱う
   return { type: 'string', value, position };
 }
 
+/**
+ * LET・LAMBDAの引数で定義されている名前を取得する関数（小文字）
+ */
+function extractLocalNames(tokens: FormulaToken[]): Set<string> {
+  const localNames = new Set<string>();
+
+  tokens.forEach((token, index) => {
+    if (token.type !== 'function' || (token.value !== 'LET' && token.value !== 'LAMBDA') || tokens[index + 1]?.value !== '(') {
+      return;
+    }
+
+    // 括弧内のトークンを引数ごとに分ける
+    const args: FormulaToken[][] = [[]];
+    let depth = 0;
+    for (const argumentToken of tokens.slice(index + 2)) {
+      if (argumentToken.type === 'parenthesis') {
+        if (argumentToken.value === ')' && depth === 0) break;
+        depth += argumentToken.value === '(' ? 1 : -1;
+      }
+      if (argumentToken.type === 'separator' && depth === 0) {
+        args.push([]);
+      } else {
+        args[args.length - 1].push(argumentToken);
+      }
+    }
+
+    // LETは名前と値の組、LAMBDAは最後の計算式以外の引数が名前
+    const definitions = args.slice(0, -1).filter((_, i) => token.value === 'LAMBDA' || i % 2 === 0);
+    for (const definition of definitions) {
+      if (definition.length === 1 && (definition[0].type === 'name' || definition[0].type === 'function')) {
+        localNames.add(definition[0].value.toLowerCase());
+      }
+    }
+  });
+
+  return localNames;
+}
+
+/**
+ * 名前トークンを参照先の式のトークンに展開する関数
+ * LAMBDAで定義した名前は関数として呼び出す箇所も展開する（LAMBDA(x, x*2)(3) の形になる）。
+ * 未定義の名前、循環している名前、LET・LAMBDAで定義された名前は名前トークンのまま残す
+ */
+function resolveNameTokens(
+  tokens: FormulaToken[],
+  names: NamedRange[],
+  sheetName?: string,
+  resolving: Set<string> = new Set()
+): FormulaToken[] {
+  const resolved: FormulaToken[] = [];
+  const localNames = extractLocalNames(tokens);
+
+  for (const [index, token] of tokens.entries()) {
+    const isLambdaCall = token.type === 'function' && tokens[index + 1]?.value === '(';
+    const namedRange = (token.type === 'name' || isLambdaCall) && !localNames.has(token.value.toLowerCase())
+      ? findNamedRange(names, token.value, sheetName)
+      : undefined;
+    const key = namedRange ? `${namedRange.scope ?? ''}!${namedRange.name}`.toLowerCase() : '';
+
+    if (!namedRange || resolving.has(key) || (isLambdaCall && !isLambdaDefinition(namedRange.refersTo))) {
+      resolved.push(token);
+      continue;
+    }
+
+    const expression = namedRange.refersTo.replace(/^=/, '');
+    const expanded = resolveNameTokens(
+      tokenizeFormula(expression),
+      names,
+      sheetName,
+      new Set(resolving).add(key)
+    ).map(expandedToken => ({ ...expandedToken, position: token.position }));
+
+    // 複数トークンからなる式は演算の優先順位を保つため括弧で囲む
+    if (expanded.length > 1) {
+      resolved.push({ type: 'parenthesis', value: '(', position: token.position });
+      resolved.push(...expanded);
+      resolved.push({ type: 'parenthesis', value: ')', position: token.position });
+    } else {
+      resolved.push(...expanded);
+    }
+  }
+
+  return resolved;
+}
+
 /**
  * 演算子かどうかを判定する関数
  */
@@ -213,26 +501,300 @@ function isOperator(char: string): boolean {
  * セル参照記法かどうかを判定する関数
  */
 function isCellReferenceNotation(value: string): boolean {
-  // $A$1, A1, $A1, A$1 のパターンをサポート
-  const pattern = /^\$?[A-Z]+\$?\d+$/;
-  return pattern.test(value);
+  // $A$1, A1, $A1, A$1 のパターンをシート名の修飾付きでもサポート
+  const { reference } = splitSheetQualifier(value);
+  return CELL_REFERENCE_PATTERN.test(reference);
 }
 
 /**
  * セル範囲記法かどうかを判定する関数
  */
 function isCellRangeNotation(value: string): boolean {
-  const parts = value.split(':');
-  return parts.length === 2 && parts.every(part => isCellReferenceNotation(part));
+  const { reference } = splitSheetQualifier(value);
+  const parts = reference.split(':');
+  return parts.length === 2 && parts.every(part => CELL_REFERENCE_PATTERN.test(part));
 }
 
 /**
- * トークンからセル参照を抽出する関数
+ * シート名で修飾された参照をシート名と参照部分に分割する関数
+ */
+export function splitSheetQualifier(value: string): { sheetName?: string; reference: string } {
+  const match = value.match(SHEET_QUALIFIED_PATTERN);
+  if (!match) {
+    return { reference: value };
+  }
+
+  const sheetName = match[1] !== undefined ? match[1].replace(/''/g, "'") : match[2];
+  return { sheetName, reference: match[3] };
+}
+
+/**
+ * 数式中で使用する形式にシート名を変換する関数（必要に応じて引用符で囲む）
+ */
+export function formatSheetName(sheetName: string): string {
+  const needsQuote = !UNQUOTED_SHEET_NAME_PATTERN.test(sheetName) ||
+    CELL_LIKE_SHEET_NAME_PATTERN.test(sheetName.toUpperCase()) ||
+    ['TRUE', 'FALSE'].includes(sheetName.toUpperCase());
+
+  return needsQuote ? `'${sheetName.replace(/'/g, "''")}'` : sheetName;
+}
+
+/**
+ * 数式中のセル参照・セル範囲を書き換える関数
+ * transformは参照部分（$A$1, A1:B2）、シート名（修飾がない場合はundefined）、元のシート修飾部分（Sheet2! など）を受け取り、
+ * シート修飾を含む置き換え後の文字列を返す（nullの場合は変更しない）。文字列リテラル内は書き換えない
+ */
+export function rewriteReferences(
+  formula: string,
+  transform: (reference: string, sheetName: string | undefined, qualifier: string) => string | null
+): string {
+  let result = '';
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    // 文字列リテラルはそのまま残す
+    if (char === '"') {
+      const end = findClosingQuote(formula, i, '"');
+      result += formula.slice(i, end + 1);
+      i = end + 1;
+      continue;
+    }
+
+    // 識別子の途中から一致させないよう、直前の文字を確認する
+    const previous = i > 0 ? formula[i - 1] : '';
+    if (!/[A-Za-z0-9_.$\u00C0-\uFFFF]/.test(previous)) {
+      const match = formula.slice(i).match(REFERENCE_SCAN_PATTERN);
+      if (match) {
+        const sheetName = match[1] !== undefined ? match[1].replace(/''/g, "'") : match[2];
+        const qualifier = match[0].slice(0, match[0].length - match[3].length);
+        const replacement = transform(match[3], sheetName, qualifier);
+        result += replacement ?? match[0];
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    result += char;
+    i++;
+  }
+
+  return result;
+}
+
+/**
+ * 数式中のシート修飾参照を書き換える関数
+ * transformはシート名と参照部分（A1, A1:B2）を受け取り、置き換え後の文字列を返す（nullの場合は変更しない）
+ */
+export function rewriteSheetReferences(
+  formula: string,
+  transform: (sheetName: string, reference: string) => string | null
+): string {
+  return rewriteReferences(formula, (reference, sheetName) =>
+    sheetName === undefined ? null : transform(sheetName, reference)
+  );
+}
+
+/**
+ * シート名の変更に合わせて数式中の参照を書き換える関数
+ */
+export function renameSheetInFormula(formula: string, oldName: string, newName: string): string {
+  const normalizedOldName = oldName.toLowerCase();
+  return rewriteSheetReferences(formula, (sheetName, reference) =>
+    sheetName.toLowerCase() === normalizedOldName ? `${formatSheetName(newName)}!${reference}` : null
+  );
+}
+
+/**
+ * 削除されたシートへの参照を#REF!に置き換える関数
+ */
+export function invalidateSheetInFormula(formula: string, deletedSheetName: string): string {
+  const normalizedName = deletedSheetName.toLowerCase();
+  return rewriteSheetReferences(formula, sheetName =>
+    sheetName.toLowerCase() === normalizedName ? '#REF!' : null
+  );
+}
+
+/**
+ * 行・列の操作後のインデックスを求める（削除された場合はnull）
+ */
+function shiftGridIndex(value: number, change: GridChange): number | null {
+  const { index, count } = change;
+
+  switch (change.operation) {
+    case 'insert':
+      return value >= index ? value + count : value;
+    case 'delete':
+      if (value < index) return value;
+      return value >= index + count ? value - count : null;
+    case 'move': {
+      const toIndex = change.toIndex ?? index;
+      if (value === index) return toIndex;
+      if (index < toIndex && value > index && value <= toIndex) return value - 1;
+      if (index > toIndex && value < index && value >= toIndex) return value + 1;
+      return value;
+    }
+  }
+}
+
+/**
+ * 範囲の始点・終点を行・列の操作に合わせて移動する（範囲全体が削除された場合はnull）
+ * 削除では範囲が縮み、範囲の途中への挿入では範囲が広がる。範囲内での移動では範囲は変わらない
+ */
+function shiftGridSpan(start: number, end: number, change: GridChange): [number, number] | null {
+  if (change.operation === 'delete') {
+    const deleteEnd = change.index + change.count - 1;
+    if (start >= change.index && end <= deleteEnd) {
+      return null;
+    }
+
+    const newStart = start < change.index ? start : start > deleteEnd ? start - change.count : change.index;
+    const newEnd = end < change.index ? end : end > deleteEnd ? end - change.count : change.index - 1;
+    return [newStart, newEnd];
+  }
+
+  // 範囲内での移動は範囲を変えない
+  if (change.operation === 'move') {
+    const toIndex = change.toIndex ?? change.index;
+    if (change.index >= start && change.index <= end && toIndex >= start && toIndex <= end) {
+      return [start, end];
+    }
+  }
+
+  const newStart = shiftGridIndex(start, change)!;
+  const newEnd = shiftGridIndex(end, change)!;
+  return newStart <= newEnd ? [newStart, newEnd] : [newEnd, newStart];
+}
+
+/**
+ * 行・列の挿入・削除・移動に合わせて数式中の参照を書き換える関数
+ * 絶対参照・相対参照のどちらも参照先のセルに追従し、$記号はそのまま保持する。削除されたセルへの参照は#REF!になる
+ * formulaSheetNameは数式があるシート（シート修飾のない参照の解決に使用）
+ */
+export function adjustReferencesForGridChange(
+  formula: string,
+  change: GridChange,
+  formulaSheetName?: string
+): string {
+  const changedSheet = change.sheetName?.toLowerCase();
+
+  return rewriteReferences(formula, (reference, sheetName, qualifier) => {
+    const targetSheet = (sheetName ?? formulaSheetName)?.toLowerCase();
+    if (changedSheet === undefined ? sheetName !== undefined : targetSheet !== changedSheet) {
+      return null;
+    }
+
+    const parts = reference.split(':').map(part => part.match(CELL_REFERENCE_PATTERN_IGNORE_CASE)!);
+    const indexes = parts.map(([, , columnLabel, , rowNumber]) =>
+      change.axis === 'row' ? parseInt(rowNumber, 10) - 1 : columnHeaderToIndex(columnLabel)
+    );
+
+    let shifted: number[];
+    if (indexes.length === 1) {
+      const newIndex = shiftGridIndex(indexes[0], change);
+      if (newIndex === null) return '#REF!';
+      shifted = [newIndex];
+    } else {
+      const span = shiftGridSpan(Math.min(indexes[0], indexes[1]), Math.max(indexes[0], indexes[1]), change);
+      if (span === null) return '#REF!';
+      shifted = indexes[0] <= indexes[1] ? span : [span[1], span[0]];
+    }
+
+    if (shifted.every((value, i) => value === indexes[i])) {
+      return null;
+    }
+
+    const rewritten = parts.map(([, columnAnchor, columnLabel, rowAnchor, rowNumber], i) =>
+      change.axis === 'row'
+        ? `${columnAnchor}${columnLabel}${rowAnchor}${shifted[i] + 1}`
+        : `${columnAnchor}${indexToColumnHeader(shifted[i])}${rowAnchor}${rowNumber}`
+    );
+    return `${qualifier}${rewritten.join(':')}`;
+  });
+}
+
+/**
+ * 数式を別のセルに複写する際に相対参照をずらす関数（コピー＆ペースト・オートフィル）
+ * $記号で固定された行・列はずらさない。ずらした結果がグリッドの外に出る参照は#REF!になる
+ */
+export function offsetFormulaReferences(
+  formula: string,
+  rowOffset: number,
+  columnOffset: number,
+  gridSize?: GridSize
+): string {
+  if (!formula.startsWith('=') || (rowOffset === 0 && columnOffset === 0)) {
+    return formula;
+  }
+
+  return rewriteReferences(formula, (reference, _sheetName, qualifier) => {
+    const parts = reference.split(':').map(part => parseCellReference(part.toUpperCase()));
+
+    const shifted = parts.map(({ position, isAbsolute }) => ({
+      row: isAbsolute.row ? position.row : position.row + rowOffset,
+      column: isAbsolute.column ? position.column : position.column + columnOffset,
+    }));
+
+    const outOfGrid = shifted.some(({ row, column }) =>
+      row < 0 || column < 0 ||
+      (gridSize !== undefined && (row >= gridSize.rowCount || column >= gridSize.columnCount))
+    );
+    if (outOfGrid) {
+      return '#REF!';
+    }
+
+    const rewritten = parts.map(({ isAbsolute }, i) =>
+      `${isAbsolute.column ? '$' : ''}${indexToColumnHeader(shifted[i].column)}${isAbsolute.row ? '$' : ''}${shifted[i].row + 1}`
+    );
+    return `${qualifier}${rewritten.join(':')}`;
+  });
+}
+
+/**
+ * 名前の変更に合わせて数式中の名前を書き換える関数（大文字小文字を区別しない）
+ */
+export function renameNameInFormula(formula: string, oldName: string, newName: string): string {
+  if (!formula.startsWith('=')) {
+    return formula;
+  }
+
+  const normalizedOldName = oldName.toLowerCase();
+  let body = formula.slice(1);
+
+  // 後ろから置き換えてトークンの位置がずれないようにする（LAMBDAで定義した名前は関数の呼び出しも対象）
+  const tokens = tokenizeFormula(body);
+  const localNames = extractLocalNames(tokens);
+  const targets = tokens
+    .filter((token, index) =>
+      (token.type === 'name' || (token.type === 'function' && tokens[index + 1]?.value === '(')) &&
+      token.value.toLowerCase() === normalizedOldName &&
+      !localNames.has(normalizedOldName))
+    .reverse();
+  for (const token of targets) {
+    const position = token.position!;
+    body = body.slice(0, position) + newName + body.slice(position + token.value.length);
+  }
+
+  return `=${body}`;
+}
+
+/**
+ * セル参照をシート名付きのセル座標に変換する関数
+ */
+function referenceToPosition(reference: CellReference): SheetCellPosition {
+  return reference.sheetName !== undefined
+    ? { ...reference.position, sheetName: reference.sheetName }
+    : reference.position;
+}
+
+/**
+ * トークンからセル参照を抽出する関数（スピル範囲の参照は数式のセルへの参照として扱う）
  */
 function extractCellReferences(tokens: FormulaToken[]): CellReference[] {
   return tokens
-    .filter(token => token.type === 'cell_reference')
-    .map(token => parseCellReference(token.value));
+    .filter(token => token.type === 'cell_reference' || token.type === 'spill_reference')
+    .map(token => parseCellReference(token.type === 'spill_reference' ? token.value.slice(0, -1) : token.value));
 }
 
 /**
@@ -253,155 +815,71 @@ function extractFunctions(tokens: FormulaToken[]): FormulaFunction[] {
     .map(token => token.value as FormulaFunction);
 }
 
+/**
+ * 揮発性関数を含む数式かどうかを判定する関数
+ */
+export function isVolatileFormula(parsed: ParsedFormula): boolean {
+  return parsed.tokens.some(token =>
+    token.type === 'function' && VOLATILE_FUNCTIONS.includes(token.value.toUpperCase()));
+}
+
+/**
+ * トークンから名前を抽出する関数（重複は除く）
+ */
+function extractNames(tokens: FormulaToken[]): string[] {
+  const names: string[] = [];
+  for (const token of tokens) {
+    if (token.type === 'name' && !names.some(name => name.toLowerCase() === token.value.toLowerCase())) {
+      names.push(token.value);
+    }
+  }
+  return names;
+}
+
 /**
  * セル参照文字列を解析する関数
  */
-function parseCellReference(reference: string): CellReference {
-  const isAbsoluteRow = reference.includes('$') && reference.split('$').length === 3;
-  const isAbsoluteColumn = reference.startsWith('$');
+export function parseCellReference(value: string): CellReference {
+  const { sheetName, reference } = splitSheetQualifier(value);
+  const match = reference.match(CELL_REFERENCE_PATTERN);
+  if (!match) {
+    throw new Error('無効なセル参照です');
+  }
+
+  const [, columnAnchor, columnLabel, rowAnchor, rowNumber] = match;
 
   // $記号を除去してA1記法に変換
-  const cleanReference = reference.replace(/\$/g, '');
+  const cleanReference = `${columnLabel}${rowNumber}`;
   const position = a1NotationToCellPosition(cleanReference);
 
   return {
     position,
     isAbsolute: {
-      row: isAbsoluteRow,
-      column: isAbsoluteColumn,
+      row: rowAnchor === '$',
+      column: columnAnchor === '$',
     },
     a1Notation: cleanReference,
+    ...(sheetName !== undefined ? { sheetName } : {}),
   };
 }
 
 /**
  * セル範囲文字列を解析する関数
  */
-function parseCellRange(range: string): CellRange {
-  const [startRef, endRef] = range.split(':');
+export function parseCellRange(value: string): CellRange {
+  const { sheetName, reference } = splitSheetQualifier(value);
+  const [startRef, endRef] = reference.split(':');
   const start = a1NotationToCellPosition(startRef.replace(/\$/g, ''));
   const end = a1NotationToCellPosition(endRef.replace(/\$/g, ''));
 
   return {
     start,
     end,
-    a1Notation: range.replace(/\$/g, ''),
+    a1Notation: reference.replace(/\$/g, ''),
+    ...(sheetName !== undefined ? { sheetName } : {}),
   };
 }
 
-/**
- * 基本的な数式を評価する関数（簡易実装）
- */
-export function evaluateFormula(parsedFormula: ParsedFormula, getCellValue: (position: CellPosition) => any): FormulaResult {
-  try {
-    // 非常に簡易的な実装（実際にはより複雑なパーサーが必要）
-    const tokens = parsedFormula.tokens;
-
-    // 単純なSUM関数の例
-    if (tokens.length >= 2 && tokens[0].type === 'function' && tokens[0].value === 'SUM') {
-      const rangeToken = tokens.find(token => token.type === 'cell_range');
-      if (rangeToken) {
-        const range = parseCellRange(rangeToken.value);
-        let sum = 0;
-
-        for (let row = range.start.row; row <= range.end.row; row++) {
-          for (let col = range.start.column; col <= range.end.column; col++) {
-            const value = getCellValue({ row, column: col });
-            if (typeof value === 'number') {
-              sum += value;
-            } else if (typeof value === 'string' && !isNaN(Number(value))) {
-              sum += Number(value);
-            }
-          }
-        }
-
-        return {
-          value: sum,
-          displayValue: sum.toString(),
-          dependencies: parsedFormula.dependencies,
-        };
-      }
-    }
-
-    // 単純な算術演算の例
-    if (tokens.length === 3 && tokens[1].type === 'operator') {
-      const left = parseTokenValue(tokens[0], getCellValue);
-      const right = parseTokenValue(tokens[2], getCellValue);
-      const operator = tokens[1].value;
-
-      if (typeof left === 'number' && typeof right === 'number') {
-        let result: number;
-        switch (operator) {
-          case '+':
-            result = left + right;
-            break;
-          case '-':
-            result = left - right;
-            break;
-          case '*':
-            result = left * right;
-            break;
-          case '/':
-            if (right === 0) {
-              return {
-                value: 0,
-                displayValue: '#DIV/0!',
-                error: { type: 'DIVISION_BY_ZERO', message: 'ゼロで除算しようとしました' },
-                dependencies: parsedFormula.dependencies,
-              };
-            }
-            result = left / right;
-            break;
-          default:
-            throw new Error(`未サポートの演算子: ${operator}`);
-        }
-
-        return {
-          value: result,
-          displayValue: result.toString(),
-          dependencies: parsedFormula.dependencies,
-        };
-      }
-    }
-
-    return {
-      value: parsedFormula.originalFormula,
-      displayValue: parsedFormula.originalFormula,
-      dependencies: parsedFormula.dependencies,
-    };
-
-  } catch (error) {
-    return {
-      value: 0,
-      displayValue: '#ERROR!',
-      error: {
-        type: 'SYNTAX_ERROR',
-        message: error instanceof Error ? error.message : '構文エラー',
-      },
-      dependencies: parsedFormula.dependencies,
-    };
-  }
-}
-
-/**
- * トークンの値を解析する関数
- */
-function parseTokenValue(token: FormulaToken, getCellValue: (position: CellPosition) => any): any {
-  switch (token.type) {
-    case 'number':
-      return Number(token.value);
-    case 'string':
-      return token.value;
-    case 'boolean':
-      return token.value === 'true';
-    case 'cell_reference':
-      const ref = parseCellReference(token.value);
-      return getCellValue(ref.position);
-    default:
-      return token.value;
-  }
-}
-
 /**
  * 循環参照をチェックする関数
  */
@@ -461,9 +939,10 @@ export function validateFormula(formula: string): { isValid: boolean; errors: Fo
       });
     }
 
-    // 括弧の対応チェック
-    const openParens = parsed.tokens.filter(t => t.value === '(').length;
-    const closeParens = parsed.tokens.filter(t => t.value === ')').length;
+    // 括弧の対応チェック（文字列内の括弧は数えない）
+    const parentheses = parsed.tokens.filter(t => t.type === 'parenthesis');
+    const openParens = parentheses.filter(t => t.value === '(').length;
+    const closeParens = parentheses.filter(t => t.value === ')').length;
 
     if (openParens !== closeParens) {
       errors.push({
@@ -483,4 +962,26 @@ export function validateFormula(formula: string): { isValid: boolean; errors: Fo
     isValid: errors.length === 0,
     errors,
   };
-}
\ No newline at end of file
+}
+/**
+ * カーソル位置の直前に入力中の関数名（補完の候補を絞り込む文字列）を取得する関数
+ * 文字列リテラル内・シート名の後・数値の途中では関数名とみなさない
+ */
+export function getFunctionNameAtCursor(formula: string, cursor: number): { prefix: string; start: number } | null {
+  if (!formula.startsWith('=')) {
+    return null;
+  }
+
+  const beforeCursor = formula.slice(1, cursor);
+  if ((beforeCursor.match(/"/g)?.length ?? 0) % 2 !== 0) {
+    return null;
+  }
+
+  const match = beforeCursor.match(/(^|[=(,;+\-*/^&<>%:\s])([A-Za-z_\u00C0-\uFFFF][A-Za-z0-9_.\u00C0-\uFFFF]*)$/);
+  if (!match) {
+    return null;
+  }
+
+  const prefix = match[2];
+  return { prefix, start: cursor - prefix.length };
+}
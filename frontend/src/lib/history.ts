@@ -3,8 +3,9 @@
  * ユーザーの操作履歴を管理し、元に戻す（Undo）・やり直す（Redo）機能を提供する
  */
 
-import { CellPosition } from './cell';
+import { CellPosition, SheetCellPosition } from './cell';
 import { CellSelection } from './selection';
+import { ConditionalFormatRule } from './conditional-format';
 
 export enum HistoryActionType {
   CELL_VALUE_CHANGE = 'cell_value_change',
@@ -12,16 +13,18 @@ export enum HistoryActionType {
   ROW_INSERT = 'row_insert',
   ROW_DELETE = 'row_delete',
   ROW_RESIZE = 'row_resize',
+  ROW_MOVE = 'row_move',
   COLUMN_INSERT = 'column_insert',
   COLUMN_DELETE = 'column_delete',
   COLUMN_RESIZE = 'column_resize',
+  COLUMN_MOVE = 'column_move',
   PASTE_OPERATION = 'paste_operation',
   DELETE_OPERATION = 'delete_operation',
   BULK_OPERATION = 'bulk_operation',
 }
 
 export interface CellChange {
-  position: CellPosition;
+  position: SheetCellPosition;  // sheetName省略時は操作対象のシート
   oldValue: string;
   newValue: string;
   oldFormat?: any;
@@ -30,11 +33,24 @@ export interface CellChange {
   newDataType?: string;
 }
 
+export interface NameChange {
+  id: string;           // 名前付き範囲のID
+  oldRefersTo: string;
+  newRefersTo: string;
+}
+
+export interface ConditionalFormatChange {
+  sheetName?: string;   // 省略時は操作対象のシート
+  oldRules: ConditionalFormatRule[];
+  newRules: ConditionalFormatRule[];
+}
+
 export interface RowColumnOperation {
   type: 'row' | 'column';
-  operation: 'insert' | 'delete' | 'resize';
+  operation: 'insert' | 'delete' | 'resize' | 'move';
   index: number;
   count?: number;
+  toIndex?: number;       // move操作の移動先
   oldSize?: number;
   newSize?: number;
   removedData?: any[];
@@ -48,6 +64,9 @@ export interface HistoryEntry {
   selection?: CellSelection;
   cellChanges: CellChange[];
   rowColumnOperations: RowColumnOperation[];
+  sheetId?: string;  // 行・列の操作をしたシートのID（省略時はアクティブシート）
+  nameChanges?: NameChange[];  // 行・列の操作で書き換えた名前の参照先
+  conditionalFormatChanges?: ConditionalFormatChange[];  // 行・列の操作で書き換えた条件付き書式のルール
   metadata: {
     affectedCells: CellPosition[];
     affectedRows: number[];
@@ -147,6 +166,8 @@ export function createCellFormatChangeEntry(
 
 /**
  * 行操作の履歴エントリーを作成する関数
+ * 参照の書き換えで変更した数式・名前の参照先・条件付き書式のルール（formulaChanges・nameChanges・
+ * conditionalFormatChanges）はアンドゥで元に戻す
  */
 export function createRowOperationEntry(
   operation: 'insert' | 'delete' | 'resize',
@@ -154,7 +175,11 @@ export function createRowOperationEntry(
   count: number = 1,
   oldSize?: number,
   newSize?: number,
-  removedData?: any[]
+  removedData?: any[],
+  formulaChanges: CellChange[] = [],
+  nameChanges: NameChange[] = [],
+  conditionalFormatChanges: ConditionalFormatChange[] = [],
+  sheetId?: string
 ): HistoryEntry {
   let actionType: HistoryActionType;
   let description: string;
@@ -189,10 +214,13 @@ export function createRowOperationEntry(
     actionType,
     timestamp: new Date(),
     description,
-    cellChanges: [],
+    cellChanges: formulaChanges,
     rowColumnOperations: [rowOperation],
+    ...(sheetId && { sheetId }),
+    nameChanges,
+    conditionalFormatChanges,
     metadata: {
-      affectedCells: [],
+      affectedCells: formulaChanges.map(change => change.position),
       affectedRows: Array.from({ length: count }, (_, i) => index + i),
       affectedColumns: [],
     },
@@ -202,6 +230,8 @@ export function createRowOperationEntry(
 
 /**
  * 列操作の履歴エントリーを作成する関数
+ * 参照の書き換えで変更した数式・名前の参照先・条件付き書式のルール（formulaChanges・nameChanges・
+ * conditionalFormatChanges）はアンドゥで元に戻す
  */
 export function createColumnOperationEntry(
   operation: 'insert' | 'delete' | 'resize',
@@ -209,7 +239,11 @@ export function createColumnOperationEntry(
   count: number = 1,
   oldSize?: number,
   newSize?: number,
-  removedData?: any[]
+  removedData?: any[],
+  formulaChanges: CellChange[] = [],
+  nameChanges: NameChange[] = [],
+  conditionalFormatChanges: ConditionalFormatChange[] = [],
+  sheetId?: string
 ): HistoryEntry {
   let actionType: HistoryActionType;
   let description: string;
@@ -244,10 +278,13 @@ export function createColumnOperationEntry(
     actionType,
     timestamp: new Date(),
     description,
-    cellChanges: [],
+    cellChanges: formulaChanges,
     rowColumnOperations: [columnOperation],
+    ...(sheetId && { sheetId }),
+    nameChanges,
+    conditionalFormatChanges,
     metadata: {
-      affectedCells: [],
+      affectedCells: formulaChanges.map(change => change.position),
       affectedRows: [],
       affectedColumns: Array.from({ length: count }, (_, i) => index + i),
     },
@@ -255,6 +292,43 @@ export function createColumnOperationEntry(
   };
 }
 
+/**
+ * 行・列の移動の履歴エントリーを作成する関数
+ * 参照の書き換えで変更した数式・名前の参照先・条件付き書式のルール（formulaChanges・nameChanges・
+ * conditionalFormatChanges）はアンドゥで元に戻す
+ */
+export function createMoveOperationEntry(
+  type: 'row' | 'column',
+  fromIndex: number,
+  toIndex: number,
+  formulaChanges: CellChange[] = [],
+  nameChanges: NameChange[] = [],
+  conditionalFormatChanges: ConditionalFormatChange[] = [],
+  sheetId?: string
+): HistoryEntry {
+  const label = type === 'row' ? `行 ${fromIndex + 1}` : `列 ${String.fromCharCode(65 + fromIndex)}`;
+  const destination = type === 'row' ? `${toIndex + 1}` : String.fromCharCode(65 + toIndex);
+  const affected = [Math.min(fromIndex, toIndex), Math.max(fromIndex, toIndex)];
+
+  return {
+    id: crypto.randomUUID(),
+    actionType: type === 'row' ? HistoryActionType.ROW_MOVE : HistoryActionType.COLUMN_MOVE,
+    timestamp: new Date(),
+    description: `${label} を ${destination} に移動`,
+    cellChanges: formulaChanges,
+    rowColumnOperations: [{ type, operation: 'move', index: fromIndex, count: 1, toIndex }],
+    ...(sheetId && { sheetId }),
+    nameChanges,
+    conditionalFormatChanges,
+    metadata: {
+      affectedCells: formulaChanges.map(change => change.position),
+      affectedRows: type === 'row' ? Array.from({ length: affected[1] - affected[0] + 1 }, (_, i) => affected[0] + i) : [],
+      affectedColumns: type === 'column' ? Array.from({ length: affected[1] - affected[0] + 1 }, (_, i) => affected[0] + i) : [],
+    },
+    isReversible: true,
+  };
+}
+
 /**
  * 一括操作（貼り付け、削除など）の履歴エントリーを作成する関数
  */
@@ -370,6 +444,7 @@ export function clearHistory(manager: HistoryManager): HistoryManager {
 
 /**
  * 履歴エントリーを元に戻すための逆操作データを生成する関数
+ * 行・列操作のcellChangesは参照の書き換えによる数式の変更（操作前の位置）で、逆操作を適用した後に元の数式を復元する
  */
 export function createUndoOperation(entry: HistoryEntry): {
   cellChanges: CellChange[];
@@ -397,6 +472,12 @@ export function createUndoOperation(entry: HistoryEntry): {
           oldSize: operation.newSize,
           newSize: operation.oldSize,
         };
+      case 'move':
+        return {
+          ...operation,
+          index: operation.toIndex ?? operation.index,
+          toIndex: operation.index,
+        };
       default:
         return operation;
     }
@@ -486,7 +567,8 @@ export function getEntryDetails(entry: HistoryEntry): {
     entry.rowColumnOperations.forEach(operation => {
       const type = operation.type === 'row' ? '行' : '列';
       const action = operation.operation === 'insert' ? '挿入' :
-                    operation.operation === 'delete' ? '削除' : 'サイズ変更';
+                    operation.operation === 'delete' ? '削除' :
+                    operation.operation === 'move' ? '移動' : 'サイズ変更';
       details.push(`${type}の${action}: ${operation.count || 1} 個`);
     });
     impactLevel = 'high'; // 行・列操作は常に高影響
@@ -0,0 +1,147 @@
+/**
+ * 名前付き範囲モデル
+ * セル・セル範囲・定数式に付ける名前。ワークブック全体またはシート単位のスコープを持つ
+ */
+
+export interface NamedRange {
+  id: string;
+  name: string;
+  refersTo: string;   // =Sheet1!$B$2:$B$400、=0.08 などの式
+  scope?: string;     // シート名（省略時はワークブック全体）
+  comment?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type NamedRangeKind = 'cell' | 'range' | 'constant' | 'lambda';
+
+/**
+ * 名前の最大文字数（Excel互換）
+ */
+export const MAX_NAME_LENGTH = 255;
+
+/**
+ * 名前に使用できる文字列のパターン
+ */
+const NAME_PATTERN = /^[A-Za-z_\\À-￿][A-Za-z0-9_.À-￿]*$/;
+
+/**
+ * セル参照と紛らわしい名前（A1形式・R1C1形式）
+ */
+const CELL_LIKE_NAME_PATTERN = /^(?:[A-Z]{1,3}\d+|R\d*C\d*|R|C)$/i;
+
+/**
+ * 参照先がセル・セル範囲かを判定するパターン（シート修飾付き）
+ */
+const REFERENCE_PATTERN = /^(?:(?:'(?:[^']|'')+'|[^'!\s]+)!)?\$?[A-Z]+\$?\d+(:\$?[A-Z]+\$?\d+)?$/i;
+
+/**
+ * LAMBDAで定義した関数（名前を関数名として呼び出せる）の参照先のパターン
+ */
+const LAMBDA_DEFINITION_PATTERN = /^=?\s*LAMBDA\s*\(/i;
+
+/**
+ * 名前付き範囲を作成する関数
+ */
+export function createNamedRange(
+  name: string,
+  refersTo: string,
+  scope?: string,
+  comment?: string
+): NamedRange {
+  const now = new Date();
+
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    refersTo: normalizeRefersTo(refersTo),
+    ...(scope ? { scope } : {}),
+    ...(comment ? { comment } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * 参照先の式を=で始まる形式に揃える関数
+ */
+export function normalizeRefersTo(refersTo: string): string {
+  const trimmed = refersTo.trim();
+  return trimmed.startsWith('=') ? trimmed : `=${trimmed}`;
+}
+
+/**
+ * 名前付き範囲の種類（セル・範囲・定数・LAMBDAの関数）を判定する関数
+ */
+export function getNamedRangeKind(namedRange: NamedRange): NamedRangeKind {
+  if (isLambdaDefinition(namedRange.refersTo)) {
+    return 'lambda';
+  }
+
+  const expression = namedRange.refersTo.replace(/^=/, '').trim();
+  const match = expression.match(REFERENCE_PATTERN);
+
+  if (!match) {
+    return 'constant';
+  }
+  return match[1] ? 'range' : 'cell';
+}
+
+/**
+ * 参照先の式がLAMBDAによる関数の定義かを判定する関数
+ */
+export function isLambdaDefinition(refersTo: string): boolean {
+  return LAMBDA_DEFINITION_PATTERN.test(refersTo.trim());
+}
+
+/**
+ * 名前の構文を検証する関数
+ */
+export function validateNameSyntax(name: string): { isValid: boolean; error?: string } {
+  const trimmed = name.trim();
+
+  if (!trimmed) {
+    return { isValid: false, error: '名前が必要です' };
+  }
+
+  if (trimmed.length > MAX_NAME_LENGTH) {
+    return { isValid: false, error: `名前は${MAX_NAME_LENGTH}文字以下である必要があります` };
+  }
+
+  if (!NAME_PATTERN.test(trimmed)) {
+    return { isValid: false, error: '名前に使用できない文字が含まれています' };
+  }
+
+  if (CELL_LIKE_NAME_PATTERN.test(trimmed)) {
+    return { isValid: false, error: 'セル参照と同じ形式の名前は使用できません' };
+  }
+
+  if (['TRUE', 'FALSE'].includes(trimmed.toUpperCase())) {
+    return { isValid: false, error: '論理値と同じ名前は使用できません' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * 名前を検索する関数（大文字小文字を区別しない）
+ * シート名を指定した場合は、そのシートのスコープの名前をワークブックスコープより優先する
+ */
+export function findNamedRange(
+  names: NamedRange[],
+  name: string,
+  sheetName?: string
+): NamedRange | undefined {
+  const normalized = name.toLowerCase();
+  const candidates = names.filter(namedRange => namedRange.name.toLowerCase() === normalized);
+
+  if (sheetName !== undefined) {
+    const normalizedSheet = sheetName.toLowerCase();
+    const sheetScoped = candidates.find(namedRange => namedRange.scope?.toLowerCase() === normalizedSheet);
+    if (sheetScoped) {
+      return sheetScoped;
+    }
+  }
+
+  return candidates.find(namedRange => namedRange.scope === undefined);
+}
@@ -0,0 +1,641 @@
+/**
+ * 数値の書式コード
+ * Excel互換の書式コード（#,##0.00;[Red](#,##0.00)、0.0%、yyyy/mm/dd hh:mm、@ など）で値を表示する文字列に変換する
+ * 「正;負;ゼロ;文字列」の区分、条件付きの区分（[>=100]）、色（[Red]）、指数、分数、日付・時刻に対応する
+ */
+
+import { DateSystem, formatDateSerial } from './date-serial';
+
+/**
+ * 書式コードで変換した結果
+ */
+export interface NumberFormatResult {
+  text: string;
+  color?: string;  // 書式コードで指定した色（[Red] など）
+}
+
+/**
+ * 書式コードの区分の条件（[>=100] など）
+ */
+export interface NumberFormatCondition {
+  operator: '<' | '<=' | '>' | '>=' | '=' | '<>';
+  value: number;
+}
+
+/**
+ * 書式コードの記号
+ */
+type NumberFormatToken =
+  | { type: 'literal'; text: string }
+  | { type: 'digit'; placeholder: '0' | '#' | '?' }
+  | { type: 'point' }
+  | { type: 'comma' }
+  | { type: 'percent' }
+  | { type: 'exponent'; sign: '+' | '-' }
+  | { type: 'slash'; denominator?: number }   // 分数の区切り（denominatorは固定の分母）
+  | { type: 'text' }                           // @（文字列）
+  | { type: 'general' };                       // General（標準）
+
+/**
+ * 書式コードの区分
+ */
+interface NumberFormatSection {
+  tokens: NumberFormatToken[];
+  color?: string;
+  condition?: NumberFormatCondition;
+  dateCode?: string;  // 日付・時刻の区分の場合、formatDateSerialに渡す書式
+}
+
+/**
+ * 書式コードで指定できる色
+ */
+export const NUMBER_FORMAT_COLORS: Record<string, string> = {
+  black: '#000000',
+  blue: '#0000ff',
+  cyan: '#00ffff',
+  green: '#00ff00',
+  magenta: '#ff00ff',
+  red: '#ff0000',
+  white: '#ffffff',
+  yellow: '#ffff00',
+};
+
+/**
+ * [Color1]〜[Color8] の色
+ */
+const INDEXED_COLORS = ['black', 'white', 'red', 'green', 'blue', 'yellow', 'magenta', 'cyan'];
+
+/**
+ * 日付・時刻の書式記号
+ */
+const DATE_TOKEN_PATTERN = /^(?:AM\/PM|A\/P|a{3,4}|y+|m+|d+|h+|s+)/i;
+
+/**
+ * 書式コードの区分の数の上限（正;負;ゼロ;文字列）
+ */
+const MAX_SECTIONS = 4;
+
+/**
+ * 解析した書式コードのキャッシュ
+ */
+const parsedFormats = new Map<string, NumberFormatSection[]>();
+const MAX_CACHED_FORMATS = 500;
+
+/**
+ * 書式コードを区分に分ける（文字列・エスケープ・角括弧の中の;は区切りにしない）
+ */
+function splitSections(code: string): string[] {
+  const sections: string[] = [];
+  let current = '';
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    if (char === '"') {
+      const end = code.indexOf('"', i + 1);
+      if (end < 0) throw new Error('書式コードの文字列が閉じていません');
+      current += code.slice(i, end + 1);
+      i = end;
+    } else if (char === '[') {
+      const end = code.indexOf(']', i + 1);
+      if (end < 0) throw new Error('書式コードの角括弧が閉じていません');
+      current += code.slice(i, end + 1);
+      i = end;
+    } else if (char === '\\' || char === '_' || char === '*') {
+      current += code.slice(i, i + 2);
+      i++;
+    } else if (char === ';') {
+      sections.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  sections.push(current);
+
+  if (sections.length > MAX_SECTIONS) {
+    throw new Error(`書式コードの区分は${MAX_SECTIONS}つまでです`);
+  }
+  return sections;
+}
+
+/**
+ * 角括弧の中身（色・条件・通貨記号・経過時間）を解析する
+ */
+function parseBracket(content: string, section: NumberFormatSection, tokens: NumberFormatToken[]): string | undefined {
+  const color = NUMBER_FORMAT_COLORS[content.toLowerCase()];
+  if (color) {
+    section.color = color;
+    return undefined;
+  }
+
+  const indexed = content.match(/^color(\d+)$/i);
+  if (indexed) {
+    const name = INDEXED_COLORS[parseInt(indexed[1], 10) - 1];
+    if (!name) throw new Error(`書式コードの色が正しくありません: ${content}`);
+    section.color = NUMBER_FORMAT_COLORS[name];
+    return undefined;
+  }
+
+  const condition = content.match(/^(<=|>=|<>|<|>|=)\s*(-?\d+(?:\.\d+)?)$/);
+  if (condition) {
+    section.condition = { operator: condition[1] as NumberFormatCondition['operator'], value: parseFloat(condition[2]) };
+    return undefined;
+  }
+
+  // 通貨記号と地域（[$€-407]、[$USD]、[$-411]）
+  const currency = content.match(/^\$([^-]*)(?:-[0-9A-Fa-f]+)?$/);
+  if (currency) {
+    if (currency[1] !== '') tokens.push({ type: 'literal', text: currency[1] });
+    return currency[1] !== '' ? `"${currency[1]}"` : '';
+  }
+
+  // 経過時間（[h]、[mm]、[ss]）は日付・時刻の書式として扱う
+  if (/^(h+|m+|s+)$/i.test(content)) {
+    return `[${content}]`;
+  }
+
+  throw new Error(`書式コードの角括弧の内容が正しくありません: [${content}]`);
+}
+
+/**
+ * 書式コードの区分を解析する
+ */
+function parseSection(code: string): NumberFormatSection {
+  const section: NumberFormatSection = { tokens: [] };
+  const tokens = section.tokens;
+  let dateCode = '';
+  let isDate = false;
+  let hasPoint = false;
+
+  const pushLiteral = (text: string) => {
+    tokens.push({ type: 'literal', text });
+    dateCode += Array.from(text).map(char => `\\${char}`).join('');
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    const char = code[i];
+    const rest = code.slice(i);
+
+    if (char === '"') {
+      const end = code.indexOf('"', i + 1);
+      pushLiteral(code.slice(i + 1, end));
+      i = end + 1;
+      continue;
+    }
+    if (char === '\\') {
+      pushLiteral(code[i + 1] ?? '');
+      i += 2;
+      continue;
+    }
+    // _x は x の幅の空白、*x は幅いっぱいの繰り返し（セルの幅に合わせる表示はしない）
+    if (char === '_') {
+      pushLiteral(' ');
+      i += 2;
+      continue;
+    }
+    if (char === '*') {
+      i += 2;
+      continue;
+    }
+    if (char === '[') {
+      const end = code.indexOf(']', i + 1);
+      const date = parseBracket(code.slice(i + 1, end), section, tokens);
+      if (date !== undefined) {
+        dateCode += date;
+        if (date.startsWith('[')) isDate = true;
+      }
+      i = end + 1;
+      continue;
+    }
+    if (/^general/i.test(rest)) {
+      tokens.push({ type: 'general' });
+      i += 'general'.length;
+      continue;
+    }
+    if (/^e[+-]/i.test(rest) && !isDate) {
+      tokens.push({ type: 'exponent', sign: rest[1] as '+' | '-' });
+      dateCode += rest.slice(0, 2);
+      i += 2;
+      continue;
+    }
+
+    const dateToken = rest.match(DATE_TOKEN_PATTERN);
+    if (dateToken) {
+      isDate = true;
+      dateCode += dateToken[0];
+      i += dateToken[0].length;
+      continue;
+    }
+
+    // 分数の区切り（直前に桁があり、直後に桁または固定の分母がある）
+    if (char === '/' && tokens.some(token => token.type === 'digit')) {
+      const denominator = rest.slice(1).match(/^[1-9]\d*/);
+      if (denominator) {
+        tokens.push({ type: 'slash', denominator: parseInt(denominator[0], 10) });
+        dateCode += rest.slice(0, denominator[0].length + 1);
+        i += denominator[0].length + 1;
+        continue;
+      }
+      if (/^[0#?]/.test(rest.slice(1))) {
+        tokens.push({ type: 'slash' });
+        dateCode += char;
+        i++;
+        continue;
+      }
+    }
+
+    dateCode += char;
+    i++;
+    switch (char) {
+      case '0':
+      case '#':
+      case '?':
+        tokens.push({ type: 'digit', placeholder: char });
+        break;
+      case '.':
+        tokens.push(hasPoint ? { type: 'literal', text: '.' } : { type: 'point' });
+        hasPoint = true;
+        break;
+      case ',':
+        tokens.push({ type: 'comma' });
+        break;
+      case '%':
+        tokens.push({ type: 'percent' });
+        break;
+      case '@':
+        tokens.push({ type: 'text' });
+        break;
+      default:
+        tokens.push({ type: 'literal', text: char });
+    }
+  }
+
+  if (isDate) {
+    section.dateCode = dateCode;
+  }
+  return section;
+}
+
+/**
+ * 書式コードを解析する（正しくない書式コードはエラー）
+ */
+function parseNumberFormatCode(code: string): NumberFormatSection[] {
+  let sections = parsedFormats.get(code);
+  if (!sections) {
+    sections = splitSections(code).map(parseSection);
+    if (parsedFormats.size >= MAX_CACHED_FORMATS) {
+      parsedFormats.clear();
+    }
+    parsedFormats.set(code, sections);
+  }
+  return sections;
+}
+
+/**
+ * 書式コードが正しいかを検証する関数
+ */
+export function validateNumberFormatCode(code: string): { success: boolean; error?: string } {
+  try {
+    parseNumberFormatCode(code);
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * 標準（General）の書式で数値を文字列に変換する（有効桁数は15桁）
+ */
+function formatGeneralNumber(value: number): string {
+  return parseFloat(value.toPrecision(15)).toString();
+}
+
+function matchesCondition(condition: NumberFormatCondition, value: number): boolean {
+  switch (condition.operator) {
+    case '<': return value < condition.value;
+    case '<=': return value <= condition.value;
+    case '>': return value > condition.value;
+    case '>=': return value >= condition.value;
+    case '=': return value === condition.value;
+    case '<>': return value !== condition.value;
+  }
+}
+
+/**
+ * 条件が負の数だけに当てはまるか（その区分では負の符号を表示しない）
+ */
+function isNegativeCondition(condition: NumberFormatCondition | undefined): boolean {
+  return condition !== undefined
+    && ((condition.operator === '<' && condition.value <= 0) || (condition.operator === '<=' && condition.value < 0));
+}
+
+/**
+ * 数値を表示する区分と、負の符号を表示するかを選ぶ
+ * 条件付きの書式は1つ目・2つ目の区分の条件を順に確かめ、どちらにも当てはまらない場合は3つ目の区分を使う
+ */
+function selectNumberSection(
+  sections: NumberFormatSection[],
+  value: number
+): { section: NumberFormatSection; showSign: boolean } | null {
+  const numberSections = sections.length === MAX_SECTIONS ? sections.slice(0, 3) : sections;
+  const [first, second, third] = numberSections;
+
+  if (numberSections.some(section => section.condition)) {
+    const select = (section: NumberFormatSection) => ({ section, showSign: value < 0 && !isNegativeCondition(section.condition) });
+    if (first.condition ? matchesCondition(first.condition, value) : true) return select(first);
+    if (second && (second.condition ? matchesCondition(second.condition, value) : numberSections.length === 2)) return select(second);
+    return third ? select(third) : null;
+  }
+
+  if (value < 0 && second) return { section: second, showSign: false };
+  if (value === 0 && third) return { section: third, showSign: false };
+  return { section: first, showSign: value < 0 };
+}
+
+/**
+ * 整数部の桁の記号に右から数字を当てはめる（左端の記号に収まらない上位の桁を加える）
+ * 0は桁がなければ0、?は空白、#は何も表示しない
+ */
+function fillIntegerDigits(placeholders: ('0' | '#' | '?')[], digits: string, grouping: boolean): string[] {
+  const output = placeholders.map(() => '');
+  let index = digits.length - 1;
+  for (let p = placeholders.length - 1; p >= 0; p--) {
+    if (index >= 0) {
+      output[p] = digits[index--];
+    } else {
+      output[p] = placeholders[p] === '0' ? '0' : placeholders[p] === '?' ? ' ' : '';
+    }
+  }
+  if (index >= 0) {
+    if (output.length === 0) output.push('');
+    output[0] = digits.slice(0, index + 1) + output[0];
+  }
+
+  if (!grouping) return output;
+
+  // 3桁ごとに桁区切りを入れる（空白は桁に数えない）
+  let count = 0;
+  for (let p = output.length - 1; p >= 0; p--) {
+    let grouped = '';
+    for (let c = output[p].length - 1; c >= 0; c--) {
+      const char = output[p][c];
+      if (/\d/.test(char)) {
+        if (count > 0 && count % 3 === 0) grouped = `,${grouped}`;
+        count++;
+      }
+      grouped = char + grouped;
+    }
+    output[p] = grouped;
+  }
+  return output;
+}
+
+/**
+ * 小数部の桁の記号に左から数字を当てはめる（末尾の0は#では省略、?では空白にする）
+ */
+function fillFractionDigits(placeholders: ('0' | '#' | '?')[], digits: string): string[] {
+  const output = placeholders.map((_, index) => digits[index] ?? '0');
+  for (let p = output.length - 1; p >= 0 && placeholders[p] !== '0' && output[p] === '0'; p--) {
+    output[p] = placeholders[p] === '?' ? ' ' : '';
+  }
+  return output;
+}
+
+/**
+ * 0〜1の小数に最も近い、分母が指定した値以下の分数を求める
+ */
+function approximateFraction(fraction: number, maxDenominator: number): { numerator: number; denominator: number } {
+  let best = { numerator: 0, denominator: 1 };
+  let bestError = Infinity;
+  for (let denominator = 1; denominator <= maxDenominator; denominator++) {
+    const numerator = Math.round(fraction * denominator);
+    const error = Math.abs(fraction - numerator / denominator);
+    if (error < bestError - 1e-12) {
+      best = { numerator, denominator };
+      bestError = error;
+    }
+  }
+  return best;
+}
+
+/**
+ * 分数の書式（# ?/?、# ??/100、?/8 など）で数値を文字列に変換する
+ */
+function formatFraction(tokens: NumberFormatToken[], value: number): string {
+  const slashIndex = tokens.findIndex(token => token.type === 'slash');
+  const slash = tokens[slashIndex] as Extract<NumberFormatToken, { type: 'slash' }>;
+
+  // 区切りの直前の続いた桁を分子、それより前の桁を整数部とする
+  let numeratorStart = slashIndex;
+  while (numeratorStart > 0 && tokens[numeratorStart - 1].type === 'digit') numeratorStart--;
+  const integerIndexes = tokens.slice(0, numeratorStart).flatMap((token, index) => (token.type === 'digit' ? [index] : []));
+  let denominatorEnd = slashIndex + 1;
+  while (denominatorEnd < tokens.length && tokens[denominatorEnd].type === 'digit') denominatorEnd++;
+
+  const hasInteger = integerIndexes.length > 0;
+  let whole = hasInteger ? Math.floor(value) : 0;
+  const fraction = value - whole;
+  let { numerator, denominator } = slash.denominator !== undefined
+    ? { numerator: Math.round(fraction * slash.denominator), denominator: slash.denominator }
+    : approximateFraction(fraction, Math.pow(10, denominatorEnd - slashIndex - 1) - 1);
+  if (hasInteger && numerator === denominator) {
+    whole++;
+    numerator = 0;
+  }
+
+  const placeholdersOf = (start: number, end: number) =>
+    tokens.slice(start, end).map(token => (token as Extract<NumberFormatToken, { type: 'digit' }>).placeholder);
+  const integerDigits = fillIntegerDigits(
+    integerIndexes.map(index => (tokens[index] as Extract<NumberFormatToken, { type: 'digit' }>).placeholder),
+    whole === 0 ? '' : whole.toString(),
+    false
+  );
+  const numeratorDigits = fillIntegerDigits(placeholdersOf(numeratorStart, slashIndex), numerator.toString(), false);
+  const denominatorText = denominator.toString();
+  const denominatorPadding = placeholdersOf(slashIndex + 1, denominatorEnd)
+    .slice(denominatorText.length)
+    .map(placeholder => (placeholder === '?' ? ' ' : ''))
+    .join('');
+
+  // 分子が0の場合は整数部だけを表示する
+  const omitFraction = hasInteger && numerator === 0;
+  let text = '';
+  tokens.forEach((token, index) => {
+    if (omitFraction && index >= numeratorStart && index < denominatorEnd) return;
+    if (index >= numeratorStart && index < slashIndex) {
+      text += numeratorDigits[index - numeratorStart];
+    } else if (index === slashIndex) {
+      text += `/${denominatorText}${slash.denominator !== undefined ? '' : denominatorPadding}`;
+    } else if (index > slashIndex && index < denominatorEnd) {
+      return;
+    } else if (token.type === 'digit') {
+      text += integerDigits[integerIndexes.indexOf(index)];
+    } else if (token.type === 'literal') {
+      text += token.text;
+    } else if (token.type === 'percent') {
+      text += '%';
+    }
+  });
+
+  if (omitFraction) {
+    text = text.trimEnd();
+    if (whole === 0 && !/\d/.test(text)) text = `${text}0`;
+  }
+  return text;
+}
+
+/**
+ * 数値の区分の書式で数値（符号を除いた値）を文字列に変換する
+ */
+function formatNumberSection(section: NumberFormatSection, value: number): string {
+  const { tokens } = section;
+  const digitIndexes = tokens.flatMap((token, index) => (token.type === 'digit' ? [index] : []));
+
+  if (tokens.some(token => token.type === 'general')) {
+    return tokens.map(token =>
+      token.type === 'general' ? formatGeneralNumber(value) : token.type === 'literal' ? token.text : ''
+    ).join('');
+  }
+  if (digitIndexes.length === 0) {
+    return tokens.map(token => (token.type === 'literal' ? token.text : token.type === 'percent' ? '%' : '')).join('');
+  }
+
+  const percentCount = tokens.filter(token => token.type === 'percent').length;
+  let number = value * Math.pow(100, percentCount);
+
+  if (tokens.some(token => token.type === 'slash')) {
+    return formatFraction(tokens, number);
+  }
+
+  const exponentIndex = tokens.findIndex(token => token.type === 'exponent');
+  const mantissaEnd = exponentIndex >= 0 ? exponentIndex : tokens.length;
+  const pointIndex = tokens.slice(0, mantissaEnd).findIndex(token => token.type === 'point');
+  const integerEnd = pointIndex >= 0 ? pointIndex : mantissaEnd;
+  const lastDigitIndex = Math.max(...digitIndexes.filter(index => index < mantissaEnd));
+
+  // 桁の間の,は桁区切り、最後の桁より後の,は1000で割る
+  let grouping = false;
+  let scale = 0;
+  tokens.slice(0, mantissaEnd).forEach((token, index) => {
+    if (token.type !== 'comma') return;
+    if (index > lastDigitIndex) scale++;
+    else if (index < integerEnd && digitIndexes.some(digit => digit < index)) grouping = true;
+  });
+  number /= Math.pow(1000, scale);
+
+  const integerIndexes = digitIndexes.filter(index => index < integerEnd);
+  const fractionIndexes = digitIndexes.filter(index => index > integerEnd && index < mantissaEnd);
+  const exponentIndexes = digitIndexes.filter(index => index > mantissaEnd);
+  const placeholderOf = (index: number) => (tokens[index] as Extract<NumberFormatToken, { type: 'digit' }>).placeholder;
+
+  // 指数表示は整数部の桁数に合わせて指数を決める（#を含む場合は整数部の桁数の倍数にする）
+  let exponent = 0;
+  if (exponentIndex >= 0 && number !== 0) {
+    const integerDigits = Math.max(integerIndexes.length, 1);
+    const isEngineering = integerIndexes.length > 1 && integerIndexes.some(index => placeholderOf(index) === '#');
+    const magnitude = Math.floor(Math.log10(number));
+    exponent = isEngineering
+      ? Math.floor(magnitude / integerDigits) * integerDigits
+      : magnitude - (integerDigits - 1);
+    const step = isEngineering ? integerDigits : 1;
+    // 丸めて整数部の桁数を超える場合は指数を上げる
+    if (parseFloat((number / Math.pow(10, exponent)).toFixed(fractionIndexes.length)) >= Math.pow(10, integerDigits)) {
+      exponent += step;
+    }
+    number /= Math.pow(10, exponent);
+  }
+
+  if (number >= 1e21) {
+    return formatGeneralNumber(number);
+  }
+  const [integerText, fractionText = ''] = number.toFixed(fractionIndexes.length).split('.');
+  const integerDigits = fillIntegerDigits(integerIndexes.map(placeholderOf), integerText === '0' ? '' : integerText, grouping);
+  const fractionDigits = fillFractionDigits(fractionIndexes.map(placeholderOf), fractionText);
+  const exponentText = Math.abs(exponent).toString();
+  const exponentDigits = fillIntegerDigits(exponentIndexes.map(placeholderOf), exponentText === '0' ? '' : exponentText, false);
+
+  let text = '';
+  tokens.forEach((token, index) => {
+    switch (token.type) {
+      case 'digit':
+        if (index < integerEnd) text += integerDigits[integerIndexes.indexOf(index)];
+        else if (index < mantissaEnd) text += fractionDigits[fractionIndexes.indexOf(index)];
+        else text += exponentDigits[exponentIndexes.indexOf(index)];
+        break;
+      case 'point':
+        // 整数部の桁がない書式（.00 など）でも整数部の数字は表示する
+        text += integerIndexes.length === 0 && integerText !== '0' ? `${integerText}.` : '.';
+        break;
+      case 'percent':
+        text += '%';
+        break;
+      case 'exponent':
+        text += `E${exponent < 0 ? '-' : token.sign === '+' ? '+' : ''}`;
+        break;
+      case 'literal':
+        text += token.text;
+        break;
+    }
+  });
+  return text;
+}
+
+/**
+ * 文字列の区分（4つ目の区分、または@を含む1つだけの区分）
+ */
+function getTextSection(sections: NumberFormatSection[]): NumberFormatSection | undefined {
+  if (sections.length === MAX_SECTIONS) return sections[3];
+  if (sections.length === 1 && sections[0].tokens.some(token => token.type === 'text')) return sections[0];
+  return undefined;
+}
+
+/**
+ * 値を書式コードで表示する文字列に変換する関数
+ * 日付・時刻の区分の数値はシリアル値として変換する。正しくない書式コードは標準（General）の書式で表示する
+ */
+export function formatNumberCode(
+  value: number | string | boolean,
+  code: string,
+  dateSystem: DateSystem = '1900'
+): NumberFormatResult {
+  let sections: NumberFormatSection[];
+  try {
+    sections = parseNumberFormatCode(code);
+  } catch {
+    sections = [{ tokens: [{ type: 'general' }] }];
+  }
+
+  if (typeof value === 'boolean') {
+    return { text: value ? 'TRUE' : 'FALSE' };
+  }
+
+  if (typeof value === 'string') {
+    const section = getTextSection(sections);
+    if (!section) return { text: value };
+    const text = section.tokens.map(token => (token.type === 'text' ? value : token.type === 'literal' ? token.text : '')).join('');
+    return { text, ...(section.color ? { color: section.color } : {}) };
+  }
+
+  const selected = selectNumberSection(sections, value);
+  if (!selected) {
+    return { text: '#'.repeat(8) };
+  }
+  const { section, showSign } = selected;
+  const color = section.color ? { color: section.color } : {};
+
+  // @だけの区分は数値を標準の書式で表示する
+  if (section.tokens.length > 0 && section.tokens.every(token => token.type === 'text' || token.type === 'literal') && section.tokens.some(token => token.type === 'text')) {
+    return { text: formatGeneralNumber(value), ...color };
+  }
+
+  if (section.dateCode !== undefined) {
+    // 負のシリアル値は日付として表示できない
+    if (value < 0) return { text: '#'.repeat(8), ...color };
+    return { text: formatDateSerial(value, section.dateCode, dateSystem), ...color };
+  }
+
+  const text = formatNumberSection(section, Math.abs(value));
+  // 表示する桁がすべて0の場合は負の符号を付けない
+  const sign = showSign && /[1-9]/.test(text) ? '-' : '';
+  return { text: sign + text, ...color };
+}
@@ -0,0 +1,170 @@
+/**
+ * Conditional Format Manager
+ * 条件付き書式のルールの追加・更新・削除・優先度の変更などのルールの管理操作
+ */
+
+import { Spreadsheet } from '../spreadsheet';
+import {
+  ConditionalFormatRule,
+  ConditionalFormatRuleInput,
+  createConditionalFormatRule,
+  normalizeConditionalFormatRange,
+  validateConditionalFormatRule
+} from '../conditional-format';
+import { SpreadsheetOperationResult } from './index';
+
+/**
+ * ルールを置き換えたシートを作成する（ルールがなくなった場合は項目を削除する）
+ */
+function withConditionalFormats(spreadsheet: Spreadsheet, rules: ConditionalFormatRule[]): Spreadsheet {
+  const { conditionalFormats: _previous, ...rest } = spreadsheet;
+  return {
+    ...rest,
+    ...(rules.length > 0 ? { conditionalFormats: rules } : {}),
+    updatedAt: new Date()
+  };
+}
+
+/**
+ * ルールを追加する（追加したルールは最も優先度が高い）
+ */
+export function addConditionalFormat(
+  spreadsheet: Spreadsheet,
+  input: ConditionalFormatRuleInput
+): SpreadsheetOperationResult<ConditionalFormatRule> {
+  const validation = validateConditionalFormatRule(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error,
+      spreadsheet
+    };
+  }
+
+  const rule = createConditionalFormatRule(input);
+  return {
+    success: true,
+    data: rule,
+    spreadsheet: withConditionalFormats(spreadsheet, [rule, ...(spreadsheet.conditionalFormats ?? [])])
+  };
+}
+
+/**
+ * ルールを更新する（優先度は変わらない）
+ */
+export function updateConditionalFormat(
+  spreadsheet: Spreadsheet,
+  ruleId: string,
+  input: ConditionalFormatRuleInput
+): SpreadsheetOperationResult<ConditionalFormatRule> {
+  const rules = spreadsheet.conditionalFormats ?? [];
+  const index = rules.findIndex(rule => rule.id === ruleId);
+  if (index === -1) {
+    return {
+      success: false,
+      error: 'ルールが見つかりません',
+      spreadsheet
+    };
+  }
+
+  const validation = validateConditionalFormatRule(input);
+  if (!validation.success) {
+    return {
+      success: false,
+      error: validation.error,
+      spreadsheet
+    };
+  }
+
+  const rule = { ...input, id: ruleId, range: normalizeConditionalFormatRange(input.range) } as ConditionalFormatRule;
+  return {
+    success: true,
+    data: rule,
+    spreadsheet: withConditionalFormats(spreadsheet, rules.map((existing, i) => (i === index ? rule : existing)))
+  };
+}
+
+/**
+ * ルールを削除する
+ */
+export function deleteConditionalFormat(
+  spreadsheet: Spreadsheet,
+  ruleId: string
+): SpreadsheetOperationResult<ConditionalFormatRule> {
+  const rules = spreadsheet.conditionalFormats ?? [];
+  const rule = rules.find(existing => existing.id === ruleId);
+  if (!rule) {
+    return {
+      success: false,
+      error: 'ルールが見つかりません',
+      spreadsheet
+    };
+  }
+
+  return {
+    success: true,
+    data: rule,
+    spreadsheet: withConditionalFormats(spreadsheet, rules.filter(existing => existing.id !== ruleId))
+  };
+}
+
+/**
+ * ルールの優先度を変更する（toIndexは移動先の位置。0が最も優先度が高い）
+ */
+export function moveConditionalFormat(
+  spreadsheet: Spreadsheet,
+  ruleId: string,
+  toIndex: number
+): SpreadsheetOperationResult<ConditionalFormatRule> {
+  const rules = [...(spreadsheet.conditionalFormats ?? [])];
+  const index = rules.findIndex(rule => rule.id === ruleId);
+  if (index === -1) {
+    return {
+      success: false,
+      error: 'ルールが見つかりません',
+      spreadsheet
+    };
+  }
+  if (toIndex < 0 || toIndex >= rules.length) {
+    return {
+      success: false,
+      error: '移動先の位置が無効です',
+      spreadsheet
+    };
+  }
+
+  const [rule] = rules.splice(index, 1);
+  rules.splice(toIndex, 0, rule);
+  return {
+    success: true,
+    data: rule,
+    spreadsheet: withConditionalFormats(spreadsheet, rules)
+  };
+}
+
+/**
+ * ルールをまとめて置き換える（ルールの管理ダイアログで編集した結果の反映）
+ * 正しくないルールがある場合は何も変更しない
+ */
+export function setConditionalFormats(
+  spreadsheet: Spreadsheet,
+  rules: ConditionalFormatRule[]
+): SpreadsheetOperationResult<ConditionalFormatRule[]> {
+  for (const rule of rules) {
+    const validation = validateConditionalFormatRule(rule);
+    if (!validation.success) {
+      return {
+        success: false,
+        error: `${rule.range}: ${validation.error}`,
+        spreadsheet
+      };
+    }
+  }
+
+  const normalized = rules.map(rule => ({ ...rule, range: normalizeConditionalFormatRange(rule.range) }));
+  return {
+    success: true,
+    data: normalized,
+    spreadsheet: withConditionalFormats(spreadsheet, normalized)
+  };
+}
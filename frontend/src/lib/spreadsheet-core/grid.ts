@@ -4,7 +4,10 @@
  */
 
 import { Spreadsheet, cellPositionToKey } from '../spreadsheet';
-import { CellPosition, Cell, createEmptyCell } from '../cell';
+import { CellPosition, Cell, CellDataType, createEmptyCell, updateCellValue } from '../cell';
+import { GridChange, adjustReferencesForGridChange } from '../formula';
+import { CellChange, ConditionalFormatChange, HistoryEntry, createUndoOperation } from '../history';
+import { adjustConditionalFormatsForGridChange } from '../conditional-format';
 import {
   Row,
   createRow,
@@ -38,6 +41,8 @@ export interface GridOperationResult {
   affectedRows?: number[];
   affectedColumns?: number[];
   affectedCells?: CellPosition[];
+  formulaChanges?: CellChange[];  // 参照の書き換えで変更された数式（操作前の位置）
+  conditionalFormatChanges?: ConditionalFormatChange[];  // 書き換えた条件付き書式のルール（操作前のルールを含む）
   spreadsheet: Spreadsheet;
 }
 
@@ -71,6 +76,75 @@ export interface ColumnDeleteResult extends GridOperationResult {
   deletedCells?: { position: CellPosition; cell: Cell }[];
 }
 
+/**
+ * 行・列の操作に合わせてシート内の数式の参照を書き換える
+ * 削除される行・列にあるセルは対象外（復元用データとして元の数式を保持する）
+ */
+function adjustSheetFormulas(
+  spreadsheet: Spreadsheet,
+  change: Omit<GridChange, 'sheetName'>
+): { cells: Map<string, Cell>; formulaChanges: CellChange[] } {
+  const gridChange: GridChange = { ...change, sheetName: spreadsheet.name };
+  const formulaChanges: CellChange[] = [];
+  let cells = spreadsheet.cells;
+
+  for (const [key, cell] of spreadsheet.cells) {
+    if (cell.dataType !== CellDataType.FORMULA) continue;
+
+    const position = cell.position;
+    const axisIndex = change.axis === 'row' ? position.row : position.column;
+    if (change.operation === 'delete' && axisIndex >= change.index && axisIndex < change.index + change.count) {
+      continue;
+    }
+
+    const rewritten = adjustReferencesForGridChange(cell.rawValue, gridChange, spreadsheet.name);
+    if (rewritten !== cell.rawValue) {
+      if (cells === spreadsheet.cells) {
+        cells = new Map(spreadsheet.cells);
+      }
+      cells.set(key, updateCellValue(cell, rewritten));
+      formulaChanges.push({
+        position,
+        oldValue: cell.rawValue,
+        newValue: rewritten,
+        oldDataType: CellDataType.FORMULA,
+        newDataType: CellDataType.FORMULA
+      });
+    }
+  }
+
+  return { cells, formulaChanges };
+}
+
+/**
+ * 行・列の操作に合わせて条件付き書式の適用範囲と数式を書き換える（ルールがないシートは空のオブジェクト）
+ */
+function adjustSheetConditionalFormats(
+  spreadsheet: Spreadsheet,
+  change: Omit<GridChange, 'sheetName'>
+): Pick<Spreadsheet, 'conditionalFormats'> {
+  if (!spreadsheet.conditionalFormats) {
+    return {};
+  }
+  return {
+    conditionalFormats: adjustConditionalFormatsForGridChange(
+      spreadsheet.conditionalFormats,
+      { ...change, sheetName: spreadsheet.name },
+      spreadsheet.name
+    )
+  };
+}
+
+/**
+ * 操作の前後で書き換わった条件付き書式のルールを履歴に記録する形で返す
+ */
+function getConditionalFormatChanges(before: Spreadsheet, after: Spreadsheet): ConditionalFormatChange[] {
+  if (!before.conditionalFormats || after.conditionalFormats === before.conditionalFormats) {
+    return [];
+  }
+  return [{ oldRules: before.conditionalFormats, newRules: after.conditionalFormats ?? [] }];
+}
+
 /**
  * 指定位置に行を挿入する
  */
@@ -91,10 +165,14 @@ export function insertRowsAt(
     // 新しい行を挿入
     const newRows = insertRows(spreadsheet.rows, index, count);
 
+    // 挿入位置以降を参照している数式を書き換える
+    const change: Omit<GridChange, 'sheetName'> = { axis: 'row', operation: 'insert', index, count };
+    const { cells, formulaChanges } = adjustSheetFormulas(spreadsheet, change);
+
     // セルデータを再配置（挿入位置以降のセルを下にシフト）
     const newCells = new Map<string, Cell>();
 
-    for (const [key, cell] of spreadsheet.cells) {
+    for (const [key, cell] of cells) {
       const position = JSON.parse(`{"row":${key.split('-')[0]},"column":${key.split('-')[1]}}`);
 
       if (position.row >= index) {
@@ -109,6 +187,7 @@ export function insertRowsAt(
 
     const updatedSpreadsheet: Spreadsheet = {
       ...spreadsheet,
+      ...adjustSheetConditionalFormats(spreadsheet, change),
       rows: newRows,
       rowCount: spreadsheet.rowCount + count,
       cells: newCells,
@@ -119,6 +198,8 @@ export function insertRowsAt(
       success: true,
       affectedRows: Array.from({ length: count }, (_, i) => index + i),
       insertedRows: newRows.slice(index, index + count),
+      formulaChanges,
+      conditionalFormatChanges: getConditionalFormatChanges(spreadsheet, updatedSpreadsheet),
       spreadsheet: updatedSpreadsheet
     };
   } catch (error) {
@@ -152,11 +233,20 @@ export function deleteRowsAt(
     // 削除される行の情報を保存
     const deletedRows = spreadsheet.rows.slice(index, index + actualCount);
 
+    // 削除される行を参照している数式を#REF!に、以降の行への参照を上にずらす
+    const change: Omit<GridChange, 'sheetName'> = {
+      axis: 'row',
+      operation: 'delete',
+      index,
+      count: actualCount
+    };
+    const { cells, formulaChanges } = adjustSheetFormulas(spreadsheet, change);
+
     // 削除される行のセルデータを保存
     const deletedCells: { position: CellPosition; cell: Cell }[] = [];
     const newCells = new Map<string, Cell>();
 
-    for (const [key, cell] of spreadsheet.cells) {
+    for (const [key, cell] of cells) {
       const position = JSON.parse(`{"row":${key.split('-')[0]},"column":${key.split('-')[1]}}`);
 
       if (position.row >= index && position.row < index + actualCount) {
@@ -178,6 +268,7 @@ export function deleteRowsAt(
 
     const updatedSpreadsheet: Spreadsheet = {
       ...spreadsheet,
+      ...adjustSheetConditionalFormats(spreadsheet, change),
       rows: newRows,
       rowCount: spreadsheet.rowCount - actualCount,
       cells: newCells,
@@ -189,6 +280,8 @@ export function deleteRowsAt(
       affectedRows: Array.from({ length: actualCount }, (_, i) => index + i),
       deletedRows,
       deletedCells,
+      formulaChanges,
+      conditionalFormatChanges: getConditionalFormatChanges(spreadsheet, updatedSpreadsheet),
       spreadsheet: updatedSpreadsheet
     };
   } catch (error) {
@@ -220,10 +313,14 @@ export function insertColumnsAt(
     // 新しい列を挿入
     const newColumns = insertColumns(spreadsheet.columns, index, count);
 
+    // 挿入位置以降を参照している数式を書き換える
+    const change: Omit<GridChange, 'sheetName'> = { axis: 'column', operation: 'insert', index, count };
+    const { cells, formulaChanges } = adjustSheetFormulas(spreadsheet, change);
+
     // セルデータを再配置（挿入位置以降のセルを右にシフト）
     const newCells = new Map<string, Cell>();
 
-    for (const [key, cell] of spreadsheet.cells) {
+    for (const [key, cell] of cells) {
       const position = JSON.parse(`{"row":${key.split('-')[0]},"column":${key.split('-')[1]}}`);
 
       if (position.column >= index) {
@@ -238,6 +335,7 @@ export function insertColumnsAt(
 
     const updatedSpreadsheet: Spreadsheet = {
       ...spreadsheet,
+      ...adjustSheetConditionalFormats(spreadsheet, change),
       columns: newColumns,
       columnCount: spreadsheet.columnCount + count,
       cells: newCells,
@@ -248,6 +346,8 @@ export function insertColumnsAt(
       success: true,
       affectedColumns: Array.from({ length: count }, (_, i) => index + i),
       insertedColumns: newColumns.slice(index, index + count),
+      formulaChanges,
+      conditionalFormatChanges: getConditionalFormatChanges(spreadsheet, updatedSpreadsheet),
       spreadsheet: updatedSpreadsheet
     };
   } catch (error) {
@@ -281,11 +381,20 @@ export function deleteColumnsAt(
     // 削除される列の情報を保存
     const deletedColumns = spreadsheet.columns.slice(index, index + actualCount);
 
+    // 削除される列を参照している数式を#REF!に、以降の列への参照を左にずらす
+    const change: Omit<GridChange, 'sheetName'> = {
+      axis: 'column',
+      operation: 'delete',
+      index,
+      count: actualCount
+    };
+    const { cells, formulaChanges } = adjustSheetFormulas(spreadsheet, change);
+
     // 削除される列のセルデータを保存
     const deletedCells: { position: CellPosition; cell: Cell }[] = [];
     const newCells = new Map<string, Cell>();
 
-    for (const [key, cell] of spreadsheet.cells) {
+    for (const [key, cell] of cells) {
       const position = JSON.parse(`{"row":${key.split('-')[0]},"column":${key.split('-')[1]}}`);
 
       if (position.column >= index && position.column < index + actualCount) {
@@ -307,6 +416,7 @@ export function deleteColumnsAt(
 
     const updatedSpreadsheet: Spreadsheet = {
       ...spreadsheet,
+      ...adjustSheetConditionalFormats(spreadsheet, change),
       columns: newColumns,
       columnCount: spreadsheet.columnCount - actualCount,
       cells: newCells,
@@ -318,6 +428,8 @@ export function deleteColumnsAt(
       affectedColumns: Array.from({ length: actualCount }, (_, i) => index + i),
       deletedColumns,
       deletedCells,
+      formulaChanges,
+      conditionalFormatChanges: getConditionalFormatChanges(spreadsheet, updatedSpreadsheet),
       spreadsheet: updatedSpreadsheet
     };
   } catch (error) {
@@ -634,10 +746,20 @@ export function moveRowToPosition(
 
     const newRows = moveRow(spreadsheet.rows, fromIndex, toIndex);
 
+    // 移動した行・ずれた行を参照している数式を書き換える
+    const change: Omit<GridChange, 'sheetName'> = {
+      axis: 'row',
+      operation: 'move',
+      index: fromIndex,
+      count: 1,
+      toIndex
+    };
+    const { cells, formulaChanges } = adjustSheetFormulas(spreadsheet, change);
+
     // セルデータの移動処理
     const newCells = new Map<string, Cell>();
 
-    for (const [key, cell] of spreadsheet.cells) {
+    for (const [key, cell] of cells) {
       const position = JSON.parse(`{"row":${key.split('-')[0]},"column":${key.split('-')[1]}}`);
       let newRowIndex = position.row;
 
@@ -656,6 +778,7 @@ export function moveRowToPosition(
 
     const updatedSpreadsheet: Spreadsheet = {
       ...spreadsheet,
+      ...adjustSheetConditionalFormats(spreadsheet, change),
       rows: newRows,
       cells: newCells,
       updatedAt: new Date()
@@ -664,6 +787,8 @@ export function moveRowToPosition(
     return {
       success: true,
       affectedRows: [fromIndex, toIndex],
+      formulaChanges,
+      conditionalFormatChanges: getConditionalFormatChanges(spreadsheet, updatedSpreadsheet),
       spreadsheet: updatedSpreadsheet
     };
   } catch (error) {
@@ -703,10 +828,20 @@ export function moveColumnToPosition(
 
     const newColumns = moveColumn(spreadsheet.columns, fromIndex, toIndex);
 
+    // 移動した列・ずれた列を参照している数式を書き換える
+    const change: Omit<GridChange, 'sheetName'> = {
+      axis: 'column',
+      operation: 'move',
+      index: fromIndex,
+      count: 1,
+      toIndex
+    };
+    const { cells, formulaChanges } = adjustSheetFormulas(spreadsheet, change);
+
     // セルデータの移動処理
     const newCells = new Map<string, Cell>();
 
-    for (const [key, cell] of spreadsheet.cells) {
+    for (const [key, cell] of cells) {
       const position = JSON.parse(`{"row":${key.split('-')[0]},"column":${key.split('-')[1]}}`);
       let newColumnIndex = position.column;
 
@@ -725,6 +860,7 @@ export function moveColumnToPosition(
 
     const updatedSpreadsheet: Spreadsheet = {
       ...spreadsheet,
+      ...adjustSheetConditionalFormats(spreadsheet, change),
       columns: newColumns,
       cells: newCells,
       updatedAt: new Date()
@@ -733,6 +869,8 @@ export function moveColumnToPosition(
     return {
       success: true,
       affectedColumns: [fromIndex, toIndex],
+      formulaChanges,
+      conditionalFormatChanges: getConditionalFormatChanges(spreadsheet, updatedSpreadsheet),
       spreadsheet: updatedSpreadsheet
     };
   } catch (error) {
@@ -742,4 +880,97 @@ export function moveColumnToPosition(
       spreadsheet
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 行・列操作の履歴エントリーをスプレッドシートに適用する（アンドゥ・リドゥ）
+ * 削除操作のremovedDataには削除結果のdeletedCellsを保持しておく。
+ * アンドゥでは逆操作の後に、参照の書き換えで変更された数式（#REF!になったものを含む）と、
+ * conditionalFormatChangesに保持した操作前の条件付き書式のルール（削除・縮小されたものを含む）を元に戻す
+ */
+export function applyGridHistoryEntry(
+  spreadsheet: Spreadsheet,
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo'
+): GridOperationResult {
+  const operations = direction === 'undo'
+    ? createUndoOperation(entry).rowColumnOperations.reverse()
+    : entry.rowColumnOperations;
+
+  let current = spreadsheet;
+  for (const operation of operations) {
+    const isRow = operation.type === 'row';
+    const count = operation.count ?? 1;
+    let result: GridOperationResult;
+
+    switch (operation.operation) {
+      case 'insert':
+        result = isRow
+          ? insertRowsAt(current, operation.index, count)
+          : insertColumnsAt(current, operation.index, count);
+        break;
+      case 'delete':
+        result = isRow
+          ? deleteRowsAt(current, operation.index, count)
+          : deleteColumnsAt(current, operation.index, count);
+        break;
+      case 'move':
+        result = isRow
+          ? moveRowToPosition(current, operation.index, operation.toIndex ?? operation.index)
+          : moveColumnToPosition(current, operation.index, operation.toIndex ?? operation.index);
+        break;
+      case 'resize':
+        result = isRow
+          ? resizeRowHeight(current, operation.index, operation.newSize ?? DEFAULT_ROW_HEIGHT)
+          : resizeColumnWidth(current, operation.index, operation.newSize ?? DEFAULT_COLUMN_WIDTH);
+        break;
+    }
+
+    if (!result.success) {
+      return { ...result, spreadsheet };
+    }
+    current = result.spreadsheet;
+
+    // 削除を取り消した場合は削除されたセルを復元する
+    if (direction === 'undo' && operation.operation === 'insert' && operation.removedData) {
+      const cells = new Map(current.cells);
+      for (const { position, cell } of operation.removedData as { position: CellPosition; cell: Cell }[]) {
+        cells.set(cellPositionToKey(position), { ...cell, position });
+      }
+      current = { ...current, cells };
+    }
+  }
+
+  if (direction === 'undo' && entry.cellChanges.length > 0) {
+    const cells = new Map(current.cells);
+    const normalizedSheetName = spreadsheet.name.toLowerCase();
+
+    for (const change of entry.cellChanges) {
+      if (change.position.sheetName !== undefined && change.position.sheetName.toLowerCase() !== normalizedSheetName) {
+        continue;
+      }
+
+      const position = { row: change.position.row, column: change.position.column };
+      const key = cellPositionToKey(position);
+      cells.set(key, updateCellValue(cells.get(key) || createEmptyCell(position), change.oldValue));
+    }
+    current = { ...current, cells };
+  }
+
+  if (direction === 'undo') {
+    const normalizedSheetName = spreadsheet.name.toLowerCase();
+    const conditionalFormatChange = entry.conditionalFormatChanges?.find(change =>
+      change.sheetName === undefined || change.sheetName.toLowerCase() === normalizedSheetName);
+    if (conditionalFormatChange) {
+      current = { ...current, conditionalFormats: conditionalFormatChange.oldRules };
+    }
+  }
+
+  return {
+    success: true,
+    affectedCells: entry.metadata.affectedCells,
+    affectedRows: entry.metadata.affectedRows,
+    affectedColumns: entry.metadata.affectedColumns,
+    spreadsheet: { ...current, updatedAt: new Date() }
+  };
+}
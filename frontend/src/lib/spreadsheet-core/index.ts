@@ -17,6 +17,7 @@ import {
   Cell,
   CellPosition,
   createEmptyCell,
+  isSpillChild,
   updateCellValue,
   updateCellFormat,
   CellFormat,
@@ -99,6 +100,13 @@ export function setCellValue(
 
     // 既存のセルを取得または新しいセルを作成
     let cell = getCellFromSpreadsheet(spreadsheet, position);
+    if (isSpillChild(cell)) {
+      return {
+        success: false,
+        error: '配列数式の展開先のセルは編集できません',
+        spreadsheet
+      };
+    }
     if (!cell) {
       cell = createEmptyCell(position);
     }
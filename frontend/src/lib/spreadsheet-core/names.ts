@@ -0,0 +1,286 @@
+/**
+ * Name Manager
+ * 名前付き範囲の作成・更新・削除・一覧などの名前の管理操作
+ */
+
+import { Cell, CellDataType, updateCellValue } from '../cell';
+import { formatSheetName, rewriteReferences, renameNameInFormula, validateFormula } from '../formula';
+import {
+  NamedRange,
+  createNamedRange,
+  normalizeRefersTo,
+  validateNameSyntax,
+  findNamedRange
+} from '../named-range';
+import { Workbook, getActiveSheet, getSheetByName } from '../workbook';
+import { WorkbookOperationResult } from './workbook';
+
+/**
+ * 名前の更新内容
+ */
+export interface NamedRangeChanges {
+  name?: string;
+  refersTo?: string;
+  scope?: string | null;  // nullでワークブックスコープに変更
+  comment?: string;
+}
+
+/**
+ * 参照先の式を正規化する
+ * Excelの名前の定義と同様に、セル参照はシート名で修飾した絶対参照（Sheet1!$A$1）に変換する
+ */
+function normalizeNameReferences(refersTo: string, sheetName: string): string {
+  return rewriteReferences(normalizeRefersTo(refersTo), (reference, referenceSheetName) => {
+    const absolute = reference
+      .split(':')
+      .map(part => part.replace(/^\$?([A-Za-z]+)\$?(\d+)$/, (_, column, row) => `$${column.toUpperCase()}$${row}`))
+      .join(':');
+    return `${formatSheetName(referenceSheetName ?? sheetName)}!${absolute}`;
+  });
+}
+
+/**
+ * 名前の定義内容を検証する（問題がなければundefined）
+ */
+function getNamedRangeError(
+  workbook: Workbook,
+  name: string,
+  refersTo: string,
+  scope: string | undefined,
+  excludeId?: string
+): string | undefined {
+  const syntax = validateNameSyntax(name);
+  if (!syntax.isValid) {
+    return syntax.error;
+  }
+
+  if (scope !== undefined && !getSheetByName(workbook, scope)) {
+    return `スコープのシートが見つかりません: ${scope}`;
+  }
+
+  const normalizedName = name.trim().toLowerCase();
+  const normalizedScope = scope?.toLowerCase();
+  const duplicate = workbook.names.find(namedRange =>
+    namedRange.id !== excludeId &&
+    namedRange.name.toLowerCase() === normalizedName &&
+    namedRange.scope?.toLowerCase() === normalizedScope
+  );
+  if (duplicate) {
+    return '同じスコープに同じ名前が既に存在します';
+  }
+
+  if (!refersTo.trim() || refersTo.trim() === '=') {
+    return '参照範囲が必要です';
+  }
+
+  const validation = validateFormula(normalizeRefersTo(refersTo));
+  if (!validation.isValid) {
+    return validation.errors[0].message;
+  }
+
+  return undefined;
+}
+
+/**
+ * 名前の変更に合わせて、その名前を参照している数式を書き換える
+ * シートスコープの名前はそのシートの数式のみ、ワークブックスコープの名前は同名のシートスコープの名前がないシートの数式を対象とする
+ */
+function renameNameInWorkbook(workbook: Workbook, target: NamedRange, newName: string): Workbook['sheets'] {
+  return workbook.sheets.map(sheet => {
+    const resolved = findNamedRange(workbook.names, target.name, sheet.name);
+    if (resolved?.id !== target.id) {
+      return sheet;
+    }
+
+    let newCells: Map<string, Cell> | null = null;
+    for (const [key, cell] of sheet.cells) {
+      if (cell.dataType !== CellDataType.FORMULA) continue;
+
+      const rewritten = renameNameInFormula(cell.rawValue, target.name, newName);
+      if (rewritten !== cell.rawValue) {
+        newCells = newCells || new Map(sheet.cells);
+        newCells.set(key, updateCellValue(cell, rewritten));
+      }
+    }
+
+    return newCells ? { ...sheet, cells: newCells, updatedAt: new Date() } : sheet;
+  });
+}
+
+/**
+ * 名前を変更した場合に、その名前を参照している名前の定義（LAMBDAの関数の呼び出しを含む）を書き換える
+ */
+function renameNameInDefinitions(workbook: Workbook, target: NamedRange, newName: string): NamedRange[] {
+  return workbook.names.map(namedRange => {
+    const resolved = findNamedRange(workbook.names, target.name, namedRange.scope);
+    if (resolved?.id !== target.id) {
+      return namedRange;
+    }
+    const refersTo = renameNameInFormula(namedRange.refersTo, target.name, newName);
+    return refersTo !== namedRange.refersTo ? { ...namedRange, refersTo, updatedAt: new Date() } : namedRange;
+  });
+}
+
+/**
+ * 名前の一覧を取得する（名前順）
+ * スコープを指定した場合はそのシートのスコープの名前のみ、nullの場合はワークブックスコープの名前のみを返す
+ */
+export function listNames(workbook: Workbook, scope?: string | null): NamedRange[] {
+  return workbook.names
+    .filter(namedRange => {
+      if (scope === undefined) return true;
+      if (scope === null) return namedRange.scope === undefined;
+      return namedRange.scope?.toLowerCase() === scope.toLowerCase();
+    })
+    .sort((a, b) => a.name.localeCompare(b.name) || (a.scope ?? '').localeCompare(b.scope ?? ''));
+}
+
+/**
+ * 名前を作成する
+ */
+export function createName(
+  workbook: Workbook,
+  name: string,
+  refersTo: string,
+  options: { scope?: string; comment?: string } = {}
+): WorkbookOperationResult<NamedRange> {
+  try {
+    const scopeSheet = options.scope !== undefined ? getSheetByName(workbook, options.scope) : undefined;
+    const scope = scopeSheet?.name ?? options.scope;
+
+    const error = getNamedRangeError(workbook, name, refersTo, scope);
+    if (error) {
+      return {
+        success: false,
+        error,
+        workbook
+      };
+    }
+
+    // シート名を省略した参照は、スコープのシート（ワークブックスコープの場合はアクティブシート）を指す
+    const sheetName = scopeSheet?.name ?? getActiveSheet(workbook).name;
+    const namedRange = createNamedRange(
+      name,
+      normalizeNameReferences(refersTo, sheetName),
+      scope,
+      options.comment
+    );
+
+    return {
+      success: true,
+      data: namedRange,
+      workbook: {
+        ...workbook,
+        names: [...workbook.names, namedRange],
+        updatedAt: new Date()
+      }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '名前の作成に失敗しました',
+      workbook
+    };
+  }
+}
+
+/**
+ * 名前を更新する（名前を変更した場合は参照している数式も書き換える）
+ */
+export function updateName(
+  workbook: Workbook,
+  nameId: string,
+  changes: NamedRangeChanges
+): WorkbookOperationResult<NamedRange> {
+  try {
+    const existing = workbook.names.find(namedRange => namedRange.id === nameId);
+    if (!existing) {
+      return {
+        success: false,
+        error: '名前が見つかりません',
+        workbook
+      };
+    }
+
+    const name = changes.name !== undefined ? changes.name.trim() : existing.name;
+    const refersTo = changes.refersTo ?? existing.refersTo;
+    const requestedScope = changes.scope === undefined ? existing.scope : changes.scope ?? undefined;
+    const scopeSheet = requestedScope !== undefined ? getSheetByName(workbook, requestedScope) : undefined;
+    const scope = scopeSheet?.name ?? requestedScope;
+
+    const error = getNamedRangeError(workbook, name, refersTo, scope, nameId);
+    if (error) {
+      return {
+        success: false,
+        error,
+        workbook
+      };
+    }
+
+    const sheetName = scopeSheet?.name ?? getActiveSheet(workbook).name;
+    const comment = changes.comment ?? existing.comment;
+    const renamed = name !== existing.name;
+    const normalizedRefersTo = normalizeNameReferences(refersTo, sheetName);
+    const updated: NamedRange = {
+      id: existing.id,
+      name,
+      // 再帰的なLAMBDAの関数は自身の呼び出しも書き換える
+      refersTo: renamed ? renameNameInFormula(normalizedRefersTo, existing.name, name) : normalizedRefersTo,
+      ...(scope !== undefined ? { scope } : {}),
+      ...(comment ? { comment } : {}),
+      createdAt: existing.createdAt,
+      updatedAt: new Date()
+    };
+
+    const sheets = renamed
+      ? renameNameInWorkbook(workbook, existing, name)
+      : workbook.sheets;
+    const names = renamed
+      ? renameNameInDefinitions(workbook, existing, name)
+      : workbook.names;
+
+    return {
+      success: true,
+      data: updated,
+      workbook: {
+        ...workbook,
+        sheets,
+        names: names.map(namedRange => (namedRange.id === nameId ? updated : namedRange)),
+        updatedAt: new Date()
+      }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '名前の更新に失敗しました',
+      workbook
+    };
+  }
+}
+
+/**
+ * 名前を削除する（参照している数式は#NAME?になる）
+ */
+export function deleteName(
+  workbook: Workbook,
+  nameId: string
+): WorkbookOperationResult<NamedRange> {
+  const existing = workbook.names.find(namedRange => namedRange.id === nameId);
+  if (!existing) {
+    return {
+      success: false,
+      error: '名前が見つかりません',
+      workbook
+    };
+  }
+
+  return {
+    success: true,
+    data: existing,
+    workbook: {
+      ...workbook,
+      names: workbook.names.filter(namedRange => namedRange.id !== nameId),
+      updatedAt: new Date()
+    }
+  };
+}
@@ -14,7 +14,10 @@ import {
   updateCellFormat,
   calculateDisplayValue
 } from '../cell';
-import { Selection, getAllSelectedCellPositions } from '../selection';
+import { Selection, SelectionBounds, getAllSelectedCellPositions } from '../selection';
+import { offsetFormulaReferences } from '../formula';
+import { detectFillSeries, getFillSeriesValue } from '../fill-series';
+import { dateTextToSerial, isValidDateSerial, serialToDateText } from '../date-serial';
 
 /**
  * セル操作の結果
@@ -488,7 +491,10 @@ export function convertCellType(
         // そのまま文字列として扱う
         break;
       case CellDataType.NUMBER:
-        const numValue = parseFloat(existingCell.rawValue);
+        // 日付はシリアル値に変換する
+        const numValue = existingCell.dataType === CellDataType.DATE
+          ? dateTextToSerial(existingCell.rawValue) ?? NaN
+          : parseFloat(existingCell.rawValue);
         if (isNaN(numValue)) {
           return {
             success: false,
@@ -500,8 +506,11 @@ export function convertCellType(
         convertedValue = numValue.toString();
         break;
       case CellDataType.DATE:
-        const dateValue = new Date(existingCell.rawValue);
-        if (isNaN(dateValue.getTime())) {
+        // 数値はシリアル値として扱う
+        const dateSerial = existingCell.dataType === CellDataType.NUMBER
+          ? parseFloat(existingCell.rawValue)
+          : dateTextToSerial(existingCell.rawValue);
+        if (dateSerial === null || !isValidDateSerial(dateSerial)) {
           return {
             success: false,
             error: '日付に変換できません',
@@ -509,7 +518,7 @@ export function convertCellType(
             spreadsheet
           };
         }
-        convertedValue = dateValue.toISOString().split('T')[0];
+        convertedValue = serialToDateText(dateSerial);
         break;
       case CellDataType.BOOLEAN:
         const lowerValue = existingCell.rawValue.toLowerCase();
@@ -543,8 +552,38 @@ export function convertCellType(
   }
 }
 
+/**
+ * 元のセルの値と書式を複写先のセルに設定する
+ * 数式は複写先までの移動量だけ相対参照をずらし、それ以外は指定した値を設定する
+ */
+function fillCell(
+  spreadsheet: Spreadsheet,
+  sourcePosition: CellPosition,
+  targetPosition: CellPosition,
+  value: string
+): Spreadsheet {
+  const sourceCell = getCellFromSpreadsheet(spreadsheet, sourcePosition);
+  const fillValue = sourceCell?.dataType === CellDataType.FORMULA
+    ? offsetFormulaReferences(
+        sourceCell.rawValue,
+        targetPosition.row - sourcePosition.row,
+        targetPosition.column - sourcePosition.column,
+        spreadsheet
+      )
+    : value;
+
+  const targetCell = getCellFromSpreadsheet(spreadsheet, targetPosition) || createEmptyCell(targetPosition);
+  const updatedCell = updateCellValue(targetCell, fillValue);
+
+  // ソースセルの書式もコピー
+  const formattedCell = sourceCell ? updateCellFormat(updatedCell, sourceCell.format) : updatedCell;
+
+  return setCellInSpreadsheet(spreadsheet, targetPosition, formattedCell);
+}
+
 /**
  * セルに自動入力（オートフィル）を適用する
+ * 元のセルの値から連続データ（数値・日付・曜日・月・末尾の数値）を判定し、元のセルからの距離に応じた値を入力する
  */
 export function autoFillCells(
   spreadsheet: Spreadsheet,
@@ -563,29 +602,95 @@ export function autoFillCells(
       };
     }
 
+    const series = detectFillSeries([sourceCell.rawValue]);
     const affectedCells: CellPosition[] = [];
     let currentSpreadsheet = spreadsheet;
 
     for (const targetPos of targetPositions) {
-      // 簡単なオートフィル実装（数値の場合は連番、それ以外はコピー）
-      let fillValue = sourceCell.rawValue;
-
-      if (sourceCell.dataType === CellDataType.NUMBER) {
-        const baseNum = parseFloat(sourceCell.rawValue);
-        if (!isNaN(baseNum)) {
-          const distance = Math.abs(targetPos.row - sourcePosition.row) + Math.abs(targetPos.column - sourcePosition.column);
-          fillValue = (baseNum + distance).toString();
-        }
-      }
+      const distance = (targetPos.row - sourcePosition.row) + (targetPos.column - sourcePosition.column);
+      currentSpreadsheet = fillCell(currentSpreadsheet, sourcePosition, targetPos, getFillSeriesValue(series, distance));
+      affectedCells.push(targetPos);
+    }
+
+    return {
+      success: true,
+      affectedCells,
+      spreadsheet: currentSpreadsheet
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'オートフィルに失敗しました',
+      affectedCells: [],
+      spreadsheet
+    };
+  }
+}
 
-      const targetCell = getCellFromSpreadsheet(currentSpreadsheet, targetPos) || createEmptyCell(targetPos);
-      const updatedCell = updateCellValue(targetCell, fillValue);
+/**
+ * 元の範囲を広げた範囲にオートフィルを適用する（フィルハンドルのドラッグ）
+ * 広げる方向の1行・1列ごとに元の値から連続データを判定し、広げた部分に続きの値を入力する
+ */
+export function autoFillRange(
+  spreadsheet: Spreadsheet,
+  source: SelectionBounds,
+  target: SelectionBounds
+): CellOperationResult {
+  try {
+    const isVertical = target.minColumn === source.minColumn && target.maxColumn === source.maxColumn;
+    const isHorizontal = target.minRow === source.minRow && target.maxRow === source.maxRow;
+    const containsSource = target.minRow <= source.minRow && target.maxRow >= source.maxRow &&
+      target.minColumn <= source.minColumn && target.maxColumn >= source.maxColumn;
 
-      // ソースセルの書式もコピー
-      const formattedCell = updateCellFormat(updatedCell, sourceCell.format);
+    if (!containsSource || (!isVertical && !isHorizontal)) {
+      return {
+        success: false,
+        error: 'オートフィルの範囲は元の範囲を行または列の方向に広げた範囲である必要があります',
+        affectedCells: [],
+        spreadsheet
+      };
+    }
 
-      currentSpreadsheet = setCellInSpreadsheet(currentSpreadsheet, targetPos, formattedCell);
-      affectedCells.push(targetPos);
+    if (target.maxRow >= spreadsheet.rowCount || target.maxColumn >= spreadsheet.columnCount ||
+        target.minRow < 0 || target.minColumn < 0) {
+      return {
+        success: false,
+        error: 'オートフィルの範囲がシートの範囲外です',
+        affectedCells: [],
+        spreadsheet
+      };
+    }
+
+    const affectedCells: CellPosition[] = [];
+    let currentSpreadsheet = spreadsheet;
+
+    // 縦方向は列ごと、横方向は行ごとに連続データを判定する
+    const lineStart = isVertical ? source.minColumn : source.minRow;
+    const lineEnd = isVertical ? source.maxColumn : source.maxRow;
+    const sourceStart = isVertical ? source.minRow : source.minColumn;
+    const sourceEnd = isVertical ? source.maxRow : source.maxColumn;
+    const targetStart = isVertical ? target.minRow : target.minColumn;
+    const targetEnd = isVertical ? target.maxRow : target.maxColumn;
+    const sourceLength = sourceEnd - sourceStart + 1;
+    const toPosition = (line: number, index: number): CellPosition =>
+      isVertical ? { row: index, column: line } : { row: line, column: index };
+
+    for (let line = lineStart; line <= lineEnd; line++) {
+      const values: string[] = [];
+      for (let index = sourceStart; index <= sourceEnd; index++) {
+        values.push(getCellFromSpreadsheet(spreadsheet, toPosition(line, index))?.rawValue ?? '');
+      }
+      const series = detectFillSeries(values);
+
+      for (let index = targetStart; index <= targetEnd; index++) {
+        if (index >= sourceStart && index <= sourceEnd) continue;
+
+        const seriesIndex = index - sourceStart;
+        const sourcePosition = toPosition(line, sourceStart + ((seriesIndex % sourceLength) + sourceLength) % sourceLength);
+        const targetPosition = toPosition(line, index);
+        currentSpreadsheet = fillCell(currentSpreadsheet, sourcePosition, targetPosition, getFillSeriesValue(series, seriesIndex));
+        affectedCells.push(targetPosition);
+      }
     }
 
     return {
@@ -601,4 +706,83 @@ export function autoFillCells(
       spreadsheet
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 範囲の先頭の行・列を残りのセルに複写する（下方向・右方向へのコピー）
+ * 範囲が1行（1列）の場合は、1つ上の行（1つ左の列）を複写する
+ */
+function fillFromEdge(
+  spreadsheet: Spreadsheet,
+  bounds: SelectionBounds,
+  direction: 'down' | 'right'
+): CellOperationResult {
+  const isDown = direction === 'down';
+  const first = isDown ? bounds.minRow : bounds.minColumn;
+  const last = isDown ? bounds.maxRow : bounds.maxColumn;
+  const sourceIndex = first === last ? first - 1 : first;
+  const targetStart = first === last ? first : first + 1;
+
+  if (sourceIndex < 0) {
+    return {
+      success: false,
+      error: isDown ? '複写元の行がありません' : '複写元の列がありません',
+      affectedCells: [],
+      spreadsheet
+    };
+  }
+
+  const affectedCells: CellPosition[] = [];
+  let currentSpreadsheet = spreadsheet;
+  const lineStart = isDown ? bounds.minColumn : bounds.minRow;
+  const lineEnd = isDown ? bounds.maxColumn : bounds.maxRow;
+
+  for (let line = lineStart; line <= lineEnd; line++) {
+    const sourcePosition = isDown ? { row: sourceIndex, column: line } : { row: line, column: sourceIndex };
+    const value = getCellFromSpreadsheet(spreadsheet, sourcePosition)?.rawValue ?? '';
+
+    for (let index = targetStart; index <= last; index++) {
+      const targetPosition = isDown ? { row: index, column: line } : { row: line, column: index };
+      currentSpreadsheet = fillCell(currentSpreadsheet, sourcePosition, targetPosition, value);
+      affectedCells.push(targetPosition);
+    }
+  }
+
+  return {
+    success: true,
+    affectedCells,
+    spreadsheet: currentSpreadsheet
+  };
+}
+
+/**
+ * 下方向へコピーする（Ctrl+D）
+ */
+export function fillDown(spreadsheet: Spreadsheet, bounds: SelectionBounds): CellOperationResult {
+  try {
+    return fillFromEdge(spreadsheet, bounds, 'down');
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '下方向へのコピーに失敗しました',
+      affectedCells: [],
+      spreadsheet
+    };
+  }
+}
+
+/**
+ * 右方向へコピーする（Ctrl+R）
+ */
+export function fillRight(spreadsheet: Spreadsheet, bounds: SelectionBounds): CellOperationResult {
+  try {
+    return fillFromEdge(spreadsheet, bounds, 'right');
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '右方向へのコピーに失敗しました',
+      affectedCells: [],
+      spreadsheet
+    };
+  }
+}
@@ -0,0 +1,697 @@
+/**
+ * Workbook Operations
+ * シートの追加・名前変更・並び替え・削除・複製などのワークブック操作
+ */
+
+import {
+  Spreadsheet,
+  SpreadsheetConfig,
+  DEFAULT_SPREADSHEET_CONFIG,
+  createSpreadsheet,
+  cellPositionToKey
+} from '../spreadsheet';
+import { Cell, CellDataType, updateCellValue } from '../cell';
+import {
+  GridChange,
+  renameSheetInFormula,
+  invalidateSheetInFormula,
+  adjustReferencesForGridChange
+} from '../formula';
+import { CellChange, ConditionalFormatChange, HistoryEntry, NameChange, createUndoOperation } from '../history';
+import { rewriteConditionalFormatFormulas } from '../conditional-format';
+import { applyGridHistoryEntry } from './grid';
+import {
+  IterativeCalculationSettings,
+  Workbook,
+  createWorkbook,
+  getIterativeCalculationSettings,
+  validateIterativeCalculationSettings,
+  getSheetById,
+  getSheetByName,
+  getSheetIndex,
+  validateSheetName,
+  generateSheetName
+} from '../workbook';
+
+/**
+ * ワークブック操作の結果
+ */
+export interface WorkbookOperationResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  workbook: Workbook;
+}
+
+/**
+ * 全シートの数式セルと条件付き書式の数式を書き換える（変更のないシートはそのまま返す）
+ */
+function rewriteWorkbookFormulas(
+  sheets: Spreadsheet[],
+  rewrite: (formula: string) => string
+): Spreadsheet[] {
+  return sheets.map(sheet => {
+    let newCells: Map<string, Cell> | null = null;
+
+    for (const [key, cell] of sheet.cells) {
+      if (cell.dataType !== CellDataType.FORMULA) continue;
+
+      const rewritten = rewrite(cell.rawValue);
+      if (rewritten !== cell.rawValue) {
+        newCells = newCells || new Map(sheet.cells);
+        newCells.set(key, updateCellValue(cell, rewritten));
+      }
+    }
+
+    const conditionalFormats = sheet.conditionalFormats &&
+      rewriteConditionalFormatFormulas(sheet.conditionalFormats, rewrite);
+
+    if (!newCells && conditionalFormats === sheet.conditionalFormats) return sheet;
+    return {
+      ...sheet,
+      cells: newCells ?? sheet.cells,
+      ...(conditionalFormats && { conditionalFormats }),
+      updatedAt: new Date()
+    };
+  });
+}
+
+/**
+ * 新しいワークブックを作成する
+ */
+export function createNewWorkbook(
+  name?: string,
+  sheetNames?: string[],
+  config?: Partial<SpreadsheetConfig>
+): WorkbookOperationResult<Workbook> {
+  try {
+    const finalConfig = { ...DEFAULT_SPREADSHEET_CONFIG, ...config };
+    const workbook = createWorkbook(name, sheetNames, finalConfig);
+
+    return {
+      success: true,
+      data: workbook,
+      workbook
+    };
+  } catch (error) {
+    const emptyWorkbook = createWorkbook();
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'ワークブックの作成に失敗しました',
+      workbook: emptyWorkbook
+    };
+  }
+}
+
+/**
+ * シートを追加する（位置を省略した場合は末尾に追加）
+ */
+export function addSheet(
+  workbook: Workbook,
+  sheetName?: string,
+  position?: number,
+  config?: Partial<SpreadsheetConfig>
+): WorkbookOperationResult<Spreadsheet> {
+  try {
+    const name = sheetName?.trim() || generateSheetName(workbook);
+    const validation = validateSheetName(workbook, name);
+    if (!validation.isValid) {
+      return {
+        success: false,
+        error: validation.error,
+        workbook
+      };
+    }
+
+    // 既存シートと同じグリッドサイズで作成する
+    const template = workbook.sheets[0];
+    const finalConfig: SpreadsheetConfig = {
+      ...DEFAULT_SPREADSHEET_CONFIG,
+      ...(template ? { maxRows: template.rowCount, maxColumns: template.columnCount } : {}),
+      ...config
+    };
+    const sheet = createSpreadsheet(name, finalConfig);
+
+    const insertAt = position === undefined
+      ? workbook.sheets.length
+      : Math.max(0, Math.min(position, workbook.sheets.length));
+    const sheets = [...workbook.sheets];
+    sheets.splice(insertAt, 0, sheet);
+
+    return {
+      success: true,
+      data: sheet,
+      workbook: {
+        ...workbook,
+        sheets,
+        updatedAt: new Date()
+      }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'シートの追加に失敗しました',
+      workbook
+    };
+  }
+}
+
+/**
+ * シート名を変更する
+ */
+export function renameSheet(
+  workbook: Workbook,
+  sheetId: string,
+  newName: string
+): WorkbookOperationResult<Spreadsheet> {
+  try {
+    const sheet = getSheetById(workbook, sheetId);
+    if (!sheet) {
+      return {
+        success: false,
+        error: 'シートが見つかりません',
+        workbook
+      };
+    }
+
+    const name = newName.trim();
+    const validation = validateSheetName(workbook, name, sheetId);
+    if (!validation.isValid) {
+      return {
+        success: false,
+        error: validation.error,
+        workbook
+      };
+    }
+
+    // 旧シート名を参照している数式を新しい名前に書き換える
+    const sheets = rewriteWorkbookFormulas(workbook.sheets, formula =>
+      renameSheetInFormula(formula, sheet.name, name)
+    ).map(s => (s.id === sheetId ? { ...s, name, updatedAt: new Date() } : s));
+
+    // 名前の参照先とスコープも新しいシート名に合わせる
+    const normalizedOldName = sheet.name.toLowerCase();
+    const names = workbook.names.map(namedRange => ({
+      ...namedRange,
+      refersTo: renameSheetInFormula(namedRange.refersTo, sheet.name, name),
+      ...(namedRange.scope?.toLowerCase() === normalizedOldName ? { scope: name } : {})
+    }));
+
+    return {
+      success: true,
+      data: sheets.find(s => s.id === sheetId),
+      workbook: {
+        ...workbook,
+        sheets,
+        names,
+        updatedAt: new Date()
+      }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'シート名の変更に失敗しました',
+      workbook
+    };
+  }
+}
+
+/**
+ * シートを指定位置へ移動する
+ */
+export function moveSheet(
+  workbook: Workbook,
+  sheetId: string,
+  toIndex: number
+): WorkbookOperationResult<number> {
+  try {
+    const fromIndex = getSheetIndex(workbook, sheetId);
+    if (fromIndex === -1) {
+      return {
+        success: false,
+        error: 'シートが見つかりません',
+        workbook
+      };
+    }
+
+    if (toIndex < 0 || toIndex >= workbook.sheets.length) {
+      return {
+        success: false,
+        error: '移動先の位置が範囲外です',
+        workbook
+      };
+    }
+
+    if (fromIndex === toIndex) {
+      return {
+        success: true,
+        data: toIndex,
+        workbook
+      };
+    }
+
+    const sheets = [...workbook.sheets];
+    const [movedSheet] = sheets.splice(fromIndex, 1);
+    sheets.splice(toIndex, 0, movedSheet);
+
+    return {
+      success: true,
+      data: toIndex,
+      workbook: {
+        ...workbook,
+        sheets,
+        updatedAt: new Date()
+      }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'シートの移動に失敗しました',
+      workbook
+    };
+  }
+}
+
+/**
+ * シートを削除する（最後の1枚は削除できない）
+ */
+export function deleteSheet(
+  workbook: Workbook,
+  sheetId: string
+): WorkbookOperationResult<Spreadsheet> {
+  try {
+    const index = getSheetIndex(workbook, sheetId);
+    if (index === -1) {
+      return {
+        success: false,
+        error: 'シートが見つかりません',
+        workbook
+      };
+    }
+
+    if (workbook.sheets.length <= 1) {
+      return {
+        success: false,
+        error: 'ワークブックには少なくとも1つのシートが必要です',
+        workbook
+      };
+    }
+
+    const deletedSheet = workbook.sheets[index];
+
+    // 削除したシートへの参照は#REF!に置き換える
+    const sheets = rewriteWorkbookFormulas(
+      workbook.sheets.filter(sheet => sheet.id !== sheetId),
+      formula => invalidateSheetInFormula(formula, deletedSheet.name)
+    );
+
+    // シートスコープの名前は削除し、ワークブックスコープの名前の参照先は#REF!にする
+    const normalizedName = deletedSheet.name.toLowerCase();
+    const names = workbook.names
+      .filter(namedRange => namedRange.scope?.toLowerCase() !== normalizedName)
+      .map(namedRange => ({
+        ...namedRange,
+        refersTo: invalidateSheetInFormula(namedRange.refersTo, deletedSheet.name)
+      }));
+
+    // 削除したシートがアクティブだった場合は隣のシートをアクティブにする
+    const activeSheetId = workbook.activeSheetId === sheetId
+      ? sheets[Math.min(index, sheets.length - 1)].id
+      : workbook.activeSheetId;
+
+    return {
+      success: true,
+      data: deletedSheet,
+      workbook: {
+        ...workbook,
+        sheets,
+        activeSheetId,
+        names,
+        updatedAt: new Date()
+      }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'シートの削除に失敗しました',
+      workbook
+    };
+  }
+}
+
+/**
+ * シートを複製して元のシートの直後に挿入する
+ */
+export function duplicateSheet(
+  workbook: Workbook,
+  sheetId: string,
+  newName?: string
+): WorkbookOperationResult<Spreadsheet> {
+  try {
+    const index = getSheetIndex(workbook, sheetId);
+    if (index === -1) {
+      return {
+        success: false,
+        error: 'シートが見つかりません',
+        workbook
+      };
+    }
+
+    const source = workbook.sheets[index];
+    let name = newName?.trim();
+    if (!name) {
+      // Excelと同様に「Sheet1 (2)」形式の名前を生成する
+      let copyIndex = 2;
+      while (getSheetByName(workbook, `${source.name} (${copyIndex})`)) {
+        copyIndex++;
+      }
+      name = `${source.name} (${copyIndex})`;
+    }
+
+    const validation = validateSheetName(workbook, name);
+    if (!validation.isValid) {
+      return {
+        success: false,
+        error: validation.error,
+        workbook
+      };
+    }
+
+    const now = new Date();
+    const copy: Spreadsheet = {
+      ...source,
+      id: crypto.randomUUID(),
+      name,
+      createdAt: now,
+      updatedAt: now,
+      cells: new Map(source.cells),
+      rows: source.rows.map(row => ({ ...row })),
+      columns: source.columns.map(column => ({ ...column })),
+      ...(source.conditionalFormats && {
+        conditionalFormats: source.conditionalFormats.map(rule => ({ ...rule, id: crypto.randomUUID() }))
+      })
+    };
+    // 複製元のシート名で自シートを参照している数式は、複製先のシートを参照するように書き換える
+    const [copiedSheet] = rewriteWorkbookFormulas([copy], formula =>
+      renameSheetInFormula(formula, source.name, copy.name)
+    );
+
+    const sheets = [...workbook.sheets];
+    sheets.splice(index + 1, 0, copiedSheet);
+
+    // シートスコープの名前は複製先のシートを指す名前として複製する
+    const normalizedSourceName = source.name.toLowerCase();
+    const copiedNames = workbook.names
+      .filter(namedRange => namedRange.scope?.toLowerCase() === normalizedSourceName)
+      .map(namedRange => ({
+        ...namedRange,
+        id: crypto.randomUUID(),
+        scope: copiedSheet.name,
+        refersTo: renameSheetInFormula(namedRange.refersTo, source.name, copiedSheet.name),
+        createdAt: now,
+        updatedAt: now
+      }));
+
+    return {
+      success: true,
+      data: copiedSheet,
+      workbook: {
+        ...workbook,
+        sheets,
+        names: [...workbook.names, ...copiedNames],
+        updatedAt: now
+      }
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'シートの複製に失敗しました',
+      workbook
+    };
+  }
+}
+
+/**
+ * アクティブシートを切り替える
+ */
+export function setActiveSheet(
+  workbook: Workbook,
+  sheetId: string
+): WorkbookOperationResult<Spreadsheet> {
+  const sheet = getSheetById(workbook, sheetId);
+  if (!sheet) {
+    return {
+      success: false,
+      error: 'シートが見つかりません',
+      workbook
+    };
+  }
+
+  return {
+    success: true,
+    data: sheet,
+    workbook: {
+      ...workbook,
+      activeSheetId: sheetId
+    }
+  };
+}
+
+/**
+ * ワークブック内のシートを更新後のシートで置き換える
+ */
+export function updateSheet(
+  workbook: Workbook,
+  sheet: Spreadsheet
+): WorkbookOperationResult<Spreadsheet> {
+  if (getSheetIndex(workbook, sheet.id) === -1) {
+    return {
+      success: false,
+      error: 'シートが見つかりません',
+      workbook
+    };
+  }
+
+  return {
+    success: true,
+    data: sheet,
+    workbook: {
+      ...workbook,
+      sheets: workbook.sheets.map(s => (s.id === sheet.id ? sheet : s)),
+      updatedAt: sheet.updatedAt
+    }
+  };
+}
+
+/**
+ * 反復計算の設定を変更する（指定しない項目は現在の設定のまま）
+ */
+export function setIterativeCalculation(
+  workbook: Workbook,
+  settings: Partial<IterativeCalculationSettings>
+): WorkbookOperationResult<IterativeCalculationSettings> {
+  const validation = validateIterativeCalculationSettings(settings);
+  if (!validation.isValid) {
+    return {
+      success: false,
+      error: validation.error,
+      workbook
+    };
+  }
+
+  const iterativeCalculation = { ...getIterativeCalculationSettings(workbook), ...settings };
+  return {
+    success: true,
+    data: iterativeCalculation,
+    workbook: {
+      ...workbook,
+      iterativeCalculation,
+      updatedAt: new Date()
+    }
+  };
+}
+
+/**
+ * シートの行・列の挿入・削除・移動に合わせて、他のシートの数式と名前の参照先を書き換える
+ * 操作したシート自身の数式はグリッド操作（grid.ts）で書き換える。変更した数式はシート名付きの位置で、
+ * 変更した名前の参照先・条件付き書式のルールはnameChanges・conditionalFormatChangesで返す
+ * （履歴エントリーに保持するとアンドゥで元に戻せる）
+ */
+export function adjustWorkbookReferences(
+  workbook: Workbook,
+  sheetId: string,
+  change: Omit<GridChange, 'sheetName'>
+): WorkbookOperationResult<CellChange[]> & {
+  nameChanges: NameChange[];
+  conditionalFormatChanges: ConditionalFormatChange[];
+} {
+  const changedSheet = getSheetById(workbook, sheetId);
+  if (!changedSheet) {
+    return {
+      success: false,
+      error: 'シートが見つかりません',
+      workbook,
+      nameChanges: [],
+      conditionalFormatChanges: []
+    };
+  }
+
+  const gridChange: GridChange = { ...change, sheetName: changedSheet.name };
+  const formulaChanges: CellChange[] = [];
+  const conditionalFormatChanges: ConditionalFormatChange[] = [];
+
+  const sheets = workbook.sheets.map(sheet => {
+    if (sheet.id === sheetId) return sheet;
+
+    let newCells: Map<string, Cell> | null = null;
+    for (const [key, cell] of sheet.cells) {
+      if (cell.dataType !== CellDataType.FORMULA) continue;
+
+      const rewritten = adjustReferencesForGridChange(cell.rawValue, gridChange, sheet.name);
+      if (rewritten !== cell.rawValue) {
+        newCells = newCells || new Map(sheet.cells);
+        newCells.set(key, updateCellValue(cell, rewritten));
+        formulaChanges.push({
+          position: { ...cell.position, sheetName: sheet.name },
+          oldValue: cell.rawValue,
+          newValue: rewritten,
+          oldDataType: CellDataType.FORMULA,
+          newDataType: CellDataType.FORMULA
+        });
+      }
+    }
+
+    // 条件付き書式の数式の参照も書き換える（適用範囲はそのシートの範囲なので変わらない）
+    const conditionalFormats = sheet.conditionalFormats && rewriteConditionalFormatFormulas(
+      sheet.conditionalFormats,
+      formula => adjustReferencesForGridChange(formula, gridChange, sheet.name)
+    );
+    if (sheet.conditionalFormats && conditionalFormats && conditionalFormats !== sheet.conditionalFormats) {
+      conditionalFormatChanges.push({ sheetName: sheet.name, oldRules: sheet.conditionalFormats, newRules: conditionalFormats });
+    }
+
+    if (!newCells && conditionalFormats === sheet.conditionalFormats) return sheet;
+    return {
+      ...sheet,
+      cells: newCells ?? sheet.cells,
+      ...(conditionalFormats && { conditionalFormats }),
+      updatedAt: new Date()
+    };
+  });
+
+  const nameChanges: NameChange[] = [];
+  const names = workbook.names.map(namedRange => {
+    const refersTo = adjustReferencesForGridChange(namedRange.refersTo, gridChange, namedRange.scope);
+    if (refersTo === namedRange.refersTo) return namedRange;
+
+    nameChanges.push({ id: namedRange.id, oldRefersTo: namedRange.refersTo, newRefersTo: refersTo });
+    return { ...namedRange, refersTo, updatedAt: new Date() };
+  });
+
+  return {
+    success: true,
+    data: formulaChanges,
+    workbook: {
+      ...workbook,
+      sheets,
+      names,
+      updatedAt: new Date()
+    },
+    nameChanges,
+    conditionalFormatChanges
+  };
+}
+
+/**
+ * 行・列操作の履歴エントリーをワークブックに適用する（アンドゥ・リドゥ）
+ * 操作したシートに加えて、他のシートの数式と名前の参照先も追従させる
+ */
+export function applyWorkbookGridHistoryEntry(
+  workbook: Workbook,
+  sheetId: string,
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo'
+): WorkbookOperationResult<Spreadsheet> {
+  const sheet = getSheetById(workbook, sheetId);
+  if (!sheet) {
+    return {
+      success: false,
+      error: 'シートが見つかりません',
+      workbook
+    };
+  }
+
+  const gridResult = applyGridHistoryEntry(sheet, entry, direction);
+  if (!gridResult.success) {
+    return {
+      success: false,
+      error: gridResult.error,
+      workbook
+    };
+  }
+
+  let updated = updateSheet(workbook, gridResult.spreadsheet).workbook;
+
+  // 他のシートの参照を同じ操作（アンドゥでは逆操作）に合わせて書き換える
+  const operations = direction === 'undo'
+    ? createUndoOperation(entry).rowColumnOperations.reverse()
+    : entry.rowColumnOperations;
+  for (const operation of operations) {
+    if (operation.operation === 'resize') continue;
+
+    updated = adjustWorkbookReferences(updated, sheetId, {
+      axis: operation.type,
+      operation: operation.operation,
+      index: operation.index,
+      count: operation.count ?? 1,
+      toIndex: operation.toIndex
+    }).workbook;
+  }
+
+  // アンドゥでは#REF!になった参照を含め、他のシートの数式・条件付き書式のルールと名前の参照先を元に戻す
+  if (direction === 'undo') {
+    const sheetNames = new Set(
+      entry.cellChanges
+        .map(change => change.position.sheetName)
+        .filter((name): name is string => name !== undefined && name.toLowerCase() !== sheet.name.toLowerCase())
+    );
+    const oldConditionalFormats = new Map((entry.conditionalFormatChanges ?? [])
+      .filter(change => change.sheetName !== undefined && change.sheetName.toLowerCase() !== sheet.name.toLowerCase())
+      .map(change => [change.sheetName, change.oldRules]));
+
+    const sheets = updated.sheets.map(target => {
+      const conditionalFormats = oldConditionalFormats.get(target.name);
+      if (conditionalFormats) {
+        target = { ...target, conditionalFormats, updatedAt: new Date() };
+      }
+      if (!sheetNames.has(target.name)) return target;
+
+      const cells = new Map(target.cells);
+      for (const change of entry.cellChanges) {
+        if (change.position.sheetName !== target.name) continue;
+
+        const key = cellPositionToKey(change.position);
+        const cell = cells.get(key);
+        if (cell) {
+          cells.set(key, updateCellValue(cell, change.oldValue));
+        }
+      }
+      return { ...target, cells, updatedAt: new Date() };
+    });
+
+    const oldRefersTo = new Map((entry.nameChanges ?? []).map(change => [change.id, change.oldRefersTo]));
+    const names = updated.names.map(namedRange => {
+      const refersTo = oldRefersTo.get(namedRange.id);
+      return refersTo !== undefined && refersTo !== namedRange.refersTo
+        ? { ...namedRange, refersTo, updatedAt: new Date() }
+        : namedRange;
+    });
+    updated = { ...updated, sheets, names };
+  }
+
+  return {
+    success: true,
+    data: getSheetById(updated, sheetId),
+    workbook: updated
+  };
+}
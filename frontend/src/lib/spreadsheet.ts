@@ -6,6 +6,7 @@
 import { Cell, CellPosition } from './cell';
 import { Row } from './row';
 import { Column } from './column';
+import { ConditionalFormatRule } from './conditional-format';
 
 export interface Spreadsheet {
   id: string;
@@ -17,6 +18,7 @@ export interface Spreadsheet {
   columns: Column[];
   rowCount: number;
   columnCount: number;
+  conditionalFormats?: ConditionalFormatRule[];  // 条件付き書式のルール（先頭ほど優先度が高い）
 }
 
 export interface SpreadsheetConfig {
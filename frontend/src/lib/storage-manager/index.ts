@@ -5,6 +5,7 @@
 
 import localforage from 'localforage';
 import { Spreadsheet } from '../spreadsheet';
+import { Workbook, createWorkbookFromSpreadsheet, getActiveSheet } from '../workbook';
 import { compressionConfig, compressData, decompressData } from './compression';
 
 /**
@@ -100,6 +101,73 @@ export interface SyncConfig {
   compression: boolean;
 }
 
+/**
+ * スプレッドシートを保存用の形式に変換する（Mapを配列に変換）
+ */
+function serializeSpreadsheet(spreadsheet: Spreadsheet): any {
+  return {
+    ...spreadsheet,
+    cells: Array.from(spreadsheet.cells.entries())
+  };
+}
+
+/**
+ * 保存用の形式からスプレッドシートを復元する
+ */
+function deserializeSpreadsheet(data: any): Spreadsheet {
+  const spreadsheetData = { ...data };
+
+  // Mapを復元
+  if (spreadsheetData.cells && Array.isArray(spreadsheetData.cells)) {
+    spreadsheetData.cells = new Map(spreadsheetData.cells);
+  }
+
+  // 日付オブジェクトを復元
+  if (spreadsheetData.createdAt && typeof spreadsheetData.createdAt === 'string') {
+    spreadsheetData.createdAt = new Date(spreadsheetData.createdAt);
+  }
+  if (spreadsheetData.updatedAt && typeof spreadsheetData.updatedAt === 'string') {
+    spreadsheetData.updatedAt = new Date(spreadsheetData.updatedAt);
+  }
+
+  return spreadsheetData as Spreadsheet;
+}
+
+/**
+ * ワークブックを保存用の形式に変換する
+ */
+function serializeWorkbook(workbook: Workbook): any {
+  return {
+    ...workbook,
+    sheets: workbook.sheets.map(serializeSpreadsheet)
+  };
+}
+
+/**
+ * 保存用の形式からワークブックを復元する
+ */
+function deserializeWorkbook(data: any): Workbook {
+  return {
+    ...data,
+    createdAt: typeof data.createdAt === 'string' ? new Date(data.createdAt) : data.createdAt,
+    updatedAt: typeof data.updatedAt === 'string' ? new Date(data.updatedAt) : data.updatedAt,
+    sheets: data.sheets.map(deserializeSpreadsheet),
+    // 名前付き範囲導入前のデータは名前なしとして扱う
+    names: (data.names || []).map((namedRange: any) => ({
+      ...namedRange,
+      createdAt: typeof namedRange.createdAt === 'string' ? new Date(namedRange.createdAt) : namedRange.createdAt,
+      updatedAt: typeof namedRange.updatedAt === 'string' ? new Date(namedRange.updatedAt) : namedRange.updatedAt
+    }))
+  } as Workbook;
+}
+
+/**
+ * 保存データがワークブック形式かどうかを判定する
+ */
+function isSerializedWorkbook(data: any): boolean {
+  return Array.isArray(data?.sheets);
+}
+
 /**
  * Storage Manager クラス
  */
@@ -196,145 +264,221 @@ export class StorageManager {
     metadata?: Partial<StorageItemMetadata>
   ): Promise<StorageOperationResult<boolean>> {
     try {
-      const startTime = performance.now();
-
-      // データを準備
-      let dataToStore: any = {
-        ...spreadsheet,
-        cells: Array.from(spreadsheet.cells.entries()) // Mapを配列に変換
-      };
-
-      let compressed = false;
-      let size = JSON.stringify(dataToStore).length;
-
-      // 圧縮処理
-      if (this.config.compression) {
-        const compressionResult = await compressData(dataToStore);
-        if (compressionResult.success && compressionResult.data) {
-          dataToStore = compressionResult.data;
-          compressed = true;
-          size = compressionResult.compressedSize || size;
-        }
-      }
-
-      // 暗号化処理（将来の実装用）
-      let encrypted = false;
-      if (this.config.encryption) {
-        // 暗号化ロジックをここに実装
-        encrypted = true;
-      }
-
-      // メタデータを作成
-      const itemMetadata: StorageItemMetadata = {
+      return await this.storeItem(
         id,
-        name: spreadsheet.name,
-        type: 'spreadsheet',
-        size,
-        compressed,
-        encrypted,
-        createdAt: metadata?.createdAt || spreadsheet.createdAt,
-        updatedAt: new Date(),
-        version: this.config.version,
-        tags: metadata?.tags || [],
-        ...metadata
+        serializeSpreadsheet(spreadsheet),
+        spreadsheet.name,
+        spreadsheet.createdAt,
+        metadata
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'スプレッドシートの保存に失敗しました'
       };
+    }
+  }
 
-      // データとメタデータを保存
-      await this.storage.setItem(id, dataToStore);
-      await this.metadataStorage.setItem(`${id}_meta`, itemMetadata);
-
-      // バックアップを作成
-      if (this.backupConfig.enabled) {
-        await this.createBackup(id, dataToStore, itemMetadata);
+  /**
+   * スプレッドシートを読み込む
+   * ワークブックとして保存されている場合はアクティブシートを返す
+   */
+  async loadSpreadsheet(id: string): Promise<StorageOperationResult<Spreadsheet>> {
+    try {
+      const result = await this.readItem(id);
+      if (!result.success || !result.data) {
+        return {
+          success: false,
+          error: result.error
+        };
       }
 
-      const processingTime = performance.now() - startTime;
+      const spreadsheet = isSerializedWorkbook(result.data)
+        ? getActiveSheet(deserializeWorkbook(result.data))
+        : deserializeSpreadsheet(result.data);
 
       return {
         success: true,
-        data: true,
-        metadata: {
-          size,
-          compressed,
-          encrypted,
-          timestamp: new Date(),
-          version: this.config.version
-        }
+        data: spreadsheet,
+        metadata: result.metadata
       };
     } catch (error) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'スプレッドシートの保存に失敗しました'
+        error: error instanceof Error ? error.message : 'スプレッドシートの読み込みに失敗しました'
       };
     }
   }
 
   /**
-   * スプレッドシートを読み込む
+   * ワークブック（全シート）を保存する
    */
-  async loadSpreadsheet(id: string): Promise<StorageOperationResult<Spreadsheet>> {
+  async saveWorkbook(
+    id: string,
+    workbook: Workbook,
+    metadata?: Partial<StorageItemMetadata>
+  ): Promise<StorageOperationResult<boolean>> {
     try {
-      // データとメタデータを読み込み
-      const data = await this.storage.getItem(id);
-      const metadata = await this.metadataStorage.getItem(`${id}_meta`) as StorageItemMetadata;
+      return await this.storeItem(
+        id,
+        serializeWorkbook(workbook),
+        workbook.name,
+        workbook.createdAt,
+        metadata
+      );
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'ワークブックの保存に失敗しました'
+      };
+    }
+  }
 
-      if (!data) {
+  /**
+   * ワークブック（全シート）を読み込む
+   * 単一シートとして保存された旧形式のデータは1シートのワークブックに変換する
+   */
+  async loadWorkbook(id: string): Promise<StorageOperationResult<Workbook>> {
+    try {
+      const result = await this.readItem(id);
+      if (!result.success || !result.data) {
         return {
           success: false,
-          error: 'スプレッドシートが見つかりません'
+          error: result.error
         };
       }
 
-      let spreadsheetData: any = data;
+      const workbook = isSerializedWorkbook(result.data)
+        ? deserializeWorkbook(result.data)
+        : createWorkbookFromSpreadsheet(deserializeSpreadsheet(result.data));
 
-      // 復号化処理
-      if (metadata?.encrypted) {
-        // 復号化ロジックをここに実装
-      }
+      return {
+        success: true,
+        data: workbook,
+        metadata: result.metadata
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'ワークブックの読み込みに失敗しました'
+      };
+    }
+  }
 
-      // 解凍処理
-      if (metadata?.compressed) {
-        const decompressionResult = await decompressData(spreadsheetData);
-        if (decompressionResult.success && decompressionResult.data) {
-          spreadsheetData = decompressionResult.data;
-        } else {
-          return {
-            success: false,
-            error: 'データの解凍に失敗しました'
-          };
-        }
+  /**
+   * シリアライズ済みデータを圧縮してメタデータと共に保存する
+   */
+  private async storeItem(
+    id: string,
+    data: any,
+    name: string,
+    createdAt: Date,
+    metadata?: Partial<StorageItemMetadata>
+  ): Promise<StorageOperationResult<boolean>> {
+    let dataToStore: any = data;
+    let compressed = false;
+    let size = JSON.stringify(dataToStore).length;
+
+    // 圧縮処理
+    if (this.config.compression) {
+      const compressionResult = await compressData(dataToStore);
+      if (compressionResult.success && compressionResult.data) {
+        dataToStore = compressionResult.data;
+        compressed = true;
+        size = compressionResult.compressedSize || size;
       }
+    }
 
-      // Mapを復元
-      if (spreadsheetData.cells && Array.isArray(spreadsheetData.cells)) {
-        spreadsheetData.cells = new Map(spreadsheetData.cells);
-      }
+    // 暗号化処理（将来の実装用）
+    let encrypted = false;
+    if (this.config.encryption) {
+      // 暗号化ロジックをここに実装
+      encrypted = true;
+    }
 
-      // 日付オブジェクトを復元
-      if (spreadsheetData.createdAt && typeof spreadsheetData.createdAt === 'string') {
-        spreadsheetData.createdAt = new Date(spreadsheetData.createdAt);
-      }
-      if (spreadsheetData.updatedAt && typeof spreadsheetData.updatedAt === 'string') {
-        spreadsheetData.updatedAt = new Date(spreadsheetData.updatedAt);
+    // メタデータを作成
+    const itemMetadata: StorageItemMetadata = {
+      id,
+      name,
+      type: 'spreadsheet',
+      size,
+      compressed,
+      encrypted,
+      createdAt: metadata?.createdAt || createdAt,
+      updatedAt: new Date(),
+      version: this.config.version,
+      tags: metadata?.tags || [],
+      ...metadata
+    };
+
+    // データとメタデータを保存
+    await this.storage.setItem(id, dataToStore);
+    await this.metadataStorage.setItem(`${id}_meta`, itemMetadata);
+
+    // バックアップを作成
+    if (this.backupConfig.enabled) {
+      await this.createBackup(id, dataToStore, itemMetadata);
+    }
+
+    return {
+      success: true,
+      data: true,
+      metadata: {
+        size,
+        compressed,
+        encrypted,
+        timestamp: new Date(),
+        version: this.config.version
       }
+    };
+  }
 
-      return {
-        success: true,
-        data: spreadsheetData as Spreadsheet,
-        metadata: metadata ? {
-          size: metadata.size,
-          compressed: metadata.compressed,
-          encrypted: metadata.encrypted,
-          timestamp: metadata.updatedAt,
-          version: metadata.version
-        } : undefined
-      };
-    } catch (error) {
+  /**
+   * 保存済みデータを読み込み、解凍したシリアライズ形式のまま返す
+   */
+  private async readItem(id: string): Promise<StorageOperationResult<any>> {
+    // データとメタデータを読み込み
+    const data = await this.storage.getItem(id);
+    const metadata = await this.metadataStorage.getItem(`${id}_meta`) as StorageItemMetadata;
+
+    if (!data) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'スプレッドシートの読み込みに失敗しました'
+        error: 'スプレッドシートが見つかりません'
       };
     }
+
+    let itemData: any = data;
+
+    // 復号化処理
+    if (metadata?.encrypted) {
+      // 復号化ロジックをここに実装
+    }
+
+    // 解凍処理
+    if (metadata?.compressed) {
+      const decompressionResult = await decompressData(itemData);
+      if (decompressionResult.success && decompressionResult.data) {
+        itemData = decompressionResult.data;
+      } else {
+        return {
+          success: false,
+          error: 'データの解凍に失敗しました'
+        };
+      }
+    }
+
+    return {
+      success: true,
+      data: itemData,
+      metadata: metadata ? {
+        size: metadata.size,
+        compressed: metadata.compressed,
+        encrypted: metadata.encrypted,
+        timestamp: metadata.updatedAt,
+        version: metadata.version
+      } : undefined
+    };
   }
 
   /**
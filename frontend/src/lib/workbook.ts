@@ -0,0 +1,272 @@
+/**
+ * ワークブックモデル
+ * 順序付きの名前付きシート（Spreadsheet）を複数保持するエンティティ
+ */
+
+import {
+  Spreadsheet,
+  SpreadsheetConfig,
+  DEFAULT_SPREADSHEET_CONFIG,
+  createSpreadsheet,
+} from './spreadsheet';
+import { NamedRange, validateNameSyntax } from './named-range';
+
+export interface Workbook {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  sheets: Spreadsheet[];
+  activeSheetId: string;
+  names: NamedRange[];    // 名前付き範囲（ワークブック・シートスコープ）
+  iterativeCalculation?: IterativeCalculationSettings;  // 反復計算の設定（省略時は無効）
+}
+
+/**
+ * 反復計算の設定
+ * 有効にすると循環参照を含む数式を、値の変化がmaxChange以下になるかmaxIterations回に達するまで繰り返し計算する
+ */
+export interface IterativeCalculationSettings {
+  enabled: boolean;
+  maxIterations: number;
+  maxChange: number;
+}
+
+/**
+ * 反復計算の設定の既定値（Excelと同じ）
+ */
+export const DEFAULT_ITERATIVE_CALCULATION: IterativeCalculationSettings = {
+  enabled: false,
+  maxIterations: 100,
+  maxChange: 0.001,
+};
+
+/**
+ * 反復計算の最大の回数（Excel互換）
+ */
+export const MAX_ITERATION_LIMIT = 32767;
+
+/**
+ * シート名の最大文字数（Excel互換）
+ */
+export const MAX_SHEET_NAME_LENGTH = 31;
+
+/**
+ * シート名に使用できない文字
+ */
+const INVALID_SHEET_NAME_CHARS = /[\[\]:*?\/\\]/;
+
+/**
+ * 新しいワークブックを作成する関数
+ */
+export function createWorkbook(
+  name: string = '無題のスプレッドシート',
+  sheetNames: string[] = ['Sheet1'],
+  config: SpreadsheetConfig = DEFAULT_SPREADSHEET_CONFIG
+): Workbook {
+  const now = new Date();
+  const sheets = (sheetNames.length > 0 ? sheetNames : ['Sheet1']).map(sheetName =>
+    createSpreadsheet(sheetName, config)
+  );
+
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    sheets,
+    activeSheetId: sheets[0].id,
+    names: [],
+  };
+}
+
+/**
+ * 単一のスプレッドシートからワークブックを作成する関数
+ */
+export function createWorkbookFromSpreadsheet(spreadsheet: Spreadsheet, name?: string): Workbook {
+  return {
+    id: spreadsheet.id,
+    name: name || spreadsheet.name,
+    createdAt: spreadsheet.createdAt,
+    updatedAt: spreadsheet.updatedAt,
+    sheets: [spreadsheet],
+    activeSheetId: spreadsheet.id,
+    names: [],
+  };
+}
+
+/**
+ * アクティブなシートを取得する関数
+ */
+export function getActiveSheet(workbook: Workbook): Spreadsheet {
+  return workbook.sheets.find(sheet => sheet.id === workbook.activeSheetId) || workbook.sheets[0];
+}
+
+/**
+ * IDでシートを取得する関数
+ */
+export function getSheetById(workbook: Workbook, sheetId: string): Spreadsheet | undefined {
+  return workbook.sheets.find(sheet => sheet.id === sheetId);
+}
+
+/**
+ * 名前でシートを取得する関数（大文字小文字を区別しない）
+ */
+export function getSheetByName(workbook: Workbook, sheetName: string): Spreadsheet | undefined {
+  const normalized = sheetName.toLowerCase();
+  return workbook.sheets.find(sheet => sheet.name.toLowerCase() === normalized);
+}
+
+/**
+ * シートの並び順（0始まり）を取得する関数
+ */
+export function getSheetIndex(workbook: Workbook, sheetId: string): number {
+  return workbook.sheets.findIndex(sheet => sheet.id === sheetId);
+}
+
+/**
+ * ワークブックの反復計算の設定を取得する関数（未設定の項目は既定値）
+ */
+export function getIterativeCalculationSettings(workbook: Workbook): IterativeCalculationSettings {
+  return { ...DEFAULT_ITERATIVE_CALCULATION, ...workbook.iterativeCalculation };
+}
+
+/**
+ * 反復計算の設定の妥当性を検証する関数
+ */
+export function validateIterativeCalculationSettings(
+  settings: Partial<IterativeCalculationSettings>
+): { isValid: boolean; error?: string } {
+  if (settings.enabled !== undefined && typeof settings.enabled !== 'boolean') {
+    return { isValid: false, error: '反復計算の有効・無効は真偽値で指定してください' };
+  }
+
+  if (settings.maxIterations !== undefined && (
+    !Number.isInteger(settings.maxIterations) ||
+    settings.maxIterations < 1 ||
+    settings.maxIterations > MAX_ITERATION_LIMIT
+  )) {
+    return { isValid: false, error: `最大反復回数は1から${MAX_ITERATION_LIMIT}までの整数で指定してください` };
+  }
+
+  if (settings.maxChange !== undefined && (
+    typeof settings.maxChange !== 'number' || !Number.isFinite(settings.maxChange) || settings.maxChange < 0
+  )) {
+    return { isValid: false, error: '変化の最大値は0以上の数値で指定してください' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * シート名の書式エラーを取得する（問題がなければundefined）
+ */
+function getSheetNameFormatError(sheetName: string): string | undefined {
+  if (!sheetName) {
+    return 'シート名が必要です';
+  }
+
+  if (sheetName.length > MAX_SHEET_NAME_LENGTH) {
+    return `シート名は${MAX_SHEET_NAME_LENGTH}文字以下である必要があります`;
+  }
+
+  if (INVALID_SHEET_NAME_CHARS.test(sheetName)) {
+    return 'シート名に使用できない文字が含まれています';
+  }
+
+  if (sheetName.startsWith("'") || sheetName.endsWith("'")) {
+    return 'シート名の先頭と末尾にアポストロフィは使用できません';
+  }
+
+  return undefined;
+}
+
+/**
+ * シート名の妥当性を検証する関数
+ */
+export function validateSheetName(
+  workbook: Workbook,
+  sheetName: string,
+  excludeSheetId?: string
+): { isValid: boolean; error?: string } {
+  const trimmed = sheetName.trim();
+
+  const formatError = getSheetNameFormatError(trimmed);
+  if (formatError) {
+    return { isValid: false, error: formatError };
+  }
+
+  const existing = getSheetByName(workbook, trimmed);
+  if (existing && existing.id !== excludeSheetId) {
+    return { isValid: false, error: '同じ名前のシートが既に存在します' };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * 未使用のシート名（Sheet1, Sheet2, ...）を生成する関数
+ */
+export function generateSheetName(workbook: Workbook, prefix: string = 'Sheet'): string {
+  let index = workbook.sheets.length + 1;
+  while (getSheetByName(workbook, `${prefix}${index}`)) {
+    index++;
+  }
+  return `${prefix}${index}`;
+}
+
+/**
+ * ワークブックの妥当性を検証する関数
+ */
+export function validateWorkbook(workbook: Workbook): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!workbook.id) {
+    errors.push('ワークブックIDが必要です');
+  }
+
+  if (workbook.sheets.length === 0) {
+    errors.push('ワークブックには少なくとも1つのシートが必要です');
+  }
+
+  const names = new Set<string>();
+  for (const sheet of workbook.sheets) {
+    const formatError = getSheetNameFormatError(sheet.name);
+    if (formatError) {
+      errors.push(`${formatError}: ${sheet.name}`);
+    }
+
+    const normalized = sheet.name.toLowerCase();
+    if (names.has(normalized)) {
+      errors.push(`シート名が重複しています: ${sheet.name}`);
+    }
+    names.add(normalized);
+  }
+
+  if (!getSheetById(workbook, workbook.activeSheetId)) {
+    errors.push('アクティブシートが存在しません');
+  }
+
+  const definedNames = new Set<string>();
+  for (const namedRange of workbook.names) {
+    const syntax = validateNameSyntax(namedRange.name);
+    if (!syntax.isValid) {
+      errors.push(`${syntax.error}: ${namedRange.name}`);
+    }
+
+    if (namedRange.scope !== undefined && !getSheetByName(workbook, namedRange.scope)) {
+      errors.push(`名前のスコープのシートが存在しません: ${namedRange.name}`);
+    }
+
+    const normalized = `${namedRange.scope?.toLowerCase() ?? ''}!${namedRange.name.toLowerCase()}`;
+    if (definedNames.has(normalized)) {
+      errors.push(`名前が重複しています: ${namedRange.name}`);
+    }
+    definedNames.add(normalized);
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * テスト用のシートの作成
+ * 関数のテストで使う、行ごとの値からシートを作成するヘルパー
+ */
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { Spreadsheet, createSpreadsheet } from '../../src/lib/spreadsheet';
+
+/**
+ * 行ごとの値からシートを作成する（A1から配置し、空文字列のセルは設定しない）
+ */
+export function createSheet(rows: string[][], name: string = 'Sheet1'): Spreadsheet {
+  let spreadsheet = createSpreadsheet(name);
+  rows.forEach((values, row) => values.forEach((value, column) => {
+    if (value !== '') {
+      spreadsheet = setCellValue(spreadsheet, { row, column }, value).spreadsheet;
+    }
+  }));
+  return spreadsheet;
+}
@@ -266,9 +266,9 @@ describe('数式エラーハンドリング統合テスト', () => {
       fireEvent.change(editInput, { target: { value: '=(10+20' } })
       fireEvent.key('Enter')
 
-      // #ERROR!エラーが表示されることを確認
+      // #SYNTAX!エラーが表示されることを確認
       await waitFor(() => {
-        expect(cellE2).toHaveTextContent('#ERROR!')
+        expect(cellE2).toHaveTextContent('#SYNTAX!')
       })
 
       fireEvent.click(cellE2)
@@ -0,0 +1,160 @@
+/**
+ * 配列関数 ユニットテスト
+ * SEQUENCE・FILTER・SORT・SORTBY・UNIQUE・TRANSPOSE・RANDARRAYの結果、隣接するセルへの展開（スピル）と#SPILL!、
+ * スピル範囲の参照（A1#）、展開先のセルの編集の禁止、数式エンジンでの利用
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { Spreadsheet, getCellFromSpreadsheet } from '../../src/lib/spreadsheet';
+import { createFormulaCalculator, createCalculationContext } from '../../src/lib/formula-engine/calculator';
+import { recalculateSpreadsheet } from '../../src/lib/formula-engine/recalculation';
+import { createFormulaEngine } from '../../src/lib/formula-engine';
+import { createSheet } from '../helpers/spreadsheet';
+
+/**
+ * 指定した範囲の表示値を2次元配列で取得する
+ */
+function displayValues(spreadsheet: Spreadsheet, rows: number, columns: number, origin = { row: 0, column: 0 }): string[][] {
+  return Array.from({ length: rows }, (_, row) => Array.from({ length: columns }, (_, column) =>
+    getCellFromSpreadsheet(spreadsheet, { row: origin.row + row, column: origin.column + column })?.displayValue ?? ''));
+}
+
+// A1:A5 は担当者、B1:B5 は売上
+const sales = createSheet([
+  ['佐藤', '300'],
+  ['鈴木', '120'],
+  ['佐藤', '80'],
+  ['田中', '300'],
+  ['鈴木', '250'],
+]);
+
+describe('配列関数', () => {
+  const calculator = createFormulaCalculator();
+  const calculate = (formula: string) => calculator.calculate(formula, createCalculationContext(sales));
+
+  test('SEQUENCE・TRANSPOSEは配列全体をarrayValueに返すこと', () => {
+    expect(calculate('=SEQUENCE(2, 3, 10, 5)')).toMatchObject({ value: 10, arrayValue: [[10, 15, 20], [25, 30, 35]] });
+    expect(calculate('=SEQUENCE(3)').arrayValue).toEqual([[1], [2], [3]]);
+    expect(calculate('=SEQUENCE(0)').value).toBe('#CALC!');
+    expect(calculate('=SEQUENCE(-1)').value).toBe('#VALUE!');
+    expect(calculate('=TRANSPOSE(A1:B2)').arrayValue).toEqual([['佐藤', '鈴木'], [300, 120]]);
+    // 1つの値の結果は配列として扱わない
+    expect(calculate('=SEQUENCE(1)').arrayValue).toBeUndefined();
+  });
+
+  test('FILTERは条件に一致する行・列を返すこと', () => {
+    expect(calculate('=FILTER(A1:B5, B1:B5>=250)').arrayValue).toEqual([['佐藤', 300], ['田中', 300], ['鈴木', 250]]);
+    expect(calculate('=FILTER(B1:B5, A1:A5="佐藤")').arrayValue).toEqual([[300], [80]]);
+    expect(calculate('=SUM(FILTER(B1:B5, A1:A5="鈴木"))').value).toBe(370);
+    expect(calculate('=FILTER(A1:B1, TRANSPOSE(B1:B2)>200)').value).toBe('佐藤');
+    expect(calculate('=FILTER(A1:A5, B1:B5>1000)').value).toBe('#CALC!');
+    expect(calculate('=FILTER(A1:A5, B1:B5>1000, "なし")').value).toBe('なし');
+    expect(calculate('=FILTER(A1:A5, B1:B3>0)').value).toBe('#VALUE!');
+  });
+
+  test('SORT・SORTBYは安定した並べ替えを行うこと', () => {
+    expect(calculate('=SORT(A1:B5, 2, -1)').arrayValue).toEqual([
+      ['佐藤', 300], ['田中', 300], ['鈴木', 250], ['鈴木', 120], ['佐藤', 80],
+    ]);
+    expect(calculate('=SORT(B1:B5)').arrayValue).toEqual([[80], [120], [250], [300], [300]]);
+    // 担当者の昇順、同じ担当者は売上の降順
+    expect(calculate('=SORTBY(B1:B5, A1:A5, 1, B1:B5, -1)').arrayValue).toEqual([[300], [80], [300], [250], [120]]);
+    expect(calculate('=SORT(A1:B5, 3)').value).toBe('#VALUE!');
+    expect(calculate('=SORT(A1:B5, 1, 2)').value).toBe('#VALUE!');
+    expect(calculate('=SORTBY(A1:A5, B1:B4)').value).toBe('#VALUE!');
+  });
+
+  test('UNIQUEは重複を除き、exactly_onceでは1回だけの値を返すこと', () => {
+    expect(calculate('=UNIQUE(A1:A5)').arrayValue).toEqual([['佐藤'], ['鈴木'], ['田中']]);
+    expect(calculate('=UNIQUE(A1:A5, FALSE, TRUE)').value).toBe('田中');
+    expect(calculate('=UNIQUE(B1:B5)').arrayValue).toEqual([[300], [120], [80], [250]]);
+    expect(calculate('=UNIQUE(TRANSPOSE(A1:A3), TRUE)').arrayValue).toEqual([['佐藤', '鈴木']]);
+    expect(calculate('=UNIQUE(B1:B2, FALSE, TRUE)').arrayValue).toEqual([[300], [120]]);
+    expect(calculate('=UNIQUE(A1:A5, , TRUE)').value).toBe('田中');
+  });
+
+  test('RANDARRAYは指定した範囲の乱数を返すこと', () => {
+    const values = calculate('=RANDARRAY(4, 5, 1, 6, TRUE)').arrayValue!.flat() as number[];
+    expect(values).toHaveLength(20);
+    expect(values.every(value => Number.isInteger(value) && value >= 1 && value <= 6)).toBe(true);
+    expect(calculate('=RANDARRAY(2, 2, 5, 1)').value).toBe('#VALUE!');
+    expect(calculate('=RANDARRAY(1, 1, 0.5, 2, TRUE)').value).toBe('#VALUE!');
+  });
+});
+
+describe('配列の展開（スピル）', () => {
+  test('配列の結果を隣接するセルに展開し、展開先のセルを記録すること', () => {
+    const spreadsheet = recalculateSpreadsheet(setCellValue(sales, { row: 0, column: 3 }, '=UNIQUE(A1:A5)').spreadsheet);
+    expect(displayValues(spreadsheet, 4, 1, { row: 0, column: 3 })).toEqual([['佐藤'], ['鈴木'], ['田中'], ['']]);
+    expect(getCellFromSpreadsheet(spreadsheet, { row: 0, column: 3 })?.spillRange).toEqual({
+      start: { row: 0, column: 3 },
+      end: { row: 2, column: 3 },
+    });
+    expect(getCellFromSpreadsheet(spreadsheet, { row: 2, column: 3 })?.spillAnchor).toEqual({ row: 0, column: 3 });
+
+    // 元の範囲の変更に合わせて展開範囲も変わる
+    const updated = recalculateSpreadsheet(setCellValue(spreadsheet, { row: 3, column: 0 }, '鈴木').spreadsheet);
+    expect(displayValues(updated, 3, 1, { row: 0, column: 3 })).toEqual([['佐藤'], ['鈴木'], ['']]);
+    expect(getCellFromSpreadsheet(updated, { row: 2, column: 3 })).toBeUndefined();
+  });
+
+  test('展開先が空でない場合・シートの外にはみ出す場合は#SPILL!になること', () => {
+    let spreadsheet = setCellValue(sales, { row: 0, column: 3 }, '=SEQUENCE(3)').spreadsheet;
+    spreadsheet = setCellValue(spreadsheet, { row: 2, column: 3 }, 'メモ').spreadsheet;
+    // 展開範囲が重なる場合は行優先で先にある数式の配列を展開する
+    spreadsheet = setCellValue(spreadsheet, { row: 4, column: 2 }, '=TRANSPOSE(SEQUENCE(2))').spreadsheet;
+    spreadsheet = setCellValue(spreadsheet, { row: 3, column: 3 }, '=SEQUENCE(2)').spreadsheet;
+    spreadsheet = setCellValue(spreadsheet, { row: 0, column: 25 }, '=SEQUENCE(1, 2)').spreadsheet;
+
+    const result = recalculateSpreadsheet(spreadsheet);
+    expect(displayValues(result, 5, 2, { row: 0, column: 2 })).toEqual([
+      ['', '#SPILL!'],
+      ['', ''],
+      ['', 'メモ'],
+      ['', '1'],
+      ['#SPILL!', '2'],
+    ]);
+    expect(displayValues(result, 1, 1, { row: 0, column: 25 })).toEqual([['#SPILL!']]);
+
+    // 展開先のセルを空にすると展開される
+    const cleared = recalculateSpreadsheet(setCellValue(result, { row: 2, column: 3 }, '').spreadsheet);
+    expect(displayValues(cleared, 3, 1, { row: 0, column: 3 })).toEqual([['1'], ['2'], ['3']]);
+  });
+
+  test('A1#は展開した範囲全体を参照し、展開先のセルも参照できること', () => {
+    let spreadsheet = setCellValue(sales, { row: 0, column: 3 }, '=SORT(B1:B5, 1, -1)').spreadsheet;
+    spreadsheet = setCellValue(spreadsheet, { row: 0, column: 4 }, '=SUM(D1#)').spreadsheet;
+    spreadsheet = setCellValue(spreadsheet, { row: 1, column: 4 }, '=ROWS(D1#)').spreadsheet;
+    spreadsheet = setCellValue(spreadsheet, { row: 2, column: 4 }, '=D2*2').spreadsheet;
+    spreadsheet = setCellValue(spreadsheet, { row: 0, column: 5 }, '=D1#/10').spreadsheet;
+    spreadsheet = setCellValue(spreadsheet, { row: 6, column: 0 }, '=SUM(A1#)').spreadsheet;
+
+    const result = recalculateSpreadsheet(spreadsheet);
+    expect(displayValues(result, 3, 1, { row: 0, column: 4 })).toEqual([['1050'], ['5'], ['600']]);
+    expect(displayValues(result, 5, 1, { row: 0, column: 5 })).toEqual([['30'], ['30'], ['25'], ['12'], ['8']]);
+    // 配列を展開していないセルのA1#は#REF!
+    expect(displayValues(result, 1, 1, { row: 6, column: 0 })).toEqual([['#REF!']]);
+  });
+
+  test('展開先のセルは編集できないこと', () => {
+    const spreadsheet = recalculateSpreadsheet(setCellValue(sales, { row: 0, column: 3 }, '=SEQUENCE(2)').spreadsheet);
+    const result = setCellValue(spreadsheet, { row: 1, column: 3 }, '100');
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('配列数式の展開先のセルは編集できません');
+    expect(result.spreadsheet).toBe(spreadsheet);
+    // 数式のセルは編集できる
+    expect(setCellValue(spreadsheet, { row: 0, column: 3 }, '1').success).toBe(true);
+  });
+});
+
+describe('数式エンジンの配列関数', () => {
+  test('HyperFormulaにないSEQUENCE・SORT・UNIQUEは左上の値を返すこと', () => {
+    const engine = createFormulaEngine();
+    expect(engine.evaluateFormula('=SEQUENCE(3, 2, 10)').value).toBe(10);
+    expect(engine.evaluateFormula('=SORT({3;1;2}, 1, -1)').value).toBe(3);
+    expect(engine.evaluateFormula('=UNIQUE({2;2;1}, FALSE(), TRUE())').value).toBe(1);
+    expect(engine.evaluateFormula('=SORTBY({"a";"b"}, {5;3})').value).toBe('b');
+    engine.destroy();
+  });
+});
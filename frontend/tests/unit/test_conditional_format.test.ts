@@ -0,0 +1,305 @@
+/**
+ * 条件付き書式 ユニットテスト
+ * ルールの検証、計算後の値に対する各種ルールの評価、優先度と停止、再計算後の評価、行・列の挿入・削除とシートの操作に合わせたルールの書き換えを確認する
+ */
+import { describe, test, expect } from '@jest/globals';
+import { act, renderHook } from '@testing-library/react';
+
+import { Spreadsheet, createSpreadsheet } from '../../src/lib/spreadsheet';
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { applyGridHistoryEntry, deleteColumnsAt, deleteRowsAt, insertRowsAt } from '../../src/lib/spreadsheet-core/grid';
+import {
+  adjustWorkbookReferences,
+  applyWorkbookGridHistoryEntry,
+  createNewWorkbook,
+  renameSheet,
+  updateSheet
+} from '../../src/lib/spreadsheet-core/workbook';
+import { useHistory } from '../../src/hooks/useHistory';
+import {
+  addConditionalFormat,
+  deleteConditionalFormat,
+  moveConditionalFormat,
+  updateConditionalFormat,
+} from '../../src/lib/spreadsheet-core/conditional-formats';
+import {
+  ConditionalFormatRuleInput,
+  createConditionalFormatRule,
+  parseConditionalFormatRange,
+  validateConditionalFormatRule,
+} from '../../src/lib/conditional-format';
+import { evaluateConditionalFormats } from '../../src/lib/formula-engine/conditional-formatting';
+import { createFormulaCalculator } from '../../src/lib/formula-engine/calculator';
+import { recalculateSpreadsheet } from '../../src/lib/formula-engine/recalculation';
+
+const calculator = createFormulaCalculator();
+const red = { backgroundColor: '#ff0000' };
+
+function createSheet(values: Record<string, string>, name = 'Sheet1'): Spreadsheet {
+  let spreadsheet = createSpreadsheet(name);
+  for (const [reference, value] of Object.entries(values)) {
+    const column = reference.charCodeAt(0) - 65;
+    const row = parseInt(reference.slice(1), 10) - 1;
+    spreadsheet = setCellValue(spreadsheet, { row, column }, value).spreadsheet;
+  }
+  return spreadsheet;
+}
+
+function withRules(spreadsheet: Spreadsheet, ...rules: ConditionalFormatRuleInput[]): Spreadsheet {
+  return { ...spreadsheet, conditionalFormats: rules.map(createConditionalFormatRule) };
+}
+
+/**
+ * 書式を適用したセル（A1形式）と書式
+ */
+function evaluate(spreadsheet: Spreadsheet): Record<string, object> {
+  const formats: Record<string, object> = {};
+  for (const [key, format] of evaluateConditionalFormats(spreadsheet, calculator)) {
+    const [row, column] = key.split('-').map(Number);
+    formats[`${String.fromCharCode(65 + column)}${row + 1}`] = format;
+  }
+  return formats;
+}
+
+describe('ルールの検証', () => {
+  test('適用範囲と種類ごとの内容を検証する', () => {
+    expect(parseConditionalFormatRange('b2:$C$3, E1')).toEqual([
+      { start: { row: 1, column: 1 }, end: { row: 2, column: 2 } },
+      { start: { row: 0, column: 4 }, end: { row: 0, column: 4 } },
+    ]);
+    expect(validateConditionalFormatRule({ type: 'dataBar', range: 'A1:A10', color: '#0000ff' })).toEqual({ success: true });
+    expect(validateConditionalFormatRule({ type: 'dataBar', range: 'Sheet2!A1:A10', color: '#0000ff' }).error)
+      .toContain('シート名');
+    expect(validateConditionalFormatRule({ type: 'dataBar', range: 'A1:', color: '#0000ff' }).success).toBe(false);
+    expect(validateConditionalFormatRule({ type: 'cellValue', range: 'A1', operator: 'between', value1: '1', style: red }).error)
+      .toBe('比較する値を入力してください');
+    expect(validateConditionalFormatRule({ type: 'topBottom', range: 'A1', direction: 'top', rank: 0, style: red }).success)
+      .toBe(false);
+    expect(validateConditionalFormatRule({ type: 'formula', range: 'A1', formula: '=SUM(A1', style: red }).error)
+      .toContain('括弧');
+  });
+});
+
+describe('ルールの評価', () => {
+  test('セルの値の比較は数式のセルの計算結果で判定する', () => {
+    const spreadsheet = withRules(
+      createSheet({ A1: '5', A2: '=A1*3', A3: '20', A4: 'abc', B1: '10' }),
+      { type: 'cellValue', range: 'A1:A4', operator: 'greaterThan', value1: '=$B$1', style: red },
+      { type: 'cellValue', range: 'A1:A4', operator: 'between', value1: '4', value2: '6', style: { fontWeight: 'bold' } },
+      { type: 'cellValue', range: 'A1:A4', operator: 'equal', value1: '"ABC"', style: { textColor: '#0000ff' } }
+    );
+
+    expect(evaluate(spreadsheet)).toEqual({
+      A1: { fontWeight: 'bold' },
+      A2: red,
+      A3: red,
+      A4: { ...red, textColor: '#0000ff' },
+    });
+  });
+
+  test('文字列・重複する値・一意の値', () => {
+    const spreadsheet = createSheet({ A1: 'りんご', A2: 'みかん', A3: 'Apple pie', A4: 'apple pie', A5: '3' });
+
+    expect(Object.keys(evaluate(withRules(spreadsheet,
+      { type: 'textContains', range: 'A1:A5', operator: 'contains', text: 'APPLE', style: red }
+    )))).toEqual(['A3', 'A4']);
+    expect(Object.keys(evaluate(withRules(spreadsheet,
+      { type: 'textContains', range: 'A1:A5', operator: 'beginsWith', text: 'み', style: red }
+    )))).toEqual(['A2']);
+    expect(Object.keys(evaluate(withRules(spreadsheet,
+      { type: 'duplicate', range: 'A1:A5', style: red }
+    )))).toEqual(['A3', 'A4']);
+    expect(Object.keys(evaluate(withRules(spreadsheet,
+      { type: 'duplicate', range: 'A1:A5', unique: true, style: red }
+    )))).toEqual(['A1', 'A2', 'A5']);
+  });
+
+  test('上位・下位と平均より上・下（数値のセルだけを対象にする）', () => {
+    const spreadsheet = createSheet({ A1: '10', A2: '40', A3: '30', A4: '40', A5: '30', A6: 'x' });
+
+    expect(Object.keys(evaluate(withRules(spreadsheet,
+      { type: 'topBottom', range: 'A1:A6', direction: 'top', rank: 2, style: red }
+    )))).toEqual(['A2', 'A4']);
+    expect(Object.keys(evaluate(withRules(spreadsheet,
+      { type: 'topBottom', range: 'A1:A6', direction: 'bottom', rank: 40, percent: true, style: red }
+    )))).toEqual(['A1', 'A3', 'A5']);
+    expect(Object.keys(evaluate(withRules(spreadsheet,
+      { type: 'average', range: 'A1:A6', direction: 'above', style: red }
+    )))).toEqual(['A2', 'A4']);
+    expect(Object.keys(evaluate(withRules(spreadsheet,
+      { type: 'average', range: 'A1:A6', direction: 'below', equalAverage: true, style: red }
+    )))).toEqual(['A1', 'A3', 'A5']);
+  });
+
+  test('数式のルールは範囲の左上のセルを基準に相対参照をずらして計算する', () => {
+    const spreadsheet = withRules(
+      createSheet({ A2: '商品1', A3: '商品2', A4: '商品3', B2: '120', B3: '80', B4: '=B2+B3' }),
+      { type: 'formula', range: 'A2:B4', formula: '=$B2>=100', style: red }
+    );
+
+    expect(Object.keys(evaluate(spreadsheet))).toEqual(['A2', 'B2', 'A4', 'B4']);
+  });
+
+  test('カラースケール・データバー・アイコンセット', () => {
+    const spreadsheet = createSheet({ A1: '0', A2: '50', A3: '100' });
+
+    expect(evaluate(withRules(spreadsheet,
+      { type: 'colorScale', range: 'A1:A3', minColor: '#000000', maxColor: '#ffffff' }
+    ))).toEqual({
+      A1: { backgroundColor: '#000000' },
+      A2: { backgroundColor: '#808080' },
+      A3: { backgroundColor: '#ffffff' },
+    });
+    expect(evaluate(withRules(spreadsheet,
+      { type: 'colorScale', range: 'A1:A3', minColor: '#ff0000', midColor: '#ffffff', maxColor: '#0000ff' }
+    )).A2).toEqual({ backgroundColor: '#ffffff' });
+    expect(evaluate(withRules(spreadsheet, { type: 'dataBar', range: 'A1:A3', color: '#638ec6' })).A2)
+      .toEqual({ dataBar: { ratio: 0.5, color: '#638ec6' } });
+    expect(Object.values(evaluate(withRules(spreadsheet, { type: 'iconSet', range: 'A1:A3', iconSet: 'arrows' })))
+      .map(format => (format as { icon: { symbol: string } }).icon.symbol)).toEqual(['↓', '→', '↑']);
+  });
+
+  test('優先度の高いルールの書式を使い、条件を満たす場合は停止するルールの後のルールは適用しない', () => {
+    const spreadsheet = createSheet({ A1: '5', A2: '50' });
+
+    expect(evaluate(withRules(spreadsheet,
+      { type: 'cellValue', range: 'A1:A2', operator: 'greaterThan', value1: '10', style: { backgroundColor: '#00ff00' } },
+      { type: 'cellValue', range: 'A1:A2', operator: 'greaterThan', value1: '0', style: { ...red, fontStyle: 'italic' } }
+    ))).toEqual({
+      A1: { ...red, fontStyle: 'italic' },
+      A2: { backgroundColor: '#00ff00', fontStyle: 'italic' },
+    });
+
+    expect(evaluate(withRules(spreadsheet,
+      { type: 'cellValue', range: 'A1:A2', operator: 'greaterThan', value1: '10', style: { backgroundColor: '#00ff00' }, stopIfTrue: true },
+      { type: 'dataBar', range: 'A1:A2', color: '#638ec6' }
+    ))).toEqual({
+      A1: { dataBar: { ratio: 0.1, color: '#638ec6' } },
+      A2: { backgroundColor: '#00ff00' },
+    });
+  });
+
+  test('再計算した後のシートで評価し直すと変更した値に追従する', () => {
+    let spreadsheet = withRules(
+      createSheet({ A1: '1', A2: '=A1*10' }),
+      { type: 'cellValue', range: 'A2', operator: 'greaterThanOrEqual', value1: '50', style: red }
+    );
+    spreadsheet = recalculateSpreadsheet(spreadsheet, calculator);
+    expect(evaluate(spreadsheet)).toEqual({});
+
+    spreadsheet = recalculateSpreadsheet(setCellValue(spreadsheet, { row: 0, column: 0 }, '7').spreadsheet, calculator);
+    expect(spreadsheet.cells.get('1-0')?.displayValue).toBe('70');
+    expect(evaluate(spreadsheet)).toEqual({ A2: red });
+  });
+});
+
+describe('ルールの管理と書き換え', () => {
+  test('ルールの追加・更新・優先度の変更・削除', () => {
+    let spreadsheet = createSpreadsheet('Sheet1');
+    const first = addConditionalFormat(spreadsheet, { type: 'dataBar', range: '$a$1:a5', color: '#638ec6' });
+    expect(first.data?.range).toBe('A1:A5');
+    const second = addConditionalFormat(first.spreadsheet, { type: 'duplicate', range: 'B1:B5', style: red });
+    spreadsheet = second.spreadsheet;
+    expect(spreadsheet.conditionalFormats?.map(rule => rule.type)).toEqual(['duplicate', 'dataBar']);
+
+    expect(addConditionalFormat(spreadsheet, { type: 'formula', range: 'A1', formula: 'A1>0', style: red }).success).toBe(false);
+
+    const updated = updateConditionalFormat(spreadsheet, first.data!.id, { type: 'dataBar', range: 'A1:A9', color: '#ff0000' });
+    spreadsheet = moveConditionalFormat(updated.spreadsheet, first.data!.id, 0).spreadsheet;
+    expect(spreadsheet.conditionalFormats?.map(rule => rule.range)).toEqual(['A1:A9', 'B1:B5']);
+
+    spreadsheet = deleteConditionalFormat(spreadsheet, second.data!.id).spreadsheet;
+    spreadsheet = deleteConditionalFormat(spreadsheet, first.data!.id).spreadsheet;
+    expect(spreadsheet.conditionalFormats).toBeUndefined();
+    expect(deleteConditionalFormat(spreadsheet, 'missing').error).toBe('ルールが見つかりません');
+  });
+
+  test('行・列の挿入・削除に合わせて適用範囲と数式を書き換え、範囲がなくなったルールは削除する', () => {
+    let spreadsheet = withRules(
+      createSheet({ A1: '1' }),
+      { type: 'formula', range: 'A2:B5,D1:D3', formula: '=$C2>$E$1', style: red },
+      { type: 'dataBar', range: 'C1:C4', color: '#638ec6' }
+    );
+
+    spreadsheet = insertRowsAt(spreadsheet, 0, 2).spreadsheet;
+    expect(spreadsheet.conditionalFormats?.[0]).toMatchObject({ range: 'A4:B7,D3:D5', formula: '=$C4>$E$3' });
+    expect(spreadsheet.conditionalFormats?.[1].range).toBe('C3:C6');
+
+    spreadsheet = deleteRowsAt(spreadsheet, 4, 2).spreadsheet;
+    expect(spreadsheet.conditionalFormats?.[0]).toMatchObject({ range: 'A4:B5,D3:D4', formula: '=$C4>$E$3' });
+
+    spreadsheet = deleteColumnsAt(spreadsheet, 2, 1).spreadsheet;
+    expect(spreadsheet.conditionalFormats).toHaveLength(1);
+    expect(spreadsheet.conditionalFormats?.[0]).toMatchObject({ range: 'A4:B5,C3:C4', formula: '=#REF!>$D$3' });
+  });
+
+  test('行・列の削除を取り消すと、削除・縮小したルールと他のシートのルールの数式が元に戻る', async () => {
+    // アプリと同じく履歴フックに記録し、取り消し・やり直しで返されたエントリーを適用する
+    const { result: history } = renderHook(() => useHistory({ enableKeyboardShortcuts: false }));
+    const undo = async () => (await act(() => history.current.undo()))!;
+    const redo = async () => (await act(() => history.current.redo()))!;
+
+    const original = withRules(
+      createSheet({ A1: '1' }),
+      { type: 'formula', range: 'A2:B5,D1:D3', formula: '=$C2>$E$1', style: red },
+      { type: 'dataBar', range: 'C1:C4', color: '#638ec6' }
+    );
+
+    const deleted = deleteColumnsAt(original, 2, 1);
+    expect(deleted.spreadsheet.conditionalFormats).toHaveLength(1);
+    act(() => {
+      history.current.addColumnOperation(
+        'delete', 2, 1, undefined, undefined, deleted.deletedCells,
+        deleted.formulaChanges, [], deleted.conditionalFormatChanges
+      );
+    });
+
+    const undone = applyGridHistoryEntry(deleted.spreadsheet, await undo(), 'undo').spreadsheet;
+    expect(undone.conditionalFormats).toEqual(original.conditionalFormats);
+    const redone = applyGridHistoryEntry(undone, await redo(), 'redo').spreadsheet;
+    expect(redone.conditionalFormats).toEqual(deleted.spreadsheet.conditionalFormats);
+
+    // 他のシートのルールの数式が#REF!になった行の削除も取り消せる
+    let workbook = createNewWorkbook('Book', ['Sheet1', 'Data']).workbook;
+    const [sheet1, data] = workbook.sheets;
+    workbook = updateSheet(workbook, withRules(sheet1,
+      { type: 'formula', range: 'A1:A3', formula: '=A1>Data!$B$2', style: red }
+    )).workbook;
+    const rowDeleted = deleteRowsAt(workbook.sheets[1], 1, 1);
+    const adjusted = adjustWorkbookReferences(
+      updateSheet(workbook, rowDeleted.spreadsheet).workbook, data.id, { axis: 'row', operation: 'delete', index: 1, count: 1 }
+    );
+    expect(adjusted.workbook.sheets[0].conditionalFormats?.[0]).toMatchObject({ formula: '=A1>#REF!' });
+
+    act(() => {
+      history.current.addRowOperation(
+        'delete', 1, 1, undefined, undefined, rowDeleted.deletedCells, adjusted.data, adjusted.nameChanges,
+        [...(rowDeleted.conditionalFormatChanges ?? []), ...adjusted.conditionalFormatChanges], data.id
+      );
+    });
+    const rowEntry = await undo();
+    const undoneRow = applyWorkbookGridHistoryEntry(adjusted.workbook, rowEntry.sheetId!, rowEntry, 'undo');
+    expect(undoneRow.workbook.sheets[0].conditionalFormats).toEqual(workbook.sheets[0].conditionalFormats);
+  });
+
+  test('他のシートの行の挿入とシート名の変更に合わせてルールの数式を書き換える', () => {
+    let workbook = createNewWorkbook('Book', ['Sheet1', 'Data']).workbook;
+    const [sheet1, data] = workbook.sheets;
+    workbook = updateSheet(workbook, withRules(sheet1,
+      { type: 'formula', range: 'A1:A3', formula: '=A1>Data!$B$2', style: red },
+      { type: 'cellValue', range: 'B1', operator: 'equal', value1: '=Data!A1', style: red }
+    )).workbook;
+
+    workbook = adjustWorkbookReferences(workbook, data.id, { axis: 'row', operation: 'insert', index: 0, count: 1 }).workbook;
+    expect(workbook.sheets[0].conditionalFormats).toMatchObject([
+      { range: 'A1:A3', formula: '=A1>Data!$B$3' },
+      { range: 'B1', value1: '=Data!A2' },
+    ]);
+
+    workbook = renameSheet(workbook, data.id, 'Summary').workbook;
+    expect(workbook.sheets[0].conditionalFormats).toMatchObject([
+      { formula: '=A1>Summary!$B$3' },
+      { value1: '=Summary!A2' },
+    ]);
+  });
+});
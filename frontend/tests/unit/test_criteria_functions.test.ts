@@ -0,0 +1,88 @@
+/**
+ * 条件付き集計関数 ユニットテスト
+ * 検索条件の解釈、SUMIF(S)・COUNTIF(S)・AVERAGEIF(S)・MAXIFS・MINIFSの計算、関数一覧への追加
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { getFunctionNameAtCursor } from '../../src/lib/formula';
+import { createFormulaCalculator, createCalculationContext } from '../../src/lib/formula-engine/calculator';
+import { createCriteriaMatcher } from '../../src/lib/formula-engine/criteria-functions';
+import { createFormulaEngine } from '../../src/lib/formula-engine';
+import { createSheet } from '../helpers/spreadsheet';
+
+// A1:C6 の売上表、E1に条件
+const sales = createSheet([
+  ['東京', 'りんご', '120', '', '東京'],
+  ['大阪', 'みかん', '80'],
+  ['東京', 'みかん', '200'],
+  ['名古屋', 'りんご', '50'],
+  ['東京', 'ぶどう', ''],
+  ['大阪', 'りんご', '300'],
+]);
+
+describe('検索条件', () => {
+  test('比較演算子・数値・文字列・空白の条件', () => {
+    const values = [100, 50, '100', 'abc', 'ABD', null, '', true];
+    const count = (criteria: string | number | boolean) =>
+      values.filter(createCriteriaMatcher(criteria)).length;
+
+    expect(count(100)).toBe(2);
+    expect(count('>=100')).toBe(1);
+    expect(count('<100')).toBe(1);
+    expect(count('<>100')).toBe(6);
+    expect(count('abc')).toBe(1);
+    expect(count('ab?')).toBe(2);
+    expect(count('a*')).toBe(2);
+    expect(count('<>a*')).toBe(6);
+    expect(count('')).toBe(2);
+    expect(count('<>')).toBe(6);
+    expect(count(true)).toBe(1);
+  });
+});
+
+describe('条件付き集計関数', () => {
+  const calculator = createFormulaCalculator();
+  const value = (formula: string) =>
+    calculator.calculate(formula, createCalculationContext(sales)).value;
+
+  test('SUMIF・COUNTIF・AVERAGEIF', () => {
+    expect(value('=SUMIF(A1:A6, "東京", C1:C6)')).toBe(320);
+    expect(value('=SUMIF(C1:C6, ">100")')).toBe(620);
+    expect(value('=SUMIF(A1:A6, E1, C1)')).toBe(320);
+    expect(value('=COUNTIF(B1:B6, "*ん*")')).toBe(5);
+    expect(value('=COUNTIF(C1:C6, "")')).toBe(1);
+    expect(value('=COUNTIF(A1:A6, "<>東京")')).toBe(3);
+    expect(value('=AVERAGEIF(B1:B6, "りんご", C1:C6)')).toBe(470 / 3);
+    expect(value('=AVERAGEIF(A1:A6, "福岡", C1:C6)')).toBe('#DIV/0!');
+  });
+
+  test('SUMIFS・COUNTIFS・AVERAGEIFS・MAXIFS・MINIFS', () => {
+    expect(value('=SUMIFS(C1:C6, A1:A6, "東京", B1:B6, "<>りんご")')).toBe(200);
+    expect(value('=COUNTIFS(A1:A6, "大阪", C1:C6, ">=100")')).toBe(1);
+    expect(value('=AVERAGEIFS(C1:C6, B1:B6, "りんご", C1:C6, "<200")')).toBe(85);
+    expect(value('=MAXIFS(C1:C6, A1:A6, E1)')).toBe(200);
+    expect(value('=MINIFS(C1:C6, B1:B6, "りんご")')).toBe(50);
+    expect(value('=MAXIFS(C1:C6, A1:A6, "福岡")')).toBe(0);
+    expect(value('=SUMIFS(C1:C6, A1:A5, "東京")')).toBe('#VALUE!');
+    expect(value('=COUNTIFS(A1:A6)')).toBe('#VALUE!');
+  });
+
+  test('関数一覧と補完に含まれること', () => {
+    const names = ['SUMIF', 'SUMIFS', 'COUNTIF', 'COUNTIFS', 'AVERAGEIF', 'AVERAGEIFS', 'MAXIFS', 'MINIFS'];
+    expect(calculator.getAvailableFunctions()).toEqual(expect.arrayContaining(names));
+
+    const engine = createFormulaEngine();
+    expect(engine.getAvailableFunctions()).toEqual(expect.arrayContaining([...names, 'XLOOKUP']));
+    engine.destroy();
+  });
+});
+
+describe('関数名の補完', () => {
+  test('カーソル位置の直前に入力中の関数名を取得すること', () => {
+    expect(getFunctionNameAtCursor('=SUMI', 5)).toEqual({ prefix: 'SUMI', start: 1 });
+    expect(getFunctionNameAtCursor('=A1+cou', 7)).toEqual({ prefix: 'cou', start: 4 });
+    expect(getFunctionNameAtCursor('=IF(A1,"SU', 10)).toBeNull();
+    expect(getFunctionNameAtCursor('=Sheet1!A', 9)).toBeNull();
+    expect(getFunctionNameAtCursor('SUM', 3)).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * 日付・時刻関数 ユニットテスト
+ * シリアル値（1900年・1904年システム）、日付関数の計算、TEXTの書式、日付のセルとシリアル値の変換
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { CellDataType, createEmptyCell, determineCellDataType, getCellDateSerial, updateCellValue } from '../../src/lib/cell';
+import { dateTextToSerial, dateToSerial, formatDateSerial, serialToDateParts, serialToDateText } from '../../src/lib/date-serial';
+import { createFormulaCalculator, createCalculationContext } from '../../src/lib/formula-engine/calculator';
+import { createSheet } from '../helpers/spreadsheet';
+
+// A1:A3 は日付、B1:B2 は祝日
+const schedule = createSheet([
+  ['2024/3/1', '2024-03-20', '=A1+30'],
+  ['2024-12-31 18:30', '2024/5/3'],
+  ['9:45'],
+]);
+
+describe('シリアル値', () => {
+  test('1900年システムは1900/2/29を含めて数えること', () => {
+    expect(dateToSerial(1900, 1, 1)).toBe(1);
+    expect(dateToSerial(1900, 2, 28)).toBe(59);
+    expect(dateToSerial(1900, 2, 29)).toBe(60);
+    expect(dateToSerial(1900, 3, 1)).toBe(61);
+    expect(dateToSerial(2024, 3, 1)).toBe(45352);
+    expect(serialToDateParts(60)).toMatchObject({ year: 1900, month: 2, day: 29 });
+    expect(serialToDateParts(61)).toMatchObject({ year: 1900, month: 3, day: 1 });
+  });
+
+  test('1904年システムは1904/1/1を0とすること', () => {
+    expect(dateToSerial(1904, 1, 1, '1904')).toBe(0);
+    expect(dateToSerial(2024, 3, 1, '1904')).toBe(45352 - 1462);
+    expect(serialToDateParts(43890, '1904')).toMatchObject({ year: 2024, month: 3, day: 1 });
+  });
+
+  test('日付・時刻の文字列と書式', () => {
+    expect(dateTextToSerial('2024年3月1日')).toBe(45352);
+    expect(dateTextToSerial('3/1/2024 6:00 PM')).toBe(45352.75);
+    expect(dateTextToSerial('2024/2/30')).toBeNull();
+    expect(formatDateSerial(45352.75, 'yyyy/mm/dd (aaa) h:mm AM/PM')).toBe('2024/03/01 (金) 6:00 PM');
+    expect(formatDateSerial(45352, 'mmmm d, yyyy dddd')).toBe('March 1, 2024 Friday');
+    expect(formatDateSerial(1.5, '[h]:mm')).toBe('36:00');
+  });
+});
+
+describe('日付・時刻関数', () => {
+  const calculator = createFormulaCalculator();
+  const calculate = (formula: string) => calculator.calculate(formula, createCalculationContext(schedule));
+  const value = (formula: string) => calculate(formula).value;
+
+  test('DATE・TIMEと日付の要素', () => {
+    expect(value('=DATE(2024, 14, 1)')).toBe(dateToSerial(2025, 2, 1));
+    expect(value('=DATE(100, 1, 1)')).toBe(dateToSerial(2000, 1, 1));
+    expect(value('=DATE(-1, 1, 1)')).toBe('#NUM!');
+    expect(value('=TIME(18, 30, 0)')).toBeCloseTo(0.770833, 6);
+    expect(value('=YEAR(A1)*10000+MONTH(A1)*100+DAY(A1)')).toBe(20240301);
+    expect(value('=HOUR(A2)*100+MINUTE(A2)')).toBe(1830);
+    expect(value('=MINUTE(A3)')).toBe(45);
+    expect(value('=DAY("2024/2/29")')).toBe(29);
+    expect(value('=YEAR("x")')).toBe('#VALUE!');
+  });
+
+  test('日付の結果は日付として表示すること', () => {
+    expect(calculate('=DATE(2024, 3, 1)')).toMatchObject({ displayValue: '2024/3/1', dataType: 'date', numberFormat: 'yyyy/m/d' });
+    expect(calculate('=A1+7').displayValue).toBe('2024/3/8');
+    expect(calculate('=A1-A1').displayValue).toBe('0');
+    expect(calculate('=B1-A1').value).toBe(19);
+    expect(calculate('=TODAY()').dataType).toBe('date');
+
+    // 日付を返す数式のセルを参照した結果も日付になること
+    const result = calculator.calculateCellValue({ row: 0, column: 2 }, createCalculationContext(schedule));
+    expect(result.displayValue).toBe('2024/3/31');
+    expect(calculate('=C1+1').displayValue).toBe('2024/4/1');
+  });
+
+  test('WEEKDAY・WEEKNUM', () => {
+    // 2024/3/1は金曜日
+    expect(value('=WEEKDAY(A1)')).toBe(6);
+    expect(value('=WEEKDAY(A1, 2)')).toBe(5);
+    expect(value('=WEEKDAY(A1, 3)')).toBe(4);
+    expect(value('=WEEKDAY(A1, 16)')).toBe(7);
+    expect(value('=WEEKDAY(A1, 4)')).toBe('#NUM!');
+    expect(value('=WEEKNUM("2024/1/6")')).toBe(1);
+    expect(value('=WEEKNUM("2024/1/7")')).toBe(2);
+    expect(value('=WEEKNUM("2024/1/7", 2)')).toBe(1);
+    expect(value('=WEEKNUM("2024/1/8", 2)')).toBe(2);
+    expect(value('=WEEKNUM("2021/1/1", 21)')).toBe(53);
+  });
+
+  test('EDATE・EOMONTH・DATEDIF', () => {
+    expect(value('=EDATE("2024/1/31", 1)')).toBe(dateToSerial(2024, 2, 29));
+    expect(value('=EDATE(A1, -12)')).toBe(dateToSerial(2023, 3, 1));
+    expect(value('=EOMONTH(A1, 0)')).toBe(dateToSerial(2024, 3, 31));
+    expect(value('=EOMONTH(A1, -1)')).toBe(dateToSerial(2024, 2, 29));
+    expect(value('=DATEDIF("2020/5/15", A1, "Y")')).toBe(3);
+    expect(value('=DATEDIF("2020/5/15", A1, "M")')).toBe(45);
+    expect(value('=DATEDIF("2020/5/15", A1, "YM")')).toBe(9);
+    expect(value('=DATEDIF("2020/5/15", A1, "MD")')).toBe(15);
+    expect(value('=DATEDIF("2020/5/15", A1, "YD")')).toBe(291);
+    expect(value('=DATEDIF(A1, "2020/5/15", "D")')).toBe('#NUM!');
+  });
+
+  test('NETWORKDAYS・WORKDAYは土日と祝日を除くこと', () => {
+    expect(value('=NETWORKDAYS(A1, "2024/3/31")')).toBe(21);
+    expect(value('=NETWORKDAYS(A1, "2024/3/31", B1:B2)')).toBe(20);
+    expect(value('=NETWORKDAYS("2024/3/31", A1)')).toBe(-21);
+    expect(value('=WORKDAY(A1, 1)')).toBe(dateToSerial(2024, 3, 4));
+    expect(value('=WORKDAY("2024/3/19", 1, B1)')).toBe(dateToSerial(2024, 3, 21));
+    expect(value('=WORKDAY(A1, -1)')).toBe(dateToSerial(2024, 2, 29));
+  });
+
+  test('DATEVALUE・TEXT', () => {
+    expect(value('=DATEVALUE("2024/3/1 10:00")')).toBe(45352);
+    expect(value('=DATEVALUE("明日")')).toBe('#VALUE!');
+    expect(value('=TEXT(A1, "yyyy年m月d日(aaa)")')).toBe('2024年3月1日(金)');
+    expect(value('=TEXT(A2, "hh:mm")')).toBe('18:30');
+    expect(value('=TEXT(1234.5, "#,##0.00")')).toBe('1,234.50');
+    expect(value('=TEXT(0.256, "0.0%")')).toBe('25.6%');
+    expect(value('=TEXT(-5, "0;(0)")')).toBe('(5)');
+    expect(value('=TEXT(3.14159, "0.##")')).toBe('3.14');
+    expect(value('=TEXT(1500, "#,##0円")')).toBe('1,500円');
+  });
+
+  test('1904年システム', () => {
+    const calculator1904 = createFormulaCalculator({ dateSystem: '1904' });
+    const value1904 = (formula: string) =>
+      calculator1904.calculate(formula, createCalculationContext(schedule)).value;
+
+    expect(value1904('=DATE(2024, 3, 1)')).toBe(45352 - 1462);
+    expect(value1904('=A1')).toBe(45352 - 1462);
+    expect(value1904('=WEEKDAY(DATE(1904, 1, 1))')).toBe(6);
+    expect(value1904('=TEXT(0, "yyyy/m/d")')).toBe('1904/1/1');
+  });
+});
+
+describe('日付のセル', () => {
+  test('日付の文字列を日付として判定すること', () => {
+    expect(determineCellDataType('2024-03-01')).toBe(CellDataType.DATE);
+    expect(determineCellDataType('2024/3/1')).toBe(CellDataType.DATE);
+    expect(determineCellDataType('3/1/2024')).toBe(CellDataType.DATE);
+    expect(determineCellDataType('2024年3月1日')).toBe(CellDataType.DATE);
+    expect(determineCellDataType('13:30')).toBe(CellDataType.DATE);
+    expect(determineCellDataType('2024')).toBe(CellDataType.NUMBER);
+  });
+
+  test('実在しない日付・時刻は数値ではなく文字列として扱うこと', () => {
+    for (const text of ['2024-02-30', '2023/2/29', '4/31/2024', '2024年13月1日', '25:00', '2024-02-30 10:00']) {
+      expect(determineCellDataType(text)).toBe(CellDataType.TEXT);
+    }
+    const cell = updateCellValue(createEmptyCell({ row: 0, column: 0 }), '2024-02-30');
+    expect(cell.dataType).toBe(CellDataType.TEXT);
+    expect(cell.displayValue).toBe('2024-02-30');
+    expect(getCellDateSerial(cell)).toBeNull();
+  });
+
+  test('日付のセルの値とシリアル値を相互に変換できること', () => {
+    for (const text of ['2024/3/1', '1900-02-28', '2024-12-31 18:30', '9:45']) {
+      const cell = updateCellValue(createEmptyCell({ row: 0, column: 0 }), text);
+      const serial = getCellDateSerial(cell)!;
+      const restored = updateCellValue(cell, serialToDateText(serial));
+      expect(restored.dataType).toBe(CellDataType.DATE);
+      expect(getCellDateSerial(restored)).toBe(serial);
+    }
+    expect(serialToDateText(45352.75)).toBe('2024-03-01 18:00:00');
+    expect(getCellDateSerial(updateCellValue(createEmptyCell({ row: 0, column: 0 }), '2024/3/1'), '1904')).toBe(43890);
+  });
+
+  test('日付の書式で表示すること', () => {
+    const cell = updateCellValue(createEmptyCell({ row: 0, column: 0 }), '2024/3/1');
+    const format = (dateFormat: string) => updateCellValue({ ...cell, format: { ...cell.format, dateFormat } }, cell.rawValue).displayValue;
+    expect(format('YYYY-MM-DD')).toBe('2024-03-01');
+    expect(format('MM/DD/YYYY')).toBe('03/01/2024');
+    expect(format('yyyy年m月d日')).toBe('2024年3月1日');
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * 連続データ（オートフィル） ユニットテスト
+ * 連続データの判定、範囲へのオートフィル、下方向・右方向へのコピー
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { detectFillSeries, getFillSeriesValue, getAutoFillBounds } from '../../src/lib/fill-series';
+import { Spreadsheet, createSpreadsheet } from '../../src/lib/spreadsheet';
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { autoFillCells, autoFillRange, fillDown, fillRight } from '../../src/lib/spreadsheet-core/operations';
+
+/**
+ * 元の値に続くcount個の値を求める
+ */
+function continueSeries(values: string[], count: number): string[] {
+  const series = detectFillSeries(values);
+  return Array.from({ length: count }, (_, i) => getFillSeriesValue(series, values.length + i));
+}
+
+/**
+ * テスト用にセル値をまとめて設定する（キーは行-列）
+ */
+function setValues(spreadsheet: Spreadsheet, values: Record<string, string>): Spreadsheet {
+  return Object.entries(values).reduce((current, [key, value]) => {
+    const [row, column] = key.split('-').map(Number);
+    return setCellValue(current, { row, column }, value).spreadsheet;
+  }, spreadsheet);
+}
+
+function rawValue(spreadsheet: Spreadsheet, key: string): string | undefined {
+  return spreadsheet.cells.get(key)?.rawValue;
+}
+
+describe('連続データの判定', () => {
+  test('数値の等差・等比・近似直線', () => {
+    expect(continueSeries(['1', '3'], 3)).toEqual(['5', '7', '9']);
+    expect(continueSeries(['0.1', '0.2'], 2)).toEqual(['0.3', '0.4']);
+    expect(continueSeries(['2', '4', '8'], 2)).toEqual(['16', '32']);
+    expect(continueSeries(['1', '2', '4', '5'], 1)).toEqual(['6.5']);
+    expect(detectFillSeries(['2', '4', '8']).type).toBe('growth');
+  });
+
+  test('日付の日・週・月・年単位', () => {
+    expect(continueSeries(['2024-01-30'], 3)).toEqual(['2024-01-31', '2024-02-01', '2024-02-02']);
+    expect(continueSeries(['2024/1/1', '2024/1/8'], 1)).toEqual(['2024/1/15']);
+    expect(continueSeries(['2023-12-31', '2024-01-31'], 2)).toEqual(['2024-02-29', '2024-03-31']);
+    expect(continueSeries(['2024-01-15', '2024-02-15'], 2)).toEqual(['2024-03-15', '2024-04-15']);
+    expect(continueSeries(['1/31/2023', '1/31/2024'], 1)).toEqual(['1/31/2025']);
+    expect(detectFillSeries(['2024-01-15', '2024-02-15']).dateUnit).toBe('month');
+  });
+
+  test('曜日名・月名（英語・日本語）', () => {
+    expect(continueSeries(['Friday'], 3)).toEqual(['Saturday', 'Sunday', 'Monday']);
+    expect(continueSeries(['MON', 'WED'], 2)).toEqual(['FRI', 'SUN']);
+    expect(continueSeries(['月曜日'], 2)).toEqual(['火曜日', '水曜日']);
+    expect(continueSeries(['Nov'], 3)).toEqual(['Dec', 'Jan', 'Feb']);
+    expect(continueSeries(['11月'], 2)).toEqual(['12月', '1月']);
+  });
+
+  test('末尾に数値を含む文字列', () => {
+    expect(continueSeries(['Item 1'], 2)).toEqual(['Item 2', 'Item 3']);
+    expect(continueSeries(['第1四半期', '第3四半期'], 1)).toEqual(['第5四半期']);
+    expect(continueSeries(['No.008'], 2)).toEqual(['No.009', 'No.010']);
+  });
+
+  test('判定できない値・数式は繰り返しになること', () => {
+    expect(continueSeries(['a', 'b'], 3)).toEqual(['a', 'b', 'a']);
+    expect(detectFillSeries(['=A1', '1']).type).toBe('copy');
+    expect(detectFillSeries(['Item 1', 'Item 1x']).type).toBe('copy');
+  });
+
+  test('前方向（負の位置）にも続きの値を求められること', () => {
+    const series = detectFillSeries(['Tue']);
+    expect(getFillSeriesValue(series, -2)).toBe('Sun');
+    expect(getFillSeriesValue(detectFillSeries(['5', '10']), -1)).toBe('0');
+  });
+});
+
+describe('オートフィルの範囲', () => {
+  const source = { minRow: 1, maxRow: 2, minColumn: 1, maxColumn: 1 };
+
+  test('大きくはみ出した方向にのみ範囲を広げること', () => {
+    expect(getAutoFillBounds(source, { row: 5, column: 2 })).toEqual({
+      bounds: { minRow: 1, maxRow: 5, minColumn: 1, maxColumn: 1 },
+      direction: 'down'
+    });
+    expect(getAutoFillBounds(source, { row: 2, column: 0 })?.direction).toBe('left');
+    expect(getAutoFillBounds(source, { row: 2, column: 1 })).toBeNull();
+  });
+});
+
+describe('オートフィル・コピーの操作', () => {
+  test('範囲へのオートフィルで列ごとに連続データを入力すること', () => {
+    const spreadsheet = setValues(createSpreadsheet('フィル'), {
+      '0-0': '1',
+      '1-0': '2',
+      '0-1': 'Jan',
+      '1-1': 'Mar',
+      '0-2': '=A1*2',
+      '1-2': '=A2*2'
+    });
+
+    const result = autoFillRange(
+      spreadsheet,
+      { minRow: 0, maxRow: 1, minColumn: 0, maxColumn: 2 },
+      { minRow: 0, maxRow: 4, minColumn: 0, maxColumn: 2 }
+    );
+
+    expect(result.success).toBe(true);
+    expect(['2-0', '3-0', '4-0'].map(key => rawValue(result.spreadsheet, key))).toEqual(['3', '4', '5']);
+    expect(['2-1', '3-1', '4-1'].map(key => rawValue(result.spreadsheet, key))).toEqual(['May', 'Jul', 'Sep']);
+    expect(['2-2', '3-2', '4-2'].map(key => rawValue(result.spreadsheet, key))).toEqual(['=A3*2', '=A4*2', '=A5*2']);
+    expect(result.affectedCells).toHaveLength(9);
+  });
+
+  test('上方向・左方向へのオートフィル', () => {
+    const spreadsheet = setValues(createSpreadsheet('フィル'), { '3-3': 'Item 5', '3-4': 'Item 6' });
+
+    const up = autoFillRange(
+      spreadsheet,
+      { minRow: 3, maxRow: 3, minColumn: 3, maxColumn: 3 },
+      { minRow: 1, maxRow: 3, minColumn: 3, maxColumn: 3 }
+    );
+    expect(rawValue(up.spreadsheet, '1-3')).toBe('Item 3');
+
+    const left = autoFillRange(
+      spreadsheet,
+      { minRow: 3, maxRow: 3, minColumn: 3, maxColumn: 4 },
+      { minRow: 3, maxRow: 3, minColumn: 1, maxColumn: 4 }
+    );
+    expect(rawValue(left.spreadsheet, '3-1')).toBe('Item 3');
+
+    const invalid = autoFillRange(
+      spreadsheet,
+      { minRow: 3, maxRow: 3, minColumn: 3, maxColumn: 3 },
+      { minRow: 3, maxRow: 4, minColumn: 3, maxColumn: 4 }
+    );
+    expect(invalid.success).toBe(false);
+  });
+
+  test('単一セルのオートフィルで連続データを入力すること', () => {
+    const spreadsheet = setValues(createSpreadsheet('フィル'), { '0-0': '2024-12-31' });
+
+    const result = autoFillCells(spreadsheet, { row: 0, column: 0 }, [{ row: 1, column: 0 }, { row: 2, column: 0 }]);
+
+    expect(rawValue(result.spreadsheet, '1-0')).toBe('2025-01-01');
+    expect(rawValue(result.spreadsheet, '2-0')).toBe('2025-01-02');
+  });
+
+  test('下方向・右方向へのコピー（Ctrl+D・Ctrl+R）', () => {
+    const spreadsheet = setValues(createSpreadsheet('フィル'), { '0-0': '1', '0-1': '=A1+1', '1-0': 'x' });
+
+    const down = fillDown(spreadsheet, { minRow: 0, maxRow: 2, minColumn: 0, maxColumn: 1 });
+    expect(rawValue(down.spreadsheet, '1-0')).toBe('1');
+    expect(rawValue(down.spreadsheet, '2-0')).toBe('1');
+    expect(rawValue(down.spreadsheet, '2-1')).toBe('=A3+1');
+
+    const right = fillRight(spreadsheet, { minRow: 0, maxRow: 0, minColumn: 2, maxColumn: 2 });
+    expect(rawValue(right.spreadsheet, '0-2')).toBe('=B1+1');
+
+    expect(fillDown(spreadsheet, { minRow: 0, maxRow: 0, minColumn: 0, maxColumn: 0 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * 財務関数 ユニットテスト
+ * PMT・PV・FV・NPER・RATE・NPV・IRR・XNPV・XIRRの計算、反復計算が収束しない場合のエラー、数式エンジンでの利用
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { createFormulaCalculator, createCalculationContext } from '../../src/lib/formula-engine/calculator';
+import { calculateIrr } from '../../src/lib/formula-engine/financial-functions';
+import { createFormulaEngine } from '../../src/lib/formula-engine';
+import { createSheet } from '../helpers/spreadsheet';
+
+// A1:A6 はキャッシュフロー、B1:B5 は日付
+const cashFlows = createSheet([
+  ['-10000', '2008-01-01'],
+  ['2750', '2008-03-01'],
+  ['4250', '2008-10-30'],
+  ['3250', '2009-02-15'],
+  ['2750', '2009-04-01'],
+  ['見出し'],
+]);
+
+describe('財務関数', () => {
+  const calculator = createFormulaCalculator();
+  const value = (formula: string) =>
+    calculator.calculate(formula, createCalculationContext(cashFlows)).value;
+
+  test('PMT・PV・FV・NPERと引数の既定値', () => {
+    expect(value('=PMT(8%/12, 10, 10000)')).toBeCloseTo(-1037.032, 3);
+    expect(value('=PMT(6%/12, 18*12, 0, 50000)')).toBeCloseTo(-129.081, 3);
+    expect(value('=PMT(0, 10, 1000)')).toBe(-100);
+    expect(value('=PV(8%/12, 12*20, 500)')).toBeCloseTo(-59777.146, 3);
+    expect(value('=FV(6%/12, 10, -200, -500, 1)')).toBeCloseTo(2581.403, 3);
+    expect(value('=FV(0, 12, -100)')).toBe(1200);
+    expect(value('=NPER(12%/12, -100, -1000, 10000, 1)')).toBeCloseTo(59.6739, 4);
+    expect(value('=NPER(1%, 100, 1000)')).toBeCloseTo(-9.5786, 4);
+    // 利息が支払額を上回る場合は返済できない
+    expect(value('=NPER(1%, -5, 1000)')).toBe('#NUM!');
+  });
+
+  test('RATEは反復計算で利率を求めること', () => {
+    expect(value('=RATE(4*12, -200, 8000)')).toBeCloseTo(0.0077014724, 9);
+    expect(value('=RATE(10, -120, 1000, 0, 1)')).toBeCloseTo(0.043042, 6);
+    expect(value('=RATE(10, -100, 1000, 0, 1, 0.05)')).toBeCloseTo(0, 9);
+    // 支払いと現在価値が同じ符号の場合は解がない
+    expect(value('=RATE(10, 1000, 1000)')).toBe('#NUM!');
+  });
+
+  test('NPV・IRRは範囲内の文字列を無視すること', () => {
+    expect(value('=NPV(10%, -10000, 3000, 4200, 6800)')).toBeCloseTo(1188.443, 3);
+    expect(value('=NPV(10%, A1:A6)')).toBeCloseTo(302.233, 3);
+    expect(value('=IRR(A1:A6)')).toBeCloseTo(0.115413, 6);
+    expect(value('=IRR(A2:A5)')).toBe('#NUM!');
+    expect(calculateIrr([-70000, 12000, 15000, 18000, 21000])).toBeCloseTo(-0.021245, 6);
+    expect(calculateIrr([-70000, 12000, 15000, 18000, 21000, 26000])).toBeCloseTo(0.086631, 6);
+  });
+
+  test('XNPV・XIRRは日付の間隔で割り引くこと', () => {
+    expect(value('=XNPV(9%, A1:A5, B1:B5)')).toBeCloseTo(2086.648, 3);
+    expect(value('=XIRR(A1:A5, B1:B5)')).toBeCloseTo(0.373362535, 6);
+    expect(value('=XIRR(A1:A5, B1:B5, 0.5)')).toBeCloseTo(0.373362535, 6);
+    expect(value('=XIRR(A1:A5, B1:B4)')).toBe('#NUM!');
+    expect(value('=XNPV(9%, A1:A6, B1:B6)')).toBe('#VALUE!');
+    expect(value('=XIRR(A2:A5, B2:B5)')).toBe('#NUM!');
+  });
+});
+
+describe('数式エンジンの財務関数', () => {
+  test('HyperFormulaにないIRR・XIRRも評価できること', () => {
+    const engine = createFormulaEngine();
+    expect(engine.evaluateFormula('=IRR({-100,60,60})').value).toBeCloseTo(0.130662, 6);
+    expect(engine.evaluateFormula('=XIRR({-100,110},{45292,45658})').value).toBeCloseTo(0.099714, 6);
+    expect(engine.evaluateFormula('=IRR({100,60})')).toMatchObject({ success: false, displayValue: '#NUM!' });
+    expect(engine.evaluateFormula('=PMT(8%/12,10,10000)').value).toBeCloseTo(-1037.032, 3);
+    expect(engine.getAvailableFunctions()).toEqual(expect.arrayContaining(['IRR', 'XIRR', 'RATE', 'XNPV']));
+    engine.destroy();
+  });
+});
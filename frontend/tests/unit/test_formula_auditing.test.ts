@@ -0,0 +1,136 @@
+/**
+ * 数式の検証 ユニットテスト
+ * 数式の構文木の文字列化、数式の評価の手順、参照元・参照先のトレースと依存関係の連鎖を確認する
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { createNewWorkbook, updateSheet } from '../../src/lib/spreadsheet-core/workbook';
+import { Workbook } from '../../src/lib/workbook';
+import { parseFormula } from '../../src/lib/formula';
+import { buildFormulaAst, formatFormulaAst } from '../../src/lib/formula-engine/parser';
+import { evaluateFormulaSteps } from '../../src/lib/formula-engine/evaluator';
+import { createCalculationContext, createFormulaCalculator } from '../../src/lib/formula-engine/calculator';
+import {
+  analyzeWorkbookDependencies,
+  getDependencyChain,
+  isTraceOnSheet,
+  traceCellReferences
+} from '../../src/lib/formula-engine/auditing';
+
+/**
+ * Sheet1: A1=10、B1=A1*2、C1=B1+Sheet2!A1、Sheet2: A1=5、B1=Sheet1!C1 のワークブックを作成する
+ */
+function createChainWorkbook(): Workbook {
+  const { workbook } = createNewWorkbook('検証', ['Sheet1', 'Sheet2']);
+  const fill = (sheetIndex: number, cells: [number, number, string][]) =>
+    cells.reduce((sheet, [row, column, value]) => setCellValue(sheet, { row, column }, value).spreadsheet,
+      workbook.sheets[sheetIndex]);
+
+  const sheet1 = fill(0, [[0, 0, '10'], [0, 1, '=A1*2'], [0, 2, '=B1+Sheet2!A1']]);
+  const sheet2 = fill(1, [[0, 0, '5'], [0, 1, '=Sheet1!C1']]);
+  return updateSheet(updateSheet(workbook, sheet1).workbook, sheet2).workbook;
+}
+
+const astOf = (formula: string) => buildFormulaAst(parseFormula(formula).tokens);
+
+/**
+ * A1=3・B1=4・A2:A3=1,2 のセルの値
+ */
+const CELL_VALUES: Record<string, number> = { '0-0': 3, '0-1': 4, '1-0': 1, '2-0': 2 };
+const getCellValue = (position: { row: number; column: number }) =>
+  CELL_VALUES[`${position.row}-${position.column}`] ?? null;
+
+/**
+ * CELL_VALUESの値を入力したシートの計算コンテキストを作成する
+ */
+function valueContext() {
+  const { workbook } = createNewWorkbook('値', ['Sheet1']);
+  const sheet = Object.entries(CELL_VALUES).reduce((current, [key, value]) => {
+    const [row, column] = key.split('-').map(Number);
+    return setCellValue(current, { row, column }, String(value)).spreadsheet;
+  }, workbook.sheets[0]);
+  return createCalculationContext(sheet);
+}
+
+describe('数式の構文木の文字列化', () => {
+  test('優先順位に必要な括弧と絶対参照の$を残す', () => {
+    expect(formatFormulaAst(astOf('=($A$1+B1)*2'))).toBe('($A$1+B1)*2');
+    expect(formatFormulaAst(astOf('=A1+B1*2'))).toBe('A1+B1*2');
+    expect(formatFormulaAst(astOf('=SUM(A1:A3,"x")'))).toBe('SUM(A1:A3, "x")');
+  });
+
+  test('置き換えた部分には括弧を付けない', () => {
+    const text = formatFormulaAst(astOf('=(A1+B1)*2'), node => (node.type === 'binary' && node.operator === '+' ? '7' : undefined));
+    expect(text).toBe('7*2');
+  });
+});
+
+describe('数式の評価の手順', () => {
+  test('内側の式から順に評価し、評価する部分の位置を返す', () => {
+    const steps = evaluateFormulaSteps(parseFormula('=(A1+B1)*2'), getCellValue);
+
+    expect(steps.map(step => [step.expression, step.displayValue])).toEqual([
+      ['A1', '3'], ['B1', '4'], ['3+4', '7'], ['7*2', '14'],
+    ]);
+    expect(steps[2].formula.slice(steps[2].start, steps[2].end)).toBe('3+4');
+    expect(steps[2].formula).toBe('=(3+4)*2');
+    expect(steps[3].formula).toBe('=7*2');
+  });
+
+  test('IFは条件を評価してから選ばれた引数だけを評価する', () => {
+    const { steps } = createFormulaCalculator().evaluateFormulaSteps('=IF(A1>1,"大",B1)', valueContext());
+
+    expect(steps.map(step => step.expression)).toEqual(['A1', '3>1', 'IF(TRUE, "大", B1)']);
+    expect(steps[2].displayValue).toBe('"大"');
+  });
+
+  test('範囲は配列定数として表示する', () => {
+    const { steps } = createFormulaCalculator().evaluateFormulaSteps('=SUM(A2:A3)', valueContext());
+
+    expect(steps[0].displayValue).toBe('{1;2}');
+    expect(steps[1].formula).toBe('=SUM({1;2})');
+    expect(steps[1].value).toBe(3);
+  });
+
+  test('計算エンジンはセルの値を使って手順を返し、構文エラーはエラーを返す', () => {
+    const workbook = createChainWorkbook();
+    const calculator = createFormulaCalculator();
+    const context = createCalculationContext(workbook.sheets[0], { workbook });
+
+    const result = calculator.evaluateFormulaSteps('=B1+Sheet2!A1', context);
+    expect(result.success).toBe(true);
+    expect(result.steps[result.steps.length - 1].displayValue).toBe('25');
+
+    const invalid = calculator.evaluateFormulaSteps('=SUM(A1', context);
+    expect(invalid.success).toBe(false);
+    expect(invalid.error).toBeDefined();
+  });
+});
+
+describe('参照元・参照先のトレース', () => {
+  test('段階数までの矢印を参照されるセルから参照するセルに向ける', () => {
+    const { manager } = analyzeWorkbookDependencies(createChainWorkbook());
+    const c1 = { row: 0, column: 2, sheetName: 'Sheet1' };
+
+    const first = traceCellReferences(manager, c1, 'precedents', 1);
+    expect(first).toHaveLength(2);
+    expect(first.every(arrow => arrow.level === 1 && arrow.to.column === 2)).toBe(true);
+
+    const second = traceCellReferences(manager, c1, 'precedents', 2);
+    expect(second.filter(arrow => arrow.level === 2)).toEqual([
+      { from: expect.objectContaining({ row: 0, column: 0 }), to: expect.objectContaining({ row: 0, column: 1 }), level: 2 },
+    ]);
+  });
+
+  test('依存関係の連鎖は他のシートのセルを含めて段階順に返す', () => {
+    const { manager, analysis } = analyzeWorkbookDependencies(createChainWorkbook());
+    const a1 = { row: 0, column: 0, sheetName: 'Sheet1' };
+
+    const chain = getDependencyChain(manager, a1, 'dependents');
+    expect(chain.map(entry => [entry.position.column, entry.depth])).toEqual([[1, 1], [2, 2], [1, 3]]);
+    expect(isTraceOnSheet(chain[2].position, 'Sheet1')).toBe(false);
+    expect(isTraceOnSheet(chain[2].position, 'sheet2')).toBe(true);
+    expect(analysis.totalEdges).toBeGreaterThanOrEqual(4);
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * 数式の入力支援 ユニットテスト
+ * 関数の引数のヒント、入力中の引数の位置、参照の色分け、クリックで選んだ範囲の参照の挿入を確認する
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { createFormulaCalculator } from '../../src/lib/formula-engine/calculator';
+import {
+  getActiveParameterIndex,
+  getBuiltInFunctionSignature,
+  parseFunctionSignature,
+  pluginFunctionToSignature
+} from '../../src/lib/formula-engine/signatures';
+import {
+  canInsertReferenceAt,
+  formatPointReference,
+  getFormulaReferenceHighlights,
+  getFunctionCallAtCursor,
+  replaceFormulaText
+} from '../../src/lib/formula-engine/editing';
+
+describe('関数の引数のヒント', () => {
+  test('書式の文字列から省略できる引数・繰り返す引数を読み取る', () => {
+    expect(parseFunctionSignature('IF(論理式, 値が真の場合, [値が偽の場合])').parameters).toEqual([
+      { name: '論理式' },
+      { name: '値が真の場合' },
+      { name: '値が偽の場合', optional: true },
+    ]);
+    expect(getBuiltInFunctionSignature('sum')?.parameters[1]).toEqual({ name: '数値2', optional: true, repeating: true });
+  });
+
+  test('組み込みの関数はすべて引数の一覧を持つ', () => {
+    const calculator = createFormulaCalculator();
+    const missing = calculator.getAvailableFunctions().filter(name => !calculator.getFunctionSignature(name));
+    expect(missing).toEqual([]);
+  });
+
+  test('繰り返す引数は組ごとに同じ位置の引数を示す', () => {
+    const sumifs = getBuiltInFunctionSignature('SUMIFS')!;
+    expect(getActiveParameterIndex(sumifs, 2)).toBe(2);
+    expect(getActiveParameterIndex(sumifs, 5)).toBe(3);
+    expect(getActiveParameterIndex(sumifs, 6)).toBe(4);
+    expect(getActiveParameterIndex(getBuiltInFunctionSignature('SUM')!, 7)).toBe(1);
+    expect(getActiveParameterIndex(getBuiltInFunctionSignature('ROUND')!, 2)).toBe(-1);
+  });
+
+  test('プラグインの関数のメタデータを引数の一覧にする', () => {
+    const signature = pluginFunctionToSignature({
+      name: 'tax',
+      description: '税込み金額',
+      arguments: [{ name: '金額', type: 'number' }, { name: '税率', type: 'number', optional: true }],
+    });
+    expect(signature).toEqual({
+      name: 'TAX',
+      description: '税込み金額',
+      parameters: [{ name: '金額' }, { name: '税率', optional: true }],
+    });
+  });
+});
+
+describe('入力中の関数の呼び出し', () => {
+  test('最も内側の関数と入力中の引数の番号を返す', () => {
+    const formula = '=IF(A1>0, SUM(B1, (C1+D1), ';
+    expect(getFunctionCallAtCursor(formula, formula.length)).toEqual({ name: 'SUM', argumentIndex: 2, start: 10 });
+    expect(getFunctionCallAtCursor(formula, 9)).toEqual({ name: 'IF', argumentIndex: 1, start: 1 });
+    expect(getFunctionCallAtCursor('=SUM(A1) + ', 11)).toBeNull();
+  });
+
+  test('文字列リテラル内の括弧・区切りは数えない', () => {
+    const formula = '=CONCATENATE("a,(b", ';
+    expect(getFunctionCallAtCursor(formula, formula.length)).toEqual({ name: 'CONCATENATE', argumentIndex: 1, start: 1 });
+    expect(getFunctionCallAtCursor(formula, 16)).toBeNull();
+  });
+});
+
+describe('クリックで選んだ範囲の参照', () => {
+  test('演算子・区切り・開き括弧の直後でのみ参照を挿入できる', () => {
+    expect(canInsertReferenceAt('=', 1)).toBe(true);
+    expect(canInsertReferenceAt('=SUM(A1, ', 9)).toBe(true);
+    expect(canInsertReferenceAt('=A1', 3)).toBe(false);
+    expect(canInsertReferenceAt('="x(', 4)).toBe(false);
+    expect(canInsertReferenceAt('text', 4)).toBe(false);
+  });
+
+  test('選んだ範囲を参照の文字列にして挿入し、選び直すと置き換える', () => {
+    expect(formatPointReference({ row: 3, column: 2 }, { row: 0, column: 0 })).toBe('A1:C4');
+    expect(formatPointReference({ row: 0, column: 1 }, { row: 0, column: 1 }, 'My Sheet', 'Sheet1')).toBe("'My Sheet'!B1");
+    expect(formatPointReference({ row: 0, column: 1 }, { row: 0, column: 1 }, 'Sheet1', 'Sheet1')).toBe('B1');
+
+    const inserted = replaceFormulaText('=SUM()', { start: 5, end: 5 }, 'A1');
+    expect(inserted).toEqual({ formula: '=SUM(A1)', span: { start: 5, end: 7 } });
+    expect(replaceFormulaText(inserted.formula, inserted.span, 'A1:B3').formula).toBe('=SUM(A1:B3)');
+  });
+});
+
+describe('参照の色分け', () => {
+  test('参照ごとに色を割り当て、同じ参照には同じ色を使う', () => {
+    const formula = '=A1+Sheet2!B2:C3+$A$1+D4#';
+    const highlights = getFormulaReferenceHighlights(formula);
+
+    expect(highlights.map(({ text }) => text)).toEqual(['A1', 'Sheet2!B2:C3', '$A$1', 'D4#']);
+    expect(highlights.map(({ start, end }) => formula.slice(start, end))).toEqual(['A1', 'Sheet2!B2:C3', '$A$1', 'D4#']);
+    expect(highlights[0].color).toBe(highlights[2].color);
+    expect(new Set(highlights.map(({ color }) => color)).size).toBe(3);
+    expect(highlights[1]).toMatchObject({ sheetName: 'Sheet2', range: { start: { row: 1, column: 1 }, end: { row: 2, column: 2 } } });
+    expect(getFormulaReferenceHighlights('A1+B1')).toEqual([]);
+  });
+});
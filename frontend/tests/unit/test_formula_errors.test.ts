@@ -0,0 +1,102 @@
+/**
+ * 数式のエラーの説明 ユニットテスト
+ * エラーの原因となった数式の部分・参照先のセル・修正の提案と、循環参照の一覧を確認する
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { createNewWorkbook, updateSheet } from '../../src/lib/spreadsheet-core/workbook';
+import { Workbook } from '../../src/lib/workbook';
+import { createCalculationContext, createFormulaCalculator } from '../../src/lib/formula-engine/calculator';
+import { analyzeWorkbookDependencies } from '../../src/lib/formula-engine/auditing';
+import {
+  findSimilarFunctionName,
+  getFormulaErrorSuggestion,
+  splitFormulaErrorSpan
+} from '../../src/lib/formula-engine/errors';
+
+/**
+ * シートにセルの値を入力したワークブックを作成する
+ */
+function createWorkbook(cells: Record<string, [number, number, string][]>): Workbook {
+  const sheetNames = Object.keys(cells);
+  const { workbook } = createNewWorkbook('エラー', sheetNames);
+  return sheetNames.reduce((current, sheetName, index) => {
+    const sheet = cells[sheetName].reduce((spreadsheet, [row, column, value]) =>
+      setCellValue(spreadsheet, { row, column }, value).spreadsheet, current.sheets[index]);
+    return updateSheet(current, sheet).workbook;
+  }, workbook);
+}
+
+/**
+ * 数式を計算したエラーを返す
+ */
+function calculateError(workbook: Workbook, formula: string) {
+  const calculator = createFormulaCalculator();
+  return calculator.calculate(formula, createCalculationContext(workbook.sheets[0], { workbook })).error;
+}
+
+describe('エラーの原因', () => {
+  test('エラー値を返した演算の数式の部分を示す', () => {
+    const workbook = createWorkbook({ Sheet1: [[0, 0, '0']] });
+    const formula = '=SUM(1, 2) + 10 / A1';
+    const error = calculateError(workbook, formula)!;
+
+    expect(error.code).toBe('#DIV/0!');
+    expect(formula.slice(error.span!.start, error.span!.end)).toBe('10 / A1');
+    expect(error.source).toBeUndefined();
+  });
+
+  test('エラー値のセルを参照した場合は参照先のセルを示す', () => {
+    const workbook = createWorkbook({
+      Sheet1: [[0, 0, '=1/0'], [0, 1, '=A1+1']],
+      Sheet2: [[0, 0, '=SQRT(-1)']],
+    });
+
+    const local = calculateError(workbook, '=5*B1')!;
+    expect(local.source).toEqual({ row: 0, column: 1, sheetName: 'Sheet1' });
+    expect(local.suggestion).toContain('Sheet1!B1');
+
+    const external = calculateError(workbook, '=ABS(-1) + SUM(Sheet2!A1:A3)')!;
+    expect(external.code).toBe('#NUM!');
+    expect(external.source).toEqual({ row: 0, column: 0, sheetName: 'Sheet2' });
+    expect('=ABS(-1) + SUM(Sheet2!A1:A3)'.slice(external.span!.start, external.span!.end)).toBe('Sheet2!A1:A3');
+  });
+
+  test('定義されていない関数には近い関数名を提案する', () => {
+    const workbook = createWorkbook({ Sheet1: [] });
+    const error = calculateError(workbook, '=SUMM(1, 2)')!;
+
+    expect(error.code).toBe('#NAME?');
+    expect(error.suggestion).toContain('SUM');
+    expect(findSimilarFunctionName('vlookp', ['HLOOKUP', 'VLOOKUP'])).toBe('VLOOKUP');
+    expect(findSimilarFunctionName('ABCDEFG', ['SUM'])).toBeUndefined();
+  });
+
+  test('エラーの種類・エラー値ごとに修正を提案する', () => {
+    expect(getFormulaErrorSuggestion({ type: 'DIVISION_BY_ZERO', message: '' })).toContain('IFERROR');
+    expect(getFormulaErrorSuggestion({ type: 'VALUE_ERROR', code: '#SPILL!', message: '' })).toContain('展開する範囲');
+    expect(getFormulaErrorSuggestion({ type: 'CIRCULAR_REFERENCE', message: '' })).toContain('反復計算');
+  });
+
+  test('原因の部分で数式を分ける', () => {
+    const parts = splitFormulaErrorSpan('=A1/B1', { type: 'DIVISION_BY_ZERO', message: '', span: { start: 1, end: 6 } });
+    expect(parts).toEqual({ before: '=', target: 'A1/B1', after: '' });
+    expect(splitFormulaErrorSpan('=A1', { type: 'VALUE_ERROR', message: '' })).toBeUndefined();
+  });
+});
+
+describe('循環参照の一覧', () => {
+  test('循環参照ごとに参照をたどる順のセルを返す', () => {
+    const workbook = createWorkbook({
+      Sheet1: [[0, 0, '=B1+1'], [0, 1, '=Sheet2!A1'], [2, 0, '=A3']],
+      Sheet2: [[0, 0, '=Sheet1!A1*2']],
+    });
+    const references = analyzeWorkbookDependencies(workbook).manager.getCircularReferences();
+
+    expect(references).toHaveLength(2);
+    const cycles = references.map(reference => reference.cycle.map(({ row, column }) => `${row}-${column}`));
+    expect(cycles).toContainEqual(['2-0']);
+    expect(cycles.find(cycle => cycle.length === 3)).toBeDefined();
+  });
+});
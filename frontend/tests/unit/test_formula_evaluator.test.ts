@@ -0,0 +1,156 @@
+/**
+ * 数式の評価 ユニットテスト
+ * 構文木の組み立て、演算子の優先順位、型の変換、エラー値の伝播、関数への範囲の受け渡し
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { tokenizeFormula, parseFormula } from '../../src/lib/formula';
+import { buildFormulaAst } from '../../src/lib/formula-engine/parser';
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { Spreadsheet, createSpreadsheet } from '../../src/lib/spreadsheet';
+import {
+  FormulaCalculator,
+  createFormulaCalculator,
+  createCalculationContext
+} from '../../src/lib/formula-engine/calculator';
+
+/**
+ * A1=10, A2=20, A3="abc", A4=TRUE, B1=0 のシートを作成する
+ */
+function createSampleSpreadsheet(): Spreadsheet {
+  const values: Array<[number, number, string]> = [
+    [0, 0, '10'],
+    [1, 0, '20'],
+    [2, 0, 'abc'],
+    [3, 0, 'TRUE'],
+    [0, 1, '0'],
+    [1, 1, '5'],
+  ];
+  return values.reduce(
+    (spreadsheet, [row, column, value]) => setCellValue(spreadsheet, { row, column }, value).spreadsheet,
+    createSpreadsheet('評価')
+  );
+}
+
+describe('数式の評価', () => {
+  const calculator: FormulaCalculator = createFormulaCalculator();
+  const spreadsheet = createSampleSpreadsheet();
+  const display = (formula: string) =>
+    calculator.calculate(formula, createCalculationContext(spreadsheet)).displayValue;
+  const value = (formula: string) =>
+    calculator.calculate(formula, createCalculationContext(spreadsheet)).value;
+
+  test('演算子の優先順位・括弧・単項マイナス・べき乗', () => {
+    expect(value('=1+2*3')).toBe(7);
+    expect(value('=(1+2)*3')).toBe(9);
+    expect(value('=-2^2')).toBe(4);
+    expect(value('=2^3^2')).toBe(64);
+    expect(value('=10-4-3')).toBe(3);
+    expect(value('=50%*A1')).toBe(5);
+    expect(value('=1.5E+2/--3')).toBe(50);
+    expect(display('=0.1+0.2')).toBe('0.3');
+  });
+
+  test('比較演算子と文字列の連結', () => {
+    expect(value('=A1<A2')).toBe(true);
+    expect(value('=A1<>10')).toBe(false);
+    expect(value('="abc"="ABC"')).toBe(true);
+    expect(value('="a"<1')).toBe(false);
+    expect(value('=1+1=2')).toBe(true);
+    expect(value('=A1&"円"')).toBe('10円');
+    expect(value('=1+2&"x"')).toBe('3x');
+    expect(value('=A4&C1')).toBe('TRUE');
+  });
+
+  test('暗黙の型変換', () => {
+    expect(value('="3"+4')).toBe(7);
+    expect(value('=A4+1')).toBe(2);
+    expect(value('=C1+1')).toBe(1);
+    expect(value('="50%"*2')).toBe(1);
+    expect(display('=A3+1')).toBe('#VALUE!');
+  });
+
+  test('直接指定した引数は数値に変換して数え、参照内の文字列は数えないこと', () => {
+    expect(value('=COUNT("1")')).toBe(1);
+    expect(value('=COUNT("1", TRUE, "abc", #N/A)')).toBe(2);
+    expect(value('=COUNT(A1:A4, "2")')).toBe(3);
+    expect(value('=COUNT(A3)')).toBe(0);
+  });
+
+  test('引数のないMIN・MAXはエラーになること', () => {
+    const result = calculator.calculate('=MIN()', createCalculationContext(spreadsheet));
+    expect(result.displayValue).toBe('#N/A');
+    expect(result.error?.message).toBe('MIN関数には少なくとも1つの引数が必要です');
+    expect(display('=MAX()')).toBe('#N/A');
+    expect(value('=MIN(A1:A2, 5)')).toBe(5);
+  });
+
+  test('解析できない数式は構文エラーとその原因を返すこと', () => {
+    const incomplete = calculator.calculate('=1+', createCalculationContext(spreadsheet));
+    expect(incomplete.displayValue).toBe('#SYNTAX!');
+    expect(incomplete.error).toMatchObject({ type: 'SYNTAX_ERROR', code: '#SYNTAX!', message: '数式が途中で終わっています' });
+
+    const unclosed = calculator.calculate('=SUM(1,2', createCalculationContext(spreadsheet));
+    expect(unclosed.displayValue).toBe('#SYNTAX!');
+    expect(unclosed.error).toMatchObject({ type: 'SYNTAX_ERROR', code: '#SYNTAX!', message: '括弧が対応していません' });
+  });
+
+  test('エラー値の伝播', () => {
+    const result = calculator.calculate('=A1/B1', createCalculationContext(spreadsheet));
+    expect(result.displayValue).toBe('#DIV/0!');
+    expect(result.error?.type).toBe('DIVISION_BY_ZERO');
+
+    expect(display('=SUM(A1/B1, 1)')).toBe('#DIV/0!');
+    expect(display('=(A1/B1)&"x"')).toBe('#DIV/0!');
+    expect(display('=#N/A+1')).toBe('#N/A');
+    expect(display('=#REF!*2')).toBe('#REF!');
+    expect(display('=NOSUCHFUNC(1)')).toBe('#NAME?');
+    expect(display('=SQRT(-1)')).toBe('#NUM!');
+    expect(display('=1+')).toBe('#SYNTAX!');
+  });
+
+  test('範囲の引数と入れ子の関数呼び出し', () => {
+    expect(value('=SUM(A1:A4)')).toBe(30);
+    expect(value('=SUM(A1:A4, 5, TRUE)')).toBe(36);
+    expect(value('=COUNT(A1:B2)')).toBe(4);
+    expect(value('=AVERAGE(A1:A2)*2')).toBe(30);
+    expect(value('=MAX(A1:A2, SUM(A1:A2))')).toBe(30);
+    expect(value('=ROUND(AVERAGE(A1, A2, 2.5), 1)')).toBe(10.8);
+    expect(value('=SUM(A1:A2*2)')).toBe(60);
+    expect(display('=AVERAGE(A3)')).toBe('#DIV/0!');
+    expect(value('=LEFT(UPPER(A3))&RIGHT(A3, 2)')).toBe('Abc');
+  });
+
+  test('IFは選ばれた方の引数のみ評価すること', () => {
+    expect(value('=IF(B1=0, "ゼロ", A1/B1)')).toBe('ゼロ');
+    expect(value('=IF(A1>5, A1*2)')).toBe(20);
+    expect(value('=IF(A1>50, A1*2)')).toBe(false);
+    expect(value('=IF(AND(A1>5, OR(A2<0, A4)), "ok", "ng")')).toBe('ok');
+    expect(display('=IF(A3, 1, 2)')).toBe('#VALUE!');
+  });
+});
+
+describe('トークン分割と構文木', () => {
+  test('引数の区切りと2文字の比較演算子', () => {
+    const tokens = tokenizeFormula('IF(A1<>1,B1>=2,1E-3)');
+    expect(tokens.filter(token => token.type === 'separator')).toHaveLength(2);
+    expect(tokens.filter(token => token.type === 'operator').map(token => token.value)).toEqual(['<>', '>=']);
+    expect(tokens.find(token => token.type === 'number' && token.value === '1E-3')).toBeDefined();
+  });
+
+  test('優先順位に従って構文木を組み立てること', () => {
+    const ast = buildFormulaAst(parseFormula('=1+2*-3%').tokens);
+    expect(ast).toEqual({
+      type: 'binary',
+      operator: '+',
+      left: { type: 'number', value: 1 },
+      right: {
+        type: 'binary',
+        operator: '*',
+        left: { type: 'number', value: 2 },
+        right: { type: 'percent', operand: { type: 'unary', operator: '-', operand: { type: 'number', value: 3 } } }
+      }
+    });
+    expect(() => buildFormulaAst(parseFormula('=SUM(1,2').tokens)).toThrow('数式が途中で終わっています');
+  });
+});
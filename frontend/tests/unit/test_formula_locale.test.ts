@@ -0,0 +1,118 @@
+/**
+ * 数式の言語 ユニットテスト
+ * 言語の区切り文字・小数点・関数名の入力と表示、保存する数式の形式への変換を確認する
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { parseFormula, tokenizeFormula } from '../../src/lib/formula';
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { createSpreadsheet } from '../../src/lib/spreadsheet';
+import { createFormulaEngine } from '../../src/lib/formula-engine';
+import { createCalculationContext, createFormulaCalculator } from '../../src/lib/formula-engine/calculator';
+import { getFunctionCallAtCursor, getFormulaReferenceHighlights } from '../../src/lib/formula-engine/editing';
+import {
+  FORMULA_LOCALES,
+  delocalizeFormula,
+  localizeFormula,
+  localizeFunctionName,
+  resolveFormulaLocale
+} from '../../src/lib/formula-engine/locale';
+
+const german = FORMULA_LOCALES['de-DE'];
+const japanese = FORMULA_LOCALES['ja-JP'];
+
+describe('数式の表示と入力', () => {
+  test('区切り文字と小数点を言語の形式にし、保存する形式に戻す', () => {
+    const formula = '=ROUND(SUM(A1:B2,1.5,.25),2)*1E+3';
+    const localized = localizeFormula(formula, german);
+
+    expect(localized).toBe('=ROUND(SUM(A1:B2;1,5;,25);2)*1E+3');
+    expect(delocalizeFormula(localized, german)).toBe(formula);
+  });
+
+  test('文字列リテラルと引用符で囲んだシート名は書き換えない', () => {
+    const formula = `=CONCATENATE("1.5, 2", 'Q1, 2.0'!A1, 3.5)`;
+    expect(localizeFormula(formula, german)).toBe(`=CONCATENATE("1.5, 2"; 'Q1, 2.0'!A1; 3,5)`);
+  });
+
+  test('関数名を言語の関数名にし、英語の関数名の入力も受け付ける', () => {
+    expect(localizeFormula('=IF(SUM(A1:A3)>10,MAX(B1,B2),"SUM(x)")', japanese))
+      .toBe('=もし(合計(A1:A3)>10,最大値(B1,B2),"SUM(x)")');
+    expect(delocalizeFormula('=もし(合計(A1:A3)>10,max(B1,B2),0)', japanese)).toBe('=IF(SUM(A1:A3)>10,max(B1,B2),0)');
+    expect(localizeFunctionName('vlookup', japanese)).toBe('縦検索');
+    expect(localizeFunctionName('PMT', japanese)).toBe('PMT');
+  });
+
+  test('数式でない値と正規の形式の言語は書き換えない', () => {
+    expect(localizeFormula('1.5', german)).toBe('1.5');
+    expect(delocalizeFormula('=SUM(1;2)', resolveFormulaLocale())).toBe('=SUM(1;2)');
+  });
+
+  test('見つからない言語・区切り文字と小数点が同じ言語はエラーにする', () => {
+    expect(() => resolveFormulaLocale('xx-XX')).toThrow('数式の言語が見つかりません');
+    expect(() => resolveFormulaLocale({ id: 'bad', label: 'bad', argumentSeparator: ',', decimalSeparator: ',' }))
+      .toThrow('同じ文字');
+    expect(resolveFormulaLocale('fr-FR').argumentSeparator).toBe(';');
+  });
+});
+
+describe('言語を指定したトークン分解', () => {
+  test('トークンの値は保存する形式、位置は入力した数式の位置にする', () => {
+    const tokens = tokenizeFormula('合計(A1;1,5)', { ...german, functionNames: japanese.functionNames });
+
+    expect(tokens.map(({ type, value, position }) => [type, value, position])).toEqual([
+      ['function', 'SUM', 0],
+      ['parenthesis', '(', 2],
+      ['cell_reference', 'A1', 3],
+      ['separator', ',', 5],
+      ['number', '1.5', 6],
+      ['parenthesis', ')', 9],
+    ]);
+    expect(parseFormula('=SUMME(A1;B2)', { locale: german }).cellReferences.map(({ a1Notation }) => a1Notation))
+      .toEqual(['A1', 'B2']);
+  });
+
+  test('入力支援は言語の区切り文字と関数名を読み取る', () => {
+    const formula = '=もし(A1>0;合計(B1;B2;';
+    const locale = { ...german, functionNames: japanese.functionNames };
+
+    expect(getFunctionCallAtCursor(formula, formula.length, locale)).toEqual({ name: 'SUM', argumentIndex: 2, start: 9 });
+    expect(getFormulaReferenceHighlights(formula, locale).map(({ text }) => text)).toEqual(['A1', 'B1', 'B2']);
+  });
+});
+
+describe('数式エンジンの言語の設定', () => {
+  test('入力した数式を保存する形式で計算し、表示は言語の形式にする', () => {
+    const engine = createFormulaEngine({ locale: 'de-DE' });
+    const result = engine.setCellValue({ row: 0, column: 0 }, '=SUM(1,5;2)');
+
+    expect(result.value).toBe(3.5);
+    expect(engine.getCellFormula({ row: 0, column: 0 })).toBe('=SUM(1.5,2)');
+    expect(engine.localizeFormula('=SUM(1.5,2)')).toBe('=SUM(1,5;2)');
+    expect(engine.getLocale().id).toBe('de-DE');
+    engine.destroy();
+  });
+
+  test('小数点・桁区切りを指定したNUMBERVALUEは数式計算エンジンと同じ結果になる', () => {
+    const engine = createFormulaEngine({ locale: 'de-DE' });
+    expect(engine.setCellValue({ row: 0, column: 0 }, '=NUMBERVALUE("1.234,5";",";".")').value).toBe(1234.5);
+    expect(engine.setCellValue({ row: 1, column: 0 }, '=NUMBERVALUE("1 234,5";",";" ")').value).toBe(1234.5);
+    expect(engine.setCellValue({ row: 2, column: 0 }, '=NUMBERVALUE("12,5%";",";".")').value).toBe(0.125);
+
+    // 文字列のセル（HyperFormulaが時刻・先頭のアポストロフィとして解釈できる文字列を含む）を参照する
+    const texts = ["'1.234,5", '12:00:99', '1.234.567,8 €'];
+    const spreadsheet = texts.reduce((sheet, text, row) => {
+      const withText = setCellValue(sheet, { row, column: 0 }, text).spreadsheet;
+      return setCellValue(withText, { row, column: 1 }, `=NUMBERVALUE(A${row + 1}, ",", ".")`).spreadsheet;
+    }, createSpreadsheet('Sheet1'));
+    engine.setSpreadsheetData(spreadsheet);
+
+    const calculator = createFormulaCalculator();
+    const context = createCalculationContext(spreadsheet);
+    texts.forEach((_, row) => {
+      const expected = calculator.calculateCellValue({ row, column: 1 }, context).displayValue;
+      expect(engine.calculateCell({ row, column: 1 }).displayValue).toBe(expected);
+    });
+    engine.destroy();
+  });
+});
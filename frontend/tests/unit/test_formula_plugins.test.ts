@@ -0,0 +1,278 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * 関数のプラグイン ユニットテスト
+ * プラグインの定義の検証、引数の型の変換、Web Worker・ワーカースレッドの実行環境の隔離と制限時間・メモリの上限、
+ * 数式計算エンジンへの登録、ディレクトリ・設定からの読み込み、数式エンジンでの利用
+ */
+import { describe, test, expect, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { createSpreadsheet } from '../../src/lib/spreadsheet';
+import { createFormulaCalculator, createCalculationContext } from '../../src/lib/formula-engine/calculator';
+import { createFormulaEngine } from '../../src/lib/formula-engine';
+import {
+  FormulaPluginDefinition,
+  FormulaPluginSandbox,
+  parseFormulaPluginConfig,
+  validateFormulaPlugin
+} from '../../src/lib/formula-engine/plugins';
+import {
+  PluginWorker,
+  createBrowserWorkerPluginSandbox,
+  createBrowserWorkerPluginSandboxFactory
+} from '../../src/lib/formula-engine/browser-plugins';
+import { createWorkerPluginSandbox, loadFormulaPluginsFromDirectory } from '../../src/lib/formula-engine/node-plugins';
+
+/**
+ * 税率表のプラグイン（TAXRATE）と、終わらない関数・メモリを使い続ける関数を含むプラグイン
+ */
+const taxPlugin: FormulaPluginDefinition = {
+  name: 'tax',
+  version: '1.0.0',
+  source: `
+    const RATES = { JP: 0.1, 'JP-R': 0.08 };
+    function TAXRATE(code, reduced) {
+      const key = reduced ? code + '-R' : code;
+      if (!(key in RATES)) return { type: 'error', code: '#N/A' };
+      return RATES[key];
+    }
+    function TOTAL(...ranges) {
+      return ranges.flat(2).reduce((sum, value) => typeof value === 'number' ? sum + value : sum, 0);
+    }
+    const CSVSPLIT = (text) => text.split(',');
+  `,
+  functions: [
+    {
+      name: 'TAXRATE',
+      description: '地域コードの税率を返す',
+      arguments: [
+        { name: 'code', type: 'text', description: '地域コード' },
+        { name: 'reduced', type: 'boolean', optional: true },
+      ],
+    },
+    { name: 'TOTAL', description: '範囲の数値の合計', arguments: [{ name: 'range', type: 'range', repeating: true }] },
+    { name: 'CSVSPLIT', description: 'カンマで区切る', arguments: [{ name: 'text', type: 'text' }] },
+  ],
+};
+
+const runawayPlugin: FormulaPluginDefinition = {
+  name: 'runaway',
+  source: `
+    function SPIN() { let i = 0; while (true) { i++; } }
+    function HOG() { const chunks = []; for (;;) chunks.push(new Array(100000).fill(chunks.length)); }
+    function PEEK() { return [typeof process, typeof require, typeof fetch].join(','); }
+    function ESCAPE() { return Object.constructor('return typeof process')(); }
+    function GLOBALS() {
+      const global = (function () {}).constructor('return globalThis')();
+      return [typeof global.callerMarker, typeof global.fetch, typeof global.postMessage].join(',');
+    }
+    function LOOP() { return [].constructor.constructor('for (;;) {}')(); }
+  `,
+  functions: ['SPIN', 'HOG', 'PEEK', 'ESCAPE', 'GLOBALS', 'LOOP'].map(name => ({ name, description: name, arguments: [] })),
+  limits: { timeoutMs: 200, memoryMb: 16 },
+};
+
+/**
+ * ブラウザのWeb Workerの代わりに、selfでメッセージを受け取れるようにしたワーカースレッドで実行する
+ */
+const browserPluginSandbox = createBrowserWorkerPluginSandboxFactory((source): PluginWorker => {
+  const worker = new Worker(`
+    const { parentPort } = require('worker_threads');
+    globalThis.self = globalThis;
+    self.addEventListener = (type, listener) => parentPort.once(type, data => listener({ data }));
+    ${source}
+  `, { eval: true });
+  worker.unref();
+  return { postMessage: message => worker.postMessage(message), terminate: () => void worker.terminate() };
+});
+
+// 作成したワーカーの実行環境はテストごとに終了する
+const sandboxes: FormulaPluginSandbox[] = [];
+afterEach(() => {
+  sandboxes.splice(0).forEach(sandbox => sandbox.dispose());
+});
+
+describe('プラグインの定義', () => {
+  test('関数名・引数の型・省略できる引数の順序・制限を検証すること', () => {
+    expect(validateFormulaPlugin(taxPlugin)).toEqual({ isValid: true });
+
+    const withFunction = (func: object) => ({ ...taxPlugin, functions: [{ ...taxPlugin.functions[0], ...func }] });
+    expect(validateFormulaPlugin(withFunction({ name: 'A1' })).isValid).toBe(false);
+    expect(validateFormulaPlugin(withFunction({ name: 'TAX.RATE' })).isValid).toBe(false);
+    expect(validateFormulaPlugin(withFunction({ arguments: [{ name: 'x', type: 'date' }] })).isValid).toBe(false);
+    expect(validateFormulaPlugin(withFunction({
+      arguments: [{ name: 'x', type: 'number', optional: true }, { name: 'y', type: 'number' }],
+    })).isValid).toBe(false);
+    expect(validateFormulaPlugin({ ...taxPlugin, limits: { timeoutMs: 0 } }).isValid).toBe(false);
+    expect(validateFormulaPlugin({ ...taxPlugin, source: undefined }).isValid).toBe(false);
+
+    const { plugins, errors } = parseFormulaPluginConfig(JSON.stringify([taxPlugin, { name: 'broken' }]));
+    expect(plugins.map(plugin => plugin.name)).toEqual(['tax']);
+    expect(errors).toHaveLength(1);
+    expect(parseFormulaPluginConfig('{').errors).toHaveLength(1);
+  });
+});
+
+describe('数式計算エンジンのプラグイン', () => {
+  let spreadsheet = createSpreadsheet('売上');
+  [['JP', '100'], ['US', '250'], ['', 'メモ']].forEach((values, row) => values.forEach((value, column) => {
+    if (value) spreadsheet = setCellValue(spreadsheet, { row, column }, value).spreadsheet;
+  }));
+  const context = createCalculationContext(spreadsheet);
+
+  test('宣言した型に変換した引数で関数を呼び出し、戻り値を数式の値にすること', () => {
+    const calculator = createFormulaCalculator({ plugins: [taxPlugin], pluginSandbox: browserPluginSandbox });
+    const calculate = (formula: string) => calculator.calculate(formula, context);
+
+    expect(calculate('=TAXRATE(A1)*B1').value).toBeCloseTo(10, 10);
+    expect(calculate('=TAXRATE("JP", 1)').value).toBe(0.08);
+    expect(calculate('=TAXRATE(A2)').value).toBe('#N/A');
+    expect(calculate('=TOTAL(B1:B3, 5)').value).toBe(355);
+    expect(calculate('=CSVSPLIT("a,b,c")').arrayValue).toEqual([['a', 'b', 'c']]);
+    // 引数の数が宣言と異なる場合は#VALUE!
+    expect(calculate('=TAXRATE()').value).toBe('#VALUE!');
+    expect(calculate('=TAXRATE("JP", TRUE, 1)').value).toBe('#VALUE!');
+    expect(calculator.getAvailableFunctions()).toEqual(expect.arrayContaining(['TAXRATE', 'TOTAL', 'CSVSPLIT']));
+  });
+
+  test('登録・登録の解除と、既存の関数と重複する名前・揮発性の関数を扱うこと', () => {
+    const calculator = createFormulaCalculator({ pluginSandbox: browserPluginSandbox });
+    expect(calculator.registerPlugin(taxPlugin)).toEqual({ success: true });
+    expect(calculator.registerPlugin(taxPlugin).success).toBe(false);
+    expect(calculator.getPluginFunctions().map(func => [func.name, func.minArguments, func.maxArguments])).toEqual([
+      ['CSVSPLIT', 1, 1], ['TAXRATE', 1, 2], ['TOTAL', 1, Infinity],
+    ]);
+    expect(calculator.getCalculationStats().pluginFunctions).toBe(3);
+
+    const duplicate = { ...taxPlugin, name: 'sum', functions: [{ ...taxPlugin.functions[0], name: 'SUM' }] };
+    expect(calculator.registerPlugin(duplicate)).toMatchObject({ success: false });
+
+    // 揮発性の関数は揮発性関数を有効にした場合のみ登録する
+    const dice = {
+      name: 'dice', source: 'function DICE() { return 4; }',
+      functions: [{ name: 'DICE', description: 'さいころ', arguments: [], volatile: true }],
+    };
+    calculator.registerPlugin(dice);
+    expect(calculator.calculate('=DICE()', context).value).toBe(4);
+    expect(createFormulaCalculator({ enableVolatileFunctions: false, plugins: [dice], pluginSandbox: browserPluginSandbox }).calculate('=DICE()', context).value).toBe('#NAME?');
+
+    expect(calculator.unregisterPlugin('tax')).toBe(true);
+    expect(calculator.calculate('=TAXRATE("JP")', context).value).toBe('#NAME?');
+    expect(calculator.unregisterPlugin('tax')).toBe(false);
+    expect(() => createFormulaCalculator({ plugins: [duplicate] })).toThrow('SUM');
+  });
+
+});
+
+describe('Web Workerの実行環境', () => {
+  test('コンストラクタから取得したグローバルは呼び出し元ではなく、通信のAPIを削除したワーカーのものであること', () => {
+    (globalThis as Record<string, unknown>).callerMarker = true;
+    try {
+      const sandbox = browserPluginSandbox(runawayPlugin, { timeoutMs: 1000, memoryMb: 16 });
+      sandboxes.push(sandbox);
+
+      expect(sandbox.call('GLOBALS', [])).toBe('undefined,undefined,undefined');
+      expect(() => sandbox.call('NOSUCH', [])).toThrow('NOSUCH');
+    } finally {
+      delete (globalThis as Record<string, unknown>).callerMarker;
+    }
+  });
+
+  test('終わらないループは制限時間でワーカーを終了して#CALC!にし、以降の呼び出しを実行しないこと', () => {
+    const calculator = createFormulaCalculator({
+      plugins: [{ ...runawayPlugin, limits: { timeoutMs: 100 } }],
+      pluginSandbox: browserPluginSandbox,
+    });
+    const context = createCalculationContext(createSpreadsheet('Sheet1'));
+    expect(calculator.calculate('=GLOBALS()', context).value).toBe('undefined,undefined,undefined');
+
+    const started = Date.now();
+    expect(calculator.calculate('=LOOP()', context)).toMatchObject({
+      value: '#CALC!',
+      error: { message: expect.stringContaining('制限時間（100ミリ秒）') },
+    });
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(calculator.calculate('=GLOBALS()', context).value).toBe('#CALC!');
+    calculator.disposePlugins();
+  });
+
+  test('応答を待てない環境・Web Workerがない環境では#CALC!にすること', () => {
+    const calculator = createFormulaCalculator({ plugins: [taxPlugin] });
+    const context = createCalculationContext(createSpreadsheet('Sheet1'));
+
+    expect(calculator.calculate('=TAXRATE("JP")', context)).toMatchObject({
+      value: '#CALC!',
+      error: { message: expect.stringContaining('ワーカー') },
+    });
+    expect(() => createBrowserWorkerPluginSandbox(taxPlugin, { timeoutMs: 1000, memoryMb: 16 })).toThrow('ワーカー');
+  });
+});
+
+describe('ワーカースレッドの実行環境', () => {
+  test('ワーカーで関数を実行し、コード生成・Node.jsのAPIを使えないこと', () => {
+    const sandbox = createWorkerPluginSandbox(runawayPlugin, { timeoutMs: 1000, memoryMb: 16 });
+    sandboxes.push(sandbox);
+
+    expect(sandbox.call('PEEK', [])).toBe('undefined,undefined,undefined');
+    expect(() => sandbox.call('ESCAPE', [])).toThrow('エラーが発生しました');
+    expect(() => sandbox.call('NOSUCH', [])).toThrow('NOSUCH');
+  });
+
+  test('制限時間・メモリの上限を超えた場合はワーカーを終了し#CALC!にすること', () => {
+    const calculator = createFormulaCalculator({ plugins: [runawayPlugin], pluginSandbox: createWorkerPluginSandbox });
+    const context = createCalculationContext(createSpreadsheet('Sheet1'));
+
+    expect(calculator.calculate('=SPIN()', context)).toMatchObject({ value: '#CALC!' });
+    expect(calculator.calculate('=PEEK()', context).value).toBe('#CALC!');
+    calculator.disposePlugins();
+
+    const sandbox = createWorkerPluginSandbox(runawayPlugin, { timeoutMs: 1000, memoryMb: 16 });
+    sandboxes.push(sandbox);
+    expect(() => sandbox.call('HOG', [])).toThrow('メモリの上限（16MB）');
+  });
+});
+
+describe('プラグインの読み込みと数式エンジン', () => {
+  test('ディレクトリのメタデータとソースのファイルからプラグインを読み込むこと', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'formula-plugins-'));
+    try {
+      const { source, ...manifest } = taxPlugin;
+      fs.writeFileSync(path.join(directory, 'tax.json'), JSON.stringify({ ...manifest, main: 'tax.js' }));
+      fs.writeFileSync(path.join(directory, 'tax.js'), source);
+      fs.writeFileSync(path.join(directory, 'broken.json'), '{ "name": ');
+      fs.writeFileSync(path.join(directory, 'README.md'), '# plugins');
+
+      const { plugins, errors } = loadFormulaPluginsFromDirectory(directory);
+      expect(plugins).toEqual([{ ...taxPlugin, source }]);
+      expect(errors.map(error => error.file)).toEqual(['broken.json']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+    expect(loadFormulaPluginsFromDirectory(path.join(directory, 'missing')).plugins).toEqual([]);
+  });
+
+  test('HyperFormulaの数式とLETの数式からプラグインの関数を呼び出せること', () => {
+    const engine = createFormulaEngine({ plugins: [taxPlugin], pluginSandbox: createWorkerPluginSandbox });
+    let spreadsheet = createSpreadsheet('Sheet1');
+    spreadsheet = setCellValue(spreadsheet, { row: 0, column: 0 }, '1000').spreadsheet;
+    spreadsheet = setCellValue(spreadsheet, { row: 0, column: 1 }, '=A1*TAXRATE("JP")').spreadsheet;
+    engine.setSpreadsheetData(spreadsheet);
+
+    expect(engine.calculateCell({ row: 0, column: 1 }).value).toBeCloseTo(100, 10);
+    expect(engine.evaluateFormula('=LET(rate, TAXRATE("JP", 1), A1*rate)', { row: 9, column: 9 }).value).toBeCloseTo(80, 10);
+    expect(engine.evaluateFormula('=TOTAL(A1, 5)', { row: 9, column: 9 }).value).toBe(1005);
+    expect(engine.getPluginFunctions().map(func => func.name)).toEqual(['CSVSPLIT', 'TAXRATE', 'TOTAL']);
+
+    // プラグインを指定しない数式エンジンでは使えない
+    const plain = createFormulaEngine();
+    expect(plain.evaluateFormula('=TAXRATE("JP")', { row: 9, column: 9 }).displayValue).toBe('#NAME?');
+    plain.destroy();
+    engine.destroy();
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * 数式エンジンのワーカー ユニットテスト
+ * worker_threadsのMessageChannel・Workerを使い、セルの設定・再計算（他のシートの変更を含む）・値の取得・取り消しのメッセージと、
+ * 再計算の結果のシートへの反映を確認する
+ */
+import { describe, test, expect, afterEach } from '@jest/globals';
+import * as path from 'path';
+import { MessageChannel, Worker } from 'worker_threads';
+
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { addSheet, createNewWorkbook, setIterativeCalculation, updateSheet } from '../../src/lib/spreadsheet-core/workbook';
+import { Workbook } from '../../src/lib/workbook';
+import { createConditionalFormatRule } from '../../src/lib/conditional-format';
+import { createNodeWorkerEndpoint } from '../../src/lib/formula-engine/node-worker';
+import { createWorkerPluginSandbox } from '../../src/lib/formula-engine/node-plugins';
+import { FormulaPluginDefinition } from '../../src/lib/formula-engine/plugins';
+import {
+  FormulaWorkerClient,
+  FormulaWorkerHost,
+  applyFormulaWorkerResult,
+  attachFormulaWorkerHost,
+  createFormulaWorkerClient,
+  getPendingCellKeys
+} from '../../src/lib/formula-engine/worker';
+
+/**
+ * A1=10・A2=20、B1=A1*2、C1=SUM(A1:A2) のワークブックを作成する
+ */
+function createBudgetWorkbook(): Workbook {
+  const { workbook } = createNewWorkbook('予算', ['Sheet1']);
+  const sheet = [
+    [0, 0, '10'], [1, 0, '20'], [0, 1, '=A1*2'], [0, 2, '=SUM(A1:A2)'],
+  ].reduce((current, [row, column, value]) =>
+    setCellValue(current, { row: row as number, column: column as number }, value as string).spreadsheet,
+  workbook.sheets[0]);
+  return updateSheet(workbook, sheet).workbook;
+}
+
+/**
+ * 値を2倍にする関数（DOUBLE）のプラグイン
+ */
+const doublePlugin: FormulaPluginDefinition = {
+  name: 'double',
+  source: 'function DOUBLE(value) { return value * 2; }',
+  functions: [{ name: 'DOUBLE', description: '値を2倍にする', arguments: [{ name: 'value', type: 'number' }] }],
+};
+
+describe('MessageChannelでのメッセージのやり取り', () => {
+  let host: FormulaWorkerHost;
+  let client: FormulaWorkerClient;
+
+  const connect = () => {
+    const { port1, port2 } = new MessageChannel();
+    host = attachFormulaWorkerHost(createNodeWorkerEndpoint(port2), { pluginSandbox: createWorkerPluginSandbox });
+    client = createFormulaWorkerClient(createNodeWorkerEndpoint(port1));
+    return port2;
+  };
+
+  afterEach(() => {
+    client.dispose();
+    host.dispose();
+  });
+
+  test('ワークブックとセルを設定し、変更したセルに依存するセルだけを再計算すること', async () => {
+    const port = connect();
+    await client.setWorkbook(createBudgetWorkbook());
+    const first = await client.recalc();
+    expect(first?.stats).toMatchObject({ mode: 'full', recalculatedCells: 2 });
+
+    await client.setCells([{ row: 0, column: 0, value: '15' }]);
+    const result = await client.recalc('Sheet1');
+
+    expect(result?.stats).toMatchObject({ mode: 'incremental', recalculatedCells: 2 });
+    expect(result?.cells.map(cell => [cell.rawValue, cell.displayValue])).toEqual(
+      expect.arrayContaining([['=A1*2', '30'], ['=SUM(A1:A2)', '35']])
+    );
+    expect(result?.removedKeys).toEqual([]);
+    port.close();
+  });
+
+  test('変更したセルを参照する他のシートの変わったセルも返すこと', async () => {
+    const port = connect();
+    const budget = createBudgetWorkbook();
+    const { workbook } = addSheet(budget, 'Sheet2');
+    const sheet2 = setCellValue(workbook.sheets[1], { row: 0, column: 0 }, '=Sheet1!B1+1').spreadsheet;
+    await client.setWorkbook(updateSheet(workbook, sheet2).workbook);
+    const first = await client.recalc('Sheet1');
+    expect(first?.dependentSheets.map(changes => changes.sheetName)).toEqual(['Sheet2']);
+
+    await client.setCells([{ row: 0, column: 0, value: '15' }], 'Sheet1');
+    const result = await client.recalc('Sheet1');
+
+    expect(result?.stats.mode).toBe('incremental');
+    expect(result?.dependentSheets).toEqual([
+      { sheetName: 'Sheet2', cells: [expect.objectContaining({ rawValue: '=Sheet1!B1+1', displayValue: '31' })], removedKeys: [] },
+    ]);
+    port.close();
+  });
+
+  test('設定したワークブックの反復計算の設定で再計算すること', async () => {
+    const port = connect();
+    const { workbook } = createNewWorkbook('循環', ['Sheet1']);
+    const sheet = setCellValue(
+      setCellValue(workbook.sheets[0], { row: 0, column: 0 }, '=B1/2+1').spreadsheet,
+      { row: 0, column: 1 }, '=A1'
+    ).spreadsheet;
+    const circular = updateSheet(workbook, sheet).workbook;
+
+    await client.setWorkbook(circular);
+    expect((await client.recalc())?.circularReferences).toEqual([]);
+
+    await client.setWorkbook(setIterativeCalculation(circular, { enabled: true, maxIterations: 100 }).workbook);
+    const result = await client.recalc();
+    expect(result?.circularReferences).toEqual([expect.objectContaining({ converged: true })]);
+    expect(Number(result?.cells.find(cell => cell.rawValue === '=A1')?.displayValue)).toBeCloseTo(2, 2);
+    port.close();
+  });
+
+  test('数式エンジンでセルの値とエラーを計算すること', async () => {
+    const port = connect();
+    await client.setWorkbook(createBudgetWorkbook());
+    await client.setCells([{ row: 2, column: 0, value: '=A1/0' }]);
+
+    const values = await client.getValues([{ row: 0, column: 2 }, { row: 2, column: 0 }]);
+
+    expect(values[0]).toEqual({ row: 0, column: 2, value: 30, displayValue: '30' });
+    expect(values[1]).toMatchObject({ row: 2, column: 0, displayValue: '#DIV/0!', error: { type: 'DIV/0' } });
+    port.close();
+  });
+
+  test('プラグインの関数を使う数式の評価の手順・エラーの説明・条件付き書式をワーカーで求めること', async () => {
+    const port = connect();
+    await client.configure([doublePlugin]);
+    const workbook = createBudgetWorkbook();
+    const sheet = setCellValue(workbook.sheets[0], { row: 2, column: 0 }, '=DOUBLE(A1)/0').spreadsheet;
+    await client.setWorkbook(updateSheet(workbook, {
+      ...sheet,
+      conditionalFormats: [
+        createConditionalFormatRule({ type: 'formula', range: 'A1:A2', formula: '=DOUBLE(A1)>30', style: { backgroundColor: '#ff0000' } }),
+      ],
+    }).workbook);
+    await client.recalc();
+
+    const evaluation = await client.evaluateFormulaSteps('=DOUBLE(A1)+1', { row: 0, column: 3 });
+    expect(evaluation.error).toBeUndefined();
+    expect(evaluation.steps.map(step => step.displayValue)).toEqual(['10', '20', '21']);
+
+    const error = await client.getCellError({ row: 2, column: 0 });
+    expect(error).toMatchObject({ type: 'DIVISION_BY_ZERO', code: '#DIV/0!' });
+    expect(await client.getCellError({ row: 0, column: 1 })).toBeUndefined();
+
+    const formats = await client.evaluateConditionalFormats();
+    expect(Array.from(formats.keys())).toEqual(['1-0']);
+    expect(formats.get('1-0')).toMatchObject({ backgroundColor: '#ff0000' });
+    port.close();
+  });
+
+  test('新しい再計算で置き換えた再計算と取り消した再計算はnullで完了すること', async () => {
+    const port = connect();
+    void client.setWorkbook(createBudgetWorkbook());
+    const superseded = client.recalc();
+    const latest = client.recalc();
+    const cancelled = client.recalc('Sheet2');
+    expect(client.isRecalculating()).toBe(true);
+    client.cancel();
+
+    await expect(superseded).resolves.toBeNull();
+    await expect(cancelled).resolves.toBeNull();
+    // 処理中の再計算は取り消せない場合がある
+    const result = await latest;
+    expect(result === null || result.stats.mode === 'full').toBe(true);
+    expect(client.isRecalculating()).toBe(false);
+    port.close();
+  });
+
+  test('処理できない要求はエラーのメッセージで失敗すること', async () => {
+    const port = connect();
+    await expect(client.setCells([{ row: 0, column: 0, value: '1' }], '存在しない'))
+      .rejects.toThrow('シート「存在しない」が見つかりません');
+    port.close();
+  });
+});
+
+describe('再計算の結果のシートへの反映', () => {
+  test('変わったセルと取り除いたセルを反映し、要求の後に入力が変わったセルはそのままにすること', () => {
+    const sheet = createBudgetWorkbook().sheets[0];
+    const edited = setCellValue(sheet, { row: 0, column: 1 }, '=A1*3').spreadsheet;
+    const oldFormula = { ...sheet.cells.get('0-1')!, displayValue: '24' };
+    const sum = { ...sheet.cells.get('0-2')!, displayValue: '42' };
+
+    const applied = applyFormulaWorkerResult(edited, {
+      sheetName: 'Sheet1',
+      cells: [oldFormula, sum],
+      removedKeys: ['5-5', '1-0'],
+    });
+
+    expect(applied.cells.get('0-1')?.rawValue).toBe('=A1*3');
+    expect(applied.cells.get('0-2')?.displayValue).toBe('42');
+    expect(applied.cells.get('1-0')?.rawValue).toBe('20');
+    expect(getPendingCellKeys(applied)).toEqual(new Set(['0-1', '0-2']));
+  });
+});
+
+describe('ワーカースレッドでの実行', () => {
+  test('ワーカースレッドの数式エンジンで配列の展開を含むシートを再計算すること', async () => {
+    // TypeScriptのソースをそのまま読み込めるようにして、ワーカースレッドでホストを起動する
+    const worker = new Worker(`
+      const { workerData } = require('worker_threads');
+      const fs = require('fs');
+      const ts = require(workerData.typescript);
+      require.extensions['.ts'] = (module, filename) => {
+        const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+          compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, esModuleInterop: true },
+          fileName: filename,
+        });
+        module._compile(outputText, filename);
+      };
+      require(workerData.entry).startNodeFormulaWorker();
+    `, {
+      eval: true,
+      workerData: {
+        typescript: require.resolve('typescript'),
+        entry: path.resolve(__dirname, '../../src/lib/formula-engine/node-worker.ts'),
+      },
+    });
+    const client = createFormulaWorkerClient(createNodeWorkerEndpoint(worker));
+
+    try {
+      await client.setCells([{ row: 0, column: 0, value: '=SEQUENCE(3)' }, { row: 0, column: 1, value: '=SUM(A1#)' }]);
+      const spilled = await client.recalc();
+      expect(spilled?.cells.map(cell => cell.displayValue)).toEqual(['1', '6', '2', '3']);
+
+      await client.setCells([{ row: 0, column: 0, value: '=SEQUENCE(2)' }]);
+      const shrunk = await client.recalc();
+      expect(shrunk?.removedKeys).toEqual(['2-0']);
+      expect(await client.getValues([{ row: 0, column: 0 }])).toEqual([{ row: 0, column: 0, value: 1, displayValue: '1' }]);
+    } finally {
+      client.dispose();
+    }
+  }, 60000);
+});
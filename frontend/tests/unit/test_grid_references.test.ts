@@ -0,0 +1,233 @@
+/**
+ * 行・列操作による参照の書き換え ユニットテスト
+ * 挿入・削除・移動に合わせた数式の参照の追従と、アンドゥ・リドゥ
+ */
+import { describe, test, expect } from '@jest/globals';
+import { act, renderHook } from '@testing-library/react';
+
+import { adjustReferencesForGridChange } from '../../src/lib/formula';
+import { Spreadsheet } from '../../src/lib/spreadsheet';
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import {
+  insertRowsAt,
+  deleteRowsAt,
+  insertColumnsAt,
+  deleteColumnsAt,
+  moveRowToPosition,
+  moveColumnToPosition,
+  applyGridHistoryEntry
+} from '../../src/lib/spreadsheet-core/grid';
+import {
+  createNewWorkbook,
+  updateSheet,
+  adjustWorkbookReferences,
+  applyWorkbookGridHistoryEntry
+} from '../../src/lib/spreadsheet-core/workbook';
+import { createName } from '../../src/lib/spreadsheet-core/names';
+import {
+  createRowOperationEntry,
+  createColumnOperationEntry,
+  createMoveOperationEntry
+} from '../../src/lib/history';
+import { HistoryEntry } from '../../src/lib/history';
+import { Workbook } from '../../src/lib/workbook';
+import { useHistory } from '../../src/hooks/useHistory';
+
+/**
+ * テスト用にセル値をまとめて設定する（キーは行-列）
+ */
+function setValues(spreadsheet: Spreadsheet, values: Record<string, string>): Spreadsheet {
+  return Object.entries(values).reduce((current, [key, value]) => {
+    const [row, column] = key.split('-').map(Number);
+    return setCellValue(current, { row, column }, value).spreadsheet;
+  }, spreadsheet);
+}
+
+function rawValue(spreadsheet: Spreadsheet, key: string): string | undefined {
+  return spreadsheet.cells.get(key)?.rawValue;
+}
+
+/**
+ * A1:A5に数値、C1・C2に数式を入力したシートを作成する
+ */
+function createSheet(): Workbook {
+  const { workbook } = createNewWorkbook('参照', ['Sheet1', 'Sheet2']);
+  const sheet = setValues(workbook.sheets[0], {
+    '0-0': '1',
+    '1-0': '2',
+    '2-0': '3',
+    '3-0': '4',
+    '4-0': '5',
+    '0-2': '=SUM(A1:A5)',
+    '1-2': '=A3*$A$4+A$5'
+  });
+  return updateSheet(workbook, sheet).workbook;
+}
+
+describe('adjustReferencesForGridChange', () => {
+  const change = { axis: 'row' as const, sheetName: 'Sheet1', count: 1 };
+
+  test('挿入位置以降の参照がずれ、範囲の途中への挿入で範囲が広がること', () => {
+    const formula = '=SUM(A1:A5)+$B$3+C$2';
+
+    expect(adjustReferencesForGridChange(formula, { ...change, operation: 'insert', index: 2, count: 2 }, 'Sheet1'))
+      .toBe('=SUM(A1:A7)+$B$5+C$2');
+  });
+
+  test('削除で範囲が縮み、削除されたセルへの参照は#REF!になること', () => {
+    const formula = '=SUM(A1:A5)+B3+SUM(C3:D3)';
+
+    expect(adjustReferencesForGridChange(formula, { ...change, operation: 'delete', index: 2 }, 'Sheet1'))
+      .toBe('=SUM(A1:A4)+#REF!+SUM(#REF!)');
+  });
+
+  test('列の操作では列の参照のみ書き換わり、他のシートへの参照はそのままであること', () => {
+    const formula = '=A1+C1+Sheet2!C1+Sheet1!$D$2';
+    const columnChange = { axis: 'column' as const, operation: 'insert' as const, index: 1, count: 1, sheetName: 'Sheet1' };
+
+    expect(adjustReferencesForGridChange(formula, columnChange, 'Sheet1')).toBe('=A1+D1+Sheet2!C1+Sheet1!$E$2');
+    expect(adjustReferencesForGridChange('=A1+1', columnChange, 'Sheet1')).toBe('=A1+1');
+  });
+
+  test('行の移動で移動した行と間の行への参照が追従すること', () => {
+    const formula = '=A1+A2+A3+A4';
+
+    expect(adjustReferencesForGridChange(formula, { ...change, operation: 'move', index: 0, toIndex: 2 }, 'Sheet1'))
+      .toBe('=A3+A1+A2+A4');
+  });
+});
+
+describe('グリッド操作による数式の書き換え', () => {
+  test('行の挿入・削除で同じシートの数式が書き換わること', () => {
+    const sheet = createSheet().sheets[0];
+
+    const inserted = insertRowsAt(sheet, 1, 2);
+    expect(rawValue(inserted.spreadsheet, '0-2')).toBe('=SUM(A1:A7)');
+    expect(rawValue(inserted.spreadsheet, '3-2')).toBe('=A5*$A$6+A$7');
+    expect(inserted.formulaChanges).toHaveLength(2);
+
+    const deleted = deleteRowsAt(sheet, 2, 1);
+    expect(rawValue(deleted.spreadsheet, '0-2')).toBe('=SUM(A1:A4)');
+    expect(rawValue(deleted.spreadsheet, '1-2')).toBe('=#REF!*$A$3+A$4');
+  });
+
+  test('列の挿入・削除・移動で同じシートの数式が書き換わること', () => {
+    const sheet = createSheet().sheets[0];
+
+    expect(rawValue(insertColumnsAt(sheet, 0, 1).spreadsheet, '0-3')).toBe('=SUM(B1:B5)');
+    expect(rawValue(deleteColumnsAt(sheet, 0, 1).spreadsheet, '0-1')).toBe('=SUM(#REF!)');
+
+    const moved = moveColumnToPosition(sheet, 0, 1);
+    expect(rawValue(moved.spreadsheet, '0-2')).toBe('=SUM(B1:B5)');
+    expect(rawValue(moved.spreadsheet, '0-1')).toBe('1');
+  });
+
+  test('行の移動で移動したセルを参照する数式が追従すること', () => {
+    const sheet = createSheet().sheets[0];
+
+    const moved = moveRowToPosition(sheet, 2, 0);
+    expect(rawValue(moved.spreadsheet, '0-0')).toBe('3');
+    expect(rawValue(moved.spreadsheet, '2-2')).toBe('=A1*$A$4+A$5');
+    expect(rawValue(moved.spreadsheet, '1-2')).toBe('=SUM(A1:A5)');
+  });
+
+  test('他のシートの数式と名前の参照先が書き換わること', () => {
+    let workbook = createSheet();
+    workbook = updateSheet(workbook, setValues(workbook.sheets[1], {
+      '0-0': '=Sheet1!A3+A3',
+      '1-0': '=SUM(Sheet1!A2:A4)'
+    })).workbook;
+    workbook = createName(workbook, 'Total', '=Sheet1!A5').workbook;
+
+    const result = adjustWorkbookReferences(workbook, workbook.sheets[0].id, {
+      axis: 'row',
+      operation: 'delete',
+      index: 2,
+      count: 1
+    });
+
+    expect(rawValue(result.workbook.sheets[1], '0-0')).toBe('=#REF!+A3');
+    expect(rawValue(result.workbook.sheets[1], '1-0')).toBe('=SUM(Sheet1!A2:A3)');
+    expect(result.workbook.names[0].refersTo).toBe('=Sheet1!$A$4');
+    expect(result.data?.map(change => change.position.sheetName)).toEqual(['Sheet2', 'Sheet2']);
+  });
+});
+
+describe('行・列操作のアンドゥ・リドゥ', () => {
+  test('行の削除を取り消すと削除したセルと#REF!になった数式が元に戻ること', () => {
+    const sheet = createSheet().sheets[0];
+    const deleted = deleteRowsAt(sheet, 2, 1);
+    const entry = createRowOperationEntry(
+      'delete', 2, 1, undefined, undefined, deleted.deletedCells, deleted.formulaChanges
+    );
+
+    const undone = applyGridHistoryEntry(deleted.spreadsheet, entry, 'undo').spreadsheet;
+    expect(rawValue(undone, '2-0')).toBe('3');
+    expect(rawValue(undone, '0-2')).toBe('=SUM(A1:A5)');
+    expect(rawValue(undone, '1-2')).toBe('=A3*$A$4+A$5');
+
+    const redone = applyGridHistoryEntry(undone, entry, 'redo').spreadsheet;
+    expect(rawValue(redone, '1-2')).toBe('=#REF!*$A$3+A$4');
+  });
+
+  test('列の挿入と行の移動を取り消せること', () => {
+    const sheet = createSheet().sheets[0];
+
+    const inserted = insertColumnsAt(sheet, 1, 1);
+    const insertEntry = createColumnOperationEntry('insert', 1, 1, undefined, undefined, undefined, inserted.formulaChanges);
+    const undoneInsert = applyGridHistoryEntry(inserted.spreadsheet, insertEntry, 'undo').spreadsheet;
+    expect(rawValue(undoneInsert, '0-2')).toBe('=SUM(A1:A5)');
+
+    const moved = moveRowToPosition(sheet, 0, 3);
+    const moveEntry = createMoveOperationEntry('row', 0, 3, moved.formulaChanges);
+    const undoneMove = applyGridHistoryEntry(moved.spreadsheet, moveEntry, 'undo').spreadsheet;
+    expect(rawValue(undoneMove, '0-0')).toBe('1');
+    expect(rawValue(undoneMove, '0-2')).toBe('=SUM(A1:A5)');
+    expect(rawValue(undoneMove, '1-2')).toBe('=A3*$A$4+A$5');
+  });
+
+  test('ワークブックで他のシートの数式と名前の参照先も元に戻ること', async () => {
+    let workbook = createSheet();
+    workbook = updateSheet(workbook, setValues(workbook.sheets[1], { '0-0': '=Sheet1!A3*2' })).workbook;
+    workbook = createName(workbook, 'Deleted', '=Sheet1!A3').workbook;
+    workbook = createName(workbook, 'Total', '=Sheet1!A5').workbook;
+    const sheetId = workbook.sheets[0].id;
+
+    const deleted = deleteRowsAt(workbook.sheets[0], 2, 1);
+    const adjusted = adjustWorkbookReferences(updateSheet(workbook, deleted.spreadsheet).workbook, sheetId, {
+      axis: 'row',
+      operation: 'delete',
+      index: 2,
+      count: 1
+    });
+    expect(rawValue(adjusted.workbook.sheets[1], '0-0')).toBe('=#REF!*2');
+    expect(adjusted.workbook.names.map(name => name.refersTo)).toEqual(['=#REF!', '=Sheet1!$A$4']);
+
+    // アプリと同じく履歴フックに記録し、取り消し・やり直しで返されたエントリーを適用する
+    const { result: history } = renderHook(() => useHistory({ enableKeyboardShortcuts: false }));
+    act(() => {
+      history.current.addRowOperation('delete', 2, 1, undefined, undefined, deleted.deletedCells, [
+        ...(deleted.formulaChanges ?? []),
+        ...(adjusted.data ?? [])
+      ], adjusted.nameChanges, adjusted.conditionalFormatChanges, sheetId);
+    });
+
+    let entry: HistoryEntry | null = null;
+    await act(async () => {
+      entry = await history.current.undo();
+    });
+    expect(entry!.sheetId).toBe(sheetId);
+    const undone = applyWorkbookGridHistoryEntry(adjusted.workbook, entry!.sheetId!, entry!, 'undo');
+
+    expect(undone.success).toBe(true);
+    expect(rawValue(undone.workbook.sheets[0], '2-0')).toBe('3');
+    expect(rawValue(undone.workbook.sheets[1], '0-0')).toBe('=Sheet1!A3*2');
+    expect(undone.workbook.names.map(name => name.refersTo)).toEqual(['=Sheet1!$A$3', '=Sheet1!$A$5']);
+
+    await act(async () => {
+      entry = await history.current.redo();
+    });
+    const redone = applyWorkbookGridHistoryEntry(undone.workbook, sheetId, entry!, 'redo');
+    expect(redone.workbook.names.map(name => name.refersTo)).toEqual(['=#REF!', '=Sheet1!$A$4']);
+  });
+});
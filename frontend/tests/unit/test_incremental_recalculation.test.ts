@@ -0,0 +1,212 @@
+/**
+ * 差分再計算 ユニットテスト
+ * 依存関係グラフの更新、変更されたセルに依存するセルだけの再計算、シート全体の再計算への切り替え、
+ * 他のシートを参照する数式の再計算、数式エンジンのセル単位の更新
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { createEmptyCell, updateCellValue } from '../../src/lib/cell';
+import { Spreadsheet, createSpreadsheet } from '../../src/lib/spreadsheet';
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { createNewWorkbook, updateSheet } from '../../src/lib/spreadsheet-core/workbook';
+import { Workbook } from '../../src/lib/workbook';
+import { createFormulaCalculator } from '../../src/lib/formula-engine/calculator';
+import { createDependencyManager } from '../../src/lib/formula-engine/dependencies';
+import {
+  createIncrementalRecalculator,
+  recalculateSpreadsheet
+} from '../../src/lib/formula-engine/recalculation';
+import { createFormulaEngine } from '../../src/lib/formula-engine';
+
+/**
+ * テスト用のシートを作成する（値は行ごとの配列、A1から配置する）
+ */
+function createSheet(rows: string[][]): Spreadsheet {
+  const spreadsheet = createSpreadsheet('Sheet1');
+  const cells = new Map(spreadsheet.cells);
+  rows.forEach((values, row) => values.forEach((value, column) => {
+    if (value !== '') {
+      cells.set(`${row}-${column}`, updateCellValue(createEmptyCell({ row, column }), value));
+    }
+  }));
+  return { ...spreadsheet, cells };
+}
+
+/**
+ * 表示値を取得する
+ */
+function display(spreadsheet: Spreadsheet, key: string): string | undefined {
+  return spreadsheet.cells.get(key)?.displayValue;
+}
+
+describe('依存関係グラフの更新', () => {
+  test('セルの数式を変更しても、そのセルを参照するセルの依存関係は残ること', () => {
+    const manager = createDependencyManager(createSheet([['1', '=A1*2', '=B1+1']]));
+
+    manager.updateCellDependencies({ row: 0, column: 1 }, '=A1*3');
+
+    expect(manager.getCellDependencies({ row: 0, column: 2 })).toEqual([{ row: 0, column: 1 }]);
+    expect(manager.getCellDependents({ row: 0, column: 1 })).toEqual([{ row: 0, column: 2 }]);
+    expect(manager.getCellDependentsRecursive({ row: 0, column: 0 }, Infinity))
+      .toEqual([{ row: 0, column: 1 }, { row: 0, column: 2 }]);
+    expect(manager.getGraphStats().edgeCount).toBe(2);
+  });
+
+  test('長い参照の連鎖でも依存するセルをたどり、計算順序を求められること', () => {
+    const rows = Array.from({ length: 20000 }, (_, row) => [row === 0 ? '1' : `=A${row}+1`]);
+    const manager = createDependencyManager(createSheet(rows));
+
+    expect(manager.getCellDependentsRecursive({ row: 0, column: 0 }, Infinity)).toHaveLength(19999);
+    expect(manager.getCalculationOrder()).toHaveLength(20000);
+    expect(manager.getCircularReferences()).toEqual([]);
+  });
+});
+
+describe('差分再計算', () => {
+  const calculator = createFormulaCalculator();
+  const createBudget = () => createSheet([
+    ['10', '=A1*2', '=B1+1', '=SUM(A1:A3)'],
+    ['20', '=A2*2', '=5*2', ''],
+    ['30', '', '', ''],
+  ]);
+
+  test('変更したセルに依存するセルだけを計算し、シート全体の再計算と同じ結果になること', () => {
+    const recalculator = createIncrementalRecalculator(calculator);
+    const first = recalculator.recalculate(createBudget());
+    expect(first.stats).toMatchObject({ mode: 'full', recalculatedCells: 5 });
+
+    const edited = setCellValue(first.spreadsheet, { row: 0, column: 0 }, '15').spreadsheet;
+    const report = recalculator.recalculate(edited, [{ row: 0, column: 0 }]);
+
+    expect(report.stats).toMatchObject({ mode: 'incremental', recalculatedCells: 3 });
+    expect(report.recalculatedCells).toEqual(expect.arrayContaining([
+      { row: 0, column: 1 }, { row: 0, column: 2 }, { row: 0, column: 3 },
+    ]));
+    expect(display(report.spreadsheet, '0-2')).toBe('31');
+    expect(display(report.spreadsheet, '0-3')).toBe('65');
+    expect(report.spreadsheet.cells).toEqual(recalculateSpreadsheet(edited, calculator).cells);
+  });
+
+  test('数式を変更したセルの依存関係を更新して、続けて差分再計算できること', () => {
+    const recalculator = createIncrementalRecalculator(calculator);
+    let sheet = recalculator.recalculate(createBudget()).spreadsheet;
+
+    sheet = recalculator.recalculate(
+      setCellValue(sheet, { row: 0, column: 1 }, '=A2*3').spreadsheet,
+      [{ row: 0, column: 1 }]
+    ).spreadsheet;
+    expect(display(sheet, '0-1')).toBe('60');
+    expect(display(sheet, '0-2')).toBe('61');
+
+    // 変更後の数式の参照先を変更すると再計算される（変更前の参照先のA1は影響しない）
+    const report = recalculator.recalculate(
+      setCellValue(sheet, { row: 1, column: 0 }, '1').spreadsheet,
+      [{ row: 1, column: 0 }]
+    );
+    expect(report.stats.mode).toBe('incremental');
+    expect(display(report.spreadsheet, '0-2')).toBe('4');
+    expect(display(report.spreadsheet, '1-1')).toBe('2');
+    expect(display(report.spreadsheet, '0-3')).toBe('41');
+  });
+
+  test('前回の結果以外のシートや配列の展開を含む場合はシート全体を再計算すること', () => {
+    const recalculator = createIncrementalRecalculator(calculator);
+    recalculator.recalculate(createBudget());
+
+    // 変更したセルとして指定していないセルも変わっている
+    const other = setCellValue(createBudget(), { row: 2, column: 0 }, '5').spreadsheet;
+    expect(recalculator.recalculate(other, [{ row: 0, column: 0 }]).stats.mode).toBe('full');
+
+    const spill = recalculator.recalculate(createSheet([['=SEQUENCE(3)', '1']])).spreadsheet;
+    const edited = setCellValue(spill, { row: 0, column: 1 }, '2').spreadsheet;
+    expect(recalculator.recalculate(edited, [{ row: 0, column: 1 }]).stats.mode).toBe('full');
+  });
+
+  test('揮発性のセルは変更と関係なく再計算すること', () => {
+    const recalculator = createIncrementalRecalculator(calculator);
+    const sheet = recalculator.recalculate(createSheet([['1', '=INDIRECT("A1")*2', '5', '=C1+1']])).spreadsheet;
+
+    const report = recalculator.recalculate(setCellValue(sheet, { row: 0, column: 2 }, '6').spreadsheet, [{ row: 0, column: 2 }]);
+
+    expect(report.recalculatedCells).toEqual(expect.arrayContaining([{ row: 0, column: 1 }, { row: 0, column: 3 }]));
+    expect(display(report.spreadsheet, '0-3')).toBe('7');
+  });
+});
+
+describe('他のシートを参照する数式の再計算', () => {
+  const calculator = createFormulaCalculator();
+
+  /**
+   * Sheet1のA1=1、Sheet2のA1=Sheet1!A1*2・B1=A1+1、Sheet3のA1=1+1のワークブックを作成する
+   */
+  const createLinkedWorkbook = (): Workbook => {
+    const { workbook } = createNewWorkbook('集計', ['Sheet1', 'Sheet2', 'Sheet3']);
+    const [sheet1, sheet2, sheet3] = workbook.sheets;
+    return [
+      setCellValue(sheet1, { row: 0, column: 0 }, '1').spreadsheet,
+      setCellValue(setCellValue(sheet2, { row: 0, column: 0 }, '=Sheet1!A1*2').spreadsheet, { row: 0, column: 1 }, '=A1+1').spreadsheet,
+      setCellValue(sheet3, { row: 0, column: 0 }, '=1+1').spreadsheet,
+    ].reduce((current, sheet) => updateSheet(current, sheet).workbook, workbook);
+  };
+
+  const applyReport = (workbook: Workbook, report: { spreadsheet: Spreadsheet; dependentSheets: Spreadsheet[] }) =>
+    [report.spreadsheet, ...report.dependentSheets].reduce((current, sheet) => updateSheet(current, sheet).workbook, workbook);
+
+  test('変更したセルを参照する他のシートのセルを差分再計算すること', () => {
+    const recalculator = createIncrementalRecalculator(calculator);
+    let workbook = createLinkedWorkbook();
+    const first = recalculator.recalculate(workbook.sheets[0], undefined, { workbook });
+    expect(first.dependentSheets.map(sheet => sheet.name)).toEqual(['Sheet2', 'Sheet3']);
+    workbook = applyReport(workbook, first);
+    expect(display(workbook.sheets[1], '0-1')).toBe('3');
+
+    const edited = setCellValue(workbook.sheets[0], { row: 0, column: 0 }, '5').spreadsheet;
+    const report = recalculator.recalculate(edited, [{ row: 0, column: 0 }], { workbook });
+
+    expect(report.stats.mode).toBe('incremental');
+    expect(report.dependentSheets.map(sheet => sheet.name)).toEqual(['Sheet2']);
+    expect(display(report.dependentSheets[0], '0-0')).toBe('10');
+    expect(display(report.dependentSheets[0], '0-1')).toBe('11');
+
+    // 他のシートの結果を反映したワークブックで続けて差分再計算できる
+    workbook = applyReport(workbook, report);
+    const next = recalculator.recalculate(
+      setCellValue(workbook.sheets[0], { row: 0, column: 0 }, '7').spreadsheet,
+      [{ row: 0, column: 0 }],
+      { workbook }
+    );
+    expect(next.stats.mode).toBe('incremental');
+    expect(display(next.dependentSheets[0], '0-1')).toBe('15');
+  });
+
+  test('シート全体を再計算する場合も、変更したセルを参照する他のシートを計算し直すこと', () => {
+    const recalculator = createIncrementalRecalculator(calculator);
+    let workbook = createLinkedWorkbook();
+    workbook = updateSheet(workbook, setCellValue(workbook.sheets[0], { row: 0, column: 2 }, '=SEQUENCE(2)').spreadsheet).workbook;
+    workbook = applyReport(workbook, recalculator.recalculate(workbook.sheets[0], undefined, { workbook }));
+
+    const edited = setCellValue(workbook.sheets[0], { row: 0, column: 0 }, '5').spreadsheet;
+    const report = recalculator.recalculate(edited, [{ row: 0, column: 0 }], { workbook });
+
+    expect(report.stats.mode).toBe('full');
+    expect(report.dependentSheets.map(sheet => sheet.name)).toEqual(['Sheet2']);
+    expect(display(report.dependentSheets[0], '0-1')).toBe('11');
+  });
+});
+
+describe('数式エンジンのセル単位の更新', () => {
+  test('変更したセルだけを置き換えて、依存するセルの結果が更新されること', () => {
+    const sheet = createSheet([['2', '=A1*10', 'メモ']]);
+    const engine = createFormulaEngine();
+    engine.setSpreadsheetData(sheet);
+    expect(engine.calculateCell({ row: 0, column: 1 }).value).toBe(20);
+
+    const edited = setCellValue(sheet, { row: 0, column: 0 }, '3').spreadsheet;
+    engine.setSpreadsheetData(edited, undefined, [{ row: 0, column: 0 }, { row: 5, column: 5 }]);
+
+    expect(engine.calculateCell({ row: 0, column: 1 }).value).toBe(30);
+    expect(engine.calculateCell({ row: 0, column: 2 }).value).toBe('メモ');
+    expect(engine.calculateCell({ row: 5, column: 5 }).displayValue).toBe('');
+    engine.destroy();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * 反復計算 ユニットテスト
+ * 循環参照のセルのまとまり（強連結成分）の検出、反復計算の収束・未収束、ワークブックの設定、
+ * シートの再計算と数式エンジンでの利用
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { createNewWorkbook, setIterativeCalculation, updateSheet } from '../../src/lib/spreadsheet-core/workbook';
+import { Spreadsheet } from '../../src/lib/spreadsheet';
+import { DEFAULT_ITERATIVE_CALCULATION, Workbook, getIterativeCalculationSettings } from '../../src/lib/workbook';
+import { createFormulaCalculator, createCalculationContext } from '../../src/lib/formula-engine/calculator';
+import { DependencyManager } from '../../src/lib/formula-engine/dependencies';
+import { recalculateSpreadsheetWithReport } from '../../src/lib/formula-engine/recalculation';
+import { createFormulaEngine } from '../../src/lib/formula-engine';
+
+/**
+ * テスト用にシートのセル値を設定する（[行, 列, 値]の一覧）
+ */
+function setValues(spreadsheet: Spreadsheet, values: Array<[number, number, string]>): Spreadsheet {
+  return values.reduce(
+    (sheet, [row, column, value]) => setCellValue(sheet, { row, column }, value).spreadsheet,
+    spreadsheet
+  );
+}
+
+/**
+ * A1=B1+1・B1=A1/2 の循環参照と、それを参照するC1=A1*10、自分自身を参照するA2=A2+1 のシートを作成する
+ */
+function createCircularWorkbook(): Workbook {
+  const { workbook } = createNewWorkbook('反復計算', ['Sheet1']);
+  return updateSheet(workbook, setValues(workbook.sheets[0], [
+    [0, 0, '=B1+1'],
+    [0, 1, '=A1/2'],
+    [0, 2, '=A1*10'],
+    [1, 0, '=A2+1'],
+    [2, 0, '=C1+5'],
+  ])).workbook;
+}
+
+const ENABLED = { enabled: true, maxIterations: 100, maxChange: 0.0001 };
+
+describe('循環参照のセルのまとまりの検出', () => {
+  test('循環参照を構成するセルと自分自身を参照するセルだけをまとまりとして返すこと', () => {
+    const manager = new DependencyManager(createCircularWorkbook().sheets[0]);
+
+    expect(manager.getStronglyConnectedComponents()).toEqual([
+      [{ row: 0, column: 0 }, { row: 0, column: 1 }],
+      [{ row: 1, column: 0 }],
+    ]);
+  });
+
+  test('参照先のまとまりが先に来る順に並べること', () => {
+    const { workbook } = createNewWorkbook('反復計算', ['Sheet1']);
+    const sheet = setValues(workbook.sheets[0], [
+      [0, 0, '=A2+B1'],
+      [0, 1, '=A1*0.5'],
+      [1, 0, '=B2+1'],
+      [1, 1, '=A2/2'],
+    ]);
+
+    expect(new DependencyManager(sheet).getStronglyConnectedComponents()).toEqual([
+      [{ row: 1, column: 0 }, { row: 1, column: 1 }],
+      [{ row: 0, column: 0 }, { row: 0, column: 1 }],
+    ]);
+  });
+});
+
+describe('循環参照の反復計算', () => {
+  const sheet = createCircularWorkbook().sheets[0];
+  const components = new DependencyManager(sheet).getStronglyConnectedComponents();
+
+  test('値の変化が最大値以下になるまで繰り返して収束すること', () => {
+    const calculator = createFormulaCalculator({ iterativeCalculation: ENABLED });
+    const result = calculator.calculateCircularReferences(components, createCalculationContext(sheet));
+    const [solved] = result.components;
+
+    expect(solved.converged).toBe(true);
+    expect(solved.iterations).toBeLessThan(100);
+    expect(solved.maxChange).toBeLessThanOrEqual(0.0001);
+    expect(solved.results[0].value).toBeCloseTo(2, 3);
+    expect(solved.results[1].value).toBeCloseTo(1, 3);
+  });
+
+  test('最大反復回数に達しても収束しない場合は未収束として報告すること', () => {
+    const calculator = createFormulaCalculator({ iterativeCalculation: { ...ENABLED, maxIterations: 50 } });
+    const [, selfReference] = calculator.calculateCircularReferences(components, createCalculationContext(sheet)).components;
+
+    expect(selfReference).toMatchObject({ iterations: 50, converged: false, maxChange: 1 });
+    expect(selfReference.results[0].value).toBe(50);
+  });
+
+  test('反復計算が無効な場合は何も計算しないこと', () => {
+    const result = createFormulaCalculator().calculateCircularReferences(components, createCalculationContext(sheet));
+
+    expect(result.components).toEqual([]);
+  });
+});
+
+describe('ワークブックの反復計算の設定', () => {
+  test('設定を変更し、範囲外の値はエラーになること', () => {
+    const workbook = createCircularWorkbook();
+    expect(getIterativeCalculationSettings(workbook)).toEqual(DEFAULT_ITERATIVE_CALCULATION);
+
+    const result = setIterativeCalculation(workbook, { enabled: true, maxIterations: 500 });
+    expect(result.success).toBe(true);
+    expect(result.workbook.iterativeCalculation).toEqual({ enabled: true, maxIterations: 500, maxChange: 0.001 });
+
+    expect(setIterativeCalculation(workbook, { maxIterations: 0 }).success).toBe(false);
+    expect(setIterativeCalculation(workbook, { maxIterations: 1.5 }).success).toBe(false);
+    expect(setIterativeCalculation(workbook, { maxIterations: 40000 }).success).toBe(false);
+    expect(setIterativeCalculation(workbook, { maxChange: -1 }).error).toBe('変化の最大値は0以上の数値で指定してください');
+  });
+});
+
+describe('反復計算を使う再計算', () => {
+  test('循環参照のセルと、それを参照するセルを反復計算の結果で更新すること', () => {
+    const workbook = createCircularWorkbook();
+    const calculator = createFormulaCalculator({ iterativeCalculation: { ...ENABLED, maxIterations: 20 } });
+    const report = recalculateSpreadsheetWithReport(workbook.sheets[0], calculator, { workbook });
+    const display = (key: string) => Number(report.spreadsheet.cells.get(key)?.displayValue);
+
+    expect(display('0-0')).toBeCloseTo(2, 3);
+    expect(display('0-1')).toBeCloseTo(1, 3);
+    expect(display('0-2')).toBeCloseTo(20, 2);
+    expect(display('2-0')).toBeCloseTo(25, 2);
+    expect(report.circularReferences.map(component => component.converged)).toEqual([true, false]);
+    expect(report.circularReferences[0].cells).toEqual([
+      { row: 0, column: 0, sheetName: 'Sheet1' },
+      { row: 0, column: 1, sheetName: 'Sheet1' },
+    ]);
+  });
+
+  test('反復計算が無効な場合は循環参照を報告しないこと', () => {
+    const workbook = createCircularWorkbook();
+    const report = recalculateSpreadsheetWithReport(workbook.sheets[0], createFormulaCalculator(), { workbook });
+
+    expect(report.circularReferences).toEqual([]);
+  });
+});
+
+describe('数式エンジンの反復計算', () => {
+  test('ワークブックの設定で反復計算が有効な場合はシートをまたぐ循環参照も計算すること', () => {
+    let { workbook } = createNewWorkbook('反復計算', ['Sheet1', 'Sheet2']);
+    workbook = updateSheet(workbook, setValues(workbook.sheets[0], [[0, 0, '=Sheet2!A1+1'], [0, 1, '=A1*2']])).workbook;
+    workbook = updateSheet(workbook, setValues(workbook.sheets[1], [[0, 0, '=Sheet1!A1/2']])).workbook;
+
+    const engine = createFormulaEngine();
+    engine.setWorkbookData(workbook);
+    expect(engine.calculateCell({ row: 0, column: 0 })).toMatchObject({ success: false, displayValue: '#CYCLE!' });
+
+    engine.setWorkbookData(setIterativeCalculation(workbook, { enabled: true, maxChange: 0.00001 }).workbook);
+    expect(engine.calculateCell({ row: 0, column: 0 }).value).toBeCloseTo(2, 4);
+    expect(engine.calculateCell({ row: 0, column: 1 }).value).toBeCloseTo(4, 4);
+    expect(engine.calculateCell({ row: 0, column: 0 }, 'Sheet2').value).toBeCloseTo(1, 4);
+    engine.destroy();
+  });
+});
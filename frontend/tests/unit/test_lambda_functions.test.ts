@@ -0,0 +1,130 @@
+/**
+ * LET・LAMBDA ユニットテスト
+ * LET・LAMBDAの評価、ワークブックの名前で定義した関数（再帰を含む）、MAP・REDUCE・SCAN・BYROW・BYCOL、
+ * 名前の変更と数式エンジンでの利用
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { getNamedRangeKind } from '../../src/lib/named-range';
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { createNewWorkbook, updateSheet } from '../../src/lib/spreadsheet-core/workbook';
+import { createName, updateName } from '../../src/lib/spreadsheet-core/names';
+import { Workbook } from '../../src/lib/workbook';
+import { createFormulaCalculator, createCalculationContext } from '../../src/lib/formula-engine/calculator';
+import { createFormulaEngine } from '../../src/lib/formula-engine';
+
+/**
+ * テスト用にシートのセル値を設定する
+ */
+function setValue(workbook: Workbook, a1: [number, number], value: string): Workbook {
+  const result = setCellValue(workbook.sheets[0], { row: a1[0], column: a1[1] }, value);
+  return updateSheet(workbook, result.spreadsheet).workbook;
+}
+
+/**
+ * A1:B3に数量・単価、TAX・FACT・LOOPの関数とRateの名前を定義したワークブックを作成する
+ */
+function createOrderWorkbook(): Workbook {
+  let { workbook } = createNewWorkbook('注文', ['Sheet1']);
+  [['2', '100'], ['3', '250'], ['1', '80']].forEach((values, row) => values.forEach((value, column) => {
+    workbook = setValue(workbook, [row, column], value);
+  }));
+  workbook = createName(workbook, 'TAX', '=LAMBDA(price, price*1.1)').workbook;
+  workbook = createName(workbook, 'FACT', '=LAMBDA(n, IF(n<=1, 1, n*FACT(n-1)))').workbook;
+  workbook = createName(workbook, 'LOOP', '=LAMBDA(n, LOOP(n+1))').workbook;
+  workbook = createName(workbook, 'Rate', '=0.5').workbook;
+  return workbook;
+}
+
+describe('LET・LAMBDA', () => {
+  const workbook = createOrderWorkbook();
+  const calculator = createFormulaCalculator();
+  const value = (formula: string) =>
+    calculator.calculate(formula, createCalculationContext(workbook.sheets[0], { workbook })).value;
+
+  test('LETは名前を付けた値で計算し、ワークブックの名前より優先すること', () => {
+    expect(value('=LET(x, 2, y, x*3, x+y)')).toBe(8);
+    expect(value('=LET(rate, 2, rate*3)')).toBe(6);
+    expect(value('=LET(r, A1:A3, ROWS(r)*SUM(r))')).toBe(18);
+    expect(value('=LET(x, 1, y)')).toBe('#NAME?');
+    expect(value('=LET(x, 1)')).toBe('#VALUE!');
+  });
+
+  test('LAMBDAは引数を指定して呼び出し、関数を返す関数も作成できること', () => {
+    expect(value('=LAMBDA(x, x+1)(2)')).toBe(3);
+    expect(value('=LAMBDA(x, LAMBDA(y, x*y))(3)(4)')).toBe(12);
+    expect(value('=LET(f, LAMBDA(a, b, a-b), f(10, 4))')).toBe(6);
+    expect(value('=LAMBDA(x, x+1)(1, 2)')).toBe('#VALUE!');
+    expect(value('=LAMBDA(x, x, x)(1)')).toBe('#VALUE!');
+    // 呼び出していない関数は#CALC!
+    expect(value('=LAMBDA(x, x+1)')).toBe('#CALC!');
+    expect(value('=SUM(LAMBDA(x, x))')).toBe('#VALUE!');
+  });
+
+  test('名前で定義した関数を呼び出し、再帰の深さには上限があること', () => {
+    expect(value('=TAX(B2)')).toBeCloseTo(275, 10);
+    expect(value('=SUM(TAX(100), Rate)')).toBeCloseTo(110.5, 10);
+    expect(value('=FACT(5)')).toBe(120);
+    expect(value('=LOOP(1)')).toBe('#NUM!');
+    expect(getNamedRangeKind(workbook.names.find(name => name.name === 'TAX')!)).toBe('lambda');
+    expect(getNamedRangeKind(workbook.names.find(name => name.name === 'Rate')!)).toBe('constant');
+  });
+
+  test('MAP・REDUCE・SCAN・BYROW・BYCOLは要素・行・列ごとに関数を呼び出すこと', () => {
+    const array = (formula: string) =>
+      calculator.calculate(formula, createCalculationContext(workbook.sheets[0], { workbook })).arrayValue;
+
+    expect(array('=MAP(A1:A3, B1:B3, LAMBDA(qty, price, qty*price))')).toEqual([[200], [750], [80]]);
+    expect(array('=MAP(A1:A3, FACT)')).toEqual([[2], [6], [1]]);
+    expect(value('=REDUCE(0, A1:B3, LAMBDA(total, v, total+v))')).toBe(436);
+    expect(array('=SCAN(1, A1:A3, LAMBDA(acc, v, acc*v))')).toEqual([[2], [6], [6]]);
+    expect(array('=BYROW(A1:B3, LAMBDA(row, SUM(row)))')).toEqual([[102], [253], [81]]);
+    expect(array('=BYCOL(A1:B3, LAMBDA(col, MAX(col)))')).toEqual([[3, 250]]);
+  });
+
+  test('MAP・REDUCEなどの引数の誤りはエラーになること', () => {
+    expect(value('=MAP(A1:A3, LAMBDA(a, b, a+b))')).toBe('#VALUE!');
+    expect(value('=MAP(A1:A3, 1)')).toBe('#VALUE!');
+    expect(value('=BYROW(A1:B3, LAMBDA(row, row))')).toBe('#CALC!');
+    expect(value('=REDUCE(0, A1:A3, LAMBDA(v, v))')).toBe('#VALUE!');
+  });
+});
+
+describe('LAMBDAの名前の管理', () => {
+  test('名前を変更すると呼び出している数式と再帰的な定義も書き換わること', () => {
+    let workbook = createOrderWorkbook();
+    workbook = setValue(workbook, [4, 0], '=FACT(A2)*2');
+    workbook = setValue(workbook, [5, 0], '=LET(FACT, 1, FACT)');
+    const fact = workbook.names.find(name => name.name === 'FACT')!;
+
+    const result = updateName(workbook, fact.id, { name: 'FACTORIAL' });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.refersTo).toBe('=LAMBDA(n, IF(n<=1, 1, n*FACTORIAL(n-1)))');
+    // LETで付けた同じ名前は書き換えない
+    expect(result.workbook.sheets[0].cells.get('4-0')?.rawValue).toBe('=FACTORIAL(A2)*2');
+    expect(result.workbook.sheets[0].cells.get('5-0')?.rawValue).toBe('=LET(FACT, 1, FACT)');
+  });
+});
+
+describe('数式エンジンのLET・LAMBDA', () => {
+  test('HyperFormulaにないLET・LAMBDAの数式と名前で定義した関数を計算できること', () => {
+    let workbook = createOrderWorkbook();
+    workbook = setValue(workbook, [0, 2], '=TAX(B1)');
+    workbook = setValue(workbook, [1, 2], '=C1*A1');
+    workbook = setValue(workbook, [2, 2], '=LET(total, SUM(B1:B3), total/Rate)');
+
+    const engine = createFormulaEngine();
+    engine.setWorkbookData(workbook);
+
+    expect(engine.calculateCell({ row: 0, column: 2 }).value).toBeCloseTo(110, 10);
+    // 結果を参照する数式も計算できる
+    expect(engine.calculateCell({ row: 1, column: 2 }).value).toBeCloseTo(220, 10);
+    expect(engine.calculateCell({ row: 2, column: 2 }).value).toBe(860);
+    expect(engine.evaluateFormula('=FACT(4)', { row: 9, column: 9 }).value).toBe(24);
+    expect(engine.evaluateFormula('=LAMBDA(x, x*2)(21)', { row: 9, column: 9 }).value).toBe(42);
+    expect(engine.evaluateFormula('=NOSUCH(1)', { row: 9, column: 9 })).toMatchObject({ success: false, displayValue: '#NAME?' });
+    expect(engine.getNamedRangeNames()).toEqual(expect.arrayContaining(['Rate', 'TAX', 'FACT']));
+    engine.destroy();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * 検索・行列関数 ユニットテスト
+ * VLOOKUP・XLOOKUP・MATCH・INDEX・OFFSET・INDIRECTなどの計算と、揮発性関数の依存関係
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { Spreadsheet } from '../../src/lib/spreadsheet';
+import { createFormulaCalculator, createCalculationContext } from '../../src/lib/formula-engine/calculator';
+import { createDependencyManager } from '../../src/lib/formula-engine/dependencies';
+import { createWildcardPattern, findLookupPosition } from '../../src/lib/formula-engine/lookup-functions';
+import { createSheet } from '../helpers/spreadsheet';
+
+// A1:C5 の商品表（価格は昇順）
+const products = createSheet([
+  ['コード', '商品', '価格'],
+  ['A-100', 'りんご', '100'],
+  ['B-200', 'みかん', '250'],
+  ['C-300', 'ぶどう', '400'],
+  ['D-400', 'メロン', '1000'],
+]);
+
+describe('検索・行列関数', () => {
+  const calculator = createFormulaCalculator();
+  const value = (formula: string, spreadsheet: Spreadsheet = products) =>
+    calculator.calculate(formula, createCalculationContext(spreadsheet)).value;
+
+  test('VLOOKUP・HLOOKUPの完全一致・近似一致・ワイルドカード', () => {
+    expect(value('=VLOOKUP("B-200", A2:C5, 2, FALSE)')).toBe('みかん');
+    expect(value('=VLOOKUP("c-3*", A2:C5, 3, FALSE)')).toBe(400);
+    expect(value('=VLOOKUP(300, C2:C5, 1)')).toBe(250);
+    expect(value('=VLOOKUP(50, C2:C5, 1)')).toBe('#N/A');
+    expect(value('=VLOOKUP("X", A2:C5, 2, FALSE)')).toBe('#N/A');
+    expect(value('=VLOOKUP("A-100", A2:C5, 4, FALSE)')).toBe('#REF!');
+    expect(value('=HLOOKUP("価格", A1:C5, 3, FALSE)')).toBe(250);
+  });
+
+  test('XLOOKUP・XMATCHの一致モード・検索モード', () => {
+    expect(value('=XLOOKUP("ぶどう", B2:B5, A2:A5)')).toBe('C-300');
+    expect(value('=XLOOKUP("x", B2:B5, A2:A5, "なし")')).toBe('なし');
+    expect(value('=XLOOKUP(300, C2:C5, B2:B5, , -1)')).toBe('みかん');
+    expect(value('=XLOOKUP(300, C2:C5, B2:B5, , 1)')).toBe('ぶどう');
+    expect(value('=XLOOKUP("*", B2:B5, C2:C5, , 2, -1)')).toBe(1000);
+    expect(value('=XLOOKUP(400, C2:C5, C2:C5, , 0, 2)')).toBe(400);
+    expect(value('=XMATCH("メロン", B2:B5)')).toBe(4);
+    expect(value('=XMATCH(999, C2:C5, 1)')).toBe(4);
+  });
+
+  test('MATCHの照合の種類', () => {
+    expect(value('=MATCH("みかん", B2:B5, 0)')).toBe(2);
+    expect(value('=MATCH(500, C2:C5)')).toBe(3);
+    expect(value('=MATCH("?-300", A2:A5, 0)')).toBe(3);
+    expect(value('=MATCH(1, A2:C5, 0)')).toBe('#N/A');
+
+    const descending = createSheet([['30'], ['20'], ['10']]);
+    expect(value('=MATCH(15, A1:A3, -1)', descending)).toBe(2);
+  });
+
+  test('INDEX・OFFSET・INDIRECTで参照を求めること', () => {
+    expect(value('=INDEX(A2:C5, 3, 2)')).toBe('ぶどう');
+    expect(value('=INDEX(C2:C5, 2)')).toBe(250);
+    expect(value('=INDEX(A1:C1, 3)')).toBe('価格');
+    expect(value('=SUM(INDEX(A2:C5, 0, 3))')).toBe(1750);
+    expect(value('=INDEX(A2:C5, 5, 1)')).toBe('#REF!');
+    expect(value('=INDEX(C2:C5, MATCH("メロン", B2:B5, 0))')).toBe(1000);
+
+    expect(value('=OFFSET(A1, 2, 1)')).toBe('みかん');
+    expect(value('=SUM(OFFSET(C1, 1, 0, 2, 1))')).toBe(350);
+    expect(value('=OFFSET(A1, -1, 0)')).toBe('#REF!');
+    expect(value('=ROWS(OFFSET(A1, 0, 0, 4, 2))')).toBe(4);
+
+    expect(value('=INDIRECT("B" & 3)')).toBe('みかん');
+    expect(value('=SUM(INDIRECT("c2:c3"))')).toBe(350);
+    expect(value('=INDIRECT("R4C3", FALSE)')).toBe(400);
+    expect(value('=INDIRECT("?")')).toBe('#REF!');
+  });
+
+  test('CHOOSE・ROW・COLUMN・ROWS・COLUMNS', () => {
+    expect(value('=CHOOSE(2, "a", "b", "c")')).toBe('b');
+    expect(value('=CHOOSE(1, "a", 1/0)')).toBe('a');
+    expect(value('=CHOOSE(4, "a", "b")')).toBe('#VALUE!');
+    expect(value('=ROW(C4)')).toBe(4);
+    expect(value('=COLUMN(C4)')).toBe(3);
+    expect(value('=ROWS(A1:C5)*COLUMNS(A1:C5)')).toBe(15);
+    expect(value('=ROW(INDEX(A2:C5, 2, 1))')).toBe(3);
+
+    // ROW()・COLUMN()は数式を入力したセルの位置
+    const spreadsheet = setCellValue(products, { row: 6, column: 3 }, '=ROW()*10+COLUMN()').spreadsheet;
+    expect(calculator.calculateCellValue({ row: 6, column: 3 }, createCalculationContext(spreadsheet)).value).toBe(74);
+  });
+});
+
+describe('検索の照合', () => {
+  test('ワイルドカードの~はそのままの文字として扱うこと', () => {
+    expect(createWildcardPattern('a~*').test('a*')).toBe(true);
+    expect(createWildcardPattern('a~*').test('ab')).toBe(false);
+    expect(createWildcardPattern('A?C').test('abc')).toBe(true);
+  });
+
+  test('数値と文字列は一致しないこと', () => {
+    expect(findLookupPosition('1', [1, '1'])).toBe(1);
+    expect(findLookupPosition(2, [1, 3, 2], 'next-larger')).toBe(2);
+    expect(findLookupPosition(2.5, [1, 3, 2], 'next-larger')).toBe(1);
+  });
+});
+
+describe('揮発性関数の依存関係', () => {
+  test('OFFSET・INDIRECTを含むセルは揮発性として扱うこと', () => {
+    let spreadsheet = createSheet([['1', '=INDIRECT("A1")', '=B1*2', '=A1+1']]);
+    spreadsheet = setCellValue(spreadsheet, { row: 1, column: 0 }, '=SUM(OFFSET(A1,0,0,1,1))').spreadsheet;
+    const manager = createDependencyManager(spreadsheet);
+
+    expect(manager.isCellVolatile({ row: 0, column: 1 })).toBe(true);
+    expect(manager.isCellVolatile({ row: 0, column: 3 })).toBe(false);
+    expect(manager.getVolatileCells()).toHaveLength(2);
+    expect(manager.getVolatileCells(true)).toEqual(expect.arrayContaining([{ row: 0, column: 2 }]));
+    expect(manager.getVolatileCells(true)).toHaveLength(3);
+
+    manager.updateCellDependencies({ row: 0, column: 1 }, '=A1');
+    expect(manager.isCellVolatile({ row: 0, column: 1 })).toBe(false);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * 名前付き範囲 ユニットテスト
+ * 名前の管理操作と、parseFormula・FormulaCalculator・数式エンジンでの名前の解決
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { parseFormula } from '../../src/lib/formula';
+import { getNamedRangeKind, validateNameSyntax } from '../../src/lib/named-range';
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import {
+  createNewWorkbook,
+  renameSheet,
+  deleteSheet,
+  updateSheet
+} from '../../src/lib/spreadsheet-core/workbook';
+import { createName, updateName, deleteName, listNames } from '../../src/lib/spreadsheet-core/names';
+import { Workbook, validateWorkbook } from '../../src/lib/workbook';
+import { createFormulaCalculator, createCalculationContext } from '../../src/lib/formula-engine/calculator';
+import { createWorkbookDependencyManager } from '../../src/lib/formula-engine/dependencies';
+import { createFormulaEngine } from '../../src/lib/formula-engine';
+
+/**
+ * テスト用にシートのセル値を設定する
+ */
+function setValue(workbook: Workbook, sheetIndex: number, a1: [number, number], value: string): Workbook {
+  const result = setCellValue(workbook.sheets[sheetIndex], { row: a1[0], column: a1[1] }, value);
+  return updateSheet(workbook, result.spreadsheet).workbook;
+}
+
+/**
+ * B1:B3に売上、Revenue・Rateの名前を定義したワークブックを作成する
+ */
+function createSalesWorkbook(): Workbook {
+  let { workbook } = createNewWorkbook('売上', ['Sheet1', 'Sheet2']);
+  workbook = setValue(workbook, 0, [0, 1], '100');
+  workbook = setValue(workbook, 0, [1, 1], '200');
+  workbook = setValue(workbook, 0, [2, 1], '300');
+  workbook = createName(workbook, 'Revenue', 'B1:B3').workbook;
+  workbook = createName(workbook, 'Rate', '=0.5').workbook;
+  return workbook;
+}
+
+describe('名前の管理', () => {
+  test('名前を作成すると参照先がシート名付きの絶対参照に正規化されること', () => {
+    const workbook = createSalesWorkbook();
+    const names = listNames(workbook);
+
+    expect(names.map(name => name.name)).toEqual(['Rate', 'Revenue']);
+    expect(names[1].refersTo).toBe('=Sheet1!$B$1:$B$3');
+    expect(getNamedRangeKind(names[1])).toBe('range');
+    expect(getNamedRangeKind(names[0])).toBe('constant');
+    expect(validateWorkbook(workbook).isValid).toBe(true);
+  });
+
+  test('不正な名前・重複する名前は作成できないこと', () => {
+    const workbook = createSalesWorkbook();
+
+    expect(validateNameSyntax('A1').isValid).toBe(false);
+    expect(validateNameSyntax('1st').isValid).toBe(false);
+    expect(validateNameSyntax('売上_合計').isValid).toBe(true);
+    expect(createName(workbook, 'revenue', '=Sheet1!A1').success).toBe(false);
+    expect(createName(workbook, 'Total', '=Sheet1!A1', { scope: 'NoSheet' }).success).toBe(false);
+
+    // シートスコープであれば同名の名前を定義できる
+    expect(createName(workbook, 'Revenue', '=A1', { scope: 'Sheet2' }).success).toBe(true);
+  });
+
+  test('名前を変更すると参照している数式も書き換わること', () => {
+    let workbook = createSalesWorkbook();
+    workbook = setValue(workbook, 1, [0, 0], '=SUM(Revenue)*Rate');
+    const revenue = workbook.names.find(name => name.name === 'Revenue')!;
+
+    const result = updateName(workbook, revenue.id, { name: 'Sales', comment: '年間売上' });
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ name: 'Sales', comment: '年間売上', refersTo: '=Sheet1!$B$1:$B$3' });
+    expect(result.workbook.sheets[1].cells.get('0-0')?.rawValue).toBe('=SUM(Sales)*Rate');
+  });
+
+  test('名前を削除できること', () => {
+    const workbook = createSalesWorkbook();
+    const rate = workbook.names.find(name => name.name === 'Rate')!;
+
+    const result = deleteName(workbook, rate.id);
+
+    expect(result.success).toBe(true);
+    expect(listNames(result.workbook).map(name => name.name)).toEqual(['Revenue']);
+    expect(deleteName(result.workbook, rate.id).success).toBe(false);
+  });
+
+  test('シートの名前変更・削除に名前の参照先が追従すること', () => {
+    let workbook = createSalesWorkbook();
+    workbook = createName(workbook, 'Local', '=A1', { scope: 'Sheet2' }).workbook;
+
+    workbook = renameSheet(workbook, workbook.sheets[0].id, '売上データ').workbook;
+    expect(workbook.names.find(name => name.name === 'Revenue')?.refersTo).toBe("='売上データ'!$B$1:$B$3");
+
+    workbook = deleteSheet(workbook, workbook.sheets[1].id).workbook;
+    expect(workbook.names.map(name => name.name)).toEqual(['Revenue', 'Rate']);
+
+    const { workbook: withSheet } = createNewWorkbook('予算', ['A', 'B']);
+    const named = createName(withSheet, 'Cost', '=A!$A$1').workbook;
+    expect(deleteSheet(named, named.sheets[0].id).workbook.names[0].refersTo).toBe('=#REF!');
+  });
+});
+
+describe('数式での名前の解決', () => {
+  test('parseFormulaで名前が参照先のセル範囲に展開されること', () => {
+    const workbook = createSalesWorkbook();
+    const parsed = parseFormula('=SUM(Revenue)*Rate', { names: workbook.names, sheetName: 'Sheet2' });
+
+    expect(parsed.names).toEqual(['Revenue', 'Rate']);
+    expect(parsed.cellRanges).toEqual([
+      expect.objectContaining({ sheetName: 'Sheet1', start: { row: 0, column: 1 }, end: { row: 2, column: 1 } })
+    ]);
+    expect(parsed.tokens.some(token => token.type === 'name')).toBe(false);
+  });
+
+  test('シートスコープの名前がワークブックスコープの名前より優先されること', () => {
+    let workbook = createSalesWorkbook();
+    workbook = createName(workbook, 'Revenue', '=C1', { scope: 'Sheet2' }).workbook;
+
+    const onSheet1 = parseFormula('=Revenue', { names: workbook.names, sheetName: 'Sheet1' });
+    const onSheet2 = parseFormula('=Revenue', { names: workbook.names, sheetName: 'Sheet2' });
+
+    expect(onSheet1.cellRanges[0].sheetName).toBe('Sheet1');
+    expect(onSheet2.cellReferences[0]).toMatchObject({ sheetName: 'Sheet2', a1Notation: 'C1' });
+  });
+
+  test('FormulaCalculatorで名前を使った数式を計算できること', () => {
+    const workbook = createSalesWorkbook();
+    const calculator = createFormulaCalculator();
+    const context = createCalculationContext(workbook.sheets[1], { workbook });
+
+    expect(calculator.calculate('=SUM(Revenue)', context).value).toBe(600);
+
+    const undefinedName = calculator.calculate('=Unknown+1', context);
+    expect(undefinedName.displayValue).toBe('#NAME?');
+    expect(undefinedName.error?.type).toBe('NAME_ERROR');
+  });
+
+  test('名前の参照先のセルが依存関係に含まれること', () => {
+    let workbook = createSalesWorkbook();
+    workbook = setValue(workbook, 1, [0, 0], '=SUM(Revenue)');
+
+    const manager = createWorkbookDependencyManager(workbook);
+
+    expect(manager.getCellDependencies({ row: 0, column: 0, sheetName: 'Sheet2' })).toEqual(
+      expect.arrayContaining([{ row: 1, column: 1, sheetName: 'Sheet1' }])
+    );
+  });
+
+  test('数式エンジンに名前が登録され、計算に使われること', () => {
+    let workbook = createSalesWorkbook();
+    workbook = setValue(workbook, 1, [0, 0], '=SUM(Revenue)*Rate');
+    workbook = setValue(workbook, 1, [0, 1], '=Missing');
+
+    const engine = createFormulaEngine();
+    engine.setWorkbookData(workbook);
+
+    expect(engine.getNamedRangeNames()).toEqual(['Revenue', 'Rate']);
+    expect(engine.calculateCell({ row: 0, column: 0 }, 'Sheet2').value).toBe(300);
+    expect(engine.calculateCell({ row: 0, column: 1 }, 'Sheet2').error?.type).toBe('NAME');
+
+    const rate = workbook.names.find(name => name.name === 'Rate')!;
+    engine.setNamedRange({ ...rate, refersTo: '=2' });
+    expect(engine.calculateCell({ row: 0, column: 0 }, 'Sheet2').value).toBe(1200);
+    engine.destroy();
+  });
+});
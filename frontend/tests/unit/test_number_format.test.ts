@@ -0,0 +1,142 @@
+/**
+ * 数値の書式コード ユニットテスト
+ * 書式コードの区分・色・条件・桁区切り・指数・分数・日付、セルの表示、CSVの書式付きの値、TEXT関数を確認する
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { formatNumberCode, validateNumberFormatCode } from '../../src/lib/number-format';
+import { CellDataType, calculateCellDisplay, createEmptyCell, getCellNumberFormatCode, updateCellFormat, updateCellValue } from '../../src/lib/cell';
+import { createSpreadsheet, setCellInSpreadsheet } from '../../src/lib/spreadsheet';
+import { recalculateSpreadsheet } from '../../src/lib/formula-engine/recalculation';
+import { createCalculationContext, createFormulaCalculator } from '../../src/lib/formula-engine/calculator';
+import { CSVExporter } from '../../src/lib/csv-handler/export';
+
+const text = (value: number | string | boolean, code: string) => formatNumberCode(value, code).text;
+
+describe('数値の書式', () => {
+  test('桁区切り・小数部・パーセント・通貨記号', () => {
+    expect(text(1234567.891, '#,##0.00')).toBe('1,234,567.89');
+    expect(text(0.5, '#.##')).toBe('.5');
+    expect(text(3.1, '0.00#')).toBe('3.10');
+    expect(text(0.256, '0.0%')).toBe('25.6%');
+    expect(text(1234, '¥#,##0')).toBe('¥1,234');
+    expect(text(-1234, '[$€-407]#,##0.00')).toBe('-€1,234.00');
+    expect(text(1234567, '#,##0,"K"')).toBe('1,235K');
+    expect(text(5, '000-0000')).toBe('000-0005');
+  });
+
+  test('正・負・ゼロ・文字列の区分と色', () => {
+    const code = '#,##0.00;[Red](#,##0.00);"-";"入力: "@';
+    expect(formatNumberCode(1234.5, code)).toEqual({ text: '1,234.50' });
+    expect(formatNumberCode(-1234.5, code)).toEqual({ text: '(1,234.50)', color: '#ff0000' });
+    expect(text(0, code)).toBe('-');
+    expect(text('abc', code)).toBe('入力: abc');
+    expect(text('abc', '0.00')).toBe('abc');
+    expect(text(-0.001, '0.00')).toBe('0.00');
+  });
+
+  test('条件付きの区分', () => {
+    const code = '[Blue][>=1000]#,##0;[Red][<0]0;0.0';
+    expect(formatNumberCode(1500, code)).toEqual({ text: '1,500', color: '#0000ff' });
+    expect(formatNumberCode(-5, code)).toEqual({ text: '5', color: '#ff0000' });
+    expect(text(12.34, code)).toBe('12.3');
+    expect(text(-5, '[>0]0;[=0]"zero"')).toBe('########');
+  });
+
+  test('指数・分数・標準・文字列の書式', () => {
+    expect(text(12345, '0.00E+00')).toBe('1.23E+04');
+    expect(text(0.00012, '0.0E-0')).toBe('1.2E-4');
+    expect(text(12345, '##0.0E+0')).toBe('12.3E+3');
+    expect(text(1.25, '# ?/?')).toBe('1 1/4');
+    expect(text(0.3333, '?/??')).toBe('1/3 ');
+    expect(text(2.5, '# ?/8')).toBe('2 4/8');
+    expect(text(3, '# ?/?')).toBe('3');
+    expect(text(1.5, '[Green]General" pt"')).toBe('1.5 pt');
+    expect(text(12, '@')).toBe('12');
+  });
+
+  test('日付・時刻の区分', () => {
+    expect(text(45352.75, 'yyyy/mm/dd hh:mm')).toBe('2024/03/01 18:00');
+    expect(text(1.5, '[h]:mm')).toBe('36:00');
+    expect(formatNumberCode(45352, '[Red]yyyy-mm-dd')).toEqual({ text: '2024-03-01', color: '#ff0000' });
+    expect(text(-1, 'yyyy/m/d')).toBe('########');
+  });
+
+  test('正しくない書式コードを検証し、表示は標準の書式にする', () => {
+    expect(validateNumberFormatCode('#,##0.00;[Red]-#,##0.00')).toEqual({ success: true });
+    expect(validateNumberFormatCode('0"円').error).toContain('閉じていません');
+    expect(validateNumberFormatCode('[Purple]0').error).toContain('角括弧');
+    expect(validateNumberFormatCode('0;0;0;@;0').success).toBe(false);
+    expect(text(1.5, '0"円')).toBe('1.5');
+  });
+});
+
+describe('セルの表示', () => {
+  const numberCell = (value: string, format: Parameters<typeof updateCellFormat>[1]) =>
+    updateCellFormat(updateCellValue(createEmptyCell({ row: 0, column: 0 }), value), format);
+
+  test('書式コードでセルの値を表示し、色を設定する', () => {
+    const cell = numberCell('-42', { numberFormatCode: '0;[Red]-0' });
+    expect(calculateCellDisplay(cell)).toEqual({ displayValue: '-42', displayColor: '#ff0000' });
+    expect(updateCellValue(cell, '42')).toMatchObject({ displayValue: '42', displayColor: undefined });
+
+    const date = numberCell('2024-03-01', { numberFormatCode: 'yyyy年m月d日' });
+    expect(date.dataType).toBe(CellDataType.DATE);
+    expect(date.displayValue).toBe('2024年3月1日');
+  });
+
+  test('従来の数値の書式は同じ表示の書式コードにする', () => {
+    expect(getCellNumberFormatCode({ ...createEmptyCell({ row: 0, column: 0 }).format, numberFormat: { type: 'currency', decimalPlaces: 2, currencySymbol: '¥' } }))
+      .toBe('"¥"0.00');
+    expect(numberCell('0.125', { numberFormat: { type: 'percentage', decimalPlaces: 1 } }).displayValue).toBe('12.5%');
+    expect(numberCell('3.14159', { numberFormat: { type: 'decimal', decimalPlaces: 2 } }).displayValue).toBe('3.14');
+  });
+
+  test('数式の計算結果をセルの書式コードで表示する', () => {
+    let spreadsheet = createSpreadsheet('Sheet1');
+    spreadsheet = setCellInSpreadsheet(spreadsheet, { row: 0, column: 0 }, numberCell('-1500', {}));
+    const formula = updateCellFormat(
+      updateCellValue(createEmptyCell({ row: 0, column: 1 }), '=A1*2'),
+      { numberFormatCode: '#,##0;[Red](#,##0)' }
+    );
+    spreadsheet = setCellInSpreadsheet(spreadsheet, { row: 0, column: 1 }, formula);
+
+    const result = recalculateSpreadsheet(spreadsheet, createFormulaCalculator()).cells.get('0-1');
+    expect(result).toMatchObject({ displayValue: '(3,000)', displayColor: '#ff0000' });
+  });
+
+  test('CSVの書式付きの値は書式コードで表示した値にする', async () => {
+    let spreadsheet = createSpreadsheet('Sheet1');
+    spreadsheet = setCellInSpreadsheet(spreadsheet, { row: 0, column: 0 }, numberCell('1234.5', { numberFormatCode: '#,##0.00' }));
+    spreadsheet = setCellInSpreadsheet(spreadsheet, { row: 0, column: 1 }, numberCell('2024-03-01', { numberFormatCode: 'yyyy/mm/dd' }));
+
+    const exporter = new CSVExporter();
+    const range = { start: { row: 0, column: 0 }, end: { row: 0, column: 1 } };
+    const format = {
+      includeFormulas: false,
+      includeFormattedValues: true,
+      includeHeaders: false,
+      emptyValue: '',
+      dateFormat: 'iso' as const,
+      numberFormat: 'formatted' as const,
+      booleanFormat: 'text' as const,
+    };
+    const formatted = await exporter.exportRange(spreadsheet, range, { format });
+    const raw = await exporter.exportRange(spreadsheet, range, { format: { ...format, numberFormat: 'raw' } });
+    expect(formatted.data).toContain('"1,234.50",2024/03/01');
+    expect(raw.data).toContain('1234.5,2024-03-01');
+  });
+});
+
+describe('TEXT関数', () => {
+  test('書式コードの区分・指数・分数・日付の文字列で変換する', () => {
+    const calculator = createFormulaCalculator();
+    const value = (formula: string) => calculator.calculate(formula, createCalculationContext(createSpreadsheet('Sheet1'))).value;
+
+    expect(value('=TEXT(-1234.5, "#,##0.00;[Red](#,##0.00)")')).toBe('(1,234.50)');
+    expect(value('=TEXT(12345, "0.0E+00")')).toBe('1.2E+04');
+    expect(value('=TEXT(0.75, "# ?/?")')).toBe(' 3/4');
+    expect(value('=TEXT("2024-03-01", "[Blue]yyyy/mm/dd")')).toBe('2024/03/01');
+    expect(value('=TEXT("abc", "0;0;0;""<""@"">""")')).toBe('<abc>');
+  });
+});
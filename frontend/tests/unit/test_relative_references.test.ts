@@ -0,0 +1,102 @@
+/**
+ * 相対参照の調整 ユニットテスト
+ * コピー＆ペースト・オートフィルで複写した数式の参照のずらし
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { offsetFormulaReferences } from '../../src/lib/formula';
+import {
+  ClipboardCellData,
+  copyToClipboard,
+  cutToClipboard,
+  executePaste
+} from '../../src/lib/clipboard';
+import { CellPosition } from '../../src/lib/cell';
+import { createCellRangeSelection, createSingleCellSelection } from '../../src/lib/selection';
+import { createSpreadsheet } from '../../src/lib/spreadsheet';
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { autoFillCells } from '../../src/lib/spreadsheet-core/operations';
+
+/**
+ * テスト用のクリップボードセルデータを返す
+ */
+function cellData(values: Record<string, string>) {
+  return (position: CellPosition): ClipboardCellData => ({
+    position,
+    rawValue: values[`${position.row}-${position.column}`] ?? '',
+    displayValue: '',
+    dataType: 'text',
+    format: {}
+  });
+}
+
+/**
+ * 貼り付けを実行し、貼り付けたセルの値を返す
+ */
+function pasteValues(
+  clipboard: ReturnType<typeof copyToClipboard>,
+  target: CellPosition,
+  gridSize?: { rowCount: number; columnCount: number }
+): Record<string, string> {
+  const pasted: Record<string, string> = {};
+  executePaste(
+    clipboard,
+    target,
+    (position, data) => { pasted[`${position.row}-${position.column}`] = data.rawValue; },
+    () => {},
+    undefined,
+    gridSize
+  );
+  return pasted;
+}
+
+describe('offsetFormulaReferences', () => {
+  test('相対参照が移動量だけずれ、$で固定した行・列はずれないこと', () => {
+    expect(offsetFormulaReferences('=A1+B1', 1, 0)).toBe('=A2+B2');
+    expect(offsetFormulaReferences('=$A$1+A$1+$A1+SUM(A1:B2)', 2, 1)).toBe('=$A$1+B$1+$A3+SUM(B3:C4)');
+    expect(offsetFormulaReferences('=Sheet2!A1&"A1"', 0, 2)).toBe('=Sheet2!C1&"A1"');
+  });
+
+  test('グリッドの外に出る参照は#REF!になること', () => {
+    expect(offsetFormulaReferences('=A2+B1', -1, 0)).toBe('=A1+#REF!');
+    expect(offsetFormulaReferences('=SUM(A1:A3)', 0, -1)).toBe('=SUM(#REF!)');
+    expect(offsetFormulaReferences('=A9', 1, 0, { rowCount: 10, columnCount: 5 })).toBe('=A10');
+    expect(offsetFormulaReferences('=A10', 1, 0, { rowCount: 10, columnCount: 5 })).toBe('=#REF!');
+  });
+});
+
+describe('貼り付け・オートフィルでの参照の調整', () => {
+  test('コピーした数式を貼り付けると相対参照がずれること', () => {
+    const selection = createCellRangeSelection({ row: 0, column: 2 }, { row: 1, column: 2 }).primary;
+    const clipboard = copyToClipboard(selection, cellData({ '0-2': '=A1+B1', '1-2': '=$A$1*B2' }));
+
+    expect(pasteValues(clipboard, { row: 1, column: 3 })).toEqual({
+      '1-3': '=B2+C2',
+      '2-3': '=$A$1*C3'
+    });
+    expect(pasteValues(clipboard, { row: 0, column: 0 })['0-0']).toBe('=#REF!+#REF!');
+    expect(pasteValues(clipboard, { row: 0, column: 4 }, { rowCount: 100, columnCount: 3 })['0-4']).toBe('=C1+#REF!');
+  });
+
+  test('切り取った数式は参照を変えずに貼り付けること', () => {
+    const selection = createSingleCellSelection({ row: 0, column: 2 }).primary;
+    const clipboard = cutToClipboard(selection, cellData({ '0-2': '=A1+B1' }));
+
+    expect(pasteValues(clipboard, { row: 3, column: 3 })).toEqual({ '3-3': '=A1+B1' });
+  });
+
+  test('オートフィルで数式の相対参照がずれること', () => {
+    let spreadsheet = createSpreadsheet('フィル');
+    spreadsheet = setCellValue(spreadsheet, { row: 0, column: 1 }, '=A1*$A$1').spreadsheet;
+
+    const result = autoFillCells(spreadsheet, { row: 0, column: 1 }, [
+      { row: 1, column: 1 },
+      { row: 4, column: 1 },
+      { row: 0, column: 4 }
+    ]);
+
+    expect(result.spreadsheet.cells.get('1-1')?.rawValue).toBe('=A2*$A$1');
+    expect(result.spreadsheet.cells.get('4-1')?.rawValue).toBe('=A5*$A$1');
+    expect(result.spreadsheet.cells.get('0-4')?.rawValue).toBe('=D1*$A$1');
+  });
+});
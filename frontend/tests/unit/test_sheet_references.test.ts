@@ -0,0 +1,173 @@
+/**
+ * シート間参照 ユニットテスト
+ * Sheet2!A1 / 'My Sheet'!B2:C9 形式の参照の解析・依存関係・計算・書き換え
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import {
+  parseFormula,
+  tokenizeFormula,
+  formatSheetName,
+  renameSheetInFormula,
+  invalidateSheetInFormula
+} from '../../src/lib/formula';
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import {
+  createNewWorkbook,
+  renameSheet,
+  deleteSheet,
+  updateSheet
+} from '../../src/lib/spreadsheet-core/workbook';
+import { Workbook } from '../../src/lib/workbook';
+import { createWorkbookDependencyManager } from '../../src/lib/formula-engine/dependencies';
+import { createFormulaEngine } from '../../src/lib/formula-engine';
+
+/**
+ * テスト用にシートのセル値を設定する
+ */
+function setValue(workbook: Workbook, sheetIndex: number, a1: [number, number], value: string): Workbook {
+  const result = setCellValue(workbook.sheets[sheetIndex], { row: a1[0], column: a1[1] }, value);
+  return updateSheet(workbook, result.spreadsheet).workbook;
+}
+
+describe('シート修飾参照の解析', () => {
+  test('シート名付きのセル参照とセル範囲を解析できること', () => {
+    const parsed = parseFormula("=Sheet2!A1+SUM('My Sheet'!B2:C9)");
+
+    expect(parsed.cellReferences).toHaveLength(1);
+    expect(parsed.cellReferences[0]).toMatchObject({ sheetName: 'Sheet2', a1Notation: 'A1' });
+    expect(parsed.cellRanges).toHaveLength(1);
+    expect(parsed.cellRanges[0]).toMatchObject({
+      sheetName: 'My Sheet',
+      start: { row: 1, column: 1 },
+      end: { row: 8, column: 2 }
+    });
+    expect(parsed.dependencies).toEqual([{ row: 0, column: 0, sheetName: 'Sheet2' }]);
+  });
+
+  test('引用符内のエスケープされたアポストロフィを扱えること', () => {
+    const parsed = parseFormula("='Bob''s Data'!$A$1");
+
+    expect(parsed.cellReferences[0].sheetName).toBe("Bob's Data");
+    expect(parsed.cellReferences[0].isAbsolute).toEqual({ row: true, column: true });
+  });
+
+  test('文字列リテラルとエラー値を1つのトークンとして扱うこと', () => {
+    const tokens = tokenizeFormula('"a b"+#REF!');
+
+    expect(tokens).toEqual([
+      { type: 'string', value: 'a b', position: 0 },
+      { type: 'operator', value: '+', position: 5 },
+      { type: 'error', value: '#REF!', position: 6 }
+    ]);
+  });
+
+  test('必要な場合のみシート名を引用符で囲むこと', () => {
+    expect(formatSheetName('Sheet2')).toBe('Sheet2');
+    expect(formatSheetName('My Sheet')).toBe("'My Sheet'");
+    expect(formatSheetName('入力')).toBe("'入力'");
+    expect(formatSheetName('A1')).toBe("'A1'");
+    expect(formatSheetName("Bob's")).toBe("'Bob''s'");
+  });
+});
+
+describe('数式中のシート参照の書き換え', () => {
+  test('シート名の変更に合わせて参照を書き換えること', () => {
+    expect(renameSheetInFormula('=Data!A1+data!B2:C3', 'Data', 'Raw Data'))
+      .toBe("='Raw Data'!A1+'Raw Data'!B2:C3");
+    expect(renameSheetInFormula("='My Sheet'!A1*2", 'My Sheet', 'Sheet9')).toBe('=Sheet9!A1*2');
+  });
+
+  test('文字列リテラルや他のシートの参照は書き換えないこと', () => {
+    expect(renameSheetInFormula('="Data!A1"&Other!A1&MyData!A1', 'Data', 'X'))
+      .toBe('="Data!A1"&Other!A1&MyData!A1');
+  });
+
+  test('削除されたシートへの参照を#REF!に置き換えること', () => {
+    expect(invalidateSheetInFormula("=SUM('Old Sheet'!A1:B2)+A1", 'Old Sheet')).toBe('=SUM(#REF!)+A1');
+  });
+});
+
+describe('ワークブック操作による参照の書き換え', () => {
+  test('シート名を変更すると他のシートの数式も書き換わること', () => {
+    let { workbook } = createNewWorkbook('予算', ['Data', 'Summary']);
+    workbook = setValue(workbook, 1, [0, 0], '=Data!A1*2');
+
+    const result = renameSheet(workbook, workbook.sheets[0].id, 'Inputs 2024');
+
+    expect(result.success).toBe(true);
+    expect(result.workbook.sheets[1].cells.get('0-0')?.rawValue).toBe("='Inputs 2024'!A1*2");
+  });
+
+  test('シートを削除すると参照が#REF!になること', () => {
+    let { workbook } = createNewWorkbook('予算', ['Data', 'Summary']);
+    workbook = setValue(workbook, 1, [0, 0], '=Data!A1+1');
+
+    const result = deleteSheet(workbook, workbook.sheets[0].id);
+
+    expect(result.workbook.sheets[0].cells.get('0-0')?.rawValue).toBe('=#REF!+1');
+  });
+});
+
+describe('シート間の依存関係', () => {
+  test('別シートのセルへの依存関係がグラフに含まれること', () => {
+    let { workbook } = createNewWorkbook('予算', ['Data', 'Summary']);
+    workbook = setValue(workbook, 0, [0, 0], '10');
+    workbook = setValue(workbook, 1, [0, 0], '=Data!A1*2');
+    workbook = setValue(workbook, 1, [0, 1], '=A1+1');
+
+    const manager = createWorkbookDependencyManager(workbook);
+
+    expect(manager.getCellDependencies({ row: 0, column: 0, sheetName: 'Summary' }))
+      .toEqual([{ row: 0, column: 0, sheetName: 'Data' }]);
+    expect(manager.getCellDependentsRecursive({ row: 0, column: 0, sheetName: 'data' }))
+      .toEqual([
+        { row: 0, column: 0, sheetName: 'Summary' },
+        { row: 0, column: 1, sheetName: 'Summary' }
+      ]);
+  });
+
+  test('シートをまたぐ循環参照を検出できること', () => {
+    let { workbook } = createNewWorkbook('予算', ['A', 'B']);
+    workbook = setValue(workbook, 0, [0, 0], '=B!A1');
+    workbook = setValue(workbook, 1, [0, 0], '=A!A1');
+
+    const manager = createWorkbookDependencyManager(workbook);
+
+    expect(manager.getCircularReferences()).toHaveLength(1);
+    expect(manager.isCellInCircularReference({ row: 0, column: 0, sheetName: 'B' })).toBe(true);
+  });
+});
+
+describe('数式エンジンでのシート間参照', () => {
+  test('引用符付き・日本語のシート名を参照して計算できること', () => {
+    let { workbook } = createNewWorkbook('予算', ['入力', 'My Sheet', '集計']);
+    workbook = setValue(workbook, 0, [0, 0], '5');
+    workbook = setValue(workbook, 1, [1, 1], '7');
+    workbook = setValue(workbook, 1, [1, 2], '8');
+    workbook = setValue(workbook, 2, [0, 0], "=入力!A1+SUM('My Sheet'!B2:C2)");
+
+    const engine = createFormulaEngine();
+    engine.setWorkbookData(workbook);
+
+    expect(engine.calculateCell({ row: 0, column: 0 }, '集計').value).toBe(20);
+    expect(engine.getCellDependencies({ row: 0, column: 0 }, '集計')).toEqual(
+      expect.arrayContaining([{ row: 0, column: 0, sheetName: '入力' }])
+    );
+    engine.destroy();
+  });
+
+  test('削除されたシートへの参照は#REF!エラーになること', () => {
+    let { workbook } = createNewWorkbook('予算', ['Data', 'Summary']);
+    workbook = setValue(workbook, 0, [0, 0], '3');
+    workbook = setValue(workbook, 1, [0, 0], '=Data!A1');
+
+    const engine = createFormulaEngine();
+    engine.setWorkbookData(deleteSheet(workbook, workbook.sheets[0].id).workbook);
+
+    const result = engine.calculateCell({ row: 0, column: 0 }, 'Summary');
+    expect(result.success).toBe(false);
+    expect(result.error?.type).toBe('REF');
+    engine.destroy();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * @jest-environment node
+ */
+/**
+ * スプレッドシートAPI（セル更新・スプレッドシート更新・全シート更新） ユニットテスト
+ * アクティブシートを更新しても、ワークブックの他のシート・名前付き範囲・反復計算の設定が保存後も残ることと、
+ * 全シート更新でシートの名前変更・削除が他のシートの数式に反映されることを確認する
+ */
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { createNewWorkbook, setIterativeCalculation, updateSheet } from '../../src/lib/spreadsheet-core/workbook';
+import { createName } from '../../src/lib/spreadsheet-core/names';
+import { Workbook } from '../../src/lib/workbook';
+
+/**
+ * ストレージの代わりにワークブックをメモリに保持する（ルートはモックの設定後に読み込む）
+ */
+const mockStoredWorkbooks = new Map<string, Workbook>();
+
+jest.mock('@/lib/storage-manager', () => ({
+  createStorageManager: () => ({
+    loadWorkbook: async (id: string) => {
+      const workbook = mockStoredWorkbooks.get(id);
+      return workbook ? { success: true, data: structuredClone(workbook) } : { success: false, error: '見つかりません' };
+    },
+    saveWorkbook: async (id: string, workbook: Workbook) => {
+      mockStoredWorkbooks.set(id, structuredClone(workbook));
+      return { success: true, data: true };
+    },
+  }),
+}));
+
+const loadCellsRoute = () => import('../../src/app/api/spreadsheets/[id]/cells/route');
+const loadSpreadsheetRoute = () => import('../../src/app/api/spreadsheets/[id]/route');
+const loadSheetsRoute = () => import('../../src/app/api/spreadsheets/[id]/sheets/route');
+
+const id = '550e8400-e29b-41d4-a716-446655440000';
+
+/**
+ * Sheet1・Sheet2（A1=Sheet1!A1*2）、名前「税率」、反復計算を有効にしたワークブックを保存する
+ */
+function storeTwoSheetWorkbook(): Workbook {
+  let { workbook } = createNewWorkbook('予算', ['Sheet1', 'Sheet2']);
+  workbook = updateSheet(workbook, setCellValue(workbook.sheets[1], { row: 0, column: 0 }, '=Sheet1!A1*2').spreadsheet).workbook;
+  workbook = createName(workbook, '税率', '=0.1').workbook;
+  workbook = setIterativeCalculation(workbook, { enabled: true }).workbook;
+  mockStoredWorkbooks.set(id, workbook);
+  return workbook;
+}
+
+function jsonRequest(method: string, body: unknown): NextRequest {
+  return new NextRequest(`http://localhost/api/spreadsheets/${id}`, {
+    method,
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function expectOtherSheetsKept(original: Workbook) {
+  const saved = mockStoredWorkbooks.get(id)!;
+  expect(saved.sheets.map(sheet => sheet.name)).toEqual(['Sheet1', 'Sheet2']);
+  expect(saved.sheets[1].cells.get('0-0')?.rawValue).toBe('=Sheet1!A1*2');
+  expect(saved.names.map(name => name.name)).toEqual(['税率']);
+  expect(saved.iterativeCalculation).toEqual(original.iterativeCalculation);
+  return saved;
+}
+
+describe('アクティブシートの更新でワークブックの他の内容を失わない', () => {
+  beforeEach(() => {
+    mockStoredWorkbooks.clear();
+  });
+
+  test('セル更新（PATCH /cells）', async () => {
+    const original = storeTwoSheetWorkbook();
+
+    const { PATCH } = await loadCellsRoute();
+    const response = await PATCH(jsonRequest('PATCH', { cells: [{ address: 'A1', value: 5 }] }), { params: { id } });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).errors).toEqual([]);
+    const saved = expectOtherSheetsKept(original);
+    expect(saved.sheets[0].cells.get('0-0')?.rawValue).toBe('5');
+  });
+
+  test('スプレッドシート更新（PUT）', async () => {
+    const original = storeTwoSheetWorkbook();
+
+    const { PUT } = await loadSpreadsheetRoute();
+    const response = await PUT(jsonRequest('PUT', {
+      name: 'Sheet1',
+      gridSize: { rowCount: 50, columnCount: 10 },
+      version: '1.0.0',
+    }), { params: { id } });
+
+    expect(response.status).toBe(200);
+    expectOtherSheetsKept(original);
+  });
+});
+
+describe('全シート更新（PUT /sheets）', () => {
+  beforeEach(() => {
+    mockStoredWorkbooks.clear();
+  });
+
+  test('シート名を変更すると他のシートの数式と名前の参照も書き換えること', async () => {
+    const original = storeTwoSheetWorkbook();
+    mockStoredWorkbooks.set(id, createName(original, '入力値', '=Sheet1!$A$1').workbook);
+
+    const { PUT } = await loadSheetsRoute();
+    const response = await PUT(jsonRequest('PUT', {
+      sheets: [{ id: original.sheets[0].id, name: '入力' }, { id: original.sheets[1].id, name: 'Sheet2' }],
+    }), { params: { id } });
+
+    expect(response.status).toBe(200);
+    const saved = mockStoredWorkbooks.get(id)!;
+    expect(saved.sheets.map(sheet => sheet.name)).toEqual(['入力', 'Sheet2']);
+    expect(saved.sheets[1].cells.get('0-0')?.rawValue).toBe("='入力'!A1*2");
+    expect(saved.names.find(name => name.name === '入力値')?.refersTo).toBe("='入力'!$A$1");
+  });
+
+  test('送信されなかったシートを削除し、そのシートへの参照を#REF!にすること', async () => {
+    const original = storeTwoSheetWorkbook();
+
+    const { PUT } = await loadSheetsRoute();
+    const response = await PUT(jsonRequest('PUT', {
+      sheets: [{ id: original.sheets[1].id, name: 'Sheet2' }, { name: '新規' }],
+    }), { params: { id } });
+
+    expect(response.status).toBe(200);
+    const saved = mockStoredWorkbooks.get(id)!;
+    expect(saved.sheets.map(sheet => sheet.name)).toEqual(['Sheet2', '新規']);
+    expect(saved.sheets[0].cells.get('0-0')?.rawValue).toBe('=#REF!*2');
+    expect(saved.activeSheetId).toBe(original.sheets[1].id);
+  });
+
+  test('送信されたセルの値の型と表示値は生の値から求め直すこと', async () => {
+    const original = storeTwoSheetWorkbook();
+
+    const { PUT } = await loadSheetsRoute();
+    const response = await PUT(jsonRequest('PUT', {
+      sheets: [
+        { id: original.sheets[0].id, name: 'Sheet1', cells: { '0-0': { rawValue: '42', dataType: 'text', displayValue: 'x' } } },
+        { id: original.sheets[1].id, name: 'Sheet2' },
+      ],
+    }), { params: { id } });
+
+    expect(response.status).toBe(200);
+    const cell = mockStoredWorkbooks.get(id)!.sheets[0].cells.get('0-0');
+    expect(cell?.dataType).toBe('number');
+    expect(cell?.displayValue).toBe('42');
+  });
+
+  test('不正なセルは拒否して保存しないこと', async () => {
+    const original = storeTwoSheetWorkbook();
+    const sheetsWith = (cells: unknown) => ({
+      sheets: [{ id: original.sheets[0].id, name: '変更後', cells }, { id: original.sheets[1].id, name: 'Sheet2' }],
+    });
+
+    const { PUT } = await loadSheetsRoute();
+    for (const cells of [{ 'A1': { rawValue: '1' } }, { '0-0': { value: 1 } }, { '0-0': 'text' }, [{ rawValue: '1' }]]) {
+      const response = await PUT(jsonRequest('PUT', sheetsWith(cells)), { params: { id } });
+      expect(response.status).toBe(400);
+    }
+    expect(mockStoredWorkbooks.get(id)!.sheets.map(sheet => sheet.name)).toEqual(['Sheet1', 'Sheet2']);
+  });
+});
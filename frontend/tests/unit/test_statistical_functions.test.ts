@@ -0,0 +1,101 @@
+/**
+ * 統計関数 ユニットテスト
+ * 記述統計・百分位数・順位・回帰の計算、範囲内の文字列・空白の扱い、数式エンジンでの利用
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { createFormulaCalculator, createCalculationContext } from '../../src/lib/formula-engine/calculator';
+import { calculateMode } from '../../src/lib/formula-engine/statistical-functions';
+import { createFormulaEngine } from '../../src/lib/formula-engine';
+import { createSheet } from '../helpers/spreadsheet';
+
+// A1:A8 は文字列と空白を含む数値、C1:C8 と D1:D8 は回帰のy・x
+const samples = createSheet([
+  ['1', '', '2', '6'],
+  ['2', '', '3', '5'],
+  ['2', '', '9', '11'],
+  ['3', '', '1', '7'],
+  ['4', '', '8', '5'],
+  ['見出し', '', '7', '4'],
+  ['', '', '5', '4'],
+  ['5', '', '欠測', '3'],
+]);
+
+describe('統計関数', () => {
+  const calculator = createFormulaCalculator();
+  const value = (formula: string) =>
+    calculator.calculate(formula, createCalculationContext(samples)).value;
+
+  test('MEDIAN・MODE.SNGLは範囲内の文字列と空白を無視すること', () => {
+    expect(value('=MEDIAN(A1:A8)')).toBe(2.5);
+    expect(value('=MEDIAN(A1:A8, "10")')).toBe(3);
+    expect(value('=MEDIAN(A6)')).toBe('#NUM!');
+    expect(value('=MODE.SNGL(A1:A8)')).toBe(2);
+    expect(value('=MODE(1, 2, 3)')).toBe('#N/A');
+    expect(calculateMode([3, 1, 1, 3])).toBe(3);
+  });
+
+  test('STDEV・VARの標本と母集団', () => {
+    expect(value('=STDEV.S(A1:A8)')).toBeCloseTo(1.471960, 6);
+    expect(value('=STDEV.P(A1:A8)')).toBeCloseTo(1.343710, 6);
+    expect(value('=VAR.S(A1:A8)')).toBeCloseTo(2.166667, 6);
+    expect(value('=VARP(A1:A8)')).toBeCloseTo(1.805556, 6);
+    expect(value('=STDEV(A1, A6)')).toBe('#DIV/0!');
+    expect(value('=VAR.P(A6)')).toBe('#DIV/0!');
+    expect(value('=STDEV.S(A1, "x")')).toBe('#VALUE!');
+  });
+
+  test('PERCENTILE・QUARTILEは順位の間を補間すること', () => {
+    expect(value('=PERCENTILE.INC(A1:A8, 0.9)')).toBeCloseTo(4.5, 9);
+    expect(value('=PERCENTILE(A1:A8, 0)')).toBe(1);
+    expect(value('=PERCENTILE.EXC(A1:A8, 0.25)')).toBeCloseTo(1.75, 9);
+    expect(value('=PERCENTILE.EXC(A1:A8, 0.1)')).toBe('#NUM!');
+    expect(value('=PERCENTILE.INC(A1:A8, 1.5)')).toBe('#NUM!');
+    expect(value('=QUARTILE(A1:A8, 1)')).toBe(2);
+    expect(value('=QUARTILE.INC(A1:A8, 4)')).toBe(5);
+    expect(value('=QUARTILE.EXC(A1:A8, 3)')).toBeCloseTo(4.25, 9);
+    expect(value('=QUARTILE(A1:A8, 5)')).toBe('#NUM!');
+  });
+
+  test('RANK.EQ・LARGE・SMALL', () => {
+    expect(value('=RANK.EQ(2, A1:A8)')).toBe(4);
+    expect(value('=RANK.EQ(A3, A1:A8, 1)')).toBe(2);
+    expect(value('=RANK(6, A1:A8)')).toBe('#N/A');
+    expect(value('=LARGE(A1:A8, 2)')).toBe(4);
+    expect(value('=SMALL(A1:A8, 3)')).toBe(2);
+    expect(value('=LARGE(A1:A8, 7)')).toBe('#NUM!');
+  });
+
+  test('CORREL・SLOPE・INTERCEPT・FORECAST.LINEARは両方が数値の組だけを使うこと', () => {
+    expect(value('=SLOPE(C1:C8, D1:D8)')).toBeCloseTo(0.305556, 6);
+    expect(value('=INTERCEPT(C1:C8, D1:D8)')).toBeCloseTo(3.166667, 6);
+    expect(value('=CORREL(C1:C8, D1:D8)')).toBeCloseTo(0.240728, 6);
+    expect(value('=FORECAST.LINEAR(10, C1:C8, D1:D8)')).toBeCloseTo(6.222222, 6);
+    expect(value('=FORECAST(10, C1:C8, D1:D8)')).toBeCloseTo(6.222222, 6);
+    expect(value('=SLOPE(C1:C7, D1:D8)')).toBe('#N/A');
+    // xの値（A2:A3）がすべて同じ場合は傾きを求められない
+    expect(value('=SLOPE(C1:C2, A2:A3)')).toBe('#DIV/0!');
+    expect(value('=FORECAST.LINEAR("x", C1:C8, D1:D8)')).toBe('#VALUE!');
+  });
+
+  test('COUNTA・COUNTBLANK', () => {
+    expect(value('=COUNTA(A1:A8)')).toBe(7);
+    expect(value('=COUNTA(A1:A8, 1/0, "")')).toBe(9);
+    expect(value('=COUNTBLANK(A1:A8)')).toBe(1);
+    expect(value('=COUNTBLANK(A1:B8)')).toBe(9);
+  });
+});
+
+describe('数式エンジンの統計関数', () => {
+  test('HyperFormulaにないMODE・PERCENTILE・RANK・FORECASTも評価できること', () => {
+    const engine = createFormulaEngine();
+    expect(engine.evaluateFormula('=MODE.SNGL(1,2,2,3)').value).toBe(2);
+    expect(engine.evaluateFormula('=MODE(1,2,3)')).toMatchObject({ success: false, displayValue: '#N/A' });
+    expect(engine.evaluateFormula('=PERCENTILE.INC({1,2,2,3,4,5},0.9)').value).toBeCloseTo(4.5, 9);
+    expect(engine.evaluateFormula('=QUARTILE({1,2,2,3,4,5},1)').value).toBe(2);
+    expect(engine.evaluateFormula('=RANK.EQ(2,{1,2,2,3,4,5})').value).toBe(4);
+    expect(engine.evaluateFormula('=FORECAST.LINEAR(30,{6,7,9,15,21},{20,28,31,38,40})').value).toBeCloseTo(10.607253, 6);
+    expect(engine.evaluateFormula('=INTERCEPT({2,3,9,1,8,7,5},{6,5,11,7,5,4,4})').value).toBeCloseTo(3.166667, 6);
+    engine.destroy();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * 文字列関数 ユニットテスト
+ * 検索・置換・結合・分割、数値への変換、正規表現、全角・半角の変換、数式エンジンでの利用
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import { createFormulaCalculator, createCalculationContext } from '../../src/lib/formula-engine/calculator';
+import { toFullWidth, toHalfWidth } from '../../src/lib/formula-engine/text-functions';
+import { createFormulaEngine } from '../../src/lib/formula-engine';
+import { createSheet } from '../helpers/spreadsheet';
+
+// A1:A4 は氏名（A3は空白）、B1:B2 は住所
+const customers = createSheet([
+  ['山田', '東京都 千代田区 1-1'],
+  ['佐藤', 'ｵｵｻｶﾌ ｷﾀｸ'],
+  [''],
+  ['鈴木'],
+]);
+
+describe('文字列関数', () => {
+  const calculator = createFormulaCalculator();
+  const value = (formula: string) =>
+    calculator.calculate(formula, createCalculationContext(customers)).value;
+
+  test('TRIM・PROPER・REPT・EXACT', () => {
+    expect(value('=TRIM("  a   b  ")')).toBe('a b');
+    expect(value('=TRIM("　東京　　都　")')).toBe('東京　都');
+    expect(value('=PROPER("hello WORLD 2-way")')).toBe('Hello World 2-Way');
+    expect(value('=REPT("ab", 3)')).toBe('ababab');
+    expect(value('=REPT("a", -1)')).toBe('#VALUE!');
+    expect(value('=REPT("abc", 20000)')).toBe('#VALUE!');
+    expect(value('=EXACT("Word", "word")')).toBe(false);
+  });
+
+  test('SUBSTITUTE・REPLACE・FIND・SEARCH', () => {
+    expect(value('=SUBSTITUTE("a-b-c", "-", "+")')).toBe('a+b+c');
+    expect(value('=SUBSTITUTE("a-b-c", "-", "+", 2)')).toBe('a-b+c');
+    expect(value('=SUBSTITUTE("a-b-c", "-", "+", 3)')).toBe('a-b-c');
+    expect(value('=REPLACE("abcdef", 2, 3, "XY")')).toBe('aXYef');
+    expect(value('=FIND("b", "abcABC")')).toBe(2);
+    expect(value('=FIND("B", "abcABC")')).toBe(5);
+    expect(value('=FIND("a", "abca", 2)')).toBe(4);
+    expect(value('=FIND("z", "abc")')).toBe('#VALUE!');
+    expect(value('=SEARCH("B", "abcABC")')).toBe(2);
+    expect(value('=SEARCH("c?b", "abcABC")')).toBe(3);
+    expect(value('=SEARCH("~?", "why?")')).toBe(4);
+    expect(value('=SEARCH("a", "abc", 0)')).toBe('#VALUE!');
+  });
+
+  test('TEXTJOIN・TEXTBEFORE・TEXTAFTER・TEXTSPLIT', () => {
+    expect(value('=TEXTJOIN("、", TRUE, A1:A4)')).toBe('山田、佐藤、鈴木');
+    expect(value('=TEXTJOIN("/", FALSE, A1:A4)')).toBe('山田/佐藤//鈴木');
+    expect(value('=TEXTBEFORE(B1, " ")')).toBe('東京都');
+    expect(value('=TEXTAFTER(B1, " ", 2)')).toBe('1-1');
+    expect(value('=TEXTBEFORE(B1, " ", -1)')).toBe('東京都 千代田区');
+    expect(value('=TEXTAFTER("a-b", "X")')).toBe('#N/A');
+    expect(value('=TEXTAFTER("a-b", "X", 1, 0, 0, "なし")')).toBe('なし');
+    expect(value('=TEXTBEFORE("aXbxc", "x", 1, 1)')).toBe('a');
+    expect(value('=TEXTBEFORE("abc", "-", 1, 0, 1)')).toBe('abc');
+    expect(value('=TEXTBEFORE("abc", "b", 0)')).toBe('#VALUE!');
+    // 配列の結果は左上の値を返す
+    expect(value('=TEXTSPLIT(B1, " ")')).toBe('東京都');
+    expect(value('=TEXTSPLIT("a,b", ",", , , , "-")')).toBe('a');
+  });
+
+  test('VALUE・NUMBERVALUE・CHAR・CODE・UNICODE', () => {
+    expect(value('=VALUE("1,234.5")')).toBe(1234.5);
+    expect(value('=VALUE("12%")')).toBeCloseTo(0.12, 12);
+    expect(value('=VALUE("2024/3/1")')).toBe(45352);
+    expect(value('=VALUE("18:00")')).toBe(0.75);
+    expect(value('=VALUE("abc")')).toBe('#VALUE!');
+    expect(value('=NUMBERVALUE("1.234,5", ",", ".")')).toBe(1234.5);
+    expect(value('=NUMBERVALUE(" 3 5 %")')).toBeCloseTo(0.35, 12);
+    expect(value('=NUMBERVALUE("1,5.0")')).toBe(15);
+    expect(value('=NUMBERVALUE("1.5,0")')).toBe('#VALUE!');
+    expect(value('=NUMBERVALUE("1", ".", ".")')).toBe('#VALUE!');
+    expect(value('=CHAR(65)')).toBe('A');
+    expect(value('=CHAR(256)')).toBe('#VALUE!');
+    expect(value('=CODE("Abc")')).toBe(65);
+    expect(value('=UNICODE("あ")')).toBe(0x3042);
+    expect(value('=UNICHAR(128512)')).toBe('😀');
+  });
+
+  test('REGEXMATCH・REGEXEXTRACT・REGEXREPLACE', () => {
+    expect(value('=REGEXMATCH("ID-123", "\\d+")')).toBe(true);
+    expect(value('=REGEXMATCH("abc", "B")')).toBe(false);
+    expect(value('=REGEXMATCH("abc", "B", 1)')).toBe(true);
+    expect(value('=REGEXEXTRACT("tel: 03-1234-5678", "\\d+")')).toBe('03');
+    expect(value('=REGEXEXTRACT("tel: 03-1234-5678", "(\\d+)-(\\d+)", 2)')).toBe('03');
+    expect(value('=REGEXEXTRACT("abc", "\\d")')).toBe('#N/A');
+    expect(value('=REGEXEXTRACT("abc", "(")')).toBe('#VALUE!');
+    expect(value('=REGEXEXTRACT("f(x)", "\\(")')).toBe('(');
+    expect(value('=REGEXREPLACE("2024-03-01", "(\\d+)-(\\d+)-(\\d+)", "$1年$2月$3日")')).toBe('2024年03月01日');
+    expect(value('=REGEXREPLACE("a1b2c3", "\\d", "#")')).toBe('a#b#c#');
+    expect(value('=REGEXREPLACE("a1b2c3", "\\d", "#", 2)')).toBe('a1b#c3');
+    expect(value('=REGEXREPLACE("a1b2c3", "\\d", "#", -1)')).toBe('a1b2c#');
+  });
+
+  test('ASC・JISは英数字・カタカナの全角と半角を変換すること', () => {
+    expect(value('=ASC("ＡＢＣ１２３　ガッコウ")')).toBe('ABC123 ｶﾞｯｺｳ');
+    expect(value('=ASC("パソコン、ひらがな")')).toBe('ﾊﾟｿｺﾝ､ひらがな');
+    expect(value('=JIS(B2)')).toBe('オオサカフ　キタク');
+    expect(value('=JIS("ﾊﾞｲｵﾘﾝ ｳﾞｨｰﾅｽ 2-1")')).toBe('バイオリン　ヴィーナス　２－１');
+    expect(toFullWidth(toHalfWidth('データ・ベース（ＤＢ）'))).toBe('データ・ベース（ＤＢ）');
+  });
+});
+
+describe('数式エンジンの文字列関数', () => {
+  test('HyperFormulaにないTEXTJOIN・REGEXREPLACE・ASCなども評価できること', () => {
+    const engine = createFormulaEngine();
+    expect(engine.evaluateFormula('=TEXTJOIN("-", TRUE(), "a", "", "b")').value).toBe('a-b');
+    expect(engine.evaluateFormula('=TEXTAFTER("key=value", "=")').value).toBe('value');
+    expect(engine.evaluateFormula('=REGEXREPLACE("a1b2", "\\d", "")').value).toBe('ab');
+    expect(engine.evaluateFormula('=VALUE("1,234")').value).toBe(1234);
+    expect(engine.evaluateFormula('=ASC("ＡＢＣ")').value).toBe('ABC');
+    expect(engine.evaluateFormula('=REGEXEXTRACT("abc", "\\d")')).toMatchObject({ success: false, displayValue: '#N/A' });
+    engine.destroy();
+  });
+});
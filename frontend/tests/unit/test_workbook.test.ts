@@ -0,0 +1,154 @@
+/**
+ * ワークブック操作 ユニットテスト
+ * シートの追加・名前変更・並び替え・削除・複製と数式エンジンの複数シート対応
+ */
+import { describe, test, expect } from '@jest/globals';
+
+import {
+  createNewWorkbook,
+  addSheet,
+  renameSheet,
+  moveSheet,
+  deleteSheet,
+  duplicateSheet,
+  setActiveSheet,
+  updateSheet
+} from '../../src/lib/spreadsheet-core/workbook';
+import { setCellValue } from '../../src/lib/spreadsheet-core';
+import { getActiveSheet, validateWorkbook } from '../../src/lib/workbook';
+import { createFormulaEngine } from '../../src/lib/formula-engine';
+
+const sheetNames = (workbook: { sheets: { name: string }[] }) => workbook.sheets.map(sheet => sheet.name);
+
+describe('ワークブック操作', () => {
+  test('既定ではSheet1のみを持つワークブックが作成されること', () => {
+    const { workbook } = createNewWorkbook('予算');
+
+    expect(workbook.name).toBe('予算');
+    expect(sheetNames(workbook)).toEqual(['Sheet1']);
+    expect(getActiveSheet(workbook).name).toBe('Sheet1');
+    expect(validateWorkbook(workbook).isValid).toBe(true);
+  });
+
+  test('シートを末尾と指定位置に追加できること', () => {
+    const { workbook } = createNewWorkbook('予算');
+    const appended = addSheet(workbook);
+    expect(appended.success).toBe(true);
+    expect(sheetNames(appended.workbook)).toEqual(['Sheet1', 'Sheet2']);
+
+    const inserted = addSheet(appended.workbook, '入力', 0);
+    expect(sheetNames(inserted.workbook)).toEqual(['入力', 'Sheet1', 'Sheet2']);
+  });
+
+  test('重複・不正なシート名は拒否されること', () => {
+    const { workbook } = createNewWorkbook('予算', ['Sheet1', 'Sheet2']);
+
+    expect(addSheet(workbook, 'sheet1').success).toBe(false);
+    expect(addSheet(workbook, 'a/b').success).toBe(false);
+    expect(renameSheet(workbook, workbook.sheets[1].id, 'Sheet1').success).toBe(false);
+    expect(renameSheet(workbook, workbook.sheets[1].id, 'x'.repeat(32)).success).toBe(false);
+  });
+
+  test('シート名を変更できること', () => {
+    const { workbook } = createNewWorkbook('予算', ['Sheet1', 'Sheet2']);
+    const result = renameSheet(workbook, workbook.sheets[1].id, ' 集計 ');
+
+    expect(result.success).toBe(true);
+    expect(sheetNames(result.workbook)).toEqual(['Sheet1', '集計']);
+  });
+
+  test('シートを並び替えできること', () => {
+    const { workbook } = createNewWorkbook('予算', ['A', 'B', 'C']);
+    const result = moveSheet(workbook, workbook.sheets[0].id, 2);
+
+    expect(result.success).toBe(true);
+    expect(sheetNames(result.workbook)).toEqual(['B', 'C', 'A']);
+    expect(moveSheet(workbook, workbook.sheets[0].id, 3).success).toBe(false);
+  });
+
+  test('アクティブシートを削除すると隣のシートがアクティブになること', () => {
+    const { workbook } = createNewWorkbook('予算', ['A', 'B', 'C']);
+    const active = setActiveSheet(workbook, workbook.sheets[1].id).workbook;
+    const result = deleteSheet(active, workbook.sheets[1].id);
+
+    expect(result.success).toBe(true);
+    expect(sheetNames(result.workbook)).toEqual(['A', 'C']);
+    expect(getActiveSheet(result.workbook).name).toBe('C');
+  });
+
+  test('最後のシートは削除できないこと', () => {
+    const { workbook } = createNewWorkbook('予算');
+    const result = deleteSheet(workbook, workbook.sheets[0].id);
+
+    expect(result.success).toBe(false);
+    expect(result.workbook.sheets).toHaveLength(1);
+  });
+
+  test('シートを複製すると独立したセルを持つコピーが直後に挿入されること', () => {
+    const { workbook } = createNewWorkbook('予算', ['A', 'B']);
+    const filled = setCellValue(workbook.sheets[0], { row: 0, column: 0 }, '100');
+    const withData = updateSheet(workbook, filled.spreadsheet).workbook;
+
+    const result = duplicateSheet(withData, withData.sheets[0].id);
+    expect(result.success).toBe(true);
+    expect(sheetNames(result.workbook)).toEqual(['A', 'A (2)', 'B']);
+
+    const copy = result.workbook.sheets[1];
+    expect(copy.id).not.toBe(withData.sheets[0].id);
+    expect(copy.cells.get('0-0')?.rawValue).toBe('100');
+
+    const edited = setCellValue(copy, { row: 0, column: 0 }, '200');
+    expect(edited.spreadsheet.cells.get('0-0')?.rawValue).toBe('200');
+    expect(withData.sheets[0].cells.get('0-0')?.rawValue).toBe('100');
+  });
+
+  test('シートを複製すると自シートを参照する数式は複製先のシートを参照すること', () => {
+    const { workbook } = createNewWorkbook('予算', ['A', 'B']);
+    let sheet = setCellValue(workbook.sheets[0], { row: 0, column: 0 }, '=A!B1*2').spreadsheet;
+    sheet = setCellValue(sheet, { row: 0, column: 1 }, '=B!A1').spreadsheet;
+    const withData = updateSheet(workbook, sheet).workbook;
+
+    const result = duplicateSheet(withData, withData.sheets[0].id, 'Copy');
+    expect(result.success).toBe(true);
+
+    const copy = result.workbook.sheets[1];
+    expect(copy.cells.get('0-0')?.rawValue).toBe('=Copy!B1*2');
+    expect(copy.cells.get('0-1')?.rawValue).toBe('=B!A1');
+    // 複製元のシートの数式は変わらない
+    expect(result.workbook.sheets[0].cells.get('0-0')?.rawValue).toBe('=A!B1*2');
+  });
+});
+
+describe('数式エンジンの複数シート対応', () => {
+  test('ワークブックの全シートを設定してシートごとに計算できること', () => {
+    let { workbook } = createNewWorkbook('予算', ['入力', '集計']);
+    const input = setCellValue(workbook.sheets[0], { row: 0, column: 0 }, '40');
+    workbook = updateSheet(workbook, input.spreadsheet).workbook;
+    const summary = setCellValue(workbook.sheets[1], { row: 0, column: 0 }, '=2+3');
+    workbook = updateSheet(workbook, summary.spreadsheet).workbook;
+
+    const engine = createFormulaEngine();
+    engine.setWorkbookData(workbook);
+
+    expect(engine.getSheetNames()).toEqual(['入力', '集計']);
+    expect(engine.calculateCell({ row: 0, column: 0 }, '入力').value).toBe(40);
+    expect(engine.calculateCell({ row: 0, column: 0 }, '集計').value).toBe(5);
+    // アクティブシートは先頭のシート
+    expect(engine.calculateCell({ row: 0, column: 0 }).value).toBe(40);
+
+    expect(engine.calculateCell({ row: 0, column: 0 }, '存在しない').success).toBe(false);
+    engine.destroy();
+  });
+
+  test('ワークブックから削除されたシートはエンジンからも削除されること', () => {
+    const { workbook } = createNewWorkbook('予算', ['A', 'B']);
+    const engine = createFormulaEngine();
+    engine.setWorkbookData(workbook);
+
+    const reduced = deleteSheet(workbook, workbook.sheets[1].id).workbook;
+    engine.setWorkbookData(reduced);
+
+    expect(engine.getSheetNames()).toEqual(['A']);
+    engine.destroy();
+  });
+});